@@ -0,0 +1,401 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations, useFormatter } from "next-intl"
+import { toast } from "sonner"
+import {
+  IconAlertCircle,
+  IconBulb,
+  IconCheck,
+  IconGitMerge,
+  IconLoader2,
+  IconX,
+} from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import type {
+  ConceptProposal,
+  ConceptProposalStatusValue,
+  ConceptReviewInput,
+} from "@/lib/types/concept-proposal"
+
+const STATUS_TABS: ConceptProposalStatusValue[] = ["pending", "approved", "merged", "rejected"]
+
+const statusVariant: Record<
+  ConceptProposalStatusValue,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "outline",
+  approved: "default",
+  merged: "secondary",
+  rejected: "destructive",
+}
+
+interface ProposalCardProps {
+  proposal: ConceptProposal
+  onReviewed: (proposal: ConceptProposal) => void
+}
+
+function ProposalCard({ proposal, onReviewed }: ProposalCardProps) {
+  const t = useTranslations("conceptReview")
+  const format = useFormatter()
+  const [note, setNote] = React.useState("")
+  const [mergeTarget, setMergeTarget] = React.useState("")
+  const [submitting, setSubmitting] = React.useState<ConceptReviewInput["decision"] | null>(null)
+
+  const isPending = proposal.status === "pending"
+  const awaitingApply =
+    (proposal.status === "approved" || proposal.status === "merged") && !proposal.appliedAt
+  const { concept, provenance } = proposal
+
+  const submit = async (review: ConceptReviewInput) => {
+    setSubmitting(review.decision)
+    try {
+      const response = await fetch(
+        `/api/graph/concepts/proposals/${encodeURIComponent(proposal.id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(review),
+        }
+      )
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.message ?? body.error ?? t("reviewError"))
+      }
+      // Decisions only update the review queue until the apply step writes them to the graph
+      toast.success(t(`reviewed_${review.decision}`, { label: proposal.prefLabel }), {
+        description: review.decision === "reject" ? undefined : t("applyPending"),
+      })
+      onReviewed(body.proposal)
+    } catch (reviewError) {
+      console.error("Error reviewing concept proposal:", reviewError)
+      toast.error(t("reviewError"), {
+        description: reviewError instanceof Error ? reviewError.message : undefined,
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const trimmedNote = note.trim() || undefined
+  const merge = (mergedIntoId: string) =>
+    submit({ decision: "merge", mergedIntoId, note: trimmedNote })
+
+  const formatDateTime = (dateString: string) =>
+    format.dateTime(new Date(dateString), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hour12: false,
+    })
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={statusVariant[proposal.status]}>{t(`status_${proposal.status}`)}</Badge>
+          {awaitingApply && <Badge variant="outline">{t("awaitingApply")}</Badge>}
+          <CardTitle className="text-base">{proposal.prefLabel}</CardTitle>
+          <span className="font-mono text-xs text-muted-foreground">{proposal.conceptId}</span>
+        </div>
+        <CardDescription className="flex flex-wrap gap-x-4 gap-y-1">
+          <span>
+            {t("captured")}: {formatDateTime(proposal.createdAt)}
+          </span>
+          <span>
+            {t("model")}: {provenance.model ?? t("unknown")}
+          </span>
+          <span className="font-mono">
+            {t("conversation")}: {provenance.conversationId ?? t("unknown")}
+          </span>
+          {provenance.traceId && (
+            <span className="font-mono">
+              {t("trace")}: {provenance.traceId}
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {concept.definition && <p className="text-sm">{concept.definition}</p>}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {concept.domain && (
+            <span>
+              {t("domain")}: {concept.domain}
+            </span>
+          )}
+          {concept.kind && (
+            <span>
+              {t("kind")}: {concept.kind}
+            </span>
+          )}
+          {concept.jurisdiction && (
+            <span>
+              {t("jurisdiction")}: {concept.jurisdiction}
+            </span>
+          )}
+        </div>
+        {concept.altLabels && concept.altLabels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground">{t("altLabels")}:</span>
+            {concept.altLabels.map((label) => (
+              <Badge key={label} variant="outline">
+                {label}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {proposal.suggestedDuplicates.length > 0 && (
+          <div className="space-y-2 rounded-md border border-dashed p-3">
+            <p className="text-sm font-medium">{t("possibleDuplicates")}</p>
+            {proposal.suggestedDuplicates.map((suggestion) => (
+              <div
+                key={suggestion.conceptId}
+                className="flex flex-wrap items-center justify-between gap-2 text-sm"
+              >
+                <span>
+                  {suggestion.prefLabel}{" "}
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {suggestion.conceptId}
+                  </span>{" "}
+                  <span className="text-xs text-muted-foreground">
+                    {t("matchedLabel", { label: suggestion.matchedLabel })}
+                  </span>
+                </span>
+                {isPending && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={submitting !== null}
+                    onClick={() => merge(suggestion.conceptId)}
+                  >
+                    <IconGitMerge className="mr-2 h-4 w-4" aria-hidden="true" />
+                    {t("mergeInto")}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isPending && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>
+              {t("reviewedBy", {
+                reviewer: proposal.reviewedBy ?? t("unknown"),
+                date: proposal.reviewedAt ? formatDateTime(proposal.reviewedAt) : "—",
+              })}
+            </p>
+            {proposal.mergedIntoId && (
+              <p className="font-mono">
+                {t("mergedInto")}: {proposal.mergedIntoId}
+              </p>
+            )}
+            {proposal.reviewNote && (
+              <p>
+                {t("note")}: {proposal.reviewNote}
+              </p>
+            )}
+            {proposal.appliedAt && (
+              <p>{t("appliedAt", { date: formatDateTime(proposal.appliedAt) })}</p>
+            )}
+            {awaitingApply && (
+              <>
+                <p>{t("notApplied")}</p>
+                <p>{t("applyPending")}</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {isPending && (
+          <div className="flex flex-col gap-2">
+            <Label htmlFor={`note-${proposal.id}`}>{t("note")}</Label>
+            <Textarea
+              id={`note-${proposal.id}`}
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder={t("notePlaceholder")}
+              rows={2}
+            />
+          </div>
+        )}
+      </CardContent>
+      {isPending && (
+        <CardFooter className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+          <div className="flex flex-1 flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex flex-1 flex-col gap-2">
+              <Label htmlFor={`merge-${proposal.id}`}>{t("mergeTargetLabel")}</Label>
+              <Input
+                id={`merge-${proposal.id}`}
+                value={mergeTarget}
+                onChange={(event) => setMergeTarget(event.target.value)}
+                placeholder={t("mergeTargetPlaceholder")}
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={!mergeTarget.trim() || submitting !== null}
+              onClick={() => merge(mergeTarget.trim())}
+            >
+              {submitting === "merge" ? (
+                <IconLoader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <IconGitMerge className="mr-2 h-4 w-4" aria-hidden="true" />
+              )}
+              {t("merge")}
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="destructive"
+              disabled={submitting !== null}
+              onClick={() => submit({ decision: "reject", note: trimmedNote })}
+            >
+              {submitting === "reject" ? (
+                <IconLoader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <IconX className="mr-2 h-4 w-4" aria-hidden="true" />
+              )}
+              {t("reject")}
+            </Button>
+            <Button
+              disabled={submitting !== null}
+              onClick={() => submit({ decision: "approve", note: trimmedNote })}
+            >
+              {submitting === "approve" ? (
+                <IconLoader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <IconCheck className="mr-2 h-4 w-4" aria-hidden="true" />
+              )}
+              {t("approve")}
+            </Button>
+          </div>
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
+
+export default function ConceptReviewPage() {
+  const t = useTranslations("conceptReview")
+  const [status, setStatus] = React.useState<ConceptProposalStatusValue>("pending")
+  const [result, setResult] = React.useState<{
+    status: ConceptProposalStatusValue
+    proposals: ConceptProposal[]
+    error: string | null
+  } | null>(null)
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    fetch(`/api/graph/concepts/proposals?status=${status}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.message ?? body.error ?? t("error"))
+        }
+        setResult({ status, proposals: body.proposals, error: null })
+      })
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return
+        console.error("Error fetching concept proposals:", fetchError)
+        setResult({
+          status,
+          proposals: [],
+          error: fetchError instanceof Error ? fetchError.message : t("error"),
+        })
+      })
+
+    return () => controller.abort()
+  }, [status, t])
+
+  // Proposals for a previous tab are never shown while the next one loads
+  const current = result?.status === status ? result : null
+  const proposals = current?.proposals ?? []
+  const error = current?.error ?? null
+
+  // A reviewed proposal leaves the pending queue
+  const handleReviewed = (reviewed: ConceptProposal) => {
+    setResult((previous) =>
+      previous && {
+        ...previous,
+        proposals: previous.proposals.filter((proposal) => proposal.id !== reviewed.id),
+      }
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-4 md:p-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-semibold tracking-tight">
+          <IconBulb className="h-6 w-6" aria-hidden="true" />
+          {t("pageTitle")}
+        </h1>
+        <p className="text-muted-foreground">{t("pageDescription")}</p>
+        <p className="mt-1 text-sm text-muted-foreground">{t("applyHint")}</p>
+      </div>
+
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as ConceptProposalStatusValue)}
+      >
+        <TabsList>
+          {STATUS_TABS.map((tab) => (
+            <TabsTrigger key={tab} value={tab}>
+              {t(`status_${tab}`)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {!current ? (
+        <div className="space-y-4" aria-label={t("loading")}>
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-center gap-3 py-6">
+            <IconAlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+            <p className="text-sm">{error}</p>
+          </CardContent>
+        </Card>
+      ) : proposals.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <IconBulb className="h-12 w-12 text-muted-foreground" aria-hidden="true" />
+            <p className="mt-4 text-sm text-muted-foreground">{t(`empty_${status}`)}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t("proposalCount", { count: proposals.length })}
+          </p>
+          {proposals.map((proposal) => (
+            <ProposalCard key={proposal.id} proposal={proposal} onReviewed={handleReviewed} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
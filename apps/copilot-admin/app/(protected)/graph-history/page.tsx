@@ -0,0 +1,288 @@
+"use client"
+
+import * as React from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useTranslations, useFormatter } from "next-intl"
+import {
+  IconAlertCircle,
+  IconArrowRight,
+  IconHistory,
+  IconLoader2,
+  IconSearch,
+} from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+type ChangeType = "added" | "updated" | "removed"
+
+interface GraphChange {
+  id: string
+  batchId: string | null
+  author: string | null
+  source: string
+  entity: "node" | "edge"
+  change: ChangeType
+  nodeId: string | null
+  nodeLabel: string | null
+  edge: { source: string; target: string; type: string } | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changedAt: string
+}
+
+const changeVariant: Record<ChangeType, "default" | "secondary" | "destructive"> = {
+  added: "default",
+  updated: "secondary",
+  removed: "destructive",
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—"
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+/**
+ * Properties whose values differ between the two sides of a change
+ */
+function changedProperties(change: GraphChange): string[] {
+  const before = change.before ?? {}
+  const after = change.after ?? {}
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((key) => formatValue(before[key]) !== formatValue(after[key]))
+    .sort()
+}
+
+function GraphHistoryContent() {
+  const t = useTranslations("graphHistory")
+  const format = useFormatter()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const nodeId = searchParams.get("nodeId") ?? ""
+
+  const [input, setInput] = React.useState(nodeId)
+  const [result, setResult] = React.useState<{
+    nodeId: string
+    changes: GraphChange[]
+    error: string | null
+  } | null>(null)
+
+  React.useEffect(() => {
+    if (!nodeId) return
+
+    const controller = new AbortController()
+    fetch(`/api/graph/nodes/${encodeURIComponent(nodeId)}/history`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.message ?? body.error ?? t("error"))
+        }
+        setResult({ nodeId, changes: body.changes, error: null })
+      })
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return
+        console.error("Error fetching graph history:", fetchError)
+        setResult({
+          nodeId,
+          changes: [],
+          error: fetchError instanceof Error ? fetchError.message : t("error"),
+        })
+      })
+
+    return () => controller.abort()
+  }, [nodeId, t])
+
+  // Results for a previous node are never shown while the next one loads
+  const current = result?.nodeId === nodeId ? result : null
+  const isLoading = Boolean(nodeId) && !current
+  const changes = current?.changes ?? []
+  const error = current?.error ?? null
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = input.trim()
+    router.push(trimmed ? `/graph-history?nodeId=${encodeURIComponent(trimmed)}` : "/graph-history")
+  }
+
+  const formatDateTime = (dateString: string) =>
+    format.dateTime(new Date(dateString), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hour12: false,
+    })
+
+  return (
+    <div className="flex flex-col gap-6 p-4 md:p-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-semibold tracking-tight">
+          <IconHistory className="h-6 w-6" aria-hidden="true" />
+          {t("pageTitle")}
+        </h1>
+        <p className="text-muted-foreground">{t("pageDescription")}</p>
+      </div>
+
+      {/* Node Search */}
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex flex-1 flex-col gap-2">
+              <Label htmlFor="graph-node-id">{t("nodeIdLabel")}</Label>
+              <Input
+                id="graph-node-id"
+                value={input}
+                onChange={(event) => setInput(event.target.value)}
+                placeholder={t("nodeIdPlaceholder")}
+              />
+            </div>
+            <Button type="submit" disabled={!input.trim() || isLoading}>
+              {isLoading ? (
+                <IconLoader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <IconSearch className="mr-2 h-4 w-4" aria-hidden="true" />
+              )}
+              {t("showHistory")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      {!nodeId ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <IconHistory className="h-12 w-12 text-muted-foreground" aria-hidden="true" />
+            <p className="mt-4 text-sm text-muted-foreground">{t("emptyState")}</p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="space-y-4" aria-label={t("loading")}>
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-center gap-3 py-6">
+            <IconAlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+            <p className="text-sm">{error}</p>
+          </CardContent>
+        </Card>
+      ) : changes.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <p className="text-lg font-medium">{t("noChanges")}</p>
+            <p className="mt-1 text-sm text-muted-foreground">{t("noChangesDescription")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {t("changeCount", { count: changes.length })}
+          </p>
+          {changes.map((change) => {
+            const properties = changedProperties(change)
+            return (
+              <Card key={change.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={changeVariant[change.change]}>
+                      {t(`change_${change.change}`)}
+                    </Badge>
+                    <Badge variant="outline">{t(`entity_${change.entity}`)}</Badge>
+                    <CardTitle className="text-base">
+                      {change.edge ? (
+                        <span className="flex flex-wrap items-center gap-1 font-mono text-sm">
+                          {change.edge.source}
+                          <IconArrowRight className="h-4 w-4" aria-hidden="true" />
+                          <span className="text-muted-foreground">{change.edge.type}</span>
+                          <IconArrowRight className="h-4 w-4" aria-hidden="true" />
+                          {change.edge.target}
+                        </span>
+                      ) : (
+                        <span className="font-mono text-sm">
+                          {change.nodeLabel ? `${change.nodeLabel} ` : ""}
+                          {change.nodeId}
+                        </span>
+                      )}
+                    </CardTitle>
+                  </div>
+                  <CardDescription className="flex flex-wrap gap-x-4 gap-y-1">
+                    <span>{formatDateTime(change.changedAt)}</span>
+                    <span>
+                      {t("author")}: {change.author ?? t("unknownAuthor")}
+                    </span>
+                    <span>
+                      {t("source")}: {change.source}
+                    </span>
+                    {change.batchId && (
+                      <span className="font-mono">
+                        {t("batch")}: {change.batchId}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                {properties.length > 0 && (
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{t("property")}</TableHead>
+                          <TableHead>{t("before")}</TableHead>
+                          <TableHead>{t("after")}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {properties.map((property) => (
+                          <TableRow key={property}>
+                            <TableCell className="font-mono text-xs">{property}</TableCell>
+                            <TableCell className="max-w-xs break-words text-xs text-muted-foreground">
+                              {formatValue(change.before?.[property])}
+                            </TableCell>
+                            <TableCell className="max-w-xs break-words text-xs">
+                              {formatValue(change.after?.[property])}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                )}
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function GraphHistoryPage() {
+  return (
+    <React.Suspense fallback={null}>
+      <GraphHistoryContent />
+    </React.Suspense>
+  )
+}
@@ -0,0 +1,717 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { useTranslations, useFormatter } from "next-intl"
+import { toast } from "sonner"
+import {
+  IconAlertCircle,
+  IconAlertTriangle,
+  IconArrowLeft,
+  IconPlus,
+  IconRoute,
+  IconTrash,
+} from "@tabler/icons-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  egressModes,
+  type EgressModeValue,
+  type LlmPolicyCatalog,
+  type LlmPolicyCheck,
+  type LlmTaskPolicyInput,
+  type TenantLlmPolicyInput,
+  type TenantLlmPolicyResponse,
+} from "@/lib/types/llm-policy"
+
+/** Select value for "no egress mode set" (inherit the next level) */
+const INHERIT = "inherit"
+
+interface UserOverrideRow {
+  userId: string
+  egressMode?: EgressModeValue
+  allowOffMode?: boolean
+}
+
+interface PolicyForm extends Omit<TenantLlmPolicyInput, "userPolicies"> {
+  userPolicies: UserOverrideRow[]
+}
+
+function toForm(policy: TenantLlmPolicyInput): PolicyForm {
+  return {
+    ...policy,
+    userPolicies: Object.entries(policy.userPolicies ?? {}).map(([userId, override]) => ({
+      userId,
+      ...override,
+    })),
+  }
+}
+
+function toInput(form: PolicyForm): TenantLlmPolicyInput {
+  const userPolicies: NonNullable<TenantLlmPolicyInput["userPolicies"]> = {}
+  for (const { userId, ...override } of form.userPolicies) {
+    if (userId.trim()) {
+      userPolicies[userId.trim()] = override
+    }
+  }
+  return {
+    ...form,
+    tasks: form.tasks.map((task) => ({ ...task, task: task.task.trim() })),
+    userPolicies,
+  }
+}
+
+function emptyForm(catalog: LlmPolicyCatalog): PolicyForm {
+  const provider = catalog.providers.find((id) => catalog.models[id]?.length) ?? catalog.providers[0] ?? ""
+  return {
+    defaultProvider: provider,
+    defaultModel: catalog.models[provider]?.[0] ?? "",
+    allowRemoteEgress: true,
+    tasks: [],
+    userPolicies: [],
+  }
+}
+
+function parseNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value)
+}
+
+async function readJson(response: Response, fallback: string) {
+  const body = await response.json()
+  if (!response.ok && !body.issues) {
+    throw new Error(body.message ?? body.error ?? fallback)
+  }
+  return body
+}
+
+interface TargetFieldsProps {
+  catalog: LlmPolicyCatalog
+  provider: string
+  model: string
+  disabled: boolean
+  onChange: (target: { provider: string; model: string }) => void
+}
+
+/**
+ * Provider and priced model pickers for a policy default, task or fallback
+ */
+function TargetFields({ catalog, provider, model, disabled, onChange }: TargetFieldsProps) {
+  const t = useTranslations("llmPolicy")
+  const providers = catalog.providers.includes(provider) || !provider
+    ? catalog.providers
+    : [...catalog.providers, provider]
+  const pricedModels = catalog.models[provider] ?? []
+  const models = pricedModels.includes(model) || !model ? pricedModels : [...pricedModels, model]
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={provider || undefined}
+        disabled={disabled}
+        onValueChange={(value) => onChange({ provider: value, model: catalog.models[value]?.[0] ?? "" })}
+      >
+        <SelectTrigger className="w-32" aria-label={t("provider")}>
+          <SelectValue placeholder={t("provider")} />
+        </SelectTrigger>
+        <SelectContent>
+          {providers.map((id) => (
+            <SelectItem key={id} value={id}>
+              {id}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={model || undefined}
+        disabled={disabled || models.length === 0}
+        onValueChange={(value) => onChange({ provider, model: value })}
+      >
+        <SelectTrigger className="w-56 font-mono text-xs" aria-label={t("model")}>
+          <SelectValue placeholder={models.length ? t("model") : t("noPricedModels")} />
+        </SelectTrigger>
+        <SelectContent>
+          {models.map((id) => (
+            <SelectItem key={id} value={id} className="font-mono text-xs">
+              {id}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+interface EgressModeSelectProps {
+  value: EgressModeValue | undefined
+  disabled: boolean
+  label: string
+  onChange: (value: EgressModeValue | undefined) => void
+}
+
+function EgressModeSelect({ value, disabled, label, onChange }: EgressModeSelectProps) {
+  const t = useTranslations("llmPolicy")
+  return (
+    <Select
+      value={value ?? INHERIT}
+      disabled={disabled}
+      onValueChange={(mode) => onChange(mode === INHERIT ? undefined : (mode as EgressModeValue))}
+    >
+      <SelectTrigger className="w-40" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT}>{t("egressInherit")}</SelectItem>
+        {egressModes.map((mode) => (
+          <SelectItem key={mode} value={mode}>
+            {t(`egress_${mode}`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export default function TenantLlmPolicyPage() {
+  const t = useTranslations("llmPolicy")
+  const tCommon = useTranslations("common")
+  const format = useFormatter()
+  const { tenantId } = useParams<{ tenantId: string }>()
+  const [result, setResult] = React.useState<{
+    data: TenantLlmPolicyResponse | null
+    error: string | null
+  } | null>(null)
+  const [form, setForm] = React.useState<PolicyForm | null>(null)
+  const [check, setCheck] = React.useState<LlmPolicyCheck | null>(null)
+  const [busy, setBusy] = React.useState<"preview" | "save" | null>(null)
+
+  const policyUrl = `/api/tenants/${encodeURIComponent(tenantId)}/llm-policy`
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    fetch(policyUrl, { signal: controller.signal })
+      .then((response) => readJson(response, t("error")))
+      .then((body: TenantLlmPolicyResponse) => {
+        setResult({ data: body, error: null })
+        setForm(body.policy ? toForm(body.policy) : null)
+        setCheck(body.policy ? { issues: body.issues, preview: body.preview } : null)
+      })
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return
+        console.error("Error fetching LLM policy:", fetchError)
+        setResult({
+          data: null,
+          error: fetchError instanceof Error ? fetchError.message : t("error"),
+        })
+      })
+
+    return () => controller.abort()
+  }, [policyUrl, t])
+
+  const data = result?.data
+  const catalog = data?.catalog
+  const readOnly = !data?.canEdit || busy !== null
+
+  const updateTask = (index: number, task: Partial<LlmTaskPolicyInput>) =>
+    form && setForm({
+      ...form,
+      tasks: form.tasks.map((current, i) => (i === index ? { ...current, ...task } : current)),
+    })
+
+  const updateUser = (index: number, override: Partial<UserOverrideRow>) =>
+    form && setForm({
+      ...form,
+      userPolicies: form.userPolicies.map((current, i) => (i === index ? { ...current, ...override } : current)),
+    })
+
+  const submit = async (mode: "preview" | "save") => {
+    if (!form) return
+    setBusy(mode)
+    try {
+      const response = await fetch(mode === "preview" ? `${policyUrl}/preview` : policyUrl, {
+        method: mode === "preview" ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toInput(form)),
+      })
+      const body = await readJson(response, mode === "preview" ? t("previewError") : t("saveError"))
+      setCheck({ issues: body.issues, preview: body.preview })
+
+      if (mode === "save") {
+        if (!response.ok) {
+          toast.error(t("saveError"), { description: t("saveBlocked") })
+          return
+        }
+        setForm(toForm(body.policy))
+        setResult((current) =>
+          current?.data
+            ? { ...current, data: { ...current.data, policy: body.policy, updatedAt: body.updatedAt } }
+            : current
+        )
+        toast.success(t("saved"))
+      }
+    } catch (submitError) {
+      console.error(`Error during LLM policy ${mode}:`, submitError)
+      toast.error(mode === "preview" ? t("previewError") : t("saveError"), {
+        description: submitError instanceof Error ? submitError.message : undefined,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const issuesFor = (prefix: string) =>
+    (check?.issues ?? []).filter((issue) => issue.path === prefix || issue.path.startsWith(`${prefix}.`))
+
+  return (
+    <div className="flex flex-col gap-6 p-4 md:p-6">
+      {/* Page Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="-ml-2 mb-2">
+            <Link href="/tenants">
+              <IconArrowLeft className="mr-1 h-4 w-4" aria-hidden="true" />
+              {t("back")}
+            </Link>
+          </Button>
+          <h1 className="flex items-center gap-2 text-2xl font-semibold tracking-tight">
+            <IconRoute className="h-6 w-6" aria-hidden="true" />
+            {data ? t("pageTitle", { name: data.tenant.name }) : t("pageTitleLoading")}
+          </h1>
+          <p className="text-muted-foreground">{t("pageDescription")}</p>
+          {data?.updatedAt && (
+            <p className="text-xs text-muted-foreground">
+              {t("updatedAt", { time: format.relativeTime(new Date(data.updatedAt)) })}
+            </p>
+          )}
+        </div>
+        {form && data?.canEdit && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={busy !== null}
+              onClick={() => {
+                setForm(data.policy ? toForm(data.policy) : null)
+                setCheck(data.policy ? { issues: data.issues, preview: data.preview } : null)
+              }}
+            >
+              {t("reset")}
+            </Button>
+            <Button variant="outline" disabled={busy !== null} onClick={() => submit("preview")}>
+              {busy === "preview" ? tCommon("loading") : t("preview")}
+            </Button>
+            <Button disabled={busy !== null} onClick={() => submit("save")}>
+              {busy === "save" ? tCommon("loading") : tCommon("save")}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!result ? (
+        <div className="space-y-2" aria-label={t("loading")}>
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : result.error || !data || !catalog ? (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-center gap-3 py-6">
+            <IconAlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+            <p className="text-sm">{result.error ?? t("error")}</p>
+          </CardContent>
+        </Card>
+      ) : !form ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <IconRoute className="h-12 w-12 text-muted-foreground" aria-hidden="true" />
+            <p className="mt-4 text-sm text-muted-foreground">{t("noPolicy")}</p>
+            {data.canEdit && (
+              <Button className="mt-4" onClick={() => setForm(emptyForm(catalog))}>
+                <IconPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+                {t("createPolicy")}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {!catalog.registryConfigured && (
+            <Alert>
+              <IconAlertTriangle className="h-4 w-4" aria-hidden="true" />
+              <AlertTitle>{t("registryUnverifiedTitle")}</AlertTitle>
+              <AlertDescription>{t("registryUnverified")}</AlertDescription>
+            </Alert>
+          )}
+
+          {check && check.issues.length > 0 && (
+            <Alert variant={check.issues.some((issue) => issue.severity === "error") ? "destructive" : "default"}>
+              <IconAlertCircle className="h-4 w-4" aria-hidden="true" />
+              <AlertTitle>{t("issuesTitle", { count: check.issues.length })}</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 space-y-1">
+                  {check.issues.map((issue) => (
+                    <li key={`${issue.path}-${issue.message}`} className="flex gap-2">
+                      <Badge variant={issue.severity === "error" ? "destructive" : "outline"}>
+                        {t(`severity_${issue.severity}`)}
+                      </Badge>
+                      <span className="font-mono text-xs">{issue.path}</span>
+                      <span>{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Tenant defaults */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("defaultsTitle")}</CardTitle>
+              <CardDescription>{t("defaultsDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-6">
+              <div className="grid gap-2">
+                <Label>{t("defaultModel")}</Label>
+                <TargetFields
+                  catalog={catalog}
+                  provider={form.defaultProvider}
+                  model={form.defaultModel}
+                  disabled={readOnly}
+                  onChange={({ provider, model }) =>
+                    setForm({ ...form, defaultProvider: provider, defaultModel: model })
+                  }
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="allow-remote-egress"
+                    checked={form.allowRemoteEgress}
+                    disabled={readOnly}
+                    onCheckedChange={(checked) => setForm({ ...form, allowRemoteEgress: checked })}
+                  />
+                  <Label htmlFor="allow-remote-egress">{t("allowRemoteEgress")}</Label>
+                </div>
+                <div className="grid gap-2">
+                  <Label>{t("egressMode")}</Label>
+                  <EgressModeSelect
+                    value={form.egressMode}
+                    disabled={readOnly}
+                    label={t("egressMode")}
+                    onChange={(egressMode) => setForm({ ...form, egressMode })}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="allow-off-mode"
+                    checked={form.allowOffMode ?? false}
+                    disabled={readOnly}
+                    onCheckedChange={(checked) => setForm({ ...form, allowOffMode: checked })}
+                  />
+                  <Label htmlFor="allow-off-mode">{t("allowOffMode")}</Label>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Task policies */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("tasksTitle")}</CardTitle>
+              <CardDescription>{t("tasksDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4">
+              {form.tasks.length === 0 && (
+                <p className="text-sm text-muted-foreground">{t("noTasks")}</p>
+              )}
+              {form.tasks.map((task, index) => (
+                <div
+                  key={index}
+                  className={`grid gap-3 rounded-md border p-3 ${issuesFor(`tasks.${index}`).some((issue) => issue.severity === "error") ? "border-destructive/50" : ""}`}
+                >
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="grid gap-1">
+                      <Label className="text-xs">{t("task")}</Label>
+                      <Input
+                        className="w-48 font-mono text-xs"
+                        value={task.task}
+                        placeholder="main-chat"
+                        disabled={readOnly}
+                        onChange={(event) => updateTask(index, { task: event.target.value })}
+                      />
+                    </div>
+                    <TargetFields
+                      catalog={catalog}
+                      provider={task.provider}
+                      model={task.model}
+                      disabled={readOnly}
+                      onChange={(target) => updateTask(index, target)}
+                    />
+                    <div className="grid gap-1">
+                      <Label className="text-xs">{t("temperature")}</Label>
+                      <Input
+                        type="number"
+                        className="w-24"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={task.temperature ?? ""}
+                        disabled={readOnly}
+                        onChange={(event) => updateTask(index, { temperature: parseNumber(event.target.value) })}
+                      />
+                    </div>
+                    <div className="grid gap-1">
+                      <Label className="text-xs">{t("maxTokens")}</Label>
+                      <Input
+                        type="number"
+                        className="w-28"
+                        min={1}
+                        value={task.maxTokens ?? ""}
+                        disabled={readOnly}
+                        onChange={(event) => updateTask(index, { maxTokens: parseNumber(event.target.value) })}
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={t("removeTask")}
+                      disabled={readOnly}
+                      onClick={() => setForm({ ...form, tasks: form.tasks.filter((_, i) => i !== index) })}
+                    >
+                      <IconTrash className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </div>
+                  <div className="grid gap-2 pl-4">
+                    <Label className="text-xs text-muted-foreground">{t("fallbacks")}</Label>
+                    {(task.fallbacks ?? []).map((fallback, fallbackIndex) => (
+                      <div key={fallbackIndex} className="flex items-center gap-2">
+                        <span className="w-6 text-xs text-muted-foreground tabular-nums">{fallbackIndex + 1}.</span>
+                        <TargetFields
+                          catalog={catalog}
+                          provider={fallback.provider}
+                          model={fallback.model}
+                          disabled={readOnly}
+                          onChange={(target) =>
+                            updateTask(index, {
+                              fallbacks: task.fallbacks?.map((current, i) =>
+                                i === fallbackIndex ? { ...current, ...target } : current
+                              ),
+                            })
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={t("removeFallback")}
+                          disabled={readOnly}
+                          onClick={() =>
+                            updateTask(index, {
+                              fallbacks: task.fallbacks?.filter((_, i) => i !== fallbackIndex),
+                            })
+                          }
+                        >
+                          <IconTrash className="h-4 w-4" aria-hidden="true" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={readOnly || (task.fallbacks?.length ?? 0) >= 5}
+                        onClick={() =>
+                          updateTask(index, {
+                            fallbacks: [...(task.fallbacks ?? []), { provider: "", model: "" }],
+                          })
+                        }
+                      >
+                        <IconPlus className="mr-1 h-3 w-3" aria-hidden="true" />
+                        {t("addFallback")}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <div>
+                <Button
+                  variant="outline"
+                  disabled={readOnly}
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      tasks: [
+                        ...form.tasks,
+                        { task: "", provider: form.defaultProvider, model: form.defaultModel },
+                      ],
+                    })
+                  }
+                >
+                  <IconPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+                  {t("addTask")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Per-user egress overrides */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("usersTitle")}</CardTitle>
+              <CardDescription>{t("usersDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-3">
+              {form.userPolicies.length === 0 && (
+                <p className="text-sm text-muted-foreground">{t("noUsers")}</p>
+              )}
+              {form.userPolicies.map((override, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-3">
+                  <Input
+                    className="w-80 font-mono text-xs"
+                    value={override.userId}
+                    placeholder={t("userIdPlaceholder")}
+                    aria-label={t("userId")}
+                    disabled={readOnly}
+                    onChange={(event) => updateUser(index, { userId: event.target.value.trim() })}
+                  />
+                  <EgressModeSelect
+                    value={override.egressMode}
+                    disabled={readOnly}
+                    label={t("egressMode")}
+                    onChange={(egressMode) => updateUser(index, { egressMode })}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`user-off-mode-${index}`}
+                      checked={override.allowOffMode ?? false}
+                      disabled={readOnly}
+                      onCheckedChange={(checked) => updateUser(index, { allowOffMode: checked })}
+                    />
+                    <Label htmlFor={`user-off-mode-${index}`}>{t("allowOffMode")}</Label>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t("removeUser")}
+                    disabled={readOnly}
+                    onClick={() =>
+                      setForm({ ...form, userPolicies: form.userPolicies.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <IconTrash className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </div>
+              ))}
+              <div>
+                <Button
+                  variant="outline"
+                  disabled={readOnly}
+                  onClick={() =>
+                    setForm({ ...form, userPolicies: [...form.userPolicies, { userId: "" }] })
+                  }
+                >
+                  <IconPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+                  {t("addUser")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Routing preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("previewTitle")}</CardTitle>
+              <CardDescription>{t("previewDescription")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!check || check.preview.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noPreview")}</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("task")}</TableHead>
+                        <TableHead>{t("resolvedModel")}</TableHead>
+                        <TableHead>{t("source")}</TableHead>
+                        <TableHead>{t("fallbacks")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {check.preview.map((route) => (
+                        <TableRow key={route.task}>
+                          <TableCell className="font-mono text-xs">{route.task}</TableCell>
+                          {route.error ? (
+                            <TableCell colSpan={3} className="text-xs text-destructive">
+                              {route.error}
+                            </TableCell>
+                          ) : (
+                            <>
+                              <TableCell className="font-mono text-xs">
+                                {route.provider}/{route.model}
+                              </TableCell>
+                              <TableCell>
+                                {route.source && (
+                                  <Badge variant="outline">{t(`source_${route.source}`)}</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {route.fallbacks.length === 0 && route.skippedFallbacks.length === 0 && (
+                                  <span className="text-muted-foreground">{t("none")}</span>
+                                )}
+                                {route.fallbacks.map((fallback) => (
+                                  <div key={`${fallback.provider}/${fallback.model}`} className="font-mono">
+                                    {fallback.provider}/{fallback.model}
+                                  </div>
+                                ))}
+                                {route.skippedFallbacks.map((fallback) => (
+                                  <div
+                                    key={`skipped-${fallback.provider}/${fallback.model}`}
+                                    className="font-mono text-muted-foreground line-through"
+                                    title={t(`skipped_${fallback.reason}`)}
+                                  >
+                                    {fallback.provider}/{fallback.model}
+                                  </div>
+                                ))}
+                              </TableCell>
+                            </>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
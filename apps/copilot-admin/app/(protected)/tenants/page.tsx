@@ -0,0 +1,562 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useTranslations, useFormatter } from "next-intl"
+import { toast } from "sonner"
+import {
+  IconAlertCircle,
+  IconBuilding,
+  IconDotsVertical,
+  IconPlayerPause,
+  IconPlus,
+  IconRestore,
+  IconTrash,
+} from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import { TenantStatus } from "@/lib/types/admin"
+import {
+  tenantPlans,
+  tenantTypes,
+  type CreateTenantInput,
+  type QuotaStatusValue,
+  type TenantActionInput,
+  type TenantSummary,
+} from "@/lib/types/tenant"
+
+type TenantTab = "active" | "suspended" | "deleted"
+
+const TABS: TenantTab[] = ["active", "suspended", "deleted"]
+
+interface TenantPermissions {
+  create: boolean
+  manage: boolean
+  delete: boolean
+}
+
+const quotaVariant: Record<QuotaStatusValue, "default" | "secondary" | "destructive" | "outline"> = {
+  ok: "secondary",
+  caution: "outline",
+  warning: "default",
+  exceeded: "destructive",
+}
+
+function tabOf(tenant: TenantSummary): TenantTab {
+  if (tenant.deletedAt) return "deleted"
+  return tenant.status === TenantStatus.SUSPENDED ? "suspended" : "active"
+}
+
+async function readJson(response: Response, fallback: string) {
+  const body = await response.json()
+  if (!response.ok) {
+    throw new Error(body.message ?? body.error ?? fallback)
+  }
+  return body
+}
+
+const emptyForm: CreateTenantInput = {
+  name: "",
+  slug: undefined,
+  type: "team",
+  plan: "free",
+  ownerId: "",
+}
+
+interface CreateTenantDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: (tenant: TenantSummary) => void
+}
+
+function CreateTenantDialog({ open, onOpenChange, onCreated }: CreateTenantDialogProps) {
+  const t = useTranslations("tenants")
+  const tCommon = useTranslations("common")
+  const [form, setForm] = React.useState<CreateTenantInput>(emptyForm)
+  const [saving, setSaving] = React.useState(false)
+
+  const submit = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/tenants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, slug: form.slug?.trim() || undefined }),
+      })
+      const body = await readJson(response, t("createError"))
+      toast.success(t("created", { name: body.tenant.name }))
+      onCreated(body.tenant)
+      setForm(emptyForm)
+      onOpenChange(false)
+    } catch (createError) {
+      console.error("Error creating tenant:", createError)
+      toast.error(t("createError"), {
+        description: createError instanceof Error ? createError.message : undefined,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("createTitle")}</DialogTitle>
+          <DialogDescription>{t("createDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="tenant-name">{t("name")}</Label>
+            <Input
+              id="tenant-name"
+              value={form.name}
+              onChange={(event) => setForm({ ...form, name: event.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="tenant-slug">{t("slug")}</Label>
+            <Input
+              id="tenant-slug"
+              value={form.slug ?? ""}
+              placeholder={t("slugPlaceholder")}
+              onChange={(event) => setForm({ ...form, slug: event.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>{t("type")}</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm({ ...form, type: value as CreateTenantInput["type"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tenantTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(`type_${type}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>{t("plan")}</Label>
+              <Select
+                value={form.plan}
+                onValueChange={(value) => setForm({ ...form, plan: value as CreateTenantInput["plan"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tenantPlans.map((plan) => (
+                    <SelectItem key={plan} value={plan}>
+                      {t(`plan_${plan}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="tenant-owner">{t("ownerId")}</Label>
+            <Input
+              id="tenant-owner"
+              value={form.ownerId}
+              placeholder={t("ownerIdPlaceholder")}
+              onChange={(event) => setForm({ ...form, ownerId: event.target.value.trim() })}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {tCommon("cancel")}
+          </Button>
+          <Button onClick={submit} disabled={saving || !form.name.trim() || !form.ownerId}>
+            {saving ? tCommon("loading") : tCommon("create")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type PendingChange =
+  | { kind: "suspend"; tenant: TenantSummary }
+  | { kind: "delete"; tenant: TenantSummary }
+
+export default function TenantsPage() {
+  const t = useTranslations("tenants")
+  const tCommon = useTranslations("common")
+  const format = useFormatter()
+  const [tab, setTab] = React.useState<TenantTab>("active")
+  const [reloadKey, setReloadKey] = React.useState(0)
+  const [result, setResult] = React.useState<{
+    tenants: TenantSummary[]
+    permissions: TenantPermissions
+    error: string | null
+  } | null>(null)
+  const [isCreateOpen, setIsCreateOpen] = React.useState(false)
+  const [pending, setPending] = React.useState<PendingChange | null>(null)
+  const [reason, setReason] = React.useState("")
+  const [saving, setSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    fetch("/api/tenants?includeDeleted=true", { signal: controller.signal })
+      .then((response) => readJson(response, t("error")))
+      .then((body) => setResult({ tenants: body.tenants, permissions: body.permissions, error: null }))
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return
+        console.error("Error fetching tenants:", fetchError)
+        setResult({
+          tenants: [],
+          permissions: { create: false, manage: false, delete: false },
+          error: fetchError instanceof Error ? fetchError.message : t("error"),
+        })
+      })
+
+    return () => controller.abort()
+  }, [reloadKey, t])
+
+  const reload = () => setReloadKey((key) => key + 1)
+
+  const permissions = result?.permissions
+  const tenants = (result?.tenants ?? []).filter((tenant) => tabOf(tenant) === tab)
+
+  const changeStatus = async (tenant: TenantSummary, action: TenantActionInput) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/tenants/${encodeURIComponent(tenant.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action),
+      })
+      await readJson(response, t("changeError"))
+      toast.success(
+        t(action.action === "suspend" ? "suspended" : "restored", { name: tenant.name })
+      )
+      setPending(null)
+      reload()
+    } catch (changeError) {
+      console.error("Error changing tenant status:", changeError)
+      toast.error(t("changeError"), {
+        description: changeError instanceof Error ? changeError.message : undefined,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTenant = async (tenant: TenantSummary) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/tenants/${encodeURIComponent(tenant.id)}`, {
+        method: "DELETE",
+      })
+      await readJson(response, t("changeError"))
+      toast.success(t("deleted", { name: tenant.name }))
+      setPending(null)
+      reload()
+    } catch (deleteError) {
+      console.error("Error deleting tenant:", deleteError)
+      toast.error(t("changeError"), {
+        description: deleteError instanceof Error ? deleteError.message : undefined,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openChange = (change: PendingChange) => {
+    setReason("")
+    setPending(change)
+  }
+
+  const formatUsd = (value: number) =>
+    format.number(value, { style: "currency", currency: "USD", maximumFractionDigits: 2 })
+
+  const canRestore = (tenant: TenantSummary) =>
+    permissions?.manage && (!tenant.deletedAt || permissions.delete)
+
+  return (
+    <div className="flex flex-col gap-6 p-4 md:p-6">
+      {/* Page Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-semibold tracking-tight">
+            <IconBuilding className="h-6 w-6" aria-hidden="true" />
+            {t("pageTitle")}
+          </h1>
+          <p className="text-muted-foreground">{t("pageDescription")}</p>
+        </div>
+        {permissions?.create && (
+          <Button onClick={() => setIsCreateOpen(true)}>
+            <IconPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+            {t("createTenant")}
+          </Button>
+        )}
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as TenantTab)}>
+        <TabsList>
+          {TABS.map((value) => (
+            <TabsTrigger key={value} value={value}>
+              {t(`tab_${value}`)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {!result ? (
+        <div className="space-y-2" aria-label={t("loading")}>
+          {Array.from({ length: 5 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : result.error ? (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-center gap-3 py-6">
+            <IconAlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+            <p className="text-sm">{result.error}</p>
+          </CardContent>
+        </Card>
+      ) : tenants.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <IconBuilding className="h-12 w-12 text-muted-foreground" aria-hidden="true" />
+            <p className="mt-4 text-sm text-muted-foreground">{t(`empty_${tab}`)}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("name")}</TableHead>
+                <TableHead>{t("plan")}</TableHead>
+                <TableHead className="text-right">{t("members")}</TableHead>
+                <TableHead className="text-right">{t("usage")}</TableHead>
+                <TableHead>{t("quota")}</TableHead>
+                <TableHead>{t("llmPolicy")}</TableHead>
+                <TableHead className="w-10">
+                  <span className="sr-only">{tCommon("actions")}</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tenants.map((tenant) => (
+                <TableRow key={tenant.id}>
+                  <TableCell>
+                    <div className="font-medium">{tenant.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {tenant.slug ?? tenant.id} · {t(`type_${tenant.type}`)}
+                    </div>
+                    {tenant.suspensionReason && (
+                      <div className="text-xs text-destructive">{tenant.suspensionReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{t(`plan_${tenant.plan}`)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{tenant.memberCount}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    <div>{formatUsd(tenant.usage.totalCostUsd)}</div>
+                    {tenant.usage.lastActivityAt && (
+                      <div className="text-xs text-muted-foreground">
+                        {format.relativeTime(new Date(tenant.usage.lastActivityAt))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {tenant.quotaStatus ? (
+                      <div className="flex flex-col gap-1">
+                        <Badge variant={quotaVariant[tenant.quotaStatus]}>
+                          {t(`quota_${tenant.quotaStatus}`)}
+                        </Badge>
+                        {tenant.quotas.map((quota) => (
+                          <span
+                            key={`${quota.resourceType}-${quota.period}`}
+                            className="text-xs text-muted-foreground"
+                          >
+                            {t("quotaUsage", {
+                              resource: quota.resourceType,
+                              usage: formatUsd(quota.usageUsd),
+                              limit: formatUsd(quota.limitUsd),
+                              period: quota.period,
+                            })}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{t("noQuota")}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {tenant.llmPolicy ? (
+                      <div className="text-xs">
+                        <div className="font-mono">
+                          {tenant.llmPolicy.defaultProvider}/{tenant.llmPolicy.defaultModel}
+                        </div>
+                        <div className="text-muted-foreground">
+                          {t("policySummary", {
+                            egress: tenant.llmPolicy.egressMode ?? t("egressDefault"),
+                            remote: String(tenant.llmPolicy.allowRemoteEgress),
+                            tasks: tenant.llmPolicy.taskOverrides,
+                            users: tenant.llmPolicy.userOverrides,
+                          })}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{t("noPolicy")}</span>
+                    )}
+                    {tab !== "deleted" && (
+                      <Link
+                        href={`/tenants/${encodeURIComponent(tenant.id)}/llm-policy`}
+                        className="block text-xs underline-offset-4 hover:underline"
+                      >
+                        {t("editPolicy")}
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {(permissions?.manage || permissions?.delete) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={tCommon("actions")}>
+                            <IconDotsVertical className="h-4 w-4" aria-hidden="true" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {tab === "active" && permissions.manage && (
+                            <DropdownMenuItem onClick={() => openChange({ kind: "suspend", tenant })}>
+                              <IconPlayerPause className="mr-2 h-4 w-4" aria-hidden="true" />
+                              {t("suspend")}
+                            </DropdownMenuItem>
+                          )}
+                          {tab !== "active" && canRestore(tenant) && (
+                            <DropdownMenuItem
+                              disabled={saving}
+                              onClick={() => changeStatus(tenant, { action: "restore" })}
+                            >
+                              <IconRestore className="mr-2 h-4 w-4" aria-hidden="true" />
+                              {t("restore")}
+                            </DropdownMenuItem>
+                          )}
+                          {tab !== "deleted" && permissions.delete && (
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => openChange({ kind: "delete", tenant })}
+                            >
+                              <IconTrash className="mr-2 h-4 w-4" aria-hidden="true" />
+                              {tCommon("delete")}
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CreateTenantDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onCreated={() => {
+          setTab("active")
+          reload()
+        }}
+      />
+
+      {/* Suspend / Delete Confirmation Dialog */}
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pending?.kind === "suspend" ? t("suspendTitle") : t("deleteTitle")}
+            </DialogTitle>
+            <DialogDescription>
+              {pending?.kind === "suspend"
+                ? t("suspendDescription", { name: pending.tenant.name })
+                : t("deleteDescription", { name: pending?.tenant.name ?? "" })}
+            </DialogDescription>
+          </DialogHeader>
+          {pending?.kind === "suspend" && (
+            <div className="grid gap-2">
+              <Label htmlFor="suspend-reason">{t("reason")}</Label>
+              <Textarea
+                id="suspend-reason"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder={t("reasonPlaceholder")}
+                rows={3}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={saving}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={saving}
+              onClick={() => {
+                if (!pending) return
+                if (pending.kind === "suspend") {
+                  changeStatus(pending.tenant, { action: "suspend", reason: reason.trim() || undefined })
+                } else {
+                  deleteTenant(pending.tenant)
+                }
+              }}
+            >
+              {saving ? tCommon("loading") : pending?.kind === "suspend" ? t("suspend") : tCommon("delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
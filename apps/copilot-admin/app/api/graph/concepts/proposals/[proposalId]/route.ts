@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  AdminRole,
+  Permission,
+  hasPermission,
+  type AdminRoleType,
+} from "@/lib/utils/permissions"
+import {
+  conceptReviewSchema,
+  toConceptProposal,
+  type ConceptProposalRow,
+} from "@/lib/types/concept-proposal"
+
+const DECISION_STATUS = {
+  approve: "approved",
+  merge: "merged",
+  reject: "rejected",
+} as const
+
+/**
+ * PATCH /api/graph/concepts/proposals/[proposalId]
+ *
+ * Records a curator decision (approve, merge into an existing concept or
+ * reject) on a pending concept proposal. Requires the audit.configure
+ * permission. Approved and merged proposals are written to the graph by the
+ * demo-web `apply-concept-decisions` cron job.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { proposalId } = await params
+    const body = await request.json()
+
+    const validation = conceptReviewSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: adminProfile } = await supabase
+      .schema("copilot_core")
+      .from("platform_admins")
+      .select("role")
+      .eq("id", session.user.id)
+      .single()
+
+    const role = (adminProfile?.role as AdminRoleType) || AdminRole.VIEWER
+    if (!hasPermission({ id: session.user.id, role }, Permission.AUDIT_CONFIGURE)) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to curate captured concepts",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const review = validation.data
+    const { data: proposal, error } = await supabase
+      .schema("copilot_core")
+      .from("concept_proposals")
+      .update({
+        status: DECISION_STATUS[review.decision],
+        reviewed_by: session.user.email ?? session.user.id,
+        reviewed_at: new Date().toISOString(),
+        review_note: review.note ?? null,
+        merged_into_id: review.decision === "merge" ? review.mergedIntoId : null,
+      })
+      .eq("id", proposalId)
+      .eq("status", "pending")
+      .select("*")
+      .maybeSingle()
+
+    if (error) {
+      console.error("[ConceptReview] Error reviewing proposal:", error)
+      return NextResponse.json(
+        { error: "Failed to review concept proposal", details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!proposal) {
+      return NextResponse.json(
+        {
+          error: "Proposal not pending",
+          message: "The concept proposal does not exist or has already been reviewed",
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      proposal: toConceptProposal(proposal as ConceptProposalRow),
+    })
+  } catch (error) {
+    console.error("[ConceptReview] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
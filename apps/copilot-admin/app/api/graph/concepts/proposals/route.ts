@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  AdminRole,
+  Permission,
+  hasPermission,
+  type AdminRoleType,
+} from "@/lib/utils/permissions"
+import {
+  conceptProposalStatuses,
+  toConceptProposal,
+  type ConceptProposalRow,
+  type ConceptProposalStatusValue,
+} from "@/lib/types/concept-proposal"
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+/**
+ * GET /api/graph/concepts/proposals
+ *
+ * Concepts captured by the LLM and staged for review in
+ * copilot_core.concept_proposals, oldest first. Requires the
+ * audit.view_compliance permission.
+ *
+ * Query parameters:
+ * - status: pending (default), approved, merged or rejected
+ * - limit: Max number of proposals to return (default: 100, max: 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get("status") ?? "pending") as ConceptProposalStatusValue
+    if (!conceptProposalStatuses.includes(status)) {
+      return NextResponse.json(
+        {
+          error: "Invalid status",
+          message: `status must be one of ${conceptProposalStatuses.join(", ")}`,
+        },
+        { status: 400 }
+      )
+    }
+    const requestedLimit = parseInt(searchParams.get("limit") ?? `${DEFAULT_LIMIT}`, 10)
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+
+    const supabase = createAdminClient()
+
+    const { data: adminProfile } = await supabase
+      .schema("copilot_core")
+      .from("platform_admins")
+      .select("role")
+      .eq("id", session.user.id)
+      .single()
+
+    const role = (adminProfile?.role as AdminRoleType) || AdminRole.VIEWER
+    if (!hasPermission({ id: session.user.id, role }, Permission.AUDIT_VIEW_COMPLIANCE)) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to review captured concepts",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: proposals, error } = await supabase
+      .schema("copilot_core")
+      .from("concept_proposals")
+      .select("*")
+      .eq("status", status)
+      .order("created_at", { ascending: status === "pending" })
+      .limit(limit)
+
+    if (error) {
+      console.error("[ConceptReview] Error fetching proposals:", error)
+      return NextResponse.json(
+        { error: "Failed to fetch concept proposals", details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      status,
+      proposals: ((proposals ?? []) as ConceptProposalRow[]).map(toConceptProposal),
+    })
+  } catch (error) {
+    console.error("[ConceptReview] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  AdminRole,
+  Permission,
+  hasPermission,
+  type AdminRoleType,
+} from "@/lib/utils/permissions"
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+/**
+ * Quote a value for a PostgREST `or` filter
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+}
+
+/**
+ * GET /api/graph/nodes/[nodeId]/history
+ *
+ * Change history of a regulatory graph node, newest first, from
+ * copilot_audit.graph_change_log. Includes changes to relationships the node
+ * is an endpoint of. Requires the audit.view permission.
+ *
+ * Query parameters:
+ * - limit: Max number of changes to return (default: 100, max: 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ nodeId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { nodeId } = await params
+    const { searchParams } = new URL(request.url)
+    const requestedLimit = parseInt(searchParams.get("limit") ?? `${DEFAULT_LIMIT}`, 10)
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT)
+
+    const supabase = createAdminClient()
+
+    const { data: adminProfile } = await supabase
+      .schema("copilot_core")
+      .from("platform_admins")
+      .select("role")
+      .eq("id", session.user.id)
+      .single()
+
+    const role = (adminProfile?.role as AdminRoleType) || AdminRole.VIEWER
+    if (!hasPermission({ id: session.user.id, role }, Permission.AUDIT_VIEW)) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to view graph change history",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const quotedNodeId = quoteFilterValue(nodeId)
+    const { data: changes, error } = await supabase
+      .schema("copilot_audit")
+      .from("graph_change_log")
+      .select(`
+        id,
+        batch_id,
+        author,
+        source,
+        entity,
+        change_type,
+        node_id,
+        node_label,
+        edge_source,
+        edge_target,
+        edge_type,
+        before,
+        after,
+        changed_at
+      `)
+      .or(`node_id.eq.${quotedNodeId},edge_source.eq.${quotedNodeId},edge_target.eq.${quotedNodeId}`)
+      .order("changed_at", { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error("[GraphHistory] Error fetching changes:", error)
+      return NextResponse.json(
+        { error: "Failed to fetch graph change history", details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      nodeId,
+      changes: (changes ?? []).map((change) => ({
+        id: change.id,
+        batchId: change.batch_id,
+        author: change.author,
+        source: change.source,
+        entity: change.entity,
+        change: change.change_type,
+        nodeId: change.node_id,
+        nodeLabel: change.node_label,
+        edge: change.edge_source
+          ? {
+              source: change.edge_source,
+              target: change.edge_target,
+              type: change.edge_type,
+            }
+          : null,
+        before: change.before,
+        after: change.after,
+        changedAt: change.changed_at,
+      })),
+    })
+  } catch (error) {
+    console.error("[GraphHistory] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
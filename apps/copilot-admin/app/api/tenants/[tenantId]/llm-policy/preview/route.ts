@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  Permission,
+  hasAccessToTenant,
+  hasAnyPermission,
+} from "@/lib/utils/permissions"
+import { tenantLlmPolicySchema } from "@/lib/types/llm-policy"
+import { loadPermissionUser } from "@/lib/server/tenants"
+import {
+  checkTenantLlmPolicy,
+  loadLlmModelCatalog,
+  toTenantLlmPolicy,
+} from "@/lib/server/llm-policy"
+
+/**
+ * POST /api/tenants/[tenantId]/llm-policy/preview
+ *
+ * Validate a draft policy and preview the model each task would resolve to,
+ * without saving it. Requires tenants.view or tenants.view_all and access to
+ * the tenant.
+ *
+ * Request body: the draft policy, as for PUT /api/tenants/[tenantId]/llm-policy
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenantId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { tenantId } = await params
+    const body = await request.json()
+
+    const validation = tenantLlmPolicySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const admin = await loadPermissionUser(supabase, session.user.id)
+
+    if (!hasAnyPermission(admin, [Permission.TENANTS_VIEW, Permission.TENANTS_VIEW_ALL])) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to view tenants",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+    if (!hasAccessToTenant(admin, tenantId)) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 })
+    }
+
+    const catalog = await loadLlmModelCatalog(supabase)
+    return NextResponse.json(
+      checkTenantLlmPolicy(toTenantLlmPolicy(tenantId, validation.data), catalog)
+    )
+  } catch (error) {
+    console.error("[LlmPolicy] Error previewing LLM policy:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  Permission,
+  hasAccessToTenant,
+  hasAnyPermission,
+  hasPermission,
+} from "@/lib/utils/permissions"
+import { tenantLlmPolicySchema } from "@/lib/types/llm-policy"
+import { loadPermissionUser, loadTenantSummaries } from "@/lib/server/tenants"
+import {
+  checkTenantLlmPolicy,
+  getTenantPolicyStore,
+  loadLlmModelCatalog,
+  toTenantLlmPolicy,
+  toTenantLlmPolicyInput,
+} from "@/lib/server/llm-policy"
+
+/**
+ * GET /api/tenants/[tenantId]/llm-policy
+ *
+ * The tenant's LLM policy with the providers and priced models it may use,
+ * validation issues and the model each task resolves to. Requires
+ * tenants.view or tenants.view_all and access to the tenant.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenantId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { tenantId } = await params
+    const supabase = createAdminClient()
+    const admin = await loadPermissionUser(supabase, session.user.id)
+
+    if (!hasAnyPermission(admin, [Permission.TENANTS_VIEW, Permission.TENANTS_VIEW_ALL])) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to view tenants",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const [tenant] = hasAccessToTenant(admin, tenantId)
+      ? await loadTenantSummaries(supabase, [tenantId], { includeDeleted: true })
+      : []
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 })
+    }
+
+    const [policy, catalog] = await Promise.all([
+      getTenantPolicyStore().getPolicy(tenantId),
+      loadLlmModelCatalog(supabase),
+    ])
+
+    return NextResponse.json({
+      tenant: { id: tenant.id, name: tenant.name },
+      policy: policy ? toTenantLlmPolicyInput(policy) : null,
+      updatedAt: tenant.llmPolicy?.updatedAt ?? null,
+      catalog,
+      ...(policy ? checkTenantLlmPolicy(policy, catalog) : { issues: [], preview: [] }),
+      canEdit: hasPermission(admin, Permission.TENANTS_MANAGE),
+    })
+  } catch (error) {
+    console.error("[LlmPolicy] Error fetching tenant LLM policy:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to fetch LLM policy",
+        details: error instanceof Error ? error.message : undefined,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/tenants/[tenantId]/llm-policy
+ *
+ * Replace the tenant's LLM policy. Requires the tenants.manage permission.
+ * Policies referencing unregistered providers or models without pricing are
+ * rejected with the validation issues; warnings do not block saving. The
+ * shared policy cache is invalidated so the router applies the change on the
+ * next request.
+ *
+ * Request body: the policy (defaultProvider, defaultModel, allowRemoteEgress,
+ * egressMode, allowOffMode, tasks, userPolicies)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenantId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    const userId = session.user.id
+
+    const { tenantId } = await params
+    const body = await request.json()
+
+    const validation = tenantLlmPolicySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const admin = await loadPermissionUser(supabase, userId)
+
+    if (!hasPermission(admin, Permission.TENANTS_MANAGE)) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to change tenant LLM policies",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const [tenant] = hasAccessToTenant(admin, tenantId)
+      ? await loadTenantSummaries(supabase, [tenantId])
+      : []
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 })
+    }
+
+    const catalog = await loadLlmModelCatalog(supabase)
+    const policy = toTenantLlmPolicy(tenantId, validation.data)
+    const check = checkTenantLlmPolicy(policy, catalog)
+
+    if (check.issues.some((issue) => issue.severity === "error")) {
+      return NextResponse.json(
+        { error: "Invalid LLM policy", issues: check.issues, preview: check.preview },
+        { status: 400 }
+      )
+    }
+
+    await getTenantPolicyStore().setPolicy(policy)
+
+    // The policy store only writes the policy itself; record who saved it
+    const updatedAt = new Date().toISOString()
+    const { error: auditError } = await supabase
+      .schema("copilot_core")
+      .from("tenant_llm_policies")
+      .update({ updated_at: updatedAt, updated_by: userId })
+      .eq("tenant_id", tenantId)
+    if (auditError) {
+      console.warn("[LlmPolicy] Failed to record policy editor:", auditError)
+    }
+
+    console.log("[LlmPolicy] Tenant LLM policy saved", { tenantId, updatedBy: userId })
+
+    return NextResponse.json({
+      policy: toTenantLlmPolicyInput(policy),
+      updatedAt,
+      ...check,
+    })
+  } catch (error) {
+    console.error("[LlmPolicy] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
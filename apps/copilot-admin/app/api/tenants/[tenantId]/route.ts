@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  Permission,
+  hasAccessToTenant,
+  hasPermission,
+  type PermissionType,
+  type PermissionUser,
+} from "@/lib/utils/permissions"
+import { TenantStatus } from "@/lib/types/admin"
+import { tenantActionSchema } from "@/lib/types/tenant"
+import {
+  loadPermissionUser,
+  loadTenantRow,
+  loadTenantSummaries,
+  publishTenantEvent,
+} from "@/lib/server/tenants"
+
+function permissionDenied(message: string) {
+  return NextResponse.json(
+    { error: "Permission denied", message, code: "INSUFFICIENT_PERMISSIONS" },
+    { status: 403 }
+  )
+}
+
+/**
+ * Resolve the admin and tenant for a lifecycle change, or the error response
+ */
+async function authorize(
+  supabase: ReturnType<typeof createAdminClient>,
+  userId: string,
+  tenantId: string,
+  permission: PermissionType
+) {
+  const admin: PermissionUser = await loadPermissionUser(supabase, userId)
+  if (!hasPermission(admin, permission)) {
+    return { response: permissionDenied("You don't have permission to change this tenant") }
+  }
+
+  // Tenants the admin cannot see are reported as missing
+  const tenant = hasAccessToTenant(admin, tenantId) ? await loadTenantRow(supabase, tenantId) : null
+  if (!tenant) {
+    return { response: NextResponse.json({ error: "Tenant not found" }, { status: 404 }) }
+  }
+
+  return { admin, tenant }
+}
+
+/**
+ * PATCH /api/tenants/[tenantId]
+ *
+ * Suspend or restore a tenant. Requires the tenants.manage permission;
+ * restoring a deleted tenant also requires tenants.delete. Members of a
+ * suspended tenant lose access until it is restored.
+ *
+ * Request body:
+ * - action: "suspend" (with optional reason) or "restore"
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenantId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    const userId = session.user.id
+    const actor = { id: userId, name: session.user.name || session.user.email }
+
+    const { tenantId } = await params
+    const body = await request.json()
+
+    const validation = tenantActionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+    const input = validation.data
+
+    const supabase = createAdminClient()
+    const authorized = await authorize(supabase, userId, tenantId, Permission.TENANTS_MANAGE)
+    if (authorized.response) {
+      return authorized.response
+    }
+    const { admin, tenant } = authorized
+
+    if (input.action === "suspend") {
+      if (tenant.deleted_at || tenant.status === TenantStatus.SUSPENDED) {
+        return NextResponse.json(
+          { error: "Tenant cannot be suspended", message: "The tenant is already suspended or deleted" },
+          { status: 409 }
+        )
+      }
+
+      const { error } = await supabase
+        .schema("copilot_core")
+        .from("tenants")
+        .update({
+          status: TenantStatus.SUSPENDED,
+          suspended_at: new Date().toISOString(),
+          suspended_by: userId,
+          suspension_reason: input.reason || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", tenantId)
+
+      if (error) {
+        console.error("[Tenants] Error suspending tenant:", error)
+        return NextResponse.json(
+          { error: "Failed to suspend tenant", details: error.message },
+          { status: 500 }
+        )
+      }
+    } else {
+      if (!tenant.deleted_at && tenant.status !== TenantStatus.SUSPENDED) {
+        return NextResponse.json(
+          { error: "Tenant cannot be restored", message: "The tenant is not suspended or deleted" },
+          { status: 409 }
+        )
+      }
+      if (tenant.deleted_at && !hasPermission(admin, Permission.TENANTS_DELETE)) {
+        return permissionDenied("You don't have permission to restore deleted tenants")
+      }
+
+      const { error } = await supabase
+        .schema("copilot_core")
+        .from("tenants")
+        .update({
+          status: TenantStatus.ACTIVE,
+          suspended_at: null,
+          suspended_by: null,
+          suspension_reason: null,
+          deleted_at: null,
+          deleted_by: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", tenantId)
+
+      if (error) {
+        console.error("[Tenants] Error restoring tenant:", error)
+        return NextResponse.json(
+          { error: "Failed to restore tenant", details: error.message },
+          { status: 500 }
+        )
+      }
+    }
+
+    const event = input.action === "suspend" ? "suspended" : "restored"
+    await publishTenantEvent(supabase, {
+      tenant,
+      event,
+      actor,
+      reason: input.action === "suspend" ? input.reason : undefined,
+    })
+
+    console.log(`[Tenants] Tenant ${event}`, { tenantId, changedBy: userId })
+
+    const [summary] = await loadTenantSummaries(supabase, [tenantId])
+    return NextResponse.json({ tenant: summary })
+  } catch (error) {
+    console.error("[Tenants] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/tenants/[tenantId]
+ *
+ * Soft delete a tenant. Its data is kept and it can be restored with
+ * PATCH { action: "restore" }. Requires the tenants.delete permission.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenantId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    const userId = session.user.id
+    const actor = { id: userId, name: session.user.name || session.user.email }
+
+    const { tenantId } = await params
+    const supabase = createAdminClient()
+    const authorized = await authorize(supabase, userId, tenantId, Permission.TENANTS_DELETE)
+    if (authorized.response) {
+      return authorized.response
+    }
+    const { tenant } = authorized
+
+    if (tenant.deleted_at) {
+      return NextResponse.json(
+        { error: "Tenant already deleted" },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await supabase
+      .schema("copilot_core")
+      .from("tenants")
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", tenantId)
+      .is("deleted_at", null)
+
+    if (error) {
+      console.error("[Tenants] Error deleting tenant:", error)
+      return NextResponse.json(
+        { error: "Failed to delete tenant", details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await publishTenantEvent(supabase, {
+      tenant,
+      event: "deleted",
+      actor,
+    })
+
+    console.log("[Tenants] Tenant deleted", { tenantId, deletedBy: userId })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[Tenants] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/lib/auth"
+import { createAdminClient } from "@/lib/supabase/server"
+import {
+  Permission,
+  getAccessibleTenantIds,
+  hasAnyPermission,
+  hasPermission,
+} from "@/lib/utils/permissions"
+import { createTenantSchema } from "@/lib/types/tenant"
+import {
+  loadPermissionUser,
+  loadTenantSummaries,
+  publishTenantEvent,
+} from "@/lib/server/tenants"
+
+/**
+ * GET /api/tenants
+ *
+ * Tenants with member counts, usage, quota status and LLM policy summary,
+ * newest first. Admins with tenants.view_all see every tenant; others see
+ * their own or assigned tenants.
+ *
+ * Query parameters:
+ * - includeDeleted: "true" to include soft-deleted tenants (requires tenants.delete)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+    const admin = await loadPermissionUser(supabase, session.user.id)
+
+    if (!hasAnyPermission(admin, [Permission.TENANTS_VIEW, Permission.TENANTS_VIEW_ALL])) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to view tenants",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeDeleted =
+      searchParams.get("includeDeleted") === "true" &&
+      hasPermission(admin, Permission.TENANTS_DELETE)
+
+    const tenants = await loadTenantSummaries(supabase, getAccessibleTenantIds(admin), {
+      includeDeleted,
+    })
+
+    return NextResponse.json({
+      tenants,
+      permissions: {
+        create: hasPermission(admin, Permission.TENANTS_CREATE),
+        manage: hasPermission(admin, Permission.TENANTS_MANAGE),
+        delete: hasPermission(admin, Permission.TENANTS_DELETE),
+      },
+    })
+  } catch (error) {
+    console.error("[Tenants] Error fetching tenants:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to fetch tenants",
+        details: error instanceof Error ? error.message : undefined,
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/tenants
+ *
+ * Create a tenant owned by an existing platform user, who is added as its
+ * owner member. Requires the tenants.create permission.
+ *
+ * Request body:
+ * - name: Tenant name
+ * - slug: Optional URL slug (lowercase letters, numbers and hyphens)
+ * - type: personal, team (default) or enterprise
+ * - plan: free (default), pro or enterprise
+ * - ownerId: User ID of the owner
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    const userId = session.user.id
+    const actor = { id: userId, name: session.user.name || session.user.email }
+
+    const supabase = createAdminClient()
+    const admin = await loadPermissionUser(supabase, userId)
+
+    if (!hasPermission(admin, Permission.TENANTS_CREATE)) {
+      return NextResponse.json(
+        {
+          error: "Permission denied",
+          message: "You don't have permission to create tenants",
+          code: "INSUFFICIENT_PERMISSIONS",
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = createTenantSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+    const input = validation.data
+
+    const { data: owner, error: ownerError } = await supabase.auth.admin.getUserById(input.ownerId)
+    if (ownerError || !owner?.user) {
+      return NextResponse.json(
+        { error: "Owner not found", message: "ownerId must be an existing user" },
+        { status: 400 }
+      )
+    }
+
+    const { data: tenant, error: tenantError } = await supabase
+      .schema("copilot_core")
+      .from("tenants")
+      .insert({
+        name: input.name,
+        slug: input.slug ?? null,
+        type: input.type,
+        plan: input.plan,
+        owner_id: input.ownerId,
+      })
+      .select("id, name")
+      .single()
+
+    if (tenantError) {
+      // Unique violation on the slug
+      if (tenantError.code === "23505") {
+        return NextResponse.json(
+          { error: "Slug already in use", message: `A tenant with slug "${input.slug}" already exists` },
+          { status: 409 }
+        )
+      }
+      console.error("[Tenants] Error creating tenant:", tenantError)
+      return NextResponse.json(
+        { error: "Failed to create tenant", details: tenantError.message },
+        { status: 500 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const { error: membershipError } = await supabase
+      .schema("copilot_core")
+      .from("tenant_memberships")
+      .insert({
+        tenant_id: tenant.id,
+        user_id: input.ownerId,
+        role: "owner",
+        status: "active",
+        invited_by: userId,
+        joined_at: now,
+      })
+
+    if (membershipError) {
+      console.error("[Tenants] Error adding tenant owner:", membershipError)
+      await supabase.schema("copilot_core").from("tenants").delete().eq("id", tenant.id)
+      return NextResponse.json(
+        { error: "Failed to create tenant", details: membershipError.message },
+        { status: 500 }
+      )
+    }
+
+    await publishTenantEvent(supabase, {
+      tenant,
+      event: "created",
+      actor,
+    })
+
+    console.log("[Tenants] Tenant created", { tenantId: tenant.id, createdBy: userId })
+
+    const [summary] = await loadTenantSummaries(supabase, [tenant.id])
+    return NextResponse.json({ tenant: summary }, { status: 201 })
+  } catch (error) {
+    console.error("[Tenants] Unexpected error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -4,7 +4,10 @@ import * as React from "react"
 import Link from "next/link"
 import {
   IconBell,
+  IconBuilding,
+  IconBulb,
   IconDashboard,
+  IconHistory,
   IconInnerShadowTop,
   IconSettings,
   IconShieldCheck,
@@ -46,6 +49,11 @@ const data = {
       url: "/users",
       icon: IconUsers,
     },
+    {
+      title: "Tenants",
+      url: "/tenants",
+      icon: IconBuilding,
+    },
     {
       title: "Administrators",
       url: "/administrators",
@@ -56,6 +64,16 @@ const data = {
       url: "/notifications",
       icon: IconBell,
     },
+    {
+      title: "Graph History",
+      url: "/graph-history",
+      icon: IconHistory,
+    },
+    {
+      title: "Concept Review",
+      url: "/concept-review",
+      icon: IconBulb,
+    },
   ],
   navSecondary: [
     {
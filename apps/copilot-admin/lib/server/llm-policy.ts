@@ -0,0 +1,125 @@
+/**
+ * Server helpers for the tenant LLM policy editor
+ *
+ * Policies are read and written through the same cached LlmPolicyStore the
+ * copilot router uses. With REDIS_URL set, a save evicts the shared cache
+ * entry so every copilot instance picks up the new policy on its next
+ * request instead of after the cache TTL.
+ */
+
+import {
+  LLM_PROVIDER_IDS,
+  createPolicyStore,
+  previewPolicyRoutes,
+  validateTenantLlmPolicy,
+  type LlmPolicyStore,
+  type TenantLlmPolicy,
+} from "@reg-copilot/reg-intel-llm"
+import { createKeyValueClient, resolveRedisBackend } from "@reg-copilot/reg-intel-cache"
+import { createAdminClient } from "@/lib/supabase/server"
+import type {
+  LlmPolicyCatalog,
+  LlmPolicyCheck,
+  TenantLlmPolicyInput,
+} from "@/lib/types/llm-policy"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+let policyStore: LlmPolicyStore | null = null
+
+/**
+ * Policy store shared with the copilot router (Supabase + Redis cache)
+ */
+export function getTenantPolicyStore(): LlmPolicyStore {
+  if (!policyStore) {
+    const supabase = createAdminClient().schema("copilot_core")
+    policyStore = createPolicyStore({
+      supabase: supabase as unknown as Parameters<typeof createPolicyStore>[0]["supabase"],
+      redis: createKeyValueClient(resolveRedisBackend("cache")) ?? undefined,
+      cacheTtlSeconds: 300,
+    })
+  }
+  return policyStore
+}
+
+/**
+ * Providers and models with current pricing in copilot_billing.model_pricing,
+ * the catalogue the copilot costs usage against. Providers whose current
+ * rows are all priced at 0 (e.g. self-hosted models) are zero-cost.
+ */
+export async function loadLlmModelCatalog(supabase: AdminClient): Promise<LlmPolicyCatalog> {
+  const { data, error } = await supabase
+    .schema("copilot_billing")
+    .from("model_pricing")
+    .select("provider, model, input_price_per_million, output_price_per_million, effective_date, expires_at")
+
+  if (error) {
+    throw new Error(`Failed to fetch model pricing: ${error.message}`)
+  }
+
+  const now = Date.now()
+  const models: Record<string, string[]> = {}
+  const pricedProviders = new Set<string>()
+  for (const row of data ?? []) {
+    if (row.effective_date && new Date(row.effective_date).getTime() > now) {
+      continue
+    }
+    if (row.expires_at && new Date(row.expires_at).getTime() <= now) {
+      continue
+    }
+    const provider = (row.provider as string).toLowerCase()
+    const model = (row.model as string).toLowerCase()
+    const providerModels = (models[provider] ??= [])
+    if (!providerModels.includes(model)) {
+      providerModels.push(model)
+    }
+    if (Number(row.input_price_per_million) > 0 || Number(row.output_price_per_million) > 0) {
+      pricedProviders.add(provider)
+    }
+  }
+  for (const providerModels of Object.values(models)) {
+    providerModels.sort()
+  }
+
+  const providers = LLM_PROVIDER_IDS.filter((provider) => models[provider])
+  return {
+    providers: providers.length > 0 ? providers : [...LLM_PROVIDER_IDS],
+    models,
+    zeroCostProviders: providers.filter((provider) => !pricedProviders.has(provider)),
+    registryConfigured: providers.length > 0,
+  }
+}
+
+export function toTenantLlmPolicy(tenantId: string, input: TenantLlmPolicyInput): TenantLlmPolicy {
+  return { tenantId, ...input }
+}
+
+export function toTenantLlmPolicyInput(policy: TenantLlmPolicy): TenantLlmPolicyInput {
+  return {
+    defaultProvider: policy.defaultProvider,
+    defaultModel: policy.defaultModel,
+    allowRemoteEgress: policy.allowRemoteEgress,
+    egressMode: policy.egressMode,
+    allowOffMode: policy.allowOffMode,
+    tasks: policy.tasks ?? [],
+    userPolicies: policy.userPolicies,
+  }
+}
+
+/**
+ * Validate a policy against the catalog and preview the route each task
+ * resolves to
+ */
+export function checkTenantLlmPolicy(
+  policy: TenantLlmPolicy,
+  catalog: LlmPolicyCatalog
+): LlmPolicyCheck {
+  return {
+    issues: validateTenantLlmPolicy(policy, catalog),
+    preview: previewPolicyRoutes(policy, {
+      defaultProvider: policy.defaultProvider,
+      defaultModel: policy.defaultModel,
+      providers: catalog.providers,
+    }),
+  }
+}
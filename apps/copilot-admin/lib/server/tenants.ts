@@ -0,0 +1,321 @@
+/**
+ * Server helpers for the tenants console
+ *
+ * Loads tenant summaries (members, usage, quotas and LLM policy) and publishes
+ * tenant lifecycle changes to platform admins on the notification hub.
+ */
+
+import { createAdminClient } from "@/lib/supabase/server"
+import { getNotificationHub } from "@/lib/server/admin-event-hubs"
+import {
+  AdminRole,
+  hasAccessToTenant,
+  type AdminRoleType,
+  type PermissionGroupIdType,
+  type PermissionType,
+  type PermissionUser,
+} from "@/lib/utils/permissions"
+import {
+  toTenantLlmPolicySummary,
+  toTenantQuota,
+  toTenantSummary,
+  type TenantEventValue,
+  type TenantLlmPolicyRow,
+  type TenantQuota,
+  type TenantQuotaRow,
+  type TenantRow,
+  type TenantSummary,
+} from "@/lib/types/tenant"
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const TENANT_COLUMNS =
+  "id, name, slug, type, plan, status, owner_id, suspended_at, suspension_reason, deleted_at, created_at"
+
+interface PlatformAdminRow {
+  id: string
+  role: AdminRoleType
+  tenant_id: string | null
+  assigned_tenant_ids: string[] | null
+}
+
+function toPermissionUser(admin: PlatformAdminRow): PermissionUser {
+  return {
+    id: admin.id,
+    role: admin.role || AdminRole.VIEWER,
+    tenantId: admin.tenant_id ?? undefined,
+    assignedTenantIds: admin.assigned_tenant_ids ?? [],
+  }
+}
+
+/**
+ * Load the signed-in admin's role, tenant assignments and permission
+ * overrides for permission checks
+ */
+export async function loadPermissionUser(
+  supabase: AdminClient,
+  userId: string
+): Promise<PermissionUser> {
+  const [{ data: adminProfile }, { data: permissionConfig }] = await Promise.all([
+    supabase
+      .schema("copilot_core")
+      .from("platform_admins")
+      .select("id, role, tenant_id, assigned_tenant_ids")
+      .eq("id", userId)
+      .maybeSingle(),
+    supabase
+      .schema("copilot_core")
+      .from("platform_admin_permissions")
+      .select("additional_groups, permission_grants, permission_revocations, updated_at, updated_by")
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ])
+
+  const user = toPermissionUser(
+    (adminProfile as PlatformAdminRow | null) ?? {
+      id: userId,
+      role: AdminRole.VIEWER,
+      tenant_id: null,
+      assigned_tenant_ids: [],
+    }
+  )
+
+  if (permissionConfig) {
+    user.permissionConfig = {
+      additionalGroups: permissionConfig.additional_groups as PermissionGroupIdType[],
+      permissionGrants: permissionConfig.permission_grants as PermissionType[],
+      permissionRevocations: permissionConfig.permission_revocations as PermissionType[],
+      updatedAt: permissionConfig.updated_at,
+      updatedBy: permissionConfig.updated_by ?? "",
+    }
+  }
+
+  return user
+}
+
+/**
+ * Load tenants with member counts, usage, quota status and LLM policy
+ *
+ * @param tenantIds - Tenants visible to the admin, or "all"
+ * @param includeDeleted - Include soft-deleted tenants
+ */
+export async function loadTenantSummaries(
+  supabase: AdminClient,
+  tenantIds: string[] | "all",
+  { includeDeleted = false }: { includeDeleted?: boolean } = {}
+): Promise<TenantSummary[]> {
+  if (tenantIds !== "all" && tenantIds.length === 0) {
+    return []
+  }
+
+  let tenantQuery = supabase
+    .schema("copilot_core")
+    .from("tenants")
+    .select(TENANT_COLUMNS)
+    .order("created_at", { ascending: false })
+  if (tenantIds !== "all") {
+    tenantQuery = tenantQuery.in("id", tenantIds)
+  }
+  if (!includeDeleted) {
+    tenantQuery = tenantQuery.is("deleted_at", null)
+  }
+
+  const { data: tenants, error } = await tenantQuery
+  if (error) {
+    throw new Error(`Failed to fetch tenants: ${error.message}`)
+  }
+
+  const rows = (tenants ?? []) as TenantRow[]
+  if (rows.length === 0) {
+    return []
+  }
+  const ids = rows.map((tenant) => tenant.id)
+
+  const [memberships, costs, quotas, policies] = await Promise.all([
+    supabase
+      .schema("copilot_core")
+      .from("tenant_memberships")
+      .select("tenant_id")
+      .in("tenant_id", ids)
+      .eq("status", "active")
+      .is("deleted_at", null),
+    supabase
+      .schema("copilot_analytics")
+      .from("tenant_total_costs")
+      .select("tenant_id, total_cost_usd, last_cost_at")
+      .in("tenant_id", ids),
+    supabase
+      .schema("copilot_analytics")
+      .from("quota_status")
+      .select("tenant_id, resource_type, quota_period, limit_value, current_usage, usage_percent, status")
+      .eq("scope", "tenant")
+      .in("tenant_id", ids),
+    supabase
+      .schema("copilot_core")
+      .from("tenant_llm_policies")
+      .select("tenant_id, default_provider, default_model, allow_remote_egress, egress_mode, tasks, user_policies, updated_at")
+      .in("tenant_id", ids),
+  ])
+
+  for (const result of [memberships, costs, quotas, policies]) {
+    if (result.error) {
+      throw new Error(`Failed to fetch tenant details: ${result.error.message}`)
+    }
+  }
+
+  const memberCounts = new Map<string, number>()
+  for (const membership of memberships.data ?? []) {
+    memberCounts.set(membership.tenant_id, (memberCounts.get(membership.tenant_id) ?? 0) + 1)
+  }
+
+  const costByTenant = new Map(
+    (costs.data ?? []).map((cost) => [cost.tenant_id as string, cost])
+  )
+
+  const quotasByTenant = new Map<string, TenantQuota[]>()
+  for (const row of (quotas.data ?? []) as TenantQuotaRow[]) {
+    const tenantQuotas = quotasByTenant.get(row.tenant_id) ?? []
+    tenantQuotas.push(toTenantQuota(row))
+    quotasByTenant.set(row.tenant_id, tenantQuotas)
+  }
+
+  const policyByTenant = new Map(
+    ((policies.data ?? []) as TenantLlmPolicyRow[]).map((policy) => [policy.tenant_id, policy])
+  )
+
+  return rows.map((row) => {
+    const cost = costByTenant.get(row.id)
+    const policy = policyByTenant.get(row.id)
+    return toTenantSummary(row, {
+      memberCount: memberCounts.get(row.id) ?? 0,
+      totalCostUsd: Number(cost?.total_cost_usd ?? 0),
+      lastActivityAt: (cost?.last_cost_at as string | null | undefined) ?? null,
+      quotas: quotasByTenant.get(row.id) ?? [],
+      llmPolicy: policy ? toTenantLlmPolicySummary(policy) : null,
+    })
+  })
+}
+
+/**
+ * Load a single tenant row, including soft-deleted tenants
+ */
+export async function loadTenantRow(
+  supabase: AdminClient,
+  tenantId: string
+): Promise<TenantRow | null> {
+  const { data, error } = await supabase
+    .schema("copilot_core")
+    .from("tenants")
+    .select(TENANT_COLUMNS)
+    .eq("id", tenantId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch tenant: ${error.message}`)
+  }
+  return data as TenantRow | null
+}
+
+const TENANT_EVENT_MESSAGES: Record<
+  TenantEventValue,
+  { title: string; priority: "HIGH" | "MEDIUM" }
+> = {
+  created: { title: "Tenant created", priority: "MEDIUM" },
+  suspended: { title: "Tenant suspended", priority: "HIGH" },
+  restored: { title: "Tenant restored", priority: "MEDIUM" },
+  deleted: { title: "Tenant deleted", priority: "HIGH" },
+}
+
+/**
+ * Notify the other active platform admins with access to a tenant that it was
+ * created, suspended, restored or deleted. Notifications are stored and
+ * broadcast on the notification hub so open consoles update immediately.
+ * Failures are logged and never fail the change itself.
+ */
+export async function publishTenantEvent(
+  supabase: AdminClient,
+  {
+    tenant,
+    event,
+    actor,
+    reason,
+  }: {
+    tenant: Pick<TenantRow, "id" | "name">
+    event: TenantEventValue
+    actor: { id: string; name?: string | null }
+    reason?: string
+  }
+): Promise<void> {
+  try {
+    const { data: admins, error } = await supabase
+      .schema("copilot_core")
+      .from("platform_admins")
+      .select("id, role, tenant_id, assigned_tenant_ids")
+      .eq("status", "active")
+      .neq("id", actor.id)
+
+    if (error) {
+      console.warn("[Tenants] Failed to load admins to notify:", error)
+      return
+    }
+
+    const recipients = ((admins ?? []) as PlatformAdminRow[]).filter((admin) =>
+      hasAccessToTenant(toPermissionUser(admin), tenant.id)
+    )
+    if (recipients.length === 0) {
+      return
+    }
+
+    const { title, priority } = TENANT_EVENT_MESSAGES[event]
+    const message = reason
+      ? `${tenant.name} was ${event} by ${actor.name ?? actor.id}: ${reason}`
+      : `${tenant.name} was ${event} by ${actor.name ?? actor.id}`
+    const metadata = {
+      tenant_event: `tenant:${event}`,
+      tenant_id: tenant.id,
+      sent_by: actor.id,
+      sent_by_name: actor.name ?? null,
+    }
+    const actionUrl = `/tenants?tenant=${tenant.id}`
+
+    const { data: inserted, error: insertError } = await supabase
+      .schema("copilot_core")
+      .from("notifications")
+      .insert(
+        recipients.map((admin) => ({
+          user_id: admin.id,
+          tenant_id: tenant.id,
+          type: "SYSTEM_UPDATE",
+          title,
+          message,
+          priority,
+          status: "UNREAD",
+          action_url: actionUrl,
+          metadata,
+        }))
+      )
+      .select("id, user_id, created_at")
+
+    if (insertError) {
+      console.warn("[Tenants] Failed to store tenant notifications:", insertError)
+      return
+    }
+
+    const notificationHub = getNotificationHub()
+    for (const notification of inserted ?? []) {
+      notificationHub.broadcast(notification.user_id, "notification:new", {
+        id: notification.id,
+        type: "SYSTEM_UPDATE",
+        title,
+        message,
+        priority,
+        status: "UNREAD",
+        actionUrl,
+        metadata,
+        createdAt: notification.created_at,
+      })
+    }
+  } catch (error) {
+    console.warn(`[Tenants] Failed to publish tenant:${event} for ${tenant.id}:`, error)
+  }
+}
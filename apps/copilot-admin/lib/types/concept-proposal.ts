@@ -0,0 +1,121 @@
+import { z } from "zod"
+
+/**
+ * Review states of a concept captured by the LLM
+ * (copilot_core.concept_proposals)
+ */
+export const ConceptProposalStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  MERGED: "merged",
+  REJECTED: "rejected",
+} as const
+
+export type ConceptProposalStatusValue =
+  (typeof ConceptProposalStatus)[keyof typeof ConceptProposalStatus]
+
+export const conceptProposalStatuses = Object.values(
+  ConceptProposalStatus
+) as ConceptProposalStatusValue[]
+
+export interface ConceptDuplicateSuggestion {
+  conceptId: string
+  prefLabel: string
+  matchedLabel: string
+}
+
+export interface ConceptProposal {
+  id: string
+  status: ConceptProposalStatusValue
+  conceptId: string
+  prefLabel: string
+  concept: {
+    label?: string
+    prefLabel?: string
+    altLabels?: string[]
+    definition?: string
+    domain?: string
+    kind?: string
+    jurisdiction?: string
+    sourceUrls?: string[]
+  }
+  provenance: {
+    tenantId: string | null
+    conversationId: string | null
+    model: string | null
+    traceId: string | null
+  }
+  suggestedDuplicates: ConceptDuplicateSuggestion[]
+  createdAt: string
+  reviewedBy: string | null
+  reviewedAt: string | null
+  reviewNote: string | null
+  mergedIntoId: string | null
+  appliedAt: string | null
+}
+
+/**
+ * Row shape of copilot_core.concept_proposals
+ */
+export interface ConceptProposalRow {
+  id: string
+  status: ConceptProposalStatusValue
+  concept_id: string
+  pref_label: string
+  concept: ConceptProposal["concept"]
+  tenant_id: string | null
+  conversation_id: string | null
+  model: string | null
+  trace_id: string | null
+  suggested_duplicates: ConceptDuplicateSuggestion[] | null
+  created_at: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  merged_into_id: string | null
+  applied_at: string | null
+}
+
+export function toConceptProposal(row: ConceptProposalRow): ConceptProposal {
+  return {
+    id: row.id,
+    status: row.status,
+    conceptId: row.concept_id,
+    prefLabel: row.pref_label,
+    concept: row.concept,
+    provenance: {
+      tenantId: row.tenant_id,
+      conversationId: row.conversation_id,
+      model: row.model,
+      traceId: row.trace_id,
+    },
+    suggestedDuplicates: row.suggested_duplicates ?? [],
+    createdAt: row.created_at,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    reviewNote: row.review_note,
+    mergedIntoId: row.merged_into_id,
+    appliedAt: row.applied_at,
+  }
+}
+
+/**
+ * Curator decision on a pending proposal
+ */
+export const conceptReviewSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("approve"),
+    note: z.string().max(1000).optional(),
+  }),
+  z.object({
+    decision: z.literal("merge"),
+    mergedIntoId: z.string().trim().min(1).max(255),
+    note: z.string().max(1000).optional(),
+  }),
+  z.object({
+    decision: z.literal("reject"),
+    note: z.string().max(1000).optional(),
+  }),
+])
+
+export type ConceptReviewInput = z.infer<typeof conceptReviewSchema>
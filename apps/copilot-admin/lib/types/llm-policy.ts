@@ -0,0 +1,94 @@
+import { z } from "zod"
+import type {
+  PolicyRoutePreview,
+  PolicyValidationIssue,
+} from "@reg-copilot/reg-intel-llm"
+
+/**
+ * Egress modes understood by the LLM router
+ */
+export const egressModes = ["enforce", "report-only", "off"] as const
+
+export type EgressModeValue = (typeof egressModes)[number]
+
+const llmRetrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  initialDelayMs: z.number().int().min(0).max(60_000).optional(),
+  maxDelayMs: z.number().int().min(0).max(300_000).optional(),
+  backoffMultiplier: z.number().min(1).max(10).optional(),
+})
+
+const llmTargetFields = {
+  provider: z.string().trim().min(1).max(50),
+  model: z.string().trim().min(1).max(200),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().max(1_000_000).optional(),
+  retry: llmRetrySchema.optional(),
+}
+
+export const llmTaskPolicySchema = z.object({
+  task: z.string().trim().min(1).max(100),
+  ...llmTargetFields,
+  fallbacks: z.array(z.object(llmTargetFields)).max(5).optional(),
+})
+
+/**
+ * Tenant LLM policy as edited in the policy editor. Mirrors TenantLlmPolicy
+ * from @reg-copilot/reg-intel-llm without the tenant ID, which comes from
+ * the route.
+ */
+export const tenantLlmPolicySchema = z.object({
+  defaultProvider: z.string().trim().min(1).max(50),
+  defaultModel: z.string().trim().min(1).max(200),
+  allowRemoteEgress: z.boolean(),
+  egressMode: z.enum(egressModes).optional(),
+  allowOffMode: z.boolean().optional(),
+  tasks: z.array(llmTaskPolicySchema).max(50).default([]),
+  userPolicies: z
+    .record(
+      z.string().uuid(),
+      z.object({
+        egressMode: z.enum(egressModes).optional(),
+        allowOffMode: z.boolean().optional(),
+      })
+    )
+    .optional(),
+})
+
+export type LlmTaskPolicyInput = z.infer<typeof llmTaskPolicySchema>
+export type TenantLlmPolicyInput = z.infer<typeof tenantLlmPolicySchema>
+
+/**
+ * Providers and priced models a policy may reference
+ */
+export interface LlmPolicyCatalog {
+  providers: string[]
+  /** Priced models keyed by provider */
+  models: Record<string, string[]>
+  /** Providers whose models are all priced at 0 (e.g. self-hosted) */
+  zeroCostProviders: string[]
+  /**
+   * False when the pricing catalogue has no current rows, in which case
+   * every provider the router supports is listed
+   */
+  registryConfigured: boolean
+}
+
+/**
+ * Validation and routing preview for a policy
+ */
+export interface LlmPolicyCheck {
+  issues: PolicyValidationIssue[]
+  preview: PolicyRoutePreview[]
+}
+
+export interface TenantLlmPolicyResponse extends LlmPolicyCheck {
+  tenant: { id: string; name: string }
+  /** Saved policy, or null when the router defaults apply */
+  policy: TenantLlmPolicyInput | null
+  updatedAt: string | null
+  catalog: LlmPolicyCatalog
+  canEdit: boolean
+}
+
+export type { PolicyRoutePreview, PolicyValidationIssue }
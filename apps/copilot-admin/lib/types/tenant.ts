@@ -0,0 +1,211 @@
+import { z } from "zod"
+import { TenantStatus, type TenantStatusType } from "./admin"
+
+export const tenantTypes = ["personal", "team", "enterprise"] as const
+export const tenantPlans = ["free", "pro", "enterprise"] as const
+
+export type TenantTypeValue = (typeof tenantTypes)[number]
+export type TenantPlanValue = (typeof tenantPlans)[number]
+
+/**
+ * Quota states reported by copilot_analytics.quota_status, from best to worst
+ */
+export const quotaStatuses = ["ok", "caution", "warning", "exceeded"] as const
+
+export type QuotaStatusValue = (typeof quotaStatuses)[number]
+
+export interface TenantQuota {
+  resourceType: string
+  period: string
+  limitUsd: number
+  usageUsd: number
+  usagePercent: number
+  status: QuotaStatusValue
+}
+
+export interface TenantLlmPolicySummary {
+  defaultProvider: string
+  defaultModel: string
+  allowRemoteEgress: boolean
+  egressMode: string | null
+  taskOverrides: number
+  userOverrides: number
+  updatedAt: string
+}
+
+/**
+ * Tenant as listed in the tenants console
+ */
+export interface TenantSummary {
+  id: string
+  name: string
+  slug: string | null
+  type: TenantTypeValue
+  plan: TenantPlanValue
+  status: TenantStatusType
+  ownerId: string
+  memberCount: number
+  usage: {
+    totalCostUsd: number
+    lastActivityAt: string | null
+  }
+  /** Worst status across the tenant's quotas, or null without quotas */
+  quotaStatus: QuotaStatusValue | null
+  quotas: TenantQuota[]
+  llmPolicy: TenantLlmPolicySummary | null
+  suspendedAt: string | null
+  suspensionReason: string | null
+  deletedAt: string | null
+  createdAt: string
+}
+
+/**
+ * Row shape of copilot_core.tenants
+ */
+export interface TenantRow {
+  id: string
+  name: string
+  slug: string | null
+  type: TenantTypeValue
+  plan: TenantPlanValue
+  status: TenantStatusType
+  owner_id: string
+  suspended_at: string | null
+  suspension_reason: string | null
+  deleted_at: string | null
+  created_at: string
+}
+
+/**
+ * Row shape of copilot_analytics.quota_status for tenant quotas
+ */
+export interface TenantQuotaRow {
+  tenant_id: string
+  resource_type: string
+  quota_period: string
+  limit_value: number | string
+  current_usage: number | string
+  usage_percent: number | string
+  status: QuotaStatusValue
+}
+
+/**
+ * Row shape of copilot_core.tenant_llm_policies
+ */
+export interface TenantLlmPolicyRow {
+  tenant_id: string
+  default_provider: string
+  default_model: string
+  allow_remote_egress: boolean
+  egress_mode: string | null
+  tasks: unknown[] | null
+  user_policies: Record<string, unknown> | null
+  updated_at: string
+}
+
+export function toTenantQuota(row: TenantQuotaRow): TenantQuota {
+  return {
+    resourceType: row.resource_type,
+    period: row.quota_period,
+    limitUsd: Number(row.limit_value),
+    usageUsd: Number(row.current_usage),
+    usagePercent: Number(row.usage_percent),
+    status: row.status,
+  }
+}
+
+export function toTenantLlmPolicySummary(row: TenantLlmPolicyRow): TenantLlmPolicySummary {
+  return {
+    defaultProvider: row.default_provider,
+    defaultModel: row.default_model,
+    allowRemoteEgress: row.allow_remote_egress,
+    egressMode: row.egress_mode,
+    taskOverrides: row.tasks?.length ?? 0,
+    userOverrides: Object.keys(row.user_policies ?? {}).length,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Worst quota status, so a single exceeded quota flags the tenant
+ */
+export function worstQuotaStatus(quotas: TenantQuota[]): QuotaStatusValue | null {
+  if (quotas.length === 0) return null
+  return quotas.reduce<QuotaStatusValue>(
+    (worst, quota) =>
+      quotaStatuses.indexOf(quota.status) > quotaStatuses.indexOf(worst) ? quota.status : worst,
+    "ok"
+  )
+}
+
+export function toTenantSummary(
+  row: TenantRow,
+  details: {
+    memberCount: number
+    totalCostUsd: number
+    lastActivityAt: string | null
+    quotas: TenantQuota[]
+    llmPolicy: TenantLlmPolicySummary | null
+  }
+): TenantSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    type: row.type,
+    plan: row.plan,
+    status: row.status ?? TenantStatus.ACTIVE,
+    ownerId: row.owner_id,
+    memberCount: details.memberCount,
+    usage: {
+      totalCostUsd: details.totalCostUsd,
+      lastActivityAt: details.lastActivityAt,
+    },
+    quotaStatus: worstQuotaStatus(details.quotas),
+    quotas: details.quotas,
+    llmPolicy: details.llmPolicy,
+    suspendedAt: row.suspended_at,
+    suspensionReason: row.suspension_reason,
+    deletedAt: row.deleted_at,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * New tenant created by a platform admin. The owner must be an existing
+ * platform user and becomes the tenant's first member.
+ */
+export const createTenantSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must be lowercase letters, numbers and hyphens")
+    .max(63)
+    .optional(),
+  type: z.enum(tenantTypes).default("team"),
+  plan: z.enum(tenantPlans).default("free"),
+  ownerId: z.string().uuid(),
+})
+
+export type CreateTenantInput = z.infer<typeof createTenantSchema>
+
+/**
+ * Lifecycle change on an existing tenant
+ */
+export const tenantActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("suspend"),
+    reason: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("restore"),
+  }),
+])
+
+export type TenantActionInput = z.infer<typeof tenantActionSchema>
+
+/**
+ * Lifecycle events published on the admin notification hub
+ */
+export type TenantEventValue = "created" | "suspended" | "restored" | "deleted"
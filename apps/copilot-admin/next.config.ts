@@ -8,6 +8,10 @@ import "./lib/env";
 const withNextIntl = createNextIntlPlugin("./i18n/request.ts");
 
 const nextConfig: NextConfig = {
+  transpilePackages: [
+    "@reg-copilot/reg-intel-llm",
+    "@reg-copilot/reg-intel-cache",
+  ],
   // Set turbopack root to the monorepo root to avoid lockfile warning
   turbopack: {
     root: path.join(__dirname, "../.."),
@@ -0,0 +1,305 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { CachingPolicyStore, type LlmPolicyStore, type TenantLlmPolicy } from "@reg-copilot/reg-intel-llm";
+import { AdminRole, type PermissionUser } from "@/lib/utils/permissions";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(),
+  createAdminClient: vi.fn(),
+  loadPermissionUser: vi.fn(),
+  loadTenantSummaries: vi.fn(),
+  getTenantPolicyStore: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({ auth: mocks.auth }));
+vi.mock("@/lib/supabase/server", () => ({ createAdminClient: mocks.createAdminClient }));
+vi.mock("@/lib/server/tenants", () => ({
+  loadPermissionUser: mocks.loadPermissionUser,
+  loadTenantSummaries: mocks.loadTenantSummaries,
+}));
+vi.mock("@/lib/server/llm-policy", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/server/llm-policy")>()),
+  getTenantPolicyStore: mocks.getTenantPolicyStore,
+}));
+
+import { GET, PUT } from "@/app/api/tenants/[tenantId]/llm-policy/route";
+import { POST } from "@/app/api/tenants/[tenantId]/llm-policy/preview/route";
+
+const TENANT_ID = "5b0f3c1e-7a55-4f0e-9d3c-2f1b6a8e4c10";
+const POLICY_URL = `http://localhost/api/tenants/${TENANT_ID}/llm-policy`;
+
+const tenantSummary = { id: TENANT_ID, name: "Acme Accountants", status: "active", llmPolicy: null };
+
+const savedPolicy: TenantLlmPolicy = {
+  tenantId: TENANT_ID,
+  defaultProvider: "openai",
+  defaultModel: "gpt-4o",
+  allowRemoteEgress: true,
+  tasks: [],
+};
+
+const pricing = [
+  { provider: "openai", model: "gpt-4o", input_price_per_million: 2.5, output_price_per_million: 10, effective_date: "2024-01-01", expires_at: null },
+  { provider: "openai", model: "gpt-4o-mini", input_price_per_million: 0.15, output_price_per_million: 0.6, effective_date: "2024-01-01", expires_at: null },
+  { provider: "openai", model: "gpt-4-turbo", input_price_per_million: 10, output_price_per_million: 30, effective_date: "2023-01-01", expires_at: "2024-01-01" },
+  { provider: "local", model: "llama-3.1-8b", input_price_per_million: 0, output_price_per_million: 0, effective_date: "2024-01-01", expires_at: null },
+];
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to `result`
+ */
+function createQuery(result: QueryResult = { data: null, error: null }) {
+  const query: Record<string, unknown> = {};
+  for (const method of ["update", "select", "eq"]) {
+    query[method] = vi.fn(() => query);
+  }
+  query.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query as Record<string, ReturnType<typeof vi.fn>>;
+}
+
+function createSupabase(tables: Record<string, ReturnType<typeof createQuery>> = {}) {
+  const allTables: Record<string, ReturnType<typeof createQuery>> = {
+    model_pricing: createQuery({ data: pricing, error: null }),
+    ...tables,
+  };
+  return {
+    schema: vi.fn(() => ({ from: vi.fn((table: string) => allTables[table] ?? createQuery()) })),
+  };
+}
+
+/**
+ * Policies held in memory, behind the same Redis cache the admin app uses
+ */
+function createCachedPolicyStore() {
+  const policies = new Map<string, TenantLlmPolicy>();
+  const backing: LlmPolicyStore = {
+    getPolicy: async (tenantId) => policies.get(tenantId) ?? null,
+    setPolicy: async (policy) => {
+      policies.set(policy.tenantId, policy);
+    },
+  };
+  const cache = new Map<string, string>();
+  const redis = {
+    get: vi.fn(async (key: string) => cache.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      cache.set(key, value);
+    }),
+    del: vi.fn(async (key: string) => {
+      cache.delete(key);
+    }),
+  };
+  return { store: new CachingPolicyStore(backing, redis), backing, redis };
+}
+
+function signInAs(role: PermissionUser["role"]) {
+  mocks.auth.mockResolvedValue({ user: { id: "admin-1", email: "admin@example.com" } });
+  mocks.loadPermissionUser.mockResolvedValue({ id: "admin-1", role });
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const tenantParams = () => ({ params: Promise.resolve({ tenantId: TENANT_ID }) });
+
+describe("Tenant LLM policy API", () => {
+  let policyStore: ReturnType<typeof createCachedPolicyStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mocks.loadTenantSummaries.mockResolvedValue([tenantSummary]);
+    policyStore = createCachedPolicyStore();
+    mocks.getTenantPolicyStore.mockReturnValue(policyStore.store);
+  });
+
+  describe("GET /api/tenants/[tenantId]/llm-policy", () => {
+    it("denies admins without a tenants view permission", async () => {
+      signInAs(AdminRole.VIEWER);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await GET(new NextRequest(POLICY_URL), tenantParams());
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: "INSUFFICIENT_PERMISSIONS" });
+      expect(mocks.getTenantPolicyStore).not.toHaveBeenCalled();
+    });
+
+    it("returns the policy with the catalog and edit permission", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+      await policyStore.backing.setPolicy(savedPolicy);
+
+      const response = await GET(new NextRequest(POLICY_URL), tenantParams());
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.policy).toMatchObject({ defaultProvider: "openai", defaultModel: "gpt-4o" });
+      expect(body.catalog).toEqual({
+        providers: ["openai", "local"],
+        models: { openai: ["gpt-4o", "gpt-4o-mini"], local: ["llama-3.1-8b"] },
+        zeroCostProviders: ["local"],
+        registryConfigured: true,
+      });
+      expect(body.issues).toEqual([]);
+      expect(body.canEdit).toBe(false);
+    });
+  });
+
+  describe("PUT /api/tenants/[tenantId]/llm-policy", () => {
+    const policyInput = {
+      defaultProvider: "openai",
+      defaultModel: "gpt-4o-mini",
+      allowRemoteEgress: true,
+      egressMode: "enforce",
+      tasks: [{ task: "main-chat", provider: "openai", model: "gpt-4o" }],
+    };
+
+    it("denies admins without tenants.manage", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PUT(jsonRequest(POLICY_URL, "PUT", policyInput), tenantParams());
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: "INSUFFICIENT_PERMISSIONS" });
+      expect(mocks.getTenantPolicyStore).not.toHaveBeenCalled();
+    });
+
+    it("rejects bodies that do not match the policy schema", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PUT(
+        jsonRequest(POLICY_URL, "PUT", { ...policyInput, egressMode: "sometimes", allowRemoteEgress: "yes" }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error).toBe("Invalid request body");
+      expect(body.details.map((issue: { path: string[] }) => issue.path[0])).toEqual(
+        expect.arrayContaining(["egressMode", "allowRemoteEgress"])
+      );
+    });
+
+    it("rejects policies that reference providers without pricing", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PUT(
+        jsonRequest(POLICY_URL, "PUT", { ...policyInput, defaultProvider: "anthropic" }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error).toBe("Invalid LLM policy");
+      expect(body.issues).toContainEqual(expect.objectContaining({ severity: "error" }));
+      await expect(policyStore.backing.getPolicy(TENANT_ID)).resolves.toBeNull();
+    });
+
+    it("returns the saved policy on the next read instead of the cached one", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      const policies = createQuery({ data: null, error: null });
+      mocks.createAdminClient.mockReturnValue(createSupabase({ tenant_llm_policies: policies }));
+      await policyStore.backing.setPolicy(savedPolicy);
+
+      // Reading first caches the previous policy
+      const before = await GET(new NextRequest(POLICY_URL), tenantParams());
+      expect((await before.json()).policy.defaultModel).toBe("gpt-4o");
+
+      const saved = await PUT(jsonRequest(POLICY_URL, "PUT", policyInput), tenantParams());
+      expect(saved.status).toBe(200);
+      expect((await saved.json()).policy).toMatchObject({ defaultModel: "gpt-4o-mini" });
+      expect(policyStore.redis.del).toHaveBeenCalledWith(`copilot:llm:policy:${TENANT_ID}`);
+      expect(policies.update).toHaveBeenCalledWith(expect.objectContaining({ updated_by: "admin-1" }));
+
+      const after = await GET(new NextRequest(POLICY_URL), tenantParams());
+      expect(after.status).toBe(200);
+      expect((await after.json()).policy).toEqual({
+        defaultProvider: "openai",
+        defaultModel: "gpt-4o-mini",
+        allowRemoteEgress: true,
+        egressMode: "enforce",
+        tasks: [{ task: "main-chat", provider: "openai", model: "gpt-4o" }],
+      });
+    });
+  });
+
+  describe("POST /api/tenants/[tenantId]/llm-policy/preview", () => {
+    it("denies admins without a tenants view permission", async () => {
+      signInAs(AdminRole.PLATFORM_ENGINEER);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(
+        jsonRequest(`${POLICY_URL}/preview`, "POST", { ...savedPolicy, tenantId: undefined }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("rejects bodies that do not match the policy schema", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(
+        jsonRequest(`${POLICY_URL}/preview`, "POST", { defaultProvider: "openai" }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: "Invalid request body" });
+    });
+
+    it("previews a draft without saving it", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(
+        jsonRequest(`${POLICY_URL}/preview`, "POST", {
+          defaultProvider: "openai",
+          defaultModel: "gpt-4-turbo",
+          allowRemoteEgress: true,
+        }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.issues).toContainEqual(
+        expect.objectContaining({ severity: "error", message: "No pricing found for openai/gpt-4-turbo" })
+      );
+      expect(body.preview.length).toBeGreaterThan(0);
+      await expect(policyStore.backing.getPolicy(TENANT_ID)).resolves.toBeNull();
+    });
+
+    it("accepts any model from a zero-cost provider", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(
+        jsonRequest(`${POLICY_URL}/preview`, "POST", {
+          defaultProvider: "openai",
+          defaultModel: "gpt-4o",
+          allowRemoteEgress: true,
+          tasks: [{ task: "main-chat", provider: "local", model: "qwen2.5-14b" }],
+        }),
+        tenantParams()
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).issues).not.toContainEqual(expect.objectContaining({ severity: "error" }));
+    });
+  });
+});
@@ -0,0 +1,312 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { AdminRole, type PermissionUser } from "@/lib/utils/permissions";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(),
+  createAdminClient: vi.fn(),
+  loadPermissionUser: vi.fn(),
+  loadTenantSummaries: vi.fn(),
+  loadTenantRow: vi.fn(),
+  publishTenantEvent: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({ auth: mocks.auth }));
+vi.mock("@/lib/supabase/server", () => ({ createAdminClient: mocks.createAdminClient }));
+vi.mock("@/lib/server/tenants", () => ({
+  loadPermissionUser: mocks.loadPermissionUser,
+  loadTenantSummaries: mocks.loadTenantSummaries,
+  loadTenantRow: mocks.loadTenantRow,
+  publishTenantEvent: mocks.publishTenantEvent,
+}));
+
+import { GET, POST } from "@/app/api/tenants/route";
+import { DELETE, PATCH } from "@/app/api/tenants/[tenantId]/route";
+
+const TENANT_ID = "5b0f3c1e-7a55-4f0e-9d3c-2f1b6a8e4c10";
+const OWNER_ID = "9c2d4e6f-1a3b-4c5d-8e7f-0a1b2c3d4e5f";
+
+const tenantSummary = { id: TENANT_ID, name: "Acme Accountants", status: "active" };
+const tenantRow = {
+  id: TENANT_ID,
+  name: "Acme Accountants",
+  status: "active",
+  deleted_at: null,
+};
+
+type QueryResult = { data?: unknown; error?: { message: string; code?: string } | null };
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to `result`
+ */
+function createQuery(result: QueryResult = { data: null, error: null }) {
+  const query: Record<string, unknown> = {};
+  for (const method of ["insert", "update", "delete", "select", "eq", "is"]) {
+    query[method] = vi.fn(() => query);
+  }
+  query.single = vi.fn(async () => result);
+  query.then = (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query as Record<string, ReturnType<typeof vi.fn>>;
+}
+
+function createSupabase(tables: Record<string, ReturnType<typeof createQuery>> = {}) {
+  return {
+    schema: vi.fn(() => ({ from: vi.fn((table: string) => tables[table] ?? createQuery()) })),
+    auth: {
+      admin: {
+        getUserById: vi.fn(async () => ({ data: { user: { id: OWNER_ID } }, error: null })),
+      },
+    },
+  };
+}
+
+function signInAs(role: PermissionUser["role"]) {
+  mocks.auth.mockResolvedValue({ user: { id: "admin-1", email: "admin@example.com" } });
+  mocks.loadPermissionUser.mockResolvedValue({ id: "admin-1", role });
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const tenantParams = { params: Promise.resolve({ tenantId: TENANT_ID }) };
+
+describe("Tenants API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mocks.loadTenantSummaries.mockResolvedValue([tenantSummary]);
+    mocks.loadTenantRow.mockResolvedValue(tenantRow);
+  });
+
+  describe("GET /api/tenants", () => {
+    it("rejects unauthenticated requests", async () => {
+      mocks.auth.mockResolvedValue(null);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await GET(new NextRequest("http://localhost/api/tenants"));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("denies admins without a tenants view permission", async () => {
+      signInAs(AdminRole.VIEWER);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await GET(new NextRequest("http://localhost/api/tenants"));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: "INSUFFICIENT_PERMISSIONS" });
+      expect(mocks.loadTenantSummaries).not.toHaveBeenCalled();
+    });
+
+    it("lists every tenant with the admin's permissions", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await GET(new NextRequest("http://localhost/api/tenants?includeDeleted=true"));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        tenants: [tenantSummary],
+        permissions: { create: true, manage: true, delete: true },
+      });
+      expect(mocks.loadTenantSummaries).toHaveBeenCalledWith(expect.anything(), "all", {
+        includeDeleted: true,
+      });
+    });
+
+    it("only includes deleted tenants for admins who can delete them", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await GET(new NextRequest("http://localhost/api/tenants?includeDeleted=true"));
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).permissions).toEqual({ create: false, manage: false, delete: false });
+      expect(mocks.loadTenantSummaries).toHaveBeenCalledWith(expect.anything(), "all", {
+        includeDeleted: false,
+      });
+    });
+  });
+
+  describe("POST /api/tenants", () => {
+    const validBody = { name: "Acme Accountants", slug: "acme", ownerId: OWNER_ID };
+
+    it("denies admins without tenants.create", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(jsonRequest("http://localhost/api/tenants", "POST", validBody));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: "INSUFFICIENT_PERMISSIONS" });
+    });
+
+    it("rejects invalid bodies with the validation issues", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await POST(
+        jsonRequest("http://localhost/api/tenants", "POST", { name: "", slug: "Not A Slug", ownerId: "owner" })
+      );
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error).toBe("Invalid request body");
+      expect(body.details.map((issue: { path: string[] }) => issue.path[0])).toEqual(
+        expect.arrayContaining(["name", "slug", "ownerId"])
+      );
+    });
+
+    it("reports a slug that is already in use", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      const tenants = createQuery({ data: null, error: { message: "duplicate key", code: "23505" } });
+      mocks.createAdminClient.mockReturnValue(createSupabase({ tenants }));
+
+      const response = await POST(jsonRequest("http://localhost/api/tenants", "POST", validBody));
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toMatchObject({ error: "Slug already in use" });
+    });
+
+    it("creates the tenant with its owner as the first member", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      const tenants = createQuery({ data: { id: TENANT_ID, name: "Acme Accountants" }, error: null });
+      const memberships = createQuery({ data: null, error: null });
+      mocks.createAdminClient.mockReturnValue(
+        createSupabase({ tenants, tenant_memberships: memberships })
+      );
+
+      const response = await POST(jsonRequest("http://localhost/api/tenants", "POST", validBody));
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ tenant: tenantSummary });
+      expect(tenants.insert).toHaveBeenCalledWith({
+        name: "Acme Accountants",
+        slug: "acme",
+        type: "team",
+        plan: "free",
+        owner_id: OWNER_ID,
+      });
+      expect(memberships.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ tenant_id: TENANT_ID, user_id: OWNER_ID, role: "owner", status: "active" })
+      );
+      expect(mocks.publishTenantEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ event: "created" })
+      );
+    });
+  });
+
+  describe("PATCH /api/tenants/[tenantId]", () => {
+    it("rejects unknown actions", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PATCH(
+        jsonRequest(`http://localhost/api/tenants/${TENANT_ID}`, "PATCH", { action: "archive" }),
+        tenantParams
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: "Invalid request body" });
+    });
+
+    it("denies admins without tenants.manage", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PATCH(
+        jsonRequest(`http://localhost/api/tenants/${TENANT_ID}`, "PATCH", { action: "suspend" }),
+        tenantParams
+      );
+
+      expect(response.status).toBe(403);
+      expect(mocks.loadTenantRow).not.toHaveBeenCalled();
+    });
+
+    it("suspends an active tenant with the reason", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      const tenants = createQuery({ data: null, error: null });
+      mocks.createAdminClient.mockReturnValue(createSupabase({ tenants }));
+
+      const response = await PATCH(
+        jsonRequest(`http://localhost/api/tenants/${TENANT_ID}`, "PATCH", {
+          action: "suspend",
+          reason: "Unpaid invoices",
+        }),
+        tenantParams
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ tenant: tenantSummary });
+      expect(tenants.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "suspended", suspension_reason: "Unpaid invoices" })
+      );
+      expect(tenants.eq).toHaveBeenCalledWith("id", TENANT_ID);
+      expect(mocks.publishTenantEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ event: "suspended", reason: "Unpaid invoices" })
+      );
+    });
+
+    it("refuses to restore a tenant that is active", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await PATCH(
+        jsonRequest(`http://localhost/api/tenants/${TENANT_ID}`, "PATCH", { action: "restore" }),
+        tenantParams
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("DELETE /api/tenants/[tenantId]", () => {
+    it("denies admins without tenants.delete", async () => {
+      signInAs(AdminRole.COMPLIANCE_AUDITOR);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await DELETE(new NextRequest(`http://localhost/api/tenants/${TENANT_ID}`), tenantParams);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: "INSUFFICIENT_PERMISSIONS" });
+    });
+
+    it("returns 404 for unknown tenants", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      mocks.loadTenantRow.mockResolvedValue(null);
+      mocks.createAdminClient.mockReturnValue(createSupabase());
+
+      const response = await DELETE(new NextRequest(`http://localhost/api/tenants/${TENANT_ID}`), tenantParams);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("soft deletes the tenant", async () => {
+      signInAs(AdminRole.SUPER_ADMIN);
+      const tenants = createQuery({ data: null, error: null });
+      mocks.createAdminClient.mockReturnValue(createSupabase({ tenants }));
+
+      const response = await DELETE(new NextRequest(`http://localhost/api/tenants/${TENANT_ID}`), tenantParams);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true });
+      expect(tenants.update).toHaveBeenCalledWith(expect.objectContaining({ deleted_by: "admin-1" }));
+      expect(tenants.is).toHaveBeenCalledWith("deleted_at", null);
+      expect(mocks.publishTenantEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ event: "deleted" })
+      );
+    });
+  });
+});
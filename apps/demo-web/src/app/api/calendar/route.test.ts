@@ -0,0 +1,170 @@
+/**
+ * Tests for /api/calendar GET endpoint
+ *
+ * Tests:
+ * - Authentication: Requires a verified tenant context
+ * - Parameter validation: Jurisdictions, date range, lock-ins and format
+ * - ICS export: Returns a text/calendar attachment
+ * - JSON mode: Returns the calendar events
+ * - Graph client lifecycle: Closes the Bolt client after each request
+ */
+
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+
+const mockGetServerSession = vi.fn();
+const mockGetTenantContext = vi.fn();
+const mockBuildComplianceCalendar = vi.fn();
+const mockRenderICalendar = vi.fn();
+const mockClose = vi.fn();
+const mockCreateBoltGraphClient = vi.fn(() => ({ close: mockClose }));
+const mockNormalizeProfileType = vi.fn((value: string | null) => value || 'single-director');
+const mockRequestContext = {
+  run: vi.fn((context, fn) => fn()),
+};
+const mockWithSpan = vi.fn((name, attributes, fn) => fn());
+const mockCreateLogger = vi.fn(() => ({
+  child: vi.fn(() => ({
+    info: vi.fn(),
+  })),
+  error: vi.fn(),
+  info: vi.fn(),
+}));
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: mockGetServerSession,
+}));
+
+vi.mock('@reg-copilot/reg-intel-core', () => ({
+  buildComplianceCalendar: mockBuildComplianceCalendar,
+  createBoltGraphClient: mockCreateBoltGraphClient,
+  normalizeProfileType: mockNormalizeProfileType,
+  renderICalendar: mockRenderICalendar,
+}));
+
+vi.mock('@reg-copilot/reg-intel-observability', () => ({
+  createLogger: mockCreateLogger,
+  requestContext: mockRequestContext,
+  withSpan: mockWithSpan,
+}));
+
+vi.mock('@/lib/auth/options', () => ({
+  authOptions: {},
+}));
+
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: mockGetTenantContext,
+}));
+
+const calendar = {
+  profileId: 'investor',
+  jurisdictions: ['IE'],
+  from: '2026-01-01',
+  to: '2026-12-31',
+  generatedAt: '2026-01-15T09:30:00.000Z',
+  events: [
+    {
+      uid: 'IE_CGT_RETURN-IE_CGT_RETURN_DEADLINE-20261102@reg-copilot',
+      date: '2026-11-02',
+      kind: 'FILING',
+      title: 'CGT return (tax year 2025)',
+      description: 'Source nodes: IE_CGT_RETURN, IE_CGT_RETURN_DEADLINE',
+      jurisdiction: 'IE',
+      sourceNodeIds: ['IE_CGT_RETURN', 'IE_CGT_RETURN_DEADLINE'],
+    },
+  ],
+};
+
+describe('GET /api/calendar', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mockGetTenantContext.mockResolvedValue({ userId: 'user-123', tenantId: 'tenant-123', role: 'member' });
+    mockBuildComplianceCalendar.mockResolvedValue(calendar);
+    mockRenderICalendar.mockReturnValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 when the tenant context cannot be verified', async () => {
+    mockGetTenantContext.mockRejectedValue(new Error('Unauthorized: No valid session'));
+
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost:3000/api/calendar'));
+
+    expect(response.status).toBe(401);
+    expect(mockCreateBoltGraphClient).not.toHaveBeenCalled();
+  });
+
+  it('returns an iCalendar attachment by default', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(
+      new Request('http://localhost:3000/api/calendar?profileType=investor&jurisdictions=ie&from=2026-01-01&to=2026-12-31')
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="compliance-calendar-investor.ics"');
+    expect(await response.text()).toBe('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+    expect(mockBuildComplianceCalendar).toHaveBeenCalledWith(expect.anything(), {
+      profileId: 'investor',
+      jurisdictions: ['IE'],
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-12-31T00:00:00Z'),
+      lockIns: [],
+    });
+    expect(mockClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns calendar events as JSON and passes lock-ins through', async () => {
+    const { GET } = await import('./route');
+    const response = await GET(
+      new Request(
+        'http://localhost:3000/api/calendar?format=json&from=2026-01-01&to=2026-12-31&lockIns=IE_ASSET_ETF:2018-06-15'
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(calendar);
+    expect(mockBuildComplianceCalendar.mock.calls[0][1].lockIns).toEqual([
+      { nodeId: 'IE_ASSET_ETF', startedOn: '2018-06-15' },
+    ]);
+  });
+
+  it('defaults to a twelve month range from today', async () => {
+    const { GET } = await import('./route');
+    await GET(new Request('http://localhost:3000/api/calendar?format=json'));
+
+    const { from, to } = mockBuildComplianceCalendar.mock.calls[0][1];
+    expect(to.getUTCFullYear() - from.getUTCFullYear()).toBe(1);
+    expect(to.getUTCMonth()).toBe(from.getUTCMonth());
+  });
+
+  it.each([
+    ['jurisdictions=I-E', 'Invalid jurisdictions'],
+    ['format=pdf', 'Invalid format'],
+    ['from=2026-13-45', 'Invalid date range'],
+    ['from=2026-06-01&to=2026-01-01', 'Invalid date range'],
+    ['from=2020-01-01&to=2030-01-01', 'Date range cannot exceed 5 years'],
+    ['lockIns=IE_ASSET_ETF', 'Invalid lockIns'],
+    ["lockIns=IE_ASSET'ETF:2018-06-15", 'Invalid lockIns'],
+  ])('returns 400 for %s', async (query, error) => {
+    const { GET } = await import('./route');
+    const response = await GET(new Request(`http://localhost:3000/api/calendar?${query}`));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+    expect(mockCreateBoltGraphClient).not.toHaveBeenCalled();
+  });
+
+  it('closes the graph client and returns 500 when the calendar cannot be built', async () => {
+    mockBuildComplianceCalendar.mockRejectedValue(new Error('Connection refused'));
+
+    const { GET } = await import('./route');
+    const response = await GET(new Request('http://localhost:3000/api/calendar'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Connection refused' });
+    expect(mockClose).toHaveBeenCalledTimes(1);
+  });
+});
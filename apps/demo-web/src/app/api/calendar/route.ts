@@ -0,0 +1,161 @@
+/**
+ * Compliance calendar endpoint
+ *
+ * Returns the filing deadlines, payment dates and lock-in expiries for a
+ * profile and jurisdiction set, computed from graph obligations and timelines.
+ *
+ * Query parameters:
+ * - profileType, jurisdictions (comma separated, default IE)
+ * - from, to (YYYY-MM-DD, default today to 12 months ahead)
+ * - lockIns: comma separated NODE_ID:YYYY-MM-DD pairs for reliefs or benefits
+ *   already claimed
+ * - format: ics (default, iCalendar download) or json
+ */
+
+import {
+  buildComplianceCalendar,
+  createBoltGraphClient,
+  normalizeProfileType,
+  renderICalendar,
+  type LockInStart,
+  type ProfileId,
+} from '@reg-copilot/reg-intel-core';
+import { createLogger, requestContext, withSpan } from '@reg-copilot/reg-intel-observability';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth/options';
+import { getTenantContext } from '@/lib/auth/tenantContext';
+import type { ExtendedSession } from '@/types/auth';
+const logger = createLogger('CalendarApiRoute');
+
+const DEFAULT_RANGE_MONTHS = 12;
+const MAX_RANGE_YEARS = 5;
+const MAX_LOCK_INS = 25;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const NODE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const JURISDICTION_PATTERN = /^[A-Z]{2,10}$/;
+
+function parseDate(value: string | null): Date | null {
+  if (!value || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseLockIns(value: string | null): LockInStart[] | null {
+  if (!value) {
+    return [];
+  }
+
+  const lockIns: LockInStart[] = [];
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [nodeId, startedOn] = entry.split(':');
+    if (!nodeId || !NODE_ID_PATTERN.test(nodeId) || nodeId.length >= 256 || !parseDate(startedOn ?? null)) {
+      return null;
+    }
+    lockIns.push({ nodeId, startedOn });
+  }
+
+  return lockIns.length > MAX_LOCK_INS ? null : lockIns;
+}
+
+function badRequest(error: string) {
+  return Response.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions) as ExtendedSession | null;
+    const { userId, tenantId } = await getTenantContext(session);
+
+    return await requestContext.run({ tenantId, userId }, () =>
+      withSpan(
+        'api.calendar',
+        {
+          'app.route': '/api/calendar',
+          'app.tenant.id': tenantId,
+          'app.user.id': userId,
+        },
+        async () => {
+          const { searchParams } = new URL(request.url);
+          const profileType: ProfileId = normalizeProfileType(searchParams.get('profileType'));
+          const jurisdictions = Array.from(
+            new Set(
+              (searchParams.get('jurisdictions') || 'IE')
+                .split(',')
+                .map((code) => code.trim().toUpperCase())
+                .filter(Boolean)
+            )
+          );
+          const format = searchParams.get('format') || 'ics';
+
+          if (jurisdictions.length === 0 || !jurisdictions.every((code) => JURISDICTION_PATTERN.test(code))) {
+            return badRequest('Invalid jurisdictions');
+          }
+          if (format !== 'ics' && format !== 'json') {
+            return badRequest('Invalid format');
+          }
+
+          const today = new Date();
+          const from = searchParams.has('from')
+            ? parseDate(searchParams.get('from'))
+            : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+          const to = searchParams.has('to')
+            ? parseDate(searchParams.get('to'))
+            : from && new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + DEFAULT_RANGE_MONTHS, from.getUTCDate()));
+
+          if (!from || !to || to < from) {
+            return badRequest('Invalid date range');
+          }
+          if (to.getUTCFullYear() - from.getUTCFullYear() > MAX_RANGE_YEARS) {
+            return badRequest(`Date range cannot exceed ${MAX_RANGE_YEARS} years`);
+          }
+
+          const lockIns = parseLockIns(searchParams.get('lockIns'));
+          if (!lockIns) {
+            return badRequest('Invalid lockIns');
+          }
+
+          const scopedLogger = logger.child({ jurisdictions, profileType, tenantId, userId });
+          scopedLogger.info({ lockIns: lockIns.length }, 'Building compliance calendar');
+
+          const graphClient = createBoltGraphClient();
+          try {
+            const calendar = await buildComplianceCalendar(graphClient, {
+              profileId: profileType,
+              jurisdictions,
+              from,
+              to,
+              lockIns,
+            });
+
+            scopedLogger.info({ eventCount: calendar.events.length, format }, 'Returning compliance calendar');
+
+            if (format === 'json') {
+              return Response.json(calendar);
+            }
+
+            return new Response(renderICalendar(calendar), {
+              headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': `attachment; filename="compliance-calendar-${profileType}.ics"`,
+                'Cache-Control': 'no-store',
+              },
+            });
+          } finally {
+            await graphClient.close();
+          }
+        },
+      ),
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Request failed';
+    logger.error({ error }, 'Request failed');
+    return Response.json(
+      { error: errorMessage },
+      { status: error instanceof Error && error.message.includes('Unauthorized') ? 401 : 500 }
+    );
+  }
+}
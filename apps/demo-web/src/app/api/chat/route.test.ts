@@ -30,10 +30,19 @@ vi.mock('@/lib/server/conversations', () => ({
   conversationContextStore: {},
   conversationEventHub: {},
   conversationListEventHub: {},
+  conversationScenarioStore: {},
   conversationStore: {},
   executionContextManager: {},
 }));
 
+vi.mock('@/lib/server/graphChangeFeed', () => ({
+  graphChangeFeed: null,
+}));
+
+vi.mock('@/lib/server/graphRetrieval', () => ({
+  graphRetriever: null,
+}));
+
 describe('chat route tracing', () => {
   const finishedSpans: TestSpan[] = [];
 
@@ -17,10 +17,15 @@ import {
   conversationContextStore,
   conversationEventHub,
   conversationListEventHub,
+  conversationScenarioStore,
   conversationStore,
   executionContextManager,
 } from '@/lib/server/conversations';
-import { policyStore } from '@/lib/server/llm';
+import { conceptProposalStore } from '@/lib/server/conceptCuration';
+import { graphChangeFeed } from '@/lib/server/graphChangeFeed';
+import { graphVersionStore } from '@/lib/server/graphVersioning';
+import { graphRetriever } from '@/lib/server/graphRetrieval';
+import { policyStore, rateGraphClient } from '@/lib/server/llm';
 import { checkLLMQuotaBeforeRequest } from '@/lib/costTracking';
 import { createQuotaExceededStreamResponse, calculateRetryAfter } from '@/lib/quotaErrors';
 import { getCostEstimationService } from '@/lib/costEstimation';
@@ -38,6 +43,12 @@ const handler = createChatRouteHandler({
   conversationListEventHub: conversationListEventHub as unknown as ConversationListEventHub,
   executionContextManager,
   policyStore,
+  graphChangeFeed: graphChangeFeed ?? undefined,
+  conceptProposalStore: conceptProposalStore ?? undefined,
+  graphVersionStore: graphVersionStore ?? undefined,
+  rateGraphClient: rateGraphClient ?? undefined,
+  scenarioStore: conversationScenarioStore,
+  graphRetriever: graphRetriever ?? undefined,
 });
 
 const headerSetter = {
@@ -3,6 +3,7 @@ import { NextRequest } from 'next/server';
 
 const mockBranchFromMessage = vi.fn();
 const mockGetConversation = vi.fn();
+const mockForkScenarios = vi.fn();
 
 const mockLogger = {
   child: vi.fn(() => mockLogger),
@@ -26,6 +27,16 @@ vi.mock('next-auth/next', () => ({
   getServerSession: vi.fn(async () => ({ user: { id: 'user-123', tenantId: 'tenant-1' } })),
 }));
 
+// Resolve the tenant from the mocked session instead of Supabase and cookies
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: vi.fn(async (session: { user?: { id?: string; tenantId?: string } } | null) => {
+    if (!session?.user?.id) {
+      throw new Error('Unauthorized');
+    }
+    return { userId: session.user.id, tenantId: session.user.tenantId ?? 'default', role: 'member' };
+  }),
+}));
+
 vi.mock('@reg-copilot/reg-intel-conversations', () => ({
   toClientPath: (path: unknown) => path,
 }));
@@ -34,6 +45,9 @@ vi.mock('@/lib/server/conversations', () => ({
   conversationPathStore: {
     branchFromMessage: mockBranchFromMessage,
   },
+  conversationScenarioStore: {
+    forkScenarios: mockForkScenarios,
+  },
   conversationStore: {
     getConversation: mockGetConversation,
   },
@@ -44,6 +58,8 @@ describe('branch route', () => {
     vi.resetModules();
     mockBranchFromMessage.mockReset();
     mockGetConversation.mockReset();
+    mockForkScenarios.mockReset();
+    mockForkScenarios.mockResolvedValue([]);
     mockLogger.info.mockClear();
     mockLogger.warn.mockClear();
     mockLogger.error.mockClear();
@@ -124,6 +140,13 @@ describe('branch route', () => {
         description: 'Exploring German tax rules',
       });
 
+      expect(mockForkScenarios).toHaveBeenCalledWith({
+        tenantId: 'tenant-1',
+        conversationId: 'conv-1',
+        sourcePathId: 'path-1',
+        targetPathId: 'path-2',
+      });
+
       expect(mockLogger.info).toHaveBeenCalledWith(
         expect.objectContaining({
           tenantId: 'tenant-1',
@@ -249,6 +272,61 @@ describe('branch route', () => {
       expect(mockBranchFromMessage).not.toHaveBeenCalled();
     });
 
+    it('returns the branch with a warning if its scenarios cannot be copied', async () => {
+      mockGetConversation.mockResolvedValue({
+        id: 'conv-1',
+        tenantId: 'tenant-1',
+      });
+
+      mockBranchFromMessage.mockResolvedValue({
+        path: {
+          id: 'path-2',
+          conversationId: 'conv-1',
+          parentPathId: 'path-1',
+          branchPointMessageId: 'msg-5',
+          isPrimary: false,
+        },
+        conversationId: 'conv-1',
+        branchPointMessage: {
+          id: 'msg-5',
+          role: 'user',
+          content: 'What about the German tax implications?',
+          isBranchPoint: true,
+          branchedToPaths: ['path-2'],
+        },
+      });
+      mockForkScenarios.mockRejectedValue(new Error('Scenario store unavailable'));
+
+      const { POST } = await import('./route');
+
+      const response = await POST(
+        new Request('http://localhost/api/conversations/conv-1/branch', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({
+            sourceMessageId: 'msg-5',
+          }),
+        }) as NextRequest,
+        { params: Promise.resolve({ id: 'conv-1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.path).toMatchObject({ id: 'path-2' });
+      expect(data.warning).toContain('scenarios could not be copied');
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'tenant-1',
+          conversationId: 'conv-1',
+          pathId: 'path-2',
+          sourcePathId: 'path-1',
+        }),
+        'Failed to copy scenarios to branch'
+      );
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
     it('returns 400 if branchFromMessage fails', async () => {
       mockGetConversation.mockResolvedValue({
         id: 'conv-1',
@@ -6,7 +6,7 @@ import { createLogger, requestContext, withSpan, recordBranchCreate } from '@reg
 import { authOptions } from '@/lib/auth/options';
 import { getTenantContext } from '@/lib/auth/tenantContext';
 import type { ExtendedSession } from '@/types/auth';
-import { conversationPathStore, conversationStore } from '@/lib/server/conversations';
+import { conversationPathStore, conversationScenarioStore, conversationStore } from '@/lib/server/conversations';
 
 export const dynamic = 'force-dynamic';
 
@@ -88,6 +88,26 @@ export async function POST(
               description: description ?? null,
             });
 
+            // The branch starts with a copy of the source path's scenarios. The
+            // branch already exists, so a failed copy is reported, not thrown.
+            let warning: string | undefined;
+            if (result.path.parentPathId) {
+              try {
+                await conversationScenarioStore.forkScenarios({
+                  tenantId,
+                  conversationId,
+                  sourcePathId: result.path.parentPathId,
+                  targetPathId: result.path.id,
+                });
+              } catch (error) {
+                logger.warn(
+                  { tenantId, conversationId, pathId: result.path.id, sourcePathId: result.path.parentPathId, error },
+                  'Failed to copy scenarios to branch',
+                );
+                warning = 'Branch created, but its scenarios could not be copied from the source path';
+              }
+            }
+
             logger.info(
               { tenantId, conversationId, sourceMessageId, pathId: result.path.id, name },
               'Branch created successfully',
@@ -113,6 +133,7 @@ export async function POST(
                 isBranchPoint: result.branchPointMessage.isBranchPoint,
                 branchedToPaths: result.branchPointMessage.branchedToPaths,
               },
+              ...(warning ? { warning } : {}),
             });
           } catch (error) {
             logger.error({ tenantId, conversationId, sourceMessageId, error }, 'Failed to create branch');
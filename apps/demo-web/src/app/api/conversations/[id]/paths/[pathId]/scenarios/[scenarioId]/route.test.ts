@@ -0,0 +1,121 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const mockGetConversation = vi.fn();
+const mockGetScenario = vi.fn();
+const mockUpdateScenario = vi.fn();
+const mockDeleteScenario = vi.fn();
+
+const mockLogger = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+vi.mock('@reg-copilot/reg-intel-observability', async () => {
+  const actual = await vi.importActual<typeof import('@reg-copilot/reg-intel-observability')>(
+    '@reg-copilot/reg-intel-observability'
+  );
+  return {
+    ...actual,
+    createLogger: () => mockLogger,
+  };
+});
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn(async () => ({ user: { id: 'user-123', tenantId: 'tenant-1' } })),
+}));
+
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: vi.fn(async () => ({
+    userId: 'user-123',
+    tenantId: 'tenant-1',
+    role: 'member',
+  })),
+}));
+
+vi.mock('@/lib/server/conversations', () => ({
+  conversationScenarioStore: {
+    getScenario: mockGetScenario,
+    updateScenario: mockUpdateScenario,
+    deleteScenario: mockDeleteScenario,
+  },
+  conversationStore: {
+    getConversation: mockGetConversation,
+  },
+}));
+
+const params = { params: Promise.resolve({ id: 'conv-1', pathId: 'path-1', scenarioId: 'scenario-1' }) };
+
+const scenarioUrl = 'http://localhost/api/conversations/conv-1/paths/path-1/scenarios/scenario-1';
+
+function patchScenario(body: unknown) {
+  return new Request(scenarioUrl, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }) as NextRequest;
+}
+
+describe('path scenario route', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mockGetConversation.mockReset();
+    mockGetScenario.mockReset();
+    mockUpdateScenario.mockReset();
+    mockDeleteScenario.mockReset();
+    mockGetConversation.mockResolvedValue({ id: 'conv-1', tenantId: 'tenant-1' });
+    mockGetScenario.mockResolvedValue({ id: 'scenario-1', conversationId: 'conv-1', pathId: 'path-1' });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renames a scenario', async () => {
+    mockUpdateScenario.mockResolvedValue({ id: 'scenario-1', name: 'All salary' });
+
+    const { PATCH } = await import('./route');
+    const response = await PATCH(patchScenario({ name: 'All salary' }), params);
+
+    expect(response.status).toBe(200);
+    expect(mockGetConversation).toHaveBeenCalledWith({ tenantId: 'tenant-1', conversationId: 'conv-1', userId: 'user-123' });
+    expect(mockUpdateScenario).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      scenarioId: 'scenario-1',
+      name: 'All salary',
+      facts: undefined,
+    });
+  });
+
+  it('does not update a scenario in a conversation the user cannot access', async () => {
+    mockGetConversation.mockResolvedValue(null);
+
+    const { PATCH } = await import('./route');
+    const response = await PATCH(patchScenario({ name: 'All salary' }), params);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Conversation not found' });
+    expect(mockUpdateScenario).not.toHaveBeenCalled();
+  });
+
+  it('deletes a scenario', async () => {
+    const { DELETE } = await import('./route');
+    const response = await DELETE(new Request(scenarioUrl, { method: 'DELETE' }) as NextRequest, params);
+
+    expect(response.status).toBe(200);
+    expect(mockDeleteScenario).toHaveBeenCalledWith({ tenantId: 'tenant-1', scenarioId: 'scenario-1' });
+  });
+
+  it('does not delete a scenario in a conversation the user cannot access', async () => {
+    mockGetConversation.mockResolvedValue(null);
+
+    const { DELETE } = await import('./route');
+    const response = await DELETE(new Request(scenarioUrl, { method: 'DELETE' }) as NextRequest, params);
+
+    expect(response.status).toBe(404);
+    expect(mockGetScenario).not.toHaveBeenCalled();
+    expect(mockDeleteScenario).not.toHaveBeenCalled();
+  });
+});
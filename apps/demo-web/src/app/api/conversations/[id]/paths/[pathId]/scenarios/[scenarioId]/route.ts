@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { createLogger, requestContext, withSpan } from '@reg-copilot/reg-intel-observability';
+import { authOptions } from '@/lib/auth/options';
+import { getTenantContext } from '@/lib/auth/tenantContext';
+import type { ExtendedSession } from '@/types/auth';
+import { conversationScenarioStore, conversationStore } from '@/lib/server/conversations';
+import { parseScenarioInput } from '@/lib/server/scenarios';
+
+export const dynamic = 'force-dynamic';
+
+const logger = createLogger('PathScenarioRoute');
+
+type ScenarioRouteParams = { params: Promise<{ id: string; pathId: string; scenarioId: string }> };
+
+/**
+ * PATCH /api/conversations/[id]/paths/[pathId]/scenarios/[scenarioId]
+ * Rename a scenario or replace its facts
+ */
+export async function PATCH(request: NextRequest, context: ScenarioRouteParams) {
+  const { id: conversationId, pathId, scenarioId } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions) as ExtendedSession | null;
+    const { userId, tenantId } = await getTenantContext(session);
+
+    return requestContext.run(
+    { tenantId, userId },
+    () =>
+      withSpan(
+        'api.conversations.path.scenario.patch',
+        {
+          'app.route': '/api/conversations/[id]/paths/[pathId]/scenarios/[scenarioId]',
+          'app.tenant.id': tenantId,
+          'app.user.id': userId,
+          'app.conversation.id': conversationId,
+          'app.path.id': pathId,
+        },
+        async () => {
+          // Verify conversation exists and user has access
+          const conversation = await conversationStore.getConversation({
+            tenantId,
+            conversationId,
+            userId,
+          });
+
+          if (!conversation) {
+            logger.warn({ tenantId, userId, conversationId }, 'Conversation not found');
+            return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+          }
+
+          const scenario = await conversationScenarioStore.getScenario({ tenantId, scenarioId });
+
+          if (!scenario || scenario.conversationId !== conversationId || scenario.pathId !== pathId) {
+            logger.warn({ tenantId, conversationId, pathId, scenarioId }, 'Scenario not found');
+            return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+          }
+
+          const input = parseScenarioInput(await request.json().catch(() => null), { partial: true });
+          if (!input.ok) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+          }
+
+          const updated = await conversationScenarioStore.updateScenario({
+            tenantId,
+            scenarioId,
+            name: input.name,
+            facts: input.facts,
+          });
+
+          logger.info({ tenantId, conversationId, pathId, scenarioId }, 'Scenario updated');
+          return NextResponse.json({ scenario: updated });
+        },
+      ),
+    );
+  } catch (error) {
+    logger.error({ error, conversationId, pathId, scenarioId }, 'Error in PATCH scenario');
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]/paths/[pathId]/scenarios/[scenarioId]
+ * Remove a scenario from a path
+ */
+export async function DELETE(_request: NextRequest, context: ScenarioRouteParams) {
+  const { id: conversationId, pathId, scenarioId } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions) as ExtendedSession | null;
+    const { userId, tenantId } = await getTenantContext(session);
+
+    return requestContext.run(
+    { tenantId, userId },
+    () =>
+      withSpan(
+        'api.conversations.path.scenario.delete',
+        {
+          'app.route': '/api/conversations/[id]/paths/[pathId]/scenarios/[scenarioId]',
+          'app.tenant.id': tenantId,
+          'app.user.id': userId,
+          'app.conversation.id': conversationId,
+          'app.path.id': pathId,
+        },
+        async () => {
+          // Verify conversation exists and user has access
+          const conversation = await conversationStore.getConversation({
+            tenantId,
+            conversationId,
+            userId,
+          });
+
+          if (!conversation) {
+            logger.warn({ tenantId, userId, conversationId }, 'Conversation not found');
+            return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+          }
+
+          const scenario = await conversationScenarioStore.getScenario({ tenantId, scenarioId });
+
+          if (!scenario || scenario.conversationId !== conversationId || scenario.pathId !== pathId) {
+            logger.warn({ tenantId, conversationId, pathId, scenarioId }, 'Scenario not found');
+            return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+          }
+
+          await conversationScenarioStore.deleteScenario({ tenantId, scenarioId });
+
+          logger.info({ tenantId, conversationId, pathId, scenarioId }, 'Scenario deleted');
+          return NextResponse.json({ status: 'ok' });
+        },
+      ),
+    );
+  } catch (error) {
+    logger.error({ error, conversationId, pathId, scenarioId }, 'Error in DELETE scenario');
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const mockGetPath = vi.fn();
+const mockGetConversation = vi.fn();
+const mockListScenarios = vi.fn();
+const mockCreateScenario = vi.fn();
+
+const mockLogger = {
+  child: vi.fn(),
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+mockLogger.child.mockReturnValue(mockLogger);
+
+vi.mock('@reg-copilot/reg-intel-observability', async () => {
+  const actual = await vi.importActual<typeof import('@reg-copilot/reg-intel-observability')>(
+    '@reg-copilot/reg-intel-observability'
+  );
+  return {
+    ...actual,
+    createLogger: () => mockLogger,
+  };
+});
+
+vi.mock('next-auth/next', () => ({
+  getServerSession: vi.fn(async () => ({ user: { id: 'user-123', tenantId: 'tenant-1' } })),
+}));
+
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: vi.fn(async () => ({
+    userId: 'user-123',
+    tenantId: 'tenant-1',
+    role: 'member',
+  })),
+}));
+
+vi.mock('@reg-copilot/reg-intel-core', () => ({
+  MAX_SCENARIOS: 2,
+}));
+
+vi.mock('@/lib/server/conversations', () => ({
+  conversationPathStore: {
+    getPath: mockGetPath,
+  },
+  conversationScenarioStore: {
+    listScenarios: mockListScenarios,
+    createScenario: mockCreateScenario,
+  },
+  conversationStore: {
+    getConversation: mockGetConversation,
+  },
+}));
+
+const params = { params: Promise.resolve({ id: 'conv-1', pathId: 'path-1' }) };
+
+function postScenario(body: unknown) {
+  return new Request('http://localhost/api/conversations/conv-1/paths/path-1/scenarios', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }) as NextRequest;
+}
+
+describe('path scenarios route', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mockGetPath.mockReset();
+    mockGetConversation.mockReset();
+    mockListScenarios.mockReset();
+    mockCreateScenario.mockReset();
+    mockGetPath.mockResolvedValue({ id: 'path-1', conversationId: 'conv-1' });
+    mockGetConversation.mockResolvedValue({ id: 'conv-1', tenantId: 'tenant-1' });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the scenarios of a path', async () => {
+    mockGetConversation.mockResolvedValue({ id: 'conv-1', tenantId: 'tenant-1' });
+    mockListScenarios.mockResolvedValue([{ id: 'scenario-1', name: 'All salary', facts: { income: { salary: 60000 } } }]);
+
+    const { GET } = await import('./route');
+    const response = await GET(
+      new Request('http://localhost/api/conversations/conv-1/paths/path-1/scenarios') as NextRequest,
+      params
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      scenarios: [{ id: 'scenario-1', name: 'All salary', facts: { income: { salary: 60000 } } }],
+      maxScenarios: 2,
+    });
+    expect(mockListScenarios).toHaveBeenCalledWith({ tenantId: 'tenant-1', conversationId: 'conv-1', pathId: 'path-1' });
+  });
+
+  it('creates a scenario with validated facts', async () => {
+    mockListScenarios.mockResolvedValue([]);
+    mockCreateScenario.mockImplementation(async input => ({ id: 'scenario-1', ...input }));
+
+    const { POST } = await import('./route');
+    const response = await POST(
+      postScenario({
+        name: '  Salary and dividends ',
+        facts: { profile: { hasCompany: true }, income: { salary: 20000, dividends: 30000 }, companyProfit: 100000 },
+      }),
+      params
+    );
+
+    expect(response.status).toBe(201);
+    expect(mockCreateScenario).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      conversationId: 'conv-1',
+      pathId: 'path-1',
+      name: 'Salary and dividends',
+      facts: {
+        profile: { hasCompany: true },
+        income: { salary: 20000, dividends: 30000 },
+        companyProfit: 100000,
+      },
+    });
+  });
+
+  it('returns 404 when the user cannot access the conversation', async () => {
+    mockGetConversation.mockResolvedValue(null);
+
+    const { POST } = await import('./route');
+    const response = await POST(postScenario({ name: 'All salary', facts: { income: { salary: 60000 } } }), params);
+
+    expect(response.status).toBe(404);
+    expect(mockGetConversation).toHaveBeenCalledWith({ tenantId: 'tenant-1', conversationId: 'conv-1', userId: 'user-123' });
+    expect(mockCreateScenario).not.toHaveBeenCalled();
+  });
+
+  it('rejects negative amounts', async () => {
+    const { POST } = await import('./route');
+    const response = await POST(postScenario({ name: 'Bad', facts: { income: { salary: -1 } } }), params);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'facts.income.salary must be a non-negative number' });
+    expect(mockCreateScenario).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the path already holds the most scenarios', async () => {
+    mockListScenarios.mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+
+    const { POST } = await import('./route');
+    const response = await POST(postScenario({ name: 'Third', facts: { income: {} } }), params);
+
+    expect(response.status).toBe(409);
+    expect(mockCreateScenario).not.toHaveBeenCalled();
+  });
+});
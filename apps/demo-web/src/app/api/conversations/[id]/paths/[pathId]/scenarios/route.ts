@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { MAX_SCENARIOS } from '@reg-copilot/reg-intel-core';
+
+import { createLogger, requestContext, withSpan } from '@reg-copilot/reg-intel-observability';
+import { authOptions } from '@/lib/auth/options';
+import { getTenantContext } from '@/lib/auth/tenantContext';
+import type { ExtendedSession } from '@/types/auth';
+import { conversationPathStore, conversationScenarioStore, conversationStore } from '@/lib/server/conversations';
+import { parseScenarioInput } from '@/lib/server/scenarios';
+
+export const dynamic = 'force-dynamic';
+
+const logger = createLogger('PathScenariosRoute');
+
+/**
+ * GET /api/conversations/[id]/paths/[pathId]/scenarios
+ * List the scenarios of a path
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string; pathId: string }> }
+) {
+  const { id: conversationId, pathId } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions) as ExtendedSession | null;
+    const { userId, tenantId } = await getTenantContext(session);
+
+    return requestContext.run(
+    { tenantId, userId },
+    () =>
+      withSpan(
+        'api.conversations.path.scenarios.get',
+        {
+          'app.route': '/api/conversations/[id]/paths/[pathId]/scenarios',
+          'app.tenant.id': tenantId,
+          'app.user.id': userId,
+          'app.conversation.id': conversationId,
+          'app.path.id': pathId,
+        },
+        async () => {
+          // Verify conversation exists and user has access
+          const conversation = await conversationStore.getConversation({
+            tenantId,
+            conversationId,
+            userId,
+          });
+
+          if (!conversation) {
+            logger.warn({ tenantId, userId, conversationId }, 'Conversation not found');
+            return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+          }
+
+          const scenarios = await conversationScenarioStore.listScenarios({ tenantId, conversationId, pathId });
+
+          return NextResponse.json({ scenarios, maxScenarios: MAX_SCENARIOS });
+        },
+      ),
+    );
+  } catch (error) {
+    logger.error({ error, conversationId, pathId }, 'Error in GET scenarios');
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/conversations/[id]/paths/[pathId]/scenarios
+ * Add a scenario to a path
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; pathId: string }> }
+) {
+  const { id: conversationId, pathId } = await context.params;
+
+  try {
+    const session = await getServerSession(authOptions) as ExtendedSession | null;
+    const { userId, tenantId } = await getTenantContext(session);
+
+    return requestContext.run(
+    { tenantId, userId },
+    () =>
+      withSpan(
+        'api.conversations.path.scenarios.post',
+        {
+          'app.route': '/api/conversations/[id]/paths/[pathId]/scenarios',
+          'app.tenant.id': tenantId,
+          'app.user.id': userId,
+          'app.conversation.id': conversationId,
+          'app.path.id': pathId,
+        },
+        async () => {
+          // Verify conversation exists and user has access
+          const conversation = await conversationStore.getConversation({
+            tenantId,
+            conversationId,
+            userId,
+          });
+
+          if (!conversation) {
+            logger.warn({ tenantId, userId, conversationId }, 'Conversation not found');
+            return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+          }
+
+          // Verify path exists and belongs to conversation
+          const path = await conversationPathStore.getPath({ tenantId, pathId });
+
+          if (!path || path.conversationId !== conversationId) {
+            logger.warn({ tenantId, conversationId, pathId }, 'Path not found or does not belong to conversation');
+            return NextResponse.json({ error: 'Path not found' }, { status: 404 });
+          }
+
+          const input = parseScenarioInput(await request.json().catch(() => null));
+          if (!input.ok) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+          }
+
+          const existing = await conversationScenarioStore.listScenarios({ tenantId, conversationId, pathId });
+          if (existing.length >= MAX_SCENARIOS) {
+            return NextResponse.json(
+              { error: `A path can hold at most ${MAX_SCENARIOS} scenarios` },
+              { status: 409 }
+            );
+          }
+
+          const scenario = await conversationScenarioStore.createScenario({
+            tenantId,
+            conversationId,
+            pathId,
+            name: input.name!,
+            facts: input.facts!,
+          });
+
+          logger.info({ tenantId, conversationId, pathId, scenarioId: scenario.id }, 'Scenario created');
+          return NextResponse.json({ scenario }, { status: 201 });
+        },
+      ),
+    );
+  } catch (error) {
+    logger.error({ error, conversationId, pathId }, 'Error in POST scenario');
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
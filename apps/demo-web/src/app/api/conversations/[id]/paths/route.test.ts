@@ -2,6 +2,9 @@ import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import { NextRequest } from 'next/server';
 
 const mockListPaths = vi.fn();
+const mockCreatePath = vi.fn();
+const mockGetPath = vi.fn();
+const mockForkScenarios = vi.fn();
 const mockGetConversation = vi.fn();
 
 const mockLogger = {
@@ -26,6 +29,14 @@ vi.mock('next-auth/next', () => ({
   getServerSession: vi.fn(async () => ({ user: { id: 'user-123', tenantId: 'tenant-1' } })),
 }));
 
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: vi.fn(async () => ({
+    userId: 'user-123',
+    tenantId: 'tenant-1',
+    role: 'member',
+  })),
+}));
+
 vi.mock('@reg-copilot/reg-intel-conversations', () => ({
   toClientPath: (path: unknown) => path,
 }));
@@ -33,6 +44,11 @@ vi.mock('@reg-copilot/reg-intel-conversations', () => ({
 vi.mock('@/lib/server/conversations', () => ({
   conversationPathStore: {
     listPaths: mockListPaths,
+    createPath: mockCreatePath,
+    getPath: mockGetPath,
+  },
+  conversationScenarioStore: {
+    forkScenarios: mockForkScenarios,
   },
   conversationStore: {
     getConversation: mockGetConversation,
@@ -43,6 +59,9 @@ describe('paths route', () => {
   beforeEach(() => {
     vi.resetModules();
     mockListPaths.mockReset();
+    mockCreatePath.mockReset();
+    mockGetPath.mockReset();
+    mockForkScenarios.mockReset();
     mockGetConversation.mockReset();
     mockLogger.info.mockClear();
     mockLogger.warn.mockClear();
@@ -181,4 +200,70 @@ describe('paths route', () => {
       expect(data).toEqual({ error: 'Conversation not found' });
     });
   });
+
+  describe('POST /api/conversations/[id]/paths', () => {
+    function postPath(body: unknown) {
+      return new Request('http://localhost/api/conversations/conv-1/paths', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      }) as NextRequest;
+    }
+
+    beforeEach(() => {
+      mockGetConversation.mockResolvedValue({ id: 'conv-1', tenantId: 'tenant-1' });
+      mockCreatePath.mockResolvedValue({ pathId: 'path-2' });
+    });
+
+    it('copies the parent path\'s scenarios to a branched path', async () => {
+      mockGetPath.mockResolvedValue({ id: 'path-2', conversationId: 'conv-1', parentPathId: 'path-1' });
+
+      const { POST } = await import('./route');
+
+      const response = await POST(
+        postPath({ name: 'What if', parentPathId: 'path-1', branchPointMessageId: 'msg-1' }),
+        { params: Promise.resolve({ id: 'conv-1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        path: { id: 'path-2', conversationId: 'conv-1', parentPathId: 'path-1' },
+        pathId: 'path-2',
+      });
+      expect(mockCreatePath).toHaveBeenCalledWith(
+        expect.objectContaining({ parentPathId: 'path-1', branchPointMessageId: 'msg-1' })
+      );
+      expect(mockForkScenarios).toHaveBeenCalledWith({
+        tenantId: 'tenant-1',
+        conversationId: 'conv-1',
+        sourcePathId: 'path-1',
+        targetPathId: 'path-2',
+      });
+    });
+
+    it('does not copy scenarios to a path without a parent', async () => {
+      mockGetPath.mockResolvedValue({ id: 'path-2', conversationId: 'conv-1', parentPathId: null });
+
+      const { POST } = await import('./route');
+
+      const response = await POST(postPath({ name: 'Fresh start' }), { params: Promise.resolve({ id: 'conv-1' }) });
+
+      expect(response.status).toBe(200);
+      expect(mockForkScenarios).not.toHaveBeenCalled();
+    });
+
+    it('reports a failed scenario copy as a warning', async () => {
+      mockGetPath.mockResolvedValue({ id: 'path-2', conversationId: 'conv-1', parentPathId: 'path-1' });
+      mockForkScenarios.mockRejectedValue(new Error('database down'));
+
+      const { POST } = await import('./route');
+
+      const response = await POST(postPath({ parentPathId: 'path-1' }), { params: Promise.resolve({ id: 'conv-1' }) });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.pathId).toBe('path-2');
+      expect(data.warning).toBe('Path created, but its scenarios could not be copied from the parent path');
+    });
+  });
 });
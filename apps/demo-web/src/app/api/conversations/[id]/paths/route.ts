@@ -6,7 +6,7 @@ import { createLogger, requestContext, withSpan } from '@reg-copilot/reg-intel-o
 import { authOptions } from '@/lib/auth/options';
 import { getTenantContext } from '@/lib/auth/tenantContext';
 import type { ExtendedSession } from '@/types/auth';
-import { conversationPathStore, conversationStore } from '@/lib/server/conversations';
+import { conversationPathStore, conversationScenarioStore, conversationStore } from '@/lib/server/conversations';
 
 export const dynamic = 'force-dynamic';
 
@@ -170,11 +170,33 @@ export async function POST(
 
             const path = await conversationPathStore.getPath({ tenantId, pathId });
 
+            // A path branched from another starts with a copy of its scenarios,
+            // as in the branch route. The path already exists, so a failed copy
+            // is reported, not thrown.
+            let warning: string | undefined;
+            if (path?.parentPathId) {
+              try {
+                await conversationScenarioStore.forkScenarios({
+                  tenantId,
+                  conversationId,
+                  sourcePathId: path.parentPathId,
+                  targetPathId: pathId,
+                });
+              } catch (error) {
+                logger.warn(
+                  { tenantId, conversationId, pathId, sourcePathId: path.parentPathId, error },
+                  'Failed to copy scenarios to path',
+                );
+                warning = 'Path created, but its scenarios could not be copied from the parent path';
+              }
+            }
+
             logger.info({ tenantId, conversationId, pathId, name, isPrimary }, 'Path created successfully');
 
             return NextResponse.json({
               path: path ? toClientPath(path) : null,
               pathId,
+              ...(warning ? { warning } : {}),
             });
           } catch (error) {
             logger.error({ tenantId, conversationId, error }, 'Failed to create path');
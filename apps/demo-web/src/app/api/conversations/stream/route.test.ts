@@ -28,6 +28,16 @@ vi.mock('next-auth/next', () => ({
   getServerSession: vi.fn(async () => ({ user: { id: 'user-123', tenantId: 'tenant-1' } })),
 }));
 
+// Resolve the tenant from the mocked session instead of Supabase and cookies
+vi.mock('@/lib/auth/tenantContext', () => ({
+  getTenantContext: vi.fn(async (session: { user?: { id?: string; tenantId?: string } } | null) => {
+    if (!session?.user?.id) {
+      throw new Error('Unauthorized');
+    }
+    return { userId: session.user.id, tenantId: session.user.tenantId ?? 'default', role: 'member' };
+  }),
+}));
+
 vi.mock('@/lib/server/conversations', () => ({
   conversationStore: {
     listConversations: mockListConversations,
@@ -37,6 +47,10 @@ vi.mock('@/lib/server/conversations', () => ({
   },
 }));
 
+vi.mock('@/lib/server/changeImpactAlerts', () => ({
+  startChangeImpactAlerts: vi.fn(),
+}));
+
 vi.mock('@/lib/server/conversationPresenter', () => ({
   toClientConversation: mockToClientConversation,
 }));
@@ -107,7 +121,7 @@ describe('conversations stream route', () => {
     });
 
     it('returns SSE response with correct headers', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -121,7 +135,7 @@ describe('conversations stream route', () => {
     });
 
     it('fetches active conversations by default', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -141,7 +155,7 @@ describe('conversations stream route', () => {
     });
 
     it('fetches archived conversations when status=archived', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -160,7 +174,7 @@ describe('conversations stream route', () => {
     });
 
     it('fetches all conversations when status=all', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -179,7 +193,7 @@ describe('conversations stream route', () => {
     });
 
     it('ignores invalid status values and defaults to active', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -198,24 +212,26 @@ describe('conversations stream route', () => {
     });
 
     it('sends snapshot event with initial conversations', async () => {
-      mockListConversations.mockResolvedValue([
-        {
-          id: 'conv-1',
-          title: 'First Conversation',
-          shareAudience: 'private',
-          tenantAccess: false,
-          jurisdictions: ['IE'],
-          archivedAt: null,
-        },
-        {
-          id: 'conv-2',
-          title: 'Second Conversation',
-          shareAudience: 'team',
-          tenantAccess: true,
-          jurisdictions: ['UK'],
-          archivedAt: null,
-        },
-      ]);
+      mockListConversations.mockResolvedValue({
+        conversations: [
+          {
+            id: 'conv-1',
+            title: 'First Conversation',
+            shareAudience: 'private',
+            tenantAccess: false,
+            jurisdictions: ['IE'],
+            archivedAt: null,
+          },
+          {
+            id: 'conv-2',
+            title: 'Second Conversation',
+            shareAudience: 'team',
+            tenantAccess: true,
+            jurisdictions: ['UK'],
+            archivedAt: null,
+          },
+        ],
+      });
 
       const { GET } = await import('./route');
 
@@ -236,7 +252,7 @@ describe('conversations stream route', () => {
     });
 
     it('subscribes to conversation list event hub', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -258,10 +274,12 @@ describe('conversations stream route', () => {
     });
 
     it('logs stream start with conversation count', async () => {
-      mockListConversations.mockResolvedValue([
-        { id: 'conv-1', title: 'Test' },
-        { id: 'conv-2', title: 'Test 2' },
-      ]);
+      mockListConversations.mockResolvedValue({
+        conversations: [
+          { id: 'conv-1', title: 'Test' },
+          { id: 'conv-2', title: 'Test 2' },
+        ],
+      });
 
       const { GET } = await import('./route');
 
@@ -289,7 +307,7 @@ describe('conversations stream route', () => {
         user: { id: 'user-123' },
       });
 
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -302,7 +320,7 @@ describe('conversations stream route', () => {
 
   describe('subscriber behavior', () => {
     it('subscriber send method enqueues SSE-formatted events', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -331,7 +349,7 @@ describe('conversations stream route', () => {
     });
 
     it('subscriber onClose triggers cleanup and unsubscribe', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -352,7 +370,7 @@ describe('conversations stream route', () => {
     });
 
     it('handles created event for new conversations', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -377,7 +395,7 @@ describe('conversations stream route', () => {
     });
 
     it('handles deleted event for removed conversations', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -401,9 +419,35 @@ describe('conversations stream route', () => {
     });
   });
 
+  describe('impact alerts', () => {
+    it('forwards impact alerts only to the user who owns the conversation', async () => {
+      mockListConversations.mockResolvedValue({ conversations: [] });
+
+      const { GET } = await import('./route');
+
+      const request = new NextRequest('http://localhost/api/conversations/stream');
+      const response = await GET(request);
+
+      const reader = response.body?.getReader();
+      await reader!.read();
+
+      capturedSubscriber!.send('impact_alert', { alert: { id: 'alert-other', userId: 'user-456' } });
+      capturedSubscriber!.send('impact_alert', { alert: { id: 'alert-mine', userId: 'user-123' } });
+
+      const { value } = await reader!.read();
+      const text = new TextDecoder().decode(value);
+
+      expect(text).toContain('event: impact_alert');
+      expect(text).toContain('alert-mine');
+      expect(text).not.toContain('alert-other');
+
+      await reader!.cancel();
+    });
+  });
+
   describe('snapshot payload', () => {
     it('includes status in snapshot payload', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -427,7 +471,7 @@ describe('conversations stream route', () => {
         internalField: 'should-be-removed',
       };
 
-      mockListConversations.mockResolvedValue([rawConversation]);
+      mockListConversations.mockResolvedValue({ conversations: [rawConversation] });
       mockToClientConversation.mockReturnValue({
         id: 'conv-1',
         title: 'Transformed Title',
@@ -456,7 +500,7 @@ describe('conversations stream route', () => {
     });
 
     it('handles empty conversation list', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
@@ -476,7 +520,7 @@ describe('conversations stream route', () => {
 
   describe('SSE format', () => {
     it('formats events with correct SSE structure', async () => {
-      mockListConversations.mockResolvedValue([]);
+      mockListConversations.mockResolvedValue({ conversations: [] });
 
       const { GET } = await import('./route');
 
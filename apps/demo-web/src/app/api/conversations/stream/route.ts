@@ -11,6 +11,7 @@ import { authOptions } from '@/lib/auth/options'
 import { getTenantContext } from '@/lib/auth/tenantContext'
 import type { ExtendedSession } from '@/types/auth';
 import { conversationListEventHub, conversationStore } from '@/lib/server/conversations'
+import { startChangeImpactAlerts } from '@/lib/server/changeImpactAlerts'
 import { toClientConversation } from '@/lib/server/conversationPresenter'
 
 export const dynamic = 'force-dynamic'
@@ -18,6 +19,15 @@ export const dynamic = 'force-dynamic'
 const encoder = new TextEncoder()
 const logger = createLogger('ConversationStreamRoute')
 
+/**
+ * Impact alerts are broadcast per tenant but concern one user's conversation
+ */
+function isForOtherUser(event: ConversationListEventType, data: unknown, userId: string) {
+  if (event !== 'impact_alert') return false
+  const { alert } = data as ConversationListEventPayloadMap['impact_alert']
+  return alert.userId !== userId
+}
+
 function sseChunk(event: ConversationListEventType, data: unknown) {
   const payload = typeof data === 'string' ? data : JSON.stringify(data)
   return encoder.encode(`event: ${event}\n` + `data: ${payload}\n\n`)
@@ -27,6 +37,7 @@ export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions) as ExtendedSession | null
     const { userId, tenantId } = await getTenantContext(session)
+    startChangeImpactAlerts()
 
     const url = new URL(request.url)
     const statusParam = url.searchParams.get('status')
@@ -62,6 +73,7 @@ export async function GET(request: NextRequest) {
 
             const subscriber: SseSubscriber<ConversationListEventType> = {
               send(event: ConversationListEventType, data: unknown) {
+                if (isForOtherUser(event, data, userId)) return
                 controller.enqueue(sseChunk(event, data))
               },
               onClose() {
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const mockApplyConceptDecisions = vi.fn();
+const mockConceptProposalStore = {};
+
+const mockLogger = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
+
+vi.mock('@reg-copilot/reg-intel-observability', async () => {
+  const actual = await vi.importActual<typeof import('@reg-copilot/reg-intel-observability')>(
+    '@reg-copilot/reg-intel-observability'
+  );
+  return {
+    ...actual,
+    createLogger: () => mockLogger,
+  };
+});
+
+vi.mock('@/lib/server/conceptCuration', () => ({
+  conceptProposalStore: mockConceptProposalStore,
+}));
+
+vi.mock('@/lib/jobs/applyConceptDecisions', () => ({
+  applyConceptDecisions: mockApplyConceptDecisions,
+}));
+
+function cronRequest(secret?: string) {
+  return new Request('http://localhost/api/cron/apply-concept-decisions', {
+    method: 'POST',
+    headers: secret ? { authorization: `Bearer ${secret}` } : {},
+  }) as NextRequest;
+}
+
+describe('apply-concept-decisions cron route', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockApplyConceptDecisions.mockReset();
+    mockLogger.info.mockClear();
+    mockLogger.warn.mockClear();
+    mockLogger.error.mockClear();
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.clearAllMocks();
+  });
+
+  describe('POST /api/cron/apply-concept-decisions', () => {
+    it('returns 500 if CRON_SECRET not configured', async () => {
+      delete process.env.CRON_SECRET;
+
+      const { POST } = await import('./route');
+
+      const response = await POST(cronRequest('test-secret'));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Cron endpoint not configured' });
+      expect(mockApplyConceptDecisions).not.toHaveBeenCalled();
+    });
+
+    it('returns 401 if CRON_SECRET does not match', async () => {
+      process.env.CRON_SECRET = 'secret-123';
+
+      const { POST } = await import('./route');
+
+      const response = await POST(cronRequest('wrong-secret'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Unauthorized' });
+      expect(mockApplyConceptDecisions).not.toHaveBeenCalled();
+    });
+
+    it('applies reviewed decisions and returns counts', async () => {
+      process.env.CRON_SECRET = 'secret-123';
+      mockApplyConceptDecisions.mockResolvedValue({
+        applied: [{ id: 'proposal-1' }, { id: 'proposal-2' }],
+        failed: [{ proposal: { id: 'proposal-3' }, error: 'graph down' }],
+      });
+
+      const { POST } = await import('./route');
+
+      const response = await POST(cronRequest('secret-123'));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        message: 'Concept decisions applied',
+        applied: 2,
+        failed: 1,
+        errorDetails: [{ proposalId: 'proposal-3', error: 'graph down' }],
+      });
+      expect(mockApplyConceptDecisions).toHaveBeenCalledWith(mockConceptProposalStore);
+    });
+
+    it('returns 503 when graph writes are not configured', async () => {
+      process.env.CRON_SECRET = 'secret-123';
+      mockApplyConceptDecisions.mockResolvedValue(null);
+
+      const { POST } = await import('./route');
+
+      const response = await POST(cronRequest('secret-123'));
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ error: 'Graph writes not configured', applied: 0, failed: 0 });
+    });
+
+    it('returns 500 if applying throws an error', async () => {
+      process.env.CRON_SECRET = 'secret-123';
+      mockApplyConceptDecisions.mockRejectedValue(new Error('Database connection failed'));
+
+      const { POST } = await import('./route');
+
+      const response = await POST(cronRequest('secret-123'));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: 'Applying concept decisions failed',
+        details: 'Database connection failed',
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 'system', userId: 'cron' }),
+        'Applying concept decisions failed'
+      );
+    });
+  });
+
+  describe('GET /api/cron/apply-concept-decisions', () => {
+    it('returns endpoint information', async () => {
+      const { GET } = await import('./route');
+
+      const response = await GET();
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        endpoint: '/api/cron/apply-concept-decisions',
+        method: 'POST',
+        description: 'Writes approved and merged concept proposals to the graph',
+        schedule: 'Every 15 minutes (*/15 * * * *)',
+        authentication: 'Bearer token with CRON_SECRET',
+        conceptCurationEnabled: true,
+      });
+    });
+  });
+});
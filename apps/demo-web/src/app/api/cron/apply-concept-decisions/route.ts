@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger, requestContext, withSpan } from '@reg-copilot/reg-intel-observability';
+import { conceptProposalStore } from '@/lib/server/conceptCuration';
+import { applyConceptDecisions } from '@/lib/jobs/applyConceptDecisions';
+
+const logger = createLogger('CronApplyConceptDecisionsRoute');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // Allow up to 120 seconds for graph writes
+
+/**
+ * Cron job endpoint for applying reviewed concept proposals
+ *
+ * This endpoint is called by Vercel Cron (or similar scheduler) to write
+ * concepts approved or merged on the copilot-admin review screen to the graph.
+ *
+ * Security: Requires CRON_SECRET in Authorization header
+ * Schedule: Runs every 15 minutes (configured in vercel.json)
+ *
+ * @example
+ * curl -X POST https://your-app.vercel.app/api/cron/apply-concept-decisions \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET"
+ */
+export async function POST(request: NextRequest) {
+  const tenantId = 'system';
+  const userId = 'cron';
+
+  return requestContext.run(
+    { tenantId, userId },
+    () =>
+      withSpan(
+        'api.cron.apply-concept-decisions',
+        { 'app.route': '/api/cron/apply-concept-decisions', 'app.tenant.id': tenantId, 'app.user.id': userId },
+        async () => {
+          // Verify CRON_SECRET
+          const cronSecret = process.env.CRON_SECRET;
+          if (!cronSecret) {
+            logger.error({ tenantId, userId }, 'CRON_SECRET not configured');
+            return NextResponse.json(
+              { error: 'Cron endpoint not configured' },
+              { status: 500 }
+            );
+          }
+
+          const authHeader = request.headers.get('authorization');
+          const providedSecret = authHeader?.replace('Bearer ', '');
+
+          if (providedSecret !== cronSecret) {
+            logger.warn({ tenantId, userId }, 'Unauthorized request');
+            return NextResponse.json(
+              { error: 'Unauthorized' },
+              { status: 401 }
+            );
+          }
+
+          // Check if the concept review queue is available
+          if (!conceptProposalStore) {
+            logger.info({ tenantId, userId }, 'Concept proposal store not configured (curation disabled)');
+            return NextResponse.json({
+              message: 'Concept decisions skipped - concept curation not configured',
+              applied: 0,
+              failed: 0,
+            });
+          }
+
+          try {
+            // Apply with default limit of 100 proposals per run
+            const report = await applyConceptDecisions(conceptProposalStore);
+            if (!report) {
+              return NextResponse.json(
+                { error: 'Graph writes not configured', applied: 0, failed: 0 },
+                { status: 503 }
+              );
+            }
+
+            return NextResponse.json({
+              message: 'Concept decisions applied',
+              applied: report.applied.length,
+              failed: report.failed.length,
+              ...(report.failed.length > 0 && {
+                errorDetails: report.failed.map(({ proposal, error }) => ({ proposalId: proposal.id, error })),
+              }),
+            });
+          } catch (error) {
+            logger.error({ err: error, tenantId, userId }, 'Applying concept decisions failed');
+            return NextResponse.json(
+              {
+                error: 'Applying concept decisions failed',
+                details: error instanceof Error ? error.message : 'Unknown error',
+              },
+              { status: 500 }
+            );
+          }
+        },
+      ),
+  );
+}
+
+/**
+ * GET handler for health check / manual trigger info
+ */
+export async function GET() {
+  return requestContext.run(
+    { tenantId: 'system', userId: 'cron' },
+    () =>
+      withSpan(
+        'api.cron.apply-concept-decisions.info',
+        { 'app.route': '/api/cron/apply-concept-decisions', 'app.tenant.id': 'system', 'app.user.id': 'cron' },
+        () =>
+          NextResponse.json({
+            endpoint: '/api/cron/apply-concept-decisions',
+            method: 'POST',
+            description: 'Writes approved and merged concept proposals to the graph',
+            schedule: 'Every 15 minutes (*/15 * * * *)',
+            authentication: 'Bearer token with CRON_SECRET',
+            conceptCurationEnabled: !!conceptProposalStore,
+          }),
+      ),
+  );
+}
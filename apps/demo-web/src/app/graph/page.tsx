@@ -3,13 +3,21 @@
  *
  * Interactive regulatory knowledge graph visualization.
  * Displays force-directed graph with real-time SSE updates.
+ * `?node=<id>` selects and centres a node (used by answer citation chips).
  */
 
 import { AppHeader } from '@/components/layout/app-header';
 import { GraphVisualization } from '@/components/GraphVisualization';
 import { DEFAULT_PROFILE_ID } from '@reg-copilot/reg-intel-core';
 
-export default function GraphPage() {
+interface GraphPageProps {
+  searchParams: Promise<{ node?: string | string[] }>;
+}
+
+export default async function GraphPage({ searchParams }: GraphPageProps) {
+  const { node } = await searchParams;
+  const focusNodeId = Array.isArray(node) ? node[0] : node;
+
   return (
     <div className="relative min-h-screen bg-gradient-to-b from-background via-muted/40 to-background">
       <div className="pointer-events-none absolute inset-0 -z-10 bg-[radial-gradient(circle_at_15%_20%,rgba(99,102,241,0.18),transparent_32%),radial-gradient(circle_at_85%_10%,rgba(14,165,233,0.2),transparent_35%)] blur-3xl" />
@@ -34,6 +42,7 @@ export default function GraphPage() {
           <GraphVisualization
             jurisdictions={['IE', 'UK', 'IM', 'EU']}
             profileType={DEFAULT_PROFILE_ID}
+            focusNodeId={focusNodeId}
           />
         </div>
       </main>
@@ -14,11 +14,14 @@ import {
   PencilLine,
   Plus,
   Wand2,
+  X,
 } from 'lucide-react'
 import type {
+  ChangeImpactAlert,
   ConversationListEventPayloadMap,
   ClientConversation,
 } from '@reg-copilot/reg-intel-conversations'
+import type { Citation, EligibilityEvaluation, ScenarioComparison } from '@reg-copilot/reg-intel-core/client'
 import { ChatContainer, ChatWelcome } from '@/components/chat/chat-container'
 import { createClientTelemetry, type ClientTelemetrySink } from '@/lib/clientTelemetry'
 import { PathAwareMessageList } from '@/components/chat/path-aware-message-list'
@@ -28,12 +31,14 @@ import { ConditionalPathProvider } from '@/components/chat/conditional-path-prov
 import { getPathApiClient } from '@/lib/pathApiClient'
 import { BranchDialog } from '@reg-copilot/reg-intel-ui'
 import { MiniGraph } from '@/components/chat/mini-graph'
-import type { StreamingStage } from '@/components/chat/progress-indicator'
+import type { AgentProgress, StreamingStage } from '@/components/chat/progress-indicator'
 import { PromptInput, type ForceTool } from '@/components/chat/prompt-input'
 import { AppHeader } from '@/components/layout/app-header'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ComplianceCalendarPanel } from '@/components/ComplianceCalendarPanel'
+import { ScenarioPanel } from '@/components/ScenarioPanel'
 import { Input } from '@/components/ui/input'
 import {
   Select,
@@ -61,6 +66,9 @@ interface ChatMetadata {
   warnings?: string[]
   timelineSummary?: string
   timelineFocus?: string
+  eligibility?: EligibilityEvaluation[]
+  citations?: Citation[]
+  scenarioComparison?: ScenarioComparison
 }
 
 interface ChatMessage {
@@ -228,6 +236,47 @@ const extractWarnings = (parsedData: ParsedSseData): string[] => {
   return []
 }
 
+const extractAgentProgress = (parsedData: ParsedSseData): AgentProgress | null => {
+  if (typeof parsedData !== 'object') return null
+  const candidate = parsedData as Partial<AgentProgress>
+  if (
+    typeof candidate.agentId !== 'string' ||
+    typeof candidate.agentName !== 'string' ||
+    (candidate.status !== 'started' && candidate.status !== 'completed' && candidate.status !== 'failed')
+  ) {
+    return null
+  }
+  return { agentId: candidate.agentId, agentName: candidate.agentName, status: candidate.status }
+}
+
+const extractCitations = (parsedData: ParsedSseData): Citation[] => {
+  if (typeof parsedData !== 'object' || !('citations' in parsedData)) return []
+  const candidate = (parsedData as { citations?: unknown }).citations
+  if (!Array.isArray(candidate)) return []
+  return candidate.filter(
+    (item): item is Citation =>
+      typeof item === 'object' &&
+      item !== null &&
+      typeof (item as Citation).id === 'string' &&
+      typeof (item as Citation).label === 'string' &&
+      typeof (item as Citation).index === 'number'
+  )
+}
+
+const extractScenarioComparison = (parsedData: ParsedSseData): ScenarioComparison | null => {
+  if (typeof parsedData !== 'object' || !('scenarioComparison' in parsedData)) return null
+  const candidate = (parsedData as { scenarioComparison?: unknown }).scenarioComparison
+  if (
+    typeof candidate !== 'object' ||
+    candidate === null ||
+    !Array.isArray((candidate as ScenarioComparison).columns) ||
+    !Array.isArray((candidate as ScenarioComparison).rows)
+  ) {
+    return null
+  }
+  return candidate as ScenarioComparison
+}
+
 const quickPrompts = [
   {
     label: 'Graph + welfare',
@@ -271,6 +320,7 @@ export default function Home() {
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [streamingStage, setStreamingStage] = useState<StreamingStage>('analyzing')
+  const [agentProgress, setAgentProgress] = useState<AgentProgress[]>([])
   const [chatMetadata, setChatMetadata] = useState<ChatMetadata | null>(null)
   const [referencedNodeSummaries, setReferencedNodeSummaries] = useState<ReferencedNodeSummary[]>([])
   const [isLoadingNodeSummaries, setIsLoadingNodeSummaries] = useState(false)
@@ -278,7 +328,9 @@ export default function Home() {
   const [expandedNodeTypes, setExpandedNodeTypes] = useState<Set<string>>(new Set())
   const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null)
   const [warnings, setWarnings] = useState<string[]>([])
+  const [impactAlerts, setImpactAlerts] = useState<ChangeImpactAlert[]>([])
   const [scenarioHint, setScenarioHint] = useState<string | null>(null)
+  const [compareScenarios, setCompareScenarios] = useState(false)
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [editingContent, setEditingContent] = useState('')
   const [branchDialogOpen, setBranchDialogOpen] = useState(false)
@@ -304,11 +356,14 @@ export default function Home() {
 
   // Read URL parameters for conversation and path
   const getUrlParams = useCallback(() => {
-    if (typeof window === 'undefined') return { conversationId: null, pathId: null }
+    if (typeof window === 'undefined') return { conversationId: null, pathId: null, messageId: null }
     const params = new URLSearchParams(window.location.search)
+    const hash = window.location.hash
     return {
       conversationId: params.get('conversationId'),
       pathId: params.get('pathId'),
+      // Change impact alerts link to a message as #message-<id>
+      messageId: hash.startsWith('#message-') ? hash.slice('#message-'.length) : null,
     }
   }, [])
 
@@ -475,10 +530,16 @@ export default function Home() {
   useEffect(() => {
     if (!isAuthenticated) return
 
-    const { conversationId: urlConvId, pathId: urlPathId } = getUrlParams()
+    const { conversationId: urlConvId, pathId: urlPathId, messageId: urlMessageId } = getUrlParams()
 
     if (urlConvId) {
       loadConversation(urlConvId).then(async () => {
+        if (urlMessageId) {
+          // Wait for the loaded messages to render (and the scroll to bottom) first
+          window.requestAnimationFrame(() => {
+            document.getElementById(`message-${urlMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+          })
+        }
         // If a pathId is specified in URL, set it as active
         if (urlPathId) {
           try {
@@ -634,6 +695,14 @@ export default function Home() {
               if (data.conversationId === conversationId) {
                 startNewConversation()
               }
+            } else if (parsedEvent.type === 'impact_alert' && typeof parsedData === 'object' && parsedData !== null) {
+              // Type-safe cast using unknown intermediate step
+              const data = parsedData as unknown as ConversationListEventPayloadMap['impact_alert']
+              if (data.alert) {
+                setImpactAlerts(prev =>
+                  prev.some(alert => alert.id === data.alert.id) ? prev : [data.alert, ...prev]
+                )
+              }
             }
           }
         }
@@ -801,6 +870,43 @@ export default function Home() {
               }
               break
             }
+            case 'agent_progress': {
+              const progress = extractAgentProgress(parsedData)
+              if (progress) {
+                setAgentProgress(prev =>
+                  prev.some(agent => agent.agentId === progress.agentId)
+                    ? prev.map(agent => (agent.agentId === progress.agentId ? progress : agent))
+                    : [...prev, progress]
+                )
+              }
+              break
+            }
+            case 'citations': {
+              const citations = extractCitations(parsedData)
+              if (citations.length) {
+                setMessages(prev =>
+                  prev.map(message =>
+                    message.id === assistantMessageId
+                      ? { ...message, metadata: { ...message.metadata, citations } }
+                      : message
+                  )
+                )
+              }
+              break
+            }
+            case 'scenario_comparison': {
+              const scenarioComparison = extractScenarioComparison(parsedData)
+              if (scenarioComparison) {
+                setMessages(prev =>
+                  prev.map(message =>
+                    message.id === assistantMessageId
+                      ? { ...message, metadata: { ...message.metadata, scenarioComparison } }
+                      : message
+                  )
+                )
+              }
+              break
+            }
             case 'message': {
               const textChunk = extractText(parsedData)
               appendAssistantText(textChunk)
@@ -864,6 +970,7 @@ export default function Home() {
     setInput('')
     setIsLoading(true)
     setStreamingStage('analyzing')
+    setAgentProgress([])
     setChatMetadata(null)
     setWarnings([])
 
@@ -887,6 +994,7 @@ export default function Home() {
           userId: (session?.user as { id?: string } | undefined)?.id,
           // Pass force tool if UI button was clicked
           forceTool: forceTool ? { name: forceTool.name, args: forceTool.args } : undefined,
+          compareScenarios: compareScenarios || undefined,
         }),
         signal: controller.signal,
       })
@@ -961,6 +1069,7 @@ export default function Home() {
 
       // Set loading state for editing
       setStreamingStage('analyzing')
+      setAgentProgress([])
       setChatMetadata(null)
       setWarnings([])
 
@@ -1442,6 +1551,29 @@ export default function Home() {
               </div>
             )}
 
+            {impactAlerts.length > 0 && (
+              <div className="mx-4 mt-2 space-y-1 rounded-lg border border-sky-300 bg-sky-50 px-3 py-2 text-xs text-sky-900">
+                {impactAlerts.map(alert => (
+                  <div key={alert.id} className="flex items-start gap-2">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                    <span className="flex-1">
+                      <span className="font-semibold">{alert.title}.</span> {alert.message}{' '}
+                      <a href={alert.actionUrl} className="font-medium underline">
+                        {alert.messageId ? 'Review answer' : 'Open conversation'}
+                      </a>
+                    </span>
+                    <button
+                      type="button"
+                      aria-label="Dismiss alert"
+                      onClick={() => setImpactAlerts(prev => prev.filter(item => item.id !== alert.id))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <ChatContainer className="flex-1 bg-transparent px-4">
               {messages.length === 0 && !isLoading ? (
                 <ChatWelcome>
@@ -1482,6 +1614,7 @@ export default function Home() {
                   }))}
                   isLoading={isLoading}
                   streamingStage={streamingStage}
+                  agentProgress={agentProgress}
                   editingMessageId={editingMessageId}
                   editingContent={editingContent}
                   onEditingContentChange={setEditingContent}
@@ -1667,6 +1800,22 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            <ComplianceCalendarPanel
+              profileType={profile.personaType}
+              jurisdictions={profile.jurisdictions}
+              enabled={isAuthenticated}
+            />
+
+            {isAuthenticated && conversationId && activePathId && (
+              <ScenarioPanel
+                key={activePathId}
+                conversationId={conversationId}
+                pathId={activePathId}
+                compare={compareScenarios}
+                onCompareChange={setCompareScenarios}
+              />
+            )}
+
             {(referencedNodeSummaries.length > 0 || isLoadingNodeSummaries) && (
               <Card className="border bg-card/90 shadow-lg backdrop-blur">
                 <CardHeader className="pb-2">
@@ -0,0 +1,76 @@
+/**
+ * Compliance Calendar Panel Tests
+ *
+ * Verifies that upcoming obligations are fetched for the current profile and
+ * listed with a link to download the iCalendar feed.
+ */
+
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import type { ComplianceCalendar } from '@reg-copilot/reg-intel-core/client'
+import { ComplianceCalendarPanel } from './ComplianceCalendarPanel'
+
+const calendar: ComplianceCalendar = {
+  profileId: 'single-director',
+  jurisdictions: ['IE'],
+  from: '2026-01-01',
+  to: '2026-12-31',
+  generatedAt: '2026-01-15T09:30:00.000Z',
+  events: [
+    {
+      uid: 'IE_PRELIMINARY_TAX-IE_PRELIM_TAX_DEADLINE-20261102@reg-copilot',
+      date: '2026-11-02',
+      kind: 'PAYMENT',
+      title: 'Preliminary tax (tax year 2026)',
+      description: 'Source nodes: IE_PRELIMINARY_TAX, IE_PRELIM_TAX_DEADLINE',
+      jurisdiction: 'IE',
+      sourceNodeIds: ['IE_PRELIMINARY_TAX', 'IE_PRELIM_TAX_DEADLINE'],
+    },
+  ],
+}
+
+const mockFetch = vi.fn()
+
+describe('ComplianceCalendarPanel', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    mockFetch.mockReset()
+  })
+
+  it('lists upcoming obligations and links to the iCalendar download', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => calendar })
+
+    render(<ComplianceCalendarPanel profileType="single-director" jurisdictions={['IE', 'UK']} />)
+
+    await waitFor(() => expect(screen.getByText('Preliminary tax (tax year 2026)')).toBeTruthy())
+    expect(screen.getByText('Payment · IE')).toBeTruthy()
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/calendar?profileType=single-director&jurisdictions=IE%2CUK&format=json',
+      { credentials: 'include' }
+    )
+    expect(screen.getByText('Download .ics').closest('a')?.getAttribute('href')).toBe(
+      '/api/calendar?profileType=single-director&jurisdictions=IE%2CUK&format=ics'
+    )
+  })
+
+  it('shows an error when the calendar cannot be loaded', async () => {
+    mockFetch.mockResolvedValue({ ok: false, json: async () => ({}) })
+
+    render(<ComplianceCalendarPanel profileType="single-director" jurisdictions={['IE']} />)
+
+    await waitFor(() => expect(screen.getByText('Failed to load compliance calendar')).toBeTruthy())
+  })
+
+  it('renders nothing and skips the request when disabled', () => {
+    const { container } = render(
+      <ComplianceCalendarPanel profileType="single-director" jurisdictions={['IE']} enabled={false} />
+    )
+
+    expect(container.firstChild).toBeNull()
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
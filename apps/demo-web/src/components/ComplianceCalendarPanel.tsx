@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CalendarDays, Download, Loader2 } from 'lucide-react'
+import type { ComplianceCalendar, ComplianceCalendarEvent } from '@reg-copilot/reg-intel-core/client'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+
+const MAX_VISIBLE_EVENTS = 6
+
+const kindLabels: Record<ComplianceCalendarEvent['kind'], string> = {
+  FILING: 'Filing',
+  PAYMENT: 'Payment',
+  LOCK_IN_EXPIRY: 'Lock-in ends',
+}
+
+interface CalendarResult {
+  query: string
+  events: ComplianceCalendarEvent[]
+  error: string | null
+}
+
+interface ComplianceCalendarPanelProps {
+  profileType: string
+  jurisdictions: string[]
+  enabled?: boolean
+}
+
+function formatEventDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * Upcoming filing deadlines, payment dates and lock-in expiries for the
+ * current profile, with a link to subscribe to them as an iCalendar feed
+ */
+export function ComplianceCalendarPanel({ profileType, jurisdictions, enabled = true }: ComplianceCalendarPanelProps) {
+  const query = new URLSearchParams({ profileType, jurisdictions: jurisdictions.join(',') }).toString()
+  const shouldFetch = enabled && jurisdictions.length > 0
+  const [result, setResult] = useState<CalendarResult | null>(null)
+
+  useEffect(() => {
+    if (!shouldFetch) {
+      return
+    }
+
+    let cancelled = false
+
+    fetch(`/api/calendar?${query}&format=json`, { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error('Failed to load compliance calendar')
+        }
+        const calendar = (await response.json()) as ComplianceCalendar
+        if (!cancelled) {
+          setResult({ query, events: calendar.events, error: null })
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Failed to load compliance calendar'
+          setResult({ query, events: [], error: message })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [shouldFetch, query])
+
+  const current = shouldFetch && result?.query === query ? result : null
+  const loading = shouldFetch && !current
+  const events = current?.events ?? []
+  const error = current?.error ?? null
+
+  if (!enabled) {
+    return null
+  }
+
+  return (
+    <Card className="border bg-card/90 shadow-lg backdrop-blur">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1.5">
+            <CalendarDays className="h-4 w-4" />
+            Upcoming obligations
+          </span>
+          <Button asChild variant="ghost" size="sm" className="h-6 px-2 text-xs">
+            <a href={`/api/calendar?${query}&format=ics`} download>
+              <Download className="mr-1 h-3 w-3" />
+              Download .ics
+            </a>
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-xs text-destructive">{error}</p>
+        ) : events.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No deadlines in the next 12 months.</p>
+        ) : (
+          <ul className="space-y-2">
+            {events.slice(0, MAX_VISIBLE_EVENTS).map((event) => (
+              <li key={event.uid} className="rounded-lg border bg-muted/30 px-2 py-1.5 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{formatEventDate(event.date)}</span>
+                  <Badge variant="outline" className="text-[10px]">
+                    {kindLabels[event.kind]} · {event.jurisdiction}
+                  </Badge>
+                </div>
+                <p className="mt-0.5 text-muted-foreground">{event.title}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {events.length > MAX_VISIBLE_EVENTS && (
+          <p className="text-[11px] text-muted-foreground">
+            {events.length - MAX_VISIBLE_EVENTS} more in the calendar download
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
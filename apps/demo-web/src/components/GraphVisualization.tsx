@@ -13,6 +13,7 @@
  * - Search functionality (by name, type, or ID)
  * - Node type filtering with counts
  * - Node selection with details panel
+ * - Deep links to a node (e.g. from answer citations) via `focusNodeId`
  * - Zoom, pan, and reset view controls
  * - Jurisdiction and profile filtering
  * - Node and edge styling by type
@@ -106,12 +107,15 @@ interface GraphVisualizationProps {
   jurisdictions?: string[];
   profileType?: ProfileId;
   keyword?: string;
+  /** Node to select and centre once the graph has loaded */
+  focusNodeId?: string;
 }
 
 export function GraphVisualization({
   jurisdictions = ['IE'],
   profileType = DEFAULT_PROFILE_ID,
   keyword,
+  focusNodeId,
 }: GraphVisualizationProps) {
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
   const [filteredData, setFilteredData] = useState<GraphData>({ nodes: [], links: [] });
@@ -136,6 +140,7 @@ export function GraphVisualization({
   const fgRef = useRef<ForceGraphRef>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingCentreNodeIdRef = useRef<string | null>(null);
   const telemetry = telemetryRef.current;
 
   // Memoized node color mapping - prevents recreation on every render
@@ -249,6 +254,41 @@ export function GraphVisualization({
     [paused]
   );
 
+  // Select the deep-linked node, fetching it by ID when it is outside the snapshot
+  const selectFocusNode = useCallback(
+    async (nodeId: string, snapshotNodes: GraphNode[]) => {
+      let node = snapshotNodes.find((candidate) => candidate.id === nodeId);
+
+      if (!node) {
+        try {
+          const response = await fetch(`/api/graph?ids=${encodeURIComponent(nodeId)}`);
+          if (!response.ok) {
+            throw new Error(`Failed to load node: ${response.statusText}`);
+          }
+          const data = await response.json();
+          node = (data.nodes as GraphNode[] | undefined)?.[0];
+        } catch (err) {
+          telemetry.error({ err, focusNodeId: nodeId }, 'Error loading linked graph node');
+          return;
+        }
+        if (!node) {
+          telemetry.warn({ focusNodeId: nodeId }, 'Linked graph node not found');
+          return;
+        }
+        const linkedNode = node;
+        setGraphData((prev) =>
+          prev.nodes.some((existing) => existing.id === linkedNode.id)
+            ? prev
+            : { ...prev, nodes: [...prev.nodes, linkedNode] }
+        );
+      }
+
+      setSelectedNode(node);
+      pendingCentreNodeIdRef.current = node.id;
+    },
+    [telemetry]
+  );
+
   // Load initial graph snapshot
   const loadInitialGraph = useCallback(async () => {
     initialLoadLoggerRef.current.info(
@@ -289,6 +329,9 @@ export function GraphVisualization({
         nodes: data.nodes || [],
         links: transformedLinks,
       });
+      if (focusNodeId) {
+        await selectFocusNode(focusNodeId, data.nodes || []);
+      }
       setLastUpdate(data.timestamp);
       setEmptyMessage(data.metadata?.message || null);
       initialSnapshotLoaded.current = true;
@@ -317,7 +360,7 @@ export function GraphVisualization({
       setError(err instanceof Error ? err.message : 'Failed to load graph');
       setLoading(false);
     }
-  }, [jurisdictions, profileType, keyword, applyPatch]);
+  }, [jurisdictions, profileType, keyword, focusNodeId, applyPatch, selectFocusNode]);
 
   // Apply filters and search to graph data
   useEffect(() => {
@@ -691,6 +734,13 @@ export function GraphVisualization({
           onNodeClick={(node: unknown) => {
             setSelectedNode(node as GraphNode);
           }}
+          onEngineStop={() => {
+            // Node positions are only known once the layout settles
+            if (selectedNode && pendingCentreNodeIdRef.current === selectedNode.id) {
+              pendingCentreNodeIdRef.current = null;
+              focusOnNode(selectedNode);
+            }
+          }}
           onBackgroundClick={() => setSelectedNode(null)}
         />
       </div>
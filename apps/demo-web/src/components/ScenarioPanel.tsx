@@ -0,0 +1,296 @@
+'use client'
+
+import { useCallback, useEffect, useState, type ChangeEvent } from 'react'
+import { Columns3, Loader2, PencilLine, Trash2 } from 'lucide-react'
+import type { Scenario, ScenarioFacts } from '@reg-copilot/reg-intel-core/client'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+
+interface ScenarioPanelProps {
+  conversationId: string
+  pathId: string
+  compare: boolean
+  onCompareChange: (compare: boolean) => void
+}
+
+interface ScenarioForm {
+  name: string
+  salary: string
+  dividends: string
+  selfEmployedProfits: string
+  companyProfit: string
+  prsiClass: string
+  personalCircumstances: string
+  hasCompany: boolean
+}
+
+const emptyForm: ScenarioForm = {
+  name: '',
+  salary: '',
+  dividends: '',
+  selfEmployedProfits: '',
+  companyProfit: '',
+  prsiClass: '',
+  personalCircumstances: '',
+  hasCompany: false,
+}
+
+function toAmount(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value)
+}
+
+function toFacts(form: ScenarioForm): ScenarioFacts {
+  return {
+    profile: {
+      hasCompany: form.hasCompany,
+      prsiClass: form.prsiClass.trim() || undefined,
+    },
+    income: {
+      salary: toAmount(form.salary),
+      dividends: toAmount(form.dividends),
+      selfEmployedProfits: toAmount(form.selfEmployedProfits),
+    },
+    companyProfit: form.hasCompany ? toAmount(form.companyProfit) : undefined,
+    personalCircumstances: (form.personalCircumstances || undefined) as ScenarioFacts['personalCircumstances'],
+  }
+}
+
+function toForm(scenario: Scenario): ScenarioForm {
+  const { facts } = scenario
+  return {
+    name: scenario.name,
+    salary: facts.income.salary?.toString() ?? '',
+    dividends: facts.income.dividends?.toString() ?? '',
+    selfEmployedProfits: facts.income.selfEmployedProfits?.toString() ?? '',
+    companyProfit: facts.companyProfit?.toString() ?? '',
+    prsiClass: facts.profile?.prsiClass ?? '',
+    personalCircumstances: facts.personalCircumstances ?? '',
+    hasCompany: facts.profile?.hasCompany ?? false,
+  }
+}
+
+function describeScenario({ facts }: Scenario) {
+  const parts = [
+    facts.income.salary !== undefined && `salary ${facts.income.salary.toLocaleString()}`,
+    facts.income.dividends !== undefined && `dividends ${facts.income.dividends.toLocaleString()}`,
+    facts.income.selfEmployedProfits !== undefined && `self-employed ${facts.income.selfEmployedProfits.toLocaleString()}`,
+    facts.companyProfit !== undefined && `company profit ${facts.companyProfit.toLocaleString()}`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : 'No income'
+}
+
+interface ScenarioList {
+  scenarios: Scenario[]
+  maxScenarios: number
+}
+
+async function fetchScenarios(url: string): Promise<ScenarioList> {
+  const response = await fetch(url, { credentials: 'include' })
+  if (!response.ok) {
+    throw new Error('Failed to load scenarios')
+  }
+  return (await response.json()) as ScenarioList
+}
+
+/**
+ * Named fact sets (income split, PRSI class, company status) saved on the
+ * active conversation path. When comparison is on, the next answer includes
+ * a side-by-side table calculated for each scenario. Render it with the path
+ * ID as `key` so switching paths starts from a fresh panel.
+ */
+export function ScenarioPanel({ conversationId, pathId, compare, onCompareChange }: ScenarioPanelProps) {
+  const baseUrl = `/api/conversations/${conversationId}/paths/${pathId}/scenarios`
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [maxScenarios, setMaxScenarios] = useState(5)
+  const [form, setForm] = useState<ScenarioForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResult = useCallback((result: ScenarioList) => {
+    setScenarios(result.scenarios)
+    setMaxScenarios(result.maxScenarios)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchScenarios(baseUrl)
+      .then(result => {
+        if (!cancelled) applyResult(result)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load scenarios')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [baseUrl, applyResult])
+
+  const reloadScenarios = async () => {
+    applyResult(await fetchScenarios(baseUrl))
+  }
+
+  const handleSave = async () => {
+    const response = await fetch(editingId ? `${baseUrl}/${editingId}` : baseUrl, {
+      method: editingId ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ name: form.name, facts: toFacts(form) }),
+    })
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: string } | null
+      setError(data?.error ?? 'Failed to save scenario')
+      return
+    }
+    setError(null)
+    setEditingId(null)
+    setForm(emptyForm)
+    await reloadScenarios()
+  }
+
+  const handleDelete = async (scenarioId: string) => {
+    const response = await fetch(`${baseUrl}/${scenarioId}`, { method: 'DELETE', credentials: 'include' })
+    if (!response.ok) {
+      setError('Failed to delete scenario')
+      return
+    }
+    await reloadScenarios()
+  }
+
+  const updateField = (field: keyof ScenarioForm) => (event: ChangeEvent<HTMLInputElement>) => {
+    const value = field === 'hasCompany' ? event.target.checked : event.target.value
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const canAdd = editingId !== null || scenarios.length < maxScenarios
+
+  return (
+    <Card className="border bg-card/90 shadow-lg backdrop-blur">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1.5">
+            <Columns3 className="h-4 w-4" />
+            Scenarios
+          </span>
+          <label className="flex items-center gap-1.5 text-xs font-normal">
+            <input
+              type="checkbox"
+              checked={compare}
+              disabled={scenarios.length === 0}
+              onChange={event => onCompareChange(event.target.checked)}
+            />
+            Compare in next answer
+          </label>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {scenarios.map(scenario => (
+              <li key={scenario.id} className="flex items-start justify-between gap-2 rounded-lg border bg-muted/30 px-2 py-1.5 text-xs">
+                <div>
+                  <p className="font-medium">{scenario.name}</p>
+                  <p className="text-muted-foreground">{describeScenario(scenario)}</p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    aria-label={`Edit ${scenario.name}`}
+                    onClick={() => {
+                      setEditingId(scenario.id)
+                      setForm(toForm(scenario))
+                    }}
+                  >
+                    <PencilLine className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    aria-label={`Delete ${scenario.name}`}
+                    onClick={() => handleDelete(scenario.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {canAdd && (
+          <div className="space-y-1.5 rounded-lg border border-dashed px-2 py-2">
+            <Input className="h-7 text-xs" placeholder="Scenario name" value={form.name} onChange={updateField('name')} />
+            <div className="grid grid-cols-2 gap-1.5">
+              <Input className="h-7 text-xs" type="number" min={0} placeholder="Salary" value={form.salary} onChange={updateField('salary')} />
+              <Input className="h-7 text-xs" type="number" min={0} placeholder="Dividends" value={form.dividends} onChange={updateField('dividends')} />
+              <Input
+                className="h-7 text-xs"
+                type="number"
+                min={0}
+                placeholder="Self-employed profits"
+                value={form.selfEmployedProfits}
+                onChange={updateField('selfEmployedProfits')}
+              />
+              <Input className="h-7 text-xs" placeholder="PRSI / NI class" value={form.prsiClass} onChange={updateField('prsiClass')} />
+            </div>
+            <select
+              className="h-7 w-full rounded-md border bg-background px-2 text-xs"
+              aria-label="Personal circumstances"
+              value={form.personalCircumstances}
+              onChange={event => setForm(prev => ({ ...prev, personalCircumstances: event.target.value }))}
+            >
+              <option value="">Single (IE income tax bands)</option>
+              <option value="married">Married or civil partners, one income</option>
+              <option value="one_parent">One-parent family</option>
+            </select>
+            <label className="flex items-center gap-1.5 text-xs">
+              <input type="checkbox" checked={form.hasCompany} onChange={updateField('hasCompany')} />
+              Paid through own company
+            </label>
+            {form.hasCompany && (
+              <Input
+                className="h-7 text-xs"
+                type="number"
+                min={0}
+                placeholder="Company profit before salary"
+                value={form.companyProfit}
+                onChange={updateField('companyProfit')}
+              />
+            )}
+            <div className="flex justify-end gap-1">
+              {editingId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => {
+                    setEditingId(null)
+                    setForm(emptyForm)
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" className="h-6 px-2 text-xs" disabled={!form.name.trim()} onClick={handleSave}>
+                {editingId ? 'Save scenario' : 'Add scenario'}
+              </Button>
+            </div>
+          </div>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+/**
+ * Eligibility Panel Component Tests
+ *
+ * Verifies that deterministic eligibility evaluations returned with an answer
+ * are rendered as a tree of met, unmet and unknown conditions.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import type { EligibilityEvaluation } from '@reg-copilot/reg-intel-core/client'
+import { EligibilityPanel } from '../eligibility-panel'
+
+const evaluation: EligibilityEvaluation = {
+  benefitId: 'IE_BENEFIT_JOBSEEKERS_SE',
+  benefitLabel: "Jobseeker's Benefit (Self-Employed)",
+  status: 'fail',
+  evaluatedAt: '2025-03-01T00:00:00.000Z',
+  missingFacts: ['currentClaims'],
+  unmet: [],
+  tree: {
+    nodeId: 'IE_BENEFIT_JOBSEEKERS_SE',
+    label: "Jobseeker's Benefit (Self-Employed)",
+    kind: 'BENEFIT',
+    status: 'fail',
+    reason: 'One or more conditions are not met',
+    children: [
+      {
+        nodeId: 'IE_COND_PRSI_104_PAID',
+        label: 'Minimum 104 paid PRSI contributions',
+        kind: 'CONDITION',
+        status: 'fail',
+        reason: 'contributionsPaid is 90; required >= 104',
+        children: [],
+      },
+      {
+        nodeId: 'IE_COND_PRSI_39_RECENT',
+        label: '39 contributions in the relevant period',
+        kind: 'CONDITION',
+        status: 'pass',
+        reason: '39 contributions in the relevant period is met',
+        children: [
+          {
+            nodeId: 'IE_THRESHOLD_PRSI_39_WEEKS',
+            label: '39 weeks of contributions',
+            kind: 'THRESHOLD',
+            status: 'pass',
+            reason: 'contributions is 52 WEEKS; required >= 39',
+            children: [],
+          },
+        ],
+      },
+    ],
+  },
+}
+
+describe('EligibilityPanel', () => {
+  it('renders each benefit with its condition tree and missing facts', () => {
+    render(<EligibilityPanel evaluations={[evaluation]} />)
+
+    expect(screen.getByRole('region', { name: "Jobseeker's Benefit (Self-Employed)" })).toBeTruthy()
+    expect(screen.getByText('(Conditions not met)')).toBeTruthy()
+    expect(screen.getByText(': contributionsPaid is 90; required >= 104')).toBeTruthy()
+    expect(screen.getByText('39 weeks of contributions')).toBeTruthy()
+    expect(screen.getByText('Missing information: currentClaims')).toBeTruthy()
+  })
+
+  it('renders nothing without evaluations', () => {
+    const { container } = render(<EligibilityPanel evaluations={[]} />)
+
+    expect(container.firstChild).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Progress Indicator Component Tests
+ *
+ * Verifies that per-agent progress reported during multi-agent fan-out is
+ * rendered under the querying stage.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ProgressIndicator } from '../progress-indicator'
+
+describe('ProgressIndicator', () => {
+  it('lists domain agents with their progress while querying', () => {
+    render(
+      <ProgressIndicator
+        currentStage="querying"
+        agents={[
+          { agentId: 'ie', agentName: 'IE Social Safety Net Agent', status: 'completed' },
+          { agentId: 'uk', agentName: 'UK NI Agent', status: 'started' },
+        ]}
+      />
+    )
+
+    const agentList = screen.getByRole('list', { name: 'Specialist agents' })
+    expect(agentList).toBeTruthy()
+    expect(screen.getByText('IE Social Safety Net Agent')).toBeTruthy()
+    expect(screen.getByText('UK NI Agent')).toBeTruthy()
+  })
+
+  it('omits the agent list when no agents have reported progress', () => {
+    render(<ProgressIndicator currentStage="querying" />)
+
+    expect(screen.getByText('Querying regulatory graph')).toBeTruthy()
+    expect(screen.queryByRole('list', { name: 'Specialist agents' })).toBeNull()
+  })
+
+  it('renders nothing once the response is complete', () => {
+    const { container } = render(
+      <ProgressIndicator
+        currentStage="complete"
+        agents={[{ agentId: 'ie', agentName: 'IE Agent', status: 'completed' }]}
+      />
+    )
+
+    expect(container.firstChild).toBeNull()
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Scenario Comparison Table Component Tests
+ *
+ * Verifies that a scenario comparison returned with an answer is rendered as
+ * a side-by-side table with the highest take-home scenario highlighted.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import type { ScenarioComparison } from '@reg-copilot/reg-intel-core/client'
+import { ScenarioComparisonTable } from '../scenario-comparison-table'
+
+const comparison: ScenarioComparison = {
+  taxYear: 2024,
+  columns: [
+    { scenarioId: 'salary', name: 'All salary', jurisdiction: 'IE', currency: 'EUR' },
+    { scenarioId: 'dividends', name: 'Salary and dividends', jurisdiction: 'IE', currency: 'EUR' },
+  ],
+  rows: [
+    {
+      key: 'take_home',
+      label: 'Take-home income',
+      kind: 'amount',
+      higherIsBetter: true,
+      cells: [{ value: 40235.38 }, { value: 35095.38 }],
+    },
+    { key: 'effective_rate', label: 'Effective tax rate', kind: 'percent', cells: [{ value: 32.9 }, { value: null }] },
+    {
+      key: 'eligibility:IE_BENEFIT_ILLNESS',
+      label: 'Illness Benefit',
+      kind: 'eligibility',
+      cells: [{ value: 'pass' }, { value: 'fail' }],
+    },
+  ],
+  bestScenarioId: 'salary',
+  sourceNodeIds: ['IE_INCOME_TAX_STANDARD_2024'],
+  notes: ['Salary and dividends: Class S does not pay employer PRSI.'],
+  errors: [],
+  generatedAt: '2024-06-01T00:00:00.000Z',
+}
+
+describe('ScenarioComparisonTable', () => {
+  it('renders one column per scenario and one row per figure', () => {
+    render(<ScenarioComparisonTable comparison={comparison} />)
+
+    expect(screen.getAllByText('All salary')).toHaveLength(2)
+    expect(screen.getByText('Salary and dividends')).toBeTruthy()
+    expect(screen.getByText('Take-home income')).toBeTruthy()
+    expect(screen.getByText('32.9%')).toBeTruthy()
+    expect(screen.getByText('—')).toBeTruthy()
+    expect(screen.getByLabelText('pass')).toBeTruthy()
+    expect(screen.getByLabelText('fail')).toBeTruthy()
+    expect(screen.getByText('Salary and dividends: Class S does not pay employer PRSI.')).toBeTruthy()
+  })
+
+  it('names the scenarios that could not be calculated', () => {
+    render(
+      <ScenarioComparisonTable
+        comparison={{ ...comparison, bestScenarioId: undefined, errors: [{ scenarioId: 'dividends', message: 'No rates' }] }}
+      />
+    )
+
+    expect(screen.getByText('Salary and dividends: No rates')).toBeTruthy()
+    expect(screen.queryByText(/Highest take-home income/)).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import { CheckCircle2, HelpCircle, XCircle } from 'lucide-react';
+import type { EligibilityCheck, EligibilityEvaluation, EligibilityStatus } from '@reg-copilot/reg-intel-core/client';
+
+interface EligibilityPanelProps {
+  evaluations: EligibilityEvaluation[];
+}
+
+const statusLabels: Record<EligibilityStatus, string> = {
+  pass: 'Conditions met',
+  fail: 'Conditions not met',
+  unknown: 'Needs more information',
+};
+
+function StatusIcon({ status }: { status: EligibilityStatus }) {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle2 aria-label="pass" className="w-3.5 h-3.5 shrink-0 text-green-600 dark:text-green-400" />;
+    case 'fail':
+      return <XCircle aria-label="fail" className="w-3.5 h-3.5 shrink-0 text-red-600 dark:text-red-400" />;
+    case 'unknown':
+      return <HelpCircle aria-label="unknown" className="w-3.5 h-3.5 shrink-0 text-gray-400 dark:text-gray-500" />;
+  }
+}
+
+function CheckList({ checks }: { checks: EligibilityCheck[] }) {
+  if (checks.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="ml-4 space-y-1">
+      {checks.map((check) => (
+        <li key={`${check.kind}-${check.nodeId}`}>
+          <div className="flex items-start gap-1.5 text-xs">
+            <StatusIcon status={check.status} />
+            <span>
+              <span className="font-medium">{check.label}</span>
+              <span className="text-muted-foreground">: {check.reason}</span>
+            </span>
+          </div>
+          <CheckList checks={check.children} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Deterministic eligibility evaluations returned alongside an answer, showing
+ * which benefit conditions are met, unmet or need more information
+ */
+export function EligibilityPanel({ evaluations }: EligibilityPanelProps) {
+  if (evaluations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-border bg-muted/40 px-3 py-2">
+      <div className="text-xs font-semibold text-foreground">Eligibility check</div>
+      {evaluations.map((evaluation) => (
+        <section key={evaluation.benefitId} aria-label={evaluation.benefitLabel} className="flex flex-col gap-1">
+          <div className="flex items-center gap-1.5 text-xs font-semibold">
+            <StatusIcon status={evaluation.status} />
+            {evaluation.benefitLabel}
+            <span className="font-normal text-muted-foreground">({statusLabels[evaluation.status]})</span>
+          </div>
+          <CheckList checks={evaluation.tree.children} />
+          {evaluation.missingFacts.length > 0 && (
+            <p className="ml-4 text-[11px] text-muted-foreground">
+              Missing information: {evaluation.missingFacts.join(', ')}
+            </p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
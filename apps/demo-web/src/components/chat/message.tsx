@@ -1,10 +1,13 @@
 import * as React from "react"
 import { Bot, ChevronDown, ChevronUp, GitBranch, Pencil, Pin, PinOff, ShieldCheck, User } from "lucide-react"
+import type { Citation, EligibilityEvaluation, ScenarioComparison } from "@reg-copilot/reg-intel-core/client"
 
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
+import { EligibilityPanel } from "./eligibility-panel"
+import { ScenarioComparisonTable } from "./scenario-comparison-table"
 import { MessageVersionNav } from "./message-version-nav"
 
 type ListBuffer = {
@@ -12,9 +15,49 @@ type ListBuffer = {
   items: React.ReactNode[]
 }
 
-function renderInlineMarkdown(text: string, keyPrefix: string) {
+type CitationLookup = Map<string, Citation>
+
+const CITATION_MARKER_PATTERN = /\[node:([A-Za-z0-9_-]+)\]/g
+
+/**
+ * Link to a graph node in the graph explorer
+ */
+function graphNodeHref(nodeId: string) {
+  return `/graph?node=${encodeURIComponent(nodeId)}`
+}
+
+/**
+ * Citations keyed by node ID. Markers that arrive before the validated
+ * citations (while streaming) are numbered in order of appearance.
+ */
+function buildCitationLookup(content: string, citations: Citation[] = []): CitationLookup {
+  const lookup: CitationLookup = new Map(citations.map(citation => [citation.id, citation]))
+  for (const match of content.matchAll(CITATION_MARKER_PATTERN)) {
+    const nodeId = match[1]
+    if (!lookup.has(nodeId)) {
+      lookup.set(nodeId, { id: nodeId, label: nodeId, type: "", index: lookup.size + 1 })
+    }
+  }
+  return lookup
+}
+
+function CitationChip({ citation }: { citation: Citation }) {
+  return (
+    <a
+      href={graphNodeHref(citation.id)}
+      target="_blank"
+      rel="noreferrer"
+      title={citation.type ? `${citation.label} (${citation.type})` : citation.label}
+      className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-primary/10 px-1 align-super text-[10px] font-semibold text-primary no-underline hover:bg-primary/20"
+    >
+      {citation.index}
+    </a>
+  )
+}
+
+function renderInlineMarkdown(text: string, keyPrefix: string, citations?: CitationLookup) {
   const elements: React.ReactNode[] = []
-  const regex = /\[([^\]]+)\]\(([^)]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|`([^`]+)`/g
+  const regex = /\[([^\]]+)\]\(([^)]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|`([^`]+)`|\[node:([A-Za-z0-9_-]+)\]/g
   let lastIndex = 0
   let match: RegExpExecArray | null
 
@@ -35,6 +78,11 @@ function renderInlineMarkdown(text: string, keyPrefix: string) {
       elements.push(<em key={`${keyPrefix}-em-${elements.length}`}>{match[4]}</em>)
     } else if (match[5]) {
       elements.push(<code key={`${keyPrefix}-code-${elements.length}`}>{match[5]}</code>)
+    } else if (match[6]) {
+      const citation = citations?.get(match[6])
+      elements.push(
+        citation ? <CitationChip key={`${keyPrefix}-cite-${elements.length}`} citation={citation} /> : match[0]
+      )
     }
 
     lastIndex = regex.lastIndex
@@ -47,7 +95,7 @@ function renderInlineMarkdown(text: string, keyPrefix: string) {
   return elements
 }
 
-function renderMarkdown(content: string) {
+function renderMarkdown(content: string, citations?: CitationLookup) {
   const elements: React.ReactNode[] = []
   let paragraphBuffer: string[] = []
   let listBuffer: ListBuffer | null = null
@@ -56,7 +104,7 @@ function renderMarkdown(content: string) {
       if (paragraphBuffer.length === 0) return
       elements.push(
         <p key={`paragraph-${elements.length}`}>
-          {renderInlineMarkdown(paragraphBuffer.join(" "), `paragraph-${elements.length}`)}
+          {renderInlineMarkdown(paragraphBuffer.join(" "), `paragraph-${elements.length}`, citations)}
       </p>
     )
     paragraphBuffer = []
@@ -88,7 +136,7 @@ function renderMarkdown(content: string) {
         const Tag = (level === 1 ? "h1" : level === 2 ? "h2" : "h3") as keyof React.JSX.IntrinsicElements
         elements.push(
           <Tag key={`heading-${elements.length}`}>
-            {renderInlineMarkdown(headingMatch[2], `heading-${elements.length}`)}
+            {renderInlineMarkdown(headingMatch[2], `heading-${elements.length}`, citations)}
         </Tag>
       )
       return
@@ -103,7 +151,7 @@ function renderMarkdown(content: string) {
       }
       listBuffer.items.push(
         <span key={`list-item-content-${listBuffer.items.length}`}>
-          {renderInlineMarkdown(item, `list-${elements.length}-${listBuffer?.items.length ?? 0}`)}
+          {renderInlineMarkdown(item, `list-${elements.length}-${listBuffer?.items.length ?? 0}`, citations)}
         </span>
       )
       return
@@ -118,7 +166,7 @@ function renderMarkdown(content: string) {
       }
       listBuffer.items.push(
         <span key={`ordered-item-content-${listBuffer.items.length}`}>
-          {renderInlineMarkdown(item, `list-${elements.length}-${listBuffer?.items.length ?? 0}`)}
+          {renderInlineMarkdown(item, `list-${elements.length}-${listBuffer?.items.length ?? 0}`, citations)}
         </span>
       )
       return
@@ -147,6 +195,9 @@ interface MessageMetadata {
   referencedNodes?: string[]
   conversationContextSummary?: string
   priorTurnNodes?: Array<{ id: string; label: string; type: string }>
+  eligibility?: EligibilityEvaluation[]
+  citations?: Citation[]
+  scenarioComparison?: ScenarioComparison
   // Branch preview fields (for version navigation)
   isBranchPreview?: boolean
   branchPathId?: string
@@ -359,7 +410,28 @@ export function Message({
               <MessageContent
                 content={content}
                 tone={isUser ? "user" : "assistant"}
+                citations={metadata?.citations}
               />
+              {!isUser && metadata?.citations && metadata.citations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 pt-1 text-[11px] text-muted-foreground">
+                  <span className="font-semibold uppercase tracking-[0.08em]">Sources</span>
+                  {metadata.citations.map(citation => (
+                    <a
+                      key={citation.id}
+                      href={graphNodeHref(citation.id)}
+                      target="_blank"
+                      rel="noreferrer"
+                      title="Open in graph"
+                    >
+                      <Badge variant="outline" className="gap-1 text-[10px] hover:bg-muted">
+                        <span className="font-semibold text-primary">{citation.index}</span>
+                        {citation.label}
+                        <span className="text-muted-foreground">({citation.type})</span>
+                      </Badge>
+                    </a>
+                  ))}
+                </div>
+              )}
               {canShowActions && (
                 <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
                   {isUser && onEdit && (
@@ -495,6 +567,12 @@ export function Message({
               )}
             </div>
           )}
+          {!isUser && metadata?.scenarioComparison && (
+            <ScenarioComparisonTable comparison={metadata.scenarioComparison} />
+          )}
+          {!isUser && metadata?.eligibility && metadata.eligibility.length > 0 && (
+            <EligibilityPanel evaluations={metadata.eligibility} />
+          )}
           {!isUser && (
             <div className="flex flex-wrap items-center gap-2 rounded-xl bg-muted/60 px-3 py-2 text-[11px] font-medium text-muted-foreground">
               <span className="rounded-full bg-background px-2 py-1 text-xs font-semibold text-foreground">
@@ -524,9 +602,15 @@ interface MessageContentProps {
   content: string
   tone: "user" | "assistant"
   className?: string
+  citations?: Citation[]
 }
 
-export function MessageContent({ content, tone, className }: MessageContentProps) {
+export function MessageContent({ content, tone, className, citations }: MessageContentProps) {
+  const citationLookup = React.useMemo(
+    () => (tone === "assistant" ? buildCitationLookup(content, citations) : undefined),
+    [content, citations, tone]
+  )
+
   return (
     <div
       className={cn(
@@ -535,7 +619,7 @@ export function MessageContent({ content, tone, className }: MessageContentProps
         className
       )}
     >
-      <div className="text-sm leading-relaxed">{renderMarkdown(content)}</div>
+      <div className="text-sm leading-relaxed">{renderMarkdown(content, citationLookup)}</div>
     </div>
   )
 }
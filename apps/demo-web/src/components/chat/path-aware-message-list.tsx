@@ -7,7 +7,7 @@ import type { PathMessage } from '@reg-copilot/reg-intel-ui';
 
 import { Message, MessageLoading } from './message';
 import { ProgressIndicator } from './progress-indicator';
-import type { StreamingStage } from './progress-indicator';
+import type { AgentProgress, StreamingStage } from './progress-indicator';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useClientTelemetry } from '@/lib/clientTelemetry';
@@ -28,6 +28,8 @@ interface PathAwareMessageListProps {
   isLoading?: boolean;
   /** Current streaming stage for progress indicator */
   streamingStage?: StreamingStage;
+  /** Domain agents reported by the stream while the answer is prepared */
+  agentProgress?: AgentProgress[];
   /** Currently editing message ID */
   editingMessageId?: string | null;
   /** Current editing content */
@@ -65,6 +67,7 @@ export function PathAwareMessageList({
   fallbackMessages = [],
   isLoading = false,
   streamingStage,
+  agentProgress,
   editingMessageId,
   editingContent = '',
   onEditingContentChange,
@@ -91,6 +94,7 @@ export function PathAwareMessageList({
         messages={fallbackMessages}
         isLoading={isLoading}
         streamingStage={streamingStage}
+        agentProgress={agentProgress}
         editingMessageId={editingMessageId}
         editingContent={editingContent}
         onEditingContentChange={onEditingContentChange}
@@ -111,6 +115,7 @@ export function PathAwareMessageList({
     <PathContextMessageList
       isLoading={isLoading}
       streamingStage={streamingStage}
+      agentProgress={agentProgress}
       editingMessageId={editingMessageId}
       editingContent={editingContent}
       onEditingContentChange={onEditingContentChange}
@@ -141,6 +146,7 @@ interface FallbackMessageListProps {
   }>;
   isLoading: boolean;
   streamingStage?: StreamingStage;
+  agentProgress?: AgentProgress[];
   editingMessageId?: string | null;
   editingContent?: string;
   onEditingContentChange?: (content: string) => void;
@@ -159,6 +165,7 @@ function FallbackMessageList({
   messages,
   isLoading,
   streamingStage,
+  agentProgress,
   editingMessageId,
   editingContent = '',
   onEditingContentChange,
@@ -340,7 +347,9 @@ function FallbackMessageList({
       })}
       {isLoading && (
         <>
-          {streamingStage && <ProgressIndicator currentStage={streamingStage} />}
+          {streamingStage && (
+            <ProgressIndicator currentStage={streamingStage} agents={agentProgress} />
+          )}
           <MessageLoading />
         </>
       )}
@@ -351,6 +360,7 @@ function FallbackMessageList({
 interface PathContextMessageListProps {
   isLoading: boolean;
   streamingStage?: StreamingStage;
+  agentProgress?: AgentProgress[];
   editingMessageId?: string | null;
   editingContent?: string;
   onEditingContentChange?: (content: string) => void;
@@ -369,6 +379,7 @@ interface PathContextMessageListProps {
 function PathContextMessageList({
   isLoading,
   streamingStage,
+  agentProgress,
   editingMessageId,
   editingContent = '',
   onEditingContentChange,
@@ -644,7 +655,9 @@ function PathContextMessageList({
 
       {isLoading && (
         <>
-          {streamingStage && <ProgressIndicator currentStage={streamingStage} />}
+          {streamingStage && (
+            <ProgressIndicator currentStage={streamingStage} agents={agentProgress} />
+          )}
           <MessageLoading />
         </>
       )}
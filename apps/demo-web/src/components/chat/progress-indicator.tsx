@@ -1,9 +1,20 @@
-import { CheckCircle2, Circle, Loader2 } from 'lucide-react';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
 
 export type StreamingStage = 'analyzing' | 'querying' | 'generating' | 'complete';
 
+/**
+ * Progress of a domain agent, as reported by `agent_progress` stream events
+ */
+export interface AgentProgress {
+  agentId: string;
+  agentName: string;
+  status: 'started' | 'completed' | 'failed';
+}
+
 interface ProgressIndicatorProps {
   currentStage: StreamingStage;
+  /** Domain agents working on the question (shown under the querying stage) */
+  agents?: AgentProgress[];
 }
 
 interface StageInfo {
@@ -17,7 +28,7 @@ const stages: StageInfo[] = [
   { name: 'generating', label: 'Generating response' },
 ];
 
-export function ProgressIndicator({ currentStage }: ProgressIndicatorProps) {
+export function ProgressIndicator({ currentStage, agents = [] }: ProgressIndicatorProps) {
   const getStageStatus = (stageName: string): 'completed' | 'in_progress' | 'pending' => {
     const stageIndex = stages.findIndex((s) => s.name === stageName);
     const currentIndex = stages.findIndex((s) => s.name === currentStage);
@@ -61,9 +72,27 @@ export function ProgressIndicator({ currentStage }: ProgressIndicatorProps) {
                 : 'text-gray-500 dark:text-gray-500';
 
           return (
-            <div key={stage.name} className="flex items-center gap-2">
-              {renderIcon(status)}
-              <span className={`text-sm ${textColor}`}>{stage.label}</span>
+            <div key={stage.name}>
+              <div className="flex items-center gap-2">
+                {renderIcon(status)}
+                <span className={`text-sm ${textColor}`}>{stage.label}</span>
+              </div>
+              {stage.name === 'querying' && agents.length > 0 && (
+                <ul className="ml-6 mt-1 space-y-1" aria-label="Specialist agents">
+                  {agents.map((agent) => (
+                    <li key={agent.agentId} className="flex items-center gap-2">
+                      {agent.status === 'failed' ? (
+                        <XCircle className="w-3.5 h-3.5 text-red-600 dark:text-red-400" />
+                      ) : agent.status === 'completed' ? (
+                        <CheckCircle2 className="w-3.5 h-3.5 text-green-600 dark:text-green-400" />
+                      ) : (
+                        <Loader2 className="w-3.5 h-3.5 text-blue-600 dark:text-blue-400 animate-spin" />
+                      )}
+                      <span className="text-xs text-gray-600 dark:text-gray-400">{agent.agentName}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           );
         })}
@@ -0,0 +1,108 @@
+import { CheckCircle2, HelpCircle, XCircle } from 'lucide-react';
+import type {
+  EligibilityStatus,
+  ScenarioComparison,
+  ScenarioComparisonCell,
+  ScenarioComparisonRow,
+} from '@reg-copilot/reg-intel-core/client';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+interface ScenarioComparisonTableProps {
+  comparison: ScenarioComparison;
+}
+
+function EligibilityIcon({ status }: { status: EligibilityStatus }) {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle2 aria-label="pass" className="inline w-3.5 h-3.5 text-green-600 dark:text-green-400" />;
+    case 'fail':
+      return <XCircle aria-label="fail" className="inline w-3.5 h-3.5 text-red-600 dark:text-red-400" />;
+    case 'unknown':
+      return <HelpCircle aria-label="unknown" className="inline w-3.5 h-3.5 text-gray-400 dark:text-gray-500" />;
+  }
+}
+
+function CellValue({ row, cell, currency }: { row: ScenarioComparisonRow; cell: ScenarioComparisonCell; currency: string }) {
+  if (cell.value === null) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  if (row.kind === 'eligibility') {
+    return <EligibilityIcon status={cell.value as EligibilityStatus} />;
+  }
+  if (row.kind === 'percent') {
+    return <>{cell.value}%</>;
+  }
+  return <>{new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(cell.value as number)}</>;
+}
+
+/**
+ * Deterministic side-by-side comparison of the conversation's scenarios:
+ * taxes, take-home income and benefit eligibility for each fact set
+ */
+export function ScenarioComparisonTable({ comparison }: ScenarioComparisonTableProps) {
+  if (comparison.columns.length === 0) {
+    return null;
+  }
+
+  const bestIndex = comparison.columns.findIndex(column => column.scenarioId === comparison.bestScenarioId);
+
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-border bg-muted/40 px-3 py-2">
+      <div className="text-xs font-semibold text-foreground">
+        Scenario comparison <span className="font-normal text-muted-foreground">(tax year {comparison.taxYear})</span>
+      </div>
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            {comparison.columns.map((column, index) => (
+              <TableHead
+                key={column.scenarioId}
+                className={cn('text-right', index === bestIndex && 'text-green-700 dark:text-green-400')}
+              >
+                {column.name}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {comparison.rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              {row.cells.map((cell, index) => (
+                <TableCell
+                  key={comparison.columns[index].scenarioId}
+                  className={cn('text-right tabular-nums', index === bestIndex && 'bg-green-50/60 dark:bg-green-950/30')}
+                >
+                  <CellValue row={row} cell={cell} currency={comparison.columns[index].currency} />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {bestIndex >= 0 && (
+        <p className="text-[11px] text-muted-foreground">
+          Highest take-home income: <span className="font-medium text-foreground">{comparison.columns[bestIndex].name}</span>
+        </p>
+      )}
+      {comparison.notes.length > 0 && (
+        <ul className="list-disc pl-4 text-[11px] text-muted-foreground">
+          {comparison.notes.map(note => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
+      {comparison.errors.length > 0 && (
+        <ul className="text-[11px] text-red-600 dark:text-red-400">
+          {comparison.errors.map(error => (
+            <li key={error.scenarioId}>
+              {comparison.columns.find(column => column.scenarioId === error.scenarioId)?.name ?? error.scenarioId}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
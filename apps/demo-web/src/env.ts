@@ -34,7 +34,10 @@ export const env = createEnv({
     E2B_ENABLED: z.coerce.boolean().default(true),
     REDIS_CACHING_ENABLED: z.coerce.boolean().default(true),
 
-    // E2B (required only if E2B_ENABLED=true)
+    // Code execution backend: E2B cloud sandboxes or local child processes
+    CODE_SANDBOX_PROVIDER: z.enum(['e2b', 'local']).default('e2b'),
+
+    // E2B (required only if E2B_ENABLED=true and CODE_SANDBOX_PROVIDER=e2b)
     E2B_API_KEY: z.string().optional(),
 
     // OpenFGA (optional authorization backend)
@@ -69,6 +72,7 @@ export const env = createEnv({
     COST_TRACKING_ENABLED: process.env.COST_TRACKING_ENABLED,
     E2B_ENABLED: process.env.E2B_ENABLED,
     REDIS_CACHING_ENABLED: process.env.REDIS_CACHING_ENABLED,
+    CODE_SANDBOX_PROVIDER: process.env.CODE_SANDBOX_PROVIDER,
     E2B_API_KEY: process.env.E2B_API_KEY,
     OPENFGA_API_URL: process.env.OPENFGA_API_URL,
     OPENFGA_STORE_ID: process.env.OPENFGA_STORE_ID,
@@ -87,7 +91,7 @@ export type FeatureFlags = {
 export function getFeatureFlags(): FeatureFlags {
   return {
     costTracking: env.COST_TRACKING_ENABLED,
-    e2b: env.E2B_ENABLED && !!env.E2B_API_KEY,
+    e2b: env.E2B_ENABLED && (env.CODE_SANDBOX_PROVIDER === 'local' || !!env.E2B_API_KEY),
     redisCaching:
       env.REDIS_CACHING_ENABLED && !!(env.REDIS_URL || env.UPSTASH_REDIS_REST_URL),
   };
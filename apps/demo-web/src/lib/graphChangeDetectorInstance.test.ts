@@ -54,6 +54,10 @@ vi.mock('@reg-copilot/reg-intel-core', () => ({
   normalizeProfileType: (value: unknown) => value ?? 'default-profile',
 }));
 
+vi.mock('@/lib/server/graphChangeFeed', () => ({
+  graphChangeFeed: null,
+}));
+
 import { requestContext } from '@reg-copilot/reg-intel-observability';
 
 let provider: BasicTracerProvider;
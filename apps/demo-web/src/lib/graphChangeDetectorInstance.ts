@@ -2,7 +2,9 @@
  * Singleton GraphChangeDetector instance for the demo-web app
  *
  * Manages a single shared GraphChangeDetector that monitors the Memgraph
- * database for changes and notifies subscribed SSE clients.
+ * database for changes and notifies subscribed SSE clients. Changes arrive from
+ * the graph change feed when it is enabled; polling then only catches writes
+ * made outside GraphWriteService.
  */
 
 import {
@@ -15,6 +17,7 @@ import {
 } from '@reg-copilot/reg-intel-core';
 import { normalizeProfileType, type ProfileId } from '@reg-copilot/reg-intel-core';
 import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { graphChangeFeed } from '@/lib/server/graphChangeFeed';
 
 const logger = createLogger('GraphChangeDetectorInstance');
 
@@ -238,9 +241,13 @@ export function getGraphChangeDetector(config?: {
   maxNodesPerPatch?: number;
   maxEdgesPerPatch?: number;
   maxTotalChanges?: number;
+  fallbackPollIntervalMs?: number;
 }): GraphChangeDetector {
   if (!detectorInstance) {
-    logger.info({ config }, 'Creating new graph change detector instance');
+    logger.info(
+      { config, changeFeed: Boolean(graphChangeFeed) },
+      'Creating new graph change detector instance'
+    );
 
     // Create detector with timestamp-based queries and change batching enabled
     const mergedConfig = {
@@ -251,6 +258,8 @@ export function getGraphChangeDetector(config?: {
       maxNodesPerPatch: config?.maxNodesPerPatch ?? MAX_PATCH_NODE_CHANGES,
       maxEdgesPerPatch: config?.maxEdgesPerPatch ?? MAX_PATCH_EDGE_CHANGES,
       maxTotalChanges: config?.maxTotalChanges ?? MAX_PATCH_TOTAL_CHANGES,
+      fallbackPollIntervalMs: config?.fallbackPollIntervalMs ?? 60000,
+      changeFeed: graphChangeFeed ?? undefined,
     };
 
     detectorInstance = createGraphChangeDetector(
@@ -0,0 +1,64 @@
+import 'server-only';
+
+import type { ConceptCurationApplyReport, ConceptProposalStore } from '@reg-copilot/reg-intel-core';
+import { applyReviewedConceptDecisions } from '@reg-copilot/reg-intel-next-adapter';
+import { withSpan, createLogger } from '@reg-copilot/reg-intel-observability';
+import { graphChangeFeed } from '@/lib/server/graphChangeFeed';
+import { graphVersionStore } from '@/lib/server/graphVersioning';
+
+const logger = createLogger('ApplyConceptDecisions');
+
+/**
+ * Apply job for reviewed concept proposals
+ *
+ * This function is called by the cron job endpoint to write concepts that
+ * curators approved or merged on the copilot-admin review screen to the
+ * graph. Proposals that fail stay unapplied and are retried on the next run.
+ *
+ * @param store - The concept proposal store holding the review decisions
+ * @param limit - Maximum number of proposals to apply per run (default: 100)
+ * @returns The apply report, or null when graph writes are not configured
+ */
+export async function applyConceptDecisions(
+  store: ConceptProposalStore,
+  limit: number = 100
+): Promise<ConceptCurationApplyReport | null> {
+  return withSpan(
+    'cron.apply_concept_decisions',
+    { 'curation.limit': limit },
+    async () => {
+      logger.info({ limit }, 'Applying reviewed concept decisions');
+
+      const startTime = Date.now();
+      const report = await applyReviewedConceptDecisions({
+        conceptProposalStore: store,
+        graphChangeFeed: graphChangeFeed ?? undefined,
+        graphVersionStore: graphVersionStore ?? undefined,
+        limit,
+      });
+      const durationMs = Date.now() - startTime;
+
+      if (!report) {
+        logger.warn('Graph writes are not configured; reviewed concept decisions were not applied');
+        return null;
+      }
+
+      logger.info(
+        { applied: report.applied.length, failed: report.failed.length, durationMs },
+        'Concept decisions applied'
+      );
+
+      if (report.failed.length > 0) {
+        logger.warn(
+          {
+            failedCount: report.failed.length,
+            details: report.failed.map(({ proposal, error }) => ({ proposalId: proposal.id, error })),
+          },
+          'Some concept decisions could not be applied'
+        );
+      }
+
+      return report;
+    }
+  );
+}
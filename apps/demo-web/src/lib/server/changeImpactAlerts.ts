@@ -0,0 +1,57 @@
+import 'server-only';
+
+import { createBoltGraphClient } from '@reg-copilot/reg-intel-core';
+import { ChangeImpactAlertService } from '@reg-copilot/reg-intel-conversations';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { getGraphChangeDetector } from '@/lib/graphChangeDetectorInstance';
+import {
+  changeImpactAlertLedger,
+  changeImpactNotifiers,
+  conversationContextStore,
+  conversationStore,
+} from '@/lib/server/conversations';
+
+const logger = createLogger('ChangeImpactAlertsWiring');
+
+/**
+ * Individual flag to enable/disable regulatory change impact alerts.
+ * Set ENABLE_CHANGE_IMPACT_ALERTS=false to disable them.
+ * Defaults to true.
+ */
+const ENABLE_CHANGE_IMPACT_ALERTS = process.env.ENABLE_CHANGE_IMPACT_ALERTS !== 'false';
+
+/**
+ * Jurisdictions watched for graph changes that may make saved answers stale
+ */
+const IMPACT_ALERT_JURISDICTIONS = ['IE', 'UK', 'EU'];
+
+let subscription: { unsubscribe: () => void } | null = null;
+
+/**
+ * Start watching graph changes for answers they affect. Safe to call on every
+ * request; only the first call subscribes. Other instances subscribe too, and
+ * the shared alert ledger keeps them from alerting a conversation twice.
+ */
+export function startChangeImpactAlerts(): void {
+  if (subscription || !ENABLE_CHANGE_IMPACT_ALERTS) {
+    return;
+  }
+
+  try {
+    const service = new ChangeImpactAlertService({
+      contextStore: conversationContextStore,
+      conversationStore,
+      notifiers: changeImpactNotifiers,
+      // Every instance sees each change; the ledger lets one of them alert
+      ledger: changeImpactAlertLedger,
+      // Follows MERGED_INTO redirects, whose lookup takes parameters
+      graphReader: createBoltGraphClient(),
+    });
+    subscription = service.subscribeToGraphChanges(getGraphChangeDetector(), {
+      jurisdictions: IMPACT_ALERT_JURISDICTIONS,
+    });
+    logger.info({ jurisdictions: IMPACT_ALERT_JURISDICTIONS }, 'Watching graph changes for change impact alerts');
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to start change impact alerts');
+  }
+}
@@ -0,0 +1,45 @@
+import 'server-only';
+
+import {
+  SupabaseConceptProposalStore,
+  type ConceptProposalStore,
+} from '@reg-copilot/reg-intel-core';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { createInfrastructureServiceClient } from '@/lib/supabase/infrastructureServiceClient';
+
+const logger = createLogger('ConceptCurationWiring');
+
+/**
+ * Individual flag to enable/disable the concept review queue.
+ * Set ENABLE_CONCEPT_CURATION=false to write LLM-captured concepts straight
+ * to the graph.
+ * Defaults to true.
+ */
+const ENABLE_CONCEPT_CURATION = process.env.ENABLE_CONCEPT_CURATION !== 'false';
+
+function createConceptProposalStore(): ConceptProposalStore | null {
+  if (!ENABLE_CONCEPT_CURATION) {
+    logger.info('Concept curation disabled; captured concepts are written to the graph directly');
+    return null;
+  }
+
+  try {
+    const client = createInfrastructureServiceClient('ConceptProposalStore', {
+      db: { schema: 'copilot_core' },
+    });
+    logger.info('Captured concepts are staged in copilot_core.concept_proposals for review');
+    return new SupabaseConceptProposalStore(client);
+  } catch (error) {
+    logger.error(
+      { err: error },
+      'Failed to create concept proposal store; captured concepts are written to the graph directly',
+    );
+    return null;
+  }
+}
+
+/**
+ * Review queue for concepts captured by the LLM; null when curation is
+ * disabled or Supabase is unavailable.
+ */
+export const conceptProposalStore: ConceptProposalStore | null = createConceptProposalStore();
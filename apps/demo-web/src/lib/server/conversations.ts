@@ -1,15 +1,28 @@
 import 'server-only';
 
 import {
+  ConversationListImpactNotifier,
   RedisConversationEventHub,
   RedisConversationListEventHub,
   SupabaseRealtimeConversationEventHub,
   SupabaseRealtimeConversationListEventHub,
+  InMemoryConversationContextStore,
+  InMemoryConversationPathStore,
+  InMemoryConversationScenarioStore,
   SupabaseConversationContextStore,
+  SupabaseChangeImpactAlertLedger,
+  SupabaseChangeImpactNotifier,
   SupabaseConversationPathStore,
+  SupabaseConversationScenarioStore,
   createConversationConfigStore,
   createConversationStore,
+  createFileBackedConversationState,
+  createInMemoryConversationState,
+  type ChangeImpactAlertLedger,
+  type ChangeImpactNotifier,
   type ConversationConfigStore,
+  type ConversationPathStore,
+  type ConversationScenarioStore,
   type ConversationStore,
   type ExecutionContextManager,
 } from '@reg-copilot/reg-intel-conversations';
@@ -19,6 +32,7 @@ import {
   describeRedisBackendSelection,
   resolveRedisBackend,
 } from '@reg-copilot/reg-intel-cache';
+import type { ConversationContextStore } from '@reg-copilot/reg-intel-core';
 import { createTracingFetch, createLogger } from '@reg-copilot/reg-intel-observability';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { createInfrastructureServiceClient } from '@/lib/supabase/infrastructureServiceClient';
@@ -64,28 +78,50 @@ const supabaseUrl = env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseRealtimeKey = env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 const tracingFetch = createTracingFetch();
 
-if (normalizeConversationStoreMode === 'memory') {
-  throw new Error('COPILOT_CONVERSATIONS_MODE=memory is not supported in clustered deployments');
-}
-
-// Create Supabase clients - env validation ensures these are available
-const supabaseClient = createInfrastructureServiceClient('ConversationStore', {
-  global: { fetch: tracingFetch },
-});
+const useMemoryStores = normalizeConversationStoreMode === 'memory';
 
-const supabaseInternalClient = createInfrastructureServiceClient('ConversationStoreInternal', {
-  db: { schema: 'copilot_core' },
-  global: { fetch: tracingFetch },
-});
+if (useMemoryStores && process.env.NODE_ENV === 'production') {
+  throw new Error('COPILOT_CONVERSATIONS_MODE=memory is not permitted outside dev/test environments');
+}
 
-const supabaseRealtimeClient = createClient(supabaseUrl, supabaseRealtimeKey, {
-  auth: { autoRefreshToken: false, persistSession: false },
-  global: { fetch: tracingFetch },
-});
+/**
+ * Local development only: keep conversations, paths, contexts and configs in
+ * process memory, optionally persisted to COPILOT_CONVERSATIONS_FILE so they
+ * survive dev server restarts.
+ */
+const conversationStatePath = process.env.COPILOT_CONVERSATIONS_FILE?.trim();
+const memoryState = useMemoryStores
+  ? conversationStatePath
+    ? createFileBackedConversationState(conversationStatePath)
+    : createInMemoryConversationState()
+  : undefined;
+
+// Supabase service clients back the stores outside memory mode only, so local
+// development with in-memory stores needs no Supabase service credentials
+const supabaseClients = useMemoryStores
+  ? undefined
+  : {
+      client: createInfrastructureServiceClient('ConversationStore', {
+        global: { fetch: tracingFetch },
+      }),
+      internalClient: createInfrastructureServiceClient('ConversationStoreInternal', {
+        db: { schema: 'copilot_core' },
+        global: { fetch: tracingFetch },
+      }),
+    };
+
+// Realtime only needs the public credentials and is optional in every mode
+const supabaseRealtimeClient =
+  supabaseUrl && supabaseRealtimeKey
+    ? createClient(supabaseUrl, supabaseRealtimeKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+        global: { fetch: tracingFetch },
+      })
+    : undefined;
 
-async function validateSupabaseHealth() {
+async function validateSupabaseHealth(client: SupabaseClient) {
   // Use internal client since healthcheck function references copilot_core tables
-  const { data, error } = await supabaseInternalClient.rpc('conversation_store_healthcheck');
+  const { data, error } = await client.rpc('conversation_store_healthcheck');
   if (error) {
     throw new Error(`Supabase conversation healthcheck failed: ${error.message}`);
   }
@@ -107,13 +143,20 @@ async function validateSupabaseHealth() {
   }
 }
 
-logger.info(
-  { mode: normalizeConversationStoreMode, supabaseUrl },
-  'Using SupabaseConversationStore'
-);
-void validateSupabaseHealth().catch(error => {
-  logger.error({ err: error }, 'Supabase readiness check failed');
-});
+if (!supabaseClients) {
+  logger.warn(
+    { mode: normalizeConversationStoreMode, stateFile: conversationStatePath ?? null },
+    'Using in-memory conversation stores (local development only)'
+  );
+} else {
+  logger.info(
+    { mode: normalizeConversationStoreMode, supabaseUrl },
+    'Using SupabaseConversationStore'
+  );
+  void validateSupabaseHealth(supabaseClients.internalClient).catch(error => {
+    logger.error({ err: error }, 'Supabase readiness check failed');
+  });
+}
 
 // Configure Redis backend and shared clients
 const cacheBackend = resolveRedisBackend('cache');
@@ -135,8 +178,10 @@ const conversationRedisClient = ENABLE_CONVERSATION_CACHING ? sharedKeyValueClie
 
 // Create conversation store with optional caching
 export const conversationStore: ConversationStore = createConversationStore({
-  supabase: supabaseClient,
-  supabaseInternal: supabaseInternalClient,
+  backend: useMemoryStores ? 'memory' : 'supabase',
+  memoryState,
+  supabase: supabaseClients?.client,
+  supabaseInternal: supabaseClients?.internalClient,
   redis: conversationRedisClient ?? undefined,
   enableCaching: ENABLE_CONVERSATION_CACHING,
   cacheTtlSeconds: 60, // 1 minute for active conversations
@@ -160,19 +205,23 @@ if (conversationRedisClient) {
   logger.info({ hasRedis: false, reason }, 'Using SupabaseConversationStore (no caching)');
 }
 
-export const conversationContextStore = new SupabaseConversationContextStore(
-  supabaseClient,
-  supabaseInternalClient
-);
+export const conversationContextStore: ConversationContextStore = supabaseClients
+  ? new SupabaseConversationContextStore(supabaseClients.client, supabaseClients.internalClient)
+  : new InMemoryConversationContextStore(memoryState);
+
+export const conversationPathStore: ConversationPathStore = supabaseClients
+  ? new SupabaseConversationPathStore(supabaseClients.client, supabaseClients.internalClient)
+  : new InMemoryConversationPathStore(memoryState);
 
-export const conversationPathStore = new SupabaseConversationPathStore(
-  supabaseClient,
-  supabaseInternalClient
-);
+export const conversationScenarioStore: ConversationScenarioStore = supabaseClients
+  ? new SupabaseConversationScenarioStore(supabaseClients.internalClient)
+  : new InMemoryConversationScenarioStore(memoryState);
 
 // Create conversation config store with caching
 export const conversationConfigStore: ConversationConfigStore = createConversationConfigStore({
-  supabase: supabaseInternalClient,
+  backend: useMemoryStores ? 'memory' : 'supabase',
+  memoryState,
+  supabase: supabaseClients?.internalClient,
   redis: configRedisClient ?? undefined,
   cacheTtlSeconds: 300, // 5 minutes
   logger,
@@ -303,6 +352,23 @@ if (preferRedisEventHub && redisEventHubAvailable && eventHubClients) {
 
 export { conversationEventHub, conversationListEventHub };
 
+/**
+ * Delivery for regulatory change impact alerts: live on the conversation list
+ * stream and, with Supabase, persisted as COMPLIANCE_ALERT notifications.
+ */
+export const changeImpactNotifiers: ChangeImpactNotifier[] = [
+  new ConversationListImpactNotifier(conversationListEventHub),
+  ...(supabaseClients ? [new SupabaseChangeImpactNotifier(supabaseClients.internalClient)] : []),
+];
+
+/**
+ * Lets one instance alert each conversation about a change. Memory mode
+ * runs a single instance and needs none.
+ */
+export const changeImpactAlertLedger: ChangeImpactAlertLedger | undefined = supabaseClients
+  ? new SupabaseChangeImpactAlertLedger(supabaseClients.internalClient)
+  : undefined;
+
 // Configure OpenFGA for fine-grained authorization (optional)
 // If not configured, conversations will use Supabase RLS-based authorization
 const openfgaApiUrl = env.OPENFGA_API_URL;
@@ -331,15 +397,22 @@ if (openfgaConfig) {
   logger.info('OpenFGA not configured; using Supabase RLS-based authorization');
 }
 
-// Create ExecutionContextManager if E2B is configured
+// Create ExecutionContextManager if E2B or the local sandbox is configured
 // This enables code execution tools in the chat
 const e2bApiKey = env.E2B_API_KEY;
+const sandboxProvider = env.CODE_SANDBOX_PROVIDER;
 
 let executionContextManager: ExecutionContextManager | undefined;
 
-if (env.E2B_ENABLED && e2bApiKey) {
+const codeExecutionConfigured = env.E2B_ENABLED && (sandboxProvider === 'local' || Boolean(e2bApiKey));
+
+if (codeExecutionConfigured && !supabaseClients) {
+  // Execution contexts are only persisted in Supabase
+  logger.info({ sandboxProvider }, 'In-memory conversation stores; code execution tools disabled');
+} else if (codeExecutionConfigured && supabaseClients) {
   executionContextManager = createExecutionContextManager({
-    supabaseClient,
+    supabaseClient: supabaseClients.client,
+    sandboxProvider,
     e2bApiKey,
     defaultTtlMinutes: 30,
     sandboxTimeoutMs: 600000, // 10 minutes
@@ -347,9 +420,9 @@ if (env.E2B_ENABLED && e2bApiKey) {
     quotaCheckCallback: checkE2BQuotaBeforeOperation, // Phase 3: Pre-request E2B quota gate
   });
 
-  logger.info('ExecutionContextManager initialized with E2B integration and quota enforcement');
+  logger.info({ sandboxProvider }, 'ExecutionContextManager initialized with quota enforcement');
 } else {
-  logger.info('E2B not enabled or E2B_API_KEY not configured; code execution tools disabled');
+  logger.info('E2B not enabled or E2B_API_KEY not configured for the e2b sandbox provider; code execution tools disabled');
 }
 
 export { executionContextManager };
@@ -0,0 +1,71 @@
+import 'server-only';
+
+import {
+  InMemoryGraphChangeFeed,
+  RedisGraphChangeFeed,
+  SupabaseGraphChangeFeed,
+  type GraphChangeFeed,
+} from '@reg-copilot/reg-intel-core';
+import {
+  createPubSubClientPair,
+  describeRedisBackendSelection,
+  resolveRedisBackend,
+} from '@reg-copilot/reg-intel-cache';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { env } from '@/env';
+
+const logger = createLogger('GraphChangeFeedWiring');
+
+/**
+ * Individual flag to enable/disable the event-driven graph change feed.
+ * Set ENABLE_GRAPH_CHANGE_FEED=false to detect graph changes by polling only.
+ * Defaults to true.
+ */
+const ENABLE_GRAPH_CHANGE_FEED = process.env.ENABLE_GRAPH_CHANGE_FEED !== 'false';
+
+/**
+ * Redis event hubs can be disabled for every SSE hub at once; the graph change
+ * feed follows the same toggle.
+ */
+const ENABLE_REDIS_EVENT_HUBS = process.env.ENABLE_REDIS_EVENT_HUBS !== 'false';
+
+function createGraphChangeFeed(): GraphChangeFeed | null {
+  if (!ENABLE_GRAPH_CHANGE_FEED) {
+    logger.info('Graph change feed disabled; graph changes are detected by polling');
+    return null;
+  }
+
+  const eventBackend = ENABLE_REDIS_EVENT_HUBS ? resolveRedisBackend('eventHub') : null;
+  const clients = eventBackend ? createPubSubClientPair(eventBackend) : null;
+  if (clients) {
+    logger.info(
+      { backend: describeRedisBackendSelection(eventBackend) },
+      'Using Redis-backed graph change feed',
+    );
+    return new RedisGraphChangeFeed({ clients, prefix: 'copilot:events' });
+  }
+
+  // Graph writes are server-side only: join a private channel with the
+  // service role key so browsers holding the anon key cannot read or forge them
+  const supabaseUrl = env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (supabaseUrl && supabaseKey) {
+    logger.info({ supabaseUrl }, 'Using Supabase Realtime graph change feed');
+    return new SupabaseGraphChangeFeed({
+      supabaseUrl,
+      supabaseKey,
+      prefix: 'copilot:events',
+      privateChannels: true,
+    });
+  }
+
+  // Only reaches detectors in this process
+  logger.warn('No distributed transport configured; using in-memory graph change feed');
+  return new InMemoryGraphChangeFeed();
+}
+
+/**
+ * Shared feed of committed graph writes. GraphWriteService publishes to it and
+ * the graph change detector consumes it; null when the feed is disabled.
+ */
+export const graphChangeFeed: GraphChangeFeed | null = createGraphChangeFeed();
@@ -0,0 +1,91 @@
+import 'server-only';
+
+import {
+  createBoltGraphClient,
+  createGraphEmbeddingIndex,
+  createHashingEmbeddingProvider,
+  createHybridGraphRetriever,
+  createOpenAiCompatibleEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderSet,
+  type GraphRetriever,
+} from '@reg-copilot/reg-intel-core';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { env } from '@/env';
+import { graphChangeFeed } from '@/lib/server/graphChangeFeed';
+import { policyStore } from '@/lib/server/llm';
+
+const logger = createLogger('GraphRetrievalWiring');
+
+/**
+ * Flag to enable/disable hybrid vector + graph retrieval in chat.
+ * Set ENABLE_GRAPH_RETRIEVAL=false to answer from agent graph queries only.
+ * Defaults to true.
+ */
+const ENABLE_GRAPH_RETRIEVAL = process.env.ENABLE_GRAPH_RETRIEVAL !== 'false';
+
+/**
+ * Hosted embedding model, used when OPENAI_API_KEY is set
+ */
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL ?? 'text-embedding-3-small';
+
+/**
+ * Provider for tenants whose LLM policy disallows remote egress: a
+ * self-hosted OpenAI-compatible endpoint when configured, otherwise the
+ * in-process hashing provider
+ */
+function createLocalEmbeddingProvider(): EmbeddingProvider {
+  const baseURL = process.env.LOCAL_EMBEDDING_BASE_URL;
+  const model = process.env.LOCAL_EMBEDDING_MODEL;
+  if (baseURL && model) {
+    return createOpenAiCompatibleEmbeddingProvider({ model, baseURL, local: true });
+  }
+  return createHashingEmbeddingProvider();
+}
+
+function createEmbeddingProviders(): EmbeddingProviderSet {
+  return {
+    local: createLocalEmbeddingProvider(),
+    remote: env.OPENAI_API_KEY
+      ? createOpenAiCompatibleEmbeddingProvider({ model: EMBEDDING_MODEL, apiKey: env.OPENAI_API_KEY })
+      : undefined,
+  };
+}
+
+function createGraphRetriever(): GraphRetriever | null {
+  if (!ENABLE_GRAPH_RETRIEVAL) {
+    logger.info('Graph retrieval disabled');
+    return null;
+  }
+
+  // The index query takes parameters, which only the Bolt client supports
+  const graphClient = createBoltGraphClient();
+  const index = createGraphEmbeddingIndex({ graphClient });
+  const providers = createEmbeddingProviders();
+
+  // Rebuild the index on the next question after any committed graph write
+  if (graphChangeFeed) {
+    graphChangeFeed.subscribe(() => index.invalidate());
+  } else {
+    logger.warn('Graph change feed disabled; the retrieval index is only rebuilt on restart');
+  }
+
+  logger.info(
+    { localProvider: providers.local.id, remoteProvider: providers.remote?.id ?? null },
+    'Using hybrid graph retrieval'
+  );
+
+  return createHybridGraphRetriever({
+    graphClient,
+    index,
+    providers,
+    policySource: policyStore,
+  });
+}
+
+/**
+ * Shared retriever that ranks graph nodes for chat questions; null when
+ * retrieval is disabled. Tenants with `allowRemoteEgress: false` are embedded
+ * with the local provider.
+ */
+export const graphRetriever: GraphRetriever | null = createGraphRetriever();
@@ -0,0 +1,27 @@
+import 'server-only';
+
+import { SupabaseGraphVersionStore, type GraphVersionStore } from '@reg-copilot/reg-intel-core';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { createInfrastructureServiceClient } from '@/lib/supabase/infrastructureServiceClient';
+
+const logger = createLogger('GraphVersioningWiring');
+
+function createGraphVersionStore(): GraphVersionStore | null {
+  try {
+    const client = createInfrastructureServiceClient('GraphVersionStore');
+    logger.info('Graph writes are recorded in the copilot_audit graph change log');
+    return new SupabaseGraphVersionStore(client);
+  } catch (error) {
+    logger.error(
+      { err: error },
+      'Failed to create graph version store; graph writes from the app are not recorded in the change log',
+    );
+    return null;
+  }
+}
+
+/**
+ * Change log for graph writes made by the app (captured concepts); null when
+ * Supabase is unavailable.
+ */
+export const graphVersionStore: GraphVersionStore | null = createGraphVersionStore();
@@ -2,11 +2,16 @@ import 'server-only';
 
 import {
   createDefaultLlmRouter,
+  createLlmResponseCache,
   createPolicyStore,
   type LlmPolicyStore,
+  type LlmResponseCache,
+  type TaxRateGraphClient,
 } from '@reg-copilot/reg-intel-llm';
+import { createBoltGraphClient } from '@reg-copilot/reg-intel-core';
 import { createLogger } from '@reg-copilot/reg-intel-observability';
 import { createInfrastructureServiceClient } from '@/lib/supabase/infrastructureServiceClient';
+import { getGraphChangeDetector } from '@/lib/graphChangeDetectorInstance';
 import { createKeyValueClient, describeRedisBackendSelection, resolveRedisBackend } from '@reg-copilot/reg-intel-cache';
 import { env } from '@/env';
 
@@ -19,6 +24,25 @@ const logger = createLogger('LlmRouterWiring');
  */
 const ENABLE_LLM_POLICY_CACHE = process.env.ENABLE_LLM_POLICY_CACHE !== 'false';
 
+/**
+ * Individual flag to enable LLM response caching.
+ * Set ENABLE_LLM_RESPONSE_CACHE=true to enable this cache.
+ * Defaults to false.
+ */
+const ENABLE_LLM_RESPONSE_CACHE = process.env.ENABLE_LLM_RESPONSE_CACHE === 'true';
+
+/**
+ * Flag to enable/disable the built-in tax calculator tools in chat.
+ * Set ENABLE_TAX_CALCULATORS=false to leave tax calculations to run_analysis.
+ * Defaults to true.
+ */
+const ENABLE_TAX_CALCULATORS = process.env.ENABLE_TAX_CALCULATORS !== 'false';
+
+/**
+ * Jurisdictions watched for graph changes that invalidate cached responses
+ */
+const RESPONSE_CACHE_JURISDICTIONS = ['IE', 'UK', 'EU'];
+
 // ============================================================================
 // Supabase Setup
 // ============================================================================
@@ -35,6 +59,7 @@ const supabaseInternalClient = createInfrastructureServiceClient('LlmPolicyStore
 
 const cacheBackend = ENABLE_LLM_POLICY_CACHE ? resolveRedisBackend('cache') : null;
 const redisClient = cacheBackend ? createKeyValueClient(cacheBackend) : null;
+const responseCacheBackend = ENABLE_LLM_RESPONSE_CACHE ? resolveRedisBackend('cache') : null;
 
 // ============================================================================
 // Policy Store Configuration
@@ -89,6 +114,60 @@ function getPolicyStore(): LlmPolicyStore {
 // Export for backward compatibility
 export const policyStore: LlmPolicyStore = getPolicyStore();
 
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+let responseCacheInstance: LlmResponseCache | null = null;
+
+/**
+ * Get or create the response cache instance.
+ *
+ * With a Redis backend, cached answers are invalidated when the graph change
+ * detector reports changes to the nodes they cite. Without one the cache is
+ * pass-through and no graph subscription is made.
+ */
+function getResponseCache(): LlmResponseCache {
+  if (responseCacheInstance) {
+    return responseCacheInstance;
+  }
+
+  const cache = createLlmResponseCache({ backend: responseCacheBackend });
+
+  if (cache.isEnabled()) {
+    try {
+      cache.subscribeToGraphChanges(getGraphChangeDetector(), {
+        jurisdictions: RESPONSE_CACHE_JURISDICTIONS,
+      });
+    } catch (error) {
+      // Without invalidation, answers could outlive the facts they cite
+      logger.error({ err: error }, 'Failed to subscribe response cache to graph changes; disabling response cache');
+      responseCacheInstance = createLlmResponseCache({ backend: null });
+      return responseCacheInstance;
+    }
+  }
+
+  logger.info(
+    {
+      backend: describeRedisBackendSelection(responseCacheBackend),
+      llmResponseCacheEnabled: ENABLE_LLM_RESPONSE_CACHE,
+    },
+    cache.isEnabled() ? 'Using LLM response cache' : 'LLM response cache disabled (pass-through)'
+  );
+
+  responseCacheInstance = cache;
+  return cache;
+}
+
+// ============================================================================
+// Tax Calculators
+// ============================================================================
+
+/**
+ * Graph client the chat tax calculator tools read rates and thresholds from
+ */
+export const rateGraphClient: TaxRateGraphClient | null = ENABLE_TAX_CALCULATORS ? createBoltGraphClient() : null;
+
 // ============================================================================
 // LLM Router
 // ============================================================================
@@ -102,7 +181,7 @@ export const policyStore: LlmPolicyStore = getPolicyStore();
 export function createLlmRouter() {
   try {
     const store = getPolicyStore();
-    return createDefaultLlmRouter({ policyStore: store });
+    return createDefaultLlmRouter({ policyStore: store, responseCache: getResponseCache() });
   } catch (error) {
     logger.error({ err: error }, 'Failed to create LLM router');
     throw error;
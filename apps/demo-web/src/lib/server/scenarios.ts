@@ -0,0 +1,125 @@
+import type { ScenarioFacts } from '@reg-copilot/reg-intel-core';
+
+const MAX_SCENARIO_NAME_LENGTH = 80;
+
+const INCOME_FIELDS = ['salary', 'dividends', 'selfEmployedProfits'] as const;
+
+const PERSONAL_CIRCUMSTANCES = ['single', 'married', 'one_parent'] as const;
+
+type ParsedScenarioInput =
+  | { ok: true; name?: string; facts?: ScenarioFacts }
+  | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function parseFacts(value: unknown): ScenarioFacts | string {
+  if (!isRecord(value) || !isRecord(value.income)) {
+    return 'facts.income must be an object';
+  }
+
+  const income: ScenarioFacts['income'] = {};
+  for (const field of INCOME_FIELDS) {
+    const amount = value.income[field];
+    if (amount === undefined) continue;
+    if (!isAmount(amount)) {
+      return `facts.income.${field} must be a non-negative number`;
+    }
+    income[field] = amount;
+  }
+
+  const facts: ScenarioFacts = { income };
+
+  if (value.companyProfit !== undefined) {
+    if (!isAmount(value.companyProfit)) {
+      return 'facts.companyProfit must be a non-negative number';
+    }
+    facts.companyProfit = value.companyProfit;
+  }
+
+  if (value.profile !== undefined) {
+    const profile = value.profile;
+    if (!isRecord(profile)) {
+      return 'facts.profile must be an object';
+    }
+    if (profile.jurisdictions !== undefined && !isStringArray(profile.jurisdictions)) {
+      return 'facts.profile.jurisdictions must be an array of strings';
+    }
+    if (profile.prsiClass !== undefined && typeof profile.prsiClass !== 'string') {
+      return 'facts.profile.prsiClass must be a string';
+    }
+    if (profile.hasCompany !== undefined && typeof profile.hasCompany !== 'boolean') {
+      return 'facts.profile.hasCompany must be a boolean';
+    }
+    facts.profile = {
+      jurisdictions: profile.jurisdictions as string[] | undefined,
+      prsiClass: profile.prsiClass as string | undefined,
+      hasCompany: profile.hasCompany as boolean | undefined,
+    };
+  }
+
+  if (value.personalCircumstances !== undefined) {
+    const circumstances = PERSONAL_CIRCUMSTANCES.find(option => option === value.personalCircumstances);
+    if (!circumstances) {
+      return `facts.personalCircumstances must be one of ${PERSONAL_CIRCUMSTANCES.join(', ')}`;
+    }
+    facts.personalCircumstances = circumstances;
+  }
+
+  if (value.taxCreditIds !== undefined) {
+    if (!isStringArray(value.taxCreditIds)) {
+      return 'facts.taxCreditIds must be an array of strings';
+    }
+    facts.taxCreditIds = value.taxCreditIds;
+  }
+
+  if (value.eligibility !== undefined) {
+    if (!isRecord(value.eligibility)) {
+      return 'facts.eligibility must be an object';
+    }
+    facts.eligibility = value.eligibility as ScenarioFacts['eligibility'];
+  }
+
+  return facts;
+}
+
+/**
+ * Validate the body of a scenario create (all fields required) or update
+ * (`partial`) request
+ */
+export function parseScenarioInput(body: unknown, options: { partial?: boolean } = {}): ParsedScenarioInput {
+  if (!isRecord(body)) {
+    return { ok: false, error: 'Invalid request body' };
+  }
+
+  const result: { ok: true; name?: string; facts?: ScenarioFacts } = { ok: true };
+
+  if (body.name !== undefined || !options.partial) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { ok: false, error: 'name is required' };
+    }
+    if (body.name.trim().length > MAX_SCENARIO_NAME_LENGTH) {
+      return { ok: false, error: `name exceeds maximum length of ${MAX_SCENARIO_NAME_LENGTH} characters` };
+    }
+    result.name = body.name.trim();
+  }
+
+  if (body.facts !== undefined || !options.partial) {
+    const facts = parseFacts(body.facts);
+    if (typeof facts === 'string') {
+      return { ok: false, error: facts };
+    }
+    result.facts = facts;
+  }
+
+  return result;
+}
@@ -0,0 +1,690 @@
+/**
+ * Conversation store contract tests
+ *
+ * One suite covering the behaviour every conversation, path, context and config
+ * store backend must share. It runs against the in-memory state, the
+ * file-backed state and, when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are
+ * set, the Supabase stores; the file-backed run also checks that data
+ * survives a reload from disk.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ConversationContextStore } from '@reg-copilot/reg-intel-core';
+import {
+  InMemoryConversationContextStore,
+  InMemoryConversationStore,
+  SupabaseConversationContextStore,
+  SupabaseConversationStore,
+  type ConversationStore,
+} from '../conversationStores.js';
+import {
+  InMemoryConversationPathStore,
+  SupabaseConversationPathStore,
+  type ConversationPathStore,
+} from '../pathStores.js';
+import {
+  DEFAULT_CONFIG,
+  InMemoryConversationConfigStore,
+  SupabaseConversationConfigStore,
+  type ConversationConfigStore,
+} from '../conversationConfig.js';
+import {
+  createFileBackedConversationState,
+  createInMemoryConversationState,
+  type InMemoryConversationState,
+} from '../inMemoryConversationState.js';
+
+interface ContractStores {
+  conversationStore: ContractConversationStore;
+  pathStore: ConversationPathStore;
+  contextStore: ContractContextStore;
+  configStore: ConversationConfigStore;
+}
+
+/** The optional store methods and path-aware appends every backend under test provides */
+type ContractConversationStore = ConversationStore &
+  Required<Pick<ConversationStore, 'getConversationsNeedingCompaction'>> & {
+    appendMessage(
+      input: Parameters<ConversationStore['appendMessage']>[0] & { pathId?: string | null }
+    ): Promise<{ messageId: string }>;
+  };
+type ContractContextStore = ConversationContextStore &
+  Required<Pick<ConversationContextStore, 'findByActiveNodeIds' | 'mergeActiveNodeIds'>>;
+
+interface ContractOptions {
+  skip?: boolean;
+  /** The backend keeps global config outside the test, so it must not be overwritten */
+  sharedGlobalConfig?: boolean;
+  /** Remove everything written for the given tenants */
+  cleanup?: (tenantIds: string[]) => Promise<void>;
+}
+
+function createStateStores(state: InMemoryConversationState): ContractStores {
+  return {
+    conversationStore: new InMemoryConversationStore(state),
+    pathStore: new InMemoryConversationPathStore(state),
+    contextStore: new InMemoryConversationContextStore(state),
+    configStore: new InMemoryConversationConfigStore(state),
+  };
+}
+
+function describeConversationStoreContract(
+  backend: string,
+  createStores: () => ContractStores,
+  options: ContractOptions = {}
+) {
+  describe.skipIf(options.skip ?? false)(`conversation store contract (${backend})`, () => {
+    let conversationStore: ContractConversationStore;
+    let pathStore: ConversationPathStore;
+    let contextStore: ContractContextStore;
+    let configStore: ConversationConfigStore;
+    // Fresh ids per test keep backends that share a database isolated
+    let tenant: string;
+    let otherTenant: string;
+    let owner: string;
+    let otherUser: string;
+    const tenantsUsed: string[] = [];
+
+    beforeEach(() => {
+      ({ conversationStore, pathStore, contextStore, configStore } = createStores());
+      tenant = randomUUID();
+      otherTenant = randomUUID();
+      owner = randomUUID();
+      otherUser = randomUUID();
+      tenantsUsed.push(tenant, otherTenant);
+    });
+
+    afterAll(async () => {
+      await options.cleanup?.(tenantsUsed);
+    });
+
+    async function createConversationWithMessages(contents: string[], userId: string | null = owner) {
+      const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId });
+      const messageIds: string[] = [];
+      for (const [index, content] of contents.entries()) {
+        const { messageId } = await conversationStore.appendMessage({
+          tenantId: tenant,
+          conversationId,
+          userId,
+          role: index % 2 === 0 ? 'user' : 'assistant',
+          content,
+        });
+        messageIds.push(messageId);
+      }
+      return { conversationId, messageIds };
+    }
+
+    describe('conversations', () => {
+      it('creates conversations with defaults and a primary active path', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+
+        const record = await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: owner });
+        const primary = await pathStore.getPrimaryPath({ tenantId: tenant, conversationId });
+
+        expect(record).toMatchObject({
+          shareAudience: 'private',
+          tenantAccess: 'view',
+          authorizationModel: 'supabase_rbac',
+          jurisdictions: [],
+          archivedAt: null,
+        });
+        expect(primary).toMatchObject({ name: 'Main', isPrimary: true, isActive: true });
+        expect(record?.activePathId).toBe(primary?.id);
+      });
+
+      it('isolates tenants and hides private conversations from other users', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+
+        expect(await conversationStore.getConversation({ tenantId: otherTenant, conversationId, userId: owner })).toBeNull();
+        expect(await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: otherUser })).toBeNull();
+        expect(await conversationStore.getMessages({ tenantId: tenant, conversationId, userId: otherUser })).toEqual([]);
+
+        await conversationStore.updateSharing({ tenantId: tenant, conversationId, userId: owner, shareAudience: 'tenant' });
+        expect(await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: otherUser })).not.toBeNull();
+      });
+
+      it('enforces write access when appending messages', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+
+        await expect(
+          conversationStore.appendMessage({ tenantId: otherTenant, conversationId, userId: owner, role: 'user', content: 'hi' })
+        ).rejects.toThrow('Conversation not found for tenant');
+        await expect(
+          conversationStore.appendMessage({ tenantId: tenant, conversationId, userId: otherUser, role: 'user', content: 'hi' })
+        ).rejects.toThrow('User not authorised for conversation');
+        await expect(
+          conversationStore.appendMessage({ tenantId: tenant, conversationId, userId: null, role: 'assistant', content: 'ok' })
+        ).resolves.toHaveProperty('messageId');
+      });
+
+      it('returns messages in order, merges the trace id into metadata and updates activity', async () => {
+        const { conversationId } = await createConversationWithMessages(['one', 'two']);
+        await conversationStore.appendMessage({
+          tenantId: tenant,
+          conversationId,
+          userId: owner,
+          role: 'user',
+          content: 'three',
+          traceId: 'trace-1',
+          metadata: { source: 'test' },
+        });
+
+        const messages = await conversationStore.getMessages({ tenantId: tenant, conversationId, userId: owner });
+        const limited = await conversationStore.getMessages({ tenantId: tenant, conversationId, userId: owner, limit: 2 });
+        const record = await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: owner });
+
+        expect(messages.map(m => m.content)).toEqual(['one', 'two', 'three']);
+        expect(limited.map(m => m.content)).toEqual(['one', 'two']);
+        expect(messages[2].metadata).toEqual({ source: 'test', traceId: 'trace-1' });
+        expect(record?.traceId).toBe('trace-1');
+        expect(record?.lastMessageAt?.getTime()).toBe(messages[2].createdAt.getTime());
+      });
+
+      it('soft deletes messages within the conversation only', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['keep', 'remove']);
+        const other = await createConversationWithMessages(['elsewhere']);
+
+        await conversationStore.softDeleteMessage({ tenantId: tenant, conversationId, messageId: messageIds[1], userId: owner });
+        await expect(
+          conversationStore.softDeleteMessage({ tenantId: tenant, conversationId, messageId: other.messageIds[0], userId: owner })
+        ).rejects.toThrow('Message not found for tenant conversation');
+
+        const messages = await conversationStore.getMessages({ tenantId: tenant, conversationId, userId: owner });
+        expect(messages).toHaveLength(2);
+        expect(messages[0].deletedAt).toBeUndefined();
+        expect(messages[1].deletedAt).toBeInstanceOf(Date);
+      });
+
+      it('pages through conversations with cursors, most recent activity first', async () => {
+        const ids: string[] = [];
+        for (let i = 0; i < 5; i++) {
+          const { conversationId } = await createConversationWithMessages([`message ${i}`]);
+          ids.push(conversationId);
+        }
+        await conversationStore.createConversation({ tenantId: otherTenant, userId: owner });
+
+        const seen: string[] = [];
+        let cursor: string | null = null;
+        let pages = 0;
+        do {
+          const page = await conversationStore.listConversations({ tenantId: tenant, userId: owner, limit: 2, cursor });
+          seen.push(...page.conversations.map(c => c.id));
+          expect(page.hasMore).toBe(page.nextCursor !== null);
+          cursor = page.nextCursor;
+          pages++;
+        } while (cursor);
+
+        expect(pages).toBe(3);
+        expect(seen).toEqual([...ids].reverse());
+      });
+
+      it('filters by archived state and only lets the owner archive or reshare', async () => {
+        const { conversationId: archivedId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const { conversationId: activeId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+
+        await expect(
+          conversationStore.setArchivedState({ tenantId: tenant, conversationId: archivedId, userId: otherUser, archived: true })
+        ).rejects.toThrow('User not authorised to update conversation');
+        await expect(
+          conversationStore.updateSharing({ tenantId: tenant, conversationId: archivedId, userId: otherUser, title: 'x' })
+        ).rejects.toThrow('User not authorised to update conversation');
+        await conversationStore.setArchivedState({ tenantId: tenant, conversationId: archivedId, userId: owner, archived: true });
+
+        const active = await conversationStore.listConversations({ tenantId: tenant, userId: owner, status: 'active' });
+        const archived = await conversationStore.listConversations({ tenantId: tenant, userId: owner, status: 'archived' });
+        const all = await conversationStore.listConversations({ tenantId: tenant, userId: owner, status: 'all' });
+
+        expect(active.conversations.map(c => c.id)).toEqual([activeId]);
+        expect(archived.conversations.map(c => c.id)).toEqual([archivedId]);
+        expect(all.conversations).toHaveLength(2);
+      });
+
+      it('keeps the title unless a new one is given when updating sharing', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner, title: 'Original' });
+
+        await conversationStore.updateSharing({ tenantId: tenant, conversationId, userId: owner, tenantAccess: 'edit' });
+        expect(await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: owner })).toMatchObject({
+          title: 'Original',
+          tenantAccess: 'edit',
+        });
+
+        await conversationStore.updateSharing({ tenantId: tenant, conversationId, userId: owner, title: null });
+        expect((await conversationStore.getConversation({ tenantId: tenant, conversationId, userId: owner }))?.title).toBeNull();
+      });
+
+      it('reports conversations with many live messages as compaction candidates', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['a', 'b', 'c']);
+        await createConversationWithMessages(['d']);
+
+        // Candidates are listed across tenants, so only this test's tenant is checked
+        const candidates = async () =>
+          (await conversationStore.getConversationsNeedingCompaction({ messageCountGt: 2 }, 100)).filter(
+            c => c.tenantId === tenant
+          );
+
+        expect(await candidates()).toEqual([expect.objectContaining({ id: conversationId, tenantId: tenant })]);
+
+        await conversationStore.softDeleteMessage({ tenantId: tenant, conversationId, messageId: messageIds[0], userId: owner });
+        expect(await candidates()).toEqual([]);
+      });
+    });
+
+    describe('conversation context', () => {
+      it('saves, loads and merges active node ids per tenant conversation', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const identity = { tenantId: tenant, conversationId };
+
+        expect(await contextStore.load(identity)).toBeNull();
+
+        await contextStore.save(identity, { activeNodeIds: ['A', 'B'], traceId: 'trace-1' });
+        await contextStore.mergeActiveNodeIds(identity, ['B', 'C'], { rootSpanName: 'chat' });
+
+        expect(await contextStore.load(identity)).toEqual({
+          activeNodeIds: ['A', 'B', 'C'],
+          traceId: 'trace-1',
+          rootSpanName: 'chat',
+          rootSpanId: null,
+        });
+        expect(await contextStore.load({ tenantId: otherTenant, conversationId })).toBeNull();
+      });
+
+      it('finds conversations by active node id with their owner', async () => {
+        const { conversationId } = await createConversationWithMessages(['What is the CGT rate?']);
+        await contextStore.save({ tenantId: tenant, conversationId }, { activeNodeIds: ['IE_CGT_RATE', 'IE_CGT'] });
+        const other = await conversationStore.createConversation({ tenantId: otherTenant, userId: owner });
+        await contextStore.save({ tenantId: otherTenant, conversationId: other.conversationId }, { activeNodeIds: ['IE_VAT'] });
+
+        // Matches are listed across tenants, so only this test's tenants are checked
+        const find = async (nodeIds: string[]) =>
+          (await contextStore.findByActiveNodeIds(nodeIds)).filter(
+            match => match.tenantId === tenant || match.tenantId === otherTenant
+          );
+
+        expect(await find(['IE_CGT_RATE', 'UK_CGT_RATE'])).toEqual([
+          { tenantId: tenant, conversationId, userId: owner, activeNodeIds: ['IE_CGT_RATE', 'IE_CGT'] },
+        ]);
+        expect(await find(['UK_CGT_RATE'])).toEqual([]);
+      });
+    });
+
+    describe('paths', () => {
+      it('branches from a message and inherits history up to the branch point', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1', 'a1', 'q2', 'a2']);
+        const primary = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId }))!;
+
+        const branch = await pathStore.branchFromMessage({
+          tenantId: tenant,
+          conversationId,
+          sourceMessageId: messageIds[1],
+          name: 'Alternative',
+        });
+        await conversationStore.appendMessage({
+          tenantId: tenant,
+          conversationId,
+          userId: owner,
+          role: 'user',
+          content: 'branch q',
+          pathId: branch.path.id,
+        });
+
+        const branchMessages = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: branch.path.id });
+        const mainMessages = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id });
+
+        expect(branch.path).toMatchObject({ parentPathId: primary.id, branchPointMessageId: messageIds[1], isPrimary: false });
+        expect(branch.branchPointMessage).toMatchObject({ id: messageIds[1], isBranchPoint: true, branchedToPaths: [branch.path.id] });
+        expect(branchMessages.map(m => m.content)).toEqual(['q1', 'a1', 'branch q']);
+        expect(branchMessages.map(m => m.effectiveSequence)).toEqual([1, 2, 3]);
+        expect(mainMessages.map(m => m.content)).toEqual(['q1', 'a1', 'q2', 'a2']);
+      });
+
+      it('resolves nested branches and reports ancestors, branch points and mergeable paths', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1', 'a1']);
+        const primary = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId }))!;
+        const child = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0] });
+        const { messageId: childMessageId } = await conversationStore.appendMessage({
+          tenantId: tenant, conversationId, userId: owner, role: 'assistant', content: 'child a1', pathId: child.path.id,
+        });
+        const grandchild = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: childMessageId });
+
+        const resolution = await pathStore.getFullPathResolution({ tenantId: tenant, pathId: grandchild.path.id });
+        const primaryResolution = await pathStore.getFullPathResolution({ tenantId: tenant, pathId: primary.id });
+
+        expect(resolution.messages.map(m => m.content)).toEqual(['q1', 'child a1']);
+        expect(resolution.ancestorPaths.map(p => p.id)).toEqual([primary.id, child.path.id]);
+        expect(resolution.branchPoints.map(b => b.sequenceInPath)).toEqual([1, 2]);
+        expect(primaryResolution.branchPoints[0].branchedPaths.map(p => p.id)).toEqual([child.path.id]);
+        expect(primaryResolution.mergeablePaths.map(p => p.id)).toEqual([child.path.id, grandchild.path.id]);
+        await expect(pathStore.getFullPathResolution({ tenantId: otherTenant, pathId: primary.id })).rejects.toThrow('Path not found');
+      });
+
+      it('lists paths primary first with message and branch counts', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1', 'a1']);
+        const branch = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0] });
+
+        const paths = await pathStore.listPaths({ tenantId: tenant, conversationId });
+        const roots = await pathStore.listPaths({ tenantId: tenant, conversationId, parentPathId: null });
+
+        expect(paths.map(p => p.id)).toEqual([paths[0].id, branch.path.id]);
+        expect(paths[0]).toMatchObject({ isPrimary: true, messageCount: 2, branchCount: 1 });
+        expect(paths[1]).toMatchObject({ messageCount: 0, branchCount: 0 });
+        expect(roots).toHaveLength(1);
+        expect(await pathStore.listPaths({ tenantId: otherTenant, conversationId })).toEqual([]);
+      });
+
+      it('rejects a second primary path and protects the primary path from deletion', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const primary = (await pathStore.ensurePrimaryPath({ tenantId: tenant, conversationId }))!;
+
+        await expect(pathStore.createPath({ tenantId: tenant, conversationId, isPrimary: true })).rejects.toThrow(
+          `Primary path already exists for conversation: ${conversationId} (pathId: ${primary.id})`
+        );
+        await expect(pathStore.deletePath({ tenantId: tenant, pathId: primary.id })).rejects.toThrow('Cannot delete primary path');
+        await expect(pathStore.deletePath({ tenantId: tenant, pathId: randomUUID() })).rejects.toThrow('Path not found');
+      });
+
+      it('archives paths on soft delete and removes them on hard delete', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const { pathId: archivedId } = await pathStore.createPath({ tenantId: tenant, conversationId, name: 'Archive me' });
+        const { pathId: deletedId } = await pathStore.createPath({ tenantId: tenant, conversationId, name: 'Delete me' });
+
+        await pathStore.deletePath({ tenantId: tenant, pathId: archivedId });
+        await pathStore.deletePath({ tenantId: tenant, pathId: deletedId, hardDelete: true });
+
+        expect(await pathStore.getPath({ tenantId: tenant, pathId: archivedId })).toMatchObject({ isActive: false });
+        expect(await pathStore.getPath({ tenantId: tenant, pathId: deletedId })).toBeNull();
+        expect((await pathStore.listPaths({ tenantId: tenant, conversationId })).map(p => p.name)).toEqual(['Main']);
+        expect(await pathStore.listPaths({ tenantId: tenant, conversationId, includeInactive: true })).toHaveLength(2);
+      });
+
+      it('updates path details', async () => {
+        const { conversationId } = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const { pathId } = await pathStore.createPath({ tenantId: tenant, conversationId, name: 'Draft' });
+
+        await pathStore.updatePath({ tenantId: tenant, pathId, name: 'Final', description: 'Reviewed' });
+
+        expect(await pathStore.getPath({ tenantId: tenant, pathId })).toMatchObject({ name: 'Final', description: 'Reviewed', isActive: true });
+      });
+
+      it('switches the active path and appends to it by default', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1']);
+        const other = await createConversationWithMessages(['q2']);
+        const branch = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0] });
+
+        await pathStore.setActivePath({ tenantId: tenant, conversationId, pathId: branch.path.id });
+        await conversationStore.appendMessage({ tenantId: tenant, conversationId, userId: owner, role: 'user', content: 'on branch' });
+
+        expect((await pathStore.getActivePath({ tenantId: tenant, conversationId }))?.id).toBe(branch.path.id);
+        expect((await pathStore.resolvePathMessages({ tenantId: tenant, pathId: branch.path.id })).map(m => m.content)).toEqual([
+          'q1',
+          'on branch',
+        ]);
+        await expect(
+          pathStore.setActivePath({ tenantId: tenant, conversationId: other.conversationId, pathId: branch.path.id })
+        ).rejects.toThrow('Path not found or does not belong to this conversation');
+      });
+
+      it('filters deleted messages and paginates resolved messages', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['one', 'two', 'three', 'four']);
+        const primary = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId }))!;
+        await conversationStore.softDeleteMessage({ tenantId: tenant, conversationId, messageId: messageIds[1], userId: owner });
+
+        const all = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id });
+        const live = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id, options: { includeDeleted: false } });
+        const page = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id, options: { offset: 1, limit: 2 } });
+
+        expect(all).toHaveLength(4);
+        expect(live.map(m => m.content)).toEqual(['one', 'three', 'four']);
+        expect(page.map(m => m.content)).toEqual(['two', 'three']);
+      });
+
+      it('merges a branch as a summary and archives the source', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1']);
+        const primary = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId }))!;
+        const branch = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0], name: 'PRSI' });
+        await conversationStore.appendMessage({
+          tenantId: tenant, conversationId, userId: owner, role: 'assistant', content: 'branch answer', pathId: branch.path.id,
+        });
+
+        const preview = await pathStore.previewMerge({
+          tenantId: tenant, sourcePathId: branch.path.id, targetPathId: primary.id, mergeMode: 'summary',
+        });
+        const result = await pathStore.mergePath({
+          tenantId: tenant, sourcePathId: branch.path.id, targetPathId: primary.id, mergeMode: 'summary', userId: owner,
+        });
+        const mainMessages = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id });
+
+        expect(preview.estimatedMessageCount).toBe(1);
+        expect(preview.generatedSummary).toBe('Summary of 1 messages from "PRSI":\n\n- branch answer...');
+        expect(result.sourcePath).toMatchObject({
+          mergedToPathId: primary.id,
+          mergeMode: 'summary',
+          mergeSummaryMessageId: result.summaryMessageId,
+          isActive: false,
+        });
+        expect(mainMessages[1]).toMatchObject({
+          id: result.summaryMessageId,
+          role: 'system',
+          messageType: 'merge_summary',
+          content: '**Merged from: PRSI**\n\n[assistant]: branch answer',
+        });
+        expect(mainMessages[1].metadata?.mergeSource).toMatchObject({ pathId: branch.path.id, pathName: 'PRSI', messageCount: 1 });
+      });
+
+      it('copies selected messages when merging selectively and can keep the source active', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1']);
+        const primary = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId }))!;
+        const branch = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0] });
+        const { messageId: keepId } = await conversationStore.appendMessage({
+          tenantId: tenant, conversationId, userId: owner, role: 'user', content: 'keep', pathId: branch.path.id,
+        });
+        await conversationStore.appendMessage({
+          tenantId: tenant, conversationId, userId: owner, role: 'assistant', content: 'skip', pathId: branch.path.id,
+        });
+
+        const result = await pathStore.mergePath({
+          tenantId: tenant,
+          sourcePathId: branch.path.id,
+          targetPathId: primary.id,
+          mergeMode: 'selective',
+          selectedMessageIds: [keepId],
+          archiveSource: false,
+        });
+        const mainMessages = await pathStore.resolvePathMessages({ tenantId: tenant, pathId: primary.id });
+
+        expect(result.mergedMessageIds).toHaveLength(1);
+        expect(result.sourcePath.isActive).toBe(true);
+        expect(mainMessages.map(m => m.content)).toEqual(['q1', 'keep']);
+        expect(mainMessages[1].metadata?.mergedFrom).toEqual({ pathId: branch.path.id, originalMessageId: keepId });
+        expect(mainMessages[1].sequenceInPath).toBe(2);
+      });
+
+      it('refuses to merge paths from different conversations', async () => {
+        const first = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const second = await conversationStore.createConversation({ tenantId: tenant, userId: owner });
+        const firstPath = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId: first.conversationId }))!;
+        const secondPath = (await pathStore.getPrimaryPath({ tenantId: tenant, conversationId: second.conversationId }))!;
+
+        await expect(
+          pathStore.mergePath({ tenantId: tenant, sourcePathId: firstPath.id, targetPathId: secondPath.id, mergeMode: 'full' })
+        ).rejects.toThrow('Cannot merge paths from different conversations');
+        await expect(
+          pathStore.mergePath({ tenantId: tenant, sourcePathId: randomUUID(), targetPathId: secondPath.id, mergeMode: 'full' })
+        ).rejects.toThrow('Source or target path not found');
+      });
+
+      it('pins and unpins messages, scoped to a path when requested', async () => {
+        const { conversationId, messageIds } = await createConversationWithMessages(['q1', 'a1', 'q2']);
+        const branch = await pathStore.branchFromMessage({ tenantId: tenant, conversationId, sourceMessageId: messageIds[0] });
+
+        await pathStore.pinMessage({ tenantId: tenant, conversationId, messageId: messageIds[0], userId: owner });
+        await pathStore.pinMessage({ tenantId: tenant, conversationId, messageId: messageIds[2], userId: owner });
+
+        const pinned = await pathStore.getPinnedMessages({ tenantId: tenant, conversationId });
+        expect(pinned.map(m => m.content)).toEqual(['q1', 'q2']);
+        expect(pinned[0]).toMatchObject({ isPinned: true, pinnedBy: owner });
+        expect(await pathStore.getPinnedMessageCount({ tenantId: tenant, conversationId, pathId: branch.path.id })).toBe(1);
+
+        await pathStore.unpinMessage({ tenantId: tenant, conversationId, messageId: messageIds[0] });
+        expect(await pathStore.getPinnedMessageCount({ tenantId: tenant, conversationId })).toBe(1);
+        await expect(
+          pathStore.pinMessage({ tenantId: otherTenant, conversationId, messageId: messageIds[0], userId: owner })
+        ).rejects.toThrow('Message not found for tenant conversation');
+      });
+    });
+
+    describe('config', () => {
+      it('layers user over tenant over the shared defaults', async () => {
+        const shared = await configStore.getConfig({ tenantId: tenant });
+        expect(shared.configLevel).toBe('global');
+
+        await configStore.setTenantConfig({ tenantId: tenant, config: { mergeMaxMessages: 20 } });
+        await configStore.setUserConfig({
+          tenantId: tenant,
+          userId: owner,
+          config: { pathCompressionStrategy: 'semantic', mergeMaxMessages: 10 },
+        });
+
+        expect(await configStore.getConfig({ tenantId: tenant, userId: owner })).toMatchObject({
+          mergeMaxMessages: 10,
+          pathCompressionStrategy: 'semantic',
+          configLevel: 'user',
+          configScope: owner,
+        });
+        expect(await configStore.getConfig({ tenantId: tenant, userId: otherUser })).toMatchObject({
+          mergeMaxMessages: 20,
+          pathCompressionStrategy: shared.pathCompressionStrategy,
+          configLevel: 'tenant',
+        });
+        expect(await configStore.getConfig({ tenantId: otherTenant })).toMatchObject({
+          mergeMaxMessages: shared.mergeMaxMessages,
+          configLevel: 'global',
+        });
+      });
+
+      it.skipIf(options.sharedGlobalConfig ?? false)('applies global config over the defaults and beneath tenant config', async () => {
+        const admin = randomUUID();
+        expect(await configStore.getConfig({ tenantId: tenant })).toMatchObject(DEFAULT_CONFIG);
+
+        await configStore.setGlobalConfig({ pathMaxMessages: 300 }, admin);
+        await configStore.setTenantConfig({ tenantId: tenant, config: { mergeMaxMessages: 20 } });
+
+        expect(await configStore.getConfig({ tenantId: tenant })).toMatchObject({
+          pathMaxMessages: 300,
+          mergeMaxMessages: 20,
+          configLevel: 'tenant',
+        });
+        expect(await configStore.getConfig({ tenantId: otherTenant })).toMatchObject({
+          pathMaxMessages: 300,
+          mergeMaxMessages: DEFAULT_CONFIG.mergeMaxMessages,
+          configLevel: 'global',
+          updatedBy: admin,
+        });
+      });
+
+      it('falls back after tenant and user config are deleted', async () => {
+        await configStore.setTenantConfig({ tenantId: tenant, config: { autoCompactEnabled: false } });
+        await configStore.setUserConfig({ tenantId: tenant, userId: owner, config: { compactionIntervalMinutes: 5 } });
+
+        await configStore.deleteUserConfig({ tenantId: tenant, userId: owner });
+        expect(await configStore.getConfig({ tenantId: tenant, userId: owner })).toMatchObject({
+          autoCompactEnabled: false,
+          compactionIntervalMinutes: DEFAULT_CONFIG.compactionIntervalMinutes,
+        });
+
+        await configStore.deleteTenantConfig(tenant);
+        expect((await configStore.getConfig({ tenantId: tenant, userId: owner })).autoCompactEnabled).toBe(true);
+      });
+
+      it('requires a user id for user-level config', async () => {
+        await expect(configStore.setUserConfig({ tenantId: tenant, config: {} })).rejects.toThrow(
+          'userId required for user-level config'
+        );
+      });
+    });
+  });
+}
+
+describeConversationStoreContract('memory', () => createStateStores(createInMemoryConversationState()));
+
+const stateDir = mkdtempSync(join(tmpdir(), 'conversation-state-'));
+let stateFileCount = 0;
+
+afterAll(() => {
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+describeConversationStoreContract('file', () =>
+  createStateStores(createFileBackedConversationState(join(stateDir, `state-${++stateFileCount}.json`)))
+);
+
+const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+
+function createSupabaseClients() {
+  const auth = { autoRefreshToken: false, persistSession: false };
+  return {
+    client: createClient(supabaseUrl!, supabaseKey!, { auth }),
+    internalClient: createClient(supabaseUrl!, supabaseKey!, { auth, db: { schema: 'copilot_core' } }),
+  };
+}
+
+describeConversationStoreContract(
+  'supabase',
+  () => {
+    const { client, internalClient } = createSupabaseClients();
+    return {
+      conversationStore: new SupabaseConversationStore(client, internalClient),
+      pathStore: new SupabaseConversationPathStore(client, internalClient),
+      contextStore: new SupabaseConversationContextStore(client, internalClient),
+      configStore: new SupabaseConversationConfigStore(internalClient),
+    };
+  },
+  {
+    skip: !supabaseUrl || !supabaseKey,
+    sharedGlobalConfig: true,
+    cleanup: async tenantIds => {
+      // Messages, paths and contexts cascade from their conversation
+      const { internalClient } = createSupabaseClients();
+      await internalClient.from('conversations').delete().in('tenant_id', tenantIds);
+      await internalClient.from('conversation_configs').delete().in('tenant_id', tenantIds);
+    },
+  }
+);
+
+const TENANT = 'tenant-1';
+const OWNER = 'user-1';
+
+describe('file-backed conversation state', () => {
+  it('reloads conversations, branches and config from disk', async () => {
+    const filePath = join(stateDir, 'reload.json');
+    const first = createFileBackedConversationState(filePath);
+    const conversationStore = new InMemoryConversationStore(first);
+    const pathStore = new InMemoryConversationPathStore(first);
+
+    const { conversationId } = await conversationStore.createConversation({ tenantId: TENANT, userId: OWNER, title: 'Saved' });
+    const { messageId } = await conversationStore.appendMessage({ tenantId: TENANT, conversationId, userId: OWNER, role: 'user', content: 'q1' });
+    const branch = await pathStore.branchFromMessage({ tenantId: TENANT, conversationId, sourceMessageId: messageId });
+    await new InMemoryConversationConfigStore(first).setTenantConfig({ tenantId: TENANT, config: { pathMaxMessages: 42 } });
+
+    const reloaded = createFileBackedConversationState(filePath);
+    const reloadedConversations = new InMemoryConversationStore(reloaded);
+    const reloadedPaths = new InMemoryConversationPathStore(reloaded);
+
+    const record = await reloadedConversations.getConversation({ tenantId: TENANT, conversationId, userId: OWNER });
+    expect(record?.title).toBe('Saved');
+    expect(record?.createdAt).toBeInstanceOf(Date);
+    expect((await reloadedPaths.getPath({ tenantId: TENANT, pathId: branch.path.id }))?.branchPointMessageId).toBe(messageId);
+    expect((await new InMemoryConversationConfigStore(reloaded).getConfig({ tenantId: TENANT })).pathMaxMessages).toBe(42);
+
+    const { messageId: nextId } = await reloadedConversations.appendMessage({
+      tenantId: TENANT, conversationId, userId: OWNER, role: 'assistant', content: 'a1',
+    });
+    const messages = await reloadedConversations.getMessages({ tenantId: TENANT, conversationId, userId: OWNER });
+    expect(messages.map(m => m.id)).toEqual([messageId, nextId]);
+  });
+});
@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ChangeImpactAlertService,
+  ConversationListImpactNotifier,
+  SupabaseChangeImpactAlertLedger,
+  SupabaseChangeImpactNotifier,
+  type ChangeImpactAlert,
+  type ChangeImpactAlertLedger,
+  type ChangeImpactGraphPatch,
+} from './changeImpactAlerts.js';
+import { InMemoryConversationContextStore, InMemoryConversationStore } from './conversationStores.js';
+import { createInMemoryConversationState } from './inMemoryConversationState.js';
+
+const TENANT = 'tenant-1';
+const OWNER = 'user-1';
+
+function patch(nodes: Partial<ChangeImpactGraphPatch['nodes']>): ChangeImpactGraphPatch {
+  return {
+    timestamp: '2026-01-05T10:00:00.000Z',
+    nodes: { updated: nodes.updated ?? [], removed: nodes.removed ?? [] },
+  };
+}
+
+describe('ChangeImpactAlertService', () => {
+  let conversationStore: InMemoryConversationStore;
+  let contextStore: InMemoryConversationContextStore;
+  let sent: ChangeImpactAlert[];
+  let service: ChangeImpactAlertService;
+
+  beforeEach(() => {
+    const state = createInMemoryConversationState();
+    conversationStore = new InMemoryConversationStore(state);
+    contextStore = new InMemoryConversationContextStore(state);
+    sent = [];
+    service = new ChangeImpactAlertService({
+      contextStore,
+      conversationStore,
+      notifiers: [{ notify: async alert => void sent.push(alert) }],
+    });
+  });
+
+  async function createAnsweredConversation(referencedNodes: string[], title = 'CGT on shares') {
+    const { conversationId } = await conversationStore.createConversation({ tenantId: TENANT, userId: OWNER, title });
+    await conversationStore.appendMessage({ tenantId: TENANT, conversationId, userId: OWNER, role: 'user', content: 'What rate applies?' });
+    const { messageId } = await conversationStore.appendMessage({
+      tenantId: TENANT,
+      conversationId,
+      role: 'assistant',
+      content: 'The rate is 33%.',
+      metadata: { referencedNodes },
+    });
+    await contextStore.save({ tenantId: TENANT, conversationId }, { activeNodeIds: referencedNodes });
+    return { conversationId, messageId };
+  }
+
+  it('alerts the owner of a conversation whose answer cited a changed rate', async () => {
+    const { conversationId, messageId } = await createAnsweredConversation(['IE_CGT_RATE', 'IE_CGT']);
+    await createAnsweredConversation(['IE_VAT_RATE'], 'VAT');
+
+    const alerts = await service.handlePatch(
+      patch({ updated: [{ id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate' }] })
+    );
+
+    expect(alerts).toHaveLength(1);
+    expect(sent).toEqual(alerts);
+    expect(alerts[0]).toMatchObject({
+      tenantId: TENANT,
+      userId: OWNER,
+      conversationId,
+      messageId,
+      title: 'Regulatory change may affect "CGT on shares"',
+      priority: 'MEDIUM',
+      actionUrl: `/?conversationId=${conversationId}#message-${messageId}`,
+      changes: [{ id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate', change: 'updated' }],
+    });
+    expect(alerts[0].message).toContain('CGT standard rate (Rate) was updated');
+  });
+
+  it('ignores changes to node types that do not affect answers', async () => {
+    await createAnsweredConversation(['IE_CGT_RATE', 'IE']);
+
+    const alerts = await service.handlePatch(patch({ updated: [{ id: 'IE', label: 'Ireland', type: 'Jurisdiction' }] }));
+
+    expect(alerts).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it('raises high priority alerts for removed nodes and skips archived conversations', async () => {
+    const { conversationId } = await createAnsweredConversation(['IE_CGT_RELIEF']);
+    const archived = await createAnsweredConversation(['IE_CGT_RELIEF'], 'Old question');
+    await conversationStore.setArchivedState({
+      tenantId: TENANT,
+      conversationId: archived.conversationId,
+      userId: OWNER,
+      archived: true,
+    });
+
+    const alerts = await service.handlePatch(patch({ removed: ['IE_CGT_RELIEF'] }));
+
+    expect(alerts.map(alert => alert.conversationId)).toEqual([conversationId]);
+    expect(alerts[0].priority).toBe('HIGH');
+    expect(alerts[0].changes).toEqual([{ id: 'IE_CGT_RELIEF', label: 'IE_CGT_RELIEF', type: null, change: 'removed' }]);
+  });
+
+  it('matches conversations that still hold the id of a concept merged into the changed node', async () => {
+    const { conversationId, messageId } = await createAnsweredConversation(['IE_CGT_RELIEF_OLD']);
+    const graphReader = {
+      executeCypher: vi.fn().mockResolvedValue([{ aliasId: 'IE_CGT_RELIEF_OLD', id: 'IE_CGT_RELIEF' }]),
+    };
+    service = new ChangeImpactAlertService({
+      contextStore,
+      conversationStore,
+      notifiers: [{ notify: async alert => void sent.push(alert) }],
+      graphReader,
+    });
+
+    const alerts = await service.handlePatch(
+      patch({ updated: [{ id: 'IE_CGT_RELIEF', label: 'CGT retirement relief', type: 'Relief' }] })
+    );
+
+    expect(graphReader.executeCypher).toHaveBeenCalledWith(expect.stringContaining('MERGED_INTO'), {
+      ids: ['IE_CGT_RELIEF'],
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ conversationId, messageId });
+    expect(alerts[0].changes.map(change => change.id)).toEqual(['IE_CGT_RELIEF']);
+  });
+
+  it('alerts once when several instances see the same change', async () => {
+    await createAnsweredConversation(['IE_CGT_RATE']);
+    const claims = new Set<string>();
+    const ledger: ChangeImpactAlertLedger = {
+      claim: async ({ conversationId, changeKeys }) =>
+        changeKeys.filter(key => !claims.has(`${conversationId}:${key}`) && claims.add(`${conversationId}:${key}`)),
+    };
+    const instances = [1, 2].map(
+      () =>
+        new ChangeImpactAlertService({
+          contextStore,
+          conversationStore,
+          notifiers: [{ notify: async alert => void sent.push(alert) }],
+          ledger,
+        })
+    );
+    const rate = { id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate', properties: { value: 0.33 } };
+
+    await instances[0].handlePatch(patch({ updated: [rate] }));
+    await instances[1].handlePatch({ ...patch({ updated: [rate] }), timestamp: '2026-01-05T10:00:07.000Z' });
+    expect(sent).toHaveLength(1);
+
+    // A later change to the same node is a new event
+    await instances[1].handlePatch(patch({ updated: [{ ...rate, properties: { value: 0.35 } }] }));
+    expect(sent).toHaveLength(2);
+  });
+
+  it('skips conversations whose changes could not be claimed', async () => {
+    await createAnsweredConversation(['IE_CGT_RATE']);
+    service = new ChangeImpactAlertService({
+      contextStore,
+      conversationStore,
+      notifiers: [{ notify: async alert => void sent.push(alert) }],
+      ledger: { claim: vi.fn().mockRejectedValue(new Error('database down')) },
+    });
+
+    const alerts = await service.handlePatch(
+      patch({ updated: [{ id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate' }] })
+    );
+
+    expect(alerts).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it('keeps delivering when one notifier fails', async () => {
+    await createAnsweredConversation(['IE_CGT_RATE']);
+    const failing = { notify: vi.fn().mockRejectedValue(new Error('inbox down')) };
+    const delivered: ChangeImpactAlert[] = [];
+    service = new ChangeImpactAlertService({
+      contextStore,
+      conversationStore,
+      notifiers: [failing, { notify: async alert => void delivered.push(alert) }],
+    });
+
+    await service.handlePatch(patch({ updated: [{ id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate' }] }));
+
+    expect(failing.notify).toHaveBeenCalledTimes(1);
+    expect(delivered).toHaveLength(1);
+  });
+});
+
+describe('change impact notifiers', () => {
+  const alert = {
+    id: 'alert-1',
+    tenantId: TENANT,
+    userId: OWNER,
+    conversationId: 'conv-1',
+    conversationTitle: 'CGT on shares',
+    messageId: 'msg-2',
+    changes: [{ id: 'IE_CGT_RATE', label: 'CGT standard rate', type: 'Rate', change: 'updated' as const }],
+    title: 'Regulatory change may affect "CGT on shares"',
+    message: 'CGT standard rate (Rate) was updated.',
+    priority: 'MEDIUM' as const,
+    actionUrl: '/?conversationId=conv-1#message-msg-2',
+    changedAt: '2026-01-05T10:00:00.000Z',
+    createdAt: '2026-01-05T10:00:01.000Z',
+  };
+
+  it('broadcasts alerts on the tenant conversation list channel', async () => {
+    const hub = { broadcast: vi.fn() };
+
+    await new ConversationListImpactNotifier(hub).notify(alert);
+
+    expect(hub.broadcast).toHaveBeenCalledWith(TENANT, 'impact_alert', { alert });
+  });
+
+  it('stores alerts as compliance notifications for the conversation owner', async () => {
+    const rpc = vi.fn().mockResolvedValue({ data: 'notification-1', error: null });
+    const notifier = new SupabaseChangeImpactNotifier({ from: vi.fn(), rpc });
+
+    await notifier.notify(alert);
+    await notifier.notify({ ...alert, userId: null });
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'create_notification',
+      expect.objectContaining({
+        p_user_id: OWNER,
+        p_tenant_id: TENANT,
+        p_type: 'COMPLIANCE_ALERT',
+        p_action_url: '/?conversationId=conv-1#message-msg-2',
+      })
+    );
+  });
+});
+
+describe('SupabaseChangeImpactAlertLedger', () => {
+  it('returns only the change keys it inserted', async () => {
+    const select = vi.fn().mockResolvedValue({ data: [{ change_key: 'removed:IE_CGT_RELIEF' }], error: null });
+    const upsert = vi.fn(() => ({ select }));
+    const from = vi.fn(() => ({ upsert }));
+
+    const claimed = await new SupabaseChangeImpactAlertLedger({ from }).claim({
+      tenantId: TENANT,
+      conversationId: 'conv-1',
+      changeKeys: ['updated:IE_CGT_RATE:abc', 'removed:IE_CGT_RELIEF'],
+    });
+
+    expect(claimed).toEqual(['removed:IE_CGT_RELIEF']);
+    expect(from).toHaveBeenCalledWith('change_impact_alert_claims');
+    expect(upsert).toHaveBeenCalledWith(
+      [
+        { tenant_id: TENANT, conversation_id: 'conv-1', change_key: 'updated:IE_CGT_RATE:abc' },
+        { tenant_id: TENANT, conversation_id: 'conv-1', change_key: 'removed:IE_CGT_RELIEF' },
+      ],
+      { onConflict: 'conversation_id,change_key', ignoreDuplicates: true }
+    );
+  });
+});
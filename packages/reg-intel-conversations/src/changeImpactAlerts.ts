@@ -0,0 +1,464 @@
+/**
+ * Change Impact Alerts
+ *
+ * Watches graph patches from the GraphChangeDetector and tells users when a
+ * rate, threshold or rule behind one of their saved answers has changed.
+ *
+ * Affected conversations are found through the active node ids kept in each
+ * conversation context, including the old ids of concepts merged into a
+ * changed node. For every affected conversation the most recent
+ * assistant message that referenced a changed node is located, and an alert
+ * linking back to that message is handed to the configured notifiers.
+ *
+ * Every instance of the app watches the graph, so each one sees the same
+ * change. With a ledger configured, a change is claimed per conversation
+ * before alerting and only the instance that claims it sends the alert.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { ConversationContextStore, GraphClient } from '@reg-copilot/reg-intel-core';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { ConversationStore, SupabaseLikeClient } from './conversationStores.js';
+import type { ConversationListEventType } from './eventHub.js';
+import type { ConversationListImpactAlertPayload } from './sseTypes.js';
+
+const logger = createLogger('ChangeImpactAlertService');
+
+/**
+ * Node types whose changes can make an earlier answer wrong
+ */
+export const DEFAULT_IMPACT_NODE_TYPES = [
+  'Rate',
+  'Threshold',
+  'Condition',
+  'Section',
+  'Benefit',
+  'Relief',
+  'TaxCredit',
+  'Obligation',
+  'Penalty',
+  'MeansTest',
+  'BenefitCap',
+  'CoordinationRule',
+  'Timeline',
+];
+
+/** Database limits of copilot_core.notifications */
+const MAX_TITLE_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * The parts of a GraphPatch the service reads
+ */
+export interface ChangeImpactGraphPatch {
+  timestamp: string;
+  nodes: {
+    updated: Array<{ id: string; label: string; type: string; properties?: Record<string, unknown> }>;
+    removed: string[];
+  };
+}
+
+/**
+ * Anything that can be subscribed to for graph patches (GraphChangeDetector)
+ */
+export interface ChangeImpactGraphChangeSource<Filter = Record<string, never>> {
+  subscribe(
+    filter: Filter,
+    callback: (patch: ChangeImpactGraphPatch) => void
+  ): { unsubscribe: () => void };
+}
+
+export interface ChangedNode {
+  id: string;
+  /** Node label; the id for removed nodes, whose label is no longer known */
+  label: string;
+  type: string | null;
+  change: 'updated' | 'removed';
+}
+
+export interface ChangeImpactAlert {
+  id: string;
+  tenantId: string;
+  /** Owner of the conversation, when it has one */
+  userId: string | null;
+  conversationId: string;
+  conversationTitle: string | null;
+  /** Assistant message that relied on the changed nodes, if it could be found */
+  messageId: string | null;
+  changes: ChangedNode[];
+  title: string;
+  message: string;
+  priority: 'HIGH' | 'MEDIUM';
+  actionUrl: string;
+  /** Timestamp of the graph patch */
+  changedAt: string;
+  createdAt: string;
+}
+
+/**
+ * Delivers alerts to users (SSE, notification inbox, email, ...)
+ */
+export interface ChangeImpactNotifier {
+  notify(alert: ChangeImpactAlert): Promise<void>;
+}
+
+/**
+ * Records which changes each conversation was alerted about. Keys are
+ * derived from the node and its new properties, so every instance that
+ * observes a change derives the same key.
+ */
+export interface ChangeImpactAlertLedger {
+  /** Claim change keys for a conversation; resolves to the keys nobody had claimed yet */
+  claim(input: { tenantId: string; conversationId: string; changeKeys: string[] }): Promise<string[]>;
+}
+
+/**
+ * Graph reads used to follow MERGED_INTO redirects; BoltGraphClient satisfies this
+ */
+export type ChangeImpactGraphReader = Pick<GraphClient, 'executeCypher'>;
+
+export interface ChangeImpactAlertServiceOptions {
+  contextStore: ConversationContextStore;
+  conversationStore: ConversationStore;
+  notifiers: ChangeImpactNotifier[];
+  /** Sends each change to a conversation once across instances; without it every patch seen is alerted */
+  ledger?: ChangeImpactAlertLedger;
+  /** Matches conversations that still hold the ids of merged concepts; without it only current ids match */
+  graphReader?: ChangeImpactGraphReader;
+  /** Node types that trigger alerts when updated (default: DEFAULT_IMPACT_NODE_TYPES). Removals always do. */
+  nodeTypes?: string[];
+  /** Link back to the affected answer (default: `/?conversationId=<id>#message-<id>`) */
+  buildActionUrl?: (input: { conversationId: string; messageId: string | null }) => string;
+}
+
+export function defaultChangeImpactActionUrl(input: { conversationId: string; messageId: string | null }): string {
+  const base = `/?conversationId=${encodeURIComponent(input.conversationId)}`;
+  return input.messageId ? `${base}#message-${input.messageId}` : base;
+}
+
+/**
+ * Updated nodes of an alerting type plus all removed nodes
+ */
+export function collectImpactingChanges(patch: ChangeImpactGraphPatch, nodeTypes: Set<string>): ChangedNode[] {
+  return collectKeyedChanges(patch, nodeTypes).map(({ change }) => change);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Impacting changes with the ledger key of each. Updates are keyed by the
+ * node's new properties, removals by the node id alone.
+ */
+function collectKeyedChanges(
+  patch: ChangeImpactGraphPatch,
+  nodeTypes: Set<string>
+): Array<{ change: ChangedNode; key: string }> {
+  const changes: Array<{ change: ChangedNode; key: string }> = patch.nodes.updated
+    .filter(node => nodeTypes.has(node.type))
+    .map(node => ({
+      change: { id: node.id, label: node.label, type: node.type, change: 'updated' },
+      key: `updated:${node.id}:${createHash('sha256')
+        .update(stableStringify(node.properties ?? {}))
+        .digest('hex')
+        .slice(0, 32)}`,
+    }));
+  for (const id of patch.nodes.removed) {
+    changes.push({ change: { id, label: id, type: null, change: 'removed' }, key: `removed:${id}` });
+  }
+  return changes;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
+
+function describeChange(change: ChangedNode): string {
+  const name = change.type ? `${change.label} (${change.type})` : change.label;
+  return change.change === 'removed' ? `${name} was removed` : `${name} was updated`;
+}
+
+const MERGED_ALIASES_QUERY = `
+  MATCH (alias)-[:MERGED_INTO]->(n)
+  WHERE n.id IN $ids
+  RETURN alias.id AS aliasId, n.id AS id
+`;
+
+function referencedNodeIds(metadata: Record<string, unknown> | undefined): string[] {
+  const ids = metadata?.referencedNodes;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+}
+
+export class ChangeImpactAlertService {
+  private readonly nodeTypes: Set<string>;
+  private readonly buildActionUrl: NonNullable<ChangeImpactAlertServiceOptions['buildActionUrl']>;
+
+  constructor(private readonly options: ChangeImpactAlertServiceOptions) {
+    this.nodeTypes = new Set(options.nodeTypes ?? DEFAULT_IMPACT_NODE_TYPES);
+    this.buildActionUrl = options.buildActionUrl ?? defaultChangeImpactActionUrl;
+  }
+
+  /**
+   * Raise alerts for every patch the source emits for the filter
+   */
+  subscribeToGraphChanges<Filter>(
+    source: ChangeImpactGraphChangeSource<Filter>,
+    filter: Filter
+  ): { unsubscribe: () => void } {
+    return source.subscribe(filter, patch => {
+      this.handlePatch(patch).catch(error => {
+        logger.warn({ error }, 'Failed to raise change impact alerts');
+      });
+    });
+  }
+
+  /**
+   * Raise alerts for one patch. Returns the alerts that were sent.
+   */
+  async handlePatch(patch: ChangeImpactGraphPatch): Promise<ChangeImpactAlert[]> {
+    const keyedChanges = collectKeyedChanges(patch, this.nodeTypes);
+    const changes = keyedChanges.map(({ change }) => change);
+    if (changes.length === 0) {
+      return [];
+    }
+
+    if (!this.options.contextStore.findByActiveNodeIds) {
+      logger.warn('Conversation context store cannot look up conversations by node; skipping change impact alerts');
+      return [];
+    }
+
+    const changedIds = changes.map(change => change.id);
+    const aliases = await this.findMergedAliases(changedIds);
+    const affected = await this.options.contextStore.findByActiveNodeIds([...changedIds, ...aliases.keys()]);
+    const alerts: ChangeImpactAlert[] = [];
+
+    for (const conversation of affected) {
+      const active = new Set(conversation.activeNodeIds.map(id => aliases.get(id) ?? id));
+      const claimed = await this.claimChanges(
+        conversation,
+        keyedChanges.filter(({ change }) => active.has(change.id))
+      );
+      const alert = await this.buildAlert(conversation, claimed, patch.timestamp, aliases);
+      if (!alert) continue;
+
+      await this.notify(alert);
+      alerts.push(alert);
+    }
+
+    logger.info(
+      { changedNodes: changes.length, affectedConversations: affected.length, alerts: alerts.length },
+      'Processed graph patch for change impact alerts'
+    );
+    return alerts;
+  }
+
+  /**
+   * The changes this instance should alert the conversation about. Claim
+   * failures skip the conversation rather than risk duplicate alerts.
+   */
+  private async claimChanges(
+    identity: { tenantId: string; conversationId: string },
+    keyedChanges: Array<{ change: ChangedNode; key: string }>
+  ): Promise<ChangedNode[]> {
+    if (!this.options.ledger || keyedChanges.length === 0) {
+      return keyedChanges.map(({ change }) => change);
+    }
+
+    try {
+      const claimed = new Set(
+        await this.options.ledger.claim({
+          tenantId: identity.tenantId,
+          conversationId: identity.conversationId,
+          changeKeys: keyedChanges.map(({ key }) => key),
+        })
+      );
+      return keyedChanges.filter(({ key }) => claimed.has(key)).map(({ change }) => change);
+    } catch (error) {
+      logger.warn(
+        { error, conversationId: identity.conversationId, tenantId: identity.tenantId },
+        'Failed to claim change impact alert'
+      );
+      return [];
+    }
+  }
+
+  private async buildAlert(
+    identity: { tenantId: string; conversationId: string; userId?: string | null },
+    changes: ChangedNode[],
+    changedAt: string,
+    aliases: Map<string, string>
+  ): Promise<ChangeImpactAlert | null> {
+    if (changes.length === 0) return null;
+
+    const userId = identity.userId ?? null;
+    const conversation = await this.options.conversationStore.getConversation({
+      tenantId: identity.tenantId,
+      conversationId: identity.conversationId,
+      userId,
+    });
+    if (!conversation || conversation.archivedAt) {
+      return null;
+    }
+
+    const changedIds = new Set(changes.map(change => change.id));
+    const messages = await this.options.conversationStore.getMessages({
+      tenantId: identity.tenantId,
+      conversationId: identity.conversationId,
+      userId,
+    });
+    const answer = messages
+      .filter(message => message.role === 'assistant' && !message.deletedAt)
+      .reverse()
+      .find(message => referencedNodeIds(message.metadata).some(id => changedIds.has(aliases.get(id) ?? id)));
+
+    const conversationTitle = conversation.title ?? null;
+    const answerDate = answer ? ` from ${answer.createdAt.toISOString().slice(0, 10)}` : '';
+    const messageId = answer?.id ?? null;
+
+    return {
+      id: randomUUID(),
+      tenantId: identity.tenantId,
+      userId,
+      conversationId: identity.conversationId,
+      conversationTitle,
+      messageId,
+      changes,
+      title: truncate(`Regulatory change may affect "${conversationTitle ?? 'Untitled conversation'}"`, MAX_TITLE_LENGTH),
+      message: truncate(
+        `${changes.map(describeChange).join('; ')}. The answer${answerDate} relied on ${
+          changes.length === 1 ? 'this rule' : 'these rules'
+        } and may now be out of date.`,
+        MAX_MESSAGE_LENGTH
+      ),
+      priority: changes.some(change => change.change === 'removed') ? 'HIGH' : 'MEDIUM',
+      actionUrl: this.buildActionUrl({ conversationId: identity.conversationId, messageId }),
+      changedAt,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Old ids of concepts merged into the changed nodes, mapped to the node
+   * they now resolve to. Lookup failures only cost the alerts for old ids.
+   */
+  private async findMergedAliases(nodeIds: string[]): Promise<Map<string, string>> {
+    const aliases = new Map<string, string>();
+    if (!this.options.graphReader) {
+      return aliases;
+    }
+
+    try {
+      const rows = await this.options.graphReader.executeCypher(MERGED_ALIASES_QUERY, { ids: nodeIds });
+      for (const row of Array.isArray(rows) ? (rows as Array<Record<string, unknown>>) : []) {
+        if (typeof row.aliasId === 'string' && typeof row.id === 'string') {
+          aliases.set(row.aliasId, row.id);
+        }
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Failed to look up merged concept ids for change impact alerts');
+    }
+    return aliases;
+  }
+
+  private async notify(alert: ChangeImpactAlert): Promise<void> {
+    const results = await Promise.allSettled(this.options.notifiers.map(notifier => notifier.notify(alert)));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.warn(
+          { error: result.reason, conversationId: alert.conversationId, tenantId: alert.tenantId },
+          'Failed to deliver change impact alert'
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Sends alerts as `impact_alert` events on the tenant's conversation list
+ * stream. Stream routes should forward them only to the alert's user.
+ */
+export class ConversationListImpactNotifier implements ChangeImpactNotifier {
+  constructor(
+    private readonly hub: { broadcast(tenantId: string, event: ConversationListEventType, data: unknown): void }
+  ) {}
+
+  async notify(alert: ChangeImpactAlert): Promise<void> {
+    const payload: ConversationListImpactAlertPayload = { alert };
+    this.hub.broadcast(alert.tenantId, 'impact_alert', payload);
+  }
+}
+
+/**
+ * Stores alerts as COMPLIANCE_ALERT rows in copilot_core.notifications.
+ * Conversations without an owner are skipped.
+ */
+export class SupabaseChangeImpactNotifier implements ChangeImpactNotifier {
+  constructor(private readonly client: SupabaseLikeClient) {}
+
+  async notify(alert: ChangeImpactAlert): Promise<void> {
+    if (!alert.userId) return;
+    if (!this.client.rpc) {
+      throw new Error('Supabase client does not support rpc; cannot create notifications');
+    }
+
+    const { error } = await this.client.rpc('create_notification', {
+      p_user_id: alert.userId,
+      p_tenant_id: alert.tenantId,
+      p_type: 'COMPLIANCE_ALERT',
+      p_title: alert.title,
+      p_message: alert.message,
+      p_priority: alert.priority,
+      p_action_url: alert.actionUrl,
+      p_metadata: {
+        source: 'change_impact',
+        conversationId: alert.conversationId,
+        messageId: alert.messageId,
+        nodeIds: alert.changes.map(change => change.id),
+        changedAt: alert.changedAt,
+      },
+    });
+
+    if (error) {
+      throw new Error(`Failed to create change impact notification: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Claims changes in copilot_core.change_impact_alert_claims, whose primary
+ * key on (conversation_id, change_key) lets only one instance insert a claim.
+ */
+export class SupabaseChangeImpactAlertLedger implements ChangeImpactAlertLedger {
+  constructor(private readonly client: SupabaseLikeClient) {}
+
+  async claim(input: { tenantId: string; conversationId: string; changeKeys: string[] }): Promise<string[]> {
+    if (input.changeKeys.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('change_impact_alert_claims')
+      .upsert(
+        input.changeKeys.map(changeKey => ({
+          tenant_id: input.tenantId,
+          conversation_id: input.conversationId,
+          change_key: changeKey,
+        })),
+        { onConflict: 'conversation_id,change_key', ignoreDuplicates: true }
+      )
+      .select('change_key');
+
+    if (error) {
+      throw new Error(`Failed to claim change impact alerts: ${error.message}`);
+    }
+
+    // Rows that already existed are not returned
+    return ((data as Array<{ change_key: string }> | null) ?? []).map(row => row.change_key);
+  }
+}
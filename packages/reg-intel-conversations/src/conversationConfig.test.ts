@@ -12,6 +12,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   SupabaseConversationConfigStore,
   CachingConversationConfigStore,
+  InMemoryConversationConfigStore,
   createConversationConfigStore,
   type ConversationConfig,
 } from './conversationConfig.js';
@@ -445,6 +446,15 @@ describe('createConversationConfigStore Factory', () => {
     );
   });
 
+  it('should create InMemoryConversationConfigStore for the memory backend', async () => {
+    const store = createConversationConfigStore({ backend: 'memory' });
+
+    await store.setTenantConfig({ tenantId: 'tenant-1', config: { pathMaxMessages: 25 } });
+
+    expect(store).toBeInstanceOf(InMemoryConversationConfigStore);
+    expect((await store.getConfig({ tenantId: 'tenant-1' })).pathMaxMessages).toBe(25);
+  });
+
   it('should create SupabaseConversationConfigStore when only Supabase provided', () => {
     const supabase = createMockSupabaseClient();
     const store = createConversationConfigStore({ supabase });
@@ -7,6 +7,7 @@
 
 import { createKeyValueClient, type ResolvedBackend, type RedisKeyValueClient } from '@reg-copilot/reg-intel-cache';
 import type { SupabaseLikeClient } from './conversationStores.js';
+import { createInMemoryConversationState, type InMemoryConversationState } from './inMemoryConversationState.js';
 
 // =============================================================================
 // Configuration Types
@@ -122,6 +123,91 @@ export interface ConversationConfigStore {
   deleteUserConfig(input: { tenantId: string; userId: string }): Promise<void>;
 }
 
+// =============================================================================
+// In-Memory Implementation
+// =============================================================================
+
+type ConfigValues = Partial<Omit<ConversationConfig, 'configLevel' | 'configScope' | 'updatedAt' | 'updatedBy'>>;
+
+export class InMemoryConversationConfigStore implements ConversationConfigStore {
+  constructor(private readonly state: InMemoryConversationState = createInMemoryConversationState()) {}
+
+  private upsert(level: ConversationConfig['configLevel'], tenantId: string, userId: string | null, config: ConfigValues, updatedBy?: string | null) {
+    // Strategies are NOT NULL columns, so unset strategies fall back to the defaults like the Supabase upsert
+    this.state.configs.set(this.state.configKey(level, tenantId, userId), {
+      configLevel: level,
+      tenantId,
+      userId,
+      config: {
+        ...config,
+        mergeCompressionStrategy: config.mergeCompressionStrategy ?? DEFAULT_CONFIG.mergeCompressionStrategy,
+        pathCompressionStrategy: config.pathCompressionStrategy ?? DEFAULT_CONFIG.pathCompressionStrategy,
+      },
+      updatedAt: this.state.now(),
+      updatedBy: updatedBy ?? null,
+    });
+    this.state.commit();
+  }
+
+  async getConfig(input: GetConfigInput): Promise<ConversationConfig> {
+    const rows = [
+      this.state.configs.get(this.state.configKey('global', 'global', null)),
+      this.state.configs.get(this.state.configKey('tenant', input.tenantId, null)),
+      input.userId ? this.state.configs.get(this.state.configKey('user', input.tenantId, input.userId)) : undefined,
+    ];
+
+    // Merge configs in order: defaults -> global -> tenant -> user
+    let config: ConversationConfig = {
+      ...DEFAULT_CONFIG,
+      configLevel: 'global',
+      configScope: 'global',
+      updatedAt: new Date(),
+    };
+
+    for (const row of rows) {
+      if (!row) continue;
+      const values = Object.fromEntries(
+        Object.entries(row.config).filter(([, value]) => value !== undefined && value !== null)
+      ) as ConfigValues;
+      config = {
+        ...config,
+        ...values,
+        configLevel: row.configLevel,
+        configScope: row.userId ?? row.tenantId,
+        updatedAt: new Date(row.updatedAt),
+        updatedBy: row.updatedBy,
+      };
+    }
+
+    return config;
+  }
+
+  async setGlobalConfig(config: ConfigValues, updatedBy?: string): Promise<void> {
+    this.upsert('global', 'global', null, config, updatedBy);
+  }
+
+  async setTenantConfig(input: SetConfigInput): Promise<void> {
+    this.upsert('tenant', input.tenantId, null, input.config, input.updatedBy);
+  }
+
+  async setUserConfig(input: SetConfigInput): Promise<void> {
+    if (!input.userId) {
+      throw new Error('userId required for user-level config');
+    }
+
+    this.upsert('user', input.tenantId, input.userId, input.config, input.updatedBy);
+  }
+
+  async deleteTenantConfig(tenantId: string): Promise<void> {
+    this.state.configs.delete(this.state.configKey('tenant', tenantId, null));
+    this.state.commit();
+  }
+
+  async deleteUserConfig(input: { tenantId: string; userId: string }): Promise<void> {
+    this.state.configs.delete(this.state.configKey('user', input.tenantId, input.userId));
+    this.state.commit();
+  }
+}
 
 // =============================================================================
 // Supabase Implementation
@@ -431,6 +517,10 @@ export class CachingConversationConfigStore implements ConversationConfigStore {
 // =============================================================================
 
 export interface ConfigStoreFactoryOptions {
+  /** Storage backend (default: 'supabase'). 'memory' is for local development and tests only. */
+  backend?: 'supabase' | 'memory';
+  /** State shared with the other in-memory stores (default: a new empty state) */
+  memoryState?: InMemoryConversationState;
   supabase?: SupabaseLikeClient;
   redis?: RedisKeyValueClient;
   redisBackend?: ResolvedBackend | null;
@@ -441,18 +531,24 @@ export interface ConfigStoreFactoryOptions {
 export function createConversationConfigStore(
   options: ConfigStoreFactoryOptions
 ): ConversationConfigStore {
-  if (!options.supabase) {
-    throw new Error('Supabase client is required to create a ConversationConfigStore');
-  }
+  let backingStore: ConversationConfigStore;
 
-  const supabaseStore = new SupabaseConversationConfigStore(options.supabase, options.logger);
+  if (options.backend === 'memory') {
+    backingStore = new InMemoryConversationConfigStore(options.memoryState);
+  } else {
+    if (!options.supabase) {
+      throw new Error('Supabase client is required to create a ConversationConfigStore');
+    }
+
+    backingStore = new SupabaseConversationConfigStore(options.supabase, options.logger);
+  }
   const redisClient = options.redis ?? (options.redisBackend ? createKeyValueClient(options.redisBackend) : null);
 
   if (redisClient) {
-    return new CachingConversationConfigStore(supabaseStore, redisClient, {
+    return new CachingConversationConfigStore(backingStore, redisClient, {
       ttlSeconds: options.cacheTtlSeconds,
     });
   }
 
-  return supabaseStore;
+  return backingStore;
 }
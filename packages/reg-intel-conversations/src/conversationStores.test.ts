@@ -13,7 +13,7 @@ import {
   trace,
 } from '@opentelemetry/api';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { SupabaseConversationStore } from './conversationStores.js';
+import { SupabaseConversationContextStore, SupabaseConversationStore } from './conversationStores.js';
 
 class StackContextManager implements ContextManager {
   private stack: Context[] = [ROOT_CONTEXT];
@@ -167,3 +167,42 @@ describe('SupabaseConversationStore tracing', () => {
     expect(span?.attributes['app.tenant.id']).toBe('tenant-1');
   });
 });
+
+describe('SupabaseConversationContextStore.findByActiveNodeIds', () => {
+  it('pages through matching contexts and reads owners from the embedded conversation', async () => {
+    const rows = Array.from({ length: 501 }, (_, index) => ({
+      conversation_id: `conv-${String(index).padStart(3, '0')}`,
+      tenant_id: 'tenant-1',
+      active_node_ids: ['IE_CGT_RATE'],
+      conversations: { user_id: index === 500 ? null : 'user-1' },
+    }));
+    const query = {
+      select: vi.fn(() => query),
+      overlaps: vi.fn(() => query),
+      order: vi.fn(() => query),
+      range: vi.fn(async (from: number, to: number) => ({ data: rows.slice(from, to + 1), error: null })),
+      in: vi.fn(),
+    };
+    const client = { from: vi.fn(() => query) } as unknown as ConstructorParameters<
+      typeof SupabaseConversationContextStore
+    >[0];
+    const store = new SupabaseConversationContextStore(client, client);
+
+    const matches = await store.findByActiveNodeIds(['IE_CGT_RATE']);
+
+    expect(query.overlaps).toHaveBeenCalledWith('active_node_ids', ['IE_CGT_RATE']);
+    expect(query.range.mock.calls).toEqual([
+      [0, 499],
+      [500, 999],
+    ]);
+    expect(query.in).not.toHaveBeenCalled();
+    expect(matches).toHaveLength(501);
+    expect(matches[0]).toEqual({
+      tenantId: 'tenant-1',
+      conversationId: 'conv-000',
+      userId: 'user-1',
+      activeNodeIds: ['IE_CGT_RATE'],
+    });
+    expect(matches[500].userId).toBeNull();
+  });
+});
@@ -8,6 +8,11 @@ import type {
 import { createKeyValueClient, createPassThroughRedis, type ResolvedBackend, type RedisKeyValueClient } from '@reg-copilot/reg-intel-cache';
 import { createLogger, withSpan } from '@reg-copilot/reg-intel-observability';
 import { SEMATTRS_DB_SYSTEM, SEMATTRS_DB_NAME, SEMATTRS_DB_OPERATION, SEMATTRS_DB_SQL_TABLE } from '@opentelemetry/semantic-conventions';
+import {
+  createInMemoryConversationState,
+  type InMemoryConversationState,
+  type StoredConversationMessage,
+} from './inMemoryConversationState.js';
 
 export type ShareAudience = 'private' | 'tenant' | 'public';
 export type TenantAccess = 'view' | 'edit';
@@ -982,6 +987,9 @@ export class SupabaseConversationStore implements ConversationStore {
   }
 }
 
+/** Rows fetched per request when looking up conversations by active node */
+const FIND_BY_NODE_PAGE_SIZE = 500;
+
 export class SupabaseConversationContextStore implements ConversationContextStore {
   private readonly internalClient: SupabaseLikeClient;
   private logger = baseConversationLogger.child({ store: 'supabase', entity: 'context' });
@@ -1070,6 +1078,387 @@ export class SupabaseConversationContextStore implements ConversationContextStor
       rootSpanId: options?.rootSpanId ?? current.rootSpanId,
     });
   }
+
+  async findByActiveNodeIds(nodeIds: string[]): Promise<Array<ConversationIdentity & { activeNodeIds: string[] }>> {
+    if (nodeIds.length === 0) return [];
+
+    const matches: Array<ConversationIdentity & { activeNodeIds: string[] }> = [];
+    for (let from = 0; ; from += FIND_BY_NODE_PAGE_SIZE) {
+      // The owner comes from the embedded conversation, so no id list is sent back
+      const { data, error } = await this.internalClient
+        .from('conversation_contexts')
+        .select('conversation_id, tenant_id, active_node_ids, conversations!inner(user_id)')
+        .overlaps('active_node_ids', nodeIds)
+        .order('conversation_id', { ascending: true })
+        .range(from, from + FIND_BY_NODE_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to find conversation contexts by node: ${error.message}`);
+      }
+
+      const rows =
+        (data as Array<SupabaseConversationContextRow & { conversations: { user_id: string | null } | null }> | null) ??
+        [];
+      for (const row of rows) {
+        matches.push({
+          tenantId: row.tenant_id,
+          conversationId: row.conversation_id,
+          userId: row.conversations?.user_id ?? null,
+          activeNodeIds: row.active_node_ids ?? [],
+        });
+      }
+
+      if (rows.length < FIND_BY_NODE_PAGE_SIZE) break;
+    }
+
+    return matches;
+  }
+}
+
+// =============================================================================
+// In-Memory Implementation
+// =============================================================================
+
+function toConversationMessage(message: StoredConversationMessage): ConversationMessage {
+  const deletedAtValue = message.metadata?.deletedAt;
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    metadata: message.metadata ? structuredClone(message.metadata) : undefined,
+    userId: message.userId,
+    traceId: message.traceId,
+    rootSpanName: message.rootSpanName,
+    rootSpanId: message.rootSpanId,
+    createdAt: new Date(message.createdAt),
+    deletedAt: typeof deletedAtValue === 'string' ? new Date(deletedAtValue) : undefined,
+  };
+}
+
+/**
+ * Conversation store backed by InMemoryConversationState
+ *
+ * Applies the same access rules, defaults and ordering as the Supabase store so
+ * it can be used for local development and tests without a database. Share the
+ * state with InMemoryConversationPathStore to get branching support.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private logger = baseConversationLogger.child({ store: 'memory' });
+
+  constructor(private readonly state: InMemoryConversationState = createInMemoryConversationState()) {}
+
+  private getConversationRecord(tenantId: string, conversationId: string): ConversationRecord | null {
+    const record = this.state.conversations.get(conversationId);
+    return record && record.tenantId === tenantId ? record : null;
+  }
+
+  async createConversation(input: Parameters<ConversationStore['createConversation']>[0]): Promise<{ conversationId: string }> {
+    const now = this.state.now();
+    const record: ConversationRecord = {
+      id: randomUUID(),
+      tenantId: input.tenantId,
+      userId: input.userId ?? null,
+      traceId: input.traceId ?? null,
+      rootSpanName: input.rootSpanName ?? null,
+      rootSpanId: input.rootSpanId ?? null,
+      shareAudience: resolveShareAudience({ shareAudience: input.shareAudience }),
+      tenantAccess: resolveTenantAccess({ tenantAccess: input.tenantAccess }),
+      authorizationModel: input.authorizationModel ?? 'supabase_rbac',
+      authorizationSpec: structuredClone(input.authorizationSpec ?? {}),
+      personaId: input.personaId ?? null,
+      jurisdictions: [...(input.jurisdictions ?? [])],
+      title: input.title ?? null,
+      activePathId: null,
+      archivedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      lastMessageAt: null,
+    };
+    this.state.conversations.set(record.id, record);
+
+    const primaryPath = this.state.insertPath({
+      conversationId: record.id,
+      tenantId: input.tenantId,
+      name: 'Main',
+      isPrimary: true,
+    });
+    record.activePathId = primaryPath.id;
+
+    this.logger.info({
+      tenantId: input.tenantId,
+      userId: input.userId,
+      shareAudience: record.shareAudience,
+      tenantAccess: record.tenantAccess,
+    }, 'Created in-memory conversation');
+
+    this.state.commit();
+    return { conversationId: record.id };
+  }
+
+  async appendMessage(input: Parameters<ConversationStore['appendMessage']>[0] & { pathId?: string | null }): Promise<{ messageId: string }> {
+    const conversation = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found for tenant');
+    }
+    if (!canWrite(conversation, input.userId, input.role)) {
+      throw new Error('User not authorised for conversation');
+    }
+
+    let pathId = input.pathId ?? conversation.activePathId;
+    if (!pathId) {
+      pathId = this.state.insertPath({
+        conversationId: input.conversationId,
+        tenantId: input.tenantId,
+        name: 'Main',
+        isPrimary: true,
+      }).id;
+      conversation.activePathId = pathId;
+    }
+
+    const metadata = input.traceId
+      ? { ...(input.metadata ?? {}), traceId: input.traceId }
+      : input.metadata;
+    const message = this.state.insertMessage({
+      conversationId: input.conversationId,
+      pathId,
+      tenantId: input.tenantId,
+      userId: input.userId ?? null,
+      role: input.role,
+      content: input.content,
+      metadata: metadata ? structuredClone(metadata) : undefined,
+      traceId: input.traceId ?? null,
+      rootSpanName: input.rootSpanName ?? null,
+      rootSpanId: input.rootSpanId ?? null,
+    });
+
+    conversation.lastMessageAt = message.createdAt;
+    conversation.updatedAt = message.createdAt;
+    if (input.traceId !== undefined) {
+      conversation.traceId = input.traceId;
+    }
+    if (input.rootSpanName !== undefined) {
+      conversation.rootSpanName = input.rootSpanName;
+    }
+    if (input.rootSpanId !== undefined) {
+      conversation.rootSpanId = input.rootSpanId;
+    }
+
+    this.state.commit();
+    return { messageId: message.id };
+  }
+
+  async softDeleteMessage(input: Parameters<ConversationStore['softDeleteMessage']>[0]): Promise<void> {
+    const conversation = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found for tenant');
+    }
+    if (!canWrite(conversation, input.userId)) {
+      throw new Error('User not authorised for conversation');
+    }
+
+    const message = this.state.messages.get(input.messageId);
+    if (!message || message.tenantId !== input.tenantId || message.conversationId !== input.conversationId) {
+      throw new Error('Message not found for tenant conversation');
+    }
+
+    const deletedAt = this.state.now();
+    message.metadata = { ...(message.metadata ?? {}), deletedAt: deletedAt.toISOString() };
+    conversation.updatedAt = deletedAt;
+
+    this.state.commit();
+  }
+
+  async getMessages(input: Parameters<ConversationStore['getMessages']>[0]): Promise<ConversationMessage[]> {
+    const conversation = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!conversation || !canRead(conversation, input.userId)) {
+      return [];
+    }
+
+    const messages = [...this.state.messages.values()]
+      .filter(message => message.conversationId === input.conversationId && message.tenantId === input.tenantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return (input.limit ? messages.slice(0, input.limit) : messages).map(toConversationMessage);
+  }
+
+  async listConversations(input: Parameters<ConversationStore['listConversations']>[0]): Promise<{
+    conversations: ConversationRecord[];
+    nextCursor: string | null;
+    hasMore: boolean;
+  }> {
+    const limit = input.limit ?? 50;
+    const cursorData = input.cursor ? decodeCursor(input.cursor) : null;
+
+    let records = [...this.state.conversations.values()]
+      .filter(record => record.tenantId === input.tenantId)
+      .filter(record => {
+        if (input.status === 'active') return !record.archivedAt;
+        if (input.status === 'archived') return Boolean(record.archivedAt);
+        return true;
+      })
+      .filter(record => canRead(record, input.userId ?? null))
+      // Order by last_message_at DESC (nulls last), then created_at DESC, then id DESC for stability
+      .sort((a, b) => {
+        if (a.lastMessageAt && !b.lastMessageAt) return -1;
+        if (!a.lastMessageAt && b.lastMessageAt) return 1;
+        const byLastMessage = (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0);
+        if (byLastMessage !== 0) return byLastMessage;
+        const byCreated = b.createdAt.getTime() - a.createdAt.getTime();
+        if (byCreated !== 0) return byCreated;
+        return b.id.localeCompare(a.id);
+      });
+
+    if (cursorData) {
+      const cursorIndex = records.findIndex(record => record.id === cursorData.id);
+      records = cursorIndex >= 0
+        ? records.slice(cursorIndex + 1)
+        : records.filter(record => (record.lastMessageAt ?? record.createdAt).getTime() < cursorData.timestamp);
+    }
+
+    const hasMore = records.length > limit;
+    const conversations = records.slice(0, limit);
+
+    let nextCursor: string | null = null;
+    if (hasMore && conversations.length > 0) {
+      const lastConv = conversations[conversations.length - 1];
+      const timestamp = lastConv.lastMessageAt?.getTime() ?? lastConv.createdAt.getTime();
+      nextCursor = encodeCursor(timestamp, lastConv.id);
+    }
+
+    return {
+      conversations: conversations.map(record => structuredClone(record)),
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  async getConversation(input: Parameters<ConversationStore['getConversation']>[0]): Promise<ConversationRecord | null> {
+    const record = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!record) return null;
+    if (!canRead(record, input.userId ?? null)) return null;
+    return structuredClone(record);
+  }
+
+  async updateSharing(input: Parameters<ConversationStore['updateSharing']>[0]): Promise<void> {
+    const record = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!record) {
+      throw new Error('Conversation not found for tenant');
+    }
+    const isOwner = record.userId ? input.userId === record.userId : true;
+    if (!isOwner) {
+      throw new Error('User not authorised to update conversation');
+    }
+
+    record.shareAudience = input.shareAudience ?? record.shareAudience;
+    record.tenantAccess = input.tenantAccess ?? record.tenantAccess;
+    record.authorizationModel = input.authorizationModel ?? record.authorizationModel;
+    record.authorizationSpec = structuredClone(input.authorizationSpec ?? record.authorizationSpec ?? {});
+    record.title = input.title !== undefined ? input.title : record.title;
+    record.updatedAt = this.state.now();
+
+    this.state.commit();
+  }
+
+  async setArchivedState(input: Parameters<ConversationStore['setArchivedState']>[0]): Promise<void> {
+    const record = this.getConversationRecord(input.tenantId, input.conversationId);
+    if (!record) {
+      throw new Error('Conversation not found for tenant');
+    }
+
+    const isOwner = record.userId ? input.userId === record.userId : true;
+    if (!isOwner) {
+      throw new Error('User not authorised to update conversation');
+    }
+
+    const now = this.state.now();
+    record.archivedAt = input.archived ? now : null;
+    record.updatedAt = now;
+
+    this.state.commit();
+  }
+
+  async getConversationsNeedingCompaction(filters: {
+    messageCountGt?: number;
+    lastActivityAfter?: Date;
+    lastCompactionBefore?: Date;
+  }, limit: number): Promise<Array<{
+    id: string;
+    tenantId: string;
+    activePathId?: string;
+  }>> {
+    // Compaction runs are not recorded in memory, so every conversation counts as never compacted
+    const messageCountGt = filters.messageCountGt ?? 50;
+    const lastActivityAfter = filters.lastActivityAfter ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const messageCounts = new Map<string, number>();
+    for (const message of this.state.messages.values()) {
+      if (message.metadata?.deletedAt) continue;
+      messageCounts.set(message.conversationId, (messageCounts.get(message.conversationId) ?? 0) + 1);
+    }
+
+    return [...this.state.conversations.values()]
+      .filter(record => !record.archivedAt)
+      .filter(record => (messageCounts.get(record.id) ?? 0) > messageCountGt)
+      .filter(record => !record.lastMessageAt || record.lastMessageAt >= lastActivityAfter)
+      .sort((a, b) => (messageCounts.get(b.id) ?? 0) - (messageCounts.get(a.id) ?? 0))
+      .slice(0, limit)
+      .map(record => ({
+        id: record.id,
+        tenantId: record.tenantId,
+        activePathId: record.activePathId ?? undefined,
+      }));
+  }
+}
+
+export class InMemoryConversationContextStore implements ConversationContextStore {
+  constructor(private readonly state: InMemoryConversationState = createInMemoryConversationState()) {}
+
+  async load(identity: ConversationIdentity): Promise<ConversationContext | null> {
+    const row = this.state.contexts.get(this.state.contextKey(identity.tenantId, identity.conversationId));
+    return row ? structuredClone(row.context) : null;
+  }
+
+  async save(identity: ConversationIdentity, ctx: ConversationContext): Promise<void> {
+    this.state.contexts.set(this.state.contextKey(identity.tenantId, identity.conversationId), {
+      tenantId: identity.tenantId,
+      conversationId: identity.conversationId,
+      context: {
+        activeNodeIds: [...(ctx.activeNodeIds ?? [])],
+        traceId: ctx.traceId ?? null,
+        rootSpanName: ctx.rootSpanName ?? null,
+        rootSpanId: ctx.rootSpanId ?? null,
+      },
+      updatedAt: this.state.now(),
+    });
+    this.state.commit();
+  }
+
+  async mergeActiveNodeIds(
+    identity: ConversationIdentity,
+    nodeIds: string[],
+    options?: { traceId?: string | null; rootSpanName?: string | null; rootSpanId?: string | null }
+  ): Promise<void> {
+    const current = (await this.load(identity)) ?? { activeNodeIds: [] };
+    await this.save(identity, {
+      activeNodeIds: Array.from(new Set([...(current.activeNodeIds ?? []), ...nodeIds])),
+      traceId: options?.traceId ?? current.traceId,
+      rootSpanName: options?.rootSpanName ?? current.rootSpanName,
+      rootSpanId: options?.rootSpanId ?? current.rootSpanId,
+    });
+  }
+
+  async findByActiveNodeIds(nodeIds: string[]): Promise<Array<ConversationIdentity & { activeNodeIds: string[] }>> {
+    const wanted = new Set(nodeIds);
+    return [...this.state.contexts.values()]
+      .filter(row => (row.context.activeNodeIds ?? []).some(id => wanted.has(id)))
+      .map(row => ({
+        tenantId: row.tenantId,
+        conversationId: row.conversationId,
+        userId: this.state.conversations.get(row.conversationId)?.userId ?? null,
+        activeNodeIds: [...(row.context.activeNodeIds ?? [])],
+      }));
+  }
 }
 
 // =============================================================================
@@ -1203,6 +1592,10 @@ export class CachingConversationStore implements ConversationStore {
 // =============================================================================
 
 export interface ConversationStoreFactoryOptions {
+  /** Storage backend (default: 'supabase'). 'memory' is for local development and tests only. */
+  backend?: 'supabase' | 'memory';
+  /** State shared with the other in-memory stores (default: a new empty state) */
+  memoryState?: InMemoryConversationState;
   supabase?: SupabaseLikeClient;
   supabaseInternal?: SupabaseLikeClient;
   redis?: RedisKeyValueClient;
@@ -1219,7 +1612,7 @@ export interface ConversationStoreFactoryOptions {
  *
  * When Redis unavailable:
  * - Uses PassThroughRedis (all cache operations are no-ops)
- * - Transparently falls back to Supabase on every request
+ * - Transparently falls back to the backing store (Supabase or in-memory) on every request
  * - Application behavior is identical (just slower)
  *
  * Pattern matches: Phase 1-3 transparent failover implementations
@@ -1229,14 +1622,20 @@ export interface ConversationStoreFactoryOptions {
 export function createConversationStore(
   options: ConversationStoreFactoryOptions
 ): ConversationStore {
-  if (!options.supabase) {
-    throw new Error('Supabase client is required to create a ConversationStore');
-  }
+  let backingStore: ConversationStore;
+
+  if (options.backend === 'memory') {
+    backingStore = new InMemoryConversationStore(options.memoryState);
+  } else {
+    if (!options.supabase) {
+      throw new Error('Supabase client is required to create a ConversationStore');
+    }
 
-  const supabaseStore = new SupabaseConversationStore(
-    options.supabase,
-    options.supabaseInternal
-  );
+    backingStore = new SupabaseConversationStore(
+      options.supabase,
+      options.supabaseInternal
+    );
+  }
 
   // ✅ ALWAYS return CachingConversationStore - factory never returns different types
   // Determine Redis client: provided > from backend > PassThroughRedis
@@ -1255,7 +1654,7 @@ export function createConversationStore(
 
   // ✅ ALWAYS return CachingConversationStore, even with PassThroughRedis
   // CachingConversationStore handles errors internally (try-catch)
-  return new CachingConversationStore(supabaseStore, redisClient, {
+  return new CachingConversationStore(backingStore, redisClient, {
     ttlSeconds: options.cacheTtlSeconds ?? 60,
   });
 }
@@ -16,6 +16,7 @@ import {
   createConversationStore,
   type ConversationRecord,
 } from './conversationStores.js';
+import { createInMemoryConversationState } from './inMemoryConversationState.js';
 import * as redisCache from '@reg-copilot/reg-intel-cache';
 import type { RedisKeyValueClient } from '@reg-copilot/reg-intel-cache';
 import type { SupabaseLikeClient } from './conversationStores.js';
@@ -594,6 +595,16 @@ describe('createConversationStore Factory', () => {
     );
   });
 
+  it('should not require Supabase for the memory backend', async () => {
+    const memoryState = createInMemoryConversationState();
+    const store = createConversationStore({ backend: 'memory', memoryState });
+
+    const { conversationId } = await store.createConversation({ tenantId: 'tenant-1', userId: 'user-1' });
+
+    expect(store).toBeInstanceOf(CachingConversationStore);
+    expect(memoryState.conversations.has(conversationId)).toBe(true);
+  });
+
   it('should create SupabaseConversationStore when only Supabase provided', () => {
     const supabase = createMockSupabaseClient();
     const store = createConversationStore({ supabase });
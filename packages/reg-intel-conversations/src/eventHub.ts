@@ -5,6 +5,9 @@ export type ConversationEventType =
   | 'done'
   | 'disclaimer'
   | 'warning'
+  | 'agent_progress'
+  | 'citations'
+  | 'scenario_comparison'
   | 'message:pinned'
   | 'message:unpinned';
 
@@ -15,7 +18,8 @@ export type ConversationListEventType =
   | 'unarchived'
   | 'deleted'
   | 'renamed'
-  | 'sharing';
+  | 'sharing'
+  | 'impact_alert';
 
 export interface SseSubscriber<TEvent> {
   send(event: TEvent, data: unknown): void;
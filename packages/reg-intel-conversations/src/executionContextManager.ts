@@ -2,7 +2,8 @@
  * Execution Context Manager - E2B Sandbox Lifecycle Management
  *
  * This module manages the lifecycle of E2B sandboxes for conversation paths,
- * including lazy creation, reuse, TTL extension, and cleanup.
+ * including lazy creation, reuse, TTL extension, and cleanup. Any E2BClient
+ * works, including LocalSandboxClient for deployments without E2B.
  *
  * Architecture:
  * - Lazy Creation: Sandboxes created on-demand when code execution is needed
@@ -23,6 +24,7 @@ import {
   recordE2BError,
   getCostEstimationServiceIfInitialized,
   getE2BCostEstimateFallback,
+  LOCAL_SANDBOX_TIER,
 } from '@reg-copilot/reg-intel-observability';
 import type {
   ExecutionContextStore,
@@ -47,12 +49,31 @@ export interface E2BSandbox {
     logs: { stdout: string[]; stderr: string[] };
     results?: unknown[];
   }>;
+
+  /** Upload and download files in the sandbox working directory (if supported) */
+  files?: E2BSandboxFiles;
+}
+
+/**
+ * File access inside a sandbox; paths are relative to its working directory
+ */
+export interface E2BSandboxFiles {
+  write(path: string, data: string | Uint8Array): Promise<void>;
+  read(path: string): Promise<string>;
+  readBytes(path: string): Promise<Uint8Array>;
+  list(path?: string): Promise<string[]>;
 }
 
 /**
  * E2B client interface for creating and reconnecting to sandboxes
  */
 export interface E2BClient {
+  /**
+   * Pricing tier recorded in sandbox metrics and used for quota estimates
+   * (default: 'standard'). Local sandboxes report the zero-cost 'local' tier.
+   */
+  readonly tier?: string;
+
   /** Create a new sandbox */
   create(opts?: { apiKey?: string; timeout?: number }): Promise<E2BSandbox>;
 
@@ -147,11 +168,13 @@ export class ExecutionContextManager {
   private activeSandboxes = new Map<string, E2BSandbox>(); // contextId -> Sandbox
   private readonly defaultTtl: number;
   private readonly sandboxTimeout: number;
+  private readonly sandboxTier: string;
   private logger: ExecutionContextLogger;
 
   constructor(private config: ExecutionContextManagerConfig) {
     this.defaultTtl = config.defaultTtlMinutes ?? 30;
     this.sandboxTimeout = config.sandboxTimeoutMs ?? 600_000; // 10 minutes
+    this.sandboxTier = config.e2bClient.tier ?? 'standard';
     this.logger = config.logger ?? createLogger('ExecutionContextManager');
   }
 
@@ -275,7 +298,7 @@ export class ExecutionContextManager {
           recordE2BSandboxOperation(reconnectDurationMs, {
             operation: 'reconnect',
             sandboxId: context.sandboxId,
-            tier: 'standard', // TODO: Get from context
+            tier: this.sandboxTier,
             success: true,
             tenantId: input.tenantId,
             conversationId: input.conversationId,
@@ -298,7 +321,7 @@ export class ExecutionContextManager {
           recordE2BSandboxOperation(reconnectDurationMs, {
             operation: 'reconnect',
             sandboxId: context.sandboxId,
-            tier: 'standard',
+            tier: this.sandboxTier,
             success: false,
             errorType: error instanceof Error ? error.name : 'UnknownError',
             tenantId: input.tenantId,
@@ -370,8 +393,9 @@ export class ExecutionContextManager {
     }, 'Initiating E2B sandbox creation');
 
     // PRE-REQUEST QUOTA CHECK (Phase 3)
-    // Check E2B quota BEFORE creating expensive sandbox if quota callback is configured
-    if (this.config.quotaCheckCallback) {
+    // Check E2B quota BEFORE creating expensive sandbox if quota callback is configured.
+    // Local sandboxes are zero-cost compute and do not spend quota.
+    if (this.config.quotaCheckCallback && this.sandboxTier !== LOCAL_SANDBOX_TIER) {
       // Get cost estimate (database or fallback)
       const costEstimator = getCostEstimationServiceIfInitialized();
       let estimatedCostUsd: number;
@@ -379,7 +403,7 @@ export class ExecutionContextManager {
       if (costEstimator) {
         // Use service (will query database and fallback to ENUM if unavailable)
         estimatedCostUsd = await costEstimator.getE2BCostEstimate({
-          tier: 'standard',
+          tier: this.sandboxTier,
           region: 'us-east-1',
           operationType: 'standard_session',
           confidenceLevel: 'conservative',
@@ -388,7 +412,7 @@ export class ExecutionContextManager {
         // Service not initialized - use fallback ENUM directly
         this.logger.info('Cost estimation service not initialized, using fallback ENUM constant for quota check');
         estimatedCostUsd = getE2BCostEstimateFallback(
-          'standard',
+          this.sandboxTier,
           'us-east-1',
           'standard_session',
           'conservative'
@@ -428,6 +452,8 @@ export class ExecutionContextManager {
           }, 'E2B quota check passed');
         }
       );
+    } else if (this.config.quotaCheckCallback) {
+      this.logger.debug({ tier: this.sandboxTier }, 'Local sandbox is zero-cost, skipping E2B quota check');
     } else {
       this.logger.debug({}, 'E2B quota check callback not configured, proceeding without quota validation');
     }
@@ -465,7 +491,7 @@ export class ExecutionContextManager {
           recordE2BSandboxOperation(createDurationMs, {
             operation: 'create',
             sandboxId: sandbox.sandboxId,
-            tier: 'standard', // TODO: Get from config
+            tier: this.sandboxTier,
             success: true,
             tenantId: input.tenantId,
             conversationId: input.conversationId,
@@ -490,7 +516,7 @@ export class ExecutionContextManager {
         async () => {
           recordE2BSandboxOperation(createDurationMs, {
             operation: 'create',
-            tier: 'standard',
+            tier: this.sandboxTier,
             success: false,
             errorType: createError instanceof Error ? createError.name : 'UnknownError',
             tenantId: input.tenantId,
@@ -707,7 +733,7 @@ export class ExecutionContextManager {
         recordE2BSandboxOperation(terminateDurationMs, {
           operation: 'terminate',
           sandboxId: sandbox.sandboxId,
-          tier: 'standard', // TODO: Get from context
+          tier: this.sandboxTier,
           success: true,
         });
 
@@ -727,7 +753,7 @@ export class ExecutionContextManager {
         recordE2BSandboxOperation(terminateDurationMs, {
           operation: 'terminate',
           sandboxId: sandbox.sandboxId,
-          tier: 'standard',
+          tier: this.sandboxTier,
           success: false,
           errorType: error instanceof Error ? error.name : 'UnknownError',
         });
@@ -0,0 +1,282 @@
+/**
+ * In-Memory Conversation State
+ *
+ * Shared tables for the in-memory conversation, path, context, config and
+ * scenario stores. The stores operate on one state object the same way the Supabase
+ * stores share one database, so a conversation created through the
+ * conversation store is visible to the path store and vice versa.
+ *
+ * The state can optionally be persisted to a JSON file so local data survives
+ * restarts of the dev server. It is intended for local development and tests
+ * only; it is not safe to share between processes.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { ConversationContext } from '@reg-copilot/reg-intel-core';
+import type { ConversationRecord } from './conversationStores.js';
+import type { ConversationConfig } from './conversationConfig.js';
+import type { ConversationPath, PathAwareMessage } from './types/paths.js';
+import type { ConversationScenario } from './scenarioStores.js';
+
+/**
+ * Message row: path-aware message plus the trace columns of conversation_messages
+ */
+export interface StoredConversationMessage extends PathAwareMessage {
+  traceId?: string | null;
+  rootSpanName?: string | null;
+  rootSpanId?: string | null;
+}
+
+/**
+ * Path row, without the computed view columns (messageCount, branchCount)
+ */
+export type StoredConversationPath = Omit<ConversationPath, 'messageCount' | 'branchCount'>;
+
+export interface StoredConversationContext {
+  tenantId: string;
+  conversationId: string;
+  context: ConversationContext;
+  updatedAt: Date;
+}
+
+export interface StoredConversationConfig {
+  configLevel: ConversationConfig['configLevel'];
+  tenantId: string;
+  userId: string | null;
+  config: Partial<Omit<ConversationConfig, 'configLevel' | 'configScope' | 'updatedAt' | 'updatedBy'>>;
+  updatedAt: Date;
+  updatedBy: string | null;
+}
+
+interface SerializedConversationState {
+  version: 1;
+  conversations: ConversationRecord[];
+  paths: StoredConversationPath[];
+  messages: StoredConversationMessage[];
+  contexts: StoredConversationContext[];
+  configs: StoredConversationConfig[];
+  scenarios?: ConversationScenario[];
+}
+
+function toDate(value: unknown): Date {
+  return new Date(value as string);
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+export class InMemoryConversationState {
+  readonly conversations = new Map<string, ConversationRecord>();
+  readonly paths = new Map<string, StoredConversationPath>();
+  readonly messages = new Map<string, StoredConversationMessage>();
+  readonly contexts = new Map<string, StoredConversationContext>();
+  readonly configs = new Map<string, StoredConversationConfig>();
+  readonly scenarios = new Map<string, ConversationScenario>();
+
+  private lastTimestamp = 0;
+
+  constructor(private readonly onCommit?: (state: InMemoryConversationState) => void) {}
+
+  /**
+   * Current time, strictly increasing across calls so that rows created in the
+   * same millisecond still have a stable order (as database sequences would)
+   */
+  now(): Date {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp);
+  }
+
+  /**
+   * Called by the stores after every mutation
+   */
+  commit(): void {
+    this.onCommit?.(this);
+  }
+
+  /**
+   * Insert a path row. Mirrors the mark_branch_point trigger: the branch point
+   * message is flagged and records the new path.
+   */
+  insertPath(
+    input: Pick<StoredConversationPath, 'conversationId' | 'tenantId'> &
+      Partial<Pick<StoredConversationPath, 'parentPathId' | 'branchPointMessageId' | 'name' | 'description' | 'isPrimary'>>
+  ): StoredConversationPath {
+    const now = this.now();
+    const path: StoredConversationPath = {
+      id: randomUUID(),
+      conversationId: input.conversationId,
+      tenantId: input.tenantId,
+      parentPathId: input.parentPathId ?? null,
+      branchPointMessageId: input.branchPointMessageId ?? null,
+      name: input.name ?? null,
+      description: input.description ?? null,
+      isPrimary: input.isPrimary ?? false,
+      isActive: true,
+      mergedToPathId: null,
+      mergedAt: null,
+      mergeSummaryMessageId: null,
+      mergeMode: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.paths.set(path.id, path);
+
+    const branchPoint = path.branchPointMessageId ? this.messages.get(path.branchPointMessageId) : undefined;
+    if (branchPoint) {
+      branchPoint.isBranchPoint = true;
+      branchPoint.branchedToPaths = [...branchPoint.branchedToPaths, path.id];
+    }
+
+    return path;
+  }
+
+  /**
+   * Insert a message row. Mirrors the set_message_sequence trigger: the
+   * message gets the next sequence number in its path.
+   */
+  insertMessage(
+    input: Pick<StoredConversationMessage, 'conversationId' | 'pathId' | 'tenantId' | 'role' | 'content'> &
+      Partial<Pick<StoredConversationMessage, 'userId' | 'metadata' | 'messageType' | 'traceId' | 'rootSpanName' | 'rootSpanId'>>
+  ): StoredConversationMessage {
+    let sequenceInPath = 1;
+    for (const message of this.messages.values()) {
+      if (message.pathId === input.pathId) {
+        sequenceInPath = Math.max(sequenceInPath, message.sequenceInPath + 1);
+      }
+    }
+
+    const message: StoredConversationMessage = {
+      id: randomUUID(),
+      conversationId: input.conversationId,
+      pathId: input.pathId,
+      tenantId: input.tenantId,
+      userId: input.userId ?? null,
+      role: input.role,
+      content: input.content,
+      metadata: input.metadata,
+      sequenceInPath,
+      isBranchPoint: false,
+      branchedToPaths: [],
+      messageType: input.messageType ?? 'standard',
+      isPinned: false,
+      pinnedAt: null,
+      pinnedBy: null,
+      createdAt: this.now(),
+      traceId: input.traceId ?? null,
+      rootSpanName: input.rootSpanName ?? null,
+      rootSpanId: input.rootSpanId ?? null,
+    };
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  contextKey(tenantId: string, conversationId: string): string {
+    return `${tenantId}:${conversationId}`;
+  }
+
+  configKey(level: ConversationConfig['configLevel'], tenantId: string, userId?: string | null): string {
+    return `${level}:${tenantId}:${userId ?? ''}`;
+  }
+
+  toJSON(): SerializedConversationState {
+    return {
+      version: 1,
+      conversations: [...this.conversations.values()],
+      paths: [...this.paths.values()],
+      messages: [...this.messages.values()],
+      contexts: [...this.contexts.values()],
+      configs: [...this.configs.values()],
+      scenarios: [...this.scenarios.values()],
+    };
+  }
+
+  /**
+   * Restore state from a snapshot produced by toJSON (after a JSON round trip)
+   */
+  load(snapshot: SerializedConversationState): void {
+    for (const row of snapshot.conversations ?? []) {
+      this.conversations.set(row.id, {
+        ...row,
+        archivedAt: toOptionalDate(row.archivedAt),
+        createdAt: toDate(row.createdAt),
+        updatedAt: toDate(row.updatedAt),
+        lastMessageAt: toOptionalDate(row.lastMessageAt),
+      });
+    }
+    for (const row of snapshot.paths ?? []) {
+      this.paths.set(row.id, {
+        ...row,
+        mergedAt: toOptionalDate(row.mergedAt),
+        createdAt: toDate(row.createdAt),
+        updatedAt: toDate(row.updatedAt),
+      });
+    }
+    for (const row of snapshot.messages ?? []) {
+      this.messages.set(row.id, {
+        ...row,
+        pinnedAt: toOptionalDate(row.pinnedAt),
+        createdAt: toDate(row.createdAt),
+      });
+    }
+    for (const row of snapshot.contexts ?? []) {
+      this.contexts.set(this.contextKey(row.tenantId, row.conversationId), {
+        ...row,
+        updatedAt: toDate(row.updatedAt),
+      });
+    }
+    for (const row of snapshot.configs ?? []) {
+      this.configs.set(this.configKey(row.configLevel, row.tenantId, row.userId), {
+        ...row,
+        updatedAt: toDate(row.updatedAt),
+      });
+    }
+    for (const row of snapshot.scenarios ?? []) {
+      this.scenarios.set(row.id, {
+        ...row,
+        createdAt: toDate(row.createdAt),
+        updatedAt: toDate(row.updatedAt),
+      });
+    }
+
+    const timestamps = [
+      ...[...this.conversations.values()].map(row => row.updatedAt.getTime()),
+      ...[...this.paths.values()].map(row => row.updatedAt.getTime()),
+      ...[...this.messages.values()].map(row => row.createdAt.getTime()),
+    ];
+    this.lastTimestamp = timestamps.reduce((max, value) => Math.max(max, value), 0);
+  }
+}
+
+/**
+ * Create empty in-memory state to share between the in-memory stores
+ */
+export function createInMemoryConversationState(): InMemoryConversationState {
+  return new InMemoryConversationState();
+}
+
+/**
+ * Create in-memory state that is loaded from and written back to a JSON file
+ * after every mutation. Writes go to a temporary file first and are renamed
+ * into place so a crash never leaves a truncated file behind.
+ */
+export function createFileBackedConversationState(filePath: string): InMemoryConversationState {
+  const state = new InMemoryConversationState(current => {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(current, null, 2));
+    renameSync(tempPath, filePath);
+  });
+
+  if (existsSync(filePath)) {
+    const snapshot = JSON.parse(readFileSync(filePath, 'utf-8')) as SerializedConversationState;
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported conversation state file version: ${String(snapshot.version)}`);
+    }
+    state.load(snapshot);
+  }
+
+  return state;
+}
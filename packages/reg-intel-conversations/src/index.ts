@@ -1,4 +1,5 @@
 export * from './conversationStores.js';
+export * from './inMemoryConversationState.js';
 export * from './pathStores.js';
 export * from './types/paths.js';
 export * from './eventHub.js';
@@ -8,5 +9,8 @@ export * from './presenters.js';
 export * from './sseTypes.js';
 export * from './executionContextStores.js';
 export * from './executionContextManager.js';
+export * from './localSandboxClient.js';
 export * from './conversationConfig.js';
 export * from './authorizationService.js';
+export * from './changeImpactAlerts.js';
+export * from './scenarioStores.js';
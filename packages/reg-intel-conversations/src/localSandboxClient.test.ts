@@ -0,0 +1,333 @@
+import { createServer, type Server } from 'net';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ExecutionContextManager } from './executionContextManager.js';
+import type { ExecutionContext, ExecutionContextStore } from './executionContextStores.js';
+import { LocalSandboxClient, type LocalSandbox } from './localSandboxClient.js';
+
+const TIMEOUT = 30_000;
+
+describe('LocalSandboxClient', () => {
+  let rootDir: string;
+  let client: LocalSandboxClient;
+  let sandbox: LocalSandbox;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'local-sandbox-test-'));
+    client = new LocalSandboxClient({ rootDir, executionTimeoutMs: 10_000 });
+    sandbox = await client.create();
+  });
+
+  afterEach(async () => {
+    await sandbox.kill();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('reports the zero-cost local tier', () => {
+    expect(client.tier).toBe('local');
+    expect(sandbox.sandboxId).toMatch(/^local-/);
+  });
+
+  it('runs JavaScript and Python', async () => {
+    const js = await sandbox.runCode('console.log(6 * 7); console.error("warn")', { language: 'javascript' });
+    expect(js).toEqual({ exitCode: 0, logs: { stdout: ['42'], stderr: ['warn'] }, results: [] });
+
+    const python = await sandbox.runCode('print(sum(range(5)))\nraise SystemExit(3)', { language: 'python' });
+    expect(python.exitCode).toBe(3);
+    expect(python.logs.stdout).toEqual(['10']);
+  }, TIMEOUT);
+
+  it('keeps files in the working directory between runs', async () => {
+    await sandbox.runCode('open("data.csv", "w").write("a,b\\n1,2\\n")', { language: 'python' });
+    const result = await sandbox.runCode(
+      'console.log(require("fs").readFileSync("data.csv", "utf8").trim().split("\\n").length)',
+      { language: 'js' }
+    );
+    expect(result.logs.stdout).toEqual(['2']);
+    expect(await sandbox.files.read('/data.csv')).toBe('a,b\n1,2\n');
+  }, TIMEOUT);
+
+  it('uploads and downloads files', async () => {
+    await sandbox.files.write('input/rates.json', '{"rate":0.2}');
+    await sandbox.files.write('blob.bin', new Uint8Array([1, 2, 3]));
+
+    const result = await sandbox.runCode(
+      'import json\nrate = json.load(open("input/rates.json"))["rate"]\nopen("out.txt", "w").write(str(rate * 100))',
+      { language: 'python' }
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(await sandbox.files.read('out.txt')).toBe('20.0');
+    expect(Array.from(await sandbox.files.readBytes('blob.bin'))).toEqual([1, 2, 3]);
+    expect(await sandbox.files.list()).toEqual(['blob.bin', 'input/', 'out.txt']);
+  }, TIMEOUT);
+
+  it('rejects paths outside the working directory', async () => {
+    await expect(sandbox.files.read('../sandbox.json')).rejects.toThrow('outside the sandbox working directory');
+    await expect(sandbox.files.write('a/../../escape.txt', 'x')).rejects.toThrow('outside the sandbox');
+
+    await sandbox.runCode('require("fs").symlinkSync("/etc/hostname", "link")', { language: 'javascript' });
+    await expect(sandbox.files.read('link')).rejects.toThrow('outside the sandbox');
+  }, TIMEOUT);
+
+  it('does not pass the host environment to code', async () => {
+    process.env.LOCAL_SANDBOX_TEST_SECRET = 'secret';
+    try {
+      const result = await sandbox.runCode('console.log(process.env.LOCAL_SANDBOX_TEST_SECRET ?? "unset")', {
+        language: 'javascript',
+      });
+      expect(result.logs.stdout).toEqual(['unset']);
+    } finally {
+      delete process.env.LOCAL_SANDBOX_TEST_SECRET;
+    }
+  }, TIMEOUT);
+
+  it('kills code that exceeds the time limit', async () => {
+    const slowClient = new LocalSandboxClient({ rootDir, executionTimeoutMs: 500 });
+    const slow = await slowClient.create();
+
+    const result = await slow.runCode('while (true) {}', { language: 'javascript' });
+
+    expect(result.exitCode).toBe(124);
+    expect(result.logs.stderr).toContain('Execution timed out after 500ms');
+    await slow.kill();
+  }, TIMEOUT);
+
+  it('truncates large output', async () => {
+    const smallClient = new LocalSandboxClient({ rootDir, maxOutputBytes: 10 });
+    const small = await smallClient.create();
+
+    const result = await small.runCode('print("x" * 100)', { language: 'python' });
+
+    expect(result.logs.stdout).toEqual(['xxxxxxxxxx']);
+    expect(result.logs.stderr).toEqual(['[output truncated to 10 bytes]']);
+    await small.kill();
+  }, TIMEOUT);
+
+  it('rejects unsupported languages', async () => {
+    const result = await sandbox.runCode('const x: number = 1', { language: 'typescript' });
+    expect(result.exitCode).toBe(1);
+    expect(result.logs.stderr[0]).toContain('"typescript" is not supported');
+  });
+
+  describe('network isolation', () => {
+    let server: Server;
+    let port: number;
+    let connections: number;
+
+    beforeEach(async () => {
+      connections = 0;
+      server = createServer(socket => {
+        connections += 1;
+        socket.destroy();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as { port: number }).port;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('blocks connections from JavaScript', async () => {
+      const result = await sandbox.runCode(
+        `require('net').connect(${port}, '127.0.0.1').on('connect', () => console.log('connected'))`,
+        { language: 'javascript' }
+      );
+
+      expect(result.logs.stdout).not.toContain('connected');
+      expect(connections).toBe(0);
+    }, TIMEOUT);
+
+    it('blocks sockets and DNS with in-process guards', async () => {
+      const guarded = await new LocalSandboxClient({ rootDir, networkIsolation: 'guard' }).create();
+
+      const python = await guarded.runCode(
+        `import socket\ntry:\n    socket.create_connection(('127.0.0.1', ${port}))\n    print('connected')\nexcept OSError as e:\n    print(e)`,
+        { language: 'python' }
+      );
+      const js = await guarded.runCode(`require('dns').lookup('example.com', () => {})`, { language: 'javascript' });
+
+      expect(python.logs.stdout).toEqual(['Network access is disabled in the local sandbox']);
+      expect(js.exitCode).not.toBe(0);
+      expect(js.logs.stderr.join('\n')).toContain('Network access is disabled in the local sandbox');
+      expect(connections).toBe(0);
+      await guarded.kill();
+    }, TIMEOUT);
+
+    it('refuses all code without a network namespace unless guards are opted into', async () => {
+      // Hide unshare so the namespace probe fails
+      const hostPath = process.env.PATH;
+      process.env.PATH = '';
+      try {
+        const unisolated = await new LocalSandboxClient({ rootDir }).create();
+        const result = await unisolated.runCode('print(1)', { language: 'python' });
+
+        expect(result.exitCode).toBe(1);
+        expect(result.logs.stderr[0]).toContain("set networkIsolation to 'guard'");
+        await unisolated.kill();
+      } finally {
+        process.env.PATH = hostPath;
+      }
+    });
+
+    it('refuses shell code without a network namespace', async () => {
+      const guarded = await new LocalSandboxClient({ rootDir, networkIsolation: 'guard' }).create();
+
+      const result = await guarded.runCode('echo hi', { language: 'bash' });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.logs.stderr[0]).toContain('cannot run in the local sandbox without network namespaces');
+      await guarded.kill();
+    });
+  });
+
+  describe('filesystem isolation', () => {
+    let hostFile: string;
+
+    beforeEach(async () => {
+      // Outside the working directory but inside the sandbox root, so readable by the sandbox user on the host
+      hostFile = path.join(rootDir, 'host-secret.txt');
+      await writeFile(hostFile, 'secret');
+    });
+
+    it('cannot read host files outside the working directory', async () => {
+      const python = await sandbox.runCode(
+        `try:\n    print(open(${JSON.stringify(hostFile)}).read())\nexcept OSError as e:\n    print(type(e).__name__)`,
+        { language: 'python' }
+      );
+      const js = await sandbox.runCode(
+        `const fs = require('fs');\nconsole.log(fs.existsSync(${JSON.stringify(hostFile)}), fs.existsSync(${JSON.stringify(rootDir)}));`,
+        { language: 'javascript' }
+      );
+
+      expect(python.logs.stdout).toEqual(['FileNotFoundError']);
+      expect(js.logs.stdout).toEqual(['false false']);
+    }, TIMEOUT);
+
+    it('runs code as an unprivileged user', async () => {
+      const result = await sandbox.runCode('import os\nprint(os.getuid(), os.getcwd())', { language: 'python' });
+
+      expect(result.logs.stdout).toEqual(['65534 /home/sandbox']);
+    }, TIMEOUT);
+
+    it('does not follow symlinks left by code when writing files', async () => {
+      await sandbox.runCode(`require('fs').symlinkSync(${JSON.stringify(hostFile)}, 'out.txt')`, {
+        language: 'javascript',
+      });
+
+      await expect(sandbox.files.write('out.txt', 'overwritten')).rejects.toThrow();
+      expect(await readFile(hostFile, 'utf8')).toBe('secret');
+    }, TIMEOUT);
+
+    it('refuses all code without a mount namespace unless the host filesystem is opted into', async () => {
+      // Hide unshare so the namespace probes fail
+      const hostPath = process.env.PATH;
+      process.env.PATH = '';
+      try {
+        const unisolated = await new LocalSandboxClient({ rootDir, networkIsolation: 'guard' }).create();
+        const result = await unisolated.runCode('console.log(1)', { language: 'javascript' });
+
+        expect(result.exitCode).toBe(1);
+        expect(result.logs.stderr[0]).toContain("set filesystemIsolation to 'none'");
+        await unisolated.kill();
+      } finally {
+        process.env.PATH = hostPath;
+      }
+    });
+  });
+
+  describe('reconnect', () => {
+    it('returns the sandbox with its files', async () => {
+      await sandbox.files.write('state.txt', 'kept');
+
+      const reconnected = await new LocalSandboxClient({ rootDir }).reconnect(sandbox.sandboxId);
+
+      expect(reconnected.sandboxId).toBe(sandbox.sandboxId);
+      expect(await reconnected.files.read('state.txt')).toBe('kept');
+    });
+
+    it('rejects unknown and killed sandboxes', async () => {
+      await expect(client.reconnect('../etc')).rejects.toThrow('Unknown local sandbox');
+      await expect(client.reconnect('local-00000000-0000-0000-0000-000000000000')).rejects.toThrow(
+        'no longer exists'
+      );
+
+      await sandbox.kill();
+      await expect(client.reconnect(sandbox.sandboxId)).rejects.toThrow('no longer exists');
+      await expect(sandbox.runCode('print(1)')).rejects.toThrow('has been killed');
+    });
+
+    it('removes expired sandboxes', async () => {
+      const expired = await client.create({ timeout: 1 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await expect(client.reconnect(expired.sandboxId)).rejects.toThrow('has expired');
+      await expect(stat(path.join(rootDir, expired.sandboxId))).rejects.toThrow();
+    });
+  });
+});
+
+describe('ExecutionContextManager with LocalSandboxClient', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), 'local-sandbox-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('creates local sandboxes without spending E2B quota', async () => {
+    const contexts: ExecutionContext[] = [];
+    const store: ExecutionContextStore = {
+      createContext: vi.fn(async input => {
+        const now = new Date();
+        const context: ExecutionContext = {
+          id: 'context-1',
+          tenantId: input.tenantId,
+          conversationId: input.conversationId,
+          pathId: input.pathId,
+          sandboxId: input.sandboxId,
+          sandboxStatus: 'ready',
+          createdAt: now,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + 30 * 60_000),
+        };
+        contexts.push(context);
+        return context;
+      }),
+      getContextByPath: vi.fn(async () => contexts[0] ?? null),
+      touchContext: vi.fn(async () => {}),
+      updateStatus: vi.fn(async () => {}),
+      terminateContext: vi.fn(async () => {}),
+      getExpiredContexts: vi.fn(async () => []),
+      isReady: vi.fn(async () => true),
+    };
+    const quotaCheckCallback = vi.fn(async () => ({ allowed: false, reason: 'over quota' }));
+    const manager = new ExecutionContextManager({
+      store,
+      e2bClient: new LocalSandboxClient({ rootDir }),
+      quotaCheckCallback,
+    });
+    const input = { tenantId: 'tenant-1', conversationId: 'conversation-1', pathId: 'path-1' };
+
+    const created = await manager.getOrCreateContext(input);
+    await created.sandbox.files?.write('result.txt', '42');
+
+    // A new manager (e.g. after a restart) reconnects to the sandbox by ID
+    const restarted = new ExecutionContextManager({ store, e2bClient: new LocalSandboxClient({ rootDir }) });
+    const reused = await restarted.getOrCreateContext(input);
+
+    expect(created.wasCreated).toBe(true);
+    expect(quotaCheckCallback).not.toHaveBeenCalled();
+    expect(reused.wasCreated).toBe(false);
+    expect(reused.sandbox.sandboxId).toBe(created.sandbox.sandboxId);
+    expect(await reused.sandbox.files?.read('result.txt')).toBe('42');
+    await reused.sandbox.kill();
+  });
+});
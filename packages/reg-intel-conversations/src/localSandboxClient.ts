@@ -0,0 +1,880 @@
+/**
+ * Local Sandbox Client - Process-based E2BClient
+ *
+ * Runs Python, JavaScript and shell code in child processes on the host, for
+ * deployments that cannot use E2B (on-prem tenants without remote egress,
+ * offline development). Each sandbox is a directory under `rootDir`:
+ *
+ * - `<sandboxId>/sandbox.json` - creation and expiry time
+ * - `<sandboxId>/work/` - working directory and HOME for code; root of the files API
+ * - `<sandboxId>/tmp/` - TMPDIR
+ * - `<sandboxId>/runtime/` - scripts being run and network guards
+ * - `<sandboxId>/root/` - mount point for a run's filesystem root
+ *
+ * Isolation:
+ * - Every run is a new process group with a minimal environment (no host secrets)
+ * - Wall-clock timeout (the process group is killed), CPU time and memory
+ *   limits (`ulimit` where the OS supports it, V8 heap size for Node)
+ * - No host filesystem: new mount and PID namespaces (`unshare --mount --pid`,
+ *   Linux) whose root (pivot_root) is an empty tmpfs holding read-only system
+ *   directories and interpreters, the working directory at /home/sandbox, TMPDIR
+ *   at /tmp and the runtime directory read-only at /sandbox. Code runs as an
+ *   unprivileged uid (sandboxUser). Without mount namespaces, code is refused
+ *   unless filesystemIsolation is 'none'.
+ * - No network: an empty network namespace (`unshare --net`, Linux). Without
+ *   one, code is refused unless networkIsolation is 'guard', which runs Python
+ *   and Node with guards that make socket and DNS calls fail. Guards are
+ *   best-effort, so shell code is refused even then.
+ *
+ * Unlike E2B, interpreter state does not carry over between runs: each
+ * runCode call is a new process. Files in the working directory do persist,
+ * and a sandbox survives process restarts - it is reconnected by ID until it
+ * expires, so per-path execution contexts keep their files.
+ *
+ * Local compute is reported under the zero-cost 'local' pricing tier.
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import { constants as fsConstants } from 'fs';
+import { chown, lchown, mkdir, readFile, readdir, realpath, rm, writeFile } from 'fs/promises';
+import { constants as osConstants, tmpdir } from 'os';
+import path from 'path';
+import { SandboxError } from '@reg-copilot/reg-intel-core';
+import { createLogger, LOCAL_SANDBOX_TIER } from '@reg-copilot/reg-intel-observability';
+import type { E2BClient, E2BSandbox, E2BSandboxFiles } from './executionContextManager.js';
+
+const logger = createLogger('LocalSandboxClient');
+
+export type LocalSandboxLanguage = 'python' | 'javascript' | 'bash' | 'sh';
+
+/**
+ * How code is kept off the network:
+ * - namespace: run in an empty network namespace; sandbox creation fails if unavailable
+ * - guard: opt in to blocking sockets and DNS inside Python and Node only; shell code is refused
+ * - auto: namespace when available, otherwise all code is refused
+ */
+export type LocalSandboxNetworkIsolation = 'auto' | 'namespace' | 'guard';
+
+/**
+ * How code is kept off the host filesystem:
+ * - namespace: run in a mount namespace holding only the sandbox directories,
+ *   read-only system directories and interpreters; code is refused if unavailable
+ * - none: opt in to running code with the host filesystem visible (trusted code only)
+ */
+export type LocalSandboxFilesystemIsolation = 'namespace' | 'none';
+
+/**
+ * Configuration for LocalSandboxClient
+ */
+export interface LocalSandboxClientConfig {
+  /** Directory holding sandbox directories (default: `<os tmpdir>/reg-copilot-sandboxes`) */
+  rootDir?: string;
+
+  /** Wall-clock limit per run in milliseconds (default: 60000) */
+  executionTimeoutMs?: number;
+
+  /** CPU time limit per run in seconds (default: 60) */
+  cpuTimeLimitSeconds?: number;
+
+  /** Memory limit per run in MB (default: 1024) */
+  memoryLimitMb?: number;
+
+  /** Maximum bytes kept from each of stdout and stderr per run (default: 1 MB) */
+  maxOutputBytes?: number;
+
+  /** Network isolation mode (default: 'auto') */
+  networkIsolation?: LocalSandboxNetworkIsolation;
+
+  /** Filesystem isolation mode (default: 'namespace') */
+  filesystemIsolation?: LocalSandboxFilesystemIsolation;
+
+  /**
+   * Unprivileged user code runs as with filesystem isolation (default: 65534,
+   * nobody). When the application runs as root this is the host uid and the
+   * sandbox directories are chowned to it; otherwise a user namespace maps it
+   * onto the application's own uid.
+   */
+  sandboxUser?: { uid: number; gid: number };
+
+  /**
+   * Extra host paths visible read-only with filesystem isolation, e.g. a
+   * virtualenv. System directories and the interpreters' install prefixes are
+   * always visible.
+   */
+  readOnlyPaths?: string[];
+
+  /** Interpreter commands (defaults: python3, the running Node binary, bash, sh) */
+  interpreters?: Partial<Record<LocalSandboxLanguage, string>>;
+}
+
+type RunCodeResult = Awaited<ReturnType<E2BSandbox['runCode']>>;
+
+interface RunIsolation {
+  networkNamespace: boolean;
+  mountNamespace: boolean;
+}
+
+interface SandboxMetadata {
+  sandboxId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const SANDBOX_ID_PATTERN = /^local-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const METADATA_FILE = 'sandbox.json';
+const DEFAULT_SANDBOX_TIMEOUT_MS = 600_000;
+const NETWORK_DISABLED_MESSAGE = 'Network access is disabled in the local sandbox';
+const NOBODY = { uid: 65534, gid: 65534 };
+
+/** Where the sandbox directories appear inside a run's mount namespace */
+const ISOLATED_PATHS = { work: '/home/sandbox', tmp: '/tmp', runtime: '/sandbox' };
+
+/** Host paths visible read-only inside a run's mount namespace (missing ones are skipped) */
+const SYSTEM_PATHS = [
+  '/usr',
+  '/bin',
+  '/sbin',
+  '/lib',
+  '/lib32',
+  '/lib64',
+  '/libx32',
+  '/etc/alternatives',
+  '/etc/ld.so.cache',
+  '/etc/ld.so.conf',
+  '/etc/ld.so.conf.d',
+  '/etc/localtime',
+];
+
+const LANGUAGE_ALIASES: Record<string, LocalSandboxLanguage> = {
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+  javascript: 'javascript',
+  js: 'javascript',
+  node: 'javascript',
+  bash: 'bash',
+  sh: 'sh',
+};
+
+const SCRIPT_EXTENSIONS: Record<LocalSandboxLanguage, string> = {
+  python: 'py',
+  javascript: 'js',
+  bash: 'sh',
+  sh: 'sh',
+};
+
+/** Loaded through PYTHONPATH when network namespaces are unavailable */
+const PYTHON_NETWORK_GUARD = `import socket as _socket
+
+def _deny(*args, **kwargs):
+    raise OSError(${JSON.stringify(NETWORK_DISABLED_MESSAGE)})
+
+class _GuardedSocket(_socket.socket):
+    def connect(self, address):
+        if self.family == getattr(_socket, 'AF_UNIX', None):
+            return super().connect(address)
+        _deny()
+
+    def connect_ex(self, address):
+        if self.family == getattr(_socket, 'AF_UNIX', None):
+            return super().connect_ex(address)
+        _deny()
+
+    def sendto(self, *args):
+        _deny()
+
+_socket.socket = _GuardedSocket
+_socket.getaddrinfo = _deny
+_socket.gethostbyname = _deny
+_socket.gethostbyname_ex = _deny
+`;
+
+/** Preloaded with --require when network namespaces are unavailable */
+const NODE_NETWORK_GUARD = `'use strict';
+const net = require('net');
+const dgram = require('dgram');
+const dns = require('dns');
+
+const deny = () => {
+  throw new Error(${JSON.stringify(NETWORK_DISABLED_MESSAGE)});
+};
+
+const connect = net.Socket.prototype.connect;
+net.Socket.prototype.connect = function (...args) {
+  const [first] = args;
+  const isPipe =
+    (typeof first === 'object' && first !== null && typeof first.path === 'string') ||
+    (typeof first === 'string' && Number.isNaN(Number(first)));
+  return isPipe ? connect.apply(this, args) : deny();
+};
+dgram.createSocket = deny;
+for (const api of [dns, dns.promises]) {
+  for (const name of ['lookup', 'lookupService', 'resolve', 'resolve4', 'resolve6', 'resolveAny']) {
+    api[name] = deny;
+  }
+}
+`;
+
+/**
+ * Builds a run's filesystem root inside new mount and PID namespaces, then
+ * execs the remaining arguments in it.
+ * Arguments: <root mount point> <work> <tmp> <runtime> <read-only paths...> -- <command...>
+ */
+const MOUNT_NAMESPACE_SETUP = `set -e
+command_path=$PATH
+PATH=/usr/sbin:/usr/bin:/sbin:/bin
+root=$1 work=$2 tmp=$3 runtime=$4
+shift 4
+mount -t tmpfs -o mode=0755 sandbox-root "$root"
+while [ "$1" != -- ]; do
+  if [ -L "$1" ]; then
+    mkdir -p "$root$(dirname "$1")"
+    ln -s "$(readlink "$1")" "$root$1"
+  elif [ -e "$1" ]; then
+    if [ -d "$1" ]; then mkdir -p "$root$1"; else mkdir -p "$root$(dirname "$1")"; touch "$root$1"; fi
+    mount --rbind "$1" "$root$1"
+    mount -o remount,bind,ro "$root$1"
+  fi
+  shift
+done
+shift
+mkdir -p "$root${ISOLATED_PATHS.work}" "$root${ISOLATED_PATHS.tmp}" "$root${ISOLATED_PATHS.runtime}" "$root/dev" "$root/proc"
+mount --bind "$work" "$root${ISOLATED_PATHS.work}"
+mount --bind "$tmp" "$root${ISOLATED_PATHS.tmp}"
+mount --bind "$runtime" "$root${ISOLATED_PATHS.runtime}"
+mount -o remount,bind,ro "$root${ISOLATED_PATHS.runtime}"
+for dev in null zero random urandom; do
+  touch "$root/dev/$dev"
+  mount --bind "/dev/$dev" "$root/dev/$dev"
+done
+mount -t proc proc "$root/proc" 2>/dev/null || rmdir "$root/proc"
+cd "$root"
+mkdir .host
+pivot_root . .host
+umount -l /.host
+rmdir /.host
+mount -o remount,bind,ro /
+cd ${ISOLATED_PATHS.work}
+PATH=$command_path
+exec "$@"
+`;
+
+function failure(message: string): RunCodeResult {
+  return { exitCode: 1, logs: { stdout: [], stderr: [message] }, results: [] };
+}
+
+function toLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith(`..${path.sep}`) && relative !== '..' && !path.isAbsolute(relative));
+}
+
+function runProcess(command: string, args: string[]): Promise<{ exitCode: number | null; stdout: string }> {
+  return new Promise(resolve => {
+    let stdout = '';
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    child.stdout?.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString('utf8');
+    });
+    child.on('error', () => resolve({ exitCode: null, stdout }));
+    child.on('close', exitCode => resolve({ exitCode, stdout }));
+  });
+}
+
+/**
+ * Collects process output up to a byte limit
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  push(chunk: Buffer): void {
+    const remaining = this.limit - this.bytes;
+    if (remaining <= 0) {
+      this.truncated = true;
+      return;
+    }
+    const kept = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+    this.truncated ||= kept.length < chunk.length;
+    this.chunks.push(kept);
+    this.bytes += kept.length;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
+
+/**
+ * Settings and host capability checks shared by a client's sandboxes
+ */
+class LocalSandboxRuntime {
+  readonly rootDir: string;
+  readonly executionTimeoutMs: number;
+  readonly cpuTimeLimitSeconds: number;
+  readonly memoryLimitMb: number;
+  readonly maxOutputBytes: number;
+  readonly networkIsolation: LocalSandboxNetworkIsolation;
+  readonly filesystemIsolation: LocalSandboxFilesystemIsolation;
+  readonly sandboxUser: { uid: number; gid: number };
+  /** Whether the application runs as root, so code can run as another host uid */
+  readonly runsAsRoot = process.getuid?.() === 0;
+  private readonly readOnlyPaths: string[];
+  private readonly interpreters: Record<LocalSandboxLanguage, string>;
+  private namespaceAvailable?: Promise<boolean>;
+  private mountNamespaceAvailable?: Promise<boolean>;
+  private pythonExecutable?: Promise<string | null>;
+
+  constructor(config: LocalSandboxClientConfig) {
+    this.rootDir = path.resolve(config.rootDir ?? path.join(tmpdir(), 'reg-copilot-sandboxes'));
+    this.executionTimeoutMs = config.executionTimeoutMs ?? 60_000;
+    this.cpuTimeLimitSeconds = config.cpuTimeLimitSeconds ?? 60;
+    this.memoryLimitMb = config.memoryLimitMb ?? 1024;
+    this.maxOutputBytes = config.maxOutputBytes ?? 1_000_000;
+    this.networkIsolation = config.networkIsolation ?? 'auto';
+    this.filesystemIsolation = config.filesystemIsolation ?? 'namespace';
+    this.sandboxUser = config.sandboxUser ?? NOBODY;
+    this.readOnlyPaths = (config.readOnlyPaths ?? []).map(dir => path.resolve(dir));
+    this.interpreters = {
+      python: 'python3',
+      javascript: process.execPath,
+      bash: 'bash',
+      sh: 'sh',
+      ...config.interpreters,
+    };
+  }
+
+  /**
+   * Whether runs get their own network namespace; false means network guards
+   *
+   * @throws SandboxError if namespaces are required but unavailable
+   */
+  async usesNetworkNamespace(): Promise<boolean> {
+    if (this.networkIsolation === 'guard') {
+      return false;
+    }
+
+    this.namespaceAvailable ??= runProcess('unshare', ['--net', '--map-root-user', 'true']).then(
+      result => result.exitCode === 0
+    );
+    const available = await this.namespaceAvailable;
+
+    if (!available && this.networkIsolation === 'namespace') {
+      throw new SandboxError(
+        'Network namespaces are not available on this host (unshare --net failed); ' +
+          "use networkIsolation 'guard' to fall back to in-process network guards"
+      );
+    }
+    return available;
+  }
+
+  /**
+   * Whether runs get their own mount namespace; false means code is refused
+   * unless filesystemIsolation is 'none'
+   */
+  async usesMountNamespace(): Promise<boolean> {
+    if (this.filesystemIsolation === 'none') {
+      return false;
+    }
+
+    this.mountNamespaceAvailable ??= runProcess('unshare', [
+      ...this.namespaceUserArgs(),
+      '--mount',
+      '--pid',
+      '--fork',
+      'true',
+    ]).then(result => result.exitCode === 0);
+    return this.mountNamespaceAvailable;
+  }
+
+  /**
+   * Owner for files the application writes into a sandbox, so code running
+   * as sandboxUser can change them; undefined when no chown is needed
+   */
+  get fileOwner(): { uid: number; gid: number } | undefined {
+    return this.runsAsRoot && this.filesystemIsolation !== 'none' ? this.sandboxUser : undefined;
+  }
+
+  /**
+   * Without root, mounting needs a user namespace in which the application is root
+   */
+  namespaceUserArgs(): string[] {
+    return this.runsAsRoot ? [] : ['--user', '--map-root-user'];
+  }
+
+  /**
+   * Command prefix that drops from namespace root to sandboxUser
+   */
+  dropPrivilegesArgs(): string[] {
+    const { uid, gid } = this.sandboxUser;
+    return this.runsAsRoot
+      ? ['setpriv', `--reuid=${uid}`, `--regid=${gid}`, '--clear-groups', '--no-new-privs', '--inh-caps=-all', '--bounding-set=-all', '--']
+      : ['unshare', '--user', `--map-user=${uid}`, `--map-group=${gid}`, '--'];
+  }
+
+  /**
+   * Host paths visible read-only to code run by an interpreter: system
+   * directories, configured paths and the interpreter's install prefix
+   */
+  async readOnlyPathsFor(interpreter: string): Promise<string[]> {
+    const paths = [...SYSTEM_PATHS, ...this.readOnlyPaths];
+    if (path.isAbsolute(interpreter)) {
+      const executable = await realpath(interpreter).catch(() => null);
+      const prefix = executable ? path.dirname(path.dirname(executable)) : null;
+      if (prefix && !paths.some(dir => isWithin(dir, prefix))) {
+        paths.push(prefix);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Interpreter command for a language. The Python command is resolved to its
+   * executable once, because version-manager shims need the host environment.
+   */
+  async interpreterFor(language: LocalSandboxLanguage): Promise<string | null> {
+    if (language !== 'python') {
+      return this.interpreters[language];
+    }
+
+    this.pythonExecutable ??= runProcess(this.interpreters.python, ['-c', 'import sys; print(sys.executable)']).then(
+      result => (result.exitCode === 0 && result.stdout.trim() ? result.stdout.trim() : null)
+    );
+    return this.pythonExecutable;
+  }
+}
+
+/**
+ * Files in a local sandbox's working directory
+ */
+class LocalSandboxFiles implements E2BSandboxFiles {
+  constructor(
+    private readonly workDir: string,
+    private readonly assertAlive: () => void,
+    private readonly owner?: { uid: number; gid: number }
+  ) {}
+
+  /**
+   * Resolve a sandbox path (absolute paths are taken relative to the working
+   * directory), refusing paths and symlinks that lead outside it. New paths
+   * are checked from their nearest existing directory.
+   */
+  private async resolve(filePath: string, options: { mustExist: boolean }): Promise<string> {
+    this.assertAlive();
+    const resolved = path.resolve(this.workDir, filePath.replace(/^\/+/, ''));
+    if (!isWithin(this.workDir, resolved)) {
+      throw new SandboxError(`Path "${filePath}" is outside the sandbox working directory`);
+    }
+
+    const root = await realpath(this.workDir);
+    let existing = options.mustExist ? resolved : path.dirname(resolved);
+    let real = await realpath(existing).catch(() => null);
+    while (!real && !options.mustExist && existing !== this.workDir) {
+      existing = path.dirname(existing);
+      real = await realpath(existing).catch(() => null);
+    }
+    if (real && !isWithin(root, real)) {
+      throw new SandboxError(`Path "${filePath}" is outside the sandbox working directory`);
+    }
+    return resolved;
+  }
+
+  async write(filePath: string, data: string | Uint8Array): Promise<void> {
+    const resolved = await this.resolve(filePath, { mustExist: false });
+    await mkdir(path.dirname(resolved), { recursive: true });
+    // Code can leave a symlink in the file's place, so it is not followed
+    await writeFile(resolved, data, {
+      flag: fsConstants.O_WRONLY | fsConstants.O_CREAT | fsConstants.O_TRUNC | fsConstants.O_NOFOLLOW,
+    });
+
+    if (this.owner) {
+      for (let entry = resolved; entry !== this.workDir; entry = path.dirname(entry)) {
+        await lchown(entry, this.owner.uid, this.owner.gid);
+      }
+    }
+  }
+
+  async read(filePath: string): Promise<string> {
+    return readFile(await this.resolve(filePath, { mustExist: true }), 'utf8');
+  }
+
+  async readBytes(filePath: string): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(await this.resolve(filePath, { mustExist: true })));
+  }
+
+  /**
+   * Entries of a directory; directories end with `/`
+   */
+  async list(dirPath = '.'): Promise<string[]> {
+    const entries = await readdir(await this.resolve(dirPath, { mustExist: true }), { withFileTypes: true });
+    return entries.map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name)).sort();
+  }
+}
+
+/**
+ * A sandbox backed by a directory on the host
+ */
+export class LocalSandbox implements E2BSandbox {
+  readonly files: LocalSandboxFiles;
+  private readonly workDir: string;
+  private readonly tmpDir: string;
+  private readonly runtimeDir: string;
+  private readonly mountDir: string;
+  private readonly running = new Set<ChildProcess>();
+  private killed = false;
+
+  constructor(
+    readonly sandboxId: string,
+    readonly expiresAt: Date,
+    private readonly dir: string,
+    private readonly runtime: LocalSandboxRuntime
+  ) {
+    this.workDir = path.join(dir, 'work');
+    this.tmpDir = path.join(dir, 'tmp');
+    this.runtimeDir = path.join(dir, 'runtime');
+    this.mountDir = path.join(dir, 'root');
+    this.files = new LocalSandboxFiles(this.workDir, () => this.assertAlive(), runtime.fileOwner);
+  }
+
+  private assertAlive(): void {
+    if (this.killed) {
+      throw new SandboxError(`Local sandbox ${this.sandboxId} has been killed`);
+    }
+  }
+
+  async runCode(code: string, opts?: { language?: string }): Promise<RunCodeResult> {
+    this.assertAlive();
+
+    const requested = opts?.language ?? 'python';
+    const language = LANGUAGE_ALIASES[requested.toLowerCase()];
+    if (!language) {
+      return failure(`Language "${requested}" is not supported by the local sandbox`);
+    }
+
+    const useNamespace = await this.runtime.usesNetworkNamespace();
+    if (!useNamespace && this.runtime.networkIsolation !== 'guard') {
+      return failure(
+        'Code cannot run in the local sandbox without network namespaces (unshare --net); ' +
+          "set networkIsolation to 'guard' to accept in-process network guards for Python and JavaScript"
+      );
+    }
+    if (!useNamespace && (language === 'bash' || language === 'sh')) {
+      return failure(
+        `${language} code cannot run in the local sandbox without network namespaces (unshare --net); ` +
+          'use Python or JavaScript'
+      );
+    }
+
+    const useMountNamespace = await this.runtime.usesMountNamespace();
+    if (!useMountNamespace && this.runtime.filesystemIsolation !== 'none') {
+      return failure(
+        'Code cannot run in the local sandbox without mount namespaces (unshare --mount); ' +
+          "set filesystemIsolation to 'none' to run trusted code with the host filesystem visible"
+      );
+    }
+
+    const interpreter = await this.runtime.interpreterFor(language);
+    if (!interpreter) {
+      return failure(`No ${language} interpreter is available for the local sandbox`);
+    }
+
+    const scriptName = `${randomUUID()}.${SCRIPT_EXTENSIONS[language]}`;
+    await writeFile(path.join(this.runtimeDir, scriptName), code);
+
+    try {
+      const isolation: RunIsolation = { networkNamespace: useNamespace, mountNamespace: useMountNamespace };
+      const command = await this.buildCommand(language, interpreter, scriptName, isolation);
+      return await this.execute(command, language, isolation);
+    } finally {
+      await rm(path.join(this.runtimeDir, scriptName), { force: true });
+    }
+  }
+
+  /**
+   * Sandbox directories as code sees them
+   */
+  private pathsFor(isolation: RunIsolation): { work: string; tmp: string; runtime: string } {
+    return isolation.mountNamespace
+      ? ISOLATED_PATHS
+      : { work: this.workDir, tmp: this.tmpDir, runtime: this.runtimeDir };
+  }
+
+  private async buildCommand(
+    language: LocalSandboxLanguage,
+    interpreter: string,
+    scriptName: string,
+    isolation: RunIsolation
+  ): Promise<string[]> {
+    const { cpuTimeLimitSeconds, memoryLimitMb } = this.runtime;
+    const runtimeDir = this.pathsFor(isolation).runtime;
+    const scriptPath = path.posix.join(runtimeDir, scriptName);
+    const interpreterArgs =
+      language === 'javascript'
+        ? [
+            `--max-old-space-size=${memoryLimitMb}`,
+            ...(isolation.networkNamespace ? [] : ['--require', path.posix.join(runtimeDir, 'network-guard.cjs')]),
+            scriptPath,
+          ]
+        : [scriptPath];
+
+    // V8 reserves far more address space than it uses, so Node is limited by heap size instead
+    const limits = [`ulimit -t ${cpuTimeLimitSeconds}`];
+    if (language !== 'javascript') {
+      limits.push(`ulimit -v ${memoryLimitMb * 1024}`);
+    }
+    const shell = [
+      '/bin/sh',
+      '-c',
+      `${limits.map(limit => `${limit} 2>/dev/null`).join('; ')}; exec "$@"`,
+      'sandbox',
+      interpreter,
+      ...interpreterArgs,
+    ];
+
+    if (!isolation.mountNamespace) {
+      return isolation.networkNamespace ? ['unshare', '--net', '--map-root-user', ...shell] : shell;
+    }
+
+    // The mount point is created here as well, for sandboxes created before it existed
+    await mkdir(this.mountDir, { recursive: true });
+    return [
+      'unshare',
+      ...this.runtime.namespaceUserArgs(),
+      '--mount',
+      '--pid',
+      '--fork',
+      ...(isolation.networkNamespace ? ['--net'] : []),
+      '/bin/sh',
+      '-c',
+      MOUNT_NAMESPACE_SETUP,
+      'sandbox-setup',
+      this.mountDir,
+      this.workDir,
+      this.tmpDir,
+      this.runtimeDir,
+      ...(await this.runtime.readOnlyPathsFor(interpreter)),
+      '--',
+      ...this.runtime.dropPrivilegesArgs(),
+      ...shell,
+    ];
+  }
+
+  private execute(command: string[], language: LocalSandboxLanguage, isolation: RunIsolation): Promise<RunCodeResult> {
+    const timeoutMs = this.runtime.executionTimeoutMs;
+    const paths = this.pathsFor(isolation);
+    const env: NodeJS.ProcessEnv = {
+      PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+      HOME: paths.work,
+      TMPDIR: paths.tmp,
+      LANG: 'C.UTF-8',
+      PYTHONDONTWRITEBYTECODE: '1',
+      PYTHONUNBUFFERED: '1',
+      PYTHONNOUSERSITE: '1',
+      OPENBLAS_NUM_THREADS: '1',
+      OMP_NUM_THREADS: '1',
+      ...(language === 'python' && !isolation.networkNamespace ? { PYTHONPATH: paths.runtime } : {}),
+    };
+
+    return new Promise(resolve => {
+      const stdout = new OutputBuffer(this.runtime.maxOutputBytes);
+      const stderr = new OutputBuffer(this.runtime.maxOutputBytes);
+      let timedOut = false;
+
+      const child = spawn(command[0], command.slice(1), {
+        cwd: this.workDir,
+        env,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      this.running.add(child);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessGroup(child);
+      }, timeoutMs);
+
+      child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        this.running.delete(child);
+        resolve(failure(`Failed to start ${language} in the local sandbox: ${error.message}`));
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        this.running.delete(child);
+
+        const stderrLines = toLines(stderr.toString());
+        if (stdout.truncated || stderr.truncated) {
+          stderrLines.push(`[output truncated to ${this.runtime.maxOutputBytes} bytes]`);
+        }
+        if (timedOut) {
+          stderrLines.push(`Execution timed out after ${timeoutMs}ms`);
+        } else if (signal === 'SIGXCPU') {
+          stderrLines.push(`CPU time limit of ${this.runtime.cpuTimeLimitSeconds}s exceeded`);
+        }
+
+        const exitCode = timedOut ? 124 : code ?? 128 + (signal ? osConstants.signals[signal] ?? 0 : 0);
+        resolve({
+          exitCode,
+          logs: { stdout: toLines(stdout.toString()), stderr: stderrLines },
+          results: [],
+        });
+      });
+    });
+  }
+
+  async kill(): Promise<void> {
+    if (this.killed) {
+      return;
+    }
+    this.killed = true;
+
+    for (const child of this.running) {
+      killProcessGroup(child);
+    }
+    this.running.clear();
+
+    await rm(this.dir, { recursive: true, force: true });
+    logger.info({ sandboxId: this.sandboxId }, 'Local sandbox killed');
+  }
+}
+
+function killProcessGroup(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * E2BClient that runs sandboxes as local child processes
+ */
+export class LocalSandboxClient implements E2BClient {
+  readonly tier = LOCAL_SANDBOX_TIER;
+  private readonly runtime: LocalSandboxRuntime;
+
+  constructor(config: LocalSandboxClientConfig = {}) {
+    this.runtime = new LocalSandboxRuntime(config);
+  }
+
+  /**
+   * Create a sandbox; `timeout` is its lifetime in milliseconds (default: 10 min).
+   * The API key is ignored.
+   */
+  async create(opts?: { apiKey?: string; timeout?: number }): Promise<LocalSandbox> {
+    const useNamespace = await this.runtime.usesNetworkNamespace();
+    if (!useNamespace && this.runtime.networkIsolation === 'auto') {
+      logger.warn("Network namespaces unavailable; local sandbox refuses code unless networkIsolation is 'guard'");
+    }
+    const useMountNamespace = await this.runtime.usesMountNamespace();
+    if (!useMountNamespace && this.runtime.filesystemIsolation === 'namespace') {
+      logger.warn("Mount namespaces unavailable; local sandbox refuses code unless filesystemIsolation is 'none'");
+    }
+
+    await this.removeExpiredSandboxes();
+
+    const sandboxId = `local-${randomUUID()}`;
+    const dir = path.join(this.runtime.rootDir, sandboxId);
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + (opts?.timeout ?? DEFAULT_SANDBOX_TIMEOUT_MS));
+
+    await Promise.all(['work', 'tmp', 'runtime', 'root'].map(sub => mkdir(path.join(dir, sub), { recursive: true })));
+    const owner = this.runtime.fileOwner;
+    if (owner) {
+      await Promise.all(['work', 'tmp'].map(sub => chown(path.join(dir, sub), owner.uid, owner.gid)));
+    }
+    await Promise.all([
+      writeFile(path.join(dir, 'runtime', 'sitecustomize.py'), PYTHON_NETWORK_GUARD),
+      writeFile(path.join(dir, 'runtime', 'network-guard.cjs'), NODE_NETWORK_GUARD),
+      writeFile(
+        path.join(dir, METADATA_FILE),
+        JSON.stringify({ sandboxId, createdAt: createdAt.toISOString(), expiresAt: expiresAt.toISOString() } satisfies SandboxMetadata)
+      ),
+    ]);
+
+    logger.info(
+      { sandboxId, expiresAt: expiresAt.toISOString(), networkNamespace: useNamespace, mountNamespace: useMountNamespace },
+      'Local sandbox created'
+    );
+    return new LocalSandbox(sandboxId, expiresAt, dir, this.runtime);
+  }
+
+  /**
+   * Reconnect to a sandbox created by this or an earlier process
+   *
+   * @throws SandboxError if the sandbox does not exist or has expired
+   */
+  async reconnect(sandboxId: string, _opts?: { apiKey?: string }): Promise<LocalSandbox> {
+    if (!SANDBOX_ID_PATTERN.test(sandboxId)) {
+      throw new SandboxError(`Unknown local sandbox "${sandboxId}"`);
+    }
+
+    const dir = path.join(this.runtime.rootDir, sandboxId);
+    const metadata = await this.readMetadata(dir);
+    if (!metadata) {
+      throw new SandboxError(`Local sandbox ${sandboxId} no longer exists`);
+    }
+
+    const expiresAt = new Date(metadata.expiresAt);
+    if (expiresAt.getTime() <= Date.now()) {
+      await rm(dir, { recursive: true, force: true });
+      throw new SandboxError(`Local sandbox ${sandboxId} has expired`);
+    }
+
+    logger.info({ sandboxId }, 'Reconnected to local sandbox');
+    return new LocalSandbox(sandboxId, expiresAt, dir, this.runtime);
+  }
+
+  private async readMetadata(dir: string): Promise<SandboxMetadata | null> {
+    try {
+      return JSON.parse(await readFile(path.join(dir, METADATA_FILE), 'utf8')) as SandboxMetadata;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete expired sandbox directories left behind by earlier processes
+   */
+  private async removeExpiredSandboxes(): Promise<void> {
+    const entries = await readdir(this.runtime.rootDir).catch(() => [] as string[]);
+    const now = Date.now();
+
+    for (const entry of entries.filter(name => SANDBOX_ID_PATTERN.test(name))) {
+      const dir = path.join(this.runtime.rootDir, entry);
+      const metadata = await this.readMetadata(dir);
+      if (metadata && new Date(metadata.expiresAt).getTime() <= now) {
+        await rm(dir, { recursive: true, force: true });
+        logger.debug({ sandboxId: entry }, 'Removed expired local sandbox');
+      }
+    }
+  }
+}
+
+/**
+ * Create a LocalSandboxClient
+ */
+export function createLocalSandboxClient(config: LocalSandboxClientConfig = {}): LocalSandboxClient {
+  return new LocalSandboxClient(config);
+}
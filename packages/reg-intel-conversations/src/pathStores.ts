@@ -17,6 +17,12 @@ import {
 const logger = createLogger('ConversationPathStore');
 
 import type { SupabaseLikeClient } from './conversationStores.js';
+import {
+  createInMemoryConversationState,
+  type InMemoryConversationState,
+  type StoredConversationMessage,
+  type StoredConversationPath,
+} from './inMemoryConversationState.js';
 import type {
   ConversationPath,
   PathAwareMessage,
@@ -87,6 +93,435 @@ export interface ConversationPathStore {
 // In-Memory Implementation
 // =============================================================================
 
+/**
+ * In-memory implementation of ConversationPathStore
+ *
+ * Works on the same InMemoryConversationState as InMemoryConversationStore and
+ * applies the database triggers and views (branch point marking, message
+ * sequences, message and branch counts) in code.
+ */
+export class InMemoryConversationPathStore implements ConversationPathStore {
+  constructor(private readonly state: InMemoryConversationState = createInMemoryConversationState()) {}
+
+  private findPath(tenantId: string, pathId: string): StoredConversationPath | null {
+    const path = this.state.paths.get(pathId);
+    return path && path.tenantId === tenantId ? path : null;
+  }
+
+  private findMessage(tenantId: string, messageId: string): StoredConversationMessage | null {
+    const message = this.state.messages.get(messageId);
+    return message && message.tenantId === tenantId ? message : null;
+  }
+
+  private ownMessages(pathId: string): StoredConversationMessage[] {
+    return [...this.state.messages.values()]
+      .filter(message => message.pathId === pathId)
+      .sort((a, b) => a.sequenceInPath - b.sequenceInPath);
+  }
+
+  private toPath(path: StoredConversationPath): ConversationPath {
+    let messageCount = 0;
+    for (const message of this.state.messages.values()) {
+      if (message.pathId === path.id) messageCount++;
+    }
+
+    let branchCount = 0;
+    for (const child of this.state.paths.values()) {
+      if (child.parentPathId === path.id && child.isActive) branchCount++;
+    }
+
+    return { ...structuredClone(path), messageCount, branchCount };
+  }
+
+  private toMessage(message: StoredConversationMessage, effectiveSequence?: number): PathAwareMessage {
+    const { traceId: _traceId, rootSpanName: _rootSpanName, rootSpanId: _rootSpanId, ...rest } = structuredClone(message);
+    return effectiveSequence === undefined ? rest : { ...rest, effectiveSequence };
+  }
+
+  private resolveMessages(tenantId: string, pathId: string): PathAwareMessage[] {
+    const path = this.findPath(tenantId, pathId);
+    if (!path) return [];
+
+    const messages: PathAwareMessage[] = [];
+
+    if (path.parentPathId && path.branchPointMessageId) {
+      const parentMessages = this.resolveMessages(tenantId, path.parentPathId);
+      const branchPointIdx = parentMessages.findIndex(m => m.id === path.branchPointMessageId);
+      if (branchPointIdx >= 0) {
+        messages.push(...parentMessages.slice(0, branchPointIdx + 1));
+      }
+    }
+
+    const baseSequence = messages.length;
+    for (const message of this.ownMessages(pathId)) {
+      messages.push(this.toMessage(message, baseSequence + message.sequenceInPath));
+    }
+
+    return messages;
+  }
+
+  async createPath(input: CreatePathInput): Promise<{ pathId: string }> {
+    if (input.isPrimary) {
+      const existingPrimary = await this.getPrimaryPath({
+        tenantId: input.tenantId,
+        conversationId: input.conversationId,
+      });
+      if (existingPrimary) {
+        throw new Error(
+          `Primary path already exists for conversation: ${input.conversationId} (pathId: ${existingPrimary.id})`
+        );
+      }
+    }
+
+    const path = this.state.insertPath(input);
+    this.state.commit();
+    return { pathId: path.id };
+  }
+
+  async getPath(input: GetPathInput): Promise<ConversationPath | null> {
+    const path = this.findPath(input.tenantId, input.pathId);
+    return path ? this.toPath(path) : null;
+  }
+
+  async listPaths(input: ListPathsInput): Promise<ConversationPath[]> {
+    return [...this.state.paths.values()]
+      .filter(path => path.conversationId === input.conversationId && path.tenantId === input.tenantId)
+      .filter(path => input.includeInactive || path.isActive)
+      .filter(path => input.parentPathId === undefined || path.parentPathId === input.parentPathId)
+      .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.createdAt.getTime() - b.createdAt.getTime())
+      .map(path => this.toPath(path));
+  }
+
+  async updatePath(input: UpdatePathInput): Promise<void> {
+    const path = this.findPath(input.tenantId, input.pathId);
+    if (!path) return;
+
+    if (input.name !== undefined) path.name = input.name;
+    if (input.description !== undefined) path.description = input.description;
+    if (input.isActive !== undefined) path.isActive = input.isActive;
+    path.updatedAt = this.state.now();
+
+    this.state.commit();
+  }
+
+  async deletePath(input: DeletePathInput): Promise<void> {
+    const path = this.findPath(input.tenantId, input.pathId);
+    if (!path) {
+      throw new Error('Path not found');
+    }
+    if (path.isPrimary) {
+      throw new Error('Cannot delete primary path');
+    }
+
+    if (input.hardDelete) {
+      this.state.paths.delete(path.id);
+      for (const scenario of this.state.scenarios.values()) {
+        if (scenario.pathId === path.id) {
+          this.state.scenarios.delete(scenario.id);
+        }
+      }
+    } else {
+      path.isActive = false;
+      path.updatedAt = this.state.now();
+    }
+
+    this.state.commit();
+  }
+
+  async resolvePathMessages(input: ResolvePathMessagesInput): Promise<PathAwareMessage[]> {
+    let messages = this.resolveMessages(input.tenantId, input.pathId);
+
+    if (input.options?.includeDeleted === false) {
+      messages = messages.filter(m => !(m.metadata as { deletedAt?: string } | undefined)?.deletedAt);
+    }
+
+    if (input.options?.offset !== undefined || input.options?.limit !== undefined) {
+      const offset = input.options.offset ?? 0;
+      const limit = input.options.limit ?? messages.length;
+      messages = messages.slice(offset, offset + limit);
+    }
+
+    return messages;
+  }
+
+  async getFullPathResolution(input: ResolvePathMessagesInput): Promise<PathResolution> {
+    const path = await this.getPath({ tenantId: input.tenantId, pathId: input.pathId });
+    if (!path) {
+      throw new Error('Path not found');
+    }
+
+    const ancestorPaths: ConversationPath[] = [];
+    let current = this.findPath(input.tenantId, input.pathId);
+    while (current?.parentPathId) {
+      const parent = this.findPath(input.tenantId, current.parentPathId);
+      if (!parent) break;
+      ancestorPaths.unshift(this.toPath(parent));
+      current = parent;
+    }
+
+    const activePaths = await this.listPaths({
+      tenantId: input.tenantId,
+      conversationId: path.conversationId,
+      includeInactive: false,
+    });
+
+    return {
+      messages: await this.resolvePathMessages(input),
+      path,
+      ancestorPaths,
+      branchPoints: await this.getBranchPointsForPath({ tenantId: input.tenantId, pathId: input.pathId }),
+      mergeablePaths: activePaths.filter(p => p.id !== path.id && !p.mergedToPathId && !p.isPrimary),
+    };
+  }
+
+  async getActivePath(input: GetActivePathInput): Promise<ConversationPath | null> {
+    const conversation = this.state.conversations.get(input.conversationId);
+    if (!conversation || conversation.tenantId !== input.tenantId || !conversation.activePathId) {
+      return this.getPrimaryPath(input);
+    }
+
+    return this.getPath({ tenantId: input.tenantId, pathId: conversation.activePathId });
+  }
+
+  async setActivePath(input: SetActivePathInput): Promise<void> {
+    const path = this.findPath(input.tenantId, input.pathId);
+    if (!path || path.conversationId !== input.conversationId) {
+      throw new Error('Path not found or does not belong to this conversation');
+    }
+
+    const conversation = this.state.conversations.get(input.conversationId);
+    if (conversation && conversation.tenantId === input.tenantId) {
+      conversation.activePathId = input.pathId;
+      conversation.updatedAt = this.state.now();
+      this.state.commit();
+    }
+  }
+
+  async branchFromMessage(input: BranchInput): Promise<BranchResult> {
+    const sourceMessage = this.findMessage(input.tenantId, input.sourceMessageId);
+    if (!sourceMessage) {
+      throw new Error('Source message not found');
+    }
+
+    const { pathId } = await this.createPath({
+      tenantId: input.tenantId,
+      conversationId: input.conversationId,
+      parentPathId: sourceMessage.pathId,
+      branchPointMessageId: input.sourceMessageId,
+      name: input.name,
+      description: input.description,
+      isPrimary: false,
+    });
+
+    return {
+      path: (await this.getPath({ tenantId: input.tenantId, pathId }))!,
+      conversationId: input.conversationId,
+      branchPointMessage: this.toMessage(sourceMessage),
+    };
+  }
+
+  async getBranchPointsForPath(input: GetPathInput): Promise<BranchPoint[]> {
+    const messages = await this.resolvePathMessages({
+      tenantId: input.tenantId,
+      pathId: input.pathId,
+    });
+
+    return messages.map(msg => ({
+      messageId: msg.id,
+      messageContent: msg.content.slice(0, 200) + (msg.content.length > 200 ? '...' : ''),
+      messageRole: msg.role,
+      sequenceInPath: msg.effectiveSequence ?? msg.sequenceInPath,
+      branchedPaths: (msg.branchedToPaths ?? [])
+        .map(pid => this.findPath(input.tenantId, pid))
+        .filter((path): path is StoredConversationPath => path !== null)
+        .map(path => this.toPath(path)),
+      canBranch: true,
+    }));
+  }
+
+  async mergePath(input: MergeInput): Promise<MergeResult> {
+    const sourcePath = this.findPath(input.tenantId, input.sourcePathId);
+    const targetPath = this.findPath(input.tenantId, input.targetPathId);
+
+    if (!sourcePath || !targetPath) {
+      throw new Error('Source or target path not found');
+    }
+
+    if (sourcePath.conversationId !== targetPath.conversationId) {
+      throw new Error('Cannot merge paths from different conversations');
+    }
+
+    const sourceOwnMessages = this.ownMessages(input.sourcePathId);
+
+    let summaryMessageId: string | undefined;
+    let mergedMessageIds: string[] | undefined;
+
+    if (input.mergeMode === 'summary') {
+      const summaryContent = input.summaryContent ??
+        `**Merged from: ${sourcePath.name ?? 'Branch'}**\n\n` +
+        sourceOwnMessages.map(m => `[${m.role}]: ${m.content}`).join('\n\n');
+
+      summaryMessageId = this.state.insertMessage({
+        conversationId: targetPath.conversationId,
+        pathId: input.targetPathId,
+        tenantId: input.tenantId,
+        userId: input.userId ?? null,
+        role: 'system',
+        content: summaryContent,
+        messageType: 'merge_summary',
+        metadata: {
+          mergeSource: {
+            pathId: input.sourcePathId,
+            pathName: sourcePath.name,
+            messageCount: sourceOwnMessages.length,
+            mergedAt: new Date().toISOString(),
+          },
+        },
+      }).id;
+    } else if (input.mergeMode === 'full' || input.mergeMode === 'selective') {
+      const messagesToMerge = input.mergeMode === 'selective' && input.selectedMessageIds
+        ? sourceOwnMessages.filter(m => input.selectedMessageIds!.includes(m.id))
+        : sourceOwnMessages;
+
+      mergedMessageIds = messagesToMerge.map(msg => this.state.insertMessage({
+        conversationId: targetPath.conversationId,
+        pathId: input.targetPathId,
+        tenantId: input.tenantId,
+        userId: msg.userId,
+        role: msg.role,
+        content: msg.content,
+        messageType: msg.messageType,
+        metadata: {
+          ...structuredClone(msg.metadata),
+          mergedFrom: {
+            pathId: input.sourcePathId,
+            originalMessageId: msg.id,
+          },
+        },
+      }).id);
+    }
+
+    const now = this.state.now();
+    sourcePath.mergedToPathId = input.targetPathId;
+    sourcePath.mergedAt = now;
+    sourcePath.mergeSummaryMessageId = summaryMessageId ?? null;
+    sourcePath.mergeMode = input.mergeMode;
+    sourcePath.isActive = input.archiveSource !== false ? false : true;
+    sourcePath.updatedAt = now;
+
+    this.state.commit();
+
+    return {
+      success: true,
+      summaryMessageId,
+      mergedMessageIds,
+      targetPath: this.toPath(targetPath),
+      sourcePath: this.toPath(sourcePath),
+    };
+  }
+
+  async previewMerge(input: Omit<MergeInput, 'userId' | 'archiveSource'>): Promise<MergePreview> {
+    const sourcePath = this.findPath(input.tenantId, input.sourcePathId);
+    const targetPath = this.findPath(input.tenantId, input.targetPathId);
+
+    if (!sourcePath || !targetPath) {
+      throw new Error('Source or target path not found');
+    }
+
+    const sourceOwnMessages = this.ownMessages(input.sourcePathId).map(m => this.toMessage(m));
+    const messagesToMerge = input.mergeMode === 'selective' && input.selectedMessageIds
+      ? sourceOwnMessages.filter(m => input.selectedMessageIds!.includes(m.id))
+      : sourceOwnMessages;
+
+    let generatedSummary: string | undefined;
+    if (input.mergeMode === 'summary') {
+      generatedSummary = `Summary of ${messagesToMerge.length} messages from "${sourcePath.name ?? 'Branch'}":\n\n` +
+        messagesToMerge.slice(0, 3).map(m => `- ${m.content.slice(0, 100)}...`).join('\n');
+    }
+
+    return {
+      messagesToMerge,
+      generatedSummary,
+      targetPath: this.toPath(targetPath),
+      sourcePath: this.toPath(sourcePath),
+      estimatedMessageCount: messagesToMerge.length,
+    };
+  }
+
+  async getPrimaryPath(input: { tenantId: string; conversationId: string }): Promise<ConversationPath | null> {
+    for (const path of this.state.paths.values()) {
+      if (path.conversationId === input.conversationId && path.tenantId === input.tenantId && path.isPrimary) {
+        return this.toPath(path);
+      }
+    }
+    return null;
+  }
+
+  async ensurePrimaryPath(input: { tenantId: string; conversationId: string }): Promise<ConversationPath> {
+    const existing = await this.getPrimaryPath(input);
+    if (existing) return existing;
+
+    const { pathId } = await this.createPath({
+      tenantId: input.tenantId,
+      conversationId: input.conversationId,
+      name: 'Main',
+      isPrimary: true,
+    });
+
+    const conversation = this.state.conversations.get(input.conversationId);
+    if (conversation && conversation.tenantId === input.tenantId) {
+      conversation.activePathId = pathId;
+      conversation.updatedAt = this.state.now();
+      this.state.commit();
+    }
+
+    return (await this.getPath({ tenantId: input.tenantId, pathId }))!;
+  }
+
+  // Message Pinning
+  private findConversationMessage(input: { tenantId: string; conversationId: string; messageId: string }) {
+    const message = this.findMessage(input.tenantId, input.messageId);
+    if (!message || message.conversationId !== input.conversationId) {
+      throw new Error('Message not found for tenant conversation');
+    }
+    return message;
+  }
+
+  async pinMessage(input: PinMessageInput): Promise<void> {
+    const message = this.findConversationMessage(input);
+    message.isPinned = true;
+    message.pinnedAt = this.state.now();
+    message.pinnedBy = input.userId;
+    this.state.commit();
+  }
+
+  async unpinMessage(input: UnpinMessageInput): Promise<void> {
+    const message = this.findConversationMessage(input);
+    message.isPinned = false;
+    message.pinnedAt = null;
+    message.pinnedBy = null;
+    this.state.commit();
+  }
+
+  async getPinnedMessages(input: GetPinnedMessagesInput): Promise<PathAwareMessage[]> {
+    if (input.pathId) {
+      return (await this.resolvePathMessages({ tenantId: input.tenantId, pathId: input.pathId }))
+        .filter(message => message.isPinned);
+    }
+
+    return [...this.state.messages.values()]
+      .filter(message => message.conversationId === input.conversationId && message.tenantId === input.tenantId)
+      .filter(message => message.isPinned)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(message => this.toMessage(message));
+  }
+
+  async getPinnedMessageCount(input: GetPinnedMessagesInput): Promise<number> {
+    return (await this.getPinnedMessages(input)).length;
+  }
+}
+
+
 
 // =============================================================================
 // Supabase Implementation
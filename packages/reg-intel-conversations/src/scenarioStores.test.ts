@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { InMemoryConversationStore } from './conversationStores.js';
+import { createInMemoryConversationState, InMemoryConversationState } from './inMemoryConversationState.js';
+import { InMemoryConversationPathStore } from './pathStores.js';
+import { InMemoryConversationScenarioStore, MAX_SCENARIOS_PER_PATH } from './scenarioStores.js';
+
+const TENANT = 'tenant-1';
+
+describe('InMemoryConversationScenarioStore', () => {
+  let state: InMemoryConversationState;
+  let pathStore: InMemoryConversationPathStore;
+  let scenarioStore: InMemoryConversationScenarioStore;
+  let conversationId: string;
+  let pathId: string;
+
+  beforeEach(async () => {
+    state = createInMemoryConversationState();
+    const conversationStore = new InMemoryConversationStore(state);
+    pathStore = new InMemoryConversationPathStore(state);
+    scenarioStore = new InMemoryConversationScenarioStore(state);
+
+    ({ conversationId } = await conversationStore.createConversation({ tenantId: TENANT, userId: 'user-1' }));
+    const primary = await pathStore.getPrimaryPath({ tenantId: TENANT, conversationId });
+    pathId = primary!.id;
+  });
+
+  it('lists a path\'s scenarios in creation order and updates them', async () => {
+    const salary = await scenarioStore.createScenario({
+      tenantId: TENANT,
+      conversationId,
+      pathId,
+      name: 'All salary',
+      facts: { income: { salary: 60000 } },
+    });
+    await scenarioStore.createScenario({
+      tenantId: TENANT,
+      conversationId,
+      pathId,
+      name: 'Salary and dividends',
+      facts: { income: { salary: 20000, dividends: 30000 } },
+    });
+
+    const updated = await scenarioStore.updateScenario({
+      tenantId: TENANT,
+      scenarioId: salary.id,
+      facts: { income: { salary: 65000 } },
+    });
+
+    expect(updated).toMatchObject({ name: 'All salary', facts: { income: { salary: 65000 } } });
+    const scenarios = await scenarioStore.listScenarios({ tenantId: TENANT, conversationId, pathId });
+    expect(scenarios.map(scenario => [scenario.name, scenario.position])).toEqual([
+      ['All salary', 0],
+      ['Salary and dividends', 1],
+    ]);
+    expect(await scenarioStore.getScenario({ tenantId: 'other-tenant', scenarioId: salary.id })).toBeNull();
+  });
+
+  it('limits the number of scenarios on a path', async () => {
+    for (let index = 0; index < MAX_SCENARIOS_PER_PATH; index++) {
+      await scenarioStore.createScenario({ tenantId: TENANT, conversationId, pathId, name: `S${index}`, facts: { income: {} } });
+    }
+
+    await expect(
+      scenarioStore.createScenario({ tenantId: TENANT, conversationId, pathId, name: 'One too many', facts: { income: {} } })
+    ).rejects.toThrow('maximum of 5 scenarios');
+  });
+
+  it('forks scenarios onto a branch without sharing later edits', async () => {
+    const original = await scenarioStore.createScenario({
+      tenantId: TENANT,
+      conversationId,
+      pathId,
+      name: 'All salary',
+      facts: { income: { salary: 60000 } },
+    });
+    const { pathId: branchId } = await pathStore.createPath({ tenantId: TENANT, conversationId, parentPathId: pathId });
+
+    const [forked] = await scenarioStore.forkScenarios({
+      tenantId: TENANT,
+      conversationId,
+      sourcePathId: pathId,
+      targetPathId: branchId,
+    });
+    await scenarioStore.updateScenario({ tenantId: TENANT, scenarioId: forked.id, facts: { income: { salary: 1 } } });
+
+    expect(forked.id).not.toBe(original.id);
+    expect(forked.pathId).toBe(branchId);
+    expect((await scenarioStore.getScenario({ tenantId: TENANT, scenarioId: original.id }))?.facts).toEqual({
+      income: { salary: 60000 },
+    });
+
+    await pathStore.deletePath({ tenantId: TENANT, pathId: branchId, hardDelete: true });
+    expect(await scenarioStore.getScenario({ tenantId: TENANT, scenarioId: forked.id })).toBeNull();
+  });
+
+  it('survives a JSON round trip of the shared state', async () => {
+    await scenarioStore.createScenario({ tenantId: TENANT, conversationId, pathId, name: 'All salary', facts: { income: {} } });
+
+    const restored = createInMemoryConversationState();
+    restored.load(JSON.parse(JSON.stringify(state)));
+
+    const [scenario] = await new InMemoryConversationScenarioStore(restored).listScenarios({
+      tenantId: TENANT,
+      conversationId,
+      pathId,
+    });
+    expect(scenario.name).toBe('All salary');
+    expect(scenario.createdAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Conversation Scenario Stores
+ *
+ * Named fact sets ("all salary", "salary and dividends") that a conversation
+ * compares side by side. Scenarios belong to a conversation path: branching a
+ * path forks its scenarios onto the new path, so the branch can change them
+ * without affecting the original.
+ */
+
+import { randomUUID } from 'crypto';
+import { MAX_SCENARIOS, type Scenario, type ScenarioFacts } from '@reg-copilot/reg-intel-core';
+import { createLogger, withSpan } from '@reg-copilot/reg-intel-observability';
+import {
+  SEMATTRS_DB_SYSTEM,
+  SEMATTRS_DB_NAME,
+  SEMATTRS_DB_OPERATION,
+  SEMATTRS_DB_SQL_TABLE,
+} from '@opentelemetry/semantic-conventions';
+import type { SupabaseLikeClient } from './conversationStores.js';
+import {
+  createInMemoryConversationState,
+  type InMemoryConversationState,
+} from './inMemoryConversationState.js';
+
+const logger = createLogger('ConversationScenarioStore');
+
+/**
+ * Most scenarios a path can hold (the most that can be compared at once)
+ */
+export const MAX_SCENARIOS_PER_PATH = MAX_SCENARIOS;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Scenario saved on a conversation path
+ */
+export interface ConversationScenario extends Scenario {
+  tenantId: string;
+  conversationId: string;
+  pathId: string;
+  /** Column order in comparison tables */
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ListScenariosInput {
+  tenantId: string;
+  conversationId: string;
+  pathId: string;
+}
+
+export interface GetScenarioInput {
+  tenantId: string;
+  scenarioId: string;
+}
+
+export interface CreateScenarioInput extends ListScenariosInput {
+  name: string;
+  facts: ScenarioFacts;
+}
+
+export interface UpdateScenarioInput extends GetScenarioInput {
+  name?: string;
+  facts?: ScenarioFacts;
+}
+
+export interface ForkScenariosInput {
+  tenantId: string;
+  conversationId: string;
+  sourcePathId: string;
+  targetPathId: string;
+}
+
+// =============================================================================
+// Store Interface
+// =============================================================================
+
+/**
+ * Interface for conversation scenario storage operations
+ */
+export interface ConversationScenarioStore {
+  /** Scenarios of a path, in column order */
+  listScenarios(input: ListScenariosInput): Promise<ConversationScenario[]>;
+  getScenario(input: GetScenarioInput): Promise<ConversationScenario | null>;
+  /** Throws when the path already holds MAX_SCENARIOS_PER_PATH scenarios */
+  createScenario(input: CreateScenarioInput): Promise<ConversationScenario>;
+  /** Returns null when the scenario does not exist */
+  updateScenario(input: UpdateScenarioInput): Promise<ConversationScenario | null>;
+  deleteScenario(input: GetScenarioInput): Promise<void>;
+  /** Copy the scenarios of one path onto another (used when branching) */
+  forkScenarios(input: ForkScenariosInput): Promise<ConversationScenario[]>;
+}
+
+function scenarioLimitError(pathId: string): Error {
+  return new Error(`Path ${pathId} already has the maximum of ${MAX_SCENARIOS_PER_PATH} scenarios`);
+}
+
+// =============================================================================
+// In-Memory Implementation
+// =============================================================================
+
+/**
+ * In-memory implementation of ConversationScenarioStore, on the same
+ * InMemoryConversationState as the other in-memory stores
+ */
+export class InMemoryConversationScenarioStore implements ConversationScenarioStore {
+  constructor(private readonly state: InMemoryConversationState = createInMemoryConversationState()) {}
+
+  private ownScenarios(input: ListScenariosInput) {
+    return [...this.state.scenarios.values()]
+      .filter(
+        scenario =>
+          scenario.tenantId === input.tenantId &&
+          scenario.conversationId === input.conversationId &&
+          scenario.pathId === input.pathId
+      )
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private insert(input: CreateScenarioInput, position: number): ConversationScenario {
+    const now = this.state.now();
+    const scenario: ConversationScenario = {
+      id: randomUUID(),
+      tenantId: input.tenantId,
+      conversationId: input.conversationId,
+      pathId: input.pathId,
+      name: input.name,
+      facts: structuredClone(input.facts),
+      position,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.state.scenarios.set(scenario.id, scenario);
+    return scenario;
+  }
+
+  async listScenarios(input: ListScenariosInput): Promise<ConversationScenario[]> {
+    return this.ownScenarios(input).map(scenario => structuredClone(scenario));
+  }
+
+  async getScenario(input: GetScenarioInput): Promise<ConversationScenario | null> {
+    const scenario = this.state.scenarios.get(input.scenarioId);
+    return scenario && scenario.tenantId === input.tenantId ? structuredClone(scenario) : null;
+  }
+
+  async createScenario(input: CreateScenarioInput): Promise<ConversationScenario> {
+    const existing = this.ownScenarios(input);
+    if (existing.length >= MAX_SCENARIOS_PER_PATH) {
+      throw scenarioLimitError(input.pathId);
+    }
+
+    const scenario = this.insert(input, existing.reduce((max, row) => Math.max(max, row.position + 1), 0));
+    this.state.commit();
+    return structuredClone(scenario);
+  }
+
+  async updateScenario(input: UpdateScenarioInput): Promise<ConversationScenario | null> {
+    const scenario = this.state.scenarios.get(input.scenarioId);
+    if (!scenario || scenario.tenantId !== input.tenantId) {
+      return null;
+    }
+
+    if (input.name !== undefined) scenario.name = input.name;
+    if (input.facts !== undefined) scenario.facts = structuredClone(input.facts);
+    scenario.updatedAt = this.state.now();
+
+    this.state.commit();
+    return structuredClone(scenario);
+  }
+
+  async deleteScenario(input: GetScenarioInput): Promise<void> {
+    const scenario = this.state.scenarios.get(input.scenarioId);
+    if (scenario && scenario.tenantId === input.tenantId) {
+      this.state.scenarios.delete(scenario.id);
+      this.state.commit();
+    }
+  }
+
+  async forkScenarios(input: ForkScenariosInput): Promise<ConversationScenario[]> {
+    const source = this.ownScenarios({ ...input, pathId: input.sourcePathId });
+    const forked = source.map(scenario =>
+      this.insert(
+        {
+          tenantId: input.tenantId,
+          conversationId: input.conversationId,
+          pathId: input.targetPathId,
+          name: scenario.name,
+          facts: scenario.facts,
+        },
+        scenario.position
+      )
+    );
+
+    if (forked.length > 0) {
+      this.state.commit();
+    }
+    return forked.map(scenario => structuredClone(scenario));
+  }
+}
+
+// =============================================================================
+// Supabase Implementation
+// =============================================================================
+
+interface ScenarioRow {
+  id: string;
+  tenant_id: string;
+  conversation_id: string;
+  path_id: string;
+  name: string;
+  facts: ScenarioFacts;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function mapScenarioRow(row: ScenarioRow): ConversationScenario {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    conversationId: row.conversation_id,
+    pathId: row.path_id,
+    name: row.name,
+    facts: row.facts ?? { income: {} },
+    position: row.position,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Supabase implementation of ConversationScenarioStore. The client must be
+ * scoped to the copilot_core schema.
+ */
+export class SupabaseConversationScenarioStore implements ConversationScenarioStore {
+  constructor(private readonly client: SupabaseLikeClient) {}
+
+  private wrapOperation<T>(
+    input: { operation: string; tenantId: string; scenarioId?: string },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(
+      'db.supabase.scenario_operation',
+      {
+        [SEMATTRS_DB_SYSTEM]: 'postgresql',
+        [SEMATTRS_DB_NAME]: 'supabase',
+        [SEMATTRS_DB_OPERATION]: input.operation,
+        [SEMATTRS_DB_SQL_TABLE]: 'conversation_scenarios',
+        'app.tenant.id': input.tenantId,
+        ...(input.scenarioId ? { 'app.scenario.id': input.scenarioId } : {}),
+      },
+      async () => {
+        logger.debug({
+          operation: input.operation,
+          tenantId: input.tenantId,
+          scenarioId: input.scenarioId,
+        }, `DB ${input.operation.toUpperCase()} on conversation_scenarios`);
+        return fn();
+      }
+    );
+  }
+
+  async listScenarios(input: ListScenariosInput): Promise<ConversationScenario[]> {
+    return this.wrapOperation({ operation: 'select', tenantId: input.tenantId }, async () => {
+      const { data, error } = await this.client
+        .from('conversation_scenarios')
+        .select('*')
+        .eq('tenant_id', input.tenantId)
+        .eq('conversation_id', input.conversationId)
+        .eq('path_id', input.pathId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list scenarios: ${error.message}`);
+      }
+
+      return ((data ?? []) as ScenarioRow[]).map(mapScenarioRow);
+    });
+  }
+
+  async getScenario(input: GetScenarioInput): Promise<ConversationScenario | null> {
+    return this.wrapOperation({ operation: 'select', tenantId: input.tenantId, scenarioId: input.scenarioId }, async () => {
+      const { data, error } = await this.client
+        .from('conversation_scenarios')
+        .select('*')
+        .eq('tenant_id', input.tenantId)
+        .eq('id', input.scenarioId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get scenario: ${error.message}`);
+      }
+
+      return data ? mapScenarioRow(data as ScenarioRow) : null;
+    });
+  }
+
+  async createScenario(input: CreateScenarioInput): Promise<ConversationScenario> {
+    const existing = await this.listScenarios(input);
+    if (existing.length >= MAX_SCENARIOS_PER_PATH) {
+      throw scenarioLimitError(input.pathId);
+    }
+
+    return this.wrapOperation({ operation: 'insert', tenantId: input.tenantId }, async () => {
+      const { data, error } = await this.client
+        .from('conversation_scenarios')
+        .insert({
+          tenant_id: input.tenantId,
+          conversation_id: input.conversationId,
+          path_id: input.pathId,
+          name: input.name,
+          facts: input.facts,
+          position: existing.reduce((max, row) => Math.max(max, row.position + 1), 0),
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create scenario: ${error.message}`);
+      }
+
+      return mapScenarioRow(data as ScenarioRow);
+    });
+  }
+
+  async updateScenario(input: UpdateScenarioInput): Promise<ConversationScenario | null> {
+    return this.wrapOperation({ operation: 'update', tenantId: input.tenantId, scenarioId: input.scenarioId }, async () => {
+      const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (input.name !== undefined) updates.name = input.name;
+      if (input.facts !== undefined) updates.facts = input.facts;
+
+      const { data, error } = await this.client
+        .from('conversation_scenarios')
+        .update(updates)
+        .eq('tenant_id', input.tenantId)
+        .eq('id', input.scenarioId)
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update scenario: ${error.message}`);
+      }
+
+      return data ? mapScenarioRow(data as ScenarioRow) : null;
+    });
+  }
+
+  async deleteScenario(input: GetScenarioInput): Promise<void> {
+    return this.wrapOperation({ operation: 'delete', tenantId: input.tenantId, scenarioId: input.scenarioId }, async () => {
+      const { error } = await this.client
+        .from('conversation_scenarios')
+        .delete()
+        .eq('tenant_id', input.tenantId)
+        .eq('id', input.scenarioId);
+
+      if (error) {
+        throw new Error(`Failed to delete scenario: ${error.message}`);
+      }
+    });
+  }
+
+  async forkScenarios(input: ForkScenariosInput): Promise<ConversationScenario[]> {
+    const source = await this.listScenarios({ ...input, pathId: input.sourcePathId });
+    if (source.length === 0) {
+      return [];
+    }
+
+    return this.wrapOperation({ operation: 'insert', tenantId: input.tenantId }, async () => {
+      const { data, error } = await this.client
+        .from('conversation_scenarios')
+        .insert(
+          source.map(scenario => ({
+            tenant_id: input.tenantId,
+            conversation_id: input.conversationId,
+            path_id: input.targetPathId,
+            name: scenario.name,
+            facts: scenario.facts,
+            position: scenario.position,
+          }))
+        )
+        .select('*');
+
+      if (error) {
+        throw new Error(`Failed to fork scenarios: ${error.message}`);
+      }
+
+      return ((data ?? []) as ScenarioRow[]).map(mapScenarioRow).sort((a, b) => a.position - b.position);
+    });
+  }
+}
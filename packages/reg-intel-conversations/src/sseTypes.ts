@@ -1,3 +1,4 @@
+import type { ChangeImpactAlert } from './changeImpactAlerts.js'
 import type { ClientConversation } from './presenters.js'
 import type { ClientPath, MergeMode } from './types/paths.js'
 
@@ -129,6 +130,17 @@ export interface ConversationListSharingPayload {
   tenantAccess: 'view' | 'edit'
 }
 
+/**
+ * Impact alert event: A regulatory change may have made an earlier answer stale.
+ *
+ * Broadcast to the whole tenant channel; servers forward it only to the
+ * alert's user. Client should show the alert with a link to the message.
+ */
+export interface ConversationListImpactAlertPayload {
+  /** Alert describing the changed nodes and the affected answer */
+  alert: ChangeImpactAlert
+}
+
 /**
  * Type-safe map of event types to their exact payload structures.
  *
@@ -159,6 +171,7 @@ export type ConversationListEventPayloadMap = {
   unarchived: ConversationListUnarchivedPayload
   renamed: ConversationListRenamedPayload
   sharing: ConversationListSharingPayload
+  impact_alert: ConversationListImpactAlertPayload
 }
 
 /**
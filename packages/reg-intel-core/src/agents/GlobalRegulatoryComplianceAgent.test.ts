@@ -104,4 +104,35 @@ describe('GlobalRegulatoryComplianceAgent logging', () => {
     expect(logEntry?.tenantId).toBe('tenant-global');
     expect(logEntry?.conversationId).toBe('conversation-global');
   });
+
+  it('takes the graph slice as of the input date and states it in the prompt', async () => {
+    const asOf = new Date('2023-06-30T00:00:00Z');
+    const input: AgentInput = {
+      question: 'What should I know about compliance?',
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+      now: asOf,
+    };
+    const getRulesForProfileAndJurisdiction = vi.fn().mockResolvedValue({ nodes: [], edges: [] });
+    const chat = vi.fn().mockResolvedValue({ content: 'response' });
+
+    const ctx: MockedAgentContext = {
+      graphClient: {
+        getRulesForProfileAndJurisdiction,
+        getCrossBorderSlice: vi.fn().mockResolvedValue({ nodes: [], edges: [] }),
+        getNeighbourhood: vi.fn(),
+        getTimelines: vi.fn().mockResolvedValue([]),
+      } as unknown as AgentContext['graphClient'],
+      timeline: {} as AgentContext['timeline'],
+      egressGuard: {} as AgentContext['egressGuard'],
+      llmClient: { chat, streamChat: undefined },
+      now: new Date('2025-03-01T00:00:00Z'),
+      profile: input.profile,
+    };
+
+    await GlobalRegulatoryComplianceAgent.handle(input, ctx);
+
+    expect(getRulesForProfileAndJurisdiction).toHaveBeenCalledWith(expect.any(String), 'IE', undefined, asOf);
+    const messages = chat.mock.calls[0][0].messages as Array<{ content: string }>;
+    expect(messages[messages.length - 1].content).toContain('Graph Context (rules in force as of 2023-06-30):');
+  });
 });
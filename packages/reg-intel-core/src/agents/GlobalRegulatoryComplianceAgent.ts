@@ -4,6 +4,9 @@
  * The meta-agent that orchestrates domain-specific agents and handles
  * cross-cutting regulatory questions. This is the default entry point
  * for all regulatory queries.
+ *
+ * Domain agents are resolved through the DomainAgentRegistry and scored
+ * against the profile, question and active conversation graph nodes.
  */
 
 import type {
@@ -18,25 +21,28 @@ import type {
 import { LOG_PREFIX, NON_ADVICE_DISCLAIMER, DEFAULT_JURISDICTION } from '../constants.js';
 import { REGULATORY_COPILOT_SYSTEM_PROMPT } from '../llm/llmClient.js';
 import { buildPromptWithAspects } from '@reg-copilot/reg-intel-prompts';
-import { SingleDirector_IE_SocialSafetyNet_Agent } from './SingleDirector_IE_SocialSafetyNet_Agent.js';
+import {
+  buildSynthesisMessages,
+  detectJurisdictionConflicts,
+  formatConflictsSection,
+  type AgentContribution,
+} from './answerSynthesis.js';
+import {
+  domainAgentRegistry,
+  mergeAgentResults,
+  routeDomainAgents,
+  type AgentRouteCandidate,
+  type AgentRoutingOptions,
+  type DomainAgentRegistry,
+} from './agentRegistry.js';
+import { withRetrievedNodes } from './referencedNodes.js';
+import { toAsOfParam } from '@reg-copilot/reg-intel-graph';
 import { createLogger, recordAgentSelection } from '@reg-copilot/reg-intel-observability';
 
 const AGENT_ID = 'GlobalRegulatoryComplianceAgent';
 const AGENT_NAME = 'Global Regulatory Compliance Agent';
 const logger = createLogger(AGENT_ID, { component: 'Agent' });
 
-/**
- * Registry of available domain agents
- */
-const DOMAIN_AGENTS: Agent[] = [
-  SingleDirector_IE_SocialSafetyNet_Agent,
-  // Future agents will be added here:
-  // IE_CGT_Investor_Agent,
-  // IE_RnD_TaxCredit_Agent,
-  // MT_Tax_Agent,
-  // EU_Law_Agent,
-];
-
 /**
  * Global agent additional context
  */
@@ -69,111 +75,307 @@ async function buildGlobalSystemPrompt(
 }
 
 /**
- * Global Regulatory Compliance Agent
+ * Options for constructing a Global agent
  */
-export const GlobalRegulatoryComplianceAgent: Agent = {
-  id: AGENT_ID,
-  name: AGENT_NAME,
-  description: 'Orchestrates domain agents and handles cross-cutting regulatory questions',
+export interface GlobalRegulatoryComplianceAgentOptions {
+  /** Registry of domain agents to delegate to (defaults to the shared registry) */
+  registry?: DomainAgentRegistry;
+  /** Routing thresholds for selecting and fanning out to domain agents */
+  routing?: AgentRoutingOptions;
+}
 
-  async canHandle(_input: AgentInput): Promise<boolean> {
-    // Global agent can handle anything
-    return true;
-  },
+const GLOBAL_FOLLOW_UPS = [
+  'Would you like me to focus on a specific area (tax, welfare, pensions)?',
+  'Are there specific benefits or reliefs you want to explore?',
+  'Do you need information about time constraints or deadlines?',
+];
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<LlmStreamChunk> =>
+  !!value && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
+
+const wrapAsStream = (result: AgentResult): AgentStreamResult => {
+  async function* stream(): AsyncGenerator<LlmStreamChunk> {
+    if (result.answer) {
+      yield { type: 'text', delta: result.answer };
+    }
+    yield { type: 'done' };
+  }
+
+  return {
+    agentId: result.agentId,
+    referencedNodes: result.referencedNodes,
+    warnings: result.warnings,
+    uncertaintyLevel: result.uncertaintyLevel,
+    followUps: result.followUps,
+    conflicts: result.conflicts,
+    eligibility: result.eligibility,
+    stream: stream(),
+  } satisfies AgentStreamResult;
+};
+
+/**
+ * Prepared prompt and graph context for a globally handled question
+ */
+interface GlobalPromptContext {
+  graphContext: GraphContext;
+  warnings: string[];
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  referencedNodes: AgentResult['referencedNodes'];
+}
+
+/**
+ * Fetch graph context and build the prompt for questions no domain agent handles
+ */
+async function prepareGlobalPrompt(input: AgentInput, ctx: AgentContext): Promise<GlobalPromptContext> {
+  // Get cross-border context if multiple jurisdictions
+  const jurisdictions = input.profile?.jurisdictions || [DEFAULT_JURISDICTION];
+  let graphContext: GraphContext = { nodes: [], edges: [] };
+  const warnings: string[] = [];
+  const asOf = input.now ?? ctx.now;
+
+  try {
+    if (jurisdictions.length > 1) {
+      graphContext = await ctx.graphClient.getCrossBorderSlice(jurisdictions, asOf);
+    } else {
+      // Just get general rules for the main jurisdiction
+      graphContext = await ctx.graphClient.getRulesForProfileAndJurisdiction(
+        getProfileTagId(input),
+        jurisdictions[0],
+        undefined,
+        asOf
+      );
+    }
+  } catch (error) {
+    logger.error({ event: 'graph.error', err: error });
+    warnings.push(
+      'Memgraph (regulatory graph) is unreachable, so relationship context may be missing in this answer.'
+    );
+  }
+
+  // Format context
+  const contextSummary = graphContext.nodes.length > 0
+    ? `Found ${graphContext.nodes.length} relevant rules and ${graphContext.edges.length} relationships.`
+    : 'No specific rules found in the graph. Response based on general knowledge.';
+
+  // Ranked retrieval (when configured) grounds the answer in the nodes closest to the question
+  const retrievedNodes = input.retrievedNodes ?? [];
+  const retrievedSection = retrievedNodes.length > 0
+    ? `\nMost relevant graph nodes (ranked):\n${retrievedNodes.slice(0, 5).map(n => `- ${n.label} (${n.type}, ${n.id})`).join('\n')}\n`
+    : '';
+
+  // Build prompt
+  const prompt = `User Question: ${input.question}
+
+Graph Context (rules in force as of ${toAsOfParam(asOf)}): ${contextSummary}
+${graphContext.nodes.slice(0, 5).map(n => `- ${n.label} (${n.type}, ${n.id})`).join('\n')}
+${retrievedSection}
+Please provide a comprehensive response considering all relevant regulatory domains.`;
+
+  // Build system prompt using aspects
+  const systemPrompt = await buildGlobalSystemPrompt(jurisdictions, input.profile);
+
+  // Build referenced nodes metadata, ranked retrieval first
+  const referencedNodes = withRetrievedNodes(input, graphContext.nodes, 10);
+
+  return {
+    graphContext,
+    warnings,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      ...(input.conversationHistory || []),
+      { role: 'user', content: prompt },
+    ],
+    referencedNodes,
+  };
+}
+
+/**
+ * Create a Global Regulatory Compliance Agent bound to a domain agent registry
+ */
+export function createGlobalRegulatoryComplianceAgent(
+  options: GlobalRegulatoryComplianceAgentOptions = {}
+): Agent {
+  const registry = options.registry ?? domainAgentRegistry;
+
+  async function selectDomainAgents(input: AgentInput): Promise<AgentRouteCandidate[]> {
+    let selected: AgentRouteCandidate[] = [];
+    try {
+      selected = await routeDomainAgents(input, registry, options.routing);
+    } catch (error) {
+      logger.error({ event: 'route.error', err: error });
+      return [];
+    }
 
-  async handle(input: AgentInput, ctx: AgentContext): Promise<AgentResult> {
     logger.info({
-      event: 'handle.start',
-      jurisdictions: input.profile?.jurisdictions || [DEFAULT_JURISDICTION],
-      personaType: input.profile?.personaType,
+      event: 'route.agents',
+      activeNodeCount: input.activeNodeIds?.length ?? 0,
+      selected: selected.map(candidate => ({
+        agentId: candidate.registration.agent.id,
+        score: candidate.score,
+        signals: candidate.signals,
+      })),
     });
 
-    // Try to find a specialized domain agent
-    for (const agent of DOMAIN_AGENTS) {
-      try {
-        const canHandle = await agent.canHandle(input);
-        if (canHandle) {
-          logger.info({ event: 'delegate.agent', agentId: agent.id });
-
-          // Record agent selection metric
-          recordAgentSelection({
-            agentType: 'domain',
-            agentName: agent.id,
-            domain: agent.id.includes('SocialSafetyNet') ? 'social-welfare' : 'unknown',
-            jurisdiction: input.profile?.jurisdictions?.[0] || DEFAULT_JURISDICTION,
+    const selectionMode = selected.length > 1 ? 'fan-out' : 'single';
+    for (const candidate of selected) {
+      // Record agent selection metric
+      recordAgentSelection({
+        agentType: 'domain',
+        agentName: candidate.registration.agent.id,
+        domain: candidate.registration.domains[0] ?? 'unknown',
+        jurisdiction: input.profile?.jurisdictions?.[0] || DEFAULT_JURISDICTION,
+        selectionMode,
+        score: candidate.score,
+      });
+    }
+
+    return selected;
+  }
+
+  /**
+   * Run the selected domain agents in parallel, reporting progress for each.
+   * Agents that fail are logged and left out of the returned contributions.
+   * Agents in `alreadyStarted` were announced by an earlier streaming attempt
+   * and only report how this run ends.
+   */
+  async function runDomainAgents(
+    selected: AgentRouteCandidate[],
+    input: AgentInput,
+    ctx: AgentContext,
+    alreadyStarted: ReadonlySet<string> = new Set()
+  ): Promise<AgentContribution[]> {
+    const settled = await Promise.allSettled(
+      selected.map(async candidate => {
+        const { agent } = candidate.registration;
+        if (!alreadyStarted.has(agent.id)) {
+          ctx.onAgentProgress?.({
+            agentId: agent.id,
+            agentName: agent.name,
+            status: 'started',
+            score: candidate.score,
           });
+        }
 
-          return agent.handle(input, ctx);
+        try {
+          const result = await agent.handle(input, ctx);
+          ctx.onAgentProgress?.({
+            agentId: agent.id,
+            agentName: agent.name,
+            status: 'completed',
+            score: candidate.score,
+            uncertaintyLevel: result.uncertaintyLevel,
+          });
+          return result;
+        } catch (error) {
+          ctx.onAgentProgress?.({
+            agentId: agent.id,
+            agentName: agent.name,
+            status: 'failed',
+            score: candidate.score,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
         }
-      } catch (error) {
-        logger.error({ event: 'delegate.error', agentId: agent.id, err: error });
+      })
+    );
+
+    const contributions: AgentContribution[] = [];
+    settled.forEach((outcome, index) => {
+      const { registration } = selected[index];
+      if (outcome.status === 'fulfilled') {
+        contributions.push({ registration, result: outcome.value });
+      } else {
+        logger.error({ event: 'delegate.error', agentId: registration.agent.id, err: outcome.reason });
       }
-    }
+    });
 
-    // No specialized agent matched, handle globally
-    logger.info({ event: 'handle.global' });
+    return contributions;
+  }
+
+  /**
+   * Merge contributions and prepare the synthesis prompt and conflict list
+   */
+  async function prepareSynthesis(
+    contributions: AgentContribution[],
+    input: AgentInput,
+    ctx: AgentContext
+  ) {
+    const merged = mergeAgentResults(
+      contributions.map(({ registration, result }) => ({ agentName: registration.agent.name, result }))
+    );
+    const conflicts = await detectJurisdictionConflicts(contributions, input, ctx);
+    const jurisdictions = input.profile?.jurisdictions || [DEFAULT_JURISDICTION];
+    const systemPrompt = await buildGlobalSystemPrompt(jurisdictions, input.profile);
+    const messages = buildSynthesisMessages(contributions, conflicts, input, systemPrompt);
 
-    // Record global agent selection metric
-    recordAgentSelection({
-      agentType: 'global',
-      agentName: AGENT_ID,
-      jurisdiction: input.profile?.jurisdictions?.[0] || DEFAULT_JURISDICTION,
+    logger.info({
+      event: 'synthesis.start',
+      agentIds: contributions.map(({ registration }) => registration.agent.id),
+      conflictCount: conflicts.length,
     });
 
-    // Get cross-border context if multiple jurisdictions
-    const jurisdictions = input.profile?.jurisdictions || [DEFAULT_JURISDICTION];
-    let graphContext: GraphContext = { nodes: [], edges: [] };
-    const warnings: string[] = [];
+    return { merged, conflicts, messages };
+  }
+
+  /**
+   * Combine several agent results into one answer via an LLM synthesis step.
+   * Falls back to the sectioned merge when synthesis fails.
+   */
+  async function synthesize(
+    contributions: AgentContribution[],
+    input: AgentInput,
+    ctx: AgentContext
+  ): Promise<AgentResult> {
+    if (contributions.length === 1) {
+      return contributions[0].result;
+    }
+
+    const { merged, conflicts, messages } = await prepareSynthesis(contributions, input, ctx);
 
     try {
-      if (jurisdictions.length > 1) {
-        graphContext = await ctx.graphClient.getCrossBorderSlice(jurisdictions);
-      } else {
-        // Just get general rules for the main jurisdiction
-        graphContext = await ctx.graphClient.getRulesForProfileAndJurisdiction(
-          getProfileTagId(input),
-          jurisdictions[0],
-          undefined
-        );
-      }
+      const response = await ctx.llmClient.chat({ messages });
+      return { ...merged, answer: response.content, conflicts };
     } catch (error) {
-      logger.error({ event: 'graph.error', err: error });
-      warnings.push(
-        'Memgraph (regulatory graph) is unreachable, so relationship context may be missing in this answer.'
-      );
+      logger.error({ event: 'synthesis.error', err: error });
+      return {
+        ...merged,
+        answer: [merged.answer, formatConflictsSection(conflicts)].filter(Boolean).join('\n\n'),
+        conflicts,
+      };
     }
+  }
 
-    // Format context
-    const contextSummary = graphContext.nodes.length > 0
-      ? `Found ${graphContext.nodes.length} relevant rules and ${graphContext.edges.length} relationships.`
-      : 'No specific rules found in the graph. Response based on general knowledge.';
+  async function synthesizeStream(
+    contributions: AgentContribution[],
+    input: AgentInput,
+    ctx: AgentContext
+  ): Promise<AgentStreamResult> {
+    if (contributions.length > 1 && ctx.llmClient.streamChat) {
+      const { merged, conflicts, messages } = await prepareSynthesis(contributions, input, ctx);
+      const stream = ctx.llmClient.streamChat({ messages });
 
-    // Build prompt
-    const prompt = `User Question: ${input.question}
-
-Graph Context: ${contextSummary}
-${graphContext.nodes.slice(0, 5).map(n => `- ${n.label} (${n.type})`).join('\n')}
+      if (isAsyncIterable(stream)) {
+        return {
+          agentId: merged.agentId,
+          referencedNodes: merged.referencedNodes,
+          warnings: merged.warnings,
+          uncertaintyLevel: merged.uncertaintyLevel,
+          followUps: merged.followUps,
+          conflicts,
+          eligibility: merged.eligibility,
+          stream,
+        };
+      }
+    }
 
-Please provide a comprehensive response considering all relevant regulatory domains.`;
+    return wrapAsStream(await synthesize(contributions, input, ctx));
+  }
 
-    // Build system prompt using aspects
-    const systemPrompt = await buildGlobalSystemPrompt(jurisdictions, input.profile);
+  async function handleGlobally(input: AgentInput, ctx: AgentContext): Promise<AgentResult> {
+    const { graphContext, warnings, messages, referencedNodes } = await prepareGlobalPrompt(input, ctx);
 
     // Call LLM with jurisdiction-aware prompt
-    const response = await ctx.llmClient.chat({
-      messages: [
-        { role: 'system', content: systemPrompt },
-        ...(input.conversationHistory || []),
-        { role: 'user', content: prompt },
-      ],
-    });
-
-    // Build result
-    const referencedNodes = graphContext.nodes.slice(0, 10).map(n => ({
-      id: n.id,
-      label: n.label,
-      type: n.type,
-    }));
+    const response = await ctx.llmClient.chat({ messages });
 
     return {
       answer: response.content,
@@ -184,141 +386,141 @@ Please provide a comprehensive response considering all relevant regulatory doma
       notes: graphContext.nodes.length === 0
         ? ['No specific rules found in graph; consider asking about a more specific topic']
         : undefined,
-      followUps: [
-        'Would you like me to focus on a specific area (tax, welfare, pensions)?',
-        'Are there specific benefits or reliefs you want to explore?',
-        'Do you need information about time constraints or deadlines?',
-      ],
+      followUps: GLOBAL_FOLLOW_UPS,
     };
-  },
-
-  async handleStream(input: AgentInput, ctx: AgentContext): Promise<AgentStreamResult> {
-    logger.info({
-      event: 'handleStream.start',
-      jurisdictions: input.profile?.jurisdictions || [DEFAULT_JURISDICTION],
-      personaType: input.profile?.personaType,
-    });
+  }
+
+  return {
+    id: AGENT_ID,
+    name: AGENT_NAME,
+    description: 'Orchestrates domain agents and handles cross-cutting regulatory questions',
+
+    async canHandle(_input: AgentInput): Promise<boolean> {
+      // Global agent can handle anything
+      return true;
+    },
+
+    async handle(input: AgentInput, ctx: AgentContext): Promise<AgentResult> {
+      logger.info({
+        event: 'handle.start',
+        jurisdictions: input.profile?.jurisdictions || [DEFAULT_JURISDICTION],
+        personaType: input.profile?.personaType,
+      });
 
-    const wrapAsStream = (result: AgentResult): AgentStreamResult => {
-      async function* stream(): AsyncGenerator<LlmStreamChunk> {
-        if (result.answer) {
-          yield { type: 'text', delta: result.answer };
+      // Try to delegate to the best-scoring specialized domain agent(s)
+      const selected = await selectDomainAgents(input);
+      if (selected.length > 0) {
+        logger.info({
+          event: 'delegate.agent',
+          agentIds: selected.map(candidate => candidate.registration.agent.id),
+        });
+
+        const contributions = await runDomainAgents(selected, input, ctx);
+        if (contributions.length > 0) {
+          return synthesize(contributions, input, ctx);
         }
-        yield { type: 'done' };
       }
 
-      return {
-        agentId: result.agentId,
-        referencedNodes: result.referencedNodes,
-        warnings: result.warnings,
-        uncertaintyLevel: result.uncertaintyLevel,
-        followUps: result.followUps,
-        stream: stream(),
-      } satisfies AgentStreamResult;
-    };
+      // No specialized agent matched, handle globally
+      logger.info({ event: 'handle.global' });
 
-    const isAsyncIterable = (value: unknown): value is AsyncIterable<LlmStreamChunk> =>
-      !!value && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function';
-
-    // Try to find a specialized domain agent with streaming support
-    for (const agent of DOMAIN_AGENTS) {
-      try {
-        const canHandle = await agent.canHandle(input);
-        if (canHandle && agent.handleStream) {
-          logger.info({ event: 'delegate.agent.streaming', agentId: agent.id });
-          const streamed = await agent.handleStream(input, ctx);
-          if (isAsyncIterable(streamed.stream)) {
-            return streamed;
-          }
-        }
-        if (canHandle) {
-          const fallbackResult = await agent.handle(input, ctx);
-          return wrapAsStream(fallbackResult);
-        }
-      } catch (error) {
-        logger.error({ event: 'delegate.error', agentId: agent.id, err: error });
-      }
-    }
+      // Record global agent selection metric
+      recordAgentSelection({
+        agentType: 'global',
+        agentName: AGENT_ID,
+        jurisdiction: input.profile?.jurisdictions?.[0] || DEFAULT_JURISDICTION,
+      });
 
-    // No specialized agent matched, handle globally with streaming
-    logger.info({ event: 'handleStream.global' });
+      return handleGlobally(input, ctx);
+    },
 
-    // Get cross-border context if multiple jurisdictions
-    const jurisdictions = input.profile?.jurisdictions || [DEFAULT_JURISDICTION];
-    let graphContext: GraphContext = { nodes: [], edges: [] };
-    const warnings: string[] = [];
+    async handleStream(input: AgentInput, ctx: AgentContext): Promise<AgentStreamResult> {
+      logger.info({
+        event: 'handleStream.start',
+        jurisdictions: input.profile?.jurisdictions || [DEFAULT_JURISDICTION],
+        personaType: input.profile?.personaType,
+      });
 
-    try {
-      if (jurisdictions.length > 1) {
-        graphContext = await ctx.graphClient.getCrossBorderSlice(jurisdictions);
-      } else {
-        // Just get general rules for the main jurisdiction
-        graphContext = await ctx.graphClient.getRulesForProfileAndJurisdiction(
-          getProfileTagId(input),
-          jurisdictions[0],
-          undefined
-        );
+      const selected = await selectDomainAgents(input);
+      // Agents whose streaming attempt already reported them as started
+      const streamingStarted = new Set<string>();
+
+      if (selected.length === 1) {
+        // Single specialized agent: prefer its native streaming support
+        const [candidate] = selected;
+        const { agent } = candidate.registration;
+        if (agent.handleStream) {
+          try {
+            logger.info({ event: 'delegate.agent.streaming', agentId: agent.id });
+            ctx.onAgentProgress?.({
+              agentId: agent.id,
+              agentName: agent.name,
+              status: 'started',
+              score: candidate.score,
+            });
+            streamingStarted.add(agent.id);
+            const streamed = await agent.handleStream(input, ctx);
+            if (isAsyncIterable(streamed.stream)) {
+              ctx.onAgentProgress?.({
+                agentId: agent.id,
+                agentName: agent.name,
+                status: 'completed',
+                score: candidate.score,
+                uncertaintyLevel: streamed.uncertaintyLevel,
+              });
+              return streamed;
+            }
+          } catch (error) {
+            logger.error({ event: 'delegate.error', agentId: agent.id, err: error });
+          }
+        }
       }
-    } catch (error) {
-      logger.error({ event: 'graph.error', err: error });
-      warnings.push(
-        'Memgraph (regulatory graph) is unreachable, so relationship context may be missing in this answer.'
-      );
-    }
-
-    // Format context
-    const contextSummary = graphContext.nodes.length > 0
-      ? `Found ${graphContext.nodes.length} relevant rules and ${graphContext.edges.length} relationships.`
-      : 'No specific rules found in the graph. Response based on general knowledge.';
-
-    // Build prompt
-    const prompt = `User Question: ${input.question}
-
-Graph Context: ${contextSummary}
-${graphContext.nodes.slice(0, 5).map(n => `- ${n.label} (${n.type})`).join('\n')}
-
-Please provide a comprehensive response considering all relevant regulatory domains.`;
 
-    // Build system prompt using aspects
-    const systemPrompt = await buildGlobalSystemPrompt(jurisdictions, input.profile);
-
-    // Build referenced nodes metadata
-    const referencedNodes = graphContext.nodes.slice(0, 10).map(n => ({
-      id: n.id,
-      label: n.label,
-      type: n.type,
-    }));
-
-    if (ctx.llmClient.streamChat) {
-      const stream = ctx.llmClient.streamChat({
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...(input.conversationHistory || []),
-          { role: 'user', content: prompt },
-        ],
-      });
+      if (selected.length > 0) {
+        // Run the selected agent(s), in parallel when several qualified, and
+        // stream a synthesized answer with jurisdiction conflicts
+        if (selected.length > 1) {
+          logger.info({
+            event: 'delegate.agents.fanOut',
+            agentIds: selected.map(candidate => candidate.registration.agent.id),
+          });
+        }
+        const contributions = await runDomainAgents(selected, input, ctx, streamingStarted);
+        if (contributions.length > 0) {
+          return synthesizeStream(contributions, input, ctx);
+        }
+      }
 
-      if (isAsyncIterable(stream)) {
-        return {
-          agentId: AGENT_ID,
-          referencedNodes,
-          warnings: warnings.length ? warnings : undefined,
-          uncertaintyLevel: graphContext.nodes.length > 0 ? 'medium' : 'high',
-          followUps: [
-            'Would you like me to focus on a specific area (tax, welfare, pensions)?',
-            'Are there specific benefits or reliefs you want to explore?',
-            'Do you need information about time constraints or deadlines?',
-          ],
-          stream,
-        };
+      // No specialized agent matched, handle globally with streaming
+      logger.info({ event: 'handleStream.global' });
+
+      if (ctx.llmClient.streamChat) {
+        const { graphContext, warnings, messages, referencedNodes } = await prepareGlobalPrompt(input, ctx);
+        const stream = ctx.llmClient.streamChat({ messages });
+
+        if (isAsyncIterable(stream)) {
+          return {
+            agentId: AGENT_ID,
+            referencedNodes,
+            warnings: warnings.length ? warnings : undefined,
+            uncertaintyLevel: graphContext.nodes.length > 0 ? 'medium' : 'high',
+            followUps: GLOBAL_FOLLOW_UPS,
+            stream,
+          };
+        }
       }
-    }
 
-    // Fallback to non-streaming path and wrap result
-    const nonStreamingResult = await this.handle(input, ctx);
-    return wrapAsStream(nonStreamingResult);
-  },
-};
+      // Fallback to non-streaming path and wrap result
+      const nonStreamingResult = await handleGlobally(input, ctx);
+      return wrapAsStream(nonStreamingResult);
+    },
+  };
+}
+
+/**
+ * Global Regulatory Compliance Agent using the shared domain agent registry
+ */
+export const GlobalRegulatoryComplianceAgent: Agent = createGlobalRegulatoryComplianceAgent();
 
 /**
  * Get profile tag ID from input
@@ -350,7 +552,9 @@ function getProfileTagId(input: AgentInput): string {
 
 /**
  * Create the compliance orchestrator
+ *
+ * Without options the shared GlobalRegulatoryComplianceAgent is returned.
  */
-export function createComplianceOrchestrator() {
-  return GlobalRegulatoryComplianceAgent;
+export function createComplianceOrchestrator(options?: GlobalRegulatoryComplianceAgentOptions) {
+  return options ? createGlobalRegulatoryComplianceAgent(options) : GlobalRegulatoryComplianceAgent;
 }
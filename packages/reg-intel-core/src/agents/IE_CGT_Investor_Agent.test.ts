@@ -0,0 +1,271 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@reg-copilot/reg-intel-prompts', () => ({
+  buildPromptWithAspects: vi.fn(() => 'mocked-prompt'),
+}));
+
+vi.mock('../llm/llmClient.js', () => ({
+  REGULATORY_COPILOT_SYSTEM_PROMPT: 'mock-system-prompt',
+}));
+
+import type { AgentContext, AgentInput, AssetClass, Timeline } from '../types.js';
+import { createTimelineEngine } from '../timeline/timelineEngine.js';
+import { domainAgentRegistry, routeDomainAgents } from './agentRegistry.js';
+import { IE_CGT_Investor_Agent } from './IE_CGT_Investor_Agent.js';
+
+const quotedShares: AssetClass = {
+  id: 'IE_ASSET_SHARES_QUOTED',
+  label: 'Quoted Shares',
+  category: 'SHARES',
+  tangible: false,
+  cgt_applicable: true,
+  cat_applicable: true,
+  stamp_duty_applicable: true,
+};
+
+const funds: AssetClass = {
+  id: 'IE_ASSET_INVESTMENT_FUNDS',
+  label: 'Investment Funds and ETFs',
+  category: 'OTHER',
+  tangible: false,
+  cgt_applicable: false,
+  cat_applicable: true,
+  stamp_duty_applicable: false,
+};
+
+const timelines: Record<string, Timeline[]> = {
+  IE_ASSET_INVESTMENT_FUNDS: [
+    { id: 'IE_CGT_DEEMED_DISPOSAL_8Y', label: 'Deemed disposal every 8 years', window_years: 8 },
+  ],
+  IE_ASSET_SHARES_QUOTED: [
+    { id: 'IE_CGT_SHARE_MATCHING_4W', label: 'Four-week share matching rule', window_days: 28 },
+  ],
+  IE_CGT_RETURN_FILING: [
+    {
+      id: 'IE_CGT_RETURN_DEADLINE',
+      label: '31 October of the year after disposal',
+      window_months: 10,
+      kind: 'DEADLINE',
+      anchor: 'TAX_YEAR_END',
+      day_of_month: 31,
+    },
+  ],
+};
+
+function createContext(overrides: Partial<AgentContext['graphClient']> = {}) {
+  const chat = vi.fn().mockResolvedValue({ content: 'CGT answer' });
+  const graphClient = {
+    getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({
+      nodes: [
+        {
+          id: 'IE_CGT_RELIEF_LOSSES',
+          label: 'CGT Loss Relief',
+          type: 'Relief',
+          properties: { short_summary: 'Losses carry forward indefinitely' },
+        },
+      ],
+      edges: [],
+    }),
+    getNeighbourhood: vi.fn(),
+    getMutualExclusions: vi.fn(),
+    getTimelines: vi.fn(async (nodeId: string) => timelines[nodeId] ?? []),
+    getCrossBorderSlice: vi.fn(),
+    executeCypher: vi.fn(),
+    getAssetClassesForJurisdiction: vi.fn().mockResolvedValue([quotedShares, funds]),
+    getCGTRateForAsset: vi.fn().mockResolvedValue({
+      id: 'IE_CGT_RATE_2024',
+      label: 'Capital Gains Tax Rate',
+      percentage: 33,
+      category: 'CGT',
+    }),
+    getRatesForTaxYear: vi.fn(async (taxYear: number) =>
+      taxYear === 2024
+        ? {
+            rates: [{ id: 'IE_CGT_RATE_2024', label: 'Capital Gains Tax Rate', percentage: 33, category: 'CGT' }],
+            thresholds: [
+              {
+                id: 'IE_CGT_ANNUAL_EXEMPTION_2024',
+                label: 'CGT Annual Exemption',
+                value: 1270,
+                unit: 'EUR',
+                direction: 'BELOW',
+                category: 'CGT',
+              },
+            ],
+            credits: [],
+          }
+        : { rates: [], thresholds: [], credits: [] }
+    ),
+    getObligationsForProfile: vi.fn().mockResolvedValue([
+      {
+        id: 'IE_CGT_RETURN_FILING',
+        label: 'Capital Gains Tax Return (CG1)',
+        category: 'FILING',
+        description: 'Return gains by 31 October of the following year',
+      },
+    ]),
+    ...overrides,
+  };
+
+  const ctx = {
+    graphClient,
+    timeline: createTimelineEngine(),
+    egressGuard: {},
+    llmClient: { chat },
+    now: new Date('2025-03-01T00:00:00Z'),
+  } as unknown as AgentContext;
+
+  return { ctx, chat, graphClient };
+}
+
+function promptOf(chat: ReturnType<typeof vi.fn>): string {
+  const messages = chat.mock.calls[0][0].messages as Array<{ content: string }>;
+  return messages[messages.length - 1].content;
+}
+
+const investorInput: AgentInput = {
+  question: 'I bought an ETF in 2019 and some shares, how is the gain taxed?',
+  profile: { personaType: 'investor', jurisdictions: ['IE'] },
+};
+
+describe('IE_CGT_Investor_Agent', () => {
+  it('builds the prompt from asset classes, rates, reliefs and obligations in the graph', async () => {
+    const { ctx, chat, graphClient } = createContext();
+
+    await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    expect(graphClient.getRulesForProfileAndJurisdiction).toHaveBeenCalledWith(
+      'PROFILE_INVESTOR_IE',
+      'IE',
+      undefined,
+      ctx.now
+    );
+    expect(graphClient.getCGTRateForAsset).toHaveBeenCalledWith('IE_ASSET_SHARES_QUOTED', ctx.now);
+    expect(graphClient.getCGTRateForAsset).not.toHaveBeenCalledWith('IE_ASSET_INVESTMENT_FUNDS', ctx.now);
+
+    const prompt = promptOf(chat);
+    expect(prompt).toContain('Quoted Shares (IE_ASSET_SHARES_QUOTED): CGT at 33% (IE_CGT_RATE_2024)');
+    expect(prompt).toContain('Investment Funds and ETFs (IE_ASSET_INVESTMENT_FUNDS): not chargeable to CGT');
+    expect(prompt).toContain('CGT Annual Exemption (IE_CGT_ANNUAL_EXEMPTION_2024): 1270 EUR exempt');
+    expect(prompt).toContain('CGT Loss Relief (IE_CGT_RELIEF_LOSSES)');
+    expect(prompt).toContain('deadline: 31 October of the year after disposal');
+  });
+
+  it('asks for citations in the [node:NODE_ID] format the citation validator accepts', async () => {
+    const { ctx, chat } = createContext();
+
+    await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    const prompt = promptOf(chat);
+    expect(prompt).toContain('[node:NODE_ID]');
+    expect(prompt).toContain('[node:IE_CGT_RATE_2024]');
+    expect(prompt).not.toMatch(/(?<!node:)\[IE_[A-Z0-9_]+\]/);
+  });
+
+  it('computes calendar-aware due dates for anchored deadlines', async () => {
+    const { ctx, chat } = createContext();
+
+    await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    // 31 October 2026 is a Saturday, so the return is due the next business day
+    expect(promptOf(chat)).toContain(
+      '31 October of the year after disposal (for a disposal today: due 2026-11-02)'
+    );
+  });
+
+  it('computes the deemed disposal date from the acquisition year with the timeline engine', async () => {
+    const { ctx, chat } = createContext();
+
+    await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    const prompt = promptOf(chat);
+    expect(prompt).toContain('Deemed disposal every 8 years (IE_CGT_DEEMED_DISPOSAL_8Y, 8y)');
+    expect(prompt).toContain('started on 2019-01-01 and runs for 8 years, ending around 2027-01-01');
+    expect(prompt).toContain('Four-week share matching rule (IE_CGT_SHARE_MATCHING_4W, 28d)');
+  });
+
+  it('cites every graph node it used and falls back to the latest tax year with rates', async () => {
+    const { ctx, graphClient } = createContext();
+
+    const result = await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    expect(graphClient.getRatesForTaxYear).toHaveBeenCalledWith(2025, 'IE', ctx.now);
+    expect(graphClient.getRatesForTaxYear).toHaveBeenCalledWith(2024, 'IE', ctx.now);
+    expect(result.referencedNodes.map(n => n.id)).toEqual(
+      expect.arrayContaining([
+        'IE_ASSET_SHARES_QUOTED',
+        'IE_ASSET_INVESTMENT_FUNDS',
+        'IE_CGT_RATE_2024',
+        'IE_CGT_ANNUAL_EXEMPTION_2024',
+        'IE_CGT_RELIEF_LOSSES',
+        'IE_CGT_DEEMED_DISPOSAL_8Y',
+        'IE_CGT_RETURN_FILING',
+        'IE_CGT_RETURN_DEADLINE',
+      ])
+    );
+    expect(result.uncertaintyLevel).toBe('low');
+    expect(result.notes).toEqual([
+      'Rates for 2025 were not found in the graph; figures use tax year 2024.',
+    ]);
+  });
+
+  it('lists ranked retrieval results ahead of the nodes it cited', async () => {
+    const { ctx } = createContext();
+
+    const result = await IE_CGT_Investor_Agent.handle(
+      {
+        ...investorInput,
+        retrievedNodes: [
+          { id: 'IE_CGT_RELIEF_RETIREMENT', label: 'Retirement relief', type: 'Relief', score: 0.9, source: 'vector' },
+          { id: 'IE_CGT_RATE_2024', label: 'CGT rate 2024', type: 'Rate', score: 0.7, source: 'graph' },
+        ],
+      },
+      ctx
+    );
+
+    const ids = result.referencedNodes.map(n => n.id);
+    expect(ids.slice(0, 2)).toEqual(['IE_CGT_RELIEF_RETIREMENT', 'IE_CGT_RATE_2024']);
+    expect(ids.filter(id => id === 'IE_CGT_RATE_2024')).toHaveLength(1);
+    expect(ids).toContain('IE_CGT_RETURN_FILING');
+  });
+
+  it('queries the graph as of the input date and states it in the prompt', async () => {
+    const { ctx, chat, graphClient } = createContext();
+    const asOf = new Date('2023-06-30T00:00:00Z');
+
+    await IE_CGT_Investor_Agent.handle({ ...investorInput, now: asOf }, ctx);
+
+    expect(graphClient.getRatesForTaxYear).toHaveBeenCalledWith(2023, 'IE', asOf);
+    expect(graphClient.getCGTRateForAsset).toHaveBeenCalledWith('IE_ASSET_SHARES_QUOTED', asOf);
+    expect(graphClient.getTimelines).toHaveBeenCalledWith('IE_CGT_RETURN_FILING', asOf);
+    expect(promptOf(chat)).toContain('Graph Context (rules in force as of 2023-06-30):');
+  });
+
+  it('warns and reports high uncertainty when the graph is unreachable', async () => {
+    const failure = vi.fn().mockRejectedValue(new Error('connection refused'));
+    const { ctx } = createContext({
+      getRulesForProfileAndJurisdiction: failure,
+      getAssetClassesForJurisdiction: failure,
+      getRatesForTaxYear: failure,
+      getObligationsForProfile: failure,
+    });
+
+    const result = await IE_CGT_Investor_Agent.handle(investorInput, ctx);
+
+    expect(result.answer).toBe('CGT answer');
+    expect(result.uncertaintyLevel).toBe('high');
+    expect(result.referencedNodes).toEqual([]);
+    expect(result.warnings?.[0]).toContain('Memgraph (regulatory graph) is unreachable');
+  });
+
+  it('is registered by default and selected for investor CGT questions', async () => {
+    expect(domainAgentRegistry.get('IE_CGT_Investor_Agent')).toBeDefined();
+
+    const selected = await routeDomainAgents({
+      question: 'How much capital gains tax will I pay if I sell my shares?',
+      profile: { personaType: 'investor', jurisdictions: ['IE'] },
+    });
+
+    expect(selected[0].registration.agent.id).toBe('IE_CGT_Investor_Agent');
+  });
+});
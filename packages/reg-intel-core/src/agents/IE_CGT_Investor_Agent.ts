@@ -0,0 +1,486 @@
+/**
+ * Ireland CGT Investor Agent
+ *
+ * Handles Capital Gains Tax questions for investors in Ireland: which asset
+ * classes are chargeable and at what rate, the annual exemption and reliefs,
+ * holding-period rules such as the 8-year deemed disposal on funds, and the
+ * CGT payment and filing obligations that follow a disposal.
+ */
+
+import type {
+  Agent,
+  AgentInput,
+  AgentContext,
+  AgentResult,
+  AssetClass,
+  GraphContext,
+  Obligation,
+  Rate,
+  TaxYearRates,
+  Timeline,
+} from '../types.js';
+import { LOG_PREFIX } from '../constants.js';
+import { REGULATORY_COPILOT_SYSTEM_PROMPT } from '../llm/llmClient.js';
+import { buildPromptWithAspects } from '@reg-copilot/reg-intel-prompts';
+import { toAsOfParam } from '@reg-copilot/reg-intel-graph';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { DomainAgentRegistration } from './agentRegistry.js';
+import { withRetrievedNodes } from './referencedNodes.js';
+
+const AGENT_ID = 'IE_CGT_Investor_Agent';
+const AGENT_NAME = 'Ireland CGT Investor Agent';
+const PROFILE_TAG_ID = 'PROFILE_INVESTOR_IE';
+const JURISDICTION = 'IE';
+const logger = createLogger(AGENT_ID, { component: 'Agent' });
+
+/** How many earlier tax years to try when the current year has no rates in the graph */
+const TAX_YEAR_FALLBACK = 2;
+
+/**
+ * Keywords that indicate this agent should handle the question
+ */
+const TRIGGER_KEYWORDS = [
+  'capital gains',
+  'cgt',
+  'chargeable gain',
+  'annual exemption',
+  'deemed disposal',
+  'exit tax',
+  'etf',
+  'investment fund',
+  'shares',
+  'stocks',
+  'crypto',
+  'bitcoin',
+  'investment property',
+  'rental property',
+  'sell my',
+  'disposal',
+  'entrepreneur relief',
+  'retirement relief',
+  'principal private residence',
+  'capital loss',
+  'cg1',
+];
+
+/**
+ * Question phrases mapped to the asset class categories they refer to
+ */
+const ASSET_CATEGORY_KEYWORDS: Record<AssetClass['category'], string[]> = {
+  SHARES: ['share', 'stock', 'equit', 'dividend'],
+  PROPERTY: ['property', 'house', 'apartment', 'home', 'residence', 'site'],
+  CRYPTO: ['crypto', 'bitcoin', 'ethereum', 'token'],
+  AGRICULTURAL: ['farm', 'agricultural'],
+  OTHER: ['fund', 'etf', 'deemed disposal', 'exit tax'],
+};
+
+/**
+ * Agent-specific context to append to base prompt
+ */
+const AGENT_CONTEXT = `You are specifically focused on:
+- Capital Gains Tax (CGT) for individual investors in Ireland
+- Which asset classes are chargeable and the rate that applies to each
+- The annual exemption, loss relief and reliefs such as Entrepreneur Relief and Principal Private Residence Relief
+- Holding-period rules: deemed disposal of fund units every 8 years, the 4-week share matching rule, minimum ownership periods
+- CGT payment periods and the return filing deadline
+
+Remember: Irish and EU/EEA funds and ETFs are usually taxed under the exit tax regime, not CGT, and are subject to deemed disposal.`;
+
+/**
+ * Build system prompt with aspects for this agent
+ */
+async function buildAgentSystemPrompt(
+  jurisdictions: string[],
+  profile?: AgentInput['profile']
+): Promise<string> {
+  return buildPromptWithAspects(REGULATORY_COPILOT_SYSTEM_PROMPT, {
+    jurisdictions,
+    agentId: AGENT_ID,
+    agentDescription: AGENT_CONTEXT,
+    profile,
+  });
+}
+
+/**
+ * Holding-period outcome for an asset class or relief timeline
+ */
+interface HoldingPeriodOutcome {
+  nodeId: string;
+  timeline: Timeline;
+  description: string;
+}
+
+/**
+ * Everything the agent loaded from the graph for one question
+ */
+interface InvestorGraphData {
+  assetClasses: Array<{ assetClass: AssetClass; cgtRate: Rate | null }>;
+  taxYear?: number;
+  taxYearRates: TaxYearRates;
+  rules: GraphContext;
+  /** `dueDates` maps calendar-anchored deadline timelines to their due date for a disposal today */
+  obligations: Array<{ obligation: Obligation; deadlines: Timeline[]; dueDates: Record<string, string> }>;
+  holdingPeriods: HoldingPeriodOutcome[];
+  graphUnavailable: boolean;
+}
+
+/**
+ * Pick the asset classes the question refers to, or every chargeable class
+ * when no asset is mentioned
+ */
+function selectAssetClasses(assetClasses: AssetClass[], question: string): AssetClass[] {
+  const questionLower = question.toLowerCase();
+  const mentioned = assetClasses.filter(ac =>
+    (ASSET_CATEGORY_KEYWORDS[ac.category] ?? []).some(kw => questionLower.includes(kw)) ||
+    questionLower.includes(ac.label.toLowerCase())
+  );
+
+  return mentioned.length > 0 ? mentioned : assetClasses;
+}
+
+/**
+ * Extract when the asset was acquired, from an ISO date or a year following
+ * "bought"/"acquired"/"purchased"/"invested"
+ */
+function extractAcquisitionDate(question: string): Date | undefined {
+  const isoDate = question.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (isoDate) {
+    const parsed = new Date(`${isoDate[1]}T00:00:00Z`);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  const year = question.match(/\b(?:bought|acquired|purchased|invested)\b[^.?!]*?\b((?:19|20)\d{2})\b/i);
+  if (year) {
+    return new Date(Date.UTC(Number(year[1]), 0, 1));
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe a timeline's window for the prompt
+ */
+function describeTimelineWindow(timeline: Timeline): string {
+  return [
+    timeline.window_years ? `${timeline.window_years}y` : '',
+    timeline.window_months ? `${timeline.window_months}m` : '',
+    timeline.window_days ? `${timeline.window_days}d` : '',
+  ].filter(Boolean).join(' ') || 'unspecified';
+}
+
+function formatRate(rate: Rate): string {
+  const value = rate.percentage !== undefined
+    ? `${rate.percentage}%`
+    : rate.flat_amount !== undefined
+    ? `${rate.flat_amount} ${rate.currency ?? ''}`.trim()
+    : 'unspecified';
+  const band = rate.band_upper !== undefined ? ` up to ${rate.band_upper} ${rate.currency ?? ''}`.trimEnd() : '';
+  return `- ${rate.label} (${rate.id}): ${value}${band}`;
+}
+
+/**
+ * Load asset classes, rates, reliefs, timelines and obligations from the graph
+ */
+async function loadInvestorGraphData(input: AgentInput, ctx: AgentContext): Promise<InvestorGraphData> {
+  const graph = ctx.graphClient;
+  const now = input.now ?? ctx.now;
+  let graphUnavailable = false;
+
+  async function query<T>(operation: string, fallback: T, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      graphUnavailable = true;
+      logger.error({ err: error, operation }, `${LOG_PREFIX.agent} Graph query error`);
+      return fallback;
+    }
+  }
+
+  const [allAssetClasses, rules, profileObligations] = await Promise.all([
+    query('assetClasses', [] as AssetClass[], async () =>
+      graph.getAssetClassesForJurisdiction ? graph.getAssetClassesForJurisdiction(JURISDICTION, now) : []
+    ),
+    query('rules', { nodes: [], edges: [] } as GraphContext, () =>
+      graph.getRulesForProfileAndJurisdiction(PROFILE_TAG_ID, JURISDICTION, undefined, now)
+    ),
+    query('obligations', [] as Obligation[], async () =>
+      graph.getObligationsForProfile ? graph.getObligationsForProfile(PROFILE_TAG_ID, JURISDICTION, now) : []
+    ),
+  ]);
+
+  // Use the latest tax year that has rates in the graph
+  let taxYear: number | undefined;
+  let taxYearRates: TaxYearRates = { rates: [], thresholds: [], credits: [] };
+  if (graph.getRatesForTaxYear) {
+    for (let year = now.getFullYear(); year >= now.getFullYear() - TAX_YEAR_FALLBACK; year--) {
+      const result = await query('ratesForTaxYear', taxYearRates, () => graph.getRatesForTaxYear!(year, JURISDICTION, now));
+      if (result.rates.length > 0 || result.thresholds.length > 0) {
+        taxYear = year;
+        taxYearRates = result;
+        break;
+      }
+    }
+  }
+
+  const selectedAssetClasses = selectAssetClasses(allAssetClasses, input.question);
+  const assetClasses = await Promise.all(
+    selectedAssetClasses.map(async assetClass => ({
+      assetClass,
+      cgtRate: assetClass.cgt_applicable && graph.getCGTRateForAsset
+        ? await query('cgtRate', null as Rate | null, () => graph.getCGTRateForAsset!(assetClass.id, now))
+        : null,
+    }))
+  );
+
+  const obligations = await Promise.all(
+    profileObligations.map(async obligation => {
+      const deadlines = await query('obligationTimelines', [] as Timeline[], () => graph.getTimelines(obligation.id, now));
+      const dueDates: Record<string, string> = {};
+      for (const deadline of deadlines) {
+        if (deadline.anchor || deadline.day_of_month) {
+          dueDates[deadline.id] = ctx.timeline.computeDeadline(now, deadline, JURISDICTION).due.toISOString().split('T')[0];
+        }
+      }
+      return { obligation, deadlines, dueDates };
+    })
+  );
+
+  // Holding-period outcomes: lock-ins (deemed disposal) run from the acquisition
+  // date, lookback windows (ownership periods, share matching) end today
+  const acquiredOn = extractAcquisitionDate(input.question);
+  const reliefs = rules.nodes.filter(n => n.type === 'Relief');
+  const holdingPeriods: HoldingPeriodOutcome[] = [];
+  const timelineSources = [
+    ...selectedAssetClasses.map(ac => ({ nodeId: ac.id, lockIn: true })),
+    ...reliefs.map(relief => ({ nodeId: relief.id, lockIn: false })),
+  ];
+
+  for (const { nodeId, lockIn } of timelineSources) {
+    const timelines = await query('timelines', [] as Timeline[], () => graph.getTimelines(nodeId, now));
+    for (const timeline of timelines) {
+      const isLockIn = lockIn && Boolean(timeline.window_years || timeline.window_months);
+      const description = isLockIn
+        ? acquiredOn
+          ? ctx.timeline.isLockInActive(acquiredOn, timeline, now).description
+          : `If acquired today: ${ctx.timeline.computeLockInEnd(now, timeline).description}`
+        : ctx.timeline.computeLookbackRange(timeline, now).description;
+      holdingPeriods.push({ nodeId, timeline, description });
+    }
+  }
+
+  return {
+    assetClasses,
+    taxYear,
+    taxYearRates,
+    rules,
+    obligations,
+    holdingPeriods,
+    graphUnavailable,
+  };
+}
+
+/**
+ * Format graph data for LLM consumption
+ */
+function formatGraphContext(data: InvestorGraphData): string {
+  const sections: string[] = [];
+
+  if (data.assetClasses.length > 0) {
+    sections.push('Asset Classes:\n' + data.assetClasses.map(({ assetClass, cgtRate }) => {
+      const treatment = !assetClass.cgt_applicable
+        ? 'not chargeable to CGT'
+        : cgtRate
+        ? `CGT at ${cgtRate.percentage ?? 'unspecified'}% (${cgtRate.id})`
+        : 'CGT applies, rate not found in graph';
+      return `- ${assetClass.label} (${assetClass.id}): ${treatment}${
+        assetClass.description ? ` - ${assetClass.description}` : ''
+      }`;
+    }).join('\n'));
+  }
+
+  const { rates, thresholds } = data.taxYearRates;
+  if (rates.length > 0) {
+    sections.push(`Rates for tax year ${data.taxYear}:\n` + rates.map(formatRate).join('\n'));
+  }
+
+  if (thresholds.length > 0) {
+    sections.push(`Thresholds for tax year ${data.taxYear}:\n` + thresholds.map(t =>
+      `- ${t.label} (${t.id}): ${t.value} ${t.unit}${t.direction === 'BELOW' ? ' exempt' : ''}`
+    ).join('\n'));
+  }
+
+  const reliefs = data.rules.nodes.filter(n => n.type === 'Relief');
+  if (reliefs.length > 0) {
+    sections.push('Reliefs:\n' + reliefs.map(r =>
+      `- ${r.label} (${r.id}): ${r.properties.short_summary || r.properties.description || 'No summary available'}`
+    ).join('\n'));
+  }
+
+  if (data.holdingPeriods.length > 0) {
+    sections.push('Holding Periods (as of today):\n' + data.holdingPeriods.map(({ nodeId, timeline, description }) =>
+      `- ${timeline.label} (${timeline.id}, ${describeTimelineWindow(timeline)}) for ${nodeId}: ${description}`
+    ).join('\n'));
+  }
+
+  if (data.obligations.length > 0) {
+    sections.push('Filing and Payment Obligations:\n' + data.obligations.map(({ obligation, deadlines, dueDates }) => {
+      const deadline = deadlines.length > 0
+        ? ` - deadline: ${deadlines.map(d =>
+          dueDates[d.id] ? `${d.label} (for a disposal today: due ${dueDates[d.id]})` : d.label
+        ).join('; ')}`
+        : '';
+      return `- ${obligation.label} (${obligation.id}): ${obligation.description || obligation.category}${deadline}`;
+    }).join('\n'));
+  }
+
+  const exclusions = data.rules.edges.filter(e =>
+    e.type === 'EXCLUDES' || e.type === 'MUTUALLY_EXCLUSIVE_WITH'
+  );
+  if (exclusions.length > 0) {
+    sections.push('Mutual Exclusions:\n' + exclusions.map(e =>
+      `- ${e.source} ${e.type} ${e.target}`
+    ).join('\n'));
+  }
+
+  if (sections.length === 0) {
+    return 'No relevant CGT rules found in the graph. The response will be based on general knowledge, which may be incomplete or outdated.';
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Collect every graph node the answer is based on, for citation
+ */
+function collectCitedNodes(data: InvestorGraphData): AgentResult['referencedNodes'] {
+  const cited = new Map<string, AgentResult['referencedNodes'][number]>();
+  const cite = (id: string, label: string, type: string) => {
+    if (!cited.has(id)) {
+      cited.set(id, { id, label, type });
+    }
+  };
+
+  for (const { assetClass, cgtRate } of data.assetClasses) {
+    cite(assetClass.id, assetClass.label, 'AssetClass');
+    if (cgtRate) cite(cgtRate.id, cgtRate.label, 'Rate');
+  }
+  data.taxYearRates.rates.forEach(r => cite(r.id, r.label, 'Rate'));
+  data.taxYearRates.thresholds.forEach(t => cite(t.id, t.label, 'Threshold'));
+  data.rules.nodes.forEach(n => cite(n.id, n.label, n.type));
+  data.holdingPeriods.forEach(({ timeline }) => cite(timeline.id, timeline.label, 'Timeline'));
+  for (const { obligation, deadlines } of data.obligations) {
+    cite(obligation.id, obligation.label, 'Obligation');
+    deadlines.forEach(d => cite(d.id, d.label, 'Timeline'));
+  }
+
+  return Array.from(cited.values());
+}
+
+/**
+ * Ireland CGT Investor Agent
+ */
+export const IE_CGT_Investor_Agent: Agent = {
+  id: AGENT_ID,
+  name: AGENT_NAME,
+  description: 'Handles Capital Gains Tax, reliefs, deemed disposal and CGT filing questions for investors in Ireland',
+
+  async canHandle(input: AgentInput): Promise<boolean> {
+    const questionLower = input.question.toLowerCase();
+    const hasKeyword = TRIGGER_KEYWORDS.some(kw => questionLower.includes(kw));
+    return hasKeyword || input.profile?.personaType === 'investor';
+  },
+
+  async handle(input: AgentInput, ctx: AgentContext): Promise<AgentResult> {
+    logger.info(
+      { question: input.question, jurisdictions: input.profile?.jurisdictions },
+      `${LOG_PREFIX.agent} ${AGENT_ID} handling question`
+    );
+
+    const data = await loadInvestorGraphData(input, ctx);
+    const warnings: string[] = [];
+    if (data.graphUnavailable) {
+      warnings.push(
+        'Memgraph (regulatory graph) is unreachable, so relationship context may be missing in this answer.'
+      );
+    }
+
+    const asOf = input.now ?? ctx.now;
+    const currentYear = asOf.getFullYear();
+    const notes: string[] = [];
+    if (data.taxYear !== undefined && data.taxYear !== currentYear) {
+      notes.push(`Rates for ${currentYear} were not found in the graph; figures use tax year ${data.taxYear}.`);
+    }
+
+    const formattedContext = formatGraphContext(data);
+    const jurisdictions = input.profile?.jurisdictions || [JURISDICTION];
+    const systemPrompt = await buildAgentSystemPrompt(jurisdictions, input.profile);
+
+    const userPrompt = `User Question: ${input.question}
+
+Profile Context: Individual investor in Ireland
+
+Graph Context (rules in force as of ${toAsOfParam(asOf)}):
+${formattedContext}
+
+Please provide a research-based response that:
+1. Explains which asset classes are chargeable and the CGT (or exit tax) rate for each
+2. Applies the annual exemption, losses and any reliefs from the graph context
+3. Explains holding-period outcomes such as deemed disposal dates and ownership requirements
+4. Lists the payment and filing obligations and their deadlines
+5. Cites the graph node supporting each claim inline as [node:NODE_ID], e.g. [node:IE_CGT_RATE_2024]
+6. Notes any uncertainties or gaps in the data and encourages professional verification`;
+
+    const response = await ctx.llmClient.chat({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...(input.conversationHistory || []),
+        { role: 'user', content: userPrompt },
+      ],
+    });
+
+    const citedNodes = collectCitedNodes(data);
+
+    let uncertaintyLevel: 'low' | 'medium' | 'high' = 'medium';
+    if (citedNodes.length === 0) {
+      uncertaintyLevel = 'high';
+    } else if (
+      data.assetClasses.some(({ cgtRate }) => cgtRate) &&
+      data.taxYearRates.thresholds.length > 0 &&
+      data.obligations.length > 0
+    ) {
+      uncertaintyLevel = 'low';
+    }
+
+    if (citedNodes.length === 0) {
+      notes.push('Graph context was sparse; response may be based on general knowledge');
+    }
+
+    return {
+      answer: response.content,
+      referencedNodes: withRetrievedNodes(input, citedNodes),
+      warnings: warnings.length ? warnings : undefined,
+      uncertaintyLevel,
+      agentId: AGENT_ID,
+      notes: notes.length ? notes : undefined,
+      followUps: [
+        'Which reliefs could reduce the CGT on this disposal?',
+        'When is the CGT payment due for this disposal?',
+        'How are losses on other assets offset against this gain?',
+      ],
+    };
+  },
+};
+
+/**
+ * Registry declaration for the Ireland CGT Investor Agent
+ */
+export const IE_CGT_Investor_Registration: DomainAgentRegistration = {
+  agent: IE_CGT_Investor_Agent,
+  jurisdictions: ['IE'],
+  profileIds: ['investor'],
+  domains: ['cgt', 'investments'],
+  keywords: TRIGGER_KEYWORDS,
+  nodeIdPrefixes: ['IE_CGT_', 'IE_ASSET_', 'IE_EXIT_TAX_'],
+};
@@ -102,3 +102,34 @@ describe('SingleDirector_IE_SocialSafetyNet_Agent logging', () => {
     expect(logEntry?.conversationId).toBe('conversation-agent');
   });
 });
+
+describe('SingleDirector_IE_SocialSafetyNet_Agent referenced nodes', () => {
+  it('lists ranked retrieval results ahead of the graph nodes it used', async () => {
+    const ruleNode = { id: 'IE_BENEFIT_ILLNESS', label: 'Illness Benefit', type: 'Benefit', properties: {} };
+    const ctx: AgentContext = {
+      graphClient: {
+        getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({ nodes: [ruleNode], edges: [] }),
+        getNeighbourhood: vi.fn(),
+        getTimelines: vi.fn().mockResolvedValue([]),
+      } as unknown as AgentContext['graphClient'],
+      timeline: {} as AgentContext['timeline'],
+      egressGuard: {} as AgentContext['egressGuard'],
+      llmClient: { chat: vi.fn().mockResolvedValue({ content: 'mock-response' }) } as AgentContext['llmClient'],
+      now: new Date(),
+    };
+
+    const result = await SingleDirector_IE_SocialSafetyNet_Agent.handle(
+      {
+        question: 'Can I claim Jobseeker\'s Benefit as a director?',
+        profile: { personaType: 'single-director', jurisdictions: ['IE'] },
+        retrievedNodes: [
+          { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit', score: 0.82, source: 'vector' },
+          { id: 'IE_BENEFIT_ILLNESS', label: 'Illness Benefit', type: 'Benefit', score: 0.5, source: 'graph' },
+        ],
+      },
+      ctx
+    );
+
+    expect(result.referencedNodes.map(n => n.id)).toEqual(['IE_BENEFIT_JOBSEEKERS', 'IE_BENEFIT_ILLNESS']);
+  });
+});
@@ -11,19 +11,27 @@ import type {
   AgentInput,
   AgentContext,
   AgentResult,
+  EligibilityEvaluation,
   GraphContext,
   Timeline,
 } from '../types.js';
 import { LOG_PREFIX, NON_ADVICE_DISCLAIMER } from '../constants.js';
 import { REGULATORY_COPILOT_SYSTEM_PROMPT } from '../llm/llmClient.js';
 import { buildPromptWithAspects } from '@reg-copilot/reg-intel-prompts';
+import { toAsOfParam } from '@reg-copilot/reg-intel-graph';
 import { createLogger } from '@reg-copilot/reg-intel-observability';
 import { computeLookbackRange, computeLockInEnd } from '../timeline/timelineEngine.js';
+import { evaluateBenefitEligibility, formatEligibilityForPrompt } from '../eligibility/eligibilityEvaluator.js';
+import type { DomainAgentRegistration } from './agentRegistry.js';
+import { withRetrievedNodes } from './referencedNodes.js';
 
 const AGENT_ID = 'SingleDirector_IE_SocialSafetyNet_Agent';
 const AGENT_NAME = 'Single Director Ireland Social Safety Net Agent';
 const logger = createLogger(AGENT_ID, { component: 'Agent' });
 
+/** Maximum number of benefits to evaluate eligibility for */
+const MAX_ELIGIBILITY_EVALUATIONS = 5;
+
 /**
  * Keywords that indicate this agent should handle the question
  */
@@ -239,19 +247,21 @@ export const SingleDirector_IE_SocialSafetyNet_Agent: Agent = {
     // Query graph for relevant rules
     let graphContext: GraphContext = { nodes: [], edges: [] };
     const warnings: string[] = [];
+    const asOf = input.now ?? ctx.now;
 
     try {
-      // Get rules for profile and jurisdiction
+      // Get rules for profile and jurisdiction in force on the effective date
       graphContext = await ctx.graphClient.getRulesForProfileAndJurisdiction(
         profileId,
         'IE',
-        extractKeywords(input.question)
+        extractKeywords(input.question),
+        asOf
       );
 
       // If we found nodes, expand their neighbourhoods for related rules
       if (graphContext.nodes.length > 0) {
         for (const node of graphContext.nodes.slice(0, 3)) {
-          const neighbourhood = await ctx.graphClient.getNeighbourhood(node.id);
+          const neighbourhood = await ctx.graphClient.getNeighbourhood(node.id, asOf);
           // Merge results
           graphContext.nodes.push(...neighbourhood.nodes);
           graphContext.edges.push(...neighbourhood.edges);
@@ -280,7 +290,7 @@ export const SingleDirector_IE_SocialSafetyNet_Agent: Agent = {
     for (const benefit of benefits) {
       try {
         // Fetch timeline constraints for this benefit
-        const timelines = await ctx.graphClient.getTimelines(benefit.id);
+        const timelines = await ctx.graphClient.getTimelines(benefit.id, asOf);
 
         if (timelines.length > 0) {
           const lookbackRanges: Array<{ timeline: Timeline; description: string }> = [];
@@ -318,8 +328,34 @@ export const SingleDirector_IE_SocialSafetyNet_Agent: Agent = {
       }
     }
 
-    // Format context for LLM with timeline calculations
-    const formattedContext = formatGraphContext(graphContext, timelineCalculations);
+    // Evaluate eligibility deterministically when the user supplied structured facts
+    const eligibility: EligibilityEvaluation[] = [];
+    if (input.eligibilityFacts) {
+      for (const benefit of benefits.slice(0, MAX_ELIGIBILITY_EVALUATIONS)) {
+        try {
+          const evaluation = await evaluateBenefitEligibility(
+            ctx.graphClient,
+            benefit.id,
+            input.eligibilityFacts,
+            asOf
+          );
+          if (evaluation) {
+            eligibility.push(evaluation);
+          }
+        } catch (error) {
+          logger.error(
+            { err: error, benefitId: benefit.id },
+            `${LOG_PREFIX.agent} Eligibility evaluation error`
+          );
+        }
+      }
+    }
+
+    // Format context for LLM with timeline calculations and eligibility results
+    const formattedContext = [
+      formatGraphContext(graphContext, timelineCalculations),
+      formatEligibilityForPrompt(eligibility),
+    ].filter(Boolean).join('\n\n');
 
     // Build system prompt using aspects
     const jurisdictions = input.profile?.jurisdictions || ['IE'];
@@ -330,14 +366,15 @@ export const SingleDirector_IE_SocialSafetyNet_Agent: Agent = {
 
 Profile Context: Single-director company owner in Ireland, likely Class S PRSI contributor
 
-Graph Context:
+Graph Context (rules in force as of ${toAsOfParam(asOf)}):
 ${formattedContext}
 
 Please provide a research-based response that:
 1. Explains relevant rules and benefits from the graph context
 2. Highlights lookback windows, mutual exclusions, and conditions
-3. Notes any uncertainties or gaps in the data
-4. Encourages professional verification`;
+3. Where an eligibility evaluation is given, explains it and names the unmet conditions and missing facts rather than re-deriving eligibility
+4. Notes any uncertainties or gaps in the data
+5. Encourages professional verification`;
 
     // Call LLM
     const response = await ctx.llmClient.chat({
@@ -348,12 +385,8 @@ Please provide a research-based response that:
       ],
     });
 
-    // Build result
-    const referencedNodes = graphContext.nodes.slice(0, 10).map(n => ({
-      id: n.id,
-      label: n.label,
-      type: n.type,
-    }));
+    // Build result, ranked retrieval first
+    const referencedNodes = withRetrievedNodes(input, graphContext.nodes, 10);
 
     // Determine uncertainty level
     let uncertaintyLevel: 'low' | 'medium' | 'high' = 'medium';
@@ -377,10 +410,24 @@ Please provide a research-based response that:
         'Are there any time limits or waiting periods?',
         'What other benefits might be affected by this claim?',
       ],
+      eligibility: eligibility.length ? eligibility : undefined,
     };
   },
 };
 
+/**
+ * Registry declaration for the Single Director IE Social Safety Net Agent
+ */
+export const SingleDirector_IE_SocialSafetyNet_Registration: DomainAgentRegistration = {
+  agent: SingleDirector_IE_SocialSafetyNet_Agent,
+  jurisdictions: ['IE'],
+  profileIds: ['single-director'],
+  domains: ['social-welfare', 'prsi', 'pensions'],
+  keywords: TRIGGER_KEYWORDS,
+  nodeIdPrefixes: ['IE_PRSI_', 'IE_BENEFIT_', 'IE_DSP_', 'IE_SW_', 'IE_SWCA_', 'IE_JOBSEEKERS_', 'IE_MATERNITY_', 'IE_STATE_'],
+  matchesProfile: profile => Boolean(profile.hasCompany && profile.prsiClass === 'S'),
+};
+
 /**
  * Extract potential keywords from question
  */
@@ -0,0 +1,245 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@reg-copilot/reg-intel-prompts', () => ({
+  buildPromptWithAspects: vi.fn(() => 'mocked-prompt'),
+}));
+
+vi.mock('../llm/llmClient.js', () => ({
+  REGULATORY_COPILOT_SYSTEM_PROMPT: 'mock-system-prompt',
+}));
+
+import type { AgentContext, AgentInput, BenefitCap, GraphNode, NIClass } from '../types.js';
+import { domainAgentRegistry, routeDomainAgents } from './agentRegistry.js';
+import { UK_SocialSecurity_NI_Agent } from './UK_SocialSecurity_NI_Agent.js';
+
+const class1: NIClass = {
+  id: 'UK_NI_CLASS_1',
+  label: 'Class 1 National Insurance',
+  description: 'Paid by employees',
+  rate: 12,
+  threshold_annual: 12570,
+  eligible_benefits: ['State Pension', 'Maternity Allowance'],
+};
+
+const class2: NIClass = {
+  id: 'UK_NI_CLASS_2',
+  label: 'Class 2 National Insurance',
+  description: 'Self-employed flat rate',
+  rate: 3.45,
+  eligible_benefits: ['State Pension', 'Maternity Allowance'],
+};
+
+const universalCredit: GraphNode = {
+  id: 'UK_BENEFIT_UNIVERSAL_CREDIT',
+  label: 'Universal Credit',
+  type: 'Benefit',
+  properties: { ni_classes: [] },
+};
+
+const jobseekers: GraphNode = {
+  id: 'UK_BENEFIT_JOBSEEKERS_NEW_STYLE',
+  label: 'New Style Jobseeker\'s Allowance',
+  type: 'Benefit',
+  properties: { ni_classes: ['UK_NI_CLASS_1'] },
+};
+
+const pip: GraphNode = {
+  id: 'UK_BENEFIT_PIP',
+  label: 'Personal Independence Payment',
+  type: 'Benefit',
+  properties: { ni_classes: [] },
+};
+
+const cap: BenefitCap = {
+  id: 'UK_BENEFIT_CAP_2024_OUTSIDE_LONDON',
+  label: 'Benefit Cap 2024 (Outside Greater London)',
+  amount_single: 16967,
+  amount_couple: 25323,
+  currency: 'GBP',
+  frequency: 'ANNUAL',
+  exemptions: ['Personal Independence Payment'],
+};
+
+function createContext(overrides: Partial<AgentContext['graphClient']> = {}) {
+  const chat = vi.fn().mockResolvedValue({ content: 'UK answer' });
+  const graphClient = {
+    getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({
+      nodes: [universalCredit, jobseekers, pip],
+      edges: [],
+    }),
+    getNeighbourhood: vi.fn(),
+    getMutualExclusions: vi.fn(),
+    getTimelines: vi.fn().mockResolvedValue([]),
+    getCrossBorderSlice: vi.fn(),
+    executeCypher: vi.fn(),
+    getNIClassForEmploymentType: vi.fn(async (profileTag: string) =>
+      profileTag === 'PROFILE_SELF_EMPLOYED_UK' ? class2 : class1
+    ),
+    getNIClassesForJurisdiction: vi.fn().mockResolvedValue([class1, class2]),
+    getBenefitCapsForJurisdiction: vi.fn().mockResolvedValue([cap]),
+    getBenefitsSubjectToCap: vi.fn().mockResolvedValue([universalCredit, jobseekers]),
+    getMeansTestForBenefit: vi.fn(async (benefitId: string) =>
+      benefitId === 'UK_BENEFIT_UNIVERSAL_CREDIT'
+        ? {
+            id: 'UK_MEANS_TEST_UNIVERSAL_CREDIT',
+            label: 'Universal Credit Means Test',
+            capital_threshold: 16000,
+            spouse_income_assessed: true,
+            description: 'Capital above £16,000 disqualifies',
+          }
+        : null
+    ),
+    getPostedWorkerRules: vi.fn().mockResolvedValue({
+      rules: [
+        {
+          id: 'IE_UK_POSTED_WORKER_IE_TO_UK',
+          label: 'Posted Worker Rule - Ireland to UK',
+          regulation: 'Ireland-UK Convention on Social Security',
+          applies_to: 'Posted Workers',
+          home_jurisdiction: 'IE',
+          host_jurisdiction: 'UK',
+          duration_months: 24,
+          description: 'Keeps paying Irish PRSI',
+        },
+      ],
+      benefits: [{ id: 'IE_BENEFIT_STATE_PENSION', label: 'State Pension (Contributory)', type: 'Benefit', properties: {} }],
+    }),
+    ...overrides,
+  };
+
+  const ctx = {
+    graphClient,
+    timeline: {},
+    egressGuard: {},
+    llmClient: { chat },
+    now: new Date('2025-03-01T00:00:00Z'),
+  } as unknown as AgentContext;
+
+  return { ctx, chat, graphClient };
+}
+
+function promptOf(chat: ReturnType<typeof vi.fn>): string {
+  const messages = chat.mock.calls[0][0].messages as Array<{ content: string }>;
+  return messages[messages.length - 1].content;
+}
+
+describe('UK_SocialSecurity_NI_Agent', () => {
+  it('reasons over the NI class, means tests and benefit cap for the user profile', async () => {
+    const { ctx, chat, graphClient } = createContext();
+
+    const result = await UK_SocialSecurity_NI_Agent.handle(
+      {
+        question: 'I am self-employed, can I claim Universal Credit or New Style JSA?',
+        profile: { personaType: 'self-employed', jurisdictions: ['UK'] },
+      },
+      ctx
+    );
+
+    expect(graphClient.getNIClassForEmploymentType).toHaveBeenCalledWith('PROFILE_SELF_EMPLOYED_UK', 'UK', ctx.now);
+    expect(graphClient.getRulesForProfileAndJurisdiction).toHaveBeenCalledWith(
+      'PROFILE_SELF_EMPLOYED_UK',
+      'UK',
+      undefined,
+      ctx.now
+    );
+    expect(graphClient.getPostedWorkerRules).not.toHaveBeenCalled();
+
+    const prompt = promptOf(chat);
+    expect(prompt).toContain('National Insurance (your employment type):');
+    expect(prompt).toContain(
+      'Universal Credit (UK_BENEFIT_UNIVERSAL_CREDIT): means-tested (UK_MEANS_TEST_UNIVERSAL_CREDIT): capital above £16000 disqualifies, partner income is assessed'
+    );
+    expect(prompt).toContain('contributory via UK_NI_CLASS_1, which your employment type does not pay');
+    expect(prompt).toContain('Personal Independence Payment (UK_BENEFIT_PIP): not contribution-based or means-tested; not subject to the benefit cap');
+    expect(prompt).toContain('single £16967, couple £25323 (annual); exempt: Personal Independence Payment');
+
+    expect(result.uncertaintyLevel).toBe('low');
+    expect(result.referencedNodes.map(n => n.id)).toEqual(
+      expect.arrayContaining(['UK_NI_CLASS_2', 'UK_MEANS_TEST_UNIVERSAL_CREDIT', 'UK_BENEFIT_CAP_2024_OUTSIDE_LONDON'])
+    );
+  });
+
+  it('includes posted worker coordination rules for IE-UK profiles', async () => {
+    const { ctx, chat, graphClient } = createContext();
+
+    const result = await UK_SocialSecurity_NI_Agent.handle(
+      {
+        question: 'I am being posted to London for 18 months, do I pay UK National Insurance?',
+        profile: { personaType: 'single-director', jurisdictions: ['IE', 'UK'] },
+      },
+      ctx
+    );
+
+    expect(graphClient.getPostedWorkerRules).toHaveBeenCalledWith('PROFILE_SINGLE_DIRECTOR_IE', 'IE', 'UK', ctx.now);
+    expect(promptOf(chat)).toContain('Posted Worker Coordination (IE -> UK):');
+    expect(promptOf(chat)).toContain('for up to 24 months: Keeps paying Irish PRSI');
+    expect(result.referencedNodes.map(n => n.id)).toContain('IE_UK_POSTED_WORKER_IE_TO_UK');
+    expect(result.notes?.[0]).toContain('SingleDirector_IE_SocialSafetyNet_Agent');
+  });
+
+  it('lists ranked retrieval results ahead of the graph nodes it used', async () => {
+    const { ctx } = createContext();
+
+    const result = await UK_SocialSecurity_NI_Agent.handle(
+      {
+        question: 'Can I claim Universal Credit?',
+        profile: { personaType: 'self-employed', jurisdictions: ['UK'] },
+        retrievedNodes: [
+          { id: 'UK_BENEFIT_CARERS_ALLOWANCE', label: "Carer's Allowance", type: 'Benefit', score: 0.88, source: 'vector' },
+        ],
+      },
+      ctx
+    );
+
+    expect(result.referencedNodes[0]).toEqual({
+      id: 'UK_BENEFIT_CARERS_ALLOWANCE',
+      label: "Carer's Allowance",
+      type: 'Benefit',
+    });
+    expect(result.referencedNodes.map(n => n.id)).toContain('UK_NI_CLASS_2');
+  });
+
+  it('falls back to every NI class and warns when the graph is unreachable', async () => {
+    const failure = vi.fn().mockRejectedValue(new Error('connection refused'));
+    const { ctx, graphClient } = createContext({
+      getRulesForProfileAndJurisdiction: failure,
+      getBenefitCapsForJurisdiction: failure,
+    });
+
+    const result = await UK_SocialSecurity_NI_Agent.handle(
+      { question: 'What is the benefit cap?', profile: { personaType: 'advisor', jurisdictions: ['UK'] } },
+      ctx
+    );
+
+    expect(graphClient.getNIClassForEmploymentType).not.toHaveBeenCalled();
+    expect(graphClient.getNIClassesForJurisdiction).toHaveBeenCalledWith('UK', ctx.now);
+    expect(result.uncertaintyLevel).toBe('medium');
+    expect(result.warnings?.[0]).toContain('Memgraph (regulatory graph) is unreachable');
+  });
+});
+
+describe('UK agent routing', () => {
+  it('is registered by default and fans out to the IE agent for posted workers', async () => {
+    expect(domainAgentRegistry.get('UK_SocialSecurity_NI_Agent')).toBeDefined();
+
+    const input: AgentInput = {
+      question: 'Do I pay National Insurance while posted to the UK?',
+      profile: { personaType: 'paye-employee', jurisdictions: ['IE', 'UK'] },
+    };
+    const selected = await routeDomainAgents(input);
+
+    expect(selected.map(c => c.registration.agent.id)).toEqual([
+      'UK_SocialSecurity_NI_Agent',
+      'SingleDirector_IE_SocialSafetyNet_Agent',
+    ]);
+  });
+
+  it('does not route UK questions from IE-only profiles to the UK agent', async () => {
+    const selected = await routeDomainAgents({
+      question: 'How does the benefit cap work?',
+      profile: { personaType: 'paye-employee', jurisdictions: ['IE'] },
+    });
+
+    expect(selected.map(c => c.registration.agent.id)).not.toContain('UK_SocialSecurity_NI_Agent');
+  });
+});
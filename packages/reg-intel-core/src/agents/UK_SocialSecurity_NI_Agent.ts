@@ -0,0 +1,520 @@
+/**
+ * UK Social Security and National Insurance Agent
+ *
+ * Handles UK National Insurance and benefit questions: which NI class applies
+ * to the user's employment type and which benefits it builds entitlement to,
+ * means tests for means-tested benefits such as Universal Credit, the benefit
+ * cap, and which system applies to workers posted between Ireland and the UK.
+ */
+
+import type {
+  Agent,
+  AgentInput,
+  AgentContext,
+  AgentResult,
+  BenefitCap,
+  CoordinationRule,
+  GraphContext,
+  GraphNode,
+  MeansTest,
+  NIClass,
+  ProfileId,
+} from '../types.js';
+import { LOG_PREFIX } from '../constants.js';
+import { REGULATORY_COPILOT_SYSTEM_PROMPT } from '../llm/llmClient.js';
+import { buildPromptWithAspects } from '@reg-copilot/reg-intel-prompts';
+import { toAsOfParam } from '@reg-copilot/reg-intel-graph';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { DomainAgentRegistration } from './agentRegistry.js';
+import { withRetrievedNodes } from './referencedNodes.js';
+
+const AGENT_ID = 'UK_SocialSecurity_NI_Agent';
+const AGENT_NAME = 'UK Social Security and National Insurance Agent';
+const JURISDICTION = 'UK';
+const IE_AGENT_ID = 'SingleDirector_IE_SocialSafetyNet_Agent';
+const logger = createLogger(AGENT_ID, { component: 'Agent' });
+
+/** Maximum number of benefits to look up means tests for */
+const MAX_MEANS_TEST_LOOKUPS = 10;
+
+/**
+ * Keywords that indicate this agent should handle the question
+ */
+const TRIGGER_KEYWORDS = [
+  'national insurance',
+  'ni class',
+  'class 1 ni',
+  'class 2',
+  'class 4',
+  'ni contributions',
+  'universal credit',
+  'benefit cap',
+  'means test',
+  'new style',
+  'jobseeker\'s allowance',
+  'state pension',
+  'maternity allowance',
+  'child benefit',
+  'personal independence payment',
+  'dwp',
+  'hmrc',
+  'posted worker',
+  'posted to',
+  'secondment',
+  'seconded',
+  'certificate of coverage',
+];
+
+/**
+ * Keywords that indicate a cross-border posted worker scenario
+ */
+const POSTED_WORKER_KEYWORDS = [
+  'posted',
+  'seconded',
+  'secondment',
+  'certificate of coverage',
+  'a1 certificate',
+  'working in ireland',
+  'working in the uk',
+  'cross-border',
+];
+
+/**
+ * UK profile tags for each persona. Single directors pay Class 1 as employees
+ * of their own company.
+ */
+const UK_PROFILE_TAGS: Partial<Record<ProfileId, string>> = {
+  'paye-employee': 'PROFILE_PAYE_EMPLOYEE_UK',
+  'self-employed': 'PROFILE_SELF_EMPLOYED_UK',
+  'single-director': 'PROFILE_SINGLE_DIRECTOR_UK',
+};
+
+/**
+ * Agent-specific context to append to base prompt
+ */
+const AGENT_CONTEXT = `You are specifically focused on:
+- UK National Insurance classes (Class 1 for employees and directors, Class 2 and 4 for the self-employed, Class 3 voluntary)
+- Which contributory benefits each NI class builds entitlement to
+- Means tests for means-tested benefits such as Universal Credit (capital limits, partner income, work allowance)
+- The benefit cap: which benefits count towards it and which are exempt
+- Posted workers between Ireland and the UK under the Ireland-UK Convention on Social Security
+
+Remember: Class 4 contributions do not build entitlement to any benefit, and posted workers usually keep paying into their home system for up to 24 months.`;
+
+/**
+ * Build system prompt with aspects for this agent
+ */
+async function buildAgentSystemPrompt(
+  jurisdictions: string[],
+  profile?: AgentInput['profile']
+): Promise<string> {
+  return buildPromptWithAspects(REGULATORY_COPILOT_SYSTEM_PROMPT, {
+    jurisdictions,
+    agentId: AGENT_ID,
+    agentDescription: AGENT_CONTEXT,
+    profile,
+  });
+}
+
+/**
+ * Profile-aware eligibility assessment for one benefit
+ */
+interface BenefitEligibility {
+  benefit: GraphNode;
+  meansTest: MeansTest | null;
+  cappedBy: BenefitCap[];
+  /** NI classes held by the user that build entitlement to the benefit */
+  qualifyingClasses: NIClass[];
+  summary: string;
+}
+
+/**
+ * Posted worker coordination between the UK and Ireland
+ */
+interface PostedWorkerContext {
+  homeJurisdiction: string;
+  hostJurisdiction: string;
+  rules: CoordinationRule[];
+  benefits: GraphNode[];
+}
+
+/**
+ * Everything the agent loaded from the graph for one question
+ */
+interface UkGraphData {
+  niClasses: NIClass[];
+  /** True when the NI classes were resolved from the user's employment type */
+  niClassesFromProfile: boolean;
+  benefits: BenefitEligibility[];
+  caps: BenefitCap[];
+  postedWorker?: PostedWorkerContext;
+  rules: GraphContext;
+  graphUnavailable: boolean;
+}
+
+/**
+ * Build the jurisdiction-specific profile tag ID for a persona
+ * (e.g. 'single-director' + 'IE' -> 'PROFILE_SINGLE_DIRECTOR_IE')
+ */
+function profileTagFor(personaType: ProfileId, jurisdiction: string): string {
+  return `PROFILE_${personaType.toUpperCase().replace(/-/g, '_')}_${jurisdiction}`;
+}
+
+/**
+ * Work out the home/host pair for an IE-UK posted worker scenario, if any
+ */
+function detectPostedWorkerScenario(
+  input: AgentInput
+): { homeJurisdiction: string; hostJurisdiction: string } | undefined {
+  const questionLower = input.question.toLowerCase();
+  const jurisdictions = input.profile?.jurisdictions ?? [];
+  const spansBoth = jurisdictions.includes('IE') && jurisdictions.includes(JURISDICTION);
+  const mentionsPosting = POSTED_WORKER_KEYWORDS.some(kw => questionLower.includes(kw));
+
+  if (!spansBoth && !mentionsPosting) {
+    return undefined;
+  }
+
+  const home = jurisdictions.find(j => j === 'IE' || j === JURISDICTION) ??
+    (questionLower.includes('to ireland') || questionLower.includes('in ireland') ? JURISDICTION : 'IE');
+  return { homeJurisdiction: home, hostJurisdiction: home === 'IE' ? JURISDICTION : 'IE' };
+}
+
+/**
+ * Explain whether the user's NI classes, the means test and the benefit cap
+ * affect a benefit
+ */
+function assessEligibility(
+  benefit: GraphNode,
+  niClasses: NIClass[],
+  niClassesFromProfile: boolean,
+  meansTest: MeansTest | null,
+  cappedBy: BenefitCap[]
+): BenefitEligibility {
+  const contributoryClasses = Array.isArray(benefit.properties.ni_classes)
+    ? benefit.properties.ni_classes as string[]
+    : [];
+  const qualifyingClasses = niClasses.filter(niClass =>
+    contributoryClasses.includes(niClass.id) ||
+    (niClass.eligible_benefits ?? []).some(name => benefit.label.toLowerCase().includes(name.toLowerCase()))
+  );
+
+  const parts: string[] = [];
+  if (meansTest) {
+    const capital = meansTest.capital_threshold !== undefined
+      ? `capital above £${meansTest.capital_threshold} disqualifies`
+      : 'capital is assessed';
+    parts.push(
+      `means-tested (${meansTest.id}): ${capital}${meansTest.spouse_income_assessed ? ', partner income is assessed' : ''}`
+    );
+  }
+
+  if (qualifyingClasses.length > 0) {
+    parts.push(
+      `${niClassesFromProfile ? 'your' : 'these'} NI contributions build entitlement (${qualifyingClasses
+        .map(c => c.label)
+        .join(', ')})`
+    );
+  } else if (contributoryClasses.length > 0) {
+    parts.push(
+      niClassesFromProfile
+        ? `contributory via ${contributoryClasses.join(', ')}, which your employment type does not pay`
+        : `contributory via ${contributoryClasses.join(', ')}`
+    );
+  } else if (!meansTest) {
+    parts.push('not contribution-based or means-tested');
+  }
+
+  parts.push(
+    cappedBy.length > 0
+      ? `counts towards the benefit cap (${cappedBy.map(cap => cap.id).join(', ')})`
+      : 'not subject to the benefit cap'
+  );
+
+  return { benefit, meansTest, cappedBy, qualifyingClasses, summary: parts.join('; ') };
+}
+
+/**
+ * Load NI classes, benefits, means tests, caps and posted worker rules from the graph
+ */
+async function loadUkGraphData(input: AgentInput, ctx: AgentContext): Promise<UkGraphData> {
+  const graph = ctx.graphClient;
+  const asOf = input.now ?? ctx.now;
+  let graphUnavailable = false;
+
+  async function query<T>(operation: string, fallback: T, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      graphUnavailable = true;
+      logger.error({ err: error, operation }, `${LOG_PREFIX.agent} Graph query error`);
+      return fallback;
+    }
+  }
+
+  const personaType = input.profile?.personaType;
+  const ukProfileTag = personaType ? UK_PROFILE_TAGS[personaType] : undefined;
+
+  // NI class for the user's employment type, otherwise every UK class
+  let niClasses: NIClass[] = [];
+  let niClassesFromProfile = false;
+  if (ukProfileTag && graph.getNIClassForEmploymentType) {
+    const niClass = await query('niClassForEmploymentType', null as NIClass | null, () =>
+      graph.getNIClassForEmploymentType!(ukProfileTag, JURISDICTION, asOf)
+    );
+    if (niClass) {
+      niClasses = [niClass];
+      niClassesFromProfile = true;
+    }
+  }
+  if (niClasses.length === 0 && graph.getNIClassesForJurisdiction) {
+    niClasses = await query('niClasses', [] as NIClass[], () => graph.getNIClassesForJurisdiction!(JURISDICTION, asOf));
+  }
+
+  const [rules, caps] = await Promise.all([
+    query('rules', { nodes: [], edges: [] } as GraphContext, () =>
+      graph.getRulesForProfileAndJurisdiction(ukProfileTag ?? UK_PROFILE_TAGS['paye-employee']!, JURISDICTION, undefined, asOf)
+    ),
+    query('benefitCaps', [] as BenefitCap[], async () =>
+      graph.getBenefitCapsForJurisdiction ? graph.getBenefitCapsForJurisdiction(JURISDICTION, asOf) : []
+    ),
+  ]);
+
+  const cappedBenefitIds = new Map<string, BenefitCap[]>();
+  if (graph.getBenefitsSubjectToCap) {
+    for (const cap of caps) {
+      const capped = await query('benefitsSubjectToCap', [] as GraphNode[], () => graph.getBenefitsSubjectToCap!(cap.id, asOf));
+      for (const benefit of capped) {
+        cappedBenefitIds.set(benefit.id, [...(cappedBenefitIds.get(benefit.id) ?? []), cap]);
+      }
+    }
+  }
+
+  const benefitNodes = rules.nodes.filter(n => n.type === 'Benefit');
+  const benefits = await Promise.all(
+    benefitNodes.map(async (benefit, index) => {
+      const meansTest = graph.getMeansTestForBenefit && index < MAX_MEANS_TEST_LOOKUPS
+        ? await query('meansTest', null as MeansTest | null, () => graph.getMeansTestForBenefit!(benefit.id, asOf))
+        : null;
+      return assessEligibility(
+        benefit,
+        niClasses,
+        niClassesFromProfile,
+        meansTest,
+        cappedBenefitIds.get(benefit.id) ?? []
+      );
+    })
+  );
+
+  let postedWorker: PostedWorkerContext | undefined;
+  const scenario = detectPostedWorkerScenario(input);
+  if (scenario && graph.getPostedWorkerRules) {
+    const homeProfileTag = personaType
+      ? profileTagFor(personaType, scenario.homeJurisdiction)
+      : profileTagFor('paye-employee', scenario.homeJurisdiction);
+    const result = await query(
+      'postedWorkerRules',
+      { rules: [] as CoordinationRule[], benefits: [] as GraphNode[] },
+      () => graph.getPostedWorkerRules!(homeProfileTag, scenario.homeJurisdiction, scenario.hostJurisdiction, asOf)
+    );
+    postedWorker = { ...scenario, ...result };
+  }
+
+  return { niClasses, niClassesFromProfile, benefits, caps, postedWorker, rules, graphUnavailable };
+}
+
+function formatCapAmounts(cap: BenefitCap): string {
+  const amounts = [
+    cap.amount_single !== undefined ? `single £${cap.amount_single}` : '',
+    cap.amount_couple !== undefined ? `couple £${cap.amount_couple}` : '',
+    cap.amount_with_children !== undefined ? `with children £${cap.amount_with_children}` : '',
+  ].filter(Boolean).join(', ');
+  return `${amounts || 'amounts unspecified'} (${cap.frequency.toLowerCase()})`;
+}
+
+/**
+ * Format graph data for LLM consumption
+ */
+function formatGraphContext(data: UkGraphData): string {
+  const sections: string[] = [];
+
+  if (data.niClasses.length > 0) {
+    const heading = data.niClassesFromProfile ? 'National Insurance (your employment type):' : 'National Insurance Classes:';
+    sections.push(heading + '\n' + data.niClasses.map(c => {
+      const threshold = c.threshold_annual !== undefined ? `, threshold £${c.threshold_annual}/year` : '';
+      const entitles = c.eligible_benefits?.length ? `; builds entitlement to ${c.eligible_benefits.join(', ')}` : '; builds no benefit entitlement';
+      return `- ${c.label} (${c.id}): ${c.rate}%${threshold}${entitles}`;
+    }).join('\n'));
+  }
+
+  if (data.benefits.length > 0) {
+    sections.push('Benefit Eligibility:\n' + data.benefits.map(({ benefit, summary }) =>
+      `- ${benefit.label} (${benefit.id}): ${summary}`
+    ).join('\n'));
+  }
+
+  const meansTests = data.benefits.filter(b => b.meansTest);
+  if (meansTests.length > 0) {
+    sections.push('Means Tests:\n' + meansTests.map(({ benefit, meansTest }) =>
+      `- ${meansTest!.label} (${meansTest!.id}) for ${benefit.label}: ${meansTest!.description || 'No description'}`
+    ).join('\n'));
+  }
+
+  if (data.caps.length > 0) {
+    sections.push('Benefit Cap:\n' + data.caps.map(cap => {
+      const exempt = cap.exemptions?.length ? `; exempt: ${cap.exemptions.join(', ')}` : '';
+      return `- ${cap.label} (${cap.id}): ${formatCapAmounts(cap)}${exempt}`;
+    }).join('\n'));
+  }
+
+  if (data.postedWorker) {
+    const { homeJurisdiction, hostJurisdiction, rules, benefits } = data.postedWorker;
+    const lines = rules.length > 0
+      ? rules.map(rule => {
+        const duration = rule.duration_months ? ` for up to ${rule.duration_months} months` : '';
+        return `- ${rule.label} (${rule.id}, ${rule.regulation}${rule.article ? ` ${rule.article}` : ''})${duration}: ${rule.description || ''}`;
+      })
+      : ['- No coordination rule found in the graph'];
+    if (benefits.length > 0) {
+      lines.push(`- Coordinated ${homeJurisdiction} benefits: ${benefits.map(b => `${b.label} (${b.id})`).join(', ')}`);
+    }
+    sections.push(`Posted Worker Coordination (${homeJurisdiction} -> ${hostJurisdiction}):\n` + lines.join('\n'));
+  }
+
+  if (sections.length === 0) {
+    return 'No relevant UK rules found in the graph. The response will be based on general knowledge, which may be incomplete or outdated.';
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Collect every graph node the answer is based on
+ */
+function collectReferencedNodes(data: UkGraphData): AgentResult['referencedNodes'] {
+  const referenced = new Map<string, AgentResult['referencedNodes'][number]>();
+  const reference = (id: string, label: string, type: string) => {
+    if (!referenced.has(id)) {
+      referenced.set(id, { id, label, type });
+    }
+  };
+
+  data.niClasses.forEach(c => reference(c.id, c.label, 'NIClass'));
+  for (const { benefit, meansTest } of data.benefits) {
+    reference(benefit.id, benefit.label, benefit.type);
+    if (meansTest) reference(meansTest.id, meansTest.label, 'MeansTest');
+  }
+  data.caps.forEach(cap => reference(cap.id, cap.label, 'BenefitCap'));
+  data.postedWorker?.rules.forEach(rule => reference(rule.id, rule.label, 'CoordinationRule'));
+  data.postedWorker?.benefits.forEach(b => reference(b.id, b.label, b.type));
+
+  return Array.from(referenced.values());
+}
+
+/**
+ * UK Social Security and National Insurance Agent
+ */
+export const UK_SocialSecurity_NI_Agent: Agent = {
+  id: AGENT_ID,
+  name: AGENT_NAME,
+  description: 'Handles UK National Insurance, benefit eligibility, means tests, the benefit cap and IE-UK posted worker questions',
+
+  async canHandle(input: AgentInput): Promise<boolean> {
+    const questionLower = input.question.toLowerCase();
+    const hasKeyword = TRIGGER_KEYWORDS.some(kw => questionLower.includes(kw));
+    return hasKeyword && (input.profile?.jurisdictions ?? [JURISDICTION]).includes(JURISDICTION);
+  },
+
+  async handle(input: AgentInput, ctx: AgentContext): Promise<AgentResult> {
+    logger.info(
+      { question: input.question, jurisdictions: input.profile?.jurisdictions },
+      `${LOG_PREFIX.agent} ${AGENT_ID} handling question`
+    );
+
+    const data = await loadUkGraphData(input, ctx);
+    const warnings: string[] = [];
+    if (data.graphUnavailable) {
+      warnings.push(
+        'Memgraph (regulatory graph) is unreachable, so relationship context may be missing in this answer.'
+      );
+    }
+
+    const notes: string[] = [];
+    if (data.postedWorker) {
+      notes.push(
+        `Irish PRSI entitlements for this posting are covered by ${IE_AGENT_ID}; this answer covers the UK side.`
+      );
+    }
+
+    const formattedContext = formatGraphContext(data);
+    const jurisdictions = input.profile?.jurisdictions || [JURISDICTION];
+    const systemPrompt = await buildAgentSystemPrompt(jurisdictions, input.profile);
+
+    const profileContext = input.profile
+      ? `${input.profile.personaType} in ${input.profile.jurisdictions.join(', ') || JURISDICTION}`
+      : 'Not specified; assume a UK resident';
+
+    const userPrompt = `User Question: ${input.question}
+
+Profile Context: ${profileContext}
+
+Graph Context (rules in force as of ${toAsOfParam(input.now ?? ctx.now)}):
+${formattedContext}
+
+Please provide a research-based response that:
+1. Explains which National Insurance class applies and which benefits it builds entitlement to
+2. Applies the means tests and explains how capital and partner income affect entitlement
+3. Explains whether the benefit cap applies and which benefits are exempt
+4. For posted workers, explains which country's contributions apply and for how long
+5. Notes any uncertainties or gaps in the data and encourages professional verification`;
+
+    const response = await ctx.llmClient.chat({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...(input.conversationHistory || []),
+        { role: 'user', content: userPrompt },
+      ],
+    });
+
+    const graphNodes = collectReferencedNodes(data);
+
+    let uncertaintyLevel: 'low' | 'medium' | 'high' = 'medium';
+    if (graphNodes.length === 0) {
+      uncertaintyLevel = 'high';
+      notes.push('Graph context was sparse; response may be based on general knowledge');
+    } else if (data.niClassesFromProfile && data.benefits.length > 0 && data.caps.length > 0) {
+      uncertaintyLevel = 'low';
+    }
+
+    if (data.postedWorker && data.postedWorker.rules.length === 0 && uncertaintyLevel === 'low') {
+      uncertaintyLevel = 'medium';
+    }
+
+    return {
+      answer: response.content,
+      referencedNodes: withRetrievedNodes(input, graphNodes),
+      warnings: warnings.length ? warnings : undefined,
+      uncertaintyLevel,
+      agentId: AGENT_ID,
+      notes: notes.length ? notes : undefined,
+      followUps: [
+        'How many qualifying years do I have towards the State Pension?',
+        'Would savings or a partner\'s income reduce my Universal Credit?',
+        'Which of my benefits count towards the benefit cap?',
+      ],
+    };
+  },
+};
+
+/**
+ * Registry declaration for the UK Social Security and National Insurance Agent
+ */
+export const UK_SocialSecurity_NI_Registration: DomainAgentRegistration = {
+  agent: UK_SocialSecurity_NI_Agent,
+  jurisdictions: ['UK'],
+  profileIds: [],
+  domains: ['social-welfare', 'national-insurance'],
+  keywords: TRIGGER_KEYWORDS,
+  nodeIdPrefixes: ['UK_NI_', 'UK_BENEFIT_', 'UK_MEANS_TEST_', 'IE_UK_POSTED_WORKER_'],
+  coordinatesWith: [IE_AGENT_ID],
+};
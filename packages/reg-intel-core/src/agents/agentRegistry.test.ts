@@ -0,0 +1,273 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+const recordAgentSelection = vi.fn();
+
+vi.mock('@reg-copilot/reg-intel-observability', async () => {
+  const actual = await vi.importActual<typeof import('@reg-copilot/reg-intel-observability')>(
+    '@reg-copilot/reg-intel-observability'
+  );
+  return {
+    ...actual,
+    recordAgentSelection: (...args: unknown[]) => recordAgentSelection(...args),
+  };
+});
+
+vi.mock('@reg-copilot/reg-intel-prompts', () => ({
+  buildPromptWithAspects: vi.fn(() => 'mocked-prompt'),
+}));
+
+vi.mock('../llm/llmClient.js', () => ({
+  REGULATORY_COPILOT_SYSTEM_PROMPT: 'mock-system-prompt',
+}));
+
+import type { Agent, AgentContext, AgentInput, AgentResult } from '../types.js';
+import { AgentError } from '../errors.js';
+import {
+  DomainAgentRegistry,
+  domainAgentRegistry,
+  mergeAgentResults,
+  routeDomainAgents,
+  scoreDomainAgent,
+  type DomainAgentRegistration,
+} from './agentRegistry.js';
+import { createGlobalRegulatoryComplianceAgent } from './GlobalRegulatoryComplianceAgent.js';
+
+function createAgent(id: string, result: Partial<AgentResult> = {}): Agent {
+  return {
+    id,
+    name: `${id} name`,
+    description: id,
+    canHandle: vi.fn().mockResolvedValue(false),
+    handle: vi.fn().mockResolvedValue({
+      answer: `${id} answer`,
+      referencedNodes: [],
+      agentId: id,
+      ...result,
+    }),
+  };
+}
+
+function welfareRegistration(agent = createAgent('IE_Welfare')): DomainAgentRegistration {
+  return {
+    agent,
+    jurisdictions: ['IE'],
+    profileIds: ['single-director'],
+    domains: ['social-welfare'],
+    keywords: ['jobseeker', 'illness benefit'],
+    nodeIdPrefixes: ['IE_BENEFIT_', 'IE_PRSI_'],
+  };
+}
+
+function cgtRegistration(agent = createAgent('IE_CGT')): DomainAgentRegistration {
+  return {
+    agent,
+    jurisdictions: ['IE'],
+    profileIds: ['investor'],
+    domains: ['cgt'],
+    keywords: ['capital gains', 'cgt'],
+    nodeIdPrefixes: ['IE_CGT_', 'IE_ASSET_'],
+  };
+}
+
+const ctx = {
+  graphClient: {
+    getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({ nodes: [], edges: [] }),
+    getCrossBorderSlice: vi.fn().mockResolvedValue({ nodes: [], edges: [] }),
+  },
+  timeline: {},
+  egressGuard: {},
+  llmClient: { chat: vi.fn().mockResolvedValue({ content: 'global answer' }) },
+  now: new Date(),
+} as unknown as AgentContext;
+
+describe('DomainAgentRegistry', () => {
+  it('registers, lists and unregisters agents', () => {
+    const registry = new DomainAgentRegistry();
+    const unregister = registry.register(welfareRegistration());
+
+    expect(registry.list().map(r => r.agent.id)).toEqual(['IE_Welfare']);
+    expect(registry.get('IE_Welfare')?.domains).toEqual(['social-welfare']);
+
+    unregister();
+    expect(registry.list()).toHaveLength(0);
+  });
+
+  it('rejects duplicate registrations', () => {
+    const registry = new DomainAgentRegistry([welfareRegistration()]);
+    expect(() => registry.register(welfareRegistration())).toThrow(AgentError);
+  });
+
+  it('ships with the built-in Single Director agent', () => {
+    expect(domainAgentRegistry.get('SingleDirector_IE_SocialSafetyNet_Agent')).toBeDefined();
+  });
+});
+
+describe('routeDomainAgents', () => {
+  it('scores keyword, profile, jurisdiction and graph signals', async () => {
+    const candidate = await scoreDomainAgent(welfareRegistration(), {
+      question: 'Am I eligible for jobseeker benefit?',
+      profile: { personaType: 'single-director', jurisdictions: ['IE'] },
+      activeNodeIds: ['IE_BENEFIT_JOBSEEKERS_SE', 'IE_RELIEF_SARP'],
+    });
+
+    expect(candidate.signals).toEqual({
+      keyword: 0.35,
+      profile: 0.3,
+      jurisdiction: 0.15,
+      graph: 0.15,
+    });
+    expect(candidate.score).toBe(0.95);
+  });
+
+  it('excludes agents whose jurisdictions do not overlap the profile', async () => {
+    const candidate = await scoreDomainAgent(welfareRegistration(), {
+      question: 'Am I eligible for jobseeker benefit?',
+      profile: { personaType: 'single-director', jurisdictions: ['UK'] },
+    });
+
+    expect(candidate.score).toBe(0);
+  });
+
+  it('falls back to canHandle when no keywords are declared', async () => {
+    const agent = createAgent('Custom');
+    vi.mocked(agent.canHandle).mockResolvedValue(true);
+    const candidate = await scoreDomainAgent(
+      { agent, jurisdictions: [], profileIds: [], domains: ['custom'] },
+      { question: 'anything' }
+    );
+
+    expect(candidate.signals.keyword).toBe(0.35);
+  });
+
+  it('keeps follow-up questions with the agent that owns the active graph nodes', async () => {
+    const registry = new DomainAgentRegistry([welfareRegistration(), cgtRegistration()]);
+
+    const selected = await routeDomainAgents(
+      {
+        question: 'What about the rate for that?',
+        profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+        activeNodeIds: ['IE_CGT_ANNUAL_EXEMPTION', 'IE_ASSET_SHARES_QUOTED'],
+      },
+      registry
+    );
+
+    expect(selected.map(c => c.registration.agent.id)).toEqual(['IE_CGT']);
+  });
+
+  it('fans out to every agent within the margin of the best score', async () => {
+    const registry = new DomainAgentRegistry([welfareRegistration(), cgtRegistration()]);
+    const input: AgentInput = {
+      question: 'Does selling shares and paying CGT affect my jobseeker claim?',
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+    };
+
+    const selected = await routeDomainAgents(input, registry);
+    expect(selected.map(c => c.registration.agent.id).sort()).toEqual(['IE_CGT', 'IE_Welfare']);
+
+    const single = await routeDomainAgents(input, registry, { maxAgents: 1 });
+    expect(single).toHaveLength(1);
+  });
+
+  it('returns no agents when nothing clears the minimum score', async () => {
+    const registry = new DomainAgentRegistry([welfareRegistration()]);
+    const selected = await routeDomainAgents(
+      { question: 'General question', profile: { personaType: 'advisor', jurisdictions: ['IE'] } },
+      registry
+    );
+
+    expect(selected).toEqual([]);
+  });
+});
+
+describe('mergeAgentResults', () => {
+  it('combines answers and de-duplicates metadata', () => {
+    const merged = mergeAgentResults([
+      {
+        agentName: 'Welfare',
+        result: {
+          answer: 'Welfare answer',
+          referencedNodes: [{ id: 'A', label: 'A', type: 'Benefit' }],
+          warnings: ['Shared warning'],
+          uncertaintyLevel: 'low',
+          followUps: ['Q1'],
+          agentId: 'IE_Welfare',
+        },
+      },
+      {
+        agentName: 'CGT',
+        result: {
+          answer: 'CGT answer',
+          referencedNodes: [
+            { id: 'A', label: 'A', type: 'Benefit' },
+            { id: 'B', label: 'B', type: 'Relief' },
+          ],
+          warnings: ['Shared warning'],
+          uncertaintyLevel: 'high',
+          followUps: ['Q1', 'Q2'],
+          agentId: 'IE_CGT',
+        },
+      },
+    ]);
+
+    expect(merged.answer).toBe('### Welfare\n\nWelfare answer\n\n### CGT\n\nCGT answer');
+    expect(merged.referencedNodes.map(n => n.id)).toEqual(['A', 'B']);
+    expect(merged.warnings).toEqual(['Shared warning']);
+    expect(merged.uncertaintyLevel).toBe('high');
+    expect(merged.followUps).toEqual(['Q1', 'Q2']);
+    expect(merged.agentId).toBe('IE_Welfare+IE_CGT');
+  });
+});
+
+describe('GlobalRegulatoryComplianceAgent routing', () => {
+  beforeEach(() => {
+    recordAgentSelection.mockClear();
+  });
+
+  it('fans out to qualifying agents, merges results and records selections with scores', async () => {
+    const welfare = welfareRegistration();
+    const cgt = cgtRegistration();
+    const agent = createGlobalRegulatoryComplianceAgent({
+      registry: new DomainAgentRegistry([welfare, cgt]),
+    });
+
+    const result = await agent.handle(
+      {
+        question: 'Does selling shares and paying CGT affect my jobseeker claim?',
+        profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+      },
+      ctx
+    );
+
+    expect(welfare.agent.handle).toHaveBeenCalledTimes(1);
+    expect(cgt.agent.handle).toHaveBeenCalledTimes(1);
+    expect(result.agentId.split('+').sort()).toEqual(['IE_CGT', 'IE_Welfare']);
+    expect(recordAgentSelection).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentType: 'domain',
+        agentName: 'IE_CGT',
+        domain: 'cgt',
+        selectionMode: 'fan-out',
+        score: expect.any(Number),
+      })
+    );
+  });
+
+  it('falls back to the global answer when every selected agent fails', async () => {
+    const failing = createAgent('IE_Welfare');
+    vi.mocked(failing.handle).mockRejectedValue(new Error('agent failed'));
+    const agent = createGlobalRegulatoryComplianceAgent({
+      registry: new DomainAgentRegistry([welfareRegistration(failing)]),
+    });
+
+    const result = await agent.handle(
+      { question: 'jobseeker benefit?', profile: { personaType: 'single-director', jurisdictions: ['IE'] } },
+      ctx
+    );
+
+    expect(result.agentId).toBe('GlobalRegulatoryComplianceAgent');
+    expect(result.answer).toBe('global answer');
+    expect(recordAgentSelection).toHaveBeenCalledWith(
+      expect.objectContaining({ agentType: 'global' })
+    );
+  });
+});
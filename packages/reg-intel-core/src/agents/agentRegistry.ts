@@ -0,0 +1,315 @@
+/**
+ * Domain Agent Registry
+ *
+ * Packages register domain agents together with the jurisdictions, profiles
+ * and concept domains they cover. The router scores registered agents against
+ * the user profile, the question and the graph nodes already active in the
+ * conversation, so the Global agent no longer relies on a hard-coded list.
+ */
+
+import type { Agent, AgentInput, AgentResult, ProfileId, UserProfile } from '../types.js';
+import { AgentError } from '../errors.js';
+import { SingleDirector_IE_SocialSafetyNet_Registration } from './SingleDirector_IE_SocialSafetyNet_Agent.js';
+import { IE_CGT_Investor_Registration } from './IE_CGT_Investor_Agent.js';
+import { UK_SocialSecurity_NI_Registration } from './UK_SocialSecurity_NI_Agent.js';
+
+/**
+ * Declaration of a domain agent and the regulatory space it covers
+ */
+export interface DomainAgentRegistration {
+  agent: Agent;
+  /** Jurisdiction codes the agent covers (e.g. ['IE']); empty means jurisdiction-agnostic */
+  jurisdictions: string[];
+  /** Profiles the agent is designed for; empty means any profile */
+  profileIds: ProfileId[];
+  /** Concept domains covered (e.g. 'social-welfare', 'cgt'); used for metrics and logs */
+  domains: string[];
+  /** Question phrases that signal relevance. When omitted, `agent.canHandle` is consulted instead. */
+  keywords?: string[];
+  /** Graph node ID prefixes the agent reasons over (e.g. 'IE_PRSI_', 'IE_BENEFIT_') */
+  nodeIdPrefixes?: string[];
+  /** Extra profile predicate for profiles not captured by `profileIds` */
+  matchesProfile?: (profile: UserProfile) => boolean;
+  /**
+   * Agents covering the other side of cross-border scenarios (e.g. the IE
+   * agent for a UK agent handling posted workers). When this agent is selected
+   * and the profile spans the partner's jurisdiction, the partner is fanned
+   * out to as well.
+   */
+  coordinatesWith?: string[];
+}
+
+/**
+ * Individual routing signals contributing to an agent's score
+ */
+export interface AgentRoutingSignals {
+  keyword: number;
+  profile: number;
+  jurisdiction: number;
+  graph: number;
+}
+
+/**
+ * A scored routing candidate
+ */
+export interface AgentRouteCandidate {
+  registration: DomainAgentRegistration;
+  /** Combined score in the range 0-1 */
+  score: number;
+  signals: AgentRoutingSignals;
+}
+
+/**
+ * Routing thresholds
+ */
+export interface AgentRoutingOptions {
+  /** Minimum score for an agent to be selected (default 0.3) */
+  minScore?: number;
+  /** Maximum number of agents to fan out to (default 3) */
+  maxAgents?: number;
+  /** Agents scoring within this margin of the best candidate are fanned out to (default 0.15) */
+  fanOutMargin?: number;
+}
+
+const DEFAULT_ROUTING_OPTIONS: Required<AgentRoutingOptions> = {
+  minScore: 0.3,
+  maxAgents: 3,
+  fanOutMargin: 0.15,
+};
+
+/**
+ * Signal weights. Keyword and profile matches alone are enough to select an
+ * agent; jurisdiction overlap only tips the balance, and graph overlap lets
+ * follow-up questions stay with the agent that produced the earlier answer.
+ */
+const SIGNAL_WEIGHTS = {
+  keyword: 0.35,
+  keywordBonus: 0.05,
+  keywordMax: 0.45,
+  profile: 0.3,
+  jurisdiction: 0.15,
+  graph: 0.3,
+} as const;
+
+/**
+ * Registry of domain agents available to the Global agent
+ */
+export class DomainAgentRegistry {
+  private readonly registrations = new Map<string, DomainAgentRegistration>();
+
+  constructor(registrations: DomainAgentRegistration[] = []) {
+    registrations.forEach(registration => this.register(registration));
+  }
+
+  /**
+   * Register a domain agent. Returns a function that unregisters it.
+   */
+  register(registration: DomainAgentRegistration): () => void {
+    const agentId = registration.agent.id;
+    if (this.registrations.has(agentId)) {
+      throw new AgentError(`Domain agent ${agentId} is already registered`, agentId);
+    }
+
+    this.registrations.set(agentId, registration);
+    return () => {
+      this.unregister(agentId);
+    };
+  }
+
+  unregister(agentId: string): boolean {
+    return this.registrations.delete(agentId);
+  }
+
+  get(agentId: string): DomainAgentRegistration | undefined {
+    return this.registrations.get(agentId);
+  }
+
+  list(): DomainAgentRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  clear(): void {
+    this.registrations.clear();
+  }
+}
+
+/**
+ * Default registry used by the Global agent, pre-populated with the built-in domain agents
+ */
+export const domainAgentRegistry = new DomainAgentRegistry([
+  SingleDirector_IE_SocialSafetyNet_Registration,
+  IE_CGT_Investor_Registration,
+  UK_SocialSecurity_NI_Registration,
+]);
+
+/**
+ * Register a domain agent with the default registry
+ */
+export function registerDomainAgent(registration: DomainAgentRegistration): () => void {
+  return domainAgentRegistry.register(registration);
+}
+
+/**
+ * Score a single registered agent against the input
+ */
+export async function scoreDomainAgent(
+  registration: DomainAgentRegistration,
+  input: AgentInput
+): Promise<AgentRouteCandidate> {
+  const signals: AgentRoutingSignals = { keyword: 0, profile: 0, jurisdiction: 0, graph: 0 };
+  const profile = input.profile;
+
+  // A declared jurisdiction with no overlap rules the agent out entirely
+  const profileJurisdictions = profile?.jurisdictions ?? [];
+  if (registration.jurisdictions.length > 0 && profileJurisdictions.length > 0) {
+    const overlaps = profileJurisdictions.some(j => registration.jurisdictions.includes(j));
+    if (!overlaps) {
+      return { registration, score: 0, signals };
+    }
+    signals.jurisdiction = SIGNAL_WEIGHTS.jurisdiction;
+  }
+
+  if (registration.keywords) {
+    const questionLower = input.question.toLowerCase();
+    const hits = registration.keywords.filter(kw => questionLower.includes(kw.toLowerCase())).length;
+    if (hits > 0) {
+      signals.keyword = Math.min(
+        SIGNAL_WEIGHTS.keyword + (hits - 1) * SIGNAL_WEIGHTS.keywordBonus,
+        SIGNAL_WEIGHTS.keywordMax
+      );
+    }
+  } else if (await registration.agent.canHandle(input)) {
+    signals.keyword = SIGNAL_WEIGHTS.keyword;
+  }
+
+  if (profile) {
+    const matchesProfileId =
+      registration.profileIds.length > 0 && registration.profileIds.includes(profile.personaType);
+    if (matchesProfileId || registration.matchesProfile?.(profile)) {
+      signals.profile = SIGNAL_WEIGHTS.profile;
+    }
+  }
+
+  const activeNodeIds = input.activeNodeIds ?? [];
+  const prefixes = registration.nodeIdPrefixes ?? [];
+  if (activeNodeIds.length > 0 && prefixes.length > 0) {
+    const matching = activeNodeIds.filter(id => prefixes.some(prefix => id.startsWith(prefix))).length;
+    signals.graph = SIGNAL_WEIGHTS.graph * (matching / activeNodeIds.length);
+  }
+
+  const score = Math.min(
+    1,
+    signals.keyword + signals.profile + signals.jurisdiction + signals.graph
+  );
+
+  return { registration, score: Number(score.toFixed(3)), signals };
+}
+
+/**
+ * Score every registered agent and return the selected candidates, best first.
+ *
+ * Several agents are returned when they all clear `minScore` and fall within
+ * `fanOutMargin` of the best score, plus any `coordinatesWith` partners whose
+ * jurisdiction the profile covers; an empty array means the Global agent
+ * should answer on its own.
+ */
+export async function routeDomainAgents(
+  input: AgentInput,
+  registry: DomainAgentRegistry = domainAgentRegistry,
+  options: AgentRoutingOptions = {}
+): Promise<AgentRouteCandidate[]> {
+  const { minScore, maxAgents, fanOutMargin } = { ...DEFAULT_ROUTING_OPTIONS, ...options };
+
+  const candidates = await Promise.all(
+    registry.list().map(registration => scoreDomainAgent(registration, input))
+  );
+
+  const qualifying = candidates
+    .filter(candidate => candidate.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+
+  if (qualifying.length === 0) {
+    return [];
+  }
+
+  const bestScore = qualifying[0].score;
+  const selected = qualifying
+    .filter(candidate => bestScore - candidate.score <= fanOutMargin)
+    .slice(0, Math.max(1, maxAgents));
+
+  for (const candidate of [...selected]) {
+    for (const partnerId of candidate.registration.coordinatesWith ?? []) {
+      const partner = candidates.find(c => c.registration.agent.id === partnerId);
+      if (
+        partner &&
+        partner.signals.jurisdiction > 0 &&
+        !selected.includes(partner) &&
+        selected.length < maxAgents
+      ) {
+        selected.push(partner);
+      }
+    }
+  }
+
+  return selected;
+}
+
+const UNCERTAINTY_ORDER = ['low', 'medium', 'high'] as const;
+
+function dedupe<T>(values: T[], key: (value: T) => string = String): T[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const k = key(value);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Merge results from several domain agents into a single AgentResult.
+ *
+ * Answers are kept as separate sections attributed to each agent, referenced
+ * nodes/warnings/notes/follow-ups are de-duplicated, and the merged
+ * uncertainty is the highest reported by any agent.
+ */
+export function mergeAgentResults(
+  results: Array<{ agentName: string; result: AgentResult }>
+): AgentResult {
+  if (results.length === 1) {
+    return results[0].result;
+  }
+
+  const answer = results
+    .map(({ agentName, result }) => `### ${agentName}\n\n${result.answer.trim()}`)
+    .join('\n\n');
+
+  const uncertaintyLevel = results.reduce<AgentResult['uncertaintyLevel']>((highest, { result }) => {
+    if (!result.uncertaintyLevel) return highest;
+    if (!highest) return result.uncertaintyLevel;
+    return UNCERTAINTY_ORDER.indexOf(result.uncertaintyLevel) > UNCERTAINTY_ORDER.indexOf(highest)
+      ? result.uncertaintyLevel
+      : highest;
+  }, undefined);
+
+  const warnings = dedupe(results.flatMap(({ result }) => result.warnings ?? []));
+  const notes = dedupe(results.flatMap(({ result }) => result.notes ?? []));
+  const eligibility = dedupe(
+    results.flatMap(({ result }) => result.eligibility ?? []),
+    evaluation => evaluation.benefitId
+  );
+
+  return {
+    answer,
+    referencedNodes: dedupe(
+      results.flatMap(({ result }) => result.referencedNodes),
+      node => node.id
+    ),
+    warnings: warnings.length ? warnings : undefined,
+    notes: notes.length ? notes : undefined,
+    uncertaintyLevel,
+    followUps: dedupe(results.flatMap(({ result }) => result.followUps ?? [])).slice(0, 5),
+    agentId: results.map(({ result }) => result.agentId).join('+'),
+    eligibility: eligibility.length ? eligibility : undefined,
+  };
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@reg-copilot/reg-intel-prompts', () => ({
+  buildPromptWithAspects: vi.fn(() => 'mocked-prompt'),
+}));
+
+vi.mock('../llm/llmClient.js', () => ({
+  REGULATORY_COPILOT_SYSTEM_PROMPT: 'mock-system-prompt',
+}));
+
+import type {
+  Agent,
+  AgentContext,
+  AgentInput,
+  AgentProgressEvent,
+  CoordinationRule,
+  LlmStreamChunk,
+} from '../types.js';
+import { DomainAgentRegistry, type DomainAgentRegistration } from './agentRegistry.js';
+import {
+  buildSynthesisMessages,
+  detectJurisdictionConflicts,
+  formatConflictsSection,
+  type AgentContribution,
+} from './answerSynthesis.js';
+import { createGlobalRegulatoryComplianceAgent } from './GlobalRegulatoryComplianceAgent.js';
+
+const postedWorkerRule: CoordinationRule = {
+  id: 'EU_POSTED_WORKER_IE_UK',
+  label: 'Posted worker rule',
+  regulation: 'IE-UK Social Security Convention',
+  article: '12',
+  applies_to: 'posted_workers',
+  home_jurisdiction: 'IE',
+  host_jurisdiction: 'UK',
+};
+
+function registration(id: string, jurisdiction: string, keywords: string[]): DomainAgentRegistration {
+  const agent: Agent = {
+    id,
+    name: `${jurisdiction} agent`,
+    description: id,
+    canHandle: vi.fn().mockResolvedValue(false),
+    handle: vi.fn().mockResolvedValue({
+      answer: `${jurisdiction} answer`,
+      referencedNodes: [{ id: `${jurisdiction}_NODE`, label: `${jurisdiction} node`, type: 'Benefit' }],
+      uncertaintyLevel: jurisdiction === 'UK' ? 'high' : 'low',
+      warnings: [`${jurisdiction} warning`],
+      agentId: id,
+    }),
+  };
+
+  return { agent, jurisdictions: [jurisdiction], profileIds: [], domains: ['social-welfare'], keywords };
+}
+
+function contribution(reg: DomainAgentRegistration): AgentContribution {
+  return {
+    registration: reg,
+    result: {
+      answer: `${reg.jurisdictions[0]} answer`,
+      referencedNodes: [],
+      agentId: reg.agent.id,
+    },
+  };
+}
+
+function createContext(overrides: Partial<AgentContext> = {}): AgentContext {
+  return {
+    graphClient: {
+      getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({ nodes: [], edges: [] }),
+      getCrossBorderSlice: vi.fn().mockResolvedValue({ nodes: [], edges: [] }),
+      getCoordinationRules: vi.fn(async (home: string, host: string) =>
+        home === 'IE' && host === 'UK' ? [postedWorkerRule] : []
+      ),
+    },
+    timeline: {},
+    egressGuard: {},
+    llmClient: { chat: vi.fn().mockResolvedValue({ content: 'synthesized answer' }) },
+    now: new Date(),
+    ...overrides,
+  } as unknown as AgentContext;
+}
+
+const crossBorderInput: AgentInput = {
+  question: 'I am an IE director posted to the UK, which PRSI or NI applies?',
+  profile: { personaType: 'single-director', jurisdictions: ['IE', 'UK'] },
+};
+
+describe('detectJurisdictionConflicts', () => {
+  it('reports coordinated conflicts using coordination rules from the graph', async () => {
+    const ie = registration('IE_Agent', 'IE', ['prsi']);
+    const uk = registration('UK_Agent', 'UK', ['ni']);
+
+    const conflicts = await detectJurisdictionConflicts(
+      [contribution(uk), contribution(ie)],
+      crossBorderInput,
+      createContext()
+    );
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        jurisdictions: ['IE', 'UK'],
+        agentIds: ['IE_Agent', 'UK_Agent'],
+        status: 'coordinated',
+        coordinationRules: [
+          {
+            id: 'EU_POSTED_WORKER_IE_UK',
+            label: 'Posted worker rule',
+            regulation: 'IE-UK Social Security Convention',
+            article: '12',
+          },
+        ],
+      }),
+    ]);
+    expect(conflicts[0].description).toContain('Posted worker rule (IE-UK Social Security Convention Art. 12)');
+  });
+
+  it('loads coordination rules in force on the requested date', async () => {
+    const ctx = createContext();
+    const asOf = new Date('2021-06-30T00:00:00Z');
+
+    await detectJurisdictionConflicts(
+      [contribution(registration('IE_Agent', 'IE', [])), contribution(registration('UK_Agent', 'UK', []))],
+      { ...crossBorderInput, now: asOf },
+      ctx
+    );
+
+    expect(ctx.graphClient.getCoordinationRules).toHaveBeenCalledWith('IE', 'UK', asOf);
+    expect(ctx.graphClient.getCoordinationRules).toHaveBeenCalledWith('UK', 'IE', asOf);
+  });
+
+  it('marks conflicts unresolved when the graph has no coordination rules', async () => {
+    const ctx = createContext();
+    (ctx.graphClient as { getCoordinationRules?: unknown }).getCoordinationRules = vi
+      .fn()
+      .mockRejectedValue(new Error('graph down'));
+
+    const conflicts = await detectJurisdictionConflicts(
+      [contribution(registration('IE_Agent', 'IE', [])), contribution(registration('UK_Agent', 'UK', []))],
+      crossBorderInput,
+      ctx
+    );
+
+    expect(conflicts[0].status).toBe('unresolved');
+    expect(conflicts[0].coordinationRules).toEqual([]);
+  });
+
+  it('returns no conflicts when every agent covers the same jurisdiction', async () => {
+    const conflicts = await detectJurisdictionConflicts(
+      [contribution(registration('A', 'IE', [])), contribution(registration('B', 'IE', []))],
+      crossBorderInput,
+      createContext()
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe('buildSynthesisMessages', () => {
+  it('includes every agent answer and the conflicts in the prompt', () => {
+    const messages = buildSynthesisMessages(
+      [contribution(registration('IE_Agent', 'IE', [])), contribution(registration('UK_Agent', 'UK', []))],
+      [
+        {
+          jurisdictions: ['IE', 'UK'],
+          agentIds: ['IE_Agent', 'UK_Agent'],
+          description: 'Overlap',
+          coordinationRules: [],
+          status: 'unresolved',
+        },
+      ],
+      crossBorderInput,
+      'system'
+    );
+
+    expect(messages[0]).toEqual({ role: 'system', content: 'system' });
+    const prompt = messages[messages.length - 1].content;
+    expect(prompt).toContain('IE answer');
+    expect(prompt).toContain('UK answer');
+    expect(prompt).toContain('- IE / UK (unresolved): Overlap');
+    expect(formatConflictsSection([])).toBe('');
+  });
+});
+
+describe('GlobalRegulatoryComplianceAgent synthesis', () => {
+  function createFanOutAgent() {
+    const ie = registration('IE_Agent', 'IE', ['prsi']);
+    const uk = registration('UK_Agent', 'UK', ['ni']);
+    const agent = createGlobalRegulatoryComplianceAgent({
+      registry: new DomainAgentRegistry([ie, uk]),
+    });
+    return { agent, ie, uk };
+  }
+
+  it('synthesizes one answer with conflicts and reports per-agent progress', async () => {
+    const { agent } = createFanOutAgent();
+    const progress: AgentProgressEvent[] = [];
+    const ctx = createContext({ onAgentProgress: event => progress.push(event) });
+
+    const result = await agent.handle(crossBorderInput, ctx);
+
+    expect(result.answer).toBe('synthesized answer');
+    expect(result.uncertaintyLevel).toBe('high');
+    expect(result.warnings).toEqual(['IE warning', 'UK warning']);
+    expect(result.conflicts).toHaveLength(1);
+    expect(progress.map(event => `${event.agentId}:${event.status}`).sort()).toEqual([
+      'IE_Agent:completed',
+      'IE_Agent:started',
+      'UK_Agent:completed',
+      'UK_Agent:started',
+    ]);
+  });
+
+  it('falls back to sectioned answers with a conflicts section when synthesis fails', async () => {
+    const { agent } = createFanOutAgent();
+    const ctx = createContext({
+      llmClient: { chat: vi.fn().mockRejectedValue(new Error('llm down')) },
+    });
+
+    const result = await agent.handle(crossBorderInput, ctx);
+
+    expect(result.answer).toContain('### IE agent');
+    expect(result.answer).toContain('### UK agent');
+    expect(result.answer).toContain('### Conflicts between jurisdictions');
+  });
+
+  it('streams the synthesized answer when the client supports streaming', async () => {
+    const { agent } = createFanOutAgent();
+    const streamChat = vi.fn(async function* (): AsyncIterable<LlmStreamChunk> {
+      yield { type: 'text', delta: 'streamed synthesis' };
+      yield { type: 'done' };
+    });
+    const ctx = createContext({
+      llmClient: { chat: vi.fn(), streamChat },
+    });
+
+    const result = await agent.handleStream!(crossBorderInput, ctx);
+    const chunks: LlmStreamChunk[] = [];
+    for await (const chunk of result.stream) {
+      chunks.push(chunk);
+    }
+
+    expect(result.conflicts?.[0].status).toBe('coordinated');
+    expect(result.agentId).toBe('IE_Agent+UK_Agent');
+    expect(chunks[0]).toEqual({ type: 'text', delta: 'streamed synthesis' });
+  });
+
+  it('reports a single agent once when its streaming attempt fails over to handle', async () => {
+    const ie = registration('IE_Agent', 'IE', ['prsi']);
+    ie.agent.handleStream = vi.fn().mockRejectedValue(new Error('stream failed'));
+    const agent = createGlobalRegulatoryComplianceAgent({ registry: new DomainAgentRegistry([ie]) });
+    const progress: AgentProgressEvent[] = [];
+    const ctx = createContext({ onAgentProgress: event => progress.push(event) });
+
+    await agent.handleStream!(
+      { question: 'Which PRSI class applies to me?', profile: { jurisdictions: ['IE'] } },
+      ctx
+    );
+
+    expect(ie.agent.handle).toHaveBeenCalledTimes(1);
+    expect(progress.map(event => `${event.agentId}:${event.status}`)).toEqual([
+      'IE_Agent:started',
+      'IE_Agent:completed',
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Multi-agent answer synthesis
+ *
+ * When the Global agent fans out to several domain agents (e.g. an IE
+ * director working in the UK), their answers are combined into a single
+ * response. Overlapping jurisdictions are reported as explicit conflicts,
+ * annotated with the coordination rules the graph holds for each pair.
+ */
+
+import type {
+  AgentContext,
+  AgentInput,
+  AgentResult,
+  ChatMessage,
+  CoordinationRule,
+  JurisdictionConflict,
+} from '../types.js';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { DomainAgentRegistration } from './agentRegistry.js';
+
+const logger = createLogger('AnswerSynthesis', { component: 'Agent' });
+
+/**
+ * Result produced by one domain agent during fan-out
+ */
+export interface AgentContribution {
+  registration: DomainAgentRegistration;
+  result: AgentResult;
+}
+
+/**
+ * Report each pair of jurisdictions covered by the contributing agents,
+ * together with the coordination rules that decide which jurisdiction applies.
+ *
+ * The profile's first jurisdiction is treated as the home jurisdiction.
+ */
+export async function detectJurisdictionConflicts(
+  contributions: AgentContribution[],
+  input: AgentInput,
+  ctx: AgentContext
+): Promise<JurisdictionConflict[]> {
+  const agentsByJurisdiction = new Map<string, string[]>();
+  for (const { registration } of contributions) {
+    for (const jurisdiction of registration.jurisdictions) {
+      const agentIds = agentsByJurisdiction.get(jurisdiction) ?? [];
+      agentIds.push(registration.agent.id);
+      agentsByJurisdiction.set(jurisdiction, agentIds);
+    }
+  }
+
+  const jurisdictions = Array.from(agentsByJurisdiction.keys());
+  if (jurisdictions.length < 2) {
+    return [];
+  }
+
+  const profileHome = input.profile?.jurisdictions?.[0];
+  const home = profileHome && agentsByJurisdiction.has(profileHome) ? profileHome : jurisdictions[0];
+  const hosts = jurisdictions.filter(jurisdiction => jurisdiction !== home);
+
+  return Promise.all(
+    hosts.map(async host => {
+      const rules = await loadCoordinationRules(ctx, home, host, input.now ?? ctx.now);
+      const agentIds = Array.from(
+        new Set([...(agentsByJurisdiction.get(home) ?? []), ...(agentsByJurisdiction.get(host) ?? [])])
+      );
+
+      const description = rules.length > 0
+        ? `${home} and ${host} rules both apply to this question; ${rules
+          .map(rule => formatRuleReference(rule))
+          .join(', ')} determine which jurisdiction takes precedence.`
+        : `${home} and ${host} rules both apply to this question and no coordination rule was found in the graph, so obligations or entitlements may overlap.`;
+
+      return {
+        jurisdictions: [home, host],
+        agentIds,
+        description,
+        coordinationRules: rules.map(({ id, label, regulation, article }) => ({
+          id,
+          label,
+          regulation,
+          article,
+        })),
+        status: rules.length > 0 ? 'coordinated' : 'unresolved',
+      } satisfies JurisdictionConflict;
+    })
+  );
+}
+
+async function loadCoordinationRules(
+  ctx: AgentContext,
+  home: string,
+  host: string,
+  asOf: Date
+): Promise<CoordinationRule[]> {
+  if (!ctx.graphClient.getCoordinationRules) {
+    return [];
+  }
+
+  try {
+    const [outbound, inbound] = await Promise.all([
+      ctx.graphClient.getCoordinationRules(home, host, asOf),
+      ctx.graphClient.getCoordinationRules(host, home, asOf),
+    ]);
+
+    const seen = new Set<string>();
+    return [...outbound, ...inbound].filter(rule => {
+      if (seen.has(rule.id)) return false;
+      seen.add(rule.id);
+      return true;
+    });
+  } catch (error) {
+    logger.warn({ event: 'coordination.error', home, host, err: error });
+    return [];
+  }
+}
+
+function formatRuleReference(rule: Pick<CoordinationRule, 'label' | 'regulation' | 'article'>): string {
+  const citation = [rule.regulation, rule.article ? `Art. ${rule.article}` : undefined]
+    .filter(Boolean)
+    .join(' ');
+  return citation ? `${rule.label} (${citation})` : rule.label;
+}
+
+/**
+ * Render conflicts as a markdown section appended to answers
+ */
+export function formatConflictsSection(conflicts: JurisdictionConflict[]): string {
+  if (conflicts.length === 0) {
+    return '';
+  }
+
+  return [
+    '### Conflicts between jurisdictions',
+    '',
+    ...conflicts.map(conflict => `- **${conflict.jurisdictions.join(' / ')}**: ${conflict.description}`),
+  ].join('\n');
+}
+
+/**
+ * Build the synthesis prompt from each agent's answer and the detected conflicts
+ */
+export function buildSynthesisMessages(
+  contributions: AgentContribution[],
+  conflicts: JurisdictionConflict[],
+  input: AgentInput,
+  systemPrompt: string
+): ChatMessage[] {
+  const agentSections = contributions
+    .map(({ registration, result }) => {
+      const header = `Agent: ${registration.agent.name} (jurisdictions: ${
+        registration.jurisdictions.join(', ') || 'any'
+      }; uncertainty: ${result.uncertaintyLevel ?? 'unknown'})`;
+      const warnings = result.warnings?.length ? `\nWarnings: ${result.warnings.join(' | ')}` : '';
+      return `${header}${warnings}\n${result.answer.trim()}`;
+    })
+    .join('\n\n---\n\n');
+
+  const conflictLines = conflicts.length > 0
+    ? conflicts
+      .map(conflict => `- ${conflict.jurisdictions.join(' / ')} (${conflict.status}): ${conflict.description}`)
+      .join('\n')
+    : '- None detected';
+
+  const prompt = `User Question: ${input.question}
+
+Several specialist agents answered this question independently:
+
+${agentSections}
+
+Jurisdiction conflicts identified from the regulatory graph:
+${conflictLines}
+
+Write a single, coherent answer that:
+1. Combines the specialist answers without repeating them verbatim
+2. Makes clear which jurisdiction each rule belongs to
+3. Ends with a "Conflicts between jurisdictions" section explaining each conflict above and how coordination rules resolve it (or that it is unresolved)
+4. Preserves every warning and uncertainty raised by the specialist agents
+5. Keeps the [node:NODE_ID] citation markers next to the claims they support`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...(input.conversationHistory || []),
+    { role: 'user', content: prompt },
+  ];
+}
@@ -0,0 +1,31 @@
+/**
+ * Referenced node ranking shared by the agents
+ *
+ * Every agent reports the graph nodes its answer relies on. When the engine
+ * ran ranked retrieval for the question, those nodes lead the list so that
+ * citations to them validate whichever agent answered.
+ */
+
+import type { AgentInput, AgentResult } from '../types.js';
+
+type ReferencedNode = AgentResult['referencedNodes'][number];
+
+/**
+ * Ranked retrieval results first, then the nodes the agent found itself,
+ * without duplicates and optionally capped at `limit` entries
+ */
+export function withRetrievedNodes(
+  input: Pick<AgentInput, 'retrievedNodes'>,
+  agentNodes: ReferencedNode[],
+  limit?: number
+): ReferencedNode[] {
+  const merged = new Map<string, ReferencedNode>();
+  for (const node of [...(input.retrievedNodes ?? []), ...agentNodes]) {
+    if (!merged.has(node.id)) {
+      merged.set(node.id, { id: node.id, label: node.label, type: node.type });
+    }
+  }
+
+  const nodes = Array.from(merged.values());
+  return limit === undefined ? nodes : nodes.slice(0, limit);
+}
@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ComplianceCalendar, Form, GraphClient, Obligation, Timeline } from '../types.js';
+import { buildComplianceCalendar, renderICalendar, toProfileTagId } from './complianceCalendar.js';
+
+const cgtReturn: Obligation = {
+  id: 'IE_CGT_RETURN',
+  label: 'CGT return',
+  category: 'FILING',
+  frequency: 'ANNUAL',
+  penalty_applies: true,
+  description: 'Report chargeable gains for the tax year',
+};
+
+const cgtReturnDeadline: Timeline = {
+  id: 'IE_CGT_RETURN_DEADLINE',
+  label: '31 October of the year after disposal',
+  window_months: 10,
+  kind: 'DEADLINE',
+  anchor: 'TAX_YEAR_END',
+  day_of_month: 31,
+};
+
+const prelimTax: Obligation = {
+  id: 'IE_PRELIMINARY_TAX',
+  label: 'Preliminary tax',
+  category: 'PAYMENT',
+  frequency: 'ANNUAL',
+};
+
+const prelimTaxDeadline: Timeline = {
+  id: 'IE_PRELIM_TAX_DEADLINE',
+  label: '31 October in the tax year',
+  window_months: 9,
+  kind: 'DEADLINE',
+  anchor: 'TAX_YEAR_START',
+  day_of_month: 31,
+};
+
+const companyRegistration: Obligation = {
+  id: 'IE_CRO_REGISTRATION',
+  label: 'Company registration',
+  category: 'REGISTRATION',
+  frequency: 'ONE_TIME',
+};
+
+const form11: Form = {
+  id: 'IE_FORM_11',
+  label: 'Income Tax Return',
+  issuing_body: 'Revenue',
+  form_number: 'Form 11',
+  source_url: 'https://www.revenue.ie/en/self-assessment-and-self-employment/form-11.aspx',
+  category: 'TAX_RETURN',
+};
+
+const deemedDisposal: Timeline = {
+  id: 'IE_DEEMED_DISPOSAL_8Y',
+  label: '8-year deemed disposal',
+  window_years: 8,
+  kind: 'LOCK_IN',
+  jurisdictionCode: 'IE',
+};
+
+function createMockGraphClient(): GraphClient {
+  const timelines: Record<string, Timeline[]> = {
+    IE_CGT_RETURN: [cgtReturnDeadline],
+    IE_PRELIMINARY_TAX: [prelimTaxDeadline, { id: 'IE_PRELIM_LOOKBACK', label: 'Prior year', window_years: 1, kind: 'LOOKBACK' }],
+    IE_CRO_REGISTRATION: [{ id: 'IE_CRO_DEADLINE', label: '30 days', window_days: 30, kind: 'DEADLINE' }],
+    IE_ASSET_ETF: [deemedDisposal],
+  };
+
+  return {
+    getRulesForProfileAndJurisdiction: vi.fn(),
+    getNeighbourhood: vi.fn(),
+    getMutualExclusions: vi.fn(),
+    getTimelines: vi.fn(async (nodeId: string) => timelines[nodeId] ?? []),
+    getCrossBorderSlice: vi.fn(),
+    executeCypher: vi.fn(),
+    getObligationsForProfile: vi.fn(async () => [cgtReturn, prelimTax, companyRegistration]),
+    getFormForObligation: vi.fn(async (obligationId: string) => (obligationId === 'IE_CGT_RETURN' ? form11 : null)),
+  };
+}
+
+describe('Compliance Calendar', () => {
+  describe('toProfileTagId', () => {
+    it('should map profile ids to graph profile tags', () => {
+      expect(toProfileTagId('single-director', 'IE')).toBe('PROFILE_SINGLE_DIRECTOR_IE');
+      expect(toProfileTagId('investor', 'uk')).toBe('PROFILE_INVESTOR_UK');
+    });
+  });
+
+  describe('buildComplianceCalendar', () => {
+    it('should schedule annual filing and payment deadlines in range', async () => {
+      const graphClient = createMockGraphClient();
+
+      const calendar = await buildComplianceCalendar(graphClient, {
+        profileId: 'investor',
+        jurisdictions: ['IE'],
+        from: new Date('2025-01-01'),
+        to: new Date('2026-12-31'),
+      });
+
+      expect(graphClient.getObligationsForProfile).toHaveBeenCalledWith('PROFILE_INVESTOR_IE', 'IE');
+      expect(calendar.from).toBe('2025-01-01');
+      expect(calendar.to).toBe('2026-12-31');
+      expect(calendar.events.map(e => [e.date, e.kind, e.title])).toEqual([
+        ['2025-10-31', 'FILING', 'CGT return (tax year 2024)'],
+        ['2025-10-31', 'PAYMENT', 'Preliminary tax (tax year 2025)'],
+        ['2026-11-02', 'FILING', 'CGT return (tax year 2025)'],
+        ['2026-11-02', 'PAYMENT', 'Preliminary tax (tax year 2026)'],
+      ]);
+    });
+
+    it('should include source node ids, forms and roll-forward details', async () => {
+      const calendar = await buildComplianceCalendar(createMockGraphClient(), {
+        profileId: 'investor',
+        jurisdictions: ['IE'],
+        from: new Date('2026-01-01'),
+        to: new Date('2026-12-31'),
+      });
+
+      const event = calendar.events.find(e => e.sourceNodeIds[0] === 'IE_CGT_RETURN');
+      expect(event).toMatchObject({
+        uid: 'IE_CGT_RETURN-IE_CGT_RETURN_DEADLINE-20261102@reg-copilot',
+        jurisdiction: 'IE',
+        rolledForward: true,
+        sourceNodeIds: ['IE_CGT_RETURN', 'IE_CGT_RETURN_DEADLINE', 'IE_FORM_11'],
+        url: form11.source_url,
+      });
+      expect(event?.description).toContain('so it moves to 2026-11-02');
+      expect(event?.description).toContain('Form: Income Tax Return (Form 11), Revenue');
+      expect(event?.description).toContain('Penalties apply');
+      expect(event?.description).toContain('Source nodes: IE_CGT_RETURN, IE_CGT_RETURN_DEADLINE, IE_FORM_11');
+    });
+
+    it('should add lock-in expiries that fall in range', async () => {
+      const calendar = await buildComplianceCalendar(createMockGraphClient(), {
+        profileId: 'investor',
+        jurisdictions: ['IE'],
+        from: new Date('2026-01-01'),
+        to: new Date('2026-12-31'),
+        lockIns: [
+          { nodeId: 'IE_ASSET_ETF', startedOn: '2018-06-15' },
+          { nodeId: 'IE_ASSET_ETF', startedOn: '2022-06-15' },
+        ],
+      });
+
+      const expiries = calendar.events.filter(e => e.kind === 'LOCK_IN_EXPIRY');
+      expect(expiries).toHaveLength(1);
+      expect(expiries[0]).toMatchObject({
+        date: '2026-06-15',
+        title: '8-year deemed disposal ends',
+        sourceNodeIds: ['IE_ASSET_ETF', 'IE_DEEMED_DISPOSAL_8Y'],
+      });
+      expect(expiries[0].description).toContain('Source nodes: IE_ASSET_ETF, IE_DEEMED_DISPOSAL_8Y');
+    });
+
+    it('should return an empty calendar when the graph client has no obligation lookup', async () => {
+      const { getObligationsForProfile: _omitted, ...graphClient } = createMockGraphClient();
+
+      const calendar = await buildComplianceCalendar(graphClient, {
+        profileId: 'investor',
+        jurisdictions: ['IE'],
+        from: new Date('2026-01-01'),
+        to: new Date('2026-12-31'),
+      });
+
+      expect(calendar.events).toEqual([]);
+    });
+  });
+
+  describe('renderICalendar', () => {
+    const calendar: ComplianceCalendar = {
+      profileId: 'investor',
+      jurisdictions: ['IE'],
+      from: '2026-01-01',
+      to: '2026-12-31',
+      generatedAt: '2026-01-15T09:30:00.000Z',
+      events: [
+        {
+          uid: 'IE_CGT_RETURN-IE_CGT_RETURN_DEADLINE-20261102@reg-copilot',
+          date: '2026-11-02',
+          kind: 'FILING',
+          title: 'CGT return; tax year 2025',
+          description: `Report gains, losses and reliefs\n${'Source nodes: IE_CGT_RETURN, IE_CGT_RETURN_DEADLINE '.repeat(3)}`,
+          jurisdiction: 'IE',
+          sourceNodeIds: ['IE_CGT_RETURN', 'IE_CGT_RETURN_DEADLINE'],
+          url: 'https://www.revenue.ie',
+        },
+      ],
+    };
+
+    it('should render all-day events with escaped text', () => {
+      const ics = renderICalendar(calendar);
+      const unfolded = ics.replace(/\r\n /g, '');
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(unfolded).toContain('UID:IE_CGT_RETURN-IE_CGT_RETURN_DEADLINE-20261102@reg-copilot\r\n');
+      expect(unfolded).toContain('DTSTAMP:20260115T093000Z\r\n');
+      expect(unfolded).toContain('DTSTART;VALUE=DATE:20261102\r\nDTEND;VALUE=DATE:20261103\r\n');
+      expect(unfolded).toContain('SUMMARY:CGT return\\; tax year 2025\r\n');
+      expect(unfolded).toContain('DESCRIPTION:Report gains\\, losses and reliefs\\nSource nodes: IE_CGT_RETURN\\,');
+      expect(unfolded).toContain('CATEGORIES:FILING\r\n');
+      expect(unfolded).toContain('URL:https://www.revenue.ie\r\n');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const lines = renderICalendar(calendar).split('\r\n');
+
+      expect(lines.some(line => line.startsWith(' '))).toBe(true);
+      for (const line of lines) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      }
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Compliance Calendar for Regulatory Intelligence Copilot
+ *
+ * Turns a profile's obligations, their FILING_DEADLINE timelines and forms, and
+ * the lock-in periods of reliefs or benefits the user has claimed into dated
+ * calendar events, and renders them as an iCalendar (RFC 5545) feed. Deadlines
+ * are computed with the calendar-aware Timeline Engine.
+ */
+
+import type {
+  ComplianceCalendar,
+  ComplianceCalendarEvent,
+  ComplianceCalendarOptions,
+  Form,
+  GraphClient,
+  Obligation,
+  ProfileId,
+  TaxYearPeriod,
+  Timeline,
+} from '../types.js';
+import { computeDeadline, computeLockInEnd, getTaxYear } from '../timeline/timelineEngine.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tax years before `from` whose deadlines can still fall inside the range
+ */
+const DEADLINE_LOOKBACK_YEARS = 2;
+
+const ICAL_PRODUCT_ID = '-//Regulatory Intelligence Copilot//Compliance Calendar//EN';
+const ICAL_LINE_LIMIT = 75;
+const UID_DOMAIN = 'reg-copilot';
+
+const encoder = new TextEncoder();
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Graph ProfileTag id for a profile in a jurisdiction (e.g. PROFILE_SINGLE_DIRECTOR_IE)
+ */
+export function toProfileTagId(profileId: ProfileId, jurisdiction: string): string {
+  return `PROFILE_${profileId.toUpperCase().replace(/-/g, '_')}_${jurisdiction.toUpperCase()}`;
+}
+
+function isDeadline(timeline: Timeline): boolean {
+  return timeline.kind === 'DEADLINE' || Boolean(timeline.anchor || timeline.day_of_month);
+}
+
+/**
+ * Tax years from a little before `from` up to `to`, so that deadlines falling in
+ * the following year(s) are included
+ */
+function taxYearsCovering(from: Date, to: Date, jurisdiction: string): TaxYearPeriod[] {
+  const years: TaxYearPeriod[] = [];
+  const first = new Date(Date.UTC(from.getUTCFullYear() - DEADLINE_LOOKBACK_YEARS, from.getUTCMonth(), from.getUTCDate()));
+
+  let period = getTaxYear(first, jurisdiction);
+  while (period.start <= to) {
+    years.push(period);
+    period = getTaxYear(new Date(period.end.getTime() + DAY_MS), jurisdiction);
+  }
+
+  return years;
+}
+
+function describeForm(form: Form): string {
+  const number = form.form_number ? ` (${form.form_number})` : '';
+  const url = form.source_url ? ` - ${form.source_url}` : '';
+  return `Form: ${form.label}${number}, ${form.issuing_body}${url}`;
+}
+
+/**
+ * Dated events for one annual obligation across the tax years in range
+ */
+function obligationEvents(
+  obligation: Obligation,
+  deadlines: Timeline[],
+  form: Form | null,
+  jurisdiction: string,
+  from: Date,
+  to: Date
+): ComplianceCalendarEvent[] {
+  const events: ComplianceCalendarEvent[] = [];
+  const kind = obligation.category === 'PAYMENT' ? 'PAYMENT' : 'FILING';
+
+  for (const deadline of deadlines) {
+    for (const taxYear of taxYearsCovering(from, to, jurisdiction)) {
+      // Tax-year anchored deadlines resolve from any date in the tax year;
+      // others run from the end of the period, assumed to match the tax year
+      const anchored = deadline.anchor === 'TAX_YEAR_START' || deadline.anchor === 'TAX_YEAR_END';
+      const trigger = anchored ? taxYear.start : taxYear.end;
+      const result = computeDeadline(trigger, deadline, jurisdiction);
+      if (result.due < from || result.due > to) {
+        continue;
+      }
+
+      const date = formatDate(result.due);
+      const sourceNodeIds = [obligation.id, deadline.id, ...(form ? [form.id] : [])];
+      const description = [
+        obligation.description ?? obligation.label,
+        result.description,
+        ...(anchored ? [] : [`Assumes the accounting period ends with tax year ${taxYear.label}.`]),
+        ...(form ? [describeForm(form)] : []),
+        ...(obligation.penalty_applies ? ['Penalties apply for late filing or payment.'] : []),
+        `Source nodes: ${sourceNodeIds.join(', ')}`,
+      ].join('\n');
+
+      events.push({
+        uid: `${obligation.id}-${deadline.id}-${date.replace(/-/g, '')}@${UID_DOMAIN}`,
+        date,
+        kind,
+        title: `${obligation.label} (tax year ${taxYear.label})`,
+        description,
+        jurisdiction,
+        sourceNodeIds,
+        rolledForward: result.rolledForward,
+        url: form?.source_url,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Build a compliance calendar for a profile and jurisdiction set.
+ *
+ * Annual obligations are scheduled for every tax year whose deadline falls in
+ * the range; one-off and sub-annual obligations need a trigger date and are
+ * left out. Lock-in expiries are included for the lock-ins the user supplies.
+ */
+export async function buildComplianceCalendar(
+  graphClient: GraphClient,
+  options: ComplianceCalendarOptions
+): Promise<ComplianceCalendar> {
+  const { profileId, jurisdictions, from, to } = options;
+  const events: ComplianceCalendarEvent[] = [];
+
+  if (graphClient.getObligationsForProfile) {
+    for (const jurisdiction of jurisdictions) {
+      const obligations = await graphClient.getObligationsForProfile(toProfileTagId(profileId, jurisdiction), jurisdiction);
+
+      for (const obligation of obligations) {
+        if (obligation.frequency && obligation.frequency !== 'ANNUAL') {
+          continue;
+        }
+
+        const deadlines = (await graphClient.getTimelines(obligation.id)).filter(isDeadline);
+        if (deadlines.length === 0) {
+          continue;
+        }
+
+        const form = graphClient.getFormForObligation
+          ? await graphClient.getFormForObligation(obligation.id)
+          : null;
+        events.push(...obligationEvents(obligation, deadlines, form, jurisdiction, from, to));
+      }
+    }
+  }
+
+  for (const lockIn of options.lockIns ?? []) {
+    const timelines = (await graphClient.getTimelines(lockIn.nodeId)).filter(t => t.kind === 'LOCK_IN');
+
+    for (const timeline of timelines) {
+      const { end, description } = computeLockInEnd(new Date(lockIn.startedOn), timeline);
+      if (end < from || end > to) {
+        continue;
+      }
+
+      const date = formatDate(end);
+      const sourceNodeIds = [lockIn.nodeId, timeline.id];
+      events.push({
+        uid: `${lockIn.nodeId}-${timeline.id}-${date.replace(/-/g, '')}@${UID_DOMAIN}`,
+        date,
+        kind: 'LOCK_IN_EXPIRY',
+        title: `${timeline.label} ends`,
+        description: `${description}\nSource nodes: ${sourceNodeIds.join(', ')}`,
+        jurisdiction: timeline.jurisdictionCode ?? jurisdictions[0],
+        sourceNodeIds,
+      });
+    }
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+
+  return {
+    profileId,
+    jurisdictions,
+    from: formatDate(from),
+    to: formatDate(to),
+    generatedAt: new Date().toISOString(),
+    events,
+  };
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? ICAL_LINE_LIMIT : ICAL_LINE_LIMIT - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function toICalDateTime(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Render a compliance calendar as an iCalendar feed of all-day events
+ */
+export function renderICalendar(calendar: ComplianceCalendar): string {
+  const stamp = toICalDateTime(calendar.generatedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Compliance deadlines (${calendar.jurisdictions.join(', ')})`)}`,
+  ];
+
+  for (const event of calendar.events) {
+    const nextDay = formatDate(new Date(Date.parse(event.date) + DAY_MS));
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toICalDate(nextDay)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `CATEGORIES:${event.kind}`,
+      ...(event.url ? [`URL:${event.url}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CitationStreamValidator,
+  formatCitationMarker,
+  validateCitations,
+} from './citationValidator.js';
+
+const NODES = [
+  { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit' },
+  { id: 'IE_COND_PRSI_104', label: '104 weeks PRSI paid', type: 'Condition' },
+];
+
+describe('validateCitations', () => {
+  it('numbers cited nodes in order of first citation', () => {
+    const result = validateCitations(
+      'You need 104 paid contributions [node:IE_COND_PRSI_104] to qualify for the benefit [node:IE_BENEFIT_JOBSEEKERS]. ' +
+        'The contribution test [node:IE_COND_PRSI_104] looks back two years.',
+      NODES
+    );
+
+    expect(result.citations).toEqual([
+      { id: 'IE_COND_PRSI_104', label: '104 weeks PRSI paid', type: 'Condition', index: 1 },
+      { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit', index: 2 },
+    ]);
+    expect(result.unsupportedIds).toEqual([]);
+  });
+
+  it('strips markers citing nodes outside the context', () => {
+    const result = validateCitations(
+      'Section 472AB grants a credit [node:IE_TCA_S472AB]. The benefit is weekly [node:IE_BENEFIT_JOBSEEKERS].',
+      NODES
+    );
+
+    expect(result.text).toBe('Section 472AB grants a credit. The benefit is weekly [node:IE_BENEFIT_JOBSEEKERS].');
+    expect(result.unsupportedIds).toEqual(['IE_TCA_S472AB']);
+  });
+
+  it('leaves markdown links and other brackets alone', () => {
+    const text = 'See [Revenue guidance](https://www.revenue.ie) and [note 1].';
+
+    expect(validateCitations(text, NODES)).toEqual({ text, citations: [], unsupportedIds: [] });
+  });
+});
+
+describe('CitationStreamValidator', () => {
+  it('holds back only text that could still become a marker', () => {
+    const validator = new CitationStreamValidator(NODES);
+
+    expect(validator.push('Weekly payment [')).toBe('Weekly payment');
+    expect(validator.push('node:IE_BENEFIT')).toBe('');
+    expect(validator.push('_JOBSEEKERS] is [means')).toBe(` ${formatCitationMarker('IE_BENEFIT_JOBSEEKERS')} is [means`);
+    expect(validator.push(' tested].')).toBe(' tested].');
+    expect(validator.citations.map(citation => citation.id)).toEqual(['IE_BENEFIT_JOBSEEKERS']);
+  });
+
+  it('flushes an unterminated marker as plain text', () => {
+    const validator = new CitationStreamValidator(NODES);
+
+    expect(validator.push('Truncated [node:IE_')).toBe('Truncated');
+    expect(validator.flush()).toBe(' [node:IE_');
+    expect(validator.citations).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Citation validation for compliance answers
+ *
+ * Answers cite graph nodes inline with `[node:NODE_ID]` markers. Each cited ID
+ * is checked against the nodes the answer was grounded in; markers citing any
+ * other ID are stripped so the UI never links a claim to a node the LLM made
+ * up. Streaming answers are validated chunk by chunk, holding back only the
+ * text that could still be the start of a marker.
+ */
+
+import type { Citation } from '../types.js';
+
+const MARKER_PREFIX = '[node:';
+const MARKER_PATTERN = / ?\[node:([A-Za-z0-9_-]+)\]/g;
+const PARTIAL_MARKER_PATTERN = /^\[node:[A-Za-z0-9_-]*$/;
+/** Node IDs are capped at 255 characters by the graph API */
+const MAX_MARKER_LENGTH = MARKER_PREFIX.length + 256;
+
+/**
+ * A node that may be cited
+ */
+export interface CitableNode {
+  id: string;
+  label: string;
+  type: string;
+}
+
+/**
+ * Result of validating a complete answer
+ */
+export interface CitationValidationResult {
+  /** Answer text with unsupported markers removed */
+  text: string;
+  citations: Citation[];
+  /** Cited IDs that were not in the grounding context */
+  unsupportedIds: string[];
+}
+
+/**
+ * Build the inline marker for a node
+ */
+export function formatCitationMarker(nodeId: string): string {
+  return `${MARKER_PREFIX}${nodeId}]`;
+}
+
+/**
+ * Warning shown when unsupported citations were removed from an answer
+ */
+export function formatUnsupportedCitationWarning(unsupportedIds: string[]): string {
+  return `Removed ${unsupportedIds.length} citation(s) to graph nodes that were not in the retrieved context (${unsupportedIds.join(', ')}). Treat the claims they were attached to with extra caution.`;
+}
+
+/**
+ * Incrementally validates citation markers in streamed answer text
+ */
+export class CitationStreamValidator {
+  private nodes: Map<string, CitableNode>;
+  private buffer = '';
+  private cited = new Map<string, Citation>();
+  private unsupported = new Set<string>();
+
+  constructor(nodes: Iterable<CitableNode>) {
+    this.nodes = new Map(Array.from(nodes, node => [node.id, node]));
+  }
+
+  /**
+   * Add a text delta; returns the text that is safe to emit now
+   */
+  push(delta: string): string {
+    this.buffer += delta;
+
+    const openIndex = this.buffer.lastIndexOf('[');
+    const pending = openIndex === -1 ? '' : this.buffer.slice(openIndex);
+    const holdBack =
+      pending.length > 0 &&
+      pending.length <= MAX_MARKER_LENGTH &&
+      (MARKER_PREFIX.startsWith(pending) || PARTIAL_MARKER_PATTERN.test(pending));
+
+    if (!holdBack) {
+      const ready = this.buffer;
+      this.buffer = '';
+      return this.rewrite(ready);
+    }
+
+    // Keep the space before a pending marker so it can be stripped along with it
+    const cut = this.buffer[openIndex - 1] === ' ' ? openIndex - 1 : openIndex;
+    const ready = this.buffer.slice(0, cut);
+    this.buffer = this.buffer.slice(cut);
+    return this.rewrite(ready);
+  }
+
+  /**
+   * Emit any held-back text once the stream has ended
+   */
+  flush(): string {
+    const remaining = this.buffer;
+    this.buffer = '';
+    return this.rewrite(remaining);
+  }
+
+  get citations(): Citation[] {
+    return Array.from(this.cited.values());
+  }
+
+  get unsupportedIds(): string[] {
+    return Array.from(this.unsupported);
+  }
+
+  private rewrite(text: string): string {
+    return text.replace(MARKER_PATTERN, (marker, nodeId: string) => {
+      const node = this.nodes.get(nodeId);
+      if (!node) {
+        this.unsupported.add(nodeId);
+        return '';
+      }
+      if (!this.cited.has(nodeId)) {
+        this.cited.set(nodeId, { id: node.id, label: node.label, type: node.type, index: this.cited.size + 1 });
+      }
+      return marker;
+    });
+  }
+}
+
+/**
+ * Validate the citation markers in a complete answer
+ */
+export function validateCitations(text: string, nodes: Iterable<CitableNode>): CitationValidationResult {
+  const validator = new CitationStreamValidator(nodes);
+  const validated = validator.push(text) + validator.flush();
+  return {
+    text: validated,
+    citations: validator.citations,
+    unsupportedIds: validator.unsupportedIds,
+  };
+}
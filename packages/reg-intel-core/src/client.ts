@@ -19,6 +19,7 @@ export {
   UNCERTAINTY_DESCRIPTIONS,
   DEFAULT_JURISDICTION,
   SUPPORTED_JURISDICTIONS,
+  MAX_SCENARIOS,
 } from './constants.js';
 
 export { DEFAULT_PROFILE_ID, normalizeProfileType } from './profiles.js';
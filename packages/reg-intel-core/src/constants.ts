@@ -60,3 +60,8 @@ export const DEFAULT_JURISDICTION = 'IE';
  * Supported jurisdictions
  */
 export const SUPPORTED_JURISDICTIONS = ['IE', 'MT', 'IM', 'EU'] as const;
+
+/**
+ * Most scenarios compared at once, so the comparison table stays readable
+ */
+export const MAX_SCENARIOS = 5;
@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EligibilityFacts, EligibilityRuleSet, GraphClient } from '../types.js';
+import {
+  evaluateBenefitEligibility,
+  evaluateEligibility,
+  formatEligibilityForPrompt,
+} from './eligibilityEvaluator.js';
+
+const now = new Date('2025-03-01T00:00:00Z');
+
+const lookback12m = { id: 'IE_PRSI_12_MONTH_LOOKBACK', label: '12-month PRSI contribution lookback', window_months: 12 };
+
+const jobseekersRules: EligibilityRuleSet = {
+  benefit: {
+    id: 'IE_BENEFIT_JOBSEEKERS_SE',
+    label: "Jobseeker's Benefit (Self-Employed)",
+    type: 'Benefit',
+    properties: {},
+  },
+  conditions: [
+    {
+      condition: {
+        id: 'IE_COND_PRSI_104_PAID',
+        label: 'Minimum 104 paid PRSI contributions',
+        fact: 'contributionsPaid',
+        operator: '>=',
+        value: 104,
+      },
+      thresholds: [],
+      lookbacks: [],
+    },
+    {
+      condition: { id: 'IE_COND_PRSI_39_RECENT', label: '39 contributions in the relevant period', fact: 'contributions' },
+      thresholds: [
+        { id: 'IE_THRESHOLD_PRSI_39_WEEKS', label: '39 weeks of contributions', value: 39, unit: 'WEEKS', direction: 'ABOVE' },
+      ],
+      lookbacks: [],
+    },
+    {
+      condition: { id: 'IE_COND_PRSI_CLASS_S', label: 'PRSI Class S contributor', fact: 'prsiClass', operator: 'IN', value: ['S'] },
+      thresholds: [],
+      lookbacks: [],
+    },
+  ],
+  thresholds: [],
+  lookbacks: [lookback12m],
+  meansTest: null,
+  exclusions: [{ id: 'IE_BENEFIT_ILLNESS', label: 'Illness Benefit', type: 'Benefit', properties: {} }],
+};
+
+const eligibleFacts: EligibilityFacts = {
+  prsiClass: 'S',
+  contributionsPaid: 260,
+  contributions: [
+    { date: '2024-06-30', weeks: 26 },
+    { date: '2024-12-31', weeks: 26 },
+    { date: '2022-12-31', weeks: 52 },
+  ],
+  currentClaims: [],
+};
+
+describe('evaluateEligibility', () => {
+  it('passes when every condition, threshold and exclusion is satisfied', () => {
+    const evaluation = evaluateEligibility(jobseekersRules, eligibleFacts, now);
+
+    expect(evaluation.status).toBe('pass');
+    expect(evaluation.unmet).toEqual([]);
+    expect(evaluation.missingFacts).toEqual([]);
+    expect(evaluation.evaluatedAt).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('counts contributions inside the inherited lookback window only', () => {
+    const evaluation = evaluateEligibility(
+      jobseekersRules,
+      { ...eligibleFacts, contributions: [{ date: '2024-06-30', weeks: 20 }, { date: '2023-06-30', weeks: 52 }] },
+      now
+    );
+
+    const recent = evaluation.tree.children.find(c => c.nodeId === 'IE_COND_PRSI_39_RECENT')!;
+    expect(recent.status).toBe('fail');
+    expect(recent.actual).toBe(20);
+    expect(recent.children[0]).toMatchObject({
+      kind: 'LOOKBACK',
+      nodeId: 'IE_PRSI_12_MONTH_LOOKBACK',
+      reason: 'Counted 20 contribution weeks between 2024-03-01 and 2025-03-01',
+    });
+    expect(evaluation.status).toBe('fail');
+    expect(evaluation.unmet.map(c => c.nodeId)).toEqual(['IE_THRESHOLD_PRSI_39_WEEKS']);
+  });
+
+  it('names the unmet conditions and the exclusion that blocks the claim', () => {
+    const evaluation = evaluateEligibility(
+      jobseekersRules,
+      { ...eligibleFacts, prsiClass: 'A', contributionsPaid: 90, currentClaims: ['IE_BENEFIT_ILLNESS'] },
+      now
+    );
+
+    expect(evaluation.status).toBe('fail');
+    expect(evaluation.unmet.map(c => c.nodeId)).toEqual([
+      'IE_COND_PRSI_104_PAID',
+      'IE_COND_PRSI_CLASS_S',
+      'IE_BENEFIT_ILLNESS',
+    ]);
+    expect(evaluation.unmet[0].reason).toBe('contributionsPaid is 90; required >= 104');
+    expect(evaluation.unmet[2].reason).toContain('Currently claiming Illness Benefit');
+  });
+
+  it('reports unknown with the missing facts when facts are not supplied', () => {
+    const evaluation = evaluateEligibility(jobseekersRules, { prsiClass: 'S' }, now);
+
+    expect(evaluation.status).toBe('unknown');
+    expect(evaluation.missingFacts).toEqual(['contributionsPaid', 'contributions', 'currentClaims']);
+  });
+
+  it('evaluates benefit thresholds, means tests and named dates in lookback windows', () => {
+    const rules: EligibilityRuleSet = {
+      benefit: { id: 'UK_BENEFIT_UNIVERSAL_CREDIT', label: 'Universal Credit', type: 'Benefit', properties: {} },
+      conditions: [
+        {
+          condition: { id: 'COND_RECENT_WORK', label: 'Worked in the last 6 months', fact: 'lastEmployment' },
+          thresholds: [],
+          lookbacks: [{ id: 'LOOKBACK_6M', label: '6-month lookback', window_months: 6 }],
+        },
+      ],
+      thresholds: [{ id: 'INCOME_LIMIT', label: 'Income limit', value: 30000, unit: 'GBP', direction: 'BELOW' }],
+      lookbacks: [],
+      meansTest: { id: 'UK_MEANS_TEST_UNIVERSAL_CREDIT', label: 'Universal Credit Means Test', capital_threshold: 16000 },
+      exclusions: [],
+    };
+
+    const evaluation = evaluateEligibility(
+      rules,
+      { annualIncome: 25000, capital: 20000, dates: { lastEmployment: '2024-06-01' } },
+      now
+    );
+
+    expect(evaluation.tree.children.map(c => [c.nodeId, c.status])).toEqual([
+      ['COND_RECENT_WORK', 'fail'],
+      ['INCOME_LIMIT', 'pass'],
+      ['UK_MEANS_TEST_UNIVERSAL_CREDIT', 'fail'],
+    ]);
+    expect(evaluation.unmet.map(c => c.nodeId)).toEqual(['LOOKBACK_6M', 'UK_MEANS_TEST_UNIVERSAL_CREDIT']);
+  });
+
+  it('counts paid contributions for benefit thresholds inside the benefit lookback window', () => {
+    const rules: EligibilityRuleSet = {
+      ...jobseekersRules,
+      conditions: [],
+      thresholds: [{ id: 'WEEKS_13', label: '13 paid weeks', value: 13, unit: 'WEEKS', direction: 'ABOVE' }],
+      exclusions: [],
+    };
+
+    const evaluation = evaluateEligibility(
+      rules,
+      {
+        contributionsPaid: 260,
+        contributions: [
+          { date: '2024-06-30', weeks: 8 },
+          { date: '2024-09-30', weeks: 10, credited: true },
+          { date: '2022-12-31', weeks: 52 },
+        ],
+      },
+      now
+    );
+
+    const threshold = evaluation.tree.children[0];
+    expect(threshold).toMatchObject({ nodeId: 'WEEKS_13', status: 'fail', actual: 8 });
+    expect(threshold.children[0]).toMatchObject({
+      kind: 'LOOKBACK',
+      nodeId: 'IE_PRSI_12_MONTH_LOOKBACK',
+      reason: 'Counted 8 contribution weeks between 2024-03-01 and 2025-03-01',
+    });
+    expect(evaluation.unmet.map(c => c.nodeId)).toEqual(['WEEKS_13']);
+  });
+
+  it('asks for dated contributions when a windowed threshold only has a lifetime total', () => {
+    const rules: EligibilityRuleSet = {
+      ...jobseekersRules,
+      conditions: [],
+      thresholds: [{ id: 'WEEKS_13', label: '13 paid weeks', value: 13, unit: 'WEEKS', direction: 'ABOVE' }],
+      exclusions: [],
+    };
+
+    const evaluation = evaluateEligibility(rules, { contributionsPaid: 260 }, now);
+
+    expect(evaluation.status).toBe('unknown');
+    expect(evaluation.missingFacts).toContain('contributions');
+  });
+
+  it('treats conditions without a fact as unknown rather than guessing', () => {
+    const evaluation = evaluateEligibility(
+      {
+        ...jobseekersRules,
+        conditions: [{ condition: { id: 'IE_REASONABLE_EXCUSE', label: 'Reasonable excuse', description: 'Shown to Revenue' }, thresholds: [], lookbacks: [] }],
+        exclusions: [],
+      },
+      eligibleFacts,
+      now
+    );
+
+    expect(evaluation.status).toBe('unknown');
+    expect(evaluation.tree.children[0].reason).toBe('Not machine-evaluable: Shown to Revenue');
+  });
+});
+
+describe('evaluateBenefitEligibility', () => {
+  it('loads rules from the graph client', async () => {
+    const getEligibilityRules = vi.fn().mockResolvedValue(jobseekersRules);
+    const graphClient = { getEligibilityRules } as unknown as GraphClient;
+
+    const evaluation = await evaluateBenefitEligibility(graphClient, 'IE_BENEFIT_JOBSEEKERS_SE', eligibleFacts, now);
+
+    expect(getEligibilityRules).toHaveBeenCalledWith('IE_BENEFIT_JOBSEEKERS_SE', now);
+    expect(evaluation?.status).toBe('pass');
+  });
+
+  it('returns null when the graph client cannot provide eligibility rules', async () => {
+    expect(await evaluateBenefitEligibility({} as GraphClient, 'IE_BENEFIT_JOBSEEKERS_SE', eligibleFacts, now)).toBeNull();
+  });
+});
+
+describe('formatEligibilityForPrompt', () => {
+  it('renders the evaluation tree for the agent prompt', () => {
+    const evaluation = evaluateEligibility(jobseekersRules, { ...eligibleFacts, contributionsPaid: 90 }, now);
+
+    const text = formatEligibilityForPrompt([evaluation]);
+
+    expect(text).toContain("Eligibility Evaluation (deterministic, from the user's facts as of 2025-03-01):");
+    expect(text).toContain("Jobseeker's Benefit (Self-Employed) (IE_BENEFIT_JOBSEEKERS_SE): FAIL");
+    expect(text).toContain(
+      '  - [fail] Minimum 104 paid PRSI contributions (IE_COND_PRSI_104_PAID): contributionsPaid is 90; required >= 104'
+    );
+    expect(text).toContain('    - [pass] 39 weeks of contributions (IE_THRESHOLD_PRSI_39_WEEKS): contributions is 52 WEEKS; required >= 39');
+    expect(formatEligibilityForPrompt([])).toBe('');
+  });
+});
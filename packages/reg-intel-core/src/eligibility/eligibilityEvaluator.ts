@@ -0,0 +1,493 @@
+/**
+ * Eligibility Evaluator for Regulatory Intelligence Copilot
+ *
+ * Evaluates a person's structured facts against the conditions, thresholds,
+ * lookback windows, means tests and exclusions the graph attaches to a benefit
+ * or relief. The result is a pass/fail/unknown tree that names the unmet
+ * conditions, so agents can explain eligibility instead of leaving the
+ * reasoning to the LLM.
+ *
+ * Evaluation is pure; only `evaluateBenefitEligibility` touches the graph.
+ */
+
+import type {
+  Condition,
+  ContributionRecord,
+  EligibilityCheck,
+  EligibilityConditionRule,
+  EligibilityEvaluation,
+  EligibilityFacts,
+  EligibilityRuleSet,
+  EligibilityStatus,
+  GraphClient,
+  MeansTest,
+  Threshold,
+  Timeline,
+} from '../types.js';
+import { computeLookbackRange, isWithinLookback } from '../timeline/timelineEngine.js';
+
+/** Fact counting contribution weeks inside the applicable lookback window */
+const CONTRIBUTIONS_FACT = 'contributions';
+
+/** Facts read directly from EligibilityFacts */
+const SCALAR_FACTS = ['age', 'prsiClass', 'annualIncome', 'weeklyIncome', 'capital', 'contributionsPaid'] as const;
+
+type ScalarFact = (typeof SCALAR_FACTS)[number];
+
+/**
+ * Default fact for thresholds that do not name one, by unit
+ */
+const THRESHOLD_UNIT_FACTS: Partial<Record<Threshold['unit'], string>> = {
+  WEEKS: 'contributionsPaid',
+  COUNT: 'contributionsPaid',
+  EUR: 'annualIncome',
+  GBP: 'annualIncome',
+};
+
+/**
+ * Value of a fact resolved from the supplied facts
+ */
+interface ResolvedFact {
+  value?: number | string;
+  /** Lookback checks produced while resolving the fact */
+  lookbackChecks: EligibilityCheck[];
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function isScalarFact(fact: string): fact is ScalarFact {
+  return (SCALAR_FACTS as readonly string[]).includes(fact);
+}
+
+/**
+ * Combine child statuses: any failure fails, otherwise any unknown is unknown
+ */
+function combineStatuses(statuses: EligibilityStatus[]): EligibilityStatus {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('unknown')) return 'unknown';
+  return 'pass';
+}
+
+function sumWeeks(records: ContributionRecord[]): number {
+  return records.reduce((total, record) => total + record.weeks, 0);
+}
+
+/**
+ * Sum contribution weeks inside the narrowest lookback window, with a check
+ * describing each window
+ */
+function countContributionsInLookbacks(
+  records: ContributionRecord[],
+  lookbacks: Timeline[],
+  now: Date
+): ResolvedFact {
+  const windows = lookbacks.map(timeline => ({ timeline, ...computeLookbackRange(timeline, now) }));
+  const narrowest = windows.reduce((a, b) => (b.range.start > a.range.start ? b : a));
+  const counted = records.filter(record => {
+    const date = new Date(record.date);
+    return date >= narrowest.range.start && date <= narrowest.range.end;
+  });
+  const weeks = sumWeeks(counted);
+
+  return {
+    value: weeks,
+    lookbackChecks: windows.map(({ timeline, range }) => ({
+      nodeId: timeline.id,
+      label: timeline.label,
+      kind: 'LOOKBACK' as const,
+      status: 'pass' as const,
+      reason: timeline === narrowest.timeline
+        ? `Counted ${weeks} contribution weeks between ${formatDate(range.start)} and ${formatDate(range.end)}`
+        : `Window ${formatDate(range.start)} to ${formatDate(range.end)} is wider than ${narrowest.timeline.id}`,
+      children: [],
+    })),
+  };
+}
+
+/**
+ * Resolve a fact, applying lookback windows to contribution counts and named dates
+ */
+function resolveFact(
+  fact: string,
+  facts: EligibilityFacts,
+  lookbacks: Timeline[],
+  now: Date
+): ResolvedFact {
+  if (fact === CONTRIBUTIONS_FACT) {
+    if (!facts.contributions) {
+      return { lookbackChecks: [] };
+    }
+    if (lookbacks.length === 0) {
+      return { value: sumWeeks(facts.contributions), lookbackChecks: [] };
+    }
+    // The narrowest window decides which contributions count
+    return countContributionsInLookbacks(facts.contributions, lookbacks, now);
+  }
+
+  if (fact === 'contributionsPaid' && lookbacks.length > 0) {
+    // A lifetime total cannot be windowed; only dated paid contributions count
+    if (!facts.contributions) {
+      return {
+        lookbackChecks: lookbacks.map(timeline => ({
+          nodeId: timeline.id,
+          label: timeline.label,
+          kind: 'LOOKBACK' as const,
+          status: 'unknown' as const,
+          reason: 'Dated contribution records are needed to count paid contributions in this window',
+          fact: CONTRIBUTIONS_FACT,
+          children: [],
+        })),
+      };
+    }
+    return countContributionsInLookbacks(facts.contributions.filter(r => !r.credited), lookbacks, now);
+  }
+
+  if (isScalarFact(fact)) {
+    const value = facts[fact];
+    if (value === undefined && fact === 'contributionsPaid' && facts.contributions) {
+      return { value: sumWeeks(facts.contributions.filter(r => !r.credited)), lookbackChecks: [] };
+    }
+    return { value, lookbackChecks: [] };
+  }
+
+  // Anything else is a named date, which must fall inside each lookback window
+  const date = facts.dates?.[fact];
+  return {
+    value: date,
+    lookbackChecks: lookbacks.map(timeline => {
+      if (!date) {
+        return {
+          nodeId: timeline.id,
+          label: timeline.label,
+          kind: 'LOOKBACK' as const,
+          status: 'unknown' as const,
+          reason: `No ${fact} date supplied to check against this window`,
+          fact,
+          children: [],
+        };
+      }
+      const { within, range } = isWithinLookback(new Date(date), timeline, now);
+      return {
+        nodeId: timeline.id,
+        label: timeline.label,
+        kind: 'LOOKBACK' as const,
+        status: within ? 'pass' as const : 'fail' as const,
+        reason: `${fact} (${date}) is ${within ? 'within' : 'outside'} the window ${formatDate(range.start)} to ${formatDate(range.end)}`,
+        fact,
+        actual: date,
+        expected: `${formatDate(range.start)}..${formatDate(range.end)}`,
+        children: [],
+      };
+    }),
+  };
+}
+
+/**
+ * Compare a fact value with a condition operator
+ */
+function compare(
+  actual: number | string,
+  operator: NonNullable<Condition['operator']>,
+  expected: NonNullable<Condition['value']>
+): boolean | undefined {
+  if (operator === 'IN' || operator === 'NOT_IN') {
+    const allowed = (Array.isArray(expected) ? expected : [expected]).map(String);
+    const included = allowed.includes(String(actual));
+    return operator === 'IN' ? included : !included;
+  }
+  if (operator === '=') {
+    return String(actual) === String(expected);
+  }
+  if (typeof actual !== 'number' || typeof expected !== 'number') {
+    return undefined;
+  }
+  switch (operator) {
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+  }
+}
+
+function describeExpectation(operator: NonNullable<Condition['operator']>, value: NonNullable<Condition['value']>): string {
+  const rendered = Array.isArray(value) ? value.join(', ') : String(value);
+  if (operator === 'IN') return `one of ${rendered}`;
+  if (operator === 'NOT_IN') return `none of ${rendered}`;
+  return `${operator} ${rendered}`;
+}
+
+/**
+ * Check a fact value against a threshold. ABOVE thresholds are minimums,
+ * BELOW thresholds are maximums.
+ */
+function evaluateThreshold(threshold: Threshold, fact: string | undefined, value: number | string | undefined): EligibilityCheck {
+  const expected = threshold.direction === 'ABOVE'
+    ? `>= ${threshold.value}`
+    : threshold.direction === 'BELOW'
+      ? `<= ${threshold.value}`
+      : `${threshold.value}..${threshold.upper_bound ?? ''}`;
+  const base = {
+    nodeId: threshold.id,
+    label: threshold.label,
+    kind: 'THRESHOLD' as const,
+    fact,
+    expected,
+    children: [],
+  };
+
+  if (!fact) {
+    return { ...base, status: 'unknown', reason: `Threshold (${threshold.unit}) does not say which fact it limits` };
+  }
+  if (typeof value !== 'number') {
+    return { ...base, status: 'unknown', reason: `No ${fact} supplied; required ${expected} ${threshold.unit}` };
+  }
+
+  const passed = threshold.direction === 'ABOVE'
+    ? value >= threshold.value
+    : threshold.direction === 'BELOW'
+      ? value <= threshold.value
+      : value >= threshold.value && (threshold.upper_bound === undefined || value <= threshold.upper_bound);
+
+  return {
+    ...base,
+    status: passed ? 'pass' : 'fail',
+    actual: value,
+    reason: `${fact} is ${value} ${threshold.unit}; required ${expected}`,
+  };
+}
+
+/**
+ * Evaluate one REQUIRES condition with its thresholds and lookback windows
+ */
+function evaluateCondition(
+  rule: EligibilityConditionRule,
+  inheritedLookbacks: Timeline[],
+  facts: EligibilityFacts,
+  now: Date
+): EligibilityCheck {
+  const { condition, thresholds } = rule;
+  const base = {
+    nodeId: condition.id,
+    label: condition.label,
+    kind: 'CONDITION' as const,
+    fact: condition.fact,
+  };
+
+  if (!condition.fact) {
+    return {
+      ...base,
+      status: 'unknown',
+      reason: `Not machine-evaluable: ${condition.description || condition.label}`,
+      children: [],
+    };
+  }
+
+  const lookbacks = rule.lookbacks.length > 0 || condition.fact !== CONTRIBUTIONS_FACT
+    ? rule.lookbacks
+    : inheritedLookbacks;
+  const resolved = resolveFact(condition.fact, facts, lookbacks, now);
+  const children = [
+    ...resolved.lookbackChecks,
+    ...thresholds.map(threshold => evaluateThreshold(threshold, condition.fact, resolved.value)),
+  ];
+
+  if (!condition.operator || condition.value === undefined) {
+    if (children.length === 0) {
+      return { ...base, status: 'unknown', reason: `No operator or threshold defined for ${condition.fact}`, children };
+    }
+    const status = combineStatuses(children.map(c => c.status));
+    return {
+      ...base,
+      status,
+      actual: resolved.value,
+      reason: status === 'pass' ? `${condition.label} is met` : `${condition.label} is ${status === 'fail' ? 'not met' : 'undetermined'}`,
+      children,
+    };
+  }
+
+  const expected = describeExpectation(condition.operator, condition.value);
+  if (resolved.value === undefined) {
+    return {
+      ...base,
+      status: combineStatuses(['unknown', ...children.map(c => c.status)]),
+      expected,
+      reason: `No ${condition.fact} supplied; required ${expected}`,
+      children,
+    };
+  }
+
+  const outcome = compare(resolved.value, condition.operator, condition.value);
+  const ownStatus: EligibilityStatus = outcome === undefined ? 'unknown' : outcome ? 'pass' : 'fail';
+  return {
+    ...base,
+    status: combineStatuses([ownStatus, ...children.map(c => c.status)]),
+    actual: resolved.value,
+    expected,
+    reason: outcome === undefined
+      ? `Cannot compare ${condition.fact} (${resolved.value}) with ${expected}`
+      : `${condition.fact} is ${resolved.value}; required ${expected}`,
+    children,
+  };
+}
+
+/**
+ * Check capital against a means test's capital limit. Income assessment
+ * (disregards, tapers) is left to the explanation.
+ */
+function evaluateMeansTest(meansTest: MeansTest, facts: EligibilityFacts): EligibilityCheck {
+  const base = {
+    nodeId: meansTest.id,
+    label: meansTest.label,
+    kind: 'MEANS_TEST' as const,
+    fact: 'capital',
+    children: [],
+  };
+
+  if (meansTest.capital_threshold === undefined) {
+    return { ...base, status: 'unknown', reason: 'Means test has no capital limit in the graph; income must be assessed manually' };
+  }
+  const expected = `<= ${meansTest.capital_threshold}`;
+  if (facts.capital === undefined) {
+    return { ...base, status: 'unknown', expected, reason: `No capital supplied; capital above ${meansTest.capital_threshold} disqualifies` };
+  }
+
+  const passed = facts.capital <= meansTest.capital_threshold;
+  return {
+    ...base,
+    status: passed ? 'pass' : 'fail',
+    actual: facts.capital,
+    expected,
+    reason: `Capital is ${facts.capital}; capital above ${meansTest.capital_threshold} disqualifies`,
+  };
+}
+
+/**
+ * Evaluate facts against a benefit's eligibility rules
+ */
+export function evaluateEligibility(
+  ruleSet: EligibilityRuleSet,
+  facts: EligibilityFacts,
+  now: Date = new Date()
+): EligibilityEvaluation {
+  const { benefit } = ruleSet;
+  const children: EligibilityCheck[] = ruleSet.conditions.map(rule =>
+    evaluateCondition(rule, ruleSet.lookbacks, facts, now)
+  );
+
+  // Benefit-level thresholds count contributions inside the benefit's lookback windows
+  for (const threshold of ruleSet.thresholds) {
+    const fact = threshold.fact ?? THRESHOLD_UNIT_FACTS[threshold.unit];
+    const resolved = fact ? resolveFact(fact, facts, ruleSet.lookbacks, now) : { lookbackChecks: [] };
+    const check = evaluateThreshold(threshold, fact, resolved.value);
+    children.push(
+      resolved.lookbackChecks.length > 0
+        ? {
+            ...check,
+            status: combineStatuses([check.status, ...resolved.lookbackChecks.map(c => c.status)]),
+            children: resolved.lookbackChecks,
+          }
+        : check
+    );
+  }
+
+  if (ruleSet.meansTest) {
+    children.push(evaluateMeansTest(ruleSet.meansTest, facts));
+  }
+
+  for (const excluded of ruleSet.exclusions) {
+    const base = { nodeId: excluded.id, label: excluded.label, kind: 'EXCLUSION' as const, fact: 'currentClaims', children: [] };
+    if (!facts.currentClaims) {
+      children.push({ ...base, status: 'unknown', reason: `Cannot be combined with ${excluded.label}; current claims not supplied` });
+    } else if (facts.currentClaims.includes(excluded.id)) {
+      children.push({ ...base, status: 'fail', reason: `Currently claiming ${excluded.label}, which excludes ${benefit.label}` });
+    } else {
+      children.push({ ...base, status: 'pass', reason: `Not claiming ${excluded.label}` });
+    }
+  }
+
+  const status = children.length > 0 ? combineStatuses(children.map(c => c.status)) : 'unknown';
+  const tree: EligibilityCheck = {
+    nodeId: benefit.id,
+    label: benefit.label,
+    kind: 'BENEFIT',
+    status,
+    reason: children.length === 0
+      ? 'The graph defines no conditions for this benefit'
+      : status === 'pass'
+        ? 'All conditions are met'
+        : status === 'fail'
+          ? 'One or more conditions are not met'
+          : 'Some conditions could not be evaluated from the supplied facts',
+    children,
+  };
+
+  const unmet: EligibilityCheck[] = [];
+  const missingFacts = new Set<string>();
+  const visit = (check: EligibilityCheck) => {
+    if (check.status === 'fail' && !check.children.some(c => c.status === 'fail')) {
+      unmet.push(check);
+    }
+    if (check.status === 'unknown' && check.fact && check.actual === undefined) {
+      missingFacts.add(check.fact);
+    }
+    check.children.forEach(visit);
+  };
+  children.forEach(visit);
+
+  return {
+    benefitId: benefit.id,
+    benefitLabel: benefit.label,
+    status,
+    tree,
+    unmet,
+    missingFacts: Array.from(missingFacts),
+    evaluatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Load a benefit's eligibility rules in force on `now` and evaluate facts against them.
+ * Returns null when the graph client cannot provide eligibility rules or the benefit is unknown.
+ */
+export async function evaluateBenefitEligibility(
+  graphClient: GraphClient,
+  benefitId: string,
+  facts: EligibilityFacts,
+  now: Date = new Date()
+): Promise<EligibilityEvaluation | null> {
+  if (!graphClient.getEligibilityRules) {
+    return null;
+  }
+  const ruleSet = await graphClient.getEligibilityRules(benefitId, now);
+  return ruleSet ? evaluateEligibility(ruleSet, facts, now) : null;
+}
+
+function formatCheck(check: EligibilityCheck, depth: number): string[] {
+  const line = `${'  '.repeat(depth)}- [${check.status}] ${check.label} (${check.nodeId}): ${check.reason}`;
+  return [line, ...check.children.flatMap(child => formatCheck(child, depth + 1))];
+}
+
+/**
+ * Format evaluations for inclusion in an agent prompt
+ */
+export function formatEligibilityForPrompt(evaluations: EligibilityEvaluation[]): string {
+  if (evaluations.length === 0) {
+    return '';
+  }
+
+  const blocks = evaluations.map(evaluation => {
+    const lines = [
+      `${evaluation.benefitLabel} (${evaluation.benefitId}): ${evaluation.status.toUpperCase()}`,
+      ...evaluation.tree.children.flatMap(child => formatCheck(child, 1)),
+    ];
+    if (evaluation.missingFacts.length > 0) {
+      lines.push(`  Missing facts: ${evaluation.missingFacts.join(', ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  return `Eligibility Evaluation (deterministic, from the user's facts as of ${evaluations[0].evaluatedAt.split('T')[0]}):\n` +
+    blocks.join('\n');
+}
@@ -37,6 +37,7 @@ vi.mock('../sandboxManager.js', () => ({
 }));
 
 import { requestContext } from '@reg-copilot/reg-intel-observability';
+import { callMemgraphMcp } from '../mcpClient.js';
 import { createGraphClient } from './graphClient.js';
 
 let provider: BasicTracerProvider;
@@ -80,3 +81,25 @@ describe('GraphClient logging', () => {
     expect(logEntry?.conversationId).toBe('conversation-graph');
   });
 });
+
+describe('GraphClient point-in-time queries', () => {
+  it('filters nodes to those in force on the asOf date', async () => {
+    const client = createGraphClient();
+    vi.mocked(callMemgraphMcp).mockClear();
+
+    await client.getTimelines('IE_BENEFIT', new Date('2023-06-30T00:00:00Z'));
+
+    const query = vi.mocked(callMemgraphMcp).mock.calls[0][0];
+    expect(query).toContain("substring(toString(t.effective_from), 0, 10) <= '2023-06-30'");
+    expect(query).toContain("substring(toString(t.effective_to), 0, 10) >= '2023-06-30'");
+  });
+
+  it('leaves the effective window unfiltered without an asOf date', async () => {
+    const client = createGraphClient();
+    vi.mocked(callMemgraphMcp).mockClear();
+
+    await client.getTimelines('IE_BENEFIT');
+
+    expect(vi.mocked(callMemgraphMcp).mock.calls[0][0]).not.toContain('effective_from');
+  });
+});
@@ -14,6 +14,7 @@ import type {
 } from '../types.js';
 import { callMemgraphMcp } from '../mcpClient.js';
 import { ensureMcpGatewayConfigured } from '../sandboxManager.js';
+import { toAsOfParam } from '@reg-copilot/reg-intel-graph';
 import { createLogger, recordGraphQuery } from '@reg-copilot/reg-intel-observability';
 
 const logger = createLogger('GraphClient', { component: 'Graph' });
@@ -39,6 +40,19 @@ function escapeCypher(value: string | undefined | null): string {
   return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
 }
 
+/**
+ * Cypher predicate that keeps `alias` only when it is in force on `asOf`.
+ * Nodes without effective dates always match; no `asOf` matches everything.
+ */
+function inForceAt(alias: string, asOf?: Date): string {
+  if (!asOf) {
+    return 'true';
+  }
+  const day = escapeCypher(toAsOfParam(asOf));
+  return `((${alias}.effective_from IS NULL OR substring(toString(${alias}.effective_from), 0, 10) <= '${day}') AND ` +
+    `(${alias}.effective_to IS NULL OR substring(toString(${alias}.effective_to), 0, 10) >= '${day}'))`;
+}
+
 /**
  * Parse Memgraph query result into GraphContext
  *
@@ -199,7 +213,8 @@ export function createGraphClient(): GraphClient {
     async getRulesForProfileAndJurisdiction(
       profileId: string,
       jurisdictionId: string,
-      keyword?: string
+      keyword?: string,
+      asOf?: Date
     ): Promise<GraphContext> {
       const keywordFilter = keyword
         ? `AND (n.name CONTAINS '${escapeCypher(keyword)}' OR n.title CONTAINS '${escapeCypher(keyword)}')`
@@ -211,8 +226,10 @@ export function createGraphClient(): GraphClient {
         MATCH (n)-[:IN_JURISDICTION]->(j)
         WHERE (n:Benefit OR n:Relief OR n:Section)
         ${keywordFilter}
+        AND ${inForceAt('n', asOf)}
         MATCH (n)-[:APPLIES_TO_PROFILE]->(p)
         OPTIONAL MATCH (n)-[r:CITES|REQUIRES|LIMITED_BY|EXCLUDES|MUTUALLY_EXCLUSIVE_WITH|LOOKBACK_WINDOW|LOCKS_IN_FOR_PERIOD]->(m)
+        WHERE ${inForceAt('m', asOf)}
         WITH n,
              CASE WHEN r IS NOT NULL AND m IS NOT NULL
                   THEN {sourceId: n.id, targetId: m.id, type: type(r), properties: properties(r)}
@@ -228,6 +245,7 @@ export function createGraphClient(): GraphClient {
         profileId,
         jurisdictionId,
         keyword: keyword || undefined,
+        asOf: toAsOfParam(asOf),
       });
       const result = await runMemgraphQuery(query);
       return parseGraphResult(result);
@@ -236,13 +254,18 @@ export function createGraphClient(): GraphClient {
     /**
      * Get neighbourhood of a node (1-2 hops)
      * Uses Option A: Returns enriched relationships with semantic IDs
+     *
+     * The ID of a concept merged into another resolves to the surviving concept.
      */
-    async getNeighbourhood(nodeId: string): Promise<GraphContext> {
+    async getNeighbourhood(nodeId: string, asOf?: Date): Promise<GraphContext> {
       const query = `
-        MATCH (n {id: '${escapeCypher(nodeId)}'})
+        MATCH (start {id: '${escapeCypher(nodeId)}'})
+        OPTIONAL MATCH (start)-[:MERGED_INTO]->(target)
+        WITH coalesce(target, start) AS n
         OPTIONAL MATCH (n)-[r1]-(n1)
+        WHERE ${inForceAt('n1', asOf)}
         OPTIONAL MATCH (n1)-[r2]-(n2)
-        WHERE n2 IS NULL OR n2.id <> '${escapeCypher(nodeId)}'
+        WHERE (n2 IS NULL OR n2 <> n) AND ${inForceAt('n2', asOf)}
         WITH n, n1, n2,
              CASE WHEN r1 IS NOT NULL AND n1 IS NOT NULL
                   THEN {sourceId: CASE WHEN startNode(r1) = n THEN n.id ELSE n1.id END,
@@ -261,7 +284,7 @@ export function createGraphClient(): GraphClient {
         LIMIT 500
       `;
 
-      logger.info({ event: 'graph.query.neighbourhood', nodeId });
+      logger.info({ event: 'graph.query.neighbourhood', nodeId, asOf: toAsOfParam(asOf) });
       const result = await runMemgraphQuery(query);
       return parseGraphResult(result);
     },
@@ -269,14 +292,15 @@ export function createGraphClient(): GraphClient {
     /**
      * Get mutual exclusions for a node
      */
-    async getMutualExclusions(nodeId: string): Promise<GraphNode[]> {
+    async getMutualExclusions(nodeId: string, asOf?: Date): Promise<GraphNode[]> {
       const query = `
         MATCH (n {id: '${escapeCypher(nodeId)}'})
         OPTIONAL MATCH (n)-[r:EXCLUDES|MUTUALLY_EXCLUSIVE_WITH]-(m)
+        WHERE ${inForceAt('m', asOf)}
         RETURN m
       `;
 
-      logger.info({ event: 'graph.query.mutualExclusions', nodeId });
+      logger.info({ event: 'graph.query.mutualExclusions', nodeId, asOf: toAsOfParam(asOf) });
       const result = await runMemgraphQuery(query);
       const context = parseGraphResult(result);
       return context.nodes;
@@ -285,14 +309,15 @@ export function createGraphClient(): GraphClient {
     /**
      * Get timeline constraints for a node
      */
-    async getTimelines(nodeId: string): Promise<Timeline[]> {
+    async getTimelines(nodeId: string, asOf?: Date): Promise<Timeline[]> {
       const query = `
         MATCH (n {id: '${escapeCypher(nodeId)}'})
         OPTIONAL MATCH (n)-[:LOOKBACK_WINDOW|LOCKS_IN_FOR_PERIOD]->(t:Timeline)
+        WHERE ${inForceAt('t', asOf)}
         RETURN t
       `;
 
-      logger.info({ event: 'graph.query.timelines', nodeId });
+      logger.info({ event: 'graph.query.timelines', nodeId, asOf: toAsOfParam(asOf) });
       const result = await runMemgraphQuery(query);
       return parseTimelineResult(result);
     },
@@ -301,15 +326,16 @@ export function createGraphClient(): GraphClient {
      * Get cross-border slice for multiple jurisdictions
      * Uses Option A: Returns enriched relationships with semantic IDs
      */
-    async getCrossBorderSlice(jurisdictionIds: string[]): Promise<GraphContext> {
+    async getCrossBorderSlice(jurisdictionIds: string[], asOf?: Date): Promise<GraphContext> {
       const jurisdictionList = jurisdictionIds.map(j => `'${escapeCypher(j)}'`).join(', ');
 
       const query = `
         MATCH (j:Jurisdiction)
         WHERE j.id IN [${jurisdictionList}]
         MATCH (n)-[:IN_JURISDICTION]->(j)
-        WHERE n:Benefit OR n:Relief OR n:Section
+        WHERE (n:Benefit OR n:Relief OR n:Section) AND ${inForceAt('n', asOf)}
         OPTIONAL MATCH (n)-[r:COORDINATED_WITH|TREATY_LINKED_TO|EXCLUDES|MUTUALLY_EXCLUSIVE_WITH|EQUIVALENT_TO]-(m)
+        WHERE ${inForceAt('m', asOf)}
         OPTIONAL MATCH (m)-[:IN_JURISDICTION]->(j2:Jurisdiction)
         WHERE j2.id IN [${jurisdictionList}]
         WITH n, m,
@@ -323,7 +349,11 @@ export function createGraphClient(): GraphClient {
         LIMIT 1000
       `;
 
-      logger.info({ event: 'graph.query.crossBorderSlice', jurisdictions: jurisdictionIds });
+      logger.info({
+        event: 'graph.query.crossBorderSlice',
+        jurisdictions: jurisdictionIds,
+        asOf: toAsOfParam(asOf),
+      });
       const result = await runMemgraphQuery(query);
       return parseGraphResult(result);
     },
@@ -19,6 +19,7 @@ export {
   UNCERTAINTY_DESCRIPTIONS,
   DEFAULT_JURISDICTION,
   SUPPORTED_JURISDICTIONS,
+  MAX_SCENARIOS,
 } from './constants.js';
 export { DEFAULT_PROFILE_ID, normalizeProfileType } from './profiles.js';
 export { PROFILE_IDS, type ProfileId } from './types.js';
@@ -92,7 +93,72 @@ export {
   isWithinLookback,
   computeLockInEnd,
   isLockInActive,
+  getTaxYear,
+  isBusinessDay,
+  nextBusinessDay,
+  addBusinessDays,
+  computeDeadline,
+  countContributions,
+  buildLifeEventSchedule,
 } from './timeline/timelineEngine.js';
+export { JURISDICTION_CALENDARS, getJurisdictionCalendar } from './timeline/calendars.js';
+export { loadLifeEventSchedule } from './timeline/lifeEventSchedule.js';
+
+// Compliance Calendar
+export {
+  buildComplianceCalendar,
+  renderICalendar,
+  toProfileTagId,
+} from './calendar/complianceCalendar.js';
+
+// Eligibility Evaluator
+export {
+  evaluateEligibility,
+  evaluateBenefitEligibility,
+  formatEligibilityForPrompt,
+} from './eligibility/eligibilityEvaluator.js';
+
+// Scenario Comparison
+export {
+  compareScenarios,
+  formatScenarioComparisonForPrompt,
+} from './scenario/scenarioComparison.js';
+
+// Graph Retrieval (hybrid vector + graph)
+export {
+  HybridGraphRetriever,
+  createHybridGraphRetriever,
+  type HybridGraphRetrieverConfig,
+} from './retrieval/hybridRetriever.js';
+export {
+  GraphEmbeddingIndex,
+  InMemoryVectorStore,
+  createGraphEmbeddingIndex,
+  toEmbeddingText,
+  type GraphEmbeddingDocument,
+  type GraphEmbeddingIndexConfig,
+  type VectorSearchHit,
+} from './retrieval/graphEmbeddingIndex.js';
+export {
+  createHashingEmbeddingProvider,
+  createOpenAiCompatibleEmbeddingProvider,
+  selectEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderSet,
+  type EmbeddingPolicySource,
+  type HashingEmbeddingProviderOptions,
+  type OpenAiCompatibleEmbeddingProviderOptions,
+} from './retrieval/embeddingProviders.js';
+
+// Citations
+export {
+  CitationStreamValidator,
+  validateCitations,
+  formatCitationMarker,
+  formatUnsupportedCitationWarning,
+  type CitableNode,
+  type CitationValidationResult,
+} from './citations/citationValidator.js';
 
 // Graph Client - Re-exported from reg-intel-graph
 export { createGraphClient } from './graph/graphClient.js'; // Legacy MCP-based (still local, depends on MCP)
@@ -115,6 +181,11 @@ export {
   type ChangeCallback,
   type ChangeSubscription,
   type GraphChangeDetectorConfig,
+  InMemoryGraphChangeFeed,
+  RedisGraphChangeFeed,
+  SupabaseGraphChangeFeed,
+  type GraphChangeEvent,
+  type GraphChangeFeed,
 } from '@reg-copilot/reg-intel-graph';
 
 // Graph Ingress Guard & Write Service - Re-exported from reg-intel-graph
@@ -141,6 +212,24 @@ export {
   type UpsertConceptDto,
   type UpsertLabelDto,
   type CreateRelationshipDto,
+  type DeleteRelationshipDto,
+} from '@reg-copilot/reg-intel-graph';
+
+// Graph versioning - Re-exported from reg-intel-graph
+export {
+  InMemoryGraphVersionStore,
+  SupabaseGraphVersionStore,
+  type GraphVersionStore,
+} from '@reg-copilot/reg-intel-graph';
+
+// Graph schema registry - Re-exported from reg-intel-graph
+export {
+  GRAPH_SCHEMA,
+  GraphSchemaRegistry,
+  graphSchemaRegistry,
+  type GraphNodeLabel,
+  type GraphRelationshipType,
+  type GraphNodeProperties,
 } from '@reg-copilot/reg-intel-graph';
 
 export {
@@ -150,6 +239,25 @@ export {
   type CanonicalConceptHandlerConfig,
 } from '@reg-copilot/reg-intel-graph';
 
+// Concept curation - Re-exported from reg-intel-graph
+export {
+  ConceptCurationService,
+  createConceptCurationService,
+  InMemoryConceptProposalStore,
+  SupabaseConceptProposalStore,
+  type ConceptCurationServiceConfig,
+  type ConceptCurationApplyReport,
+  type ConceptProposal,
+  type ConceptProposalStatus,
+  type ConceptProposalStore,
+  type ConceptProvenance,
+  ConceptDeduplicationService,
+  createConceptDeduplicationService,
+  type ConceptDeduplicationServiceConfig,
+  type ConceptDuplicateCandidate,
+  type ConceptMergeReport,
+} from '@reg-copilot/reg-intel-graph';
+
 // Token Counting
 export {
   type TokenCounter,
@@ -212,8 +320,39 @@ export {
 } from './orchestrator/complianceEngine.js';
 
 // Agents
-export { SingleDirector_IE_SocialSafetyNet_Agent } from './agents/SingleDirector_IE_SocialSafetyNet_Agent.js';
+export {
+  SingleDirector_IE_SocialSafetyNet_Agent,
+  SingleDirector_IE_SocialSafetyNet_Registration,
+} from './agents/SingleDirector_IE_SocialSafetyNet_Agent.js';
+export {
+  IE_CGT_Investor_Agent,
+  IE_CGT_Investor_Registration,
+} from './agents/IE_CGT_Investor_Agent.js';
+export {
+  UK_SocialSecurity_NI_Agent,
+  UK_SocialSecurity_NI_Registration,
+} from './agents/UK_SocialSecurity_NI_Agent.js';
 export {
   GlobalRegulatoryComplianceAgent,
+  createGlobalRegulatoryComplianceAgent,
   createComplianceOrchestrator,
+  type GlobalRegulatoryComplianceAgentOptions,
 } from './agents/GlobalRegulatoryComplianceAgent.js';
+export {
+  DomainAgentRegistry,
+  domainAgentRegistry,
+  registerDomainAgent,
+  scoreDomainAgent,
+  routeDomainAgents,
+  mergeAgentResults,
+  type DomainAgentRegistration,
+  type AgentRouteCandidate,
+  type AgentRoutingOptions,
+  type AgentRoutingSignals,
+} from './agents/agentRegistry.js';
+export {
+  detectJurisdictionConflicts,
+  buildSynthesisMessages,
+  formatConflictsSection,
+  type AgentContribution,
+} from './agents/answerSynthesis.js';
@@ -19,7 +19,13 @@ import type {
   CapturedConcept,
 } from './complianceEngine.js';
 import type { GraphWriteService } from '@reg-copilot/reg-intel-graph';
-import type { LlmRouter, LlmStreamChunk } from '@reg-copilot/reg-intel-llm';
+import {
+  EgressClient,
+  LlmResponseCache,
+  LlmRouter,
+  type LlmResponseCacheGraphPatch,
+  type LlmStreamChunk,
+} from '@reg-copilot/reg-intel-llm';
 import type { ChatMessage } from '../types.js';
 import { GlobalRegulatoryComplianceAgent } from '../agents/GlobalRegulatoryComplianceAgent.js';
 
@@ -45,6 +51,12 @@ describe('ComplianceEngine streaming', () => {
     isWithinLookback: vi.fn(),
     computeLockInEnd: vi.fn(),
     isLockInActive: vi.fn(),
+    getTaxYear: vi.fn(),
+    isBusinessDay: vi.fn(),
+    addBusinessDays: vi.fn(),
+    computeDeadline: vi.fn(),
+    countContributions: vi.fn(),
+    buildLifeEventSchedule: vi.fn(),
   };
 
   const egressGuard: EgressGuard = {
@@ -369,7 +381,13 @@ describe('ComplianceEngine streaming', () => {
 
     expect(canonicalConceptHandler.resolveAndUpsert).toHaveBeenCalledWith(
       conceptPayload.concepts,
-      graphWriteService
+      graphWriteService,
+      {
+        tenantId: 'tenant-1',
+        conversationId: 'conversation-1',
+        model: null,
+        traceId: traceContext.traceId,
+      }
     );
 
     const referencedIds = response.referencedNodes.map(n => n.id);
@@ -389,6 +407,263 @@ describe('ComplianceEngine streaming', () => {
     );
   });
 
+  it('records the model that answered after a failover as concept provenance', async () => {
+    const llmRouter = {
+      streamChat: vi.fn(async function* (_messages: ChatMessage[]): AsyncIterable<LlmStreamChunk> {
+        yield {
+          type: 'failover',
+          event: {
+            fromProvider: 'openai',
+            fromModel: 'gpt-4o',
+            toProvider: 'anthropic',
+            toModel: 'claude-3-5-sonnet',
+            reason: 'error',
+            message: 'upstream unavailable',
+            attempts: 1,
+          },
+        };
+        yield { type: 'tool', name: 'capture_concepts', argsJson: conceptPayload };
+        yield { type: 'done' };
+      }),
+    } as unknown as LlmRouter;
+
+    const engine = new ComplianceEngine({
+      llmRouter,
+      graphWriteService,
+      canonicalConceptHandler,
+      conversationContextStore,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    await engine.handleChat({
+      messages: [{ role: 'user', content: 'Tell me about VAT' }],
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+      tenantId: 'tenant-1',
+      conversationId: 'conversation-1',
+      traceContext,
+    });
+
+    expect(canonicalConceptHandler.resolveAndUpsert).toHaveBeenCalledWith(
+      conceptPayload.concepts,
+      graphWriteService,
+      expect.objectContaining({ model: 'claude-3-5-sonnet', conversationId: 'conversation-1' })
+    );
+  });
+
+  it('ranks retrieved graph nodes ahead of agent nodes and passes them to the agent', async () => {
+    const graphRetriever = {
+      retrieve: vi.fn().mockResolvedValue([
+        { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit', score: 0.82, source: 'vector' },
+        { id: 'rule-1', label: 'Rule 1', type: 'Benefit', score: 0.4, source: 'graph' },
+      ]),
+    };
+    const engine = new ComplianceEngine({
+      llmRouter: createRouter(),
+      graphWriteService,
+      canonicalConceptHandler,
+      conversationContextStore,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+      graphRetriever,
+    });
+    const asOf = new Date('2024-06-01');
+
+    const response = await engine.handleChat({
+      messages: [{ role: 'user', content: 'What can I claim if I lose my job?' }],
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+      tenantId: 'tenant-1',
+      asOf,
+    });
+
+    expect(graphRetriever.retrieve).toHaveBeenCalledWith({
+      text: 'What can I claim if I lose my job?',
+      tenantId: 'tenant-1',
+      jurisdictions: ['IE'],
+      profileTagId: 'PROFILE_SELF_EMPLOYED_IE',
+      asOf,
+    });
+    expect(egressGuard.redactText).toHaveBeenCalledWith('What can I claim if I lose my job?');
+    expect(GlobalRegulatoryComplianceAgent.handle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        now: asOf,
+        retrievedNodes: expect.arrayContaining([expect.objectContaining({ id: 'IE_BENEFIT_JOBSEEKERS' })]),
+      }),
+      // Graph queries made through the context use the requested date too
+      expect.objectContaining({ now: asOf })
+    );
+    expect(response.referencedNodes.map(n => n.id)).toEqual([
+      'IE_BENEFIT_JOBSEEKERS',
+      'rule-1',
+      'concept-node-1',
+      'concept-node-2',
+    ]);
+  });
+
+  it('continues without ranked nodes when retrieval fails', async () => {
+    const engine = new ComplianceEngine({
+      llmRouter: createRouter(),
+      graphWriteService,
+      canonicalConceptHandler,
+      conversationContextStore,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+      graphRetriever: { retrieve: vi.fn().mockRejectedValue(new Error('embedding endpoint down')) },
+    });
+
+    const chunks = [] as Array<{ type: string; metadata?: { referencedNodes: Array<{ id: string }> } }>;
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: 'Tell me about VAT' }],
+      tenantId: 'tenant-1',
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].type).toBe('metadata');
+    expect(chunks[0].metadata?.referencedNodes.map(n => n.id)).toContain('rule-1');
+    expect(chunks[chunks.length - 1].type).toBe('done');
+  });
+
+  it('streams a scenario comparison after metadata and gives it to the agent', async () => {
+    const rates = {
+      rates: [
+        { id: 'IE_INCOME_TAX_STANDARD_2024', label: 'Standard Rate', percentage: 20, category: 'INCOME_TAX' },
+        { id: 'IE_USC_BAND_1_2024', label: 'USC Band 1', percentage: 0.5, category: 'USC' },
+        { id: 'IE_PRSI_CLASS_S_2024', label: 'PRSI Class S', percentage: 4, category: 'PRSI', contribution_class: 'S' },
+      ],
+      thresholds: [],
+      credits: [],
+    };
+    const engine = new ComplianceEngine({
+      llmRouter: createRouter(),
+      graphWriteService,
+      canonicalConceptHandler,
+      conversationContextStore,
+      llmClient,
+      graphClient: { ...graphClient, getRatesForTaxYear: vi.fn().mockResolvedValue(rates) },
+      timelineEngine,
+      egressGuard,
+    });
+
+    const chunks = [] as Array<{ type: string; scenarioComparison?: { rows: Array<{ key: string; cells: Array<{ value: unknown }> }> } }>;
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: 'Salary or self-employed?' }],
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+      tenantId: 'tenant-1',
+      asOf: new Date('2024-06-01'),
+      scenarioComparison: {
+        scenarios: [
+          { id: 'a', name: 'Low profits', facts: { income: { selfEmployedProfits: 20000 } } },
+          { id: 'b', name: 'High profits', facts: { income: { selfEmployedProfits: 40000 } } },
+        ],
+        benefitIds: [],
+      },
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(chunk => chunk.type).slice(0, 2)).toEqual(['metadata', 'scenario_comparison']);
+    const takeHome = chunks[1].scenarioComparison?.rows.find(row => row.key === 'take_home');
+    expect(takeHome?.cells.map(cell => cell.value)).toEqual([15100, 30200]);
+    expect(GlobalRegulatoryComplianceAgent.handleStream).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conversationHistory: [
+          expect.objectContaining({ role: 'system', content: expect.stringContaining('| | Low profits | High profits |') }),
+        ],
+      }),
+      expect.objectContaining({ now: new Date('2024-06-01') })
+    );
+  });
+
+  it('answers with a warning when scenarios cannot be compared', async () => {
+    const engine = new ComplianceEngine({
+      llmRouter: createRouter(),
+      graphWriteService,
+      canonicalConceptHandler,
+      conversationContextStore,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    const response = await engine.handleChat({
+      messages: [{ role: 'user', content: 'Salary or dividends?' }],
+      tenantId: 'tenant-1',
+      scenarioComparison: {
+        scenarios: [{ id: 'a', name: 'Salary', facts: { income: { salary: 50000 } } }],
+      },
+    });
+
+    expect(response.scenarioComparison).toBeUndefined();
+    expect(response.warnings).toContain('Scenario comparison unavailable: Graph client cannot load tax year rates');
+  });
+
+  it('keeps supported citations and strips ones to nodes outside the context', async () => {
+    const llmRouter = {
+      streamChat: vi.fn(async function* (): AsyncIterable<LlmStreamChunk> {
+        yield { type: 'text', delta: 'Rule 1 applies [node:rule-1] and section 999 says so [node:IE_TCA_S999].' };
+        yield { type: 'done' };
+      }),
+    } as unknown as LlmRouter;
+    const engine = new ComplianceEngine({
+      llmRouter,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    const response = await engine.handleChat({
+      messages: [{ role: 'user', content: 'Which rules apply?' }],
+    });
+
+    expect(response.answer).toBe('Rule 1 applies [node:rule-1] and section 999 says so.');
+    expect(response.citations).toEqual([{ id: 'rule-1', label: 'Rule 1', type: 'Benefit', index: 1 }]);
+    expect(response.warnings).toEqual([expect.stringContaining('IE_TCA_S999')]);
+  });
+
+  it('validates citation markers split across streamed chunks', async () => {
+    const llmRouter = {
+      streamChat: vi.fn(async function* (): AsyncIterable<LlmStreamChunk> {
+        yield { type: 'text', delta: 'See [no' };
+        yield { type: 'text', delta: 'de:rule-1] and [node:IE_' };
+        yield { type: 'text', delta: 'INVENTED].' };
+        yield { type: 'done' };
+      }),
+    } as unknown as LlmRouter;
+    const engine = new ComplianceEngine({
+      llmRouter,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    const chunks = [] as Array<{ type: string; delta?: string; warnings?: string[]; citations?: unknown[] }>;
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: 'Which rules apply?' }],
+    })) {
+      chunks.push(chunk);
+    }
+
+    const text = chunks.filter(chunk => chunk.type === 'text').map(chunk => chunk.delta).join('');
+    expect(text).toBe('See [node:rule-1] and.');
+    expect(chunks.find(chunk => chunk.type === 'warning')?.warnings).toEqual([
+      expect.stringContaining('IE_INVENTED'),
+    ]);
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      type: 'done',
+      citations: [{ id: 'rule-1', label: 'Rule 1', type: 'Benefit', index: 1 }],
+    });
+  });
+
   it('passes per-call LLM overrides through to the router for chat', async () => {
     const streamChat = vi.fn(async function* (_messages: ChatMessage[], _options) {
       yield { type: 'text', delta: 'Custom response' } satisfies LlmStreamChunk;
@@ -508,6 +783,267 @@ describe('ComplianceEngine streaming', () => {
     });
   });
 
+  it('keys cached answers by the versions of the graph nodes loaded for the turn', async () => {
+    const streamChat = vi.fn(async function* (_messages: ChatMessage[], _options) {
+      yield { type: 'text', delta: 'Streaming content' } satisfies LlmStreamChunk;
+      yield { type: 'done' } satisfies LlmStreamChunk;
+    });
+    const versionedGraphClient: GraphClient = {
+      ...graphClient,
+      getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({
+        nodes: [
+          { id: 'rule-1', label: 'Rule 1', type: 'Benefit', properties: { updated_at: '2024-05-01T00:00:00.000Z' } },
+        ],
+        edges: [],
+      }),
+    };
+
+    (GlobalRegulatoryComplianceAgent.handleStream as any).mockImplementationOnce(
+      async (_input: AgentInput, ctx: AgentContext) => {
+        await ctx.graphClient.getRulesForProfileAndJurisdiction('PROFILE_SELF_EMPLOYED_IE', 'IE');
+        return {
+          agentId: 'versioned-agent',
+          referencedNodes: [{ id: 'rule-1', label: 'Rule 1', type: 'Benefit' }],
+          jurisdictions: ['IE'],
+          uncertaintyLevel: 'medium',
+          followUps: [],
+          stream: ctx.llmClient.streamChat!({ messages: [] })!,
+        };
+      }
+    );
+
+    const engine = new ComplianceEngine({
+      llmRouter: { streamChat } as unknown as LlmRouter,
+      conversationContextStore,
+      llmClient,
+      graphClient: versionedGraphClient,
+      timelineEngine,
+      egressGuard,
+      graphRetriever: {
+        retrieve: vi.fn().mockResolvedValue([
+          { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit', score: 0.8, source: 'vector' },
+        ]),
+      },
+    });
+
+    const chunks = [] as Array<{ type: string }>;
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: "Tell me about Jobseeker's Benefit" }],
+      tenantId: 'tenant-1',
+    })) {
+      chunks.push(chunk as { type: string });
+    }
+
+    expect(chunks[chunks.length - 1].type).toBe('done');
+    const [, options] = streamChat.mock.calls[0];
+    expect(options.responseCache).toEqual({
+      nodeVersions: { IE_BENEFIT_JOBSEEKERS: '', 'rule-1': '2024-05-01T00:00:00.000Z' },
+    });
+  });
+
+  it('answers again after a graph patch evicts a cached answer built from a changed node', async () => {
+    const store = new Map<string, string>();
+    const cache = new LlmResponseCache(
+      {
+        get: async (key: string) => store.get(key) ?? null,
+        set: async (key: string, value: string) => {
+          store.set(key, value);
+        },
+        del: async (key: string) => {
+          store.delete(key);
+        },
+      },
+      'redis'
+    );
+    let publishPatch: ((patch: LlmResponseCacheGraphPatch) => void) | undefined;
+    cache.subscribeToGraphChanges(
+      {
+        subscribe: (_filter: Record<string, never>, callback: (patch: LlmResponseCacheGraphPatch) => void) => {
+          publishPatch = callback;
+          return { unsubscribe: () => {} };
+        },
+      },
+      {}
+    );
+
+    const provider = {
+      chat: vi.fn(async () => 'Class S is charged at 4%.'),
+      streamChat: vi.fn(async function* (): AsyncIterable<LlmStreamChunk> {
+        yield { type: 'text', delta: 'Class S is charged at 4%.' };
+        yield { type: 'done' };
+      }),
+    };
+    const policy = {
+      tenantId: 'tenant-1',
+      defaultProvider: 'openai',
+      defaultModel: 'gpt-4o',
+      allowRemoteEgress: true,
+      egressMode: 'off' as const,
+      allowOffMode: true,
+      tasks: [],
+    };
+    const llmRouter = new LlmRouter(
+      { openai: provider },
+      { getPolicy: async () => policy, setPolicy: async () => {} },
+      'openai',
+      'gpt-4o',
+      new EgressClient({ allowedProviders: ['openai'], mode: 'off' }),
+      undefined,
+      cache
+    );
+
+    vi.mocked(GlobalRegulatoryComplianceAgent.handle).mockImplementation(async (_input, ctx) => {
+      await ctx.graphClient.getRulesForProfileAndJurisdiction('PROFILE_SELF_EMPLOYED_IE', 'IE');
+      const llmResponse = await ctx.llmClient.chat({ messages: [{ role: 'user', content: 'PRSI Class S rate?' }] });
+      return {
+        agentId: 'test-agent',
+        answer: llmResponse.content,
+        referencedNodes: [{ id: 'IE_PRSI_CLASS_S', label: 'PRSI Class S', type: 'Rate' }],
+        jurisdictions: ['IE'],
+        uncertaintyLevel: 'low',
+        followUps: [],
+      };
+    });
+
+    const engine = new ComplianceEngine({
+      llmRouter,
+      llmClient,
+      graphClient: {
+        ...graphClient,
+        getRulesForProfileAndJurisdiction: vi.fn().mockResolvedValue({
+          nodes: [
+            { id: 'IE_PRSI_CLASS_S', label: 'PRSI Class S', type: 'Rate', properties: { updated_at: '2024-01-01' } },
+          ],
+          edges: [],
+        }),
+      },
+      timelineEngine,
+      egressGuard,
+    });
+    const request: ComplianceRequest = {
+      messages: [{ role: 'user', content: 'What is the PRSI rate for Class S?' }],
+      tenantId: 'tenant-1',
+    };
+
+    await engine.handleChat(request);
+    await engine.handleChat(request);
+    expect(provider.streamChat).toHaveBeenCalledTimes(1);
+
+    publishPatch!({
+      nodes: { updated: [{ id: 'IE_PRSI_CLASS_S' }], removed: [] },
+      edges: { added: [], updated: [], removed: [] },
+    });
+    await vi.waitFor(() => expect(store.size).toBe(0));
+
+    const response = await engine.handleChat(request);
+    expect(provider.streamChat).toHaveBeenCalledTimes(2);
+    expect(response.answer).toBe('Class S is charged at 4%.');
+  });
+
+  it('surfaces router failover events as warning chunks', async () => {
+    const llmRouter = {
+      streamChat: vi.fn(async function* (_messages: ChatMessage[]): AsyncIterable<LlmStreamChunk> {
+        yield {
+          type: 'failover',
+          event: {
+            fromProvider: 'openai',
+            fromModel: 'gpt-4o',
+            toProvider: 'anthropic',
+            toModel: 'claude-3-5-sonnet',
+            reason: 'error',
+            message: 'upstream unavailable',
+            statusCode: 503,
+            attempts: 2,
+          },
+        };
+        yield { type: 'text', delta: 'Fallback answer' };
+        yield { type: 'done' };
+      }),
+    } as unknown as LlmRouter;
+
+    const engine = new ComplianceEngine({
+      llmRouter,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    const chunks = [] as any[];
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: 'Tell me about VAT' }],
+      profile: { personaType: 'self-employed', jurisdictions: ['IE'] },
+    })) {
+      chunks.push(chunk);
+    }
+
+    const warningChunk = chunks.find(chunk => chunk.type === 'warning');
+    expect(warningChunk.warnings[0]).toContain('openai model was unavailable');
+    expect(warningChunk.warnings[0]).toContain('anthropic (claude-3-5-sonnet)');
+    expect(chunks.find(chunk => chunk.type === 'text')).toEqual({
+      type: 'text',
+      delta: 'Fallback answer',
+    });
+    expect(chunks[chunks.length - 1].warnings).toEqual(warningChunk.warnings);
+  });
+
+  it('streams per-agent progress before metadata and includes conflicts', async () => {
+    const llmRouter = createRouter();
+    const conflict = {
+      jurisdictions: ['IE', 'UK'],
+      agentIds: ['ie-agent', 'uk-agent'],
+      description: 'IE and UK rules both apply',
+      coordinationRules: [],
+      status: 'unresolved' as const,
+    };
+
+    (GlobalRegulatoryComplianceAgent.handleStream as any).mockImplementationOnce(
+      async (_input: AgentInput, ctx: AgentContext) => {
+        ctx.onAgentProgress?.({ agentId: 'ie-agent', agentName: 'IE Agent', status: 'started' });
+        ctx.onAgentProgress?.({ agentId: 'uk-agent', agentName: 'UK Agent', status: 'started' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        ctx.onAgentProgress?.({ agentId: 'ie-agent', agentName: 'IE Agent', status: 'completed' });
+        ctx.onAgentProgress?.({ agentId: 'uk-agent', agentName: 'UK Agent', status: 'failed', error: 'boom' });
+
+        return {
+          agentId: 'ie-agent+uk-agent',
+          referencedNodes: [],
+          uncertaintyLevel: 'high',
+          conflicts: [conflict],
+          stream: ctx.llmClient.streamChat!({ messages: [] })!,
+        };
+      }
+    );
+
+    const engine = new ComplianceEngine({
+      llmRouter,
+      llmClient,
+      graphClient,
+      timelineEngine,
+      egressGuard,
+    });
+
+    const chunks = [] as any[];
+    for await (const chunk of engine.handleChatStream({
+      messages: [{ role: 'user', content: 'IE director working in the UK' }],
+      profile: { personaType: 'single-director', jurisdictions: ['IE', 'UK'] },
+    })) {
+      chunks.push(chunk);
+    }
+
+    const progress = chunks.filter(chunk => chunk.type === 'agent_progress');
+    expect(progress.map(chunk => `${chunk.agentProgress.agentId}:${chunk.agentProgress.status}`)).toEqual([
+      'ie-agent:started',
+      'uk-agent:started',
+      'ie-agent:completed',
+      'uk-agent:failed',
+    ]);
+
+    const metadataIndex = chunks.findIndex(chunk => chunk.type === 'metadata');
+    expect(metadataIndex).toBe(progress.length);
+    expect(chunks[metadataIndex].metadata.conflicts).toEqual([conflict]);
+  });
+
   it('emits spans and correlated logs for routed chat', async () => {
     const exporter = new InMemorySpanExporter();
     const provider = new BasicTracerProvider();
@@ -14,7 +14,18 @@ import type {
   UserProfile,
   AgentContext,
   AgentInput,
+  AgentProgressEvent,
+  AgentStreamResult,
+  Citation,
   GraphClient,
+  GraphNode,
+  GraphRetriever,
+  RetrievedGraphNode,
+  EligibilityEvaluation,
+  EligibilityFacts,
+  JurisdictionConflict,
+  Scenario,
+  ScenarioComparison,
   TimelineEngine,
   EgressGuard,
   LlmClient,
@@ -22,10 +33,22 @@ import type {
   LlmChatRequest,
 } from '../types.js';
 import { GlobalRegulatoryComplianceAgent } from '../agents/GlobalRegulatoryComplianceAgent.js';
-import { NON_ADVICE_DISCLAIMER } from '../constants.js';
+import { DEFAULT_JURISDICTION, NON_ADVICE_DISCLAIMER } from '../constants.js';
 import { ComplianceError } from '../errors.js';
+import { toProfileTagId } from '../calendar/complianceCalendar.js';
+import { compareScenarios, formatScenarioComparisonForPrompt } from '../scenario/scenarioComparison.js';
+import {
+  CitationStreamValidator,
+  formatUnsupportedCitationWarning,
+  validateCitations,
+} from '../citations/citationValidator.js';
 import type { GraphWriteService } from '@reg-copilot/reg-intel-graph';
-import type { LlmRouter, LlmStreamChunk as RouterStreamChunk, LlmCompletionOptions } from '@reg-copilot/reg-intel-llm';
+import type {
+  LlmRouter,
+  LlmStreamChunk as RouterStreamChunk,
+  LlmCompletionOptions,
+  LlmFailoverEvent,
+} from '@reg-copilot/reg-intel-llm';
 import {
   agentContextAspect,
   createPromptBuilder,
@@ -94,6 +117,16 @@ export interface ComplianceRequest {
     name: string;
     args: Record<string, unknown>;
   };
+  /** Structured facts about the user for deterministic eligibility evaluation */
+  eligibilityFacts?: EligibilityFacts;
+  /** Effective date for graph queries, e.g. a date in an earlier tax year (defaults to now) */
+  asOf?: Date;
+  /** Scenarios to calculate side by side; the table is returned and given to the agent */
+  scenarioComparison?: {
+    scenarios: Scenario[];
+    benefitIds?: string[];
+    taxYear?: number;
+  };
 }
 
 /**
@@ -111,6 +144,14 @@ export interface ComplianceResponse {
   warnings?: string[];
   uncertaintyLevel?: 'low' | 'medium' | 'high';
   followUps?: string[];
+  /** Conflicts between jurisdictions when several domain agents contributed */
+  conflicts?: JurisdictionConflict[];
+  /** Eligibility evaluations explaining which benefit conditions are met */
+  eligibility?: EligibilityEvaluation[];
+  /** Graph nodes cited inline with `[node:NODE_ID]` markers, in order of first citation */
+  citations?: Citation[];
+  /** Side-by-side results for the requested scenarios */
+  scenarioComparison?: ScenarioComparison;
   disclaimer: string;
 }
 
@@ -118,7 +159,16 @@ export interface ComplianceResponse {
  * Streaming chunk from compliance engine
  */
 export interface ComplianceStreamChunk {
-  type: 'metadata' | 'text' | 'done' | 'error' | 'warning' | 'tool_call' | 'tool_result';
+  type:
+    | 'metadata'
+    | 'text'
+    | 'done'
+    | 'error'
+    | 'warning'
+    | 'tool_call'
+    | 'tool_result'
+    | 'agent_progress'
+    | 'scenario_comparison';
   // Metadata (sent first)
   metadata?: {
     agentUsed: string;
@@ -135,7 +185,13 @@ export interface ComplianceStreamChunk {
       label: string;
       type: string;
     }>;
+    conflicts?: JurisdictionConflict[];
+    eligibility?: EligibilityEvaluation[];
   };
+  // Domain agent progress (sent before metadata while agents run)
+  agentProgress?: AgentProgressEvent;
+  // Scenario comparison table (sent after metadata)
+  scenarioComparison?: ScenarioComparison;
   // Text delta (streamed during response)
   delta?: string;
   warnings?: string[];
@@ -147,6 +203,8 @@ export interface ComplianceStreamChunk {
     label: string;
     type: string;
   }>;
+  // Validated inline citations (sent with 'done')
+  citations?: Citation[];
   // Error
   error?: string;
   // Tool call (when LLM invokes a tool)
@@ -171,6 +229,8 @@ export interface ComplianceEngineDeps {
   graphClient: GraphClient;
   timelineEngine: TimelineEngine;
   egressGuard: EgressGuard;
+  /** Ranks graph nodes for each question; when set, referencedNodes lead with its results */
+  graphRetriever?: GraphRetriever;
 }
 
 /**
@@ -179,10 +239,21 @@ export interface ComplianceEngineDeps {
 export interface CanonicalConceptHandler {
   resolveAndUpsert(
     concepts: CapturedConcept[],
-    graphWriteService: GraphWriteService
+    graphWriteService: GraphWriteService,
+    provenance?: CapturedConceptProvenance
   ): Promise<string[]>;
 }
 
+/**
+ * Where captured concepts came from; kept with concept proposals for review
+ */
+export interface CapturedConceptProvenance {
+  tenantId?: string | null;
+  conversationId?: string | null;
+  model?: string | null;
+  traceId?: string | null;
+}
+
 /**
  * Minimal representation of a captured concept
  */
@@ -231,6 +302,11 @@ export interface ConversationContextStore {
     nodeIds: string[],
     options?: { traceId?: string | null; rootSpanName?: string | null; rootSpanId?: string | null }
   ): Promise<void>;
+  /**
+   * Conversations (across all tenants) whose active node ids include any of
+   * the given ids. `userId` is the conversation owner, when known.
+   */
+  findByActiveNodeIds?(nodeIds: string[]): Promise<Array<ConversationIdentity & { activeNodeIds: string[] }>>;
 }
 
 type TraceContextPayload = {
@@ -239,6 +315,20 @@ type TraceContextPayload = {
   rootSpanName?: string | null;
 };
 
+/**
+ * Chat turn details recorded as the provenance of captured concepts
+ */
+type ConceptCaptureContext = {
+  conversationId?: string;
+  traceContext?: TraceContextPayload;
+};
+
+/**
+ * Versions (updated_at) of the graph nodes a chat turn's prompts were built
+ * from, keyed by node id. Nodes without a timestamp map to ''.
+ */
+type NodeVersions = Map<string, string>;
+
 /**
  * LLM tool stream chunk (from router providers)
  */
@@ -303,6 +393,25 @@ const CAPTURE_CONCEPTS_TOOL = {
   },
 };
 
+/**
+ * Record the version of every graph node in a graph client result
+ * (a GraphContext or a list of nodes)
+ */
+function recordNodeVersions(result: unknown, nodeVersions: NodeVersions): void {
+  const nodes = Array.isArray(result) ? result : (result as { nodes?: unknown } | null)?.nodes;
+  if (!Array.isArray(nodes)) {
+    return;
+  }
+
+  for (const node of nodes as Array<Partial<GraphNode> | null>) {
+    if (typeof node?.id !== 'string' || !node.properties || typeof node.properties !== 'object') {
+      continue;
+    }
+    const updatedAt = node.properties.updated_at;
+    nodeVersions.set(node.id, updatedAt === undefined || updatedAt === null ? '' : String(updatedAt));
+  }
+}
+
 /**
  * ComplianceEngine orchestrates regulatory intelligence queries
  */
@@ -375,6 +484,25 @@ export class ComplianceEngine {
     });
   }
 
+  /**
+   * Graph client for one chat turn that records the version of every node the
+   * agents load, so cached answers are keyed by the facts they were built from
+   */
+  private createVersionTrackingGraphClient(nodeVersions: NodeVersions): GraphClient {
+    return new Proxy(this.instrumentedGraphClient, {
+      get: (obj, prop: string, receiver) => {
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof value !== 'function') return value;
+
+        return async (...args: unknown[]) => {
+          const result = await value.apply(obj, args);
+          recordNodeVersions(result, nodeVersions);
+          return result;
+        };
+      },
+    });
+  }
+
   private instrumentSyncWithSpan<T extends object>(
     name: string,
     target: T
@@ -459,7 +587,10 @@ export class ComplianceEngine {
     return [];
   }
 
-  private async handleConceptChunk(chunk: ToolStreamChunk): Promise<string[]> {
+  private async handleConceptChunk(
+    chunk: ToolStreamChunk,
+    provenance: CapturedConceptProvenance
+  ): Promise<string[]> {
     const toolName = chunk.name ?? chunk.toolName;
     return this.runWithTracing(
       'compliance.concepts.handle',
@@ -497,7 +628,8 @@ export class ComplianceEngine {
         try {
           return await this.deps.canonicalConceptHandler.resolveAndUpsert(
             concepts,
-            this.deps.graphWriteService
+            this.deps.graphWriteService,
+            provenance
           );
         } catch (error) {
           this.logger.warn(
@@ -526,7 +658,9 @@ export class ComplianceEngine {
     request: LlmChatRequest,
     conceptNodeIds: Set<string>,
     options: ToolAwareCompletionOptions,
-    executionTools?: ExecutionTool[]
+    executionTools?: ExecutionTool[],
+    captureContext: ConceptCaptureContext = {},
+    nodeVersions?: NodeVersions
   ): AsyncIterable<LlmStreamChunk> {
     const { messages, max_tokens, ...requestOptions } = request;
     const mergedOptions: ToolAwareCompletionOptions = { ...options };
@@ -541,6 +675,14 @@ export class ComplianceEngine {
       mergedOptions.maxTokens = max_tokens;
     }
 
+    // Cached answers are invalidated when any node loaded for this turn changes
+    if (nodeVersions?.size) {
+      mergedOptions.responseCache = {
+        ...mergedOptions.responseCache,
+        nodeVersions: Object.fromEntries(nodeVersions),
+      };
+    }
+
     const streamSpanAttributes = {
       task: mergedOptions.task ?? 'main-chat',
       requestedModel: mergedOptions.model,
@@ -554,6 +696,9 @@ export class ComplianceEngine {
       async () => this.deps.llmRouter.streamChat(messages, mergedOptions as LlmCompletionOptions)
     );
 
+    // Model that is answering; changes if the router fails over
+    let activeModel = mergedOptions.model ?? null;
+
     // Build a map of execution tools for quick lookup
     const executionToolMap = new Map<string, ExecutionTool>();
     if (executionTools?.length) {
@@ -603,7 +748,13 @@ export class ComplianceEngine {
 
         // Handle concept capture tool (existing behavior)
         if (toolName === 'capture_concepts') {
-          const resolvedIds = await this.handleConceptChunk(toolChunk);
+          const traceId = this.getActiveTraceContext(captureContext.traceContext).traceId;
+          const resolvedIds = await this.handleConceptChunk(toolChunk, {
+            tenantId: mergedOptions.tenantId ?? null,
+            conversationId: captureContext.conversationId ?? null,
+            model: activeModel,
+            traceId: traceId === 'no-active-span' ? null : traceId,
+          });
           resolvedIds.forEach(id => conceptNodeIds.add(id));
           continue;
         }
@@ -615,6 +766,10 @@ export class ComplianceEngine {
 
       if (chunk.type === 'text') {
         yield { type: 'text', delta: chunk.delta };
+      } else if (chunk.type === 'failover') {
+        activeModel = chunk.event.toModel ?? activeModel;
+        this.logger.warn({ failover: chunk.event }, 'LLM provider failover during chat turn');
+        yield { type: 'warning', warnings: [this.formatFailoverWarning(chunk.event)] };
       } else if (chunk.type === 'error') {
         const wrappedError = this.wrapRouterError(chunk.error);
         yield { type: 'error', error: wrappedError };
@@ -624,6 +779,16 @@ export class ComplianceEngine {
     }
   }
 
+  /**
+   * Describe a provider failover in user-facing terms
+   */
+  private formatFailoverWarning(event: LlmFailoverEvent): string {
+    const target = event.toProvider
+      ? `${event.toProvider}${event.toModel ? ` (${event.toModel})` : ''}`
+      : 'a fallback model';
+    return `The ${event.fromProvider} model was unavailable, so this answer was generated by ${target}. Response style and depth may differ slightly.`;
+  }
+
   /**
    * Extract tool name from various LLM provider formats
    */
@@ -697,7 +862,10 @@ export class ComplianceEngine {
   private createConceptAwareLlmClient(
     conceptNodeIds: Set<string>,
     tenantId?: string,
-    executionTools?: ExecutionTool[]
+    executionTools?: ExecutionTool[],
+    routerWarnings?: string[],
+    captureContext?: ConceptCaptureContext,
+    nodeVersions?: NodeVersions
   ): LlmClient {
     const tools: Array<Record<string, unknown>> = this.conceptCaptureEnabled ? [CAPTURE_CONCEPTS_TOOL] : [];
 
@@ -722,11 +890,13 @@ export class ComplianceEngine {
 
     return {
       chat: async (request: LlmChatRequest) => {
-        const chunks = this.routeThroughRouter(request, conceptNodeIds, options, executionTools);
+        const chunks = this.routeThroughRouter(request, conceptNodeIds, options, executionTools, captureContext, nodeVersions);
         let content = '';
         for await (const chunk of chunks) {
           if (chunk.type === 'text') {
             content += chunk.delta ?? '';
+          } else if (chunk.type === 'warning') {
+            routerWarnings?.push(...chunk.warnings);
           } else if (chunk.type === 'error') {
             const wrappedError = this.wrapRouterError(chunk.error);
             throw wrappedError;
@@ -735,18 +905,74 @@ export class ComplianceEngine {
         return { content };
       },
       streamChat: (request: LlmChatRequest) =>
-        this.routeThroughRouter(request, conceptNodeIds, options, executionTools),
+        this.routeThroughRouter(request, conceptNodeIds, options, executionTools, captureContext, nodeVersions),
     };
   }
 
+  /**
+   * Calculate the request's scenarios side by side. Best-effort: a failed
+   * comparison becomes a warning and the answer is produced without it.
+   */
+  private async runScenarioComparison(
+    request: ComplianceRequest,
+    now: Date,
+    warnings: string[]
+  ): Promise<ScenarioComparison | undefined> {
+    const comparison = request.scenarioComparison;
+    if (!comparison?.scenarios.length) {
+      return undefined;
+    }
+
+    try {
+      return await this.runWithTracing(
+        'compliance.scenarios',
+        { scenarioCount: comparison.scenarios.length },
+        async () =>
+          compareScenarios(this.instrumentedGraphClient, comparison.scenarios, {
+            profile: request.profile,
+            benefitIds: comparison.benefitIds,
+            taxYear: comparison.taxYear,
+            asOf: now,
+          })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ error: message }, 'Scenario comparison failed');
+      warnings.push(`Scenario comparison unavailable: ${message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Conversation history for the agent, with the scenario comparison as a
+   * system message so the answer discusses the same figures the user sees
+   */
+  private buildAgentHistory(
+    messages: ChatMessage[],
+    scenarioComparison: ScenarioComparison | undefined
+  ): ChatMessage[] {
+    const history = messages.slice(0, -1);
+    return scenarioComparison
+      ? [...history, { role: 'system', content: formatScenarioComparisonForPrompt(scenarioComparison) }]
+      : history;
+  }
+
   private mergeReferencedNodes(
+    retrievedNodes: RetrievedGraphNode[],
     agentNodes: Array<{ id: string; label: string; type: string }>,
     conceptNodeIds: Set<string>
   ) {
     const merged = new Map<string, { id: string; label: string; type: string }>();
 
+    // Ranked retrieval results first, then nodes the agent used that retrieval missed
+    retrievedNodes.forEach(node => {
+      merged.set(node.id, { id: node.id, label: node.label, type: node.type });
+    });
+
     agentNodes.forEach(node => {
-      merged.set(node.id, node);
+      if (!merged.has(node.id)) {
+        merged.set(node.id, node);
+      }
     });
 
     conceptNodeIds.forEach(id => {
@@ -758,6 +984,53 @@ export class ComplianceEngine {
     return Array.from(merged.values());
   }
 
+  /**
+   * Rank graph nodes for the question. Retrieval is best-effort: failures are
+   * logged and the answer falls back to the agent's own graph queries.
+   */
+  private async retrieveNodes(
+    question: string,
+    profile: UserProfile | undefined,
+    tenantId: string | undefined,
+    asOf: Date
+  ): Promise<RetrievedGraphNode[]> {
+    const retriever = this.deps.graphRetriever;
+    if (!retriever) {
+      return [];
+    }
+
+    const jurisdictions = profile?.jurisdictions?.length ? profile.jurisdictions : [DEFAULT_JURISDICTION];
+    try {
+      return await this.runWithTracing(
+        'compliance.retrieval',
+        { tenantId },
+        async () =>
+          retriever.retrieve({
+            // The question may be embedded by a remote provider, so strip PII first
+            text: this.instrumentedEgressGuard.redactText(question),
+            tenantId,
+            jurisdictions,
+            profileTagId: profile ? toProfileTagId(profile.personaType, jurisdictions[0]) : undefined,
+            asOf,
+          })
+      );
+    } catch (error) {
+      this.logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Graph retrieval failed; continuing without ranked nodes'
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Start a turn's node versions with the retrieved nodes. Retrieval does not
+   * return timestamps; versions are filled in when the agents load the nodes.
+   */
+  private seedNodeVersions(retrievedNodes: RetrievedGraphNode[]): NodeVersions {
+    return new Map(retrievedNodes.map(node => [node.id, '']));
+  }
+
   private async resolveActiveNodes(nodeIds: string[]): Promise<ResolvedNodeMeta[]> {
     if (!nodeIds.length) {
       return [];
@@ -766,9 +1039,12 @@ export class ComplianceEngine {
     const escapedIds = nodeIds.map(id =>
       id.replace(/\\/g, '\\\\').replace(/'/g, "\\'")
     );
+    // IDs of concepts merged into another concept resolve to that concept
     const query = `
       MATCH (n)
       WHERE n.id IN ['${escapedIds.join("','")}']
+      OPTIONAL MATCH (n)-[:MERGED_INTO]->(target)
+      WITH DISTINCT coalesce(target, n) AS n
       RETURN n.id AS id, coalesce(n.label, n.name, n.title) AS label, head(labels(n)) AS type
     `;
 
@@ -957,14 +1233,6 @@ export class ComplianceEngine {
               throw new ComplianceError('No user message found');
             }
 
-            // Build agent input
-            const agentInput: AgentInput = {
-              question: lastMessage.content,
-              profile,
-              conversationHistory: messages.slice(0, -1), // All messages except the last
-              now: new Date(),
-            };
-
             const conversationIdentity =
               tenantId && conversationId
                 ? { tenantId, conversationId }
@@ -972,24 +1240,45 @@ export class ComplianceEngine {
             const conversationContext = await this.loadConversationContext(
               conversationIdentity
             );
+
+            const now = request.asOf ?? new Date();
+            const retrievedNodes = await this.retrieveNodes(lastMessage.content, profile, tenantId, now);
+            const routerWarnings: string[] = [];
+            const scenarioComparison = await this.runScenarioComparison(request, now, routerWarnings);
+
+            // Build agent input
+            const agentInput: AgentInput = {
+              question: lastMessage.content,
+              profile,
+              // All messages except the last, plus the scenario comparison when requested
+              conversationHistory: this.buildAgentHistory(messages, scenarioComparison),
+              now,
+              activeNodeIds: conversationContext.context.activeNodeIds,
+              eligibilityFacts: request.eligibilityFacts,
+              retrievedNodes,
+            };
             const promptMetadata = await this.buildPromptMetadata(profile, {
               summary: conversationContext.summary,
               nodes: conversationContext.nodes,
             });
             const conceptNodeIds = new Set<string>();
+            const nodeVersions = this.seedNodeVersions(retrievedNodes);
             const conceptAwareClient = this.createConceptAwareLlmClient(
               conceptNodeIds,
               tenantId,
-              request.executionTools
+              request.executionTools,
+              routerWarnings,
+              { conversationId, traceContext: request.traceContext },
+              nodeVersions
             );
 
             // Build agent context
             const agentContext: AgentContext = {
-              graphClient: this.instrumentedGraphClient,
+              graphClient: this.createVersionTrackingGraphClient(nodeVersions),
               timeline: this.instrumentedTimelineEngine,
               egressGuard: this.instrumentedEgressGuard,
               llmClient: conceptAwareClient,
-              now: new Date(),
+              now,
               profile,
             };
 
@@ -1003,6 +1292,7 @@ export class ComplianceEngine {
             );
 
             const referencedNodes = this.mergeReferencedNodes(
+              retrievedNodes,
               agentResult.referencedNodes,
               conceptNodeIds
             );
@@ -1015,15 +1305,26 @@ export class ComplianceEngine {
             // Apply EgressGuard sanitization to agent output as defense-in-depth
             // This catches any PII that might have bypassed LLM-level sanitization
             const sanitizedAnswer = this.instrumentedEgressGuard.redactText(agentResult.answer);
+            const warnings = [...(agentResult.warnings ?? []), ...routerWarnings];
+
+            // Citations may only point at nodes the answer was grounded in
+            const cited = validateCitations(sanitizedAnswer, referencedNodes);
+            if (cited.unsupportedIds.length) {
+              warnings.push(formatUnsupportedCitationWarning(cited.unsupportedIds));
+            }
 
             return {
-              answer: sanitizedAnswer,
+              answer: cited.text,
               referencedNodes,
               agentUsed: agentResult.agentId,
               jurisdictions: promptMetadata.jurisdictions,
-              warnings: agentResult.warnings,
+              warnings: warnings.length ? warnings : undefined,
               uncertaintyLevel: agentResult.uncertaintyLevel,
               followUps: agentResult.followUps,
+              conflicts: agentResult.conflicts,
+              eligibility: agentResult.eligibility,
+              citations: cited.citations,
+              scenarioComparison,
               disclaimer: promptMetadata.disclaimer,
             };
           }
@@ -1144,25 +1445,38 @@ export class ComplianceEngine {
         nodes: conversationContext.nodes,
       });
       const conceptNodeIds = new Set<string>();
+      // Warnings raised by non-streaming LLM calls made while the agent prepared its answer
+      const routerWarnings: string[] = [];
+
+      const now = request.asOf ?? new Date();
+      const retrievedNodes = await this.retrieveNodes(lastMessage.content, profile, tenantId, now);
+      const nodeVersions = this.seedNodeVersions(retrievedNodes);
       const conceptAwareClient = this.createConceptAwareLlmClient(
         conceptNodeIds,
         tenantId,
-        executionTools
+        executionTools,
+        routerWarnings,
+        { conversationId, traceContext: request.traceContext },
+        nodeVersions
       );
+      const scenarioComparison = await this.runScenarioComparison(request, now, routerWarnings);
 
       const agentInput: AgentInput = {
         question: lastMessage.content,
         profile,
-        conversationHistory: messages.slice(0, -1),
-        now: new Date(),
+        conversationHistory: this.buildAgentHistory(messages, scenarioComparison),
+        now,
+        activeNodeIds: conversationContext.context.activeNodeIds,
+        eligibilityFacts: request.eligibilityFacts,
+        retrievedNodes,
       };
 
       const agentContext: AgentContext = {
-        graphClient: this.instrumentedGraphClient,
+        graphClient: this.createVersionTrackingGraphClient(nodeVersions),
         timeline: this.instrumentedTimelineEngine,
         egressGuard: this.instrumentedEgressGuard,
         llmClient: conceptAwareClient,
-        now: new Date(),
+        now,
         profile,
       };
 
@@ -1170,18 +1484,21 @@ export class ComplianceEngine {
       if (!handleStream) {
         throw new ComplianceError('Agent does not support streaming');
       }
-      const agentResult = await this.runWithTracing(
-        'compliance.agent',
-        { agent: 'GlobalRegulatoryComplianceAgent' },
-        async () => handleStream(agentInput, agentContext)
+      const agentResult = yield* this.runAgentWithProgress(agentContext, () =>
+        this.runWithTracing(
+          'compliance.agent',
+          { agent: 'GlobalRegulatoryComplianceAgent' },
+          async () => handleStream(agentInput, agentContext)
+        )
       );
 
-      const warnings = agentResult.warnings ?? [];
+      const warnings = [...(agentResult.warnings ?? []), ...routerWarnings];
 
       const streamIterator = agentResult.stream[Symbol.asyncIterator]();
       const firstChunkResult = await streamIterator.next();
 
       const metadataReferencedNodes = this.mergeReferencedNodes(
+        retrievedNodes,
         agentResult.referencedNodes,
         conceptNodeIds
       );
@@ -1199,22 +1516,35 @@ export class ComplianceEngine {
             label: node.label,
             type: node.type ?? '',
           })),
+          conflicts: agentResult.conflicts,
+          eligibility: agentResult.eligibility,
         },
       };
 
+      if (scenarioComparison) {
+        yield { type: 'scenario_comparison', scenarioComparison };
+      }
+
       if (warnings.length) {
         yield { type: 'warning', warnings };
       }
 
       let currentResult: IteratorResult<LlmStreamChunk> | undefined =
         firstChunkResult;
+      // Citations may only point at nodes announced in the metadata chunk
+      const citationValidator = new CitationStreamValidator(metadataReferencedNodes);
 
       while (currentResult && !currentResult.done) {
         const chunk = currentResult.value;
         if (chunk.type === 'text' && chunk.delta) {
-          // Apply EgressGuard sanitization to streaming text as defense-in-depth
-          const sanitizedDelta = this.instrumentedEgressGuard.redactText(chunk.delta);
-          yield { type: 'text', delta: sanitizedDelta };
+          const validatedDelta = citationValidator.push(chunk.delta);
+          if (validatedDelta) {
+            // Apply EgressGuard sanitization to streaming text as defense-in-depth
+            yield { type: 'text', delta: this.instrumentedEgressGuard.redactText(validatedDelta) };
+          }
+        } else if (chunk.type === 'warning') {
+          warnings.push(...chunk.warnings);
+          yield { type: 'warning', warnings: chunk.warnings };
         } else if (chunk.type === 'error') {
           yield { type: 'error', error: chunk.error?.message || 'Unknown error' };
           break;
@@ -1223,7 +1553,18 @@ export class ComplianceEngine {
         currentResult = await streamIterator.next();
       }
 
+      const remainingText = citationValidator.flush();
+      if (remainingText) {
+        yield { type: 'text', delta: this.instrumentedEgressGuard.redactText(remainingText) };
+      }
+      if (citationValidator.unsupportedIds.length) {
+        warnings.push(formatUnsupportedCitationWarning(citationValidator.unsupportedIds));
+        // Clients replace their warning list on each warning chunk, so send the full list
+        yield { type: 'warning', warnings: [...warnings] };
+      }
+
       const finalReferencedNodes = this.mergeReferencedNodes(
+        retrievedNodes,
         agentResult.referencedNodes,
         conceptNodeIds
       );
@@ -1238,6 +1579,7 @@ export class ComplianceEngine {
         type: 'done',
         followUps: agentResult.followUps,
         referencedNodes: finalReferencedNodes,
+        citations: citationValidator.citations,
         warnings: warnings.length ? warnings : undefined,
         disclaimer: promptMetadata.disclaimer,
       };
@@ -1247,6 +1589,49 @@ export class ComplianceEngine {
     }
   }
 
+  /**
+   * Run the agent while yielding `agent_progress` chunks for every domain
+   * agent that starts or finishes, so clients can show which agents are working.
+   */
+  private async *runAgentWithProgress(
+    agentContext: AgentContext,
+    run: () => Promise<AgentStreamResult>
+  ): AsyncGenerator<ComplianceStreamChunk, AgentStreamResult> {
+    const progressQueue: AgentProgressEvent[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+
+    agentContext.onAgentProgress = event => {
+      progressQueue.push(event);
+      wake?.();
+    };
+
+    const pending = run().finally(() => {
+      settled = true;
+      wake?.();
+    });
+    // Rejections are surfaced by the await below; avoid an unhandled rejection meanwhile
+    pending.catch(() => undefined);
+
+    while (!settled || progressQueue.length > 0) {
+      const event = progressQueue.shift();
+      if (event) {
+        yield { type: 'agent_progress', agentProgress: event };
+        continue;
+      }
+
+      await new Promise<void>(resolve => {
+        wake = resolve;
+        if (settled || progressQueue.length > 0) {
+          resolve();
+        }
+      });
+      wake = undefined;
+    }
+
+    return pending;
+  }
+
   private async runWithTracing<T>(
     name: string,
     attributes: Attributes,
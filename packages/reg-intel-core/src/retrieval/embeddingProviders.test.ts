@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { LlmError } from '../errors.js';
+import {
+  cosineSimilarity,
+  createHashingEmbeddingProvider,
+  createOpenAiCompatibleEmbeddingProvider,
+  selectEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddingProviders.js';
+
+describe('createHashingEmbeddingProvider', () => {
+  it('produces deterministic unit vectors of the configured size', async () => {
+    const provider = createHashingEmbeddingProvider({ dimensions: 64 });
+
+    const [first, second] = await provider.embed(['Capital gains tax', 'Capital gains tax']);
+
+    expect(provider.local).toBe(true);
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(Math.sqrt(first.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+  });
+
+  it('scores related wording above unrelated wording', async () => {
+    const provider = createHashingEmbeddingProvider();
+
+    const [question, related, unrelated] = await provider.embed([
+      'unemployment payments after losing a job',
+      "Jobseeker's Benefit. Also known as: unemployment benefit",
+      'Capital gains tax on shares',
+    ]);
+
+    expect(cosineSimilarity(question, related)).toBeGreaterThan(cosineSimilarity(question, unrelated));
+  });
+});
+
+describe('createOpenAiCompatibleEmbeddingProvider', () => {
+  it('posts inputs to /embeddings and returns vectors in input order', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }))
+    );
+    const provider = createOpenAiCompatibleEmbeddingProvider({
+      model: 'nomic-embed-text',
+      baseURL: 'http://localhost:11434/v1/',
+      local: true,
+      fetchImpl,
+    });
+
+    const vectors = await provider.embed(['first', 'second']);
+
+    expect(provider).toMatchObject({ id: 'local:nomic-embed-text', local: true });
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'http://localhost:11434/v1/embeddings',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ model: 'nomic-embed-text', input: ['first', 'second'] }) })
+    );
+  });
+
+  it('throws LlmError when the endpoint fails', async () => {
+    const provider = createOpenAiCompatibleEmbeddingProvider({
+      model: 'text-embedding-3-small',
+      apiKey: 'key',
+      fetchImpl: vi.fn().mockResolvedValue(new Response('rate limited', { status: 429 })),
+    });
+
+    await expect(provider.embed(['text'])).rejects.toBeInstanceOf(LlmError);
+  });
+});
+
+describe('selectEmbeddingProvider', () => {
+  const local: EmbeddingProvider = { id: 'hashing:256', local: true, embed: vi.fn() };
+  const remote: EmbeddingProvider = { id: 'remote:text-embedding-3-small', local: false, embed: vi.fn() };
+
+  it('uses the local provider for tenants whose policy disallows remote egress', async () => {
+    const policySource = { getPolicy: vi.fn().mockResolvedValue({ allowRemoteEgress: false }) };
+
+    await expect(selectEmbeddingProvider({ local, remote }, 'tenant-1', policySource)).resolves.toBe(local);
+    expect(policySource.getPolicy).toHaveBeenCalledWith('tenant-1');
+  });
+
+  it('uses the remote provider when the policy allows it or no policy exists', async () => {
+    const allowing = { getPolicy: vi.fn().mockResolvedValue({ allowRemoteEgress: true }) };
+    const missing = { getPolicy: vi.fn().mockResolvedValue(null) };
+
+    await expect(selectEmbeddingProvider({ local, remote }, 'tenant-1', allowing)).resolves.toBe(remote);
+    await expect(selectEmbeddingProvider({ local, remote }, 'tenant-2', missing)).resolves.toBe(remote);
+    await expect(selectEmbeddingProvider({ local })).resolves.toBe(local);
+  });
+});
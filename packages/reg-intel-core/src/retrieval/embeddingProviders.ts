@@ -0,0 +1,196 @@
+/**
+ * Embedding providers for graph retrieval
+ *
+ * Providers are pluggable so a tenant whose LLM policy disallows remote
+ * egress can be served by a local model. Two implementations ship here:
+ * - a hashing provider that runs in-process (no model, no network), and
+ * - an OpenAI-compatible `/embeddings` client, usable against OpenAI itself
+ *   or a local server (Ollama, vLLM, LM Studio) when marked `local`.
+ */
+
+import { createHash } from 'node:crypto';
+import { LlmError } from '../errors.js';
+
+/**
+ * Turns text into vectors for similarity search
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier; vectors from different providers are never compared */
+  id: string;
+  /** True when text never leaves this deployment */
+  local: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Policy lookup used to decide whether a remote provider may be used
+ */
+export interface EmbeddingPolicySource {
+  getPolicy(tenantId: string): Promise<{ allowRemoteEgress: boolean } | null>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'which', 'who', 'with',
+]);
+
+/**
+ * Crude suffix stripping so "contributions" and "contributing" share features
+ */
+function stem(word: string): string {
+  return word.replace(/(?:ies|ing|ed|es|s)$/, '') || word;
+}
+
+function hashFeature(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash('sha1').update(feature).digest();
+  return { index: digest.readUInt32BE(0) % dimensions, sign: digest[4] & 1 ? 1 : -1 };
+}
+
+/**
+ * Options for the hashing embedding provider
+ */
+export interface HashingEmbeddingProviderOptions {
+  /** Vector size (default: 256) */
+  dimensions?: number;
+}
+
+/**
+ * Create a local provider that hashes word stems and character trigrams into
+ * a fixed-size vector. It needs no model, so it is the fallback when remote
+ * egress is disallowed and no local embedding server is configured.
+ */
+export function createHashingEmbeddingProvider(options: HashingEmbeddingProviderOptions = {}): EmbeddingProvider {
+  const dimensions = options.dimensions ?? 256;
+
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+    for (const word of words) {
+      if (STOP_WORDS.has(word)) continue;
+      const stemmed = stem(word);
+      const features = [`w:${stemmed}`];
+      const padded = `^${stemmed}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`t:${padded.slice(i, i + 3)}`);
+      }
+      for (const feature of features) {
+        const { index, sign } = hashFeature(feature, dimensions);
+        vector[index] += feature.startsWith('w:') ? sign * 2 : sign;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  };
+
+  return {
+    id: `hashing:${dimensions}`,
+    local: true,
+    embed: async texts => texts.map(embedOne),
+  };
+}
+
+/**
+ * Options for an OpenAI-compatible embeddings endpoint
+ */
+export interface OpenAiCompatibleEmbeddingProviderOptions {
+  model: string;
+  /** API base URL (default: https://api.openai.com/v1) */
+  baseURL?: string;
+  apiKey?: string;
+  /** Set for self-hosted endpoints so the provider may serve tenants without remote egress */
+  local?: boolean;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Create a provider backed by an OpenAI-compatible `/embeddings` endpoint
+ */
+export function createOpenAiCompatibleEmbeddingProvider(
+  options: OpenAiCompatibleEmbeddingProviderOptions
+): EmbeddingProvider {
+  const baseURL = (options.baseURL ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const local = options.local ?? false;
+
+  return {
+    id: `${local ? 'local' : 'remote'}:${options.model}`,
+    local,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetchImpl(`${baseURL}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: options.model, input: texts }),
+      });
+
+      if (!response.ok) {
+        throw new LlmError(`Embedding request failed with status ${response.status}`, response.status);
+      }
+
+      const payload = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+      const data = [...(payload.data ?? [])].sort((a, b) => a.index - b.index);
+      if (data.length !== texts.length) {
+        throw new LlmError(`Embedding response returned ${data.length} vectors for ${texts.length} inputs`);
+      }
+      return data.map(item => item.embedding);
+    },
+  };
+}
+
+/**
+ * Local and (optionally) remote providers to choose between per tenant
+ */
+export interface EmbeddingProviderSet {
+  local: EmbeddingProvider;
+  remote?: EmbeddingProvider;
+}
+
+/**
+ * Pick the provider for a tenant: the remote provider unless the tenant's
+ * policy disallows remote egress. Tenants without a policy may use remote
+ * providers, matching LlmRouter.
+ */
+export async function selectEmbeddingProvider(
+  providers: EmbeddingProviderSet,
+  tenantId?: string,
+  policySource?: EmbeddingPolicySource
+): Promise<EmbeddingProvider> {
+  if (!providers.remote || providers.remote.local) {
+    return providers.remote ?? providers.local;
+  }
+  if (!tenantId || !policySource) {
+    return providers.remote;
+  }
+
+  const policy = await policySource.getPolicy(tenantId);
+  return policy && !policy.allowRemoteEgress ? providers.local : providers.remote;
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
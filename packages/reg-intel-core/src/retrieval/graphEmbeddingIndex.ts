@@ -0,0 +1,213 @@
+/**
+ * Embedding index over graph nodes
+ *
+ * Each node is embedded from its label, its alt-labels (the `alt_labels`
+ * property and `Label` nodes linked by HAS_ALT_LABEL) and its definition or
+ * description, and kept in an in-process vector store together with the
+ * jurisdictions and profile tags it belongs to. One store is built lazily per
+ * embedding provider, since vectors from different models are not comparable.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { GraphClient } from '../types.js';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddingProviders.js';
+
+/**
+ * Text and filter metadata for one graph node
+ */
+export interface GraphEmbeddingDocument {
+  id: string;
+  label: string;
+  type: string;
+  text: string;
+  jurisdictions: string[];
+  profileTags: string[];
+}
+
+/**
+ * A document match with its cosine similarity
+ */
+export interface VectorSearchHit {
+  document: GraphEmbeddingDocument;
+  similarity: number;
+}
+
+/**
+ * In-process vector store
+ */
+export class InMemoryVectorStore {
+  private entries = new Map<string, { document: GraphEmbeddingDocument; vector: number[] }>();
+
+  upsert(document: GraphEmbeddingDocument, vector: number[]): void {
+    this.entries.set(document.id, { document, vector });
+  }
+
+  get(id: string): GraphEmbeddingDocument | undefined {
+    return this.entries.get(id)?.document;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Most similar documents passing `filter`, best first
+   */
+  search(
+    vector: number[],
+    limit: number,
+    filter: (document: GraphEmbeddingDocument) => boolean = () => true
+  ): VectorSearchHit[] {
+    return [...this.entries.values()]
+      .filter(entry => filter(entry.document))
+      .map(entry => ({ document: entry.document, similarity: cosineSimilarity(vector, entry.vector) }))
+      .filter(hit => hit.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Node types that only exist to structure the graph and are not retrieval targets
+ */
+const EXCLUDED_NODE_TYPES = ['Jurisdiction', 'Region', 'ProfileTag', 'Label'];
+
+/**
+ * Whether nodes of a type can be returned by retrieval
+ */
+export function isRetrievableNodeType(type: string): boolean {
+  return !EXCLUDED_NODE_TYPES.includes(type);
+}
+
+const MAX_DOCUMENT_LENGTH = 1000;
+
+const GRAPH_DOCUMENTS_QUERY = `
+  MATCH (n)
+  WHERE n.id IS NOT NULL
+    AND coalesce(n.pref_label, n.label, n.name, n.title) IS NOT NULL
+    AND NOT head(labels(n)) IN $excludedTypes
+    AND NOT (n)-[:MERGED_INTO]->()
+  OPTIONAL MATCH (n)-[:HAS_ALT_LABEL]->(alt:Label)
+  OPTIONAL MATCH (n)-[:IN_JURISDICTION]->(j:Jurisdiction)
+  OPTIONAL MATCH (n)-[:APPLIES_TO]->(p:ProfileTag)
+  RETURN n.id AS id,
+         head(labels(n)) AS type,
+         coalesce(n.pref_label, n.label, n.name, n.title) AS label,
+         coalesce(n.definition, n.description, n.short_summary, n.text_excerpt) AS definition,
+         n.alt_labels AS altLabelList,
+         collect(DISTINCT alt.value) AS altLabels,
+         collect(DISTINCT j.id) AS jurisdictions,
+         collect(DISTINCT p.id) AS profileTags
+`;
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+}
+
+/**
+ * Build the embedded text for a node: label, alt-labels, then definition
+ */
+export function toEmbeddingText(label: string, altLabels: string[], definition?: string): string {
+  const text = [label, altLabels.length ? `Also known as: ${altLabels.join('; ')}` : '', definition ?? '']
+    .filter(Boolean)
+    .join('. ');
+  return text.length > MAX_DOCUMENT_LENGTH ? text.slice(0, MAX_DOCUMENT_LENGTH) : text;
+}
+
+/**
+ * Configuration for GraphEmbeddingIndex
+ */
+export interface GraphEmbeddingIndexConfig {
+  graphClient: Pick<GraphClient, 'executeCypher'>;
+  /** Texts per embedding call (default: 64) */
+  batchSize?: number;
+}
+
+/**
+ * Lazily built per-provider embedding stores over the graph
+ */
+export class GraphEmbeddingIndex {
+  private graphClient: Pick<GraphClient, 'executeCypher'>;
+  private batchSize: number;
+  private documents?: Promise<GraphEmbeddingDocument[]>;
+  private stores = new Map<string, Promise<InMemoryVectorStore>>();
+  private logger = createLogger('GraphEmbeddingIndex', { component: 'Retrieval' });
+
+  constructor(config: GraphEmbeddingIndexConfig) {
+    this.graphClient = config.graphClient;
+    this.batchSize = config.batchSize ?? 64;
+  }
+
+  /**
+   * Vector store for a provider, built on first use
+   */
+  getStore(provider: EmbeddingProvider): Promise<InMemoryVectorStore> {
+    let store = this.stores.get(provider.id);
+    if (!store) {
+      store = this.buildStore(provider);
+      // A failed build should be retried on the next request rather than cached
+      store.catch(() => this.stores.delete(provider.id));
+      this.stores.set(provider.id, store);
+    }
+    return store;
+  }
+
+  /**
+   * Drop all stores so the next request re-reads the graph (e.g. after ingestion)
+   */
+  invalidate(): void {
+    this.documents = undefined;
+    this.stores.clear();
+  }
+
+  private loadDocuments(): Promise<GraphEmbeddingDocument[]> {
+    if (!this.documents) {
+      this.documents = this.graphClient
+        .executeCypher(GRAPH_DOCUMENTS_QUERY, { excludedTypes: EXCLUDED_NODE_TYPES })
+        .then(result =>
+          (Array.isArray(result) ? (result as Array<Record<string, unknown>>) : []).map(row => {
+            const label = String(row.label);
+            const altLabels = [...new Set([...strings(row.altLabelList), ...strings(row.altLabels)])];
+            const definition = typeof row.definition === 'string' ? row.definition : undefined;
+            return {
+              id: String(row.id),
+              label,
+              type: typeof row.type === 'string' ? row.type : 'Concept',
+              text: toEmbeddingText(label, altLabels, definition),
+              jurisdictions: strings(row.jurisdictions),
+              profileTags: strings(row.profileTags),
+            };
+          })
+        );
+      this.documents.catch(() => {
+        this.documents = undefined;
+      });
+    }
+    return this.documents;
+  }
+
+  private async buildStore(provider: EmbeddingProvider): Promise<InMemoryVectorStore> {
+    const startedAt = Date.now();
+    const documents = await this.loadDocuments();
+    const store = new InMemoryVectorStore();
+
+    for (let offset = 0; offset < documents.length; offset += this.batchSize) {
+      const batch = documents.slice(offset, offset + this.batchSize);
+      const vectors = await provider.embed(batch.map(document => document.text));
+      batch.forEach((document, index) => store.upsert(document, vectors[index]));
+    }
+
+    this.logger.info(
+      { provider: provider.id, nodes: store.size, durationMs: Date.now() - startedAt },
+      'Built graph embedding index'
+    );
+    return store;
+  }
+}
+
+/**
+ * Create a GraphEmbeddingIndex instance
+ */
+export function createGraphEmbeddingIndex(config: GraphEmbeddingIndexConfig): GraphEmbeddingIndex {
+  return new GraphEmbeddingIndex(config);
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { GraphContext } from '../types.js';
+import { createHashingEmbeddingProvider, type EmbeddingProvider } from './embeddingProviders.js';
+import { createGraphEmbeddingIndex } from './graphEmbeddingIndex.js';
+import { createHybridGraphRetriever } from './hybridRetriever.js';
+
+const GRAPH_ROWS = [
+  {
+    id: 'IE_BENEFIT_JOBSEEKERS',
+    type: 'Benefit',
+    label: "Jobseeker's Benefit",
+    definition: 'Weekly payment for people who are out of work and have enough PRSI contributions',
+    altLabelList: null,
+    altLabels: ['unemployment benefit', 'dole'],
+    jurisdictions: ['IE'],
+    profileTags: ['PROFILE_PAYE_EMPLOYEE_IE'],
+  },
+  {
+    id: 'UK_BENEFIT_JSA',
+    type: 'Benefit',
+    label: "Jobseeker's Allowance",
+    definition: 'Payment for people who are out of work',
+    altLabelList: ['unemployment benefit'],
+    altLabels: [],
+    jurisdictions: ['UK'],
+    profileTags: [],
+  },
+  {
+    id: 'IE_TAX_CGT',
+    type: 'Concept',
+    label: 'Capital gains tax',
+    definition: 'Tax on gains from disposing of assets such as shares',
+    altLabelList: ['CGT'],
+    altLabels: [],
+    jurisdictions: ['IE'],
+    profileTags: [],
+  },
+];
+
+const NEIGHBOURHOOD: GraphContext = {
+  nodes: [
+    { id: 'IE_BENEFIT_JOBSEEKERS', label: "Jobseeker's Benefit", type: 'Benefit', properties: {} },
+    { id: 'IE_COND_PRSI_104', label: '104 weeks PRSI paid', type: 'Condition', properties: {} },
+    { id: 'IE_TIMELINE_LOOKBACK_2Y', label: '2 year lookback', type: 'Timeline', properties: {} },
+    { id: 'IE', label: 'Ireland', type: 'Jurisdiction', properties: {} },
+  ],
+  edges: [
+    { source: 'IE_BENEFIT_JOBSEEKERS', target: 'IE_COND_PRSI_104', type: 'REQUIRES' },
+    { source: 'IE_COND_PRSI_104', target: 'IE_TIMELINE_LOOKBACK_2Y', type: 'LOOKBACK_WINDOW' },
+    { source: 'IE_BENEFIT_JOBSEEKERS', target: 'IE', type: 'IN_JURISDICTION' },
+  ],
+};
+
+function createRetriever(overrides: { remote?: EmbeddingProvider; allowRemoteEgress?: boolean } = {}) {
+  const graphClient = {
+    executeCypher: vi.fn().mockResolvedValue(GRAPH_ROWS),
+    getNeighbourhood: vi.fn(async (nodeId: string) =>
+      nodeId === 'IE_BENEFIT_JOBSEEKERS' ? NEIGHBOURHOOD : { nodes: [], edges: [] }
+    ),
+  };
+  const index = createGraphEmbeddingIndex({ graphClient });
+  const local = createHashingEmbeddingProvider();
+  const retriever = createHybridGraphRetriever({
+    graphClient,
+    index,
+    providers: { local, remote: overrides.remote },
+    policySource: {
+      getPolicy: vi.fn().mockResolvedValue(
+        overrides.allowRemoteEgress === undefined ? null : { allowRemoteEgress: overrides.allowRemoteEgress }
+      ),
+    },
+  });
+  return { graphClient, retriever };
+}
+
+describe('HybridGraphRetriever', () => {
+  it('matches paraphrased questions through alt-labels and expands the neighbourhood', async () => {
+    const { graphClient, retriever } = createRetriever();
+    const asOf = new Date('2024-06-01');
+
+    const results = await retriever.retrieve({
+      text: 'Can I get unemployment benefit?',
+      jurisdictions: ['IE'],
+      asOf,
+    });
+
+    expect(results[0]).toMatchObject({ id: 'IE_BENEFIT_JOBSEEKERS', source: 'vector' });
+    expect(graphClient.getNeighbourhood).toHaveBeenCalledWith('IE_BENEFIT_JOBSEEKERS', asOf);
+
+    const condition = results.find(node => node.id === 'IE_COND_PRSI_104');
+    const timeline = results.find(node => node.id === 'IE_TIMELINE_LOOKBACK_2Y');
+    expect(condition).toMatchObject({ source: 'graph', score: expect.closeTo(results[0].score * 0.6, 5) });
+    expect(timeline).toMatchObject({ source: 'graph', score: expect.closeTo(results[0].score * 0.3, 5) });
+    expect(results.map(node => node.id)).not.toContain('IE');
+  });
+
+  it('drops nodes from other jurisdictions and profiles', async () => {
+    const { retriever } = createRetriever();
+
+    const ieOnly = await retriever.retrieve({ text: 'unemployment benefit', jurisdictions: ['IE'] });
+    expect(ieOnly.map(node => node.id)).not.toContain('UK_BENEFIT_JSA');
+
+    const investor = await retriever.retrieve({
+      text: 'unemployment benefit',
+      jurisdictions: ['IE', 'UK'],
+      profileTagId: 'PROFILE_INVESTOR_IE',
+    });
+    expect(investor.map(node => node.id)).toContain('UK_BENEFIT_JSA');
+    expect(investor.map(node => node.id)).not.toContain('IE_BENEFIT_JOBSEEKERS');
+  });
+
+  it('respects the result limit and builds the index once', async () => {
+    const { graphClient, retriever } = createRetriever();
+
+    const results = await retriever.retrieve({ text: 'unemployment benefit', limit: 2 });
+    await retriever.retrieve({ text: 'capital gains on shares' });
+
+    expect(results).toHaveLength(2);
+    expect(graphClient.executeCypher).toHaveBeenCalledTimes(1);
+  });
+
+  it('never sends text to a remote provider when the tenant disallows remote egress', async () => {
+    const remote: EmbeddingProvider = {
+      id: 'remote:text-embedding-3-small',
+      local: false,
+      embed: vi.fn(),
+    };
+    const { retriever } = createRetriever({ remote, allowRemoteEgress: false });
+
+    const results = await retriever.retrieve({
+      text: 'unemployment benefit',
+      tenantId: 'tenant-local',
+      jurisdictions: ['IE'],
+    });
+
+    expect(results[0].id).toBe('IE_BENEFIT_JOBSEEKERS');
+    expect(remote.embed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Hybrid vector + graph retriever
+ *
+ * Finds seed nodes by embedding similarity, so paraphrased questions still
+ * match, then expands the best seeds through `getNeighbourhood` so the rules,
+ * conditions and timelines around them are retrieved too. Neighbours inherit
+ * a decayed score from the seed that reached them. Results are filtered to
+ * the requested jurisdictions and profile.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type {
+  GraphClient,
+  GraphContext,
+  GraphRetrievalQuery,
+  GraphRetriever,
+  RetrievedGraphNode,
+} from '../types.js';
+import {
+  selectEmbeddingProvider,
+  type EmbeddingPolicySource,
+  type EmbeddingProviderSet,
+} from './embeddingProviders.js';
+import {
+  isRetrievableNodeType,
+  type GraphEmbeddingDocument,
+  type GraphEmbeddingIndex,
+} from './graphEmbeddingIndex.js';
+
+/**
+ * Configuration for HybridGraphRetriever
+ */
+export interface HybridGraphRetrieverConfig {
+  graphClient: Pick<GraphClient, 'getNeighbourhood'>;
+  index: GraphEmbeddingIndex;
+  providers: EmbeddingProviderSet;
+  /** Tenant LLM policies; tenants with `allowRemoteEgress: false` get the local provider */
+  policySource?: EmbeddingPolicySource;
+  /** Vector matches considered before expansion (default: 8) */
+  seedLimit?: number;
+  /** Seeds expanded through getNeighbourhood (default: 3) */
+  expandSeeds?: number;
+  /** Minimum similarity for a vector match (default: 0.15) */
+  minSimilarity?: number;
+  /** Score multiplier for direct neighbours of a seed (default: 0.6) */
+  neighbourDecay?: number;
+  /** Score multiplier for neighbours two hops from a seed (default: 0.3) */
+  secondHopDecay?: number;
+}
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Hop distance from a seed to each node in its neighbourhood
+ */
+function hopDistances(seedId: string, context: GraphContext): Map<string, number> {
+  const distances = new Map<string, number>([[seedId, 0]]);
+  const adjacency = new Map<string, string[]>();
+  for (const edge of context.edges) {
+    adjacency.set(edge.source, [...(adjacency.get(edge.source) ?? []), edge.target]);
+    adjacency.set(edge.target, [...(adjacency.get(edge.target) ?? []), edge.source]);
+  }
+
+  const queue = [seedId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const distance = distances.get(current)!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (!distances.has(next)) {
+        distances.set(next, distance + 1);
+        queue.push(next);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Ranks graph nodes for a question using embeddings and graph structure
+ */
+export class HybridGraphRetriever implements GraphRetriever {
+  private config: Required<Omit<HybridGraphRetrieverConfig, 'policySource'>> &
+    Pick<HybridGraphRetrieverConfig, 'policySource'>;
+  private logger = createLogger('HybridGraphRetriever', { component: 'Retrieval' });
+
+  constructor(config: HybridGraphRetrieverConfig) {
+    this.config = {
+      seedLimit: 8,
+      expandSeeds: 3,
+      minSimilarity: 0.15,
+      neighbourDecay: 0.6,
+      secondHopDecay: 0.3,
+      ...config,
+    };
+  }
+
+  async retrieve(query: GraphRetrievalQuery): Promise<RetrievedGraphNode[]> {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const provider = await selectEmbeddingProvider(this.config.providers, query.tenantId, this.config.policySource);
+    const store = await this.config.index.getStore(provider);
+    const [vector] = await provider.embed([query.text]);
+
+    const matches = (document: GraphEmbeddingDocument) => this.matchesFilters(document, query);
+    const seeds = store
+      .search(vector, this.config.seedLimit, matches)
+      .filter(hit => hit.similarity >= this.config.minSimilarity);
+
+    const results = new Map<string, RetrievedGraphNode>();
+    const offer = (node: RetrievedGraphNode) => {
+      const existing = results.get(node.id);
+      if (!existing || existing.score < node.score) {
+        results.set(node.id, existing?.source === 'vector' ? { ...node, source: 'vector' } : node);
+      }
+    };
+
+    for (const seed of seeds) {
+      offer({
+        id: seed.document.id,
+        label: seed.document.label,
+        type: seed.document.type,
+        score: seed.similarity,
+        source: 'vector',
+      });
+    }
+
+    await Promise.all(
+      seeds.slice(0, this.config.expandSeeds).map(async seed => {
+        let context: GraphContext;
+        try {
+          context = await this.config.graphClient.getNeighbourhood(seed.document.id, query.asOf);
+        } catch (error) {
+          this.logger.warn(
+            { nodeId: seed.document.id, error: error instanceof Error ? error.message : String(error) },
+            'Neighbourhood expansion failed; using vector match only'
+          );
+          return;
+        }
+
+        const distances = hopDistances(seed.document.id, context);
+        for (const node of context.nodes) {
+          const distance = distances.get(node.id);
+          if (!distance || distance > 2) continue;
+
+          const indexed = store.get(node.id);
+          if (indexed ? !matches(indexed) : !isRetrievableNodeType(node.type)) continue;
+
+          const decay = distance === 1 ? this.config.neighbourDecay : this.config.secondHopDecay;
+          offer({
+            id: node.id,
+            label: node.label,
+            type: node.type,
+            score: seed.similarity * decay,
+            source: 'graph',
+          });
+        }
+      })
+    );
+
+    const ranked = [...results.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+
+    this.logger.debug(
+      { provider: provider.id, seeds: seeds.length, returned: ranked.length },
+      'Hybrid graph retrieval completed'
+    );
+    return ranked;
+  }
+
+  private matchesFilters(document: GraphEmbeddingDocument, query: GraphRetrievalQuery): boolean {
+    if (!isRetrievableNodeType(document.type)) {
+      return false;
+    }
+    if (
+      query.jurisdictions?.length &&
+      document.jurisdictions.length > 0 &&
+      !document.jurisdictions.some(id => query.jurisdictions!.includes(id))
+    ) {
+      return false;
+    }
+    if (query.profileTagId && document.profileTags.length > 0 && !document.profileTags.includes(query.profileTagId)) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Create a HybridGraphRetriever instance
+ */
+export function createHybridGraphRetriever(config: HybridGraphRetrieverConfig): HybridGraphRetriever {
+  return new HybridGraphRetriever(config);
+}
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EligibilityRuleSet, GraphClient, Rate, Scenario, TaxYearRates } from '../types.js';
+import { compareScenarios, formatScenarioComparisonForPrompt } from './scenarioComparison.js';
+
+const asOf = new Date('2024-06-01T00:00:00Z');
+
+function rate(id: string, category: string, percentage: number, extra: Partial<Rate> = {}): Rate {
+  return { id, label: id, percentage, category, currency: 'EUR', effective_from: '2024-01-01T00:00:00Z', ...extra };
+}
+
+const ieRates: TaxYearRates = {
+  rates: [
+    rate('IE_INCOME_TAX_STANDARD_2024', 'INCOME_TAX', 20, { band_lower: 0, band_upper: 42000 }),
+    rate('IE_INCOME_TAX_HIGHER_2024', 'INCOME_TAX', 40, { band_lower: 42000 }),
+    rate('IE_USC_BAND_1_2024', 'USC', 0.5, { band_lower: 0, band_upper: 12012 }),
+    rate('IE_USC_BAND_2_2024', 'USC', 2, { band_lower: 12012, band_upper: 25760 }),
+    rate('IE_USC_BAND_3_2024', 'USC', 4, { band_lower: 25760, band_upper: 70044 }),
+    rate('IE_USC_BAND_4_2024', 'USC', 8, { band_lower: 70044 }),
+    rate('IE_PRSI_CLASS_A_2024', 'PRSI', 4.1, { contribution_class: 'A' }),
+    rate('IE_PRSI_CLASS_S_2024', 'PRSI', 4, { contribution_class: 'S' }),
+    rate('IE_PRSI_EMPLOYER_CLASS_A_2024', 'PRSI_EMPLOYER', 11.05, { contribution_class: 'A' }),
+    rate('IE_CORPORATION_TAX_TRADING_2024', 'CORPORATION_TAX', 12.5),
+  ],
+  thresholds: [],
+  credits: [],
+};
+
+const illnessRules: EligibilityRuleSet = {
+  benefit: { id: 'IE_BENEFIT_ILLNESS', label: 'Illness Benefit', type: 'Benefit', properties: {} },
+  conditions: [
+    {
+      condition: { id: 'IE_COND_PRSI_CLASS_A', label: 'PRSI Class A contributor', fact: 'prsiClass', operator: 'IN', value: ['A'] },
+      thresholds: [],
+      lookbacks: [],
+    },
+  ],
+  thresholds: [],
+  lookbacks: [],
+  meansTest: null,
+  exclusions: [],
+};
+
+const salaryScenario: Scenario = {
+  id: 'salary',
+  name: 'All salary',
+  facts: { profile: { hasCompany: true, prsiClass: 'A' }, income: { salary: 60000 }, companyProfit: 100000 },
+};
+
+const dividendScenario: Scenario = {
+  id: 'dividends',
+  name: 'Salary and dividends',
+  facts: {
+    profile: { hasCompany: true, prsiClass: 'S' },
+    income: { salary: 20000, dividends: 30000 },
+    companyProfit: 100000,
+  },
+};
+
+function createGraphClient(): GraphClient {
+  return {
+    getRatesForTaxYear: vi.fn().mockResolvedValue(ieRates),
+    getEligibilityRules: vi.fn().mockResolvedValue(illnessRules),
+  } as unknown as GraphClient;
+}
+
+function row(comparison: Awaited<ReturnType<typeof compareScenarios>>, key: string) {
+  return comparison.rows.find(candidate => candidate.key === key)!.cells.map(cell => cell.value);
+}
+
+describe('compareScenarios', () => {
+  it('calculates personal and company taxes for each scenario side by side', async () => {
+    const graphClient = createGraphClient();
+
+    const comparison = await compareScenarios(graphClient, [salaryScenario, dividendScenario], {
+      profile: { personaType: 'single-director', jurisdictions: ['IE'] },
+      benefitIds: ['IE_BENEFIT_ILLNESS'],
+      asOf,
+    });
+
+    expect(comparison.taxYear).toBe(2024);
+    expect(comparison.columns.map(column => column.name)).toEqual(['All salary', 'Salary and dividends']);
+    expect(row(comparison, 'income_tax')).toEqual([15600, 11600]);
+    expect(row(comparison, 'usc')).toEqual([1704.62, 1304.62]);
+    expect(row(comparison, 'social_insurance')).toEqual([2460, 2000]);
+    expect(row(comparison, 'employer_contributions')).toEqual([6630, 0]);
+    expect(row(comparison, 'corporation_tax')).toEqual([4171.25, 10000]);
+    expect(row(comparison, 'take_home')).toEqual([40235.38, 35095.38]);
+    expect(row(comparison, 'retained_profit')).toEqual([29198.75, 40000]);
+    expect(row(comparison, 'eligibility:IE_BENEFIT_ILLNESS')).toEqual(['pass', 'fail']);
+    expect(comparison.bestScenarioId).toBe('salary');
+    expect(comparison.sourceNodeIds).toEqual(
+      expect.arrayContaining(['IE_CORPORATION_TAX_TRADING_2024', 'IE_PRSI_EMPLOYER_CLASS_A_2024', 'IE_BENEFIT_ILLNESS'])
+    );
+    // Rates are loaded once per jurisdiction and year
+    expect(graphClient.getRatesForTaxYear).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports scenarios that cannot be calculated without failing the others', async () => {
+    const comparison = await compareScenarios(
+      createGraphClient(),
+      [salaryScenario, { id: 'fr', name: 'Move to France', facts: { profile: { jurisdictions: ['FR'] }, income: { salary: 60000 } } }],
+      { asOf, benefitIds: [] }
+    );
+
+    expect(comparison.errors).toEqual([
+      { scenarioId: 'fr', message: expect.stringContaining('not FR') },
+    ]);
+    expect(row(comparison, 'take_home')).toEqual([40235.38, null]);
+    expect(comparison.bestScenarioId).toBeUndefined();
+  });
+
+  it('notes when a company scenario has no company profit', async () => {
+    const comparison = await compareScenarios(
+      createGraphClient(),
+      [{ id: 'director', name: 'Director', facts: { profile: { hasCompany: true }, income: { salary: 40000 } } }],
+      { asOf, benefitIds: [] }
+    );
+
+    expect(comparison.rows.some(candidate => candidate.key === 'corporation_tax')).toBe(false);
+    expect(comparison.notes).toContain(
+      'Director: Company profit not given: corporation tax and employer contributions are not included.'
+    );
+  });
+
+  it('falls back to the latest tax year with rates and says so', async () => {
+    const graphClient = {
+      getRatesForTaxYear: vi
+        .fn()
+        .mockImplementation(async (taxYear: number) =>
+          taxYear === 2024 ? ieRates : { rates: [], thresholds: [], credits: [] }
+        ),
+      getEligibilityRules: vi.fn().mockResolvedValue(illnessRules),
+    } as unknown as GraphClient;
+
+    const comparison = await compareScenarios(graphClient, [salaryScenario], {
+      asOf: new Date('2026-03-01T00:00:00Z'),
+      benefitIds: [],
+    });
+
+    expect(comparison.taxYear).toBe(2024);
+    expect(comparison.errors).toEqual([]);
+    expect(comparison.notes).toContain(
+      'All salary: No rates for IE tax year 2026 in the graph; used 2024, the latest year with rates.'
+    );
+  });
+
+  it('uses the income tax bands for the scenario\'s personal circumstances', async () => {
+    const graphClient = {
+      getRatesForTaxYear: vi.fn().mockResolvedValue({
+        ...ieRates,
+        rates: [
+          ...ieRates.rates,
+          rate('IE_INCOME_TAX_STANDARD_MARRIED_2024', 'INCOME_TAX', 20, {
+            band_lower: 0,
+            band_upper: 51000,
+            personal_status: 'MARRIED',
+          }),
+          rate('IE_INCOME_TAX_HIGHER_MARRIED_2024', 'INCOME_TAX', 40, { band_lower: 51000, personal_status: 'MARRIED' }),
+        ],
+      }),
+      getEligibilityRules: vi.fn().mockResolvedValue(illnessRules),
+    } as unknown as GraphClient;
+
+    const comparison = await compareScenarios(
+      graphClient,
+      [
+        salaryScenario,
+        { id: 'married', name: 'Married', facts: { ...salaryScenario.facts, personalCircumstances: 'married' } },
+      ],
+      { asOf, benefitIds: [] }
+    );
+
+    expect(row(comparison, 'income_tax')).toEqual([15600, 13800]);
+  });
+
+  it('rejects more scenarios than can be compared at once', async () => {
+    const scenarios = Array.from({ length: 6 }, (_, index) => ({ ...salaryScenario, id: `s${index}` }));
+
+    await expect(compareScenarios(createGraphClient(), scenarios, { asOf })).rejects.toThrow('At most 5 scenarios');
+  });
+});
+
+describe('formatScenarioComparisonForPrompt', () => {
+  it('renders the comparison as a markdown table', async () => {
+    const comparison = await compareScenarios(createGraphClient(), [salaryScenario, dividendScenario], {
+      benefitIds: ['IE_BENEFIT_ILLNESS'],
+      asOf,
+    });
+
+    const prompt = formatScenarioComparisonForPrompt(comparison);
+
+    expect(prompt).toContain('| | All salary | Salary and dividends |');
+    expect(prompt).toContain('| Take-home income | 40,235.38 EUR | 35,095.38 EUR |');
+    expect(prompt).toContain('| Illness Benefit | pass | fail |');
+    expect(prompt).toContain('Highest take-home income: All salary');
+  });
+});
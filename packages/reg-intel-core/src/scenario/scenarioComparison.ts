@@ -0,0 +1,477 @@
+/**
+ * Scenario Comparison for Regulatory Intelligence Copilot
+ *
+ * Runs the same deterministic tax, contribution and eligibility calculations
+ * for several named fact sets ("salary vs dividends", "sole trader vs
+ * company") and lines the results up in a comparison table. Figures come
+ * from the graph's rates for the tax year via the calculators in
+ * reg-intel-llm; eligibility comes from the eligibility evaluator.
+ */
+
+import {
+  calculateCorporationTax,
+  calculateEmployerContributions,
+  calculateIrishIncomeTax,
+  calculateUkIncomeTax,
+  type TaxCalculationResult,
+} from '@reg-copilot/reg-intel-llm';
+import type {
+  EligibilityEvaluation,
+  EligibilityFacts,
+  GraphClient,
+  Scenario,
+  ScenarioComparison,
+  ScenarioComparisonCell,
+  ScenarioComparisonColumn,
+  ScenarioComparisonOptions,
+  ScenarioComparisonRow,
+  TaxYearRates,
+} from '../types.js';
+import { MAX_SCENARIOS } from '../constants.js';
+import { ComplianceError, getErrorMessage } from '../errors.js';
+import { evaluateBenefitEligibility } from '../eligibility/eligibilityEvaluator.js';
+import { getTaxYear } from '../timeline/timelineEngine.js';
+
+/**
+ * Benefits checked when the caller does not name any, by jurisdiction
+ */
+const DEFAULT_BENEFIT_IDS: Record<string, string[]> = {
+  IE: ['IE_BENEFIT_ILLNESS', 'IE_BENEFIT_JOBSEEKERS_SE', 'IE_BENEFIT_STATE_PENSION_CONTRIBUTORY'],
+  UK: ['UK_BENEFIT_STATE_PENSION'],
+};
+
+const SUPPORTED_JURISDICTIONS = ['IE', 'UK'];
+
+/**
+ * How many years back the default tax year looks for rates in the graph
+ */
+const MAX_TAX_YEAR_FALLBACK = 5;
+
+/**
+ * Results of one scenario, before they are laid out as table cells
+ */
+interface ScenarioOutcome {
+  column: ScenarioComparisonColumn;
+  grossIncome: number;
+  personal: TaxCalculationResult;
+  employer?: TaxCalculationResult;
+  corporation?: TaxCalculationResult;
+  retainedProfit?: number;
+  /** Base of the effective rate: company profit when given, else gross income */
+  preTaxTotal: number;
+  eligibility: Map<string, EligibilityEvaluation>;
+  notes: string[];
+}
+
+function sum(values: Array<number | undefined>): number {
+  return Math.round(values.reduce<number>((total, value) => total + (value ?? 0), 0) * 100) / 100;
+}
+
+function componentTotal(result: TaxCalculationResult | undefined, names: string[]): number | null {
+  if (!result) {
+    return null;
+  }
+  const parts = result.components.filter(part => names.some(name => part.name.startsWith(name)));
+  return parts.length > 0 ? sum(parts.map(part => part.amount)) : null;
+}
+
+function componentNodeIds(result: TaxCalculationResult | undefined, names: string[]): string[] {
+  return (result?.components ?? [])
+    .filter(part => names.some(name => part.name.startsWith(name)))
+    .flatMap(part => part.steps.flatMap(step => (step.nodeId ? [step.nodeId] : [])));
+}
+
+/**
+ * Tax year starting in the year of `asOf` in the jurisdiction's calendar
+ */
+function defaultTaxYear(asOf: Date, jurisdiction: string): number {
+  return getTaxYear(asOf, jurisdiction).start.getUTCFullYear();
+}
+
+/**
+ * Tax year and rates to calculate with: the requested year, or by default
+ * the tax year containing asOf, falling back to the latest earlier year the
+ * graph has rates for (seeds lag behind the calendar)
+ */
+async function resolveTaxYear(
+  options: ScenarioComparisonOptions & { asOf: Date },
+  jurisdiction: string,
+  loadRates: (jurisdiction: string, taxYear: number) => Promise<TaxYearRates>
+): Promise<{ taxYear: number; data: TaxYearRates; notes: string[] }> {
+  if (options.taxYear !== undefined) {
+    return { taxYear: options.taxYear, data: await loadRates(jurisdiction, options.taxYear), notes: [] };
+  }
+
+  const currentYear = defaultTaxYear(options.asOf, jurisdiction);
+  for (let taxYear = currentYear; taxYear >= currentYear - MAX_TAX_YEAR_FALLBACK; taxYear--) {
+    const data = await loadRates(jurisdiction, taxYear);
+    if (data.rates.length > 0) {
+      const notes =
+        taxYear === currentYear
+          ? []
+          : [`No rates for ${jurisdiction} tax year ${currentYear} in the graph; used ${taxYear}, the latest year with rates.`];
+      return { taxYear, data, notes };
+    }
+  }
+
+  // No recent year has rates: the calculators report the missing rates
+  return { taxYear: currentYear, data: await loadRates(jurisdiction, currentYear), notes: [] };
+}
+
+async function evaluateScenario(
+  graphClient: GraphClient,
+  scenario: Scenario,
+  options: ScenarioComparisonOptions & { asOf: Date },
+  loadRates: (jurisdiction: string, taxYear: number) => Promise<TaxYearRates>
+): Promise<ScenarioOutcome & { taxYear: number }> {
+  const { facts } = scenario;
+  const jurisdiction = (
+    facts.profile?.jurisdictions?.[0] ?? options.profile?.jurisdictions?.[0] ?? 'IE'
+  ).toUpperCase();
+  if (!SUPPORTED_JURISDICTIONS.includes(jurisdiction)) {
+    throw new ComplianceError(`Scenarios can only be calculated for ${SUPPORTED_JURISDICTIONS.join(' and ')}, not ${jurisdiction}`);
+  }
+
+  const { taxYear, data, notes } = await resolveTaxYear(options, jurisdiction, loadRates);
+  const hasCompany = facts.profile?.hasCompany ?? options.profile?.hasCompany ?? false;
+  const salary = facts.income.salary ?? 0;
+  const dividends = facts.income.dividends ?? 0;
+  const selfEmployedProfits = facts.income.selfEmployedProfits ?? 0;
+  const grossIncome = sum([salary, dividends, selfEmployedProfits]);
+
+  // Personal taxes
+  let personal: TaxCalculationResult;
+  let contributionClass: string | undefined;
+  if (jurisdiction === 'IE') {
+    contributionClass = (
+      facts.profile?.prsiClass ??
+      options.profile?.prsiClass ??
+      (hasCompany || selfEmployedProfits > 0 ? 'S' : 'A')
+    ).toUpperCase();
+    personal = calculateIrishIncomeTax(
+      {
+        taxYear,
+        grossIncome,
+        prsiClass: contributionClass,
+        personalCircumstances: facts.personalCircumstances,
+        taxCreditIds: facts.taxCreditIds,
+      },
+      data
+    );
+  } else {
+    const niClass = salary === 0 && selfEmployedProfits > 0 ? '4' : '1';
+    if (salary > 0 && selfEmployedProfits > 0) {
+      notes.push('Salary and self-employed profits were both charged Class 1 NI.');
+    }
+    contributionClass = salary > 0 || selfEmployedProfits > 0 ? niClass : undefined;
+    personal = calculateUkIncomeTax(
+      { taxYear, grossIncome: salary + selfEmployedProfits, dividends, niClass },
+      data
+    );
+  }
+  notes.push(...personal.notes);
+
+  // Company taxes, when the scenario says what the company made
+  let employer: TaxCalculationResult | undefined;
+  let corporation: TaxCalculationResult | undefined;
+  let retainedProfit: number | undefined;
+  if (hasCompany && facts.companyProfit !== undefined) {
+    if (salary > 0 && !(jurisdiction === 'IE' && contributionClass === 'S')) {
+      employer = calculateEmployerContributions(
+        { jurisdiction, taxYear, salary, contributionClass: jurisdiction === 'UK' ? '1' : contributionClass ?? 'A' },
+        data
+      );
+    } else if (salary > 0) {
+      notes.push('No employer PRSI on a Class S proprietary director\'s salary.');
+    }
+    corporation = calculateCorporationTax(
+      { jurisdiction, taxYear, profits: facts.companyProfit - salary - (employer?.total ?? 0) },
+      data
+    );
+    retainedProfit = sum([corporation.net, -dividends]);
+    if (retainedProfit < 0) {
+      notes.push('Dividends are more than the company\'s profits after tax.');
+    }
+  } else if (hasCompany) {
+    notes.push('Company profit not given: corporation tax and employer contributions are not included.');
+  }
+
+  // Eligibility with the scenario's contribution class and income
+  const eligibility = new Map<string, EligibilityEvaluation>();
+  const benefitIds = options.benefitIds ?? DEFAULT_BENEFIT_IDS[jurisdiction] ?? [];
+  const eligibilityFacts: EligibilityFacts = {
+    ...facts.eligibility,
+    prsiClass:
+      jurisdiction === 'UK' && contributionClass ? `UK_NI_CLASS_${contributionClass}` : contributionClass,
+    annualIncome: grossIncome,
+  };
+  for (const benefitId of benefitIds.filter(id => id.startsWith(`${jurisdiction}_`))) {
+    const evaluation = await evaluateBenefitEligibility(graphClient, benefitId, eligibilityFacts, options.asOf);
+    if (evaluation) {
+      eligibility.set(benefitId, evaluation);
+    }
+  }
+
+  return {
+    taxYear,
+    column: { scenarioId: scenario.id, name: scenario.name, jurisdiction, currency: personal.currency },
+    grossIncome,
+    personal,
+    employer,
+    corporation,
+    retainedProfit,
+    preTaxTotal: hasCompany && facts.companyProfit !== undefined ? facts.companyProfit : grossIncome,
+    eligibility,
+    notes: notes.map(note => `${scenario.name}: ${note}`),
+  };
+}
+
+function amountRow(
+  key: string,
+  label: string,
+  outcomes: Array<ScenarioOutcome | null>,
+  cell: (outcome: ScenarioOutcome) => ScenarioComparisonCell,
+  higherIsBetter?: boolean
+): ScenarioComparisonRow {
+  return {
+    key,
+    label,
+    kind: 'amount',
+    cells: outcomes.map(outcome => (outcome ? cell(outcome) : { value: null })),
+    higherIsBetter,
+  };
+}
+
+/**
+ * Compare scenarios: income tax, USC, PRSI/NI, employer contributions,
+ * corporation tax, take-home income and benefit eligibility for each.
+ * Scenarios that cannot be calculated (e.g. missing rates) are reported in
+ * `errors` with empty cells rather than failing the comparison.
+ */
+export async function compareScenarios(
+  graphClient: GraphClient,
+  scenarios: Scenario[],
+  options: ScenarioComparisonOptions = {}
+): Promise<ScenarioComparison> {
+  if (scenarios.length === 0) {
+    throw new ComplianceError('No scenarios to compare');
+  }
+  if (scenarios.length > MAX_SCENARIOS) {
+    throw new ComplianceError(`At most ${MAX_SCENARIOS} scenarios can be compared at once`);
+  }
+  if (!graphClient.getRatesForTaxYear) {
+    throw new ComplianceError('Graph client cannot load tax year rates');
+  }
+
+  const asOf = options.asOf ?? new Date();
+  const rateCache = new Map<string, Promise<TaxYearRates>>();
+  const loadRates = (jurisdiction: string, taxYear: number) => {
+    const key = `${jurisdiction}|${taxYear}`;
+    if (!rateCache.has(key)) {
+      rateCache.set(key, graphClient.getRatesForTaxYear!(taxYear, jurisdiction, options.asOf));
+    }
+    return rateCache.get(key)!;
+  };
+
+  const errors: ScenarioComparison['errors'] = [];
+  const outcomes: Array<(ScenarioOutcome & { taxYear: number }) | null> = [];
+  for (const scenario of scenarios) {
+    try {
+      outcomes.push(await evaluateScenario(graphClient, scenario, { ...options, asOf }, loadRates));
+    } catch (error) {
+      errors.push({ scenarioId: scenario.id, message: getErrorMessage(error) });
+      outcomes.push(null);
+    }
+  }
+
+  const columns = scenarios.map(
+    (scenario, index): ScenarioComparisonColumn =>
+      outcomes[index]?.column ?? { scenarioId: scenario.id, name: scenario.name, jurisdiction: '', currency: '' }
+  );
+  const calculated = outcomes.filter((outcome): outcome is ScenarioOutcome & { taxYear: number } => outcome !== null);
+  const taxYear = options.taxYear ?? calculated[0]?.taxYear ?? asOf.getUTCFullYear();
+  const hasCompanyRows = calculated.some(outcome => outcome.corporation);
+
+  const rows: ScenarioComparisonRow[] = [
+    amountRow('gross_income', 'Gross income', outcomes, outcome => ({ value: outcome.grossIncome })),
+    amountRow(
+      'income_tax',
+      'Income tax',
+      outcomes,
+      outcome => ({
+        value: componentTotal(outcome.personal, ['Income tax', 'Dividend tax']),
+        nodeIds: componentNodeIds(outcome.personal, ['Income tax', 'Dividend tax']),
+      }),
+      false
+    ),
+    amountRow(
+      'usc',
+      'USC',
+      outcomes,
+      outcome => ({
+        value: componentTotal(outcome.personal, ['USC']),
+        nodeIds: componentNodeIds(outcome.personal, ['USC']),
+      }),
+      false
+    ),
+    amountRow(
+      'social_insurance',
+      'PRSI / National Insurance',
+      outcomes,
+      outcome => ({
+        value: componentTotal(outcome.personal, ['PRSI', 'National Insurance']) ?? 0,
+        nodeIds: componentNodeIds(outcome.personal, ['PRSI', 'National Insurance']),
+      }),
+      false
+    ),
+  ];
+
+  if (hasCompanyRows) {
+    rows.push(
+      amountRow(
+        'employer_contributions',
+        'Employer PRSI / NI',
+        outcomes,
+        outcome => ({ value: outcome.corporation ? outcome.employer?.total ?? 0 : null, nodeIds: outcome.employer?.sourceNodeIds }),
+        false
+      ),
+      amountRow(
+        'corporation_tax',
+        'Corporation tax',
+        outcomes,
+        outcome => ({ value: outcome.corporation?.total ?? null, nodeIds: outcome.corporation?.sourceNodeIds }),
+        false
+      )
+    );
+  }
+
+  rows.push(
+    amountRow(
+      'total_tax',
+      'Total tax and contributions',
+      outcomes,
+      outcome => ({ value: sum([outcome.personal.total, outcome.employer?.total, outcome.corporation?.total]) }),
+      false
+    ),
+    amountRow('take_home', 'Take-home income', outcomes, outcome => ({ value: outcome.personal.net ?? null }), true)
+  );
+
+  if (hasCompanyRows) {
+    rows.push(
+      amountRow('retained_profit', 'Profit retained in company', outcomes, outcome => ({ value: outcome.retainedProfit ?? null }), true)
+    );
+  }
+
+  rows.push({
+    key: 'effective_rate',
+    label: 'Effective tax rate',
+    kind: 'percent',
+    cells: outcomes.map(outcome => {
+      if (!outcome || outcome.preTaxTotal <= 0) {
+        return { value: null };
+      }
+      const total = sum([outcome.personal.total, outcome.employer?.total, outcome.corporation?.total]);
+      return { value: Math.round((total / outcome.preTaxTotal) * 10000) / 100 };
+    }),
+    higherIsBetter: false,
+  });
+
+  // One row per benefit checked for any scenario, in first-seen order
+  const benefits = new Map<string, string>();
+  calculated.forEach(outcome =>
+    outcome.eligibility.forEach((evaluation, benefitId) => {
+      if (!benefits.has(benefitId)) {
+        benefits.set(benefitId, evaluation.benefitLabel);
+      }
+    })
+  );
+  benefits.forEach((label, benefitId) => {
+    rows.push({
+      key: `eligibility:${benefitId}`,
+      label,
+      kind: 'eligibility',
+      cells: outcomes.map(outcome => {
+        const evaluation = outcome?.eligibility.get(benefitId);
+        return evaluation
+          ? { value: evaluation.status, nodeIds: evaluation.unmet.map(check => check.nodeId) }
+          : { value: null };
+      }),
+    });
+  });
+
+  // Best take-home is only meaningful when every scenario uses the same currency
+  const currencies = new Set(calculated.map(outcome => outcome.column.currency));
+  const best =
+    currencies.size === 1 && calculated.length > 1
+      ? calculated.reduce((top, outcome) => ((outcome.personal.net ?? 0) > (top.personal.net ?? 0) ? outcome : top))
+      : undefined;
+
+  const sourceNodeIds = new Set<string>();
+  calculated.forEach(outcome => {
+    [outcome.personal, outcome.employer, outcome.corporation].forEach(result =>
+      result?.sourceNodeIds.forEach(id => sourceNodeIds.add(id))
+    );
+    outcome.eligibility.forEach(evaluation => sourceNodeIds.add(evaluation.benefitId));
+  });
+
+  return {
+    taxYear,
+    columns,
+    rows,
+    bestScenarioId: best?.column.scenarioId,
+    sourceNodeIds: Array.from(sourceNodeIds),
+    notes: Array.from(new Set(calculated.flatMap(outcome => outcome.notes))),
+    errors,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function formatCell(row: ScenarioComparisonRow, cell: ScenarioComparisonCell, currency: string): string {
+  if (cell.value === null) {
+    return '—';
+  }
+  if (row.kind === 'eligibility') {
+    return String(cell.value);
+  }
+  const value = Number(cell.value).toLocaleString('en-IE', { maximumFractionDigits: 2 });
+  return row.kind === 'percent' ? `${value}%` : `${value} ${currency}`;
+}
+
+/**
+ * Format a comparison as a markdown table for inclusion in an agent prompt
+ */
+export function formatScenarioComparisonForPrompt(comparison: ScenarioComparison): string {
+  const header = `| | ${comparison.columns.map(column => column.name).join(' | ')} |`;
+  const divider = `|---|${comparison.columns.map(() => '---').join('|')}|`;
+  const rows = comparison.rows.map(
+    row =>
+      `| ${row.label} | ${row.cells
+        .map((cell, index) => formatCell(row, cell, comparison.columns[index].currency))
+        .join(' | ')} |`
+  );
+
+  const lines = [
+    `Scenario Comparison (deterministic, tax year ${comparison.taxYear}, from the graph's rates; ` +
+      'the user sees this table, so refer to its figures instead of recalculating):',
+    header,
+    divider,
+    ...rows,
+  ];
+  if (comparison.bestScenarioId) {
+    const best = comparison.columns.find(column => column.scenarioId === comparison.bestScenarioId);
+    lines.push(`Highest take-home income: ${best?.name}`);
+  }
+  if (comparison.notes.length > 0) {
+    lines.push('Notes:', ...comparison.notes.map(note => `- ${note}`));
+  }
+  if (comparison.errors.length > 0) {
+    lines.push(
+      'Not calculated:',
+      ...comparison.errors.map(error => {
+        const name = comparison.columns.find(column => column.scenarioId === error.scenarioId)?.name;
+        return `- ${name ?? error.scenarioId}: ${error.message}`;
+      })
+    );
+  }
+  return lines.join('\n');
+}
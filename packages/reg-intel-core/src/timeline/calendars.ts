@@ -0,0 +1,78 @@
+/**
+ * Jurisdiction calendars for the Timeline Engine
+ *
+ * Tax year boundaries, weekends and public holidays used for business-day
+ * arithmetic and deadline roll-forward. Holidays are shipped as data (observed
+ * dates, including substitute days when a holiday falls on a weekend) and need
+ * a new year appended as each one is announced.
+ */
+
+import type { JurisdictionCalendar } from '../types.js';
+
+/**
+ * Ireland: calendar tax year, public holidays per the Organisation of Working
+ * Time Act 1997 (as amended for St Brigid's Day). Revenue deadlines falling on
+ * a weekend or public holiday move to the next working day.
+ */
+const IE_CALENDAR: JurisdictionCalendar = {
+  jurisdiction: 'IE',
+  taxYearStart: { month: 1, day: 1 },
+  weekendDays: [0, 6],
+  rollDeadlinesForward: true,
+  publicHolidays: [
+    '2024-01-01', '2024-02-05', '2024-03-18', '2024-04-01', '2024-05-06',
+    '2024-06-03', '2024-08-05', '2024-10-28', '2024-12-25', '2024-12-26',
+    '2025-01-01', '2025-02-03', '2025-03-17', '2025-04-21', '2025-05-05',
+    '2025-06-02', '2025-08-04', '2025-10-27', '2025-12-25', '2025-12-26',
+    '2026-01-01', '2026-02-02', '2026-03-17', '2026-04-06', '2026-05-04',
+    '2026-06-01', '2026-08-03', '2026-10-26', '2026-12-25', '2026-12-28',
+    '2027-01-01', '2027-02-01', '2027-03-17', '2027-03-29', '2027-05-03',
+    '2027-06-07', '2027-08-02', '2027-10-25', '2027-12-27', '2027-12-28',
+  ],
+};
+
+/**
+ * United Kingdom: tax year from 6 April, England and Wales bank holidays. HMRC
+ * deadlines are not extended when they fall on a weekend or bank holiday.
+ */
+const UK_CALENDAR: JurisdictionCalendar = {
+  jurisdiction: 'UK',
+  taxYearStart: { month: 4, day: 6 },
+  weekendDays: [0, 6],
+  rollDeadlinesForward: false,
+  publicHolidays: [
+    '2024-01-01', '2024-03-29', '2024-04-01', '2024-05-06', '2024-05-27',
+    '2024-08-26', '2024-12-25', '2024-12-26',
+    '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-05', '2025-05-26',
+    '2025-08-25', '2025-12-25', '2025-12-26',
+    '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04', '2026-05-25',
+    '2026-08-31', '2026-12-25', '2026-12-28',
+    '2027-01-01', '2027-03-26', '2027-03-29', '2027-05-03', '2027-05-31',
+    '2027-08-30', '2027-12-27', '2027-12-28',
+  ],
+};
+
+/**
+ * Calendars keyed by jurisdiction code
+ */
+export const JURISDICTION_CALENDARS: Record<string, JurisdictionCalendar> = {
+  IE: IE_CALENDAR,
+  UK: UK_CALENDAR,
+  GB: UK_CALENDAR,
+};
+
+/**
+ * Get the calendar for a jurisdiction, falling back to a calendar tax year with
+ * weekends only (and no deadline roll-forward) when the jurisdiction has no data
+ */
+export function getJurisdictionCalendar(jurisdiction: string): JurisdictionCalendar {
+  return (
+    JURISDICTION_CALENDARS[jurisdiction.toUpperCase()] ?? {
+      jurisdiction,
+      taxYearStart: { month: 1, day: 1 },
+      weekendDays: [0, 6],
+      publicHolidays: [],
+      rollDeadlinesForward: false,
+    }
+  );
+}
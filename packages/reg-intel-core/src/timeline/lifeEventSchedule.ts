@@ -0,0 +1,29 @@
+/**
+ * Life event schedules loaded from the regulatory graph
+ */
+
+import type { GraphClient, LifeEventSchedule } from '../types.js';
+import { buildLifeEventSchedule } from './timelineEngine.js';
+
+/**
+ * Load the timeline chain in force on the event date and compute its dated
+ * schedule. Returns null when the graph client cannot provide timeline chains or the
+ * life event does not exist.
+ */
+export async function loadLifeEventSchedule(
+  graphClient: GraphClient,
+  lifeEventId: string,
+  eventDate: Date,
+  jurisdiction: string
+): Promise<LifeEventSchedule | null> {
+  if (!graphClient.getLifeEventTimelineChain) {
+    return null;
+  }
+
+  const chain = await graphClient.getLifeEventTimelineChain(lifeEventId, eventDate);
+  if (!chain) {
+    return null;
+  }
+
+  return buildLifeEventSchedule(chain, eventDate, jurisdiction);
+}
@@ -6,16 +6,28 @@
  * - Lock-in period calculations
  * - Date range checks
  * - Edge cases and boundary conditions
+ * - Jurisdiction calendars: tax years, business days, deadlines and schedules
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   computeLookbackRange,
   isWithinLookback,
   computeLockInEnd,
   isLockInActive,
+  getTaxYear,
+  isBusinessDay,
+  addBusinessDays,
+  computeDeadline,
+  countContributions,
+  buildLifeEventSchedule,
 } from './timelineEngine.js';
-import type { Timeline } from '../types.js';
+import { loadLifeEventSchedule } from './lifeEventSchedule.js';
+import type { GraphClient, LifeEventTimelineChain, Timeline } from '../types.js';
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
 
 describe('Timeline Engine', () => {
   describe('computeLookbackRange', () => {
@@ -367,4 +379,193 @@ describe('Timeline Engine', () => {
       });
     });
   });
+
+  describe('getTaxYear', () => {
+    it('should use the calendar year for Ireland', () => {
+      const result = getTaxYear(new Date('2025-06-15'), 'IE');
+
+      expect(result.label).toBe('2025');
+      expect(result.start).toEqual(new Date('2025-01-01'));
+      expect(result.end).toEqual(new Date('2025-12-31'));
+    });
+
+    it('should split the UK tax year on 6 April', () => {
+      expect(getTaxYear(new Date('2025-04-05'), 'UK')).toMatchObject({
+        label: '2024/25',
+        start: new Date('2024-04-06'),
+        end: new Date('2025-04-05'),
+      });
+      expect(getTaxYear(new Date('2025-04-06'), 'UK').label).toBe('2025/26');
+    });
+  });
+
+  describe('business days', () => {
+    it('should exclude weekends and jurisdiction public holidays', () => {
+      expect(isBusinessDay(new Date('2025-03-17'), 'IE')).toBe(false); // St Patrick's Day
+      expect(isBusinessDay(new Date('2025-03-17'), 'UK')).toBe(true);
+      expect(isBusinessDay(new Date('2025-03-18'), 'IE')).toBe(true);
+      expect(isBusinessDay(new Date('2025-03-15'), 'IE')).toBe(false); // Saturday
+    });
+
+    it('should skip holidays and weekends when adding business days', () => {
+      expect(addBusinessDays(new Date('2025-12-23'), 3, 'IE')).toEqual(new Date('2025-12-30'));
+      expect(addBusinessDays(new Date('2025-04-22'), -1, 'IE')).toEqual(new Date('2025-04-18'));
+      expect(addBusinessDays(new Date('2025-04-22'), -1, 'UK')).toEqual(new Date('2025-04-17'));
+    });
+  });
+
+  describe('computeDeadline', () => {
+    const returnDeadline: Timeline = {
+      id: 'IE_CGT_RETURN_DEADLINE',
+      label: '31 October of the year after disposal',
+      window_months: 10,
+      kind: 'DEADLINE',
+      anchor: 'TAX_YEAR_END',
+      day_of_month: 31,
+    };
+
+    it('should roll Irish deadlines that fall on a weekend to the next business day', () => {
+      const result = computeDeadline(new Date('2025-03-01'), returnDeadline, 'IE');
+
+      expect(result.unadjusted).toEqual(new Date('2026-10-31'));
+      expect(result.due).toEqual(new Date('2026-11-02'));
+      expect(result.rolledForward).toBe(true);
+      expect(result.description).toContain('the end of tax year 2025 (2025-12-31)');
+      expect(result.description).toContain('which is not a business day in IE, so it moves to 2026-11-02');
+    });
+
+    it('should not roll UK deadlines and should anchor on the UK tax year', () => {
+      const selfAssessment: Timeline = {
+        id: 'UK_SA_ONLINE_DEADLINE',
+        label: '31 January after the tax year',
+        window_months: 9,
+        anchor: 'TAX_YEAR_END',
+        day_of_month: 31,
+      };
+
+      const result = computeDeadline(new Date('2025-03-01'), selfAssessment, 'UK');
+
+      expect(result.due).toEqual(new Date('2026-01-31'));
+      expect(result.rolledForward).toBe(false);
+    });
+
+    it('should clamp month arithmetic to the end of shorter months', () => {
+      const timeline: Timeline = { id: 'one-month', label: 'One month', window_months: 1 };
+
+      expect(computeDeadline(new Date('2025-01-31'), timeline, 'IE').due).toEqual(new Date('2025-02-28'));
+    });
+
+    it('should count business-day windows over holidays', () => {
+      const timeline: Timeline = { id: 'ten-days', label: 'Ten working days', window_days: 10, business_days: true };
+
+      const result = computeDeadline(new Date('2025-12-19'), timeline, 'IE');
+
+      expect(result.due).toEqual(new Date('2026-01-07'));
+      expect(result.description).toContain('10 business days after the trigger date (2025-12-19)');
+    });
+
+    it('should honour the jurisdiction on the timeline node', () => {
+      const result = computeDeadline(new Date('2025-03-01'), { ...returnDeadline, jurisdictionCode: 'UK' }, 'IE');
+
+      expect(result.rolledForward).toBe(false);
+    });
+
+    it('should handle timeline with no deadline specified', () => {
+      const result = computeDeadline(new Date('2025-03-01'), { id: 'none', label: 'No Window' }, 'IE');
+
+      expect(result.due).toEqual(new Date('2025-03-01'));
+      expect(result.description).toContain('doesn\'t define a concrete deadline');
+    });
+  });
+
+  describe('countContributions', () => {
+    const records = [
+      { date: '2022-06-30', weeks: 26 },
+      { date: '2023-06-30', weeks: 26 },
+      { date: '2023-12-31', weeks: 26, credited: true },
+      { date: '2024-06-30', weeks: 26 },
+      { date: '2025-02-01', weeks: 4 },
+    ];
+
+    it('should count paid and credited weeks in a rolling window', () => {
+      const result = countContributions(records, { years: 2, required: 104 }, new Date('2025-03-01'), 'IE');
+
+      expect(result.count).toBe(82);
+      expect(result.met).toBe(false);
+      expect(result.range).toEqual({ start: new Date('2023-03-01'), end: new Date('2025-03-01') });
+      expect(result.description).toContain('104 are required, so this condition is not met');
+    });
+
+    it('should count complete tax years and optionally exclude credits', () => {
+      const result = countContributions(
+        records,
+        { years: 2, completeTaxYears: true, includeCredited: false },
+        new Date('2025-03-01'),
+        'IE'
+      );
+
+      expect(result.range).toEqual({ start: new Date('2023-01-01'), end: new Date('2024-12-31') });
+      expect(result.count).toBe(52);
+      expect(result.met).toBeUndefined();
+      expect(result.description).toContain('Counted 52 paid contribution weeks in the 2 complete tax years');
+    });
+  });
+
+  describe('buildLifeEventSchedule', () => {
+    const chain: LifeEventTimelineChain = {
+      lifeEvent: { id: 'IE_LIFE_EVENT_START_SELF_EMPLOYMENT', label: 'Starting self-employment', type: 'LifeEvent', properties: {} },
+      starts: [
+        { id: 'IE_PRSI_12_MONTH_LOOKBACK', label: '12-month PRSI lookback', window_months: 12, kind: 'LOOKBACK' },
+        { id: 'IE_REGISTRATION_WINDOW', label: 'Registration window', window_months: 3 },
+      ],
+      ends: [{ id: 'IE_JOBSEEKERS_CLAIM', label: "Jobseeker's claim period" }],
+      deadlines: [
+        {
+          source: { id: 'IE_TAX_REGISTRATION', label: 'Register for income tax', type: 'Obligation', properties: {} },
+          timeline: { id: 'IE_TAX_REGISTRATION_DEADLINE', label: '30 days', window_days: 30, kind: 'DEADLINE' },
+        },
+      ],
+    };
+
+    it('should chain started, ended and triggered deadline timelines into a dated schedule', () => {
+      const schedule = buildLifeEventSchedule(chain, new Date('2025-09-26'), 'IE');
+
+      expect(schedule.entries.map(e => [formatDay(e.date), e.kind, e.timelineId ?? e.sourceId])).toEqual([
+        ['2024-09-26', 'WINDOW_OPENS', 'IE_PRSI_12_MONTH_LOOKBACK'],
+        ['2025-09-26', 'WINDOW_OPENS', 'IE_REGISTRATION_WINDOW'],
+        ['2025-09-26', 'EVENT', 'IE_LIFE_EVENT_START_SELF_EMPLOYMENT'],
+        ['2025-09-26', 'WINDOW_CLOSES', 'IE_JOBSEEKERS_CLAIM'],
+        // 26 October 2025 is a Sunday and 27 October is the October bank holiday
+        ['2025-10-28', 'DEADLINE', 'IE_TAX_REGISTRATION_DEADLINE'],
+        // 26 December 2025 is St Stephen's Day, followed by a weekend
+        ['2025-12-29', 'WINDOW_CLOSES', 'IE_REGISTRATION_WINDOW'],
+      ]);
+      expect(schedule.entries[4]).toMatchObject({
+        label: 'Register for income tax: 30 days',
+        sourceId: 'IE_TAX_REGISTRATION',
+        rolledForward: true,
+      });
+    });
+  });
+
+  describe('loadLifeEventSchedule', () => {
+    it('should return null when the graph client cannot provide timeline chains', async () => {
+      expect(await loadLifeEventSchedule({} as GraphClient, 'IE_LIFE_EVENT_ILLNESS', new Date(), 'IE')).toBeNull();
+    });
+
+    it('should build the schedule from the graph timeline chain', async () => {
+      const getLifeEventTimelineChain = vi.fn().mockResolvedValue({
+        lifeEvent: { id: 'IE_LIFE_EVENT_ILLNESS', label: 'Illness', type: 'LifeEvent', properties: {} },
+        starts: [],
+        ends: [],
+        deadlines: [],
+      });
+      const graphClient = { getLifeEventTimelineChain } as unknown as GraphClient;
+
+      const schedule = await loadLifeEventSchedule(graphClient, 'IE_LIFE_EVENT_ILLNESS', new Date('2025-03-03'), 'IE');
+
+      expect(getLifeEventTimelineChain).toHaveBeenCalledWith('IE_LIFE_EVENT_ILLNESS', new Date('2025-03-03'));
+      expect(schedule?.entries.map(e => e.kind)).toEqual(['EVENT']);
+    });
+  });
 });
@@ -3,6 +3,9 @@
  *
  * Provides time-based reasoning over regulatory rules, windows, lock-ins, and eligibility periods.
  * All functions are pure and return both machine-usable results and human-readable descriptions.
+ *
+ * Calendar-aware functions (tax years, business days, deadlines, schedules) work
+ * on UTC calendar dates using the jurisdiction calendars in `calendars.ts`.
  */
 
 import type {
@@ -13,7 +16,16 @@ import type {
   LockInResult,
   LockInCheckResult,
   DateRange,
+  TaxYearPeriod,
+  DeadlineResult,
+  ContributionRecord,
+  ContributionWindow,
+  ContributionCountResult,
+  LifeEventTimelineChain,
+  LifeEventSchedule,
+  ScheduleEntry,
 } from '../types.js';
+import { getJurisdictionCalendar } from './calendars.js';
 
 /**
  * Format a date as YYYY-MM-DD
@@ -55,7 +67,8 @@ function describeWindow(timeline: Timeline): string {
     parts.push(`${timeline.window_months} month${timeline.window_months === 1 ? '' : 's'}`);
   }
   if (timeline.window_days) {
-    parts.push(`${timeline.window_days} day${timeline.window_days === 1 ? '' : 's'}`);
+    const unit = timeline.business_days ? 'business day' : 'day';
+    parts.push(`${timeline.window_days} ${unit}${timeline.window_days === 1 ? '' : 's'}`);
   }
 
   if (parts.length === 0) {
@@ -160,6 +173,297 @@ export function isLockInActive(
   return { active, end, description };
 }
 
+/**
+ * Build a UTC calendar date
+ */
+function utcDate(year: number, monthIndex: number, day: number): Date {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+/**
+ * Truncate a date to its UTC calendar day
+ */
+function startOfDay(date: Date): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+/**
+ * Add months, clamping to the end of shorter months (31 Jan + 1 month = 28/29 Feb)
+ * and optionally pinning the result to a fixed day of the month
+ */
+function addMonthsClamped(date: Date, months: number, dayOfMonth?: number): Date {
+  const total = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(total / 12);
+  const monthIndex = total - year * 12;
+  const daysInMonth = utcDate(year, monthIndex + 1, 0).getUTCDate();
+  return utcDate(year, monthIndex, Math.min(dayOfMonth ?? date.getUTCDate(), daysInMonth));
+}
+
+function hasWindow(timeline: Timeline): boolean {
+  return Boolean(timeline.window_days || timeline.window_months || timeline.window_years);
+}
+
+/**
+ * Get the tax year containing a date
+ */
+export function getTaxYear(date: Date, jurisdiction: string): TaxYearPeriod {
+  const calendar = getJurisdictionCalendar(jurisdiction);
+  const { month, day } = calendar.taxYearStart;
+  const target = startOfDay(date);
+
+  let startYear = target.getUTCFullYear();
+  if (target < utcDate(startYear, month - 1, day)) {
+    startYear -= 1;
+  }
+
+  const start = utcDate(startYear, month - 1, day);
+  const end = addDays(utcDate(startYear + 1, month - 1, day), -1);
+  const label = month === 1 && day === 1
+    ? `${startYear}`
+    : `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+
+  return { jurisdiction: calendar.jurisdiction, label, start, end };
+}
+
+/**
+ * Check whether a date is a business day (not a weekend or public holiday)
+ */
+export function isBusinessDay(date: Date, jurisdiction: string): boolean {
+  const calendar = getJurisdictionCalendar(jurisdiction);
+  const day = startOfDay(date);
+  return !calendar.weekendDays.includes(day.getUTCDay()) &&
+    !calendar.publicHolidays.includes(formatDate(day));
+}
+
+/**
+ * Get the first business day on or after a date
+ */
+export function nextBusinessDay(date: Date, jurisdiction: string): Date {
+  let day = startOfDay(date);
+  while (!isBusinessDay(day, jurisdiction)) {
+    day = addDays(day, 1);
+  }
+  return day;
+}
+
+/**
+ * Add (or, for negative values, subtract) business days to a date
+ */
+export function addBusinessDays(date: Date, days: number, jurisdiction: string): Date {
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  let day = startOfDay(date);
+
+  while (remaining > 0) {
+    day = addDays(day, step);
+    if (isBusinessDay(day, jurisdiction)) {
+      remaining -= 1;
+    }
+  }
+
+  return day;
+}
+
+/**
+ * Compute when a deadline falls for a trigger date.
+ *
+ * The window is applied from the timeline's anchor (the trigger date, or the
+ * start or end of its tax year), pinned to `day_of_month` if set, and rolled
+ * forward to the next business day when the jurisdiction extends deadlines
+ * that fall on a weekend or public holiday.
+ */
+export function computeDeadline(triggerDate: Date, timeline: Timeline, jurisdiction: string): DeadlineResult {
+  const code = timeline.jurisdictionCode ?? jurisdiction;
+  const calendar = getJurisdictionCalendar(code);
+  const taxYear = getTaxYear(triggerDate, code);
+
+  let anchorDate = startOfDay(triggerDate);
+  let anchorDesc = `the trigger date (${formatDate(anchorDate)})`;
+  if (timeline.anchor === 'TAX_YEAR_START') {
+    anchorDate = taxYear.start;
+    anchorDesc = `the start of tax year ${taxYear.label} (${formatDate(anchorDate)})`;
+  } else if (timeline.anchor === 'TAX_YEAR_END') {
+    anchorDate = taxYear.end;
+    anchorDesc = `the end of tax year ${taxYear.label} (${formatDate(anchorDate)})`;
+  }
+
+  if (!hasWindow(timeline) && !timeline.anchor && !timeline.day_of_month) {
+    return {
+      due: anchorDate,
+      unadjusted: anchorDate,
+      rolledForward: false,
+      description: `This timeline node ("${timeline.label}") doesn't define a concrete deadline; the rule may need more manual interpretation.`,
+    };
+  }
+
+  const months = (timeline.window_years ?? 0) * 12 + (timeline.window_months ?? 0);
+  let unadjusted = months || timeline.day_of_month
+    ? addMonthsClamped(anchorDate, months, timeline.day_of_month)
+    : anchorDate;
+  if (timeline.window_days) {
+    unadjusted = timeline.business_days
+      ? addBusinessDays(unadjusted, timeline.window_days, code)
+      : addDays(unadjusted, timeline.window_days);
+  }
+
+  const due = calendar.rollDeadlinesForward ? nextBusinessDay(unadjusted, code) : unadjusted;
+  const rolledForward = due.getTime() !== unadjusted.getTime();
+
+  const offset = hasWindow(timeline) ? `${describeWindow(timeline)} after ${anchorDesc}` : `from ${anchorDesc}`;
+  const description = rolledForward
+    ? `This deadline ("${timeline.label}") runs ${offset}. ` +
+      `It would fall on ${formatDate(unadjusted)}, which is not a business day in ${calendar.jurisdiction}, ` +
+      `so it moves to ${formatDate(due)}.`
+    : `This deadline ("${timeline.label}") runs ${offset} and falls on ${formatDate(due)}.`;
+
+  return { due, unadjusted, rolledForward, description };
+}
+
+/**
+ * Count contribution weeks in the last N years, either as a rolling window
+ * ending on `now` or as the last N complete tax years
+ */
+export function countContributions(
+  records: ContributionRecord[],
+  window: ContributionWindow,
+  now: Date,
+  jurisdiction: string
+): ContributionCountResult {
+  let range: DateRange;
+  if (window.completeTaxYears) {
+    const current = getTaxYear(now, jurisdiction);
+    range = {
+      start: addMonthsClamped(current.start, -12 * window.years),
+      end: addDays(current.start, -1),
+    };
+  } else {
+    const end = startOfDay(now);
+    range = { start: addMonthsClamped(end, -12 * window.years), end };
+  }
+
+  const includeCredited = window.includeCredited !== false;
+  const count = records
+    .filter(record => includeCredited || !record.credited)
+    .filter(record => {
+      const date = startOfDay(new Date(record.date));
+      return date >= range.start && date <= range.end;
+    })
+    .reduce((sum, record) => sum + record.weeks, 0);
+
+  const met = window.required !== undefined ? count >= window.required : undefined;
+  const period = window.completeTaxYears
+    ? `${window.years} complete tax year${window.years === 1 ? '' : 's'}`
+    : `last ${window.years} year${window.years === 1 ? '' : 's'}`;
+  const kind = includeCredited ? 'paid or credited' : 'paid';
+  const requirement = window.required !== undefined
+    ? ` ${window.required} are required, so this condition is ${met ? 'met' : 'not met'}.`
+    : '';
+  const description =
+    `Counted ${count} ${kind} contribution weeks in the ${period} ` +
+    `(${formatDate(range.start)} to ${formatDate(range.end)}).${requirement}`;
+
+  return { count, required: window.required, met, range, description };
+}
+
+const SCHEDULE_KIND_ORDER: Record<ScheduleEntry['kind'], number> = {
+  WINDOW_OPENS: 0,
+  EVENT: 1,
+  DEADLINE: 2,
+  WINDOW_CLOSES: 3,
+};
+
+/**
+ * Chain the timelines a life event starts or ends, and the filing deadlines of
+ * what it triggers, into a dated schedule
+ */
+export function buildLifeEventSchedule(
+  chain: LifeEventTimelineChain,
+  eventDate: Date,
+  jurisdiction: string
+): LifeEventSchedule {
+  const event = startOfDay(eventDate);
+  const entries: ScheduleEntry[] = [
+    {
+      date: event,
+      kind: 'EVENT',
+      label: chain.lifeEvent.label,
+      sourceId: chain.lifeEvent.id,
+      description: `${chain.lifeEvent.label} on ${formatDate(event)}.`,
+    },
+  ];
+
+  for (const timeline of chain.starts) {
+    if (timeline.kind === 'LOOKBACK') {
+      // A lookback started by the event looks back from the event date
+      const { range, description } = computeLookbackRange(timeline, event);
+      entries.push({
+        date: range.start,
+        kind: 'WINDOW_OPENS',
+        label: timeline.label,
+        sourceId: chain.lifeEvent.id,
+        timelineId: timeline.id,
+        description,
+      });
+      continue;
+    }
+
+    entries.push({
+      date: event,
+      kind: 'WINDOW_OPENS',
+      label: timeline.label,
+      sourceId: chain.lifeEvent.id,
+      timelineId: timeline.id,
+      description: `${timeline.label} opens on ${formatDate(event)}.`,
+    });
+    if (hasWindow(timeline) || timeline.anchor || timeline.day_of_month) {
+      const { due, rolledForward, description } = computeDeadline(event, timeline, jurisdiction);
+      entries.push({
+        date: due,
+        kind: 'WINDOW_CLOSES',
+        label: timeline.label,
+        sourceId: chain.lifeEvent.id,
+        timelineId: timeline.id,
+        rolledForward,
+        description,
+      });
+    }
+  }
+
+  for (const timeline of chain.ends) {
+    entries.push({
+      date: event,
+      kind: 'WINDOW_CLOSES',
+      label: timeline.label,
+      sourceId: chain.lifeEvent.id,
+      timelineId: timeline.id,
+      description: `${timeline.label} ends with ${chain.lifeEvent.label} on ${formatDate(event)}.`,
+    });
+  }
+
+  for (const { source, timeline } of chain.deadlines) {
+    const { due, rolledForward, description } = computeDeadline(event, timeline, jurisdiction);
+    entries.push({
+      date: due,
+      kind: 'DEADLINE',
+      label: `${source.label}: ${timeline.label}`,
+      sourceId: source.id,
+      timelineId: timeline.id,
+      rolledForward,
+      description,
+    });
+  }
+
+  entries.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || SCHEDULE_KIND_ORDER[a.kind] - SCHEDULE_KIND_ORDER[b.kind]
+  );
+
+  return { lifeEventId: chain.lifeEvent.id, eventDate: event, jurisdiction, entries };
+}
+
 /**
  * Create a TimelineEngine instance
  */
@@ -169,5 +473,11 @@ export function createTimelineEngine(): TimelineEngine {
     isWithinLookback,
     computeLockInEnd,
     isLockInActive,
+    getTaxYear,
+    isBusinessDay,
+    addBusinessDays,
+    computeDeadline,
+    countContributions,
+    buildLifeEventSchedule,
   };
 }
@@ -5,6 +5,8 @@
  * including agents, graph operations, timeline engine, and egress guard.
  */
 
+import type { GraphNodeLabel } from '@reg-copilot/reg-intel-graph';
+
 // =============================================================================
 // Graph Schema Types (v0.2)
 // =============================================================================
@@ -28,9 +30,200 @@ export interface Timeline {
   window_days?: number;
   window_months?: number;
   window_years?: number;
+  kind?: 'LOOKBACK' | 'LOCK_IN' | 'DEADLINE' | 'EFFECTIVE_WINDOW' | 'USAGE_FREQUENCY' | 'OTHER';
+  jurisdictionCode?: string;
+  /** Where deadline arithmetic starts: the trigger date (default) or its tax year boundary */
+  anchor?: 'EVENT' | 'TAX_YEAR_START' | 'TAX_YEAR_END';
+  /** Fixed day of month the deadline falls on after the window is applied (e.g. 31 October) */
+  day_of_month?: number;
+  /** Count `window_days` in business days rather than calendar days */
+  business_days?: boolean;
   notes?: string;
 }
 
+/**
+ * Coordination rule describing how social security or tax rules are
+ * coordinated between two jurisdictions (e.g. EU 883/2004 posted workers)
+ */
+export interface CoordinationRule {
+  id: string;
+  label: string;
+  regulation: string;
+  article?: string;
+  applies_to: string;
+  home_jurisdiction?: string;
+  host_jurisdiction?: string;
+  duration_months?: number;
+  description?: string;
+}
+
+/**
+ * Obligation representing a filing, payment or registration requirement
+ */
+export interface Obligation {
+  id: string;
+  label: string;
+  category: 'FILING' | 'REPORTING' | 'PAYMENT' | 'REGISTRATION';
+  frequency?: 'ANNUAL' | 'QUARTERLY' | 'MONTHLY' | 'ONE_TIME';
+  penalty_applies?: boolean;
+  description?: string;
+}
+
+/**
+ * Form used to fulfil an obligation (e.g. Form 11, CT1)
+ */
+export interface Form {
+  id: string;
+  label: string;
+  issuing_body: string;
+  form_number?: string;
+  source_url?: string;
+  category: string;
+  online_only?: boolean;
+}
+
+/**
+ * Threshold representing a numeric limit (e.g. CGT annual exemption)
+ */
+export interface Threshold {
+  id: string;
+  label: string;
+  value: number;
+  unit: 'EUR' | 'GBP' | 'WEEKS' | 'DAYS' | 'COUNT' | 'PERCENT';
+  direction: 'ABOVE' | 'BELOW' | 'BETWEEN';
+  upper_bound?: number;
+  effective_from?: string;
+  effective_to?: string;
+  category?: string;
+  /** Eligibility fact the threshold bounds when a benefit is LIMITED_BY_THRESHOLD it (see EligibilityFacts) */
+  fact?: string;
+}
+
+/**
+ * Rate representing a tax, contribution or benefit rate
+ */
+export interface Rate {
+  id: string;
+  label: string;
+  percentage?: number;
+  flat_amount?: number;
+  currency?: string;
+  band_lower?: number;
+  band_upper?: number;
+  /** PRSI or NI class the rate applies to, e.g. 'A', 'S' or '1' */
+  contribution_class?: string;
+  /** Personal circumstances an income tax band applies to, e.g. 'MARRIED' or 'ONE_PARENT' (unset for single) */
+  personal_status?: string;
+  effective_from?: string;
+  effective_to?: string;
+  category: string;
+}
+
+/**
+ * Tax credit available in a tax year
+ */
+export interface TaxCredit {
+  id: string;
+  label: string;
+  amount: number;
+  currency: string;
+  tax_year: number;
+  refundable: boolean;
+  transferable: boolean;
+  restricted_to_marginal?: boolean;
+  category: 'PERSONAL' | 'EMPLOYMENT' | 'FAMILY' | 'HEALTH' | 'HOUSING' | 'OTHER';
+  description?: string;
+}
+
+/**
+ * Asset class for capital gains and acquisitions tax purposes
+ */
+export interface AssetClass {
+  id: string;
+  label: string;
+  category: 'PROPERTY' | 'SHARES' | 'CRYPTO' | 'AGRICULTURAL' | 'OTHER';
+  sub_category?: string;
+  tangible: boolean;
+  cgt_applicable: boolean;
+  cat_applicable: boolean;
+  stamp_duty_applicable: boolean;
+  description?: string;
+}
+
+/**
+ * UK National Insurance class
+ */
+export interface NIClass {
+  id: string;
+  label: string;
+  description: string;
+  rate: number;
+  threshold_weekly?: number;
+  threshold_annual?: number;
+  eligible_benefits?: string[];
+}
+
+/**
+ * Benefit cap limiting the total amount of benefits a household receives
+ */
+export interface BenefitCap {
+  id: string;
+  label: string;
+  amount_single?: number;
+  amount_couple?: number;
+  amount_with_children?: number;
+  currency: string;
+  frequency: 'WEEKLY' | 'MONTHLY' | 'ANNUAL';
+  exemptions?: string[];
+  effective_from?: string;
+  effective_to?: string;
+}
+
+/**
+ * Means test applied to a means-tested benefit
+ */
+export interface MeansTest {
+  id: string;
+  label: string;
+  income_disregard?: number;
+  capital_threshold?: number;
+  capital_weekly_assessment?: number;
+  spouse_income_assessed?: boolean;
+  maintenance_assessed?: boolean;
+  categories?: string[];
+  description?: string;
+}
+
+/**
+ * Comparison used by a machine-evaluable condition
+ */
+export type ConditionOperator = '>=' | '<=' | '>' | '<' | '=' | 'IN' | 'NOT_IN';
+
+/**
+ * Condition a benefit or relief REQUIRES. Conditions with a `fact` can be
+ * evaluated deterministically by the eligibility evaluator; the rest are
+ * reported as unknown.
+ */
+export interface Condition {
+  id: string;
+  label: string;
+  description?: string;
+  category?: string;
+  /** Fact the condition tests: an EligibilityFacts key or a named date in `dates` */
+  fact?: string;
+  operator?: ConditionOperator;
+  value?: number | string | string[];
+}
+
+/**
+ * Rates, thresholds and credits that apply in a tax year
+ */
+export interface TaxYearRates {
+  rates: Rate[];
+  thresholds: Threshold[];
+  credits: TaxCredit[];
+}
+
 /**
  * Profile tag for user personas
  */
@@ -46,44 +239,8 @@ export interface ProfileTag {
 export interface GraphNode {
   id: string;
   label: string;
-  type:
-    | 'Statute'
-    | 'Section'
-    | 'Benefit'
-    | 'Relief'
-    | 'Condition'
-    | 'Timeline'
-    | 'Case'
-    | 'Guidance'
-    | 'EURegulation'
-    | 'EUDirective'
-    | 'ProfileTag'
-    | 'Jurisdiction'
-    | 'Update'
-    | 'Concept'
-    | 'Label'
-    | 'Region'
-    | 'Agreement'
-    | 'Treaty'
-    | 'Regime'
-    | 'Community'
-    | 'ChangeEvent'
-    | 'Obligation'
-    | 'Threshold'
-    | 'Rate'
-    | 'Form'
-    | 'PRSIClass'
-    | 'LifeEvent'
-    | 'Penalty'
-    | 'LegalEntity'
-    | 'TaxCredit'
-    | 'RegulatoryBody'
-    | 'AssetClass'
-    | 'MeansTest'
-    | 'TaxYear'
-    | 'NIClass'
-    | 'BenefitCap'
-    | 'CoordinationRule';
+  /** Node label declared in the graph schema */
+  type: GraphNodeLabel;
   properties: Record<string, unknown>;
 }
 
@@ -154,6 +311,12 @@ export interface AgentInput {
   profile?: UserProfile;
   conversationHistory?: ChatMessage[];
   now?: Date;
+  /** Graph node IDs already referenced earlier in the conversation (used for agent routing) */
+  activeNodeIds?: string[];
+  /** Structured facts about the user, evaluated against benefit conditions when supplied */
+  eligibilityFacts?: EligibilityFacts;
+  /** Graph nodes ranked by relevance to the question, when a retriever is configured */
+  retrievedNodes?: RetrievedGraphNode[];
 }
 
 /**
@@ -166,6 +329,36 @@ export interface AgentContext {
   llmClient: LlmClient;
   now: Date;
   profile?: UserProfile;
+  /** Notified as domain agents start and finish during multi-agent fan-out */
+  onAgentProgress?: (event: AgentProgressEvent) => void;
+}
+
+/**
+ * Progress update for a domain agent invoked by the Global agent
+ */
+export interface AgentProgressEvent {
+  agentId: string;
+  agentName: string;
+  status: 'started' | 'completed' | 'failed';
+  /** Routing score that selected the agent (absent for the synthesis step) */
+  score?: number;
+  uncertaintyLevel?: 'low' | 'medium' | 'high';
+  error?: string;
+}
+
+/**
+ * Conflict between jurisdictions surfaced when synthesizing multi-agent answers
+ */
+export interface JurisdictionConflict {
+  /** Jurisdiction codes involved, home jurisdiction first (e.g. ['IE', 'UK']) */
+  jurisdictions: string[];
+  /** Domain agents whose answers cover the conflicting jurisdictions */
+  agentIds: string[];
+  description: string;
+  /** Coordination rules from the graph that decide which jurisdiction's rules apply */
+  coordinationRules: Array<Pick<CoordinationRule, 'id' | 'label' | 'regulation' | 'article'>>;
+  /** 'coordinated' when a coordination rule resolves the overlap, otherwise 'unresolved' */
+  status: 'coordinated' | 'unresolved';
 }
 
 /**
@@ -183,6 +376,10 @@ export interface AgentResult {
   uncertaintyLevel?: 'low' | 'medium' | 'high';
   followUps?: string[];
   agentId: string;
+  /** Jurisdiction conflicts identified when several agents contributed */
+  conflicts?: JurisdictionConflict[];
+  /** Deterministic eligibility evaluations for benefits, when facts were supplied */
+  eligibility?: EligibilityEvaluation[];
 }
 
 /**
@@ -198,6 +395,7 @@ export type LlmStreamChunk =
     arguments?: unknown;
     payload?: unknown;
   }
+  | { type: 'warning'; warnings: string[] }
   | { type: 'error'; error: Error }
   | {
     type: 'done';
@@ -220,6 +418,8 @@ export interface AgentStreamResult {
   warnings?: string[];
   uncertaintyLevel?: 'low' | 'medium' | 'high';
   followUps?: string[];
+  conflicts?: JurisdictionConflict[];
+  eligibility?: EligibilityEvaluation[];
   stream: AsyncIterable<LlmStreamChunk>;
 }
 
@@ -241,6 +441,9 @@ export interface Agent {
 
 /**
  * Graph client interface for Memgraph operations
+ *
+ * Query methods take an optional trailing `asOf` date; agents pass `ctx.now`
+ * so only rules, rates and thresholds in force on that date are returned.
  */
 export interface GraphClient {
   /**
@@ -249,28 +452,107 @@ export interface GraphClient {
   getRulesForProfileAndJurisdiction(
     profileId: string,
     jurisdictionId: string,
-    keyword?: string
+    keyword?: string,
+    asOf?: Date
   ): Promise<GraphContext>;
 
   /**
    * Get neighbourhood of a node (1-2 hops)
    */
-  getNeighbourhood(nodeId: string): Promise<GraphContext>;
+  getNeighbourhood(nodeId: string, asOf?: Date): Promise<GraphContext>;
 
   /**
    * Get mutual exclusions for a node
    */
-  getMutualExclusions(nodeId: string): Promise<GraphNode[]>;
+  getMutualExclusions(nodeId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get timeline constraints for a node
    */
-  getTimelines(nodeId: string): Promise<Timeline[]>;
+  getTimelines(nodeId: string, asOf?: Date): Promise<Timeline[]>;
 
   /**
    * Get cross-border slice for multiple jurisdictions
    */
-  getCrossBorderSlice(jurisdictionIds: string[]): Promise<GraphContext>;
+  getCrossBorderSlice(jurisdictionIds: string[], asOf?: Date): Promise<GraphContext>;
+
+  /**
+   * Get coordination rules between a home and host jurisdiction (optional;
+   * implemented by BoltGraphClient)
+   */
+  getCoordinationRules?(homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<CoordinationRule[]>;
+
+  /**
+   * Get obligations for a profile and jurisdiction (optional; implemented by BoltGraphClient)
+   */
+  getObligationsForProfile?(profileId: string, jurisdictionId: string, asOf?: Date): Promise<Obligation[]>;
+
+  /**
+   * Get the form required for an obligation (optional; implemented by BoltGraphClient)
+   */
+  getFormForObligation?(obligationId: string, asOf?: Date): Promise<Form | null>;
+
+  /**
+   * Get asset classes for a jurisdiction (optional; implemented by BoltGraphClient)
+   */
+  getAssetClassesForJurisdiction?(jurisdictionId: string, asOf?: Date): Promise<AssetClass[]>;
+
+  /**
+   * Get the CGT rate for an asset class (optional; implemented by BoltGraphClient)
+   */
+  getCGTRateForAsset?(assetClassId: string, asOf?: Date): Promise<Rate | null>;
+
+  /**
+   * Get rates, thresholds and credits for a tax year (optional; implemented by BoltGraphClient)
+   */
+  getRatesForTaxYear?(taxYear: number, jurisdictionId: string, asOf?: Date): Promise<TaxYearRates>;
+
+  /**
+   * Get National Insurance classes for a jurisdiction (optional; implemented by BoltGraphClient)
+   */
+  getNIClassesForJurisdiction?(jurisdictionId: string, asOf?: Date): Promise<NIClass[]>;
+
+  /**
+   * Get the NI class for an employment type profile tag (optional; implemented by BoltGraphClient)
+   */
+  getNIClassForEmploymentType?(employmentType: string, jurisdictionId: string, asOf?: Date): Promise<NIClass | null>;
+
+  /**
+   * Get benefit caps for a jurisdiction (optional; implemented by BoltGraphClient)
+   */
+  getBenefitCapsForJurisdiction?(jurisdictionId: string, asOf?: Date): Promise<BenefitCap[]>;
+
+  /**
+   * Get benefits counted towards a benefit cap (optional; implemented by BoltGraphClient)
+   */
+  getBenefitsSubjectToCap?(capId: string, asOf?: Date): Promise<GraphNode[]>;
+
+  /**
+   * Get the means test for a benefit (optional; implemented by BoltGraphClient)
+   */
+  getMeansTestForBenefit?(benefitId: string, asOf?: Date): Promise<MeansTest | null>;
+
+  /**
+   * Get posted worker coordination rules and the benefits they cover for a
+   * profile (optional; implemented by BoltGraphClient)
+   */
+  getPostedWorkerRules?(profileId: string, homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<{
+    rules: CoordinationRule[];
+    benefits: GraphNode[];
+  }>;
+
+  /**
+   * Get the conditions, thresholds, lookback windows, means test and exclusions
+   * that decide eligibility for a benefit or relief (optional; implemented by
+   * BoltGraphClient)
+   */
+  getEligibilityRules?(nodeId: string, asOf?: Date): Promise<EligibilityRuleSet | null>;
+
+  /**
+   * Get the timelines a life event starts or ends and the filing deadlines of
+   * what it triggers (optional; implemented by BoltGraphClient)
+   */
+  getLifeEventTimelineChain?(lifeEventId: string, asOf?: Date): Promise<LifeEventTimelineChain | null>;
 
   /**
    * Execute raw Cypher query
@@ -324,6 +606,101 @@ export interface LockInCheckResult {
   description: string;
 }
 
+/**
+ * Jurisdiction calendar: tax year boundaries, weekends and public holidays
+ */
+export interface JurisdictionCalendar {
+  jurisdiction: string;
+  /** Month (1-12) and day the tax year starts */
+  taxYearStart: { month: number; day: number };
+  /** Days of the week that are not business days (0 = Sunday) */
+  weekendDays: number[];
+  /** Observed public holidays as YYYY-MM-DD */
+  publicHolidays: string[];
+  /** Whether deadlines falling on a non-business day move to the next business day */
+  rollDeadlinesForward: boolean;
+}
+
+/**
+ * Tax year containing a date
+ */
+export interface TaxYearPeriod {
+  jurisdiction: string;
+  /** e.g. "2025" (IE) or "2025/26" (UK) */
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Result of deadline computation
+ */
+export interface DeadlineResult {
+  due: Date;
+  /** Due date before rolling forward off a weekend or public holiday */
+  unadjusted: Date;
+  rolledForward: boolean;
+  description: string;
+}
+
+/**
+ * "N contributions in the last M years" counting window
+ */
+export interface ContributionWindow {
+  years: number;
+  /** Count complete tax years before the current one rather than a rolling window */
+  completeTaxYears?: boolean;
+  /** Include credited contributions (default true) */
+  includeCredited?: boolean;
+  /** Number of contribution weeks required */
+  required?: number;
+}
+
+/**
+ * Result of contribution counting
+ */
+export interface ContributionCountResult {
+  count: number;
+  required?: number;
+  met?: boolean;
+  range: DateRange;
+  description: string;
+}
+
+/**
+ * Timelines reachable from a life event: windows it starts or ends, and the
+ * filing deadlines of the benefits and obligations it triggers
+ */
+export interface LifeEventTimelineChain {
+  lifeEvent: GraphNode;
+  starts: Timeline[];
+  ends: Timeline[];
+  deadlines: Array<{ source: GraphNode; timeline: Timeline }>;
+}
+
+/**
+ * Entry in a computed life event schedule
+ */
+export interface ScheduleEntry {
+  date: Date;
+  kind: 'EVENT' | 'WINDOW_OPENS' | 'WINDOW_CLOSES' | 'DEADLINE';
+  label: string;
+  sourceId: string;
+  timelineId?: string;
+  rolledForward?: boolean;
+  description: string;
+}
+
+/**
+ * Dated schedule computed for a life event, in date order
+ */
+export interface LifeEventSchedule {
+  lifeEventId: string;
+  eventDate: Date;
+  jurisdiction: string;
+  entries: ScheduleEntry[];
+}
+
 /**
  * Timeline engine interface
  */
@@ -332,6 +709,341 @@ export interface TimelineEngine {
   isWithinLookback(eventDate: Date, timeline: Timeline, now: Date): LookbackCheckResult;
   computeLockInEnd(triggerDate: Date, timeline: Timeline): LockInResult;
   isLockInActive(triggerDate: Date, timeline: Timeline, now: Date): LockInCheckResult;
+  getTaxYear(date: Date, jurisdiction: string): TaxYearPeriod;
+  isBusinessDay(date: Date, jurisdiction: string): boolean;
+  addBusinessDays(date: Date, days: number, jurisdiction: string): Date;
+  computeDeadline(triggerDate: Date, timeline: Timeline, jurisdiction: string): DeadlineResult;
+  countContributions(
+    records: ContributionRecord[],
+    window: ContributionWindow,
+    now: Date,
+    jurisdiction: string
+  ): ContributionCountResult;
+  buildLifeEventSchedule(chain: LifeEventTimelineChain, eventDate: Date, jurisdiction: string): LifeEventSchedule;
+}
+
+// =============================================================================
+// Eligibility Evaluation Types
+// =============================================================================
+
+/**
+ * Dated social insurance contribution (PRSI or NI)
+ */
+export interface ContributionRecord {
+  /** Date the contribution was paid or credited (ISO format) */
+  date: string;
+  /** Number of weekly contributions */
+  weeks: number;
+  /** Contribution class (e.g. 'S', 'A') */
+  class?: string;
+  /** True for credited rather than paid contributions */
+  credited?: boolean;
+}
+
+/**
+ * Structured facts about a person that benefit conditions are evaluated against.
+ * Conditions reference these by key via their `fact` property.
+ */
+export interface EligibilityFacts {
+  age?: number;
+  /** PRSI or NI class currently paid (e.g. 'S', 'A', 'UK_NI_CLASS_1') */
+  prsiClass?: string;
+  annualIncome?: number;
+  weeklyIncome?: number;
+  capital?: number;
+  /** Paid contributions (weeks) over the working life */
+  contributionsPaid?: number;
+  /** Contribution history, counted against lookback windows by the `contributions` fact */
+  contributions?: ContributionRecord[];
+  /** Named dates (ISO format), e.g. { lastEmployment: '2024-11-30' } */
+  dates?: Record<string, string>;
+  /** Benefit and relief IDs currently claimed, checked against EXCLUDES edges */
+  currentClaims?: string[];
+}
+
+/**
+ * Condition together with the thresholds and lookback windows attached to it
+ */
+export interface EligibilityConditionRule {
+  condition: Condition;
+  /** Thresholds linked via HAS_THRESHOLD */
+  thresholds: Threshold[];
+  /** Windows linked via LOOKBACK_WINDOW */
+  lookbacks: Timeline[];
+}
+
+/**
+ * Everything the graph says about eligibility for one benefit or relief
+ */
+export interface EligibilityRuleSet {
+  benefit: GraphNode;
+  /** Conditions linked via REQUIRES */
+  conditions: EligibilityConditionRule[];
+  /** Thresholds linked via LIMITED_BY_THRESHOLD */
+  thresholds: Threshold[];
+  /** Windows linked via LOOKBACK_WINDOW; inherited by contribution conditions without their own */
+  lookbacks: Timeline[];
+  meansTest: MeansTest | null;
+  /** Nodes linked via EXCLUDES or MUTUALLY_EXCLUSIVE_WITH */
+  exclusions: GraphNode[];
+}
+
+export type EligibilityStatus = 'pass' | 'fail' | 'unknown';
+
+/**
+ * One node of an eligibility evaluation tree
+ */
+export interface EligibilityCheck {
+  /** Graph node the check was derived from */
+  nodeId: string;
+  label: string;
+  kind: 'BENEFIT' | 'CONDITION' | 'THRESHOLD' | 'LOOKBACK' | 'MEANS_TEST' | 'EXCLUSION';
+  status: EligibilityStatus;
+  /** Human-readable explanation of the outcome */
+  reason: string;
+  /** Fact the check tested */
+  fact?: string;
+  /** Value of the fact that was tested */
+  actual?: number | string;
+  /** Requirement the fact was tested against (e.g. '>= 104') */
+  expected?: string;
+  children: EligibilityCheck[];
+}
+
+/**
+ * Result of evaluating a person's facts against a benefit's eligibility rules
+ */
+export interface EligibilityEvaluation {
+  benefitId: string;
+  benefitLabel: string;
+  status: EligibilityStatus;
+  tree: EligibilityCheck;
+  /** Failed checks that explain the outcome (failed checks without failing children) */
+  unmet: EligibilityCheck[];
+  /** Facts that were needed but not supplied */
+  missingFacts: string[];
+  /** Evaluation time (ISO format) */
+  evaluatedAt: string;
+}
+
+// =============================================================================
+// Compliance Calendar Types
+// =============================================================================
+
+/**
+ * Date a lock-in period started for a relief or benefit the user claimed
+ */
+export interface LockInStart {
+  nodeId: string;
+  /** Date the lock-in was triggered (ISO format) */
+  startedOn: string;
+}
+
+/**
+ * Options for building a compliance calendar
+ */
+export interface ComplianceCalendarOptions {
+  profileId: ProfileId;
+  jurisdictions: string[];
+  from: Date;
+  to: Date;
+  lockIns?: LockInStart[];
+}
+
+/**
+ * Dated filing deadline, payment date or lock-in expiry
+ */
+export interface ComplianceCalendarEvent {
+  /** Stable identifier, used as the iCalendar UID */
+  uid: string;
+  /** Due date (YYYY-MM-DD) */
+  date: string;
+  kind: 'FILING' | 'PAYMENT' | 'LOCK_IN_EXPIRY';
+  title: string;
+  description: string;
+  jurisdiction: string;
+  /** Graph nodes the event was derived from */
+  sourceNodeIds: string[];
+  rolledForward?: boolean;
+  url?: string;
+}
+
+/**
+ * Compliance calendar for a profile and jurisdiction set, in date order
+ */
+export interface ComplianceCalendar {
+  profileId: ProfileId;
+  jurisdictions: string[];
+  from: string;
+  to: string;
+  generatedAt: string;
+  events: ComplianceCalendarEvent[];
+}
+
+// =============================================================================
+// Scenario Comparison Types
+// =============================================================================
+
+/**
+ * Annual income of a scenario, by source
+ */
+export interface ScenarioIncome {
+  /** Salary from an employer or from the user's own company */
+  salary?: number;
+  /** Dividends, e.g. from the user's own company */
+  dividends?: number;
+  /** Self-employed trading profits */
+  selfEmployedProfits?: number;
+}
+
+/**
+ * Facts one scenario is evaluated with
+ */
+export interface ScenarioFacts {
+  /** Profile fields that differ from the conversation's profile in this scenario */
+  profile?: Partial<Pick<UserProfile, 'jurisdictions' | 'prsiClass' | 'hasCompany'>>;
+  income: ScenarioIncome;
+  /** Company profits before the director's salary and employer contributions */
+  companyProfit?: number;
+  /** Selects the Irish income tax bands; 'married' covers civil partners with one income (default: single) */
+  personalCircumstances?: 'single' | 'married' | 'one_parent';
+  /** Irish tax credits to apply, e.g. IE_PERSONAL_TAX_CREDIT_SINGLE_2024 */
+  taxCreditIds?: string[];
+  /** Further facts for the eligibility checks, e.g. age or contribution history */
+  eligibility?: EligibilityFacts;
+}
+
+/**
+ * Named fact set compared against the others in a conversation
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  facts: ScenarioFacts;
+}
+
+/**
+ * One scenario's column in a comparison table
+ */
+export interface ScenarioComparisonColumn {
+  scenarioId: string;
+  name: string;
+  jurisdiction: string;
+  currency: string;
+}
+
+/**
+ * Value of a row for one scenario; null when the row does not apply to it
+ */
+export interface ScenarioComparisonCell {
+  value: number | EligibilityStatus | null;
+  /** Graph nodes the value was derived from */
+  nodeIds?: string[];
+}
+
+/**
+ * Row of a comparison table, with one cell per column
+ */
+export interface ScenarioComparisonRow {
+  key: string;
+  label: string;
+  kind: 'amount' | 'percent' | 'eligibility';
+  cells: ScenarioComparisonCell[];
+  /** Whether higher values are better, for highlighting the best cell */
+  higherIsBetter?: boolean;
+}
+
+/**
+ * Side-by-side results of the same calculations and eligibility checks for
+ * several scenarios
+ */
+export interface ScenarioComparison {
+  taxYear: number;
+  columns: ScenarioComparisonColumn[];
+  rows: ScenarioComparisonRow[];
+  /** Scenario with the highest take-home income, when the currencies match */
+  bestScenarioId?: string;
+  /** IDs of every rate, threshold, credit and benefit node used */
+  sourceNodeIds: string[];
+  /** Caveats of the calculations, prefixed with the scenario name */
+  notes: string[];
+  /** Scenarios that could not be calculated */
+  errors: Array<{ scenarioId: string; message: string }>;
+  generatedAt: string;
+}
+
+/**
+ * Options for comparing scenarios
+ */
+export interface ScenarioComparisonOptions {
+  /** Profile each scenario's profile fields are applied to */
+  profile?: UserProfile;
+  /**
+   * Tax year to calculate for (defaults to the tax year containing asOf, or
+   * the latest earlier year with rates in the graph)
+   */
+  taxYear?: number;
+  /** Benefits to check eligibility for (defaults to the main contributory benefits per jurisdiction) */
+  benefitIds?: string[];
+  /** Effective date for rates and eligibility rules (defaults to now) */
+  asOf?: Date;
+}
+
+// =============================================================================
+// Graph Retrieval Types
+// =============================================================================
+
+/**
+ * A graph node found by ranked retrieval for a question
+ */
+export interface RetrievedGraphNode {
+  id: string;
+  label: string;
+  type: string;
+  /** Relevance in [0, 1]; neighbours inherit a decayed score from the node that reached them */
+  score: number;
+  /** 'vector' for embedding matches, 'graph' for nodes reached by neighbourhood expansion */
+  source: 'vector' | 'graph';
+}
+
+/**
+ * Query for ranked graph retrieval
+ */
+export interface GraphRetrievalQuery {
+  /** Question text; callers should pass it through the egress guard first */
+  text: string;
+  /** Tenant whose LLM policy decides whether a remote embedding provider may be used */
+  tenantId?: string;
+  /** Nodes in other jurisdictions are dropped; nodes without a jurisdiction are kept */
+  jurisdictions?: string[];
+  /** Nodes tagged for other profiles are dropped; untagged nodes are kept */
+  profileTagId?: string;
+  /** Effective date for neighbourhood expansion */
+  asOf?: Date;
+  /** Maximum nodes returned (default: 10) */
+  limit?: number;
+}
+
+/**
+ * Finds the graph nodes most relevant to a question
+ */
+export interface GraphRetriever {
+  retrieve(query: GraphRetrievalQuery): Promise<RetrievedGraphNode[]>;
+}
+
+// =============================================================================
+// Citation Types
+// =============================================================================
+
+/**
+ * A graph node cited inline in an answer with a `[node:NODE_ID]` marker
+ */
+export interface Citation {
+  id: string;
+  label: string;
+  type: string;
+  /** 1-based position of the node's first citation in the answer */
+  index: number;
 }
 
 // =============================================================================
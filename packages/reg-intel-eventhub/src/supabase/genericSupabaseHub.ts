@@ -117,6 +117,7 @@ export abstract class GenericSupabaseEventHub<TEvent extends string> {
   protected readonly channels: ChannelLifecycleManager<RealtimeChannel>;
   protected readonly prefix: string;
   protected readonly instanceId: string;
+  protected readonly privateChannels: boolean;
   protected isShuttingDown = false;
 
   /**
@@ -134,6 +135,7 @@ export abstract class GenericSupabaseEventHub<TEvent extends string> {
   constructor(config: SupabaseEventHubConfig) {
     this.prefix = config.prefix ?? 'copilot:events';
     this.instanceId = config.instanceId ?? generateInstanceId();
+    this.privateChannels = config.privateChannels ?? false;
 
     this.client =
       config.client ??
@@ -151,7 +153,7 @@ export abstract class GenericSupabaseEventHub<TEvent extends string> {
   private async ensureChannel(channel: string, key: string): Promise<RealtimeChannel> {
     return await this.channels.getOrCreate(channel, async () => {
       const realtimeChannel = this.client.channel(channel, {
-        config: { broadcast: { self: false } },
+        config: { broadcast: { self: false }, ...(this.privateChannels && { private: true }) },
       });
 
       realtimeChannel.on(
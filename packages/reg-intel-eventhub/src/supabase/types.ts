@@ -7,7 +7,7 @@ import type { SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 export interface SupabaseClientLike {
   channel(
     name: string,
-    opts?: { config?: { broadcast?: { self?: boolean } } },
+    opts?: { config?: { broadcast?: { self?: boolean }; private?: boolean } },
   ): RealtimeChannel;
 }
 
@@ -37,6 +37,13 @@ export interface SupabaseEventHubConfig {
    */
   prefix?: string;
 
+  /**
+   * Join channels as private channels, authorized by RLS policies on
+   * realtime.messages. Clients using the anon key cannot read or send on them.
+   * @default false
+   */
+  privateChannels?: boolean;
+
   /**
    * Optional pre-generated instance ID
    * If not provided, one will be generated automatically
@@ -0,0 +1,178 @@
+/**
+ * Ireland Capital Gains Tax / Investor Integration Tests
+ *
+ * Real-world integration tests for Irish investors including:
+ * - Asset classes and the CGT rate applied to each
+ * - CGT rates, thresholds and reliefs for a tax year
+ * - Holding-period timelines (deemed disposal, share matching)
+ * - CGT payment and filing obligations
+ *
+ * Requires the seeds in src/seeds/asset_classes.cypher, thresholds_rates.cypher,
+ * tax_years.cypher and cgt_investor.cypher.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createBoltGraphClient } from '../../../boltGraphClient.js';
+import type { BoltGraphClient } from '../../../boltGraphClient.js';
+
+const TEST_CONFIG = {
+  uri: process.env.MEMGRAPH_URI || 'bolt://localhost:7687',
+  username: process.env.MEMGRAPH_USERNAME || '',
+  password: process.env.MEMGRAPH_PASSWORD || '',
+  database: process.env.MEMGRAPH_DATABASE || 'memgraph',
+};
+
+describe('Ireland CGT - Investors', () => {
+  let client: BoltGraphClient;
+
+  beforeAll(async () => {
+    client = createBoltGraphClient(TEST_CONFIG);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  describe('Asset Classes', () => {
+    it('should list Irish asset classes including shares, property, crypto and funds', async () => {
+      const assetClasses = await client.getAssetClassesForJurisdiction('IE');
+      const ids = assetClasses.map((ac) => ac.id);
+
+      expect(ids).toContain('IE_ASSET_SHARES_QUOTED');
+      expect(ids).toContain('IE_ASSET_RESIDENTIAL_PROPERTY');
+      expect(ids).toContain('IE_ASSET_CRYPTO');
+      expect(ids).toContain('IE_ASSET_INVESTMENT_FUNDS');
+    });
+
+    it('should treat investment funds as outside CGT (exit tax regime)', async () => {
+      const assetClasses = await client.getAssetClassesForJurisdiction('IE');
+      const funds = assetClasses.find((ac) => ac.id === 'IE_ASSET_INVESTMENT_FUNDS');
+
+      expect(funds).toBeDefined();
+      expect(funds!.cgt_applicable).toBe(false);
+      expect(await client.getCGTRateForAsset('IE_ASSET_INVESTMENT_FUNDS')).toBeNull();
+    });
+
+    it('should apply the 33% CGT rate to quoted shares', async () => {
+      const rate = await client.getCGTRateForAsset('IE_ASSET_SHARES_QUOTED');
+
+      expect(rate).not.toBeNull();
+      expect(rate!.id).toBe('IE_CGT_RATE_2024');
+      expect(rate!.percentage).toBe(33);
+      expect(rate!.category).toBe('CGT');
+    });
+
+    it('should apply the same CGT rate to every CGT-applicable asset class', async () => {
+      const assetClasses = await client.getAssetClassesForJurisdiction('IE');
+      const cgtAssets = assetClasses.filter((ac) => ac.cgt_applicable);
+
+      expect(cgtAssets.length).toBeGreaterThan(0);
+      for (const asset of cgtAssets) {
+        const rate = await client.getCGTRateForAsset(asset.id);
+        expect(rate?.percentage).toBe(33);
+      }
+    });
+  });
+
+  describe('Rates for Tax Year', () => {
+    it('should return the CGT rate, entrepreneur relief rate and annual exemption for 2024', async () => {
+      const { rates, thresholds } = await client.getRatesForTaxYear(2024, 'IE');
+
+      const rateIds = rates.map((r) => r.id);
+      expect(rateIds).toContain('IE_CGT_RATE_2024');
+      expect(rateIds).toContain('IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024');
+
+      const exemption = thresholds.find((t) => t.id === 'IE_CGT_ANNUAL_EXEMPTION_2024');
+      expect(exemption?.value).toBe(1270);
+    });
+
+    it('should calculate CGT on a €20,000 share gain with the annual exemption', async () => {
+      const { rates, thresholds } = await client.getRatesForTaxYear(2024, 'IE');
+      const rate = rates.find((r) => r.id === 'IE_CGT_RATE_2024')!.percentage! / 100;
+      const exemption = thresholds.find((t) => t.id === 'IE_CGT_ANNUAL_EXEMPTION_2024')!.value;
+
+      // (€20,000 - €1,270) × 33% = €6,180.90
+      expect((20000 - exemption) * rate).toBeCloseTo(6180.9, 2);
+    });
+
+    it('should calculate Entrepreneur Relief at 10% on a €400,000 business disposal', async () => {
+      const { rates } = await client.getRatesForTaxYear(2024, 'IE');
+      const relief = rates.find((r) => r.id === 'IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024')!;
+
+      expect(relief.band_upper).toBe(1000000);
+      expect(400000 * (relief.percentage! / 100)).toBe(40000);
+    });
+  });
+
+  describe('Holding-Period Timelines', () => {
+    it('should link the 8-year deemed disposal lock-in to investment funds', async () => {
+      const timelines = await client.getTimelines('IE_ASSET_INVESTMENT_FUNDS');
+
+      const deemedDisposal = timelines.find((t) => t.id === 'IE_CGT_DEEMED_DISPOSAL_8Y');
+      expect(deemedDisposal).toBeDefined();
+      expect(deemedDisposal!.window_years).toBe(8);
+    });
+
+    it('should link the 4-week share matching rule to quoted shares', async () => {
+      const timelines = await client.getTimelines('IE_ASSET_SHARES_QUOTED');
+
+      const matching = timelines.find((t) => t.id === 'IE_CGT_SHARE_MATCHING_4W');
+      expect(matching?.window_days).toBe(28);
+    });
+
+    it('should require 3 years ownership for Entrepreneur Relief', async () => {
+      const timelines = await client.getTimelines('IE_CGT_RELIEF_ENTREPRENEUR');
+
+      expect(timelines.map((t) => t.window_years)).toContain(3);
+    });
+  });
+
+  describe('CGT Reliefs', () => {
+    it('should return CGT reliefs for the investor profile', async () => {
+      const context = await client.getRulesForProfileAndJurisdiction('PROFILE_INVESTOR_IE', 'IE');
+      const ids = context.nodes.map((n) => n.id);
+
+      expect(ids).toContain('IE_CGT_RELIEF_ENTREPRENEUR');
+      expect(ids).toContain('IE_CGT_RELIEF_PPR');
+      expect(ids).toContain('IE_CGT_RELIEF_LOSSES');
+    });
+
+    it('should mark Entrepreneur Relief and PPR Relief as mutually exclusive', async () => {
+      const exclusions = await client.getMutualExclusions('IE_CGT_RELIEF_ENTREPRENEUR');
+
+      expect(exclusions.map((n) => n.id)).toContain('IE_CGT_RELIEF_PPR');
+    });
+  });
+
+  describe('CGT Obligations', () => {
+    it('should require investors to pay CGT in two periods and file a return', async () => {
+      const obligations = await client.getObligationsForProfile('PROFILE_INVESTOR_IE', 'IE');
+      const ids = obligations.map((o) => o.id);
+
+      expect(ids).toEqual(
+        expect.arrayContaining([
+          'IE_CGT_PAYMENT_INITIAL_PERIOD',
+          'IE_CGT_PAYMENT_LATER_PERIOD',
+          'IE_CGT_RETURN_FILING',
+        ])
+      );
+    });
+
+    it('should link the CGT return to Form CG1', async () => {
+      const form = await client.getFormForObligation('IE_CGT_RETURN_FILING');
+
+      expect(form?.form_number).toBe('CG1');
+    });
+
+    it('should attach filing deadlines to every CGT obligation', async () => {
+      for (const obligationId of [
+        'IE_CGT_PAYMENT_INITIAL_PERIOD',
+        'IE_CGT_PAYMENT_LATER_PERIOD',
+        'IE_CGT_RETURN_FILING',
+      ]) {
+        const timelines = await client.getTimelines(obligationId);
+        expect(timelines.length).toBeGreaterThan(0);
+      }
+    });
+  });
+});
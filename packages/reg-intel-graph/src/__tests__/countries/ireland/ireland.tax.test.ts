@@ -231,7 +231,7 @@ describe('Ireland Tax System - Income Tax', () => {
       // Get income tax rates
       const taxResult = await client.executeCypher(
         `MATCH (r:Rate)-[:IN_JURISDICTION]->(j:Jurisdiction {id: 'IE'})
-         WHERE r.category = 'INCOME_TAX' AND r.id CONTAINS '2024'
+         WHERE r.category = 'INCOME_TAX' AND r.id CONTAINS '2024' AND r.personal_status = 'SINGLE'
          RETURN r.percentage as rate, r.band_lower as lower, r.band_upper as upper
          ORDER BY r.band_lower`,
         {}
@@ -14,7 +14,7 @@ import {
 } from '@opentelemetry/api';
 import { createHash } from 'node:crypto';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { BoltGraphClient } from './boltGraphClient.js';
+import { BoltGraphClient, inForceAt, toAsOfParam } from './boltGraphClient.js';
 
 vi.mock('neo4j-driver', () => {
   const sessionRun = vi.fn(async () => ({ records: [{ toObject: () => ({ id: 1 }) }] }));
@@ -178,3 +178,86 @@ describe('BoltGraphClient tracing', () => {
     expect(String(span?.attributes['db.statement'])).not.toContain(cypher);
   });
 });
+
+describe('BoltGraphClient point-in-time queries', () => {
+  const asOf = new Date('2023-06-30T12:00:00Z');
+
+  function createClient() {
+    const client = new BoltGraphClient({ uri: 'bolt://localhost:7687', database: 'memgraph' });
+    const executeCypher = vi.spyOn(client, 'executeCypher').mockResolvedValue([]);
+    return { client, executeCypher };
+  }
+
+  it('formats asOf as a calendar date and null when absent', () => {
+    expect(toAsOfParam(asOf)).toBe('2023-06-30');
+    expect(toAsOfParam()).toBeNull();
+  });
+
+  it('builds an inclusive effective window predicate that tolerates missing dates', () => {
+    const predicate = inForceAt('r');
+    expect(predicate).toContain('$asOf IS NULL');
+    expect(predicate).toContain('r.effective_from IS NULL');
+    expect(predicate).toContain('substring(toString(r.effective_from), 0, 10) <= $asOf');
+    expect(predicate).toContain('substring(toString(r.effective_to), 0, 10) >= $asOf');
+  });
+
+  it('filters rates by the asOf date', async () => {
+    const { client, executeCypher } = createClient();
+
+    await client.getRatesForCategory('CGT', 'IE', asOf);
+
+    const [query, params] = executeCypher.mock.calls[0];
+    expect(query).toContain(inForceAt('r'));
+    expect(params).toMatchObject({ category: 'CGT', jurisdictionId: 'IE', asOf: '2023-06-30' });
+  });
+
+  it('passes a null asOf so every version is returned when no date is given', async () => {
+    const { client, executeCypher } = createClient();
+
+    await client.getThresholdsForCondition('COND_1');
+
+    expect(executeCypher.mock.calls[0][1]).toMatchObject({ conditionId: 'COND_1', asOf: null });
+  });
+
+  it('threads asOf through rules, timelines and tax year lookups', async () => {
+    const { client, executeCypher } = createClient();
+
+    await client.getRulesForProfileAndJurisdiction('PROFILE_SINGLE_DIRECTOR_IE', 'IE', 'pension', asOf);
+    await client.getTimelines('IE_BENEFIT', asOf);
+    await client.getRatesForTaxYear(2023, 'IE', asOf);
+
+    expect(executeCypher).toHaveBeenCalledTimes(3);
+    for (const [, params] of executeCypher.mock.calls) {
+      expect(params).toMatchObject({ asOf: '2023-06-30' });
+    }
+    expect(executeCypher.mock.calls[2][0]).toContain(inForceAt('t'));
+  });
+
+  it('applies asOf to every query behind the eligibility rule set', async () => {
+    const { client, executeCypher } = createClient();
+    executeCypher.mockResolvedValueOnce([
+      { b: { properties: { id: 'IE_BENEFIT', label: 'Benefit' }, labels: ['Benefit'] } },
+    ]);
+
+    await client.getEligibilityRules('IE_BENEFIT', asOf);
+
+    expect(executeCypher.mock.calls.length).toBeGreaterThan(1);
+    for (const [, params] of executeCypher.mock.calls) {
+      expect(params).toMatchObject({ asOf: '2023-06-30' });
+    }
+  });
+});
+
+describe('BoltGraphClient merged concepts', () => {
+  it('expands the neighbourhood of the concept a merged ID redirects to', async () => {
+    const client = new BoltGraphClient({ uri: 'bolt://localhost:7687', database: 'memgraph' });
+    const executeCypher = vi.spyOn(client, 'executeCypher').mockResolvedValue([]);
+
+    await client.getNeighbourhood('TAX:IE:CAPITAL_GAINS_TAX');
+
+    const [query, params] = executeCypher.mock.calls[0];
+    expect(query).toContain('OPTIONAL MATCH (start)-[:MERGED_INTO]->(target)');
+    expect(query).toContain('coalesce(target, start) AS n');
+    expect(params).toMatchObject({ nodeId: 'TAX:IE:CAPITAL_GAINS_TAX' });
+  });
+});
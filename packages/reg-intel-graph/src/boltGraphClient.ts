@@ -35,6 +35,9 @@ import type {
   NIClass,
   BenefitCap,
   CoordinationRule,
+  Condition,
+  EligibilityRuleSet,
+  LifeEventTimelineChain,
 } from './types.js';
 import { GraphError } from './errors.js';
 import { LOG_PREFIX } from './constants.js';
@@ -59,6 +62,26 @@ interface EnrichedRelationship {
   properties: Record<string, unknown>;
 }
 
+/**
+ * Format an `asOf` date as the `$asOf` query parameter (UTC calendar date)
+ */
+export function toAsOfParam(asOf?: Date): string | null {
+  return asOf ? asOf.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Cypher predicate that keeps `alias` only when it is in force on `$asOf`.
+ *
+ * Nodes without `effective_from`/`effective_to` are timeless and always kept,
+ * and a null `$asOf` disables the filter. Dates are compared as YYYY-MM-DD so
+ * both string and datetime() properties work; `effective_to` is inclusive.
+ */
+export function inForceAt(alias: string): string {
+  return `($asOf IS NULL OR (` +
+    `(${alias}.effective_from IS NULL OR substring(toString(${alias}.effective_from), 0, 10) <= $asOf) AND ` +
+    `(${alias}.effective_to IS NULL OR substring(toString(${alias}.effective_to), 0, 10) >= $asOf)))`;
+}
+
 /**
  * Direct Bolt-based Memgraph GraphClient
  *
@@ -152,6 +175,17 @@ export class BoltGraphClient implements GraphClient {
     );
   }
 
+  /**
+   * Execute a query whose predicates reference `$asOf` (see inForceAt)
+   */
+  private async executeCypherAsOf(
+    query: string,
+    params: Record<string, unknown>,
+    asOf?: Date
+  ): Promise<Array<Record<string, unknown>>> {
+    return await this.executeCypher(query, { ...params, asOf: toAsOfParam(asOf) }) as Array<Record<string, unknown>>;
+  }
+
   /**
    * Parse Neo4j node to GraphNode
    */
@@ -321,12 +355,14 @@ export class BoltGraphClient implements GraphClient {
   async getRulesForProfileAndJurisdiction(
     profileId: string,
     jurisdictionId: string,
-    keyword?: string
+    keyword?: string,
+    asOf?: Date
   ): Promise<GraphContext> {
     this.logger.info({
       profileId,
       jurisdictionId,
       keyword,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting rules`);
 
     let query = `
@@ -334,19 +370,21 @@ export class BoltGraphClient implements GraphClient {
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       MATCH (rule)-[:APPLIES_TO]->(p)
       MATCH (rule)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('rule')}
     `;
 
     if (keyword) {
       query += `
-      WHERE rule.label CONTAINS $keyword
+        AND (rule.label CONTAINS $keyword
          OR rule.name CONTAINS $keyword
-         OR rule.description CONTAINS $keyword
+         OR rule.description CONTAINS $keyword)
       `;
     }
 
     // Option A: Return enriched relationships with semantic IDs
     query += `
       OPTIONAL MATCH (rule)-[r]->(related)
+      WHERE ${inForceAt('related')}
       WITH rule,
            CASE WHEN r IS NOT NULL AND related IS NOT NULL
                 THEN {sourceId: rule.id, targetId: related.id, type: type(r), properties: properties(r)}
@@ -357,11 +395,11 @@ export class BoltGraphClient implements GraphClient {
       LIMIT 50
     `;
 
-    const records = await this.executeCypher(query, {
+    const records = await this.executeCypherAsOf(query, {
       profileId,
       jurisdictionId,
       keyword: keyword || '',
-    }) as Array<Record<string, unknown>>;
+    }, asOf);
 
     return this.parseGraphContext(records);
   }
@@ -369,16 +407,22 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get neighbourhood of a node (1-2 hops)
    * Uses Option A: Returns enriched relationships with semantic IDs
+   *
+   * The ID of a concept merged into another resolves to the surviving concept.
    */
-  async getNeighbourhood(nodeId: string): Promise<GraphContext> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting neighbourhood`);
+  async getNeighbourhood(nodeId: string, asOf?: Date): Promise<GraphContext> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting neighbourhood`);
 
     // Option A: Return enriched relationships with semantic IDs
     const query = `
-      MATCH (n {id: $nodeId})
+      MATCH (start {id: $nodeId})
+      OPTIONAL MATCH (start)-[:MERGED_INTO]->(target)
+      WITH coalesce(target, start) AS n
+      WHERE ${inForceAt('n')}
       OPTIONAL MATCH (n)-[r1]-(n1)
+      WHERE ${inForceAt('n1')}
       OPTIONAL MATCH (n1)-[r2]-(n2)
-      WHERE n2 IS NULL OR n2.id <> $nodeId
+      WHERE (n2 IS NULL OR n2 <> n) AND ${inForceAt('n2')}
       WITH n, r1, n1, r2, n2
       WITH n, n1, n2,
            CASE WHEN r1 IS NOT NULL AND n1 IS NOT NULL
@@ -398,7 +442,7 @@ export class BoltGraphClient implements GraphClient {
       LIMIT 100
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
 
     // Parse with support for multiple enriched relationship arrays
     const nodes: GraphNode[] = [];
@@ -458,15 +502,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get mutual exclusions for a node
    */
-  async getMutualExclusions(nodeId: string): Promise<GraphNode[]> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting mutual exclusions`);
+  async getMutualExclusions(nodeId: string, asOf?: Date): Promise<GraphNode[]> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting mutual exclusions`);
 
     const query = `
       MATCH (n {id: $nodeId})-[:EXCLUDES|MUTUALLY_EXCLUSIVE_WITH]-(excluded)
+      WHERE ${inForceAt('excluded')}
       RETURN excluded
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -474,48 +519,37 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get timeline constraints for a node
    */
-  async getTimelines(nodeId: string): Promise<Timeline[]> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting timelines`);
+  async getTimelines(nodeId: string, asOf?: Date): Promise<Timeline[]> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting timelines`);
 
     const query = `
       MATCH (n {id: $nodeId})-[:LOOKBACK_WINDOW|LOCKS_IN_FOR_PERIOD|FILING_DEADLINE|EFFECTIVE_WINDOW]->(t:Timeline)
+      WHERE ${inForceAt('t')}
       RETURN t
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
 
-    const timelines: Timeline[] = [];
-    for (const record of records) {
-      const t = record.t;
-      if (t && typeof t === 'object' && 'properties' in t) {
-        const props = (t as { properties: Record<string, unknown> }).properties;
-        timelines.push({
-          id: props.id as string || 'unknown',
-          label: props.label as string || 'Unknown Timeline',
-          window_days: props.window_days as number | undefined,
-          window_months: props.window_months as number | undefined,
-          window_years: props.window_years as number | undefined,
-          notes: props.notes as string | undefined,
-        });
-      }
-    }
-
-    return timelines;
+    return records
+      .map(record => this.parseTimeline(record.t))
+      .filter((t): t is Timeline => t !== null);
   }
 
   /**
    * Get cross-border slice for multiple jurisdictions
    * Uses Option A: Returns enriched relationships with semantic IDs
    */
-  async getCrossBorderSlice(jurisdictionIds: string[]): Promise<GraphContext> {
-    this.logger.info({ jurisdictions: jurisdictionIds }, `${LOG_PREFIX.graph} Getting cross-border slice`);
+  async getCrossBorderSlice(jurisdictionIds: string[], asOf?: Date): Promise<GraphContext> {
+    this.logger.info({ jurisdictions: jurisdictionIds, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting cross-border slice`);
 
     // Option A: Return enriched relationships with semantic IDs
     const query = `
       MATCH (j:Jurisdiction)
       WHERE j.id IN $jurisdictionIds
       MATCH (rule)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('rule')}
       OPTIONAL MATCH (rule)-[r:COORDINATED_WITH|TREATY_LINKED_TO|EQUIVALENT_TO]-(related)
+      WHERE ${inForceAt('related')}
       WITH rule, j,
            CASE WHEN r IS NOT NULL AND related IS NOT NULL
                 THEN {sourceId: CASE WHEN startNode(r) = rule THEN rule.id ELSE related.id END,
@@ -528,7 +562,7 @@ export class BoltGraphClient implements GraphClient {
       LIMIT 100
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionIds }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionIds }, asOf);
     return this.parseGraphContext(records);
   }
 
@@ -537,21 +571,24 @@ export class BoltGraphClient implements GraphClient {
    */
   async getObligationsForProfile(
     profileId: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<Obligation[]> {
     this.logger.info({
       profileId,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting obligations for profile`);
 
     const query = `
       MATCH (p:ProfileTag {id: $profileId})
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       MATCH (p)-[:HAS_OBLIGATION]->(o:Obligation)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('o')}
       RETURN o
     `;
 
-    const records = await this.executeCypher(query, { profileId, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { profileId, jurisdictionId }, asOf);
 
     const obligations: Obligation[] = [];
     for (const record of records) {
@@ -575,15 +612,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get thresholds for a condition
    */
-  async getThresholdsForCondition(conditionId: string): Promise<Threshold[]> {
-    this.logger.info({ conditionId }, `${LOG_PREFIX.graph} Getting thresholds for condition`);
+  async getThresholdsForCondition(conditionId: string, asOf?: Date): Promise<Threshold[]> {
+    this.logger.info({ conditionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting thresholds for condition`);
 
     const query = `
       MATCH (c:Condition {id: $conditionId})-[:HAS_THRESHOLD]->(t:Threshold)
+      WHERE ${inForceAt('t')}
       RETURN t
     `;
 
-    const records = await this.executeCypher(query, { conditionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { conditionId }, asOf);
 
     const thresholds: Threshold[] = [];
     for (const record of records) {
@@ -612,20 +650,23 @@ export class BoltGraphClient implements GraphClient {
    */
   async getRatesForCategory(
     category: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<Rate[]> {
     this.logger.info({
       category,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting rates for category`);
 
     const query = `
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       MATCH (r:Rate {category: $category})-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('r')}
       RETURN r
     `;
 
-    const records = await this.executeCypher(query, { category, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { category, jurisdictionId }, asOf);
 
     const rates: Rate[] = [];
     for (const record of records) {
@@ -640,6 +681,8 @@ export class BoltGraphClient implements GraphClient {
           currency: props.currency as string | undefined,
           band_lower: props.band_lower as number | undefined,
           band_upper: props.band_upper as number | undefined,
+          contribution_class: props.contribution_class as string | undefined,
+          personal_status: props.personal_status as string | undefined,
           effective_from: props.effective_from as string | undefined,
           effective_to: props.effective_to as string | undefined,
           category: props.category as string || category,
@@ -656,12 +699,14 @@ export class BoltGraphClient implements GraphClient {
   async getThresholdsNearValue(
     value: number,
     unit: string,
-    tolerancePercent: number
+    tolerancePercent: number,
+    asOf?: Date
   ): Promise<Threshold[]> {
     this.logger.info({
       value,
       unit,
       tolerancePercent,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting thresholds near value`);
 
     const lowerBound = value * (1 - tolerancePercent / 100);
@@ -670,10 +715,11 @@ export class BoltGraphClient implements GraphClient {
     const query = `
       MATCH (t:Threshold {unit: $unit})
       WHERE t.value >= $lowerBound AND t.value <= $upperBound
+        AND ${inForceAt('t')}
       RETURN t
     `;
 
-    const records = await this.executeCypher(query, { unit, lowerBound, upperBound }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { unit, lowerBound, upperBound }, asOf);
 
     const thresholds: Threshold[] = [];
     for (const record of records) {
@@ -700,16 +746,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get form required for an obligation or benefit
    */
-  async getFormForObligation(obligationId: string): Promise<Form | null> {
-    this.logger.info({ obligationId }, `${LOG_PREFIX.graph} Getting form for obligation`);
+  async getFormForObligation(obligationId: string, asOf?: Date): Promise<Form | null> {
+    this.logger.info({ obligationId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting form for obligation`);
 
     const query = `
       MATCH (o:Obligation {id: $obligationId})-[:REQUIRES_FORM]->(f:Form)
+      WHERE ${inForceAt('f')}
       RETURN f
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { obligationId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { obligationId }, asOf);
 
     if (records.length === 0) {
       return null;
@@ -736,25 +783,28 @@ export class BoltGraphClient implements GraphClient {
    * Get concept hierarchy (broader/narrower concepts)
    * Uses Option A: Returns enriched relationships with semantic IDs
    */
-  async getConceptHierarchy(conceptId: string): Promise<{
+  async getConceptHierarchy(conceptId: string, asOf?: Date): Promise<{
     broader: GraphNode[];
     narrower: GraphNode[];
     related: GraphNode[];
   }> {
-    this.logger.info({ conceptId }, `${LOG_PREFIX.graph} Getting concept hierarchy`);
+    this.logger.info({ conceptId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting concept hierarchy`);
 
     // Option A: Return categorized nodes with relationship type
     const query = `
       MATCH (c:Concept {id: $conceptId})
       OPTIONAL MATCH (c)-[:BROADER]->(broader)
+      WHERE ${inForceAt('broader')}
       OPTIONAL MATCH (c)-[:NARROWER]->(narrower)
+      WHERE ${inForceAt('narrower')}
       OPTIONAL MATCH (c)-[:RELATED]->(related)
+      WHERE ${inForceAt('related')}
       RETURN c, collect(DISTINCT broader) AS broaderNodes,
              collect(DISTINCT narrower) AS narrowerNodes,
              collect(DISTINCT related) AS relatedNodes
     `;
 
-    const records = await this.executeCypher(query, { conceptId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { conceptId }, asOf);
 
     const broader: GraphNode[] = [];
     const narrower: GraphNode[] = [];
@@ -791,16 +841,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get PRSI class by ID
    */
-  async getPRSIClassById(prsiClassId: string): Promise<PRSIClass | null> {
-    this.logger.info({ prsiClassId }, `${LOG_PREFIX.graph} Getting PRSI class by ID`);
+  async getPRSIClassById(prsiClassId: string, asOf?: Date): Promise<PRSIClass | null> {
+    this.logger.info({ prsiClassId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting PRSI class by ID`);
 
     const query = `
       MATCH (p:PRSIClass {id: $prsiClassId})
+      WHERE ${inForceAt('p')}
       RETURN p
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { prsiClassId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { prsiClassId }, asOf);
 
     if (records.length === 0) {
       return null;
@@ -823,20 +874,22 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get benefits entitled by PRSI class
    */
-  async getBenefitsForPRSIClass(prsiClassId: string, jurisdictionId: string): Promise<GraphNode[]> {
+  async getBenefitsForPRSIClass(prsiClassId: string, jurisdictionId: string, asOf?: Date): Promise<GraphNode[]> {
     this.logger.info({
       prsiClassId,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting benefits for PRSI class`);
 
     const query = `
       MATCH (p:PRSIClass {id: $prsiClassId})
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       MATCH (p)-[:ENTITLES_TO]->(b:Benefit)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('b')}
       RETURN b
     `;
 
-    const records = await this.executeCypher(query, { prsiClassId, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { prsiClassId, jurisdictionId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -844,15 +897,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get life events that trigger a specific benefit or obligation
    */
-  async getLifeEventsForNode(nodeId: string): Promise<LifeEvent[]> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting life events for node`);
+  async getLifeEventsForNode(nodeId: string, asOf?: Date): Promise<LifeEvent[]> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting life events for node`);
 
     const query = `
       MATCH (e:LifeEvent)-[:TRIGGERS]->(n {id: $nodeId})
+      WHERE ${inForceAt('e')}
       RETURN e
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
 
     const lifeEvents: LifeEvent[] = [];
     for (const record of records) {
@@ -875,24 +929,27 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get benefits and obligations triggered by a life event
    */
-  async getTriggeredByLifeEvent(lifeEventId: string, jurisdictionId: string): Promise<{
+  async getTriggeredByLifeEvent(lifeEventId: string, jurisdictionId: string, asOf?: Date): Promise<{
     benefits: GraphNode[];
     obligations: GraphNode[];
   }> {
     this.logger.info({
       lifeEventId,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting items triggered by life event`);
 
     const query = `
       MATCH (e:LifeEvent {id: $lifeEventId})
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       OPTIONAL MATCH (e)-[:TRIGGERS]->(b:Benefit)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('b')}
       OPTIONAL MATCH (e)-[:TRIGGERS]->(o:Obligation)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('o')}
       RETURN collect(DISTINCT b) AS benefits, collect(DISTINCT o) AS obligations
     `;
 
-    const records = await this.executeCypher(query, { lifeEventId, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { lifeEventId, jurisdictionId }, asOf);
 
     const benefits: GraphNode[] = [];
     const obligations: GraphNode[] = [];
@@ -921,16 +978,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get penalties for an obligation
    */
-  async getPenaltiesForObligation(obligationId: string): Promise<Penalty[]> {
-    this.logger.info({ obligationId }, `${LOG_PREFIX.graph} Getting penalties for obligation`);
+  async getPenaltiesForObligation(obligationId: string, asOf?: Date): Promise<Penalty[]> {
+    this.logger.info({ obligationId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting penalties for obligation`);
 
     const query = `
       MATCH (o:Obligation {id: $obligationId})-[:HAS_PENALTY]->(p:Penalty)
+      WHERE ${inForceAt('p')}
       RETURN p
       ORDER BY p.applies_after_days ASC
     `;
 
-    const records = await this.executeCypher(query, { obligationId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { obligationId }, asOf);
 
     const penalties: Penalty[] = [];
     for (const record of records) {
@@ -961,22 +1019,26 @@ export class BoltGraphClient implements GraphClient {
    */
   async getPenaltiesForProfile(
     profileId: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<{ obligation: Obligation; penalties: Penalty[] }[]> {
     this.logger.info({
       profileId,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting penalties for profile`);
 
     const query = `
       MATCH (pt:ProfileTag {id: $profileId})
       MATCH (j:Jurisdiction {id: $jurisdictionId})
       MATCH (pt)-[:HAS_OBLIGATION]->(o:Obligation)-[:IN_JURISDICTION]->(j)
+      WHERE ${inForceAt('o')}
       OPTIONAL MATCH (o)-[:HAS_PENALTY]->(p:Penalty)
+      WHERE ${inForceAt('p')}
       RETURN o, collect(p) as penalties
     `;
 
-    const records = await this.executeCypher(query, { profileId, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { profileId, jurisdictionId }, asOf);
 
     const results: { obligation: Obligation; penalties: Penalty[] }[] = [];
 
@@ -1025,15 +1087,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Check if penalty can be waived based on conditions
    */
-  async getPenaltyWaiverConditions(penaltyId: string): Promise<GraphNode[]> {
-    this.logger.info({ penaltyId }, `${LOG_PREFIX.graph} Getting waiver conditions for penalty`);
+  async getPenaltyWaiverConditions(penaltyId: string, asOf?: Date): Promise<GraphNode[]> {
+    this.logger.info({ penaltyId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting waiver conditions for penalty`);
 
     const query = `
       MATCH (p:Penalty {id: $penaltyId})-[:WAIVED_IF]->(c:Condition)
+      WHERE ${inForceAt('c')}
       RETURN c
     `;
 
-    const records = await this.executeCypher(query, { penaltyId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { penaltyId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -1041,16 +1104,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get legal entity types for a jurisdiction
    */
-  async getLegalEntitiesForJurisdiction(jurisdictionId: string): Promise<LegalEntity[]> {
-    this.logger.info({ jurisdictionId }, `${LOG_PREFIX.graph} Getting legal entities for jurisdiction`);
+  async getLegalEntitiesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<LegalEntity[]> {
+    this.logger.info({ jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting legal entities for jurisdiction`);
 
     const query = `
       MATCH (e:LegalEntity)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('e')}
       RETURN e
       ORDER BY e.category, e.label
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionId }, asOf);
 
     const entities: LegalEntity[] = [];
     for (const record of records) {
@@ -1080,16 +1144,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get obligations specific to an entity type
    */
-  async getObligationsForEntityType(entityTypeId: string): Promise<Obligation[]> {
-    this.logger.info({ entityTypeId }, `${LOG_PREFIX.graph} Getting obligations for entity type`);
+  async getObligationsForEntityType(entityTypeId: string, asOf?: Date): Promise<Obligation[]> {
+    this.logger.info({ entityTypeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting obligations for entity type`);
 
     const query = `
       MATCH (o:Obligation)-[:APPLIES_TO_ENTITY]->(e:LegalEntity {id: $entityTypeId})
+      WHERE ${inForceAt('o')}
       RETURN o
       ORDER BY o.category, o.label
     `;
 
-    const records = await this.executeCypher(query, { entityTypeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { entityTypeId }, asOf);
 
     const obligations: Obligation[] = [];
     for (const record of records) {
@@ -1116,23 +1181,25 @@ export class BoltGraphClient implements GraphClient {
   async getTaxCreditsForProfile(
     profileId: string,
     taxYear: number,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<TaxCredit[]> {
     this.logger.info({
       profileId,
       taxYear,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting tax credits for profile`);
 
     const query = `
       MATCH (pt:ProfileTag {id: $profileId})-[:ENTITLED_TO]->(c:TaxCredit)
       MATCH (c)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
-      WHERE c.tax_year = $taxYear
+      WHERE c.tax_year = $taxYear AND ${inForceAt('c')}
       RETURN c
       ORDER BY c.category, c.amount DESC
     `;
 
-    const records = await this.executeCypher(query, { profileId, taxYear, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { profileId, taxYear, jurisdictionId }, asOf);
 
     const credits: TaxCredit[] = [];
     for (const record of records) {
@@ -1160,15 +1227,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get reliefs/benefits that stack with a given node
    */
-  async getStackingOptions(nodeId: string): Promise<GraphNode[]> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting stacking options`);
+  async getStackingOptions(nodeId: string, asOf?: Date): Promise<GraphNode[]> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting stacking options`);
 
     const query = `
       MATCH (n {id: $nodeId})-[:STACKS_WITH]->(stackable)
+      WHERE ${inForceAt('stackable')}
       RETURN stackable
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -1176,15 +1244,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get items that reduce a benefit/relief
    */
-  async getReducingFactors(nodeId: string): Promise<GraphNode[]> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting reducing factors`);
+  async getReducingFactors(nodeId: string, asOf?: Date): Promise<GraphNode[]> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting reducing factors`);
 
     const query = `
       MATCH (reducer)-[:REDUCES]->(n {id: $nodeId})
+      WHERE ${inForceAt('reducer')}
       RETURN reducer
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -1192,16 +1261,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get regulatory bodies for a jurisdiction
    */
-  async getRegulatoryBodiesForJurisdiction(jurisdictionId: string): Promise<RegulatoryBody[]> {
-    this.logger.info({ jurisdictionId }, `${LOG_PREFIX.graph} Getting regulatory bodies for jurisdiction`);
+  async getRegulatoryBodiesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<RegulatoryBody[]> {
+    this.logger.info({ jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting regulatory bodies for jurisdiction`);
 
     const query = `
       MATCH (rb:RegulatoryBody)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('rb')}
       RETURN rb
       ORDER BY rb.domain, rb.label
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionId }, asOf);
 
     const bodies: RegulatoryBody[] = [];
     for (const record of records) {
@@ -1227,16 +1297,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get regulatory body that administers an obligation or benefit
    */
-  async getAdministeringBody(nodeId: string): Promise<RegulatoryBody | null> {
-    this.logger.info({ nodeId }, `${LOG_PREFIX.graph} Getting administering body`);
+  async getAdministeringBody(nodeId: string, asOf?: Date): Promise<RegulatoryBody | null> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting administering body`);
 
     const query = `
       MATCH (n {id: $nodeId})-[:ADMINISTERED_BY]->(rb:RegulatoryBody)
+      WHERE ${inForceAt('rb')}
       RETURN rb
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { nodeId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { nodeId }, asOf);
 
     if (records.length === 0) return null;
 
@@ -1261,16 +1332,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get asset classes for a jurisdiction
    */
-  async getAssetClassesForJurisdiction(jurisdictionId: string): Promise<AssetClass[]> {
-    this.logger.info({ jurisdictionId }, `${LOG_PREFIX.graph} Getting asset classes for jurisdiction`);
+  async getAssetClassesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<AssetClass[]> {
+    this.logger.info({ jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting asset classes for jurisdiction`);
 
     const query = `
       MATCH (ac:AssetClass)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('ac')}
       RETURN ac
       ORDER BY ac.category, ac.label
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionId }, asOf);
 
     const assetClasses: AssetClass[] = [];
     for (const record of records) {
@@ -1297,16 +1369,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get CGT rate for an asset class
    */
-  async getCGTRateForAsset(assetClassId: string): Promise<Rate | null> {
-    this.logger.info({ assetClassId }, `${LOG_PREFIX.graph} Getting CGT rate for asset`);
+  async getCGTRateForAsset(assetClassId: string, asOf?: Date): Promise<Rate | null> {
+    this.logger.info({ assetClassId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting CGT rate for asset`);
 
     const query = `
       MATCH (ac:AssetClass {id: $assetClassId})-[:HAS_CGT_RATE]->(r:Rate)
+      WHERE ${inForceAt('r')}
       RETURN r
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { assetClassId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { assetClassId }, asOf);
 
     if (records.length === 0) return null;
 
@@ -1321,6 +1394,8 @@ export class BoltGraphClient implements GraphClient {
         currency: props.currency as string | undefined,
         band_lower: props.band_lower as number | undefined,
         band_upper: props.band_upper as number | undefined,
+        contribution_class: props.contribution_class as string | undefined,
+        personal_status: props.personal_status as string | undefined,
         effective_from: props.effective_from as string | undefined,
         effective_to: props.effective_to as string | undefined,
         category: props.category as string || 'unknown',
@@ -1333,7 +1408,7 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get rates and thresholds for tax year
    */
-  async getRatesForTaxYear(taxYear: number, jurisdictionId: string): Promise<{
+  async getRatesForTaxYear(taxYear: number, jurisdictionId: string, asOf?: Date): Promise<{
     rates: Rate[];
     thresholds: Threshold[];
     credits: TaxCredit[];
@@ -1341,17 +1416,21 @@ export class BoltGraphClient implements GraphClient {
     this.logger.info({
       taxYear,
       jurisdictionId,
+      asOf: toAsOfParam(asOf),
     }, `${LOG_PREFIX.graph} Getting rates/thresholds for tax year`);
 
     const query = `
       MATCH (ty:TaxYear {year: $taxYear, jurisdiction: $jurisdictionId})
       OPTIONAL MATCH (r:Rate)-[:APPLIES_IN_YEAR]->(ty)
+      WHERE ${inForceAt('r')}
       OPTIONAL MATCH (t:Threshold)-[:APPLIES_IN_YEAR]->(ty)
+      WHERE ${inForceAt('t')}
       OPTIONAL MATCH (c:TaxCredit)-[:APPLIES_IN_YEAR]->(ty)
+      WHERE ${inForceAt('c')}
       RETURN collect(DISTINCT r) as rates, collect(DISTINCT t) as thresholds, collect(DISTINCT c) as credits
     `;
 
-    const records = await this.executeCypher(query, { taxYear, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { taxYear, jurisdictionId }, asOf);
 
     const rates: Rate[] = [];
     const thresholds: Threshold[] = [];
@@ -1373,6 +1452,8 @@ export class BoltGraphClient implements GraphClient {
             currency: props.currency as string | undefined,
             band_lower: props.band_lower as number | undefined,
             band_upper: props.band_upper as number | undefined,
+            contribution_class: props.contribution_class as string | undefined,
+            personal_status: props.personal_status as string | undefined,
             effective_from: props.effective_from as string | undefined,
             effective_to: props.effective_to as string | undefined,
             category: props.category as string || 'unknown',
@@ -1426,16 +1507,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get means test for a benefit
    */
-  async getMeansTestForBenefit(benefitId: string): Promise<MeansTest | null> {
-    this.logger.info({ benefitId }, `${LOG_PREFIX.graph} Getting means test for benefit`);
+  async getMeansTestForBenefit(benefitId: string, asOf?: Date): Promise<MeansTest | null> {
+    this.logger.info({ benefitId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting means test for benefit`);
 
     const query = `
       MATCH (b:Benefit {id: $benefitId})-[:HAS_MEANS_TEST]->(mt:MeansTest)
+      WHERE ${inForceAt('mt')}
       RETURN mt
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { benefitId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { benefitId }, asOf);
 
     if (records.length === 0) return null;
 
@@ -1461,16 +1543,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get National Insurance classes for a jurisdiction
    */
-  async getNIClassesForJurisdiction(jurisdictionId: string): Promise<NIClass[]> {
-    this.logger.info({ jurisdictionId }, `${LOG_PREFIX.graph} Getting NI classes for jurisdiction`);
+  async getNIClassesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<NIClass[]> {
+    this.logger.info({ jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting NI classes for jurisdiction`);
 
     const query = `
       MATCH (ni:NIClass)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('ni')}
       RETURN ni
       ORDER BY ni.label
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionId }, asOf);
 
     const niClasses: NIClass[] = [];
     for (const record of records) {
@@ -1495,17 +1578,18 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get NI class for an employment type
    */
-  async getNIClassForEmploymentType(employmentType: string, jurisdictionId: string): Promise<NIClass | null> {
-    this.logger.info({ employmentType, jurisdictionId }, `${LOG_PREFIX.graph} Getting NI class for employment type`);
+  async getNIClassForEmploymentType(employmentType: string, jurisdictionId: string, asOf?: Date): Promise<NIClass | null> {
+    this.logger.info({ employmentType, jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting NI class for employment type`);
 
     const query = `
       MATCH (pt:ProfileTag {id: $employmentType})-[:HAS_NI_CLASS]->(ni:NIClass)
       MATCH (ni)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('ni')}
       RETURN ni
       LIMIT 1
     `;
 
-    const records = await this.executeCypher(query, { employmentType, jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { employmentType, jurisdictionId }, asOf);
 
     if (records.length === 0) return null;
 
@@ -1529,16 +1613,17 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get benefit caps for a jurisdiction
    */
-  async getBenefitCapsForJurisdiction(jurisdictionId: string): Promise<BenefitCap[]> {
-    this.logger.info({ jurisdictionId }, `${LOG_PREFIX.graph} Getting benefit caps for jurisdiction`);
+  async getBenefitCapsForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<BenefitCap[]> {
+    this.logger.info({ jurisdictionId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting benefit caps for jurisdiction`);
 
     const query = `
       MATCH (cap:BenefitCap)-[:IN_JURISDICTION]->(j:Jurisdiction {id: $jurisdictionId})
+      WHERE ${inForceAt('cap')}
       RETURN cap
       ORDER BY cap.label
     `;
 
-    const records = await this.executeCypher(query, { jurisdictionId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { jurisdictionId }, asOf);
 
     const caps: BenefitCap[] = [];
     for (const record of records) {
@@ -1566,15 +1651,16 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get benefits subject to a benefit cap
    */
-  async getBenefitsSubjectToCap(capId: string): Promise<GraphNode[]> {
-    this.logger.info({ capId }, `${LOG_PREFIX.graph} Getting benefits subject to cap`);
+  async getBenefitsSubjectToCap(capId: string, asOf?: Date): Promise<GraphNode[]> {
+    this.logger.info({ capId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting benefits subject to cap`);
 
     const query = `
       MATCH (b:Benefit)-[:SUBJECT_TO_CAP]->(cap:BenefitCap {id: $capId})
+      WHERE ${inForceAt('b')}
       RETURN b
     `;
 
-    const records = await this.executeCypher(query, { capId }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { capId }, asOf);
     const context = this.parseGraphContext(records);
     return context.nodes;
   }
@@ -1582,18 +1668,19 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get coordination rules between jurisdictions
    */
-  async getCoordinationRules(homeJurisdiction: string, hostJurisdiction: string): Promise<CoordinationRule[]> {
-    this.logger.info({ homeJurisdiction, hostJurisdiction }, `${LOG_PREFIX.graph} Getting coordination rules`);
+  async getCoordinationRules(homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<CoordinationRule[]> {
+    this.logger.info({ homeJurisdiction, hostJurisdiction, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting coordination rules`);
 
     const query = `
       MATCH (cr:CoordinationRule)
       WHERE cr.home_jurisdiction = $homeJurisdiction
         AND cr.host_jurisdiction = $hostJurisdiction
+        AND ${inForceAt('cr')}
       RETURN cr
       ORDER BY cr.regulation, cr.article
     `;
 
-    const records = await this.executeCypher(query, { homeJurisdiction, hostJurisdiction }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { homeJurisdiction, hostJurisdiction }, asOf);
 
     const rules: CoordinationRule[] = [];
     for (const record of records) {
@@ -1620,14 +1707,14 @@ export class BoltGraphClient implements GraphClient {
   /**
    * Get posted worker rules for a profile
    */
-  async getPostedWorkerRules(profileId: string, homeJurisdiction: string, hostJurisdiction: string): Promise<{
+  async getPostedWorkerRules(profileId: string, homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<{
     rules: CoordinationRule[];
     benefits: GraphNode[];
   }> {
-    this.logger.info({ profileId, homeJurisdiction, hostJurisdiction }, `${LOG_PREFIX.graph} Getting posted worker rules`);
+    this.logger.info({ profileId, homeJurisdiction, hostJurisdiction, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting posted worker rules`);
 
     // Get coordination rules
-    const rules = await this.getCoordinationRules(homeJurisdiction, hostJurisdiction);
+    const rules = await this.getCoordinationRules(homeJurisdiction, hostJurisdiction, asOf);
 
     // Get benefits coordinated under these rules
     const query = `
@@ -1635,10 +1722,12 @@ export class BoltGraphClient implements GraphClient {
       MATCH (b)-[:COORDINATED_UNDER]->(cr:CoordinationRule)
       WHERE cr.home_jurisdiction = $homeJurisdiction
         AND cr.host_jurisdiction = $hostJurisdiction
+        AND ${inForceAt('b')}
+        AND ${inForceAt('cr')}
       RETURN b
     `;
 
-    const records = await this.executeCypher(query, { profileId, homeJurisdiction, hostJurisdiction }) as Array<Record<string, unknown>>;
+    const records = await this.executeCypherAsOf(query, { profileId, homeJurisdiction, hostJurisdiction }, asOf);
     const context = this.parseGraphContext(records);
 
     return {
@@ -1647,6 +1736,184 @@ export class BoltGraphClient implements GraphClient {
     };
   }
 
+  /**
+   * Get the rules that decide eligibility for a benefit or relief
+   */
+  async getEligibilityRules(nodeId: string, asOf?: Date): Promise<EligibilityRuleSet | null> {
+    this.logger.info({ nodeId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting eligibility rules`);
+
+    const benefitRecords = await this.executeCypherAsOf(
+      `MATCH (b {id: $nodeId}) WHERE ${inForceAt('b')} RETURN b LIMIT 1`,
+      { nodeId },
+      asOf
+    );
+    const benefit = benefitRecords.length > 0 ? this.parseNode(benefitRecords[0].b) : null;
+    if (!benefit) return null;
+
+    const conditionQuery = `
+      MATCH (b {id: $nodeId})-[:REQUIRES]->(c:Condition)
+      WHERE ${inForceAt('c')}
+      OPTIONAL MATCH (c)-[:HAS_THRESHOLD]->(t:Threshold)
+      WHERE ${inForceAt('t')}
+      OPTIONAL MATCH (c)-[:LOOKBACK_WINDOW]->(tl:Timeline)
+      WHERE ${inForceAt('tl')}
+      RETURN c, collect(DISTINCT t) AS thresholds, collect(DISTINCT tl) AS lookbacks
+    `;
+    const thresholdQuery = `
+      MATCH (b {id: $nodeId})-[:LIMITED_BY_THRESHOLD]->(t:Threshold)
+      WHERE ${inForceAt('t')}
+      RETURN t
+    `;
+    const lookbackQuery = `
+      MATCH (b {id: $nodeId})-[:LOOKBACK_WINDOW]->(t:Timeline)
+      WHERE ${inForceAt('t')}
+      RETURN t
+    `;
+
+    const [conditionRecords, thresholdRecords, lookbackRecords, meansTest, exclusions] = await Promise.all([
+      this.executeCypherAsOf(conditionQuery, { nodeId }, asOf),
+      this.executeCypherAsOf(thresholdQuery, { nodeId }, asOf),
+      this.executeCypherAsOf(lookbackQuery, { nodeId }, asOf),
+      this.getMeansTestForBenefit(nodeId, asOf),
+      this.getMutualExclusions(nodeId, asOf),
+    ]);
+
+    const conditions: EligibilityRuleSet['conditions'] = [];
+    for (const record of conditionRecords) {
+      const props = this.nodeProperties(record.c);
+      if (!props) continue;
+      conditions.push({
+        condition: {
+          id: props.id as string || 'unknown',
+          label: props.label as string || 'Unknown Condition',
+          description: props.description as string | undefined,
+          category: props.category as string | undefined,
+          fact: props.fact as string | undefined,
+          operator: props.operator as Condition['operator'],
+          value: props.value as Condition['value'],
+        },
+        thresholds: (record.thresholds as unknown[] ?? [])
+          .map(t => this.parseThreshold(t))
+          .filter((t): t is Threshold => t !== null),
+        lookbacks: (record.lookbacks as unknown[] ?? [])
+          .map(t => this.parseTimeline(t))
+          .filter((t): t is Timeline => t !== null),
+      });
+    }
+
+    return {
+      benefit,
+      conditions,
+      thresholds: thresholdRecords
+        .map(record => this.parseThreshold(record.t))
+        .filter((t): t is Threshold => t !== null),
+      lookbacks: lookbackRecords
+        .map(record => this.parseTimeline(record.t))
+        .filter((t): t is Timeline => t !== null),
+      meansTest,
+      exclusions,
+    };
+  }
+
+  /**
+   * Get the timelines a life event starts or ends and the filing deadlines of
+   * the benefits and obligations it triggers
+   */
+  async getLifeEventTimelineChain(lifeEventId: string, asOf?: Date): Promise<LifeEventTimelineChain | null> {
+    this.logger.info({ lifeEventId, asOf: toAsOfParam(asOf) }, `${LOG_PREFIX.graph} Getting life event timeline chain`);
+
+    const query = `
+      MATCH (e:LifeEvent {id: $lifeEventId})
+      OPTIONAL MATCH (e)-[:STARTS_TIMELINE]->(s:Timeline)
+      WHERE ${inForceAt('s')}
+      WITH e, collect(DISTINCT s) AS starts
+      OPTIONAL MATCH (e)-[:ENDS_TIMELINE]->(x:Timeline)
+      WHERE ${inForceAt('x')}
+      WITH e, starts, collect(DISTINCT x) AS ends
+      OPTIONAL MATCH (e)-[:TRIGGERS]->(n)-[:FILING_DEADLINE]->(t:Timeline)
+      WHERE ${inForceAt('n')} AND ${inForceAt('t')}
+      RETURN e, starts, ends, collect(DISTINCT {source: n, timeline: t}) AS deadlines
+    `;
+
+    const records = await this.executeCypherAsOf(query, { lifeEventId }, asOf);
+    const record = records[0];
+    const lifeEvent = record ? this.parseNode(record.e) : null;
+    if (!record || !lifeEvent) {
+      return null;
+    }
+
+    const deadlines: LifeEventTimelineChain['deadlines'] = [];
+    for (const entry of (record.deadlines as Array<{ source: unknown; timeline: unknown }>) ?? []) {
+      const source = entry.source ? this.parseNode(entry.source) : null;
+      const timeline = this.parseTimeline(entry.timeline);
+      if (source && timeline) {
+        deadlines.push({ source, timeline });
+      }
+    }
+
+    return {
+      lifeEvent,
+      starts: ((record.starts as unknown[]) ?? [])
+        .map(t => this.parseTimeline(t))
+        .filter((t): t is Timeline => t !== null),
+      ends: ((record.ends as unknown[]) ?? [])
+        .map(t => this.parseTimeline(t))
+        .filter((t): t is Timeline => t !== null),
+      deadlines,
+    };
+  }
+
+  /**
+   * Read the properties of a Neo4j node
+   */
+  private nodeProperties(node: unknown): Record<string, unknown> | null {
+    if (node && typeof node === 'object' && 'properties' in node) {
+      return (node as { properties: Record<string, unknown> }).properties;
+    }
+    return null;
+  }
+
+  /**
+   * Parse a Neo4j node to a Threshold
+   */
+  private parseThreshold(node: unknown): Threshold | null {
+    const props = this.nodeProperties(node);
+    if (!props) return null;
+    return {
+      id: props.id as string || 'unknown',
+      label: props.label as string || 'Unknown Threshold',
+      value: props.value as number || 0,
+      unit: (props.unit as Threshold['unit']) || 'EUR',
+      direction: (props.direction as Threshold['direction']) || 'BELOW',
+      upper_bound: props.upper_bound as number | undefined,
+      effective_from: props.effective_from as string | undefined,
+      effective_to: props.effective_to as string | undefined,
+      category: props.category as string | undefined,
+      fact: props.fact as string | undefined,
+    };
+  }
+
+  /**
+   * Parse a Neo4j node to a Timeline
+   */
+  private parseTimeline(node: unknown): Timeline | null {
+    const props = this.nodeProperties(node);
+    if (!props) return null;
+    return {
+      id: props.id as string || 'unknown',
+      label: props.label as string || 'Unknown Timeline',
+      window_days: props.window_days as number | undefined,
+      window_months: props.window_months as number | undefined,
+      window_years: props.window_years as number | undefined,
+      kind: props.kind as Timeline['kind'],
+      jurisdictionCode: props.jurisdictionCode as string | undefined,
+      anchor: props.anchor as Timeline['anchor'],
+      day_of_month: props.day_of_month as number | undefined,
+      business_days: props.business_days as boolean | undefined,
+      notes: props.notes as string | undefined,
+    };
+  }
+
   /**
    * Close the driver connection
    */
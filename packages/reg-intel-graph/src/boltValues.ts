@@ -0,0 +1,58 @@
+/**
+ * Plain values for properties read over Bolt
+ *
+ * neo4j-driver returns integers as Integer objects and dates and times as
+ * temporal objects. Both serialise to JSON as maps of their internal fields,
+ * so comparing them with plain values fails and writing them back stores a
+ * map instead of the original value. Properties are converted to numbers and
+ * ISO strings before they are compared, recorded or restored.
+ */
+
+import neo4j from 'neo4j-driver';
+
+function isTemporal(value: unknown): boolean {
+  return (
+    neo4j.isDate(value) ||
+    neo4j.isDateTime(value) ||
+    neo4j.isLocalDateTime(value) ||
+    neo4j.isLocalTime(value) ||
+    neo4j.isTime(value) ||
+    neo4j.isDuration(value)
+  );
+}
+
+/**
+ * An Integer that has already been through JSON, e.g. in a recorded change
+ */
+function isSerializedInteger(value: object): value is { low: number; high: number } {
+  const { low, high } = value as { low?: unknown; high?: unknown };
+  return Object.keys(value).length === 2 && typeof low === 'number' && typeof high === 'number';
+}
+
+/**
+ * Convert a Bolt property value to a number, string or array of them
+ */
+export function toPlainGraphValue(value: unknown): unknown {
+  if (neo4j.isInt(value)) {
+    return value.toNumber();
+  }
+  if (isTemporal(value)) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainGraphValue);
+  }
+  if (value && typeof value === 'object' && isSerializedInteger(value)) {
+    return neo4j.Integer.fromBits(value.low, value.high).toNumber();
+  }
+  return value;
+}
+
+/**
+ * Convert every value of a Bolt property map with toPlainGraphValue
+ */
+export function toPlainGraphProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => [key, toPlainGraphValue(value)]),
+  );
+}
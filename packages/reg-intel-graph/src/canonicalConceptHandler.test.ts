@@ -2,6 +2,7 @@ import { describe, expect, it, vi, beforeEach } from 'vitest';
 import type { Driver, Session, Result, QueryResult } from 'neo4j-driver';
 import { CanonicalConceptHandler, type CapturedConceptPayload } from './canonicalConceptHandler.js';
 import type { GraphWriteService } from './graphWriteService.js';
+import { InMemoryConceptProposalStore } from './curation/conceptProposalStore.js';
 
 function createMockRecord(data: Record<string, unknown>) {
   return {
@@ -247,6 +248,26 @@ describe('CanonicalConceptHandler', () => {
       );
     });
 
+    it('resolves a merged concept ID to the concept it was merged into', async () => {
+      const session = createMockSession();
+      session.run = vi.fn()
+        .mockResolvedValueOnce(createMockResult([createMockRecord({ id: 'SOCIAL:IE:PRSI_CLASS_S' })]));
+
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session) });
+      const graphWriteService = createMockGraphWriteService();
+
+      const ids = await handler.resolveAndUpsert(
+        [{ label: 'Class S PRSI', canonicalId: 'SOCIAL:IE:CLASS_S_PRSI' }],
+        graphWriteService
+      );
+
+      expect(ids).toEqual(['SOCIAL:IE:PRSI_CLASS_S']);
+      expect(session.run).toHaveBeenCalledWith(
+        expect.stringContaining('OPTIONAL MATCH (c)-[:MERGED_INTO]->(target:Concept)'),
+        { id: 'SOCIAL:IE:CLASS_S_PRSI' }
+      );
+    });
+
     it('finds existing concept by domain/kind/jurisdiction fallback', async () => {
       const session = createMockSession();
       const existingId = 'EXISTING:VAT:123';
@@ -608,4 +629,158 @@ describe('CanonicalConceptHandler', () => {
       expect(session.close).toHaveBeenCalled();
     });
   });
+
+  describe('proposal staging', () => {
+    const vat: CapturedConceptPayload = {
+      label: 'Value Added Tax',
+      prefLabel: 'VAT',
+      domain: 'TAX',
+      jurisdiction: 'IE',
+      kind: 'VAT',
+    };
+    const provenance = {
+      tenantId: 'tenant-1',
+      conversationId: 'conversation-1',
+      model: 'gpt-4.1',
+      traceId: 'trace-1',
+    };
+
+    it('stages new concepts as pending proposals instead of writing them', async () => {
+      const session = createMockSession();
+      session.run = vi.fn()
+        .mockResolvedValueOnce(createMockResult([])) // No direct ID match
+        .mockResolvedValueOnce(createMockResult([])) // No fallback match
+        .mockResolvedValueOnce(
+          createMockResult([
+            createMockRecord({ id: 'TAX:IE:SALES_TAX', prefLabel: 'Sales tax', matchedLabel: 'VAT' }),
+          ])
+        );
+
+      const proposalStore = new InMemoryConceptProposalStore();
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session), proposalStore });
+      const graphWriteService = createMockGraphWriteService();
+
+      const resolvedIds = await handler.resolveAndUpsert([vat], graphWriteService, provenance);
+
+      expect(resolvedIds).toEqual([]);
+      expect(graphWriteService.upsertConcept).not.toHaveBeenCalled();
+      expect(await proposalStore.listProposals()).toEqual([
+        expect.objectContaining({
+          status: 'pending',
+          conceptId: 'TAX:IE:VAT',
+          prefLabel: 'VAT',
+          provenance,
+          suggestedDuplicates: [
+            { conceptId: 'TAX:IE:SALES_TAX', prefLabel: 'Sales tax', matchedLabel: 'VAT' },
+          ],
+        }),
+      ]);
+      expect(session.run).toHaveBeenLastCalledWith(
+        expect.stringContaining('alt_labels'),
+        expect.objectContaining({ labels: ['VAT', 'Value Added Tax'] })
+      );
+    });
+
+    it('resolves concepts already in the graph without modifying them', async () => {
+      const session = createMockSession();
+      session.run = vi.fn().mockResolvedValueOnce(createMockResult([createMockRecord({ id: 'TAX:IE:VAT' })]));
+
+      const proposalStore = new InMemoryConceptProposalStore();
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session), proposalStore });
+      const graphWriteService = createMockGraphWriteService();
+
+      const resolvedIds = await handler.resolveAndUpsert([vat], graphWriteService, provenance);
+
+      expect(resolvedIds).toEqual(['TAX:IE:VAT']);
+      expect(graphWriteService.upsertConcept).not.toHaveBeenCalled();
+      expect(await proposalStore.listProposals()).toEqual([]);
+    });
+
+    it('proposes a concept once and resolves applied merges to their target', async () => {
+      const session = createMockSession();
+      session.run = vi.fn().mockResolvedValue(createMockResult([]));
+
+      const proposalStore = new InMemoryConceptProposalStore();
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session), proposalStore });
+      const graphWriteService = createMockGraphWriteService();
+
+      await handler.resolveAndUpsert([vat], graphWriteService, provenance);
+      expect(await handler.resolveAndUpsert([vat], graphWriteService, provenance)).toEqual([]);
+
+      const [proposal] = await proposalStore.listProposals();
+      await proposalStore.reviewProposal(proposal.id, {
+        status: 'merged',
+        mergedIntoId: 'TAX:IE:VALUE_ADDED_TAX',
+        reviewedBy: 'curator-1',
+      });
+      await proposalStore.markApplied(proposal.id, '2026-10-19T10:00:00.000Z');
+
+      expect(await handler.resolveAndUpsert([vat], graphWriteService, provenance)).toEqual([
+        'TAX:IE:VALUE_ADDED_TAX',
+      ]);
+      expect(await proposalStore.listProposals()).toHaveLength(1);
+    });
+  });
+
+  describe('mergeIntoConcept', () => {
+    it('adds the captured labels to the target concept', async () => {
+      const session = createMockSession();
+      session.run = vi.fn().mockResolvedValueOnce(
+        createMockResult([
+          createMockRecord({ id: 'TAX:IE:VAT', prefLabel: 'VAT', altLabels: ['Value-Added Tax'] }),
+        ])
+      );
+
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session) });
+      const graphWriteService = createMockGraphWriteService();
+
+      await handler.mergeIntoConcept(
+        'TAX:IE:VAT',
+        { label: 'Value Added Tax', prefLabel: 'VAT' },
+        graphWriteService
+      );
+
+      expect(graphWriteService.upsertConcept).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'TAX:IE:VAT',
+          pref_label: 'VAT',
+          alt_labels: ['Value-Added Tax', 'Value Added Tax'],
+        })
+      );
+      expect(graphWriteService.createRelationship).toHaveBeenCalledTimes(1);
+      expect(graphWriteService.createRelationship).toHaveBeenCalledWith(
+        expect.objectContaining({ fromId: 'TAX:IE:VAT', toId: 'TAX:IE:VAT:LABEL:VALUE_ADDED_TAX' })
+      );
+    });
+
+    it('resolves a target that has been merged into another concept', async () => {
+      const session = createMockSession();
+      session.run = vi.fn().mockResolvedValueOnce(
+        createMockResult([createMockRecord({ id: 'TAX:IE:VAT', prefLabel: 'VAT', altLabels: [] })])
+      );
+
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session) });
+      const graphWriteService = createMockGraphWriteService();
+
+      await handler.mergeIntoConcept('TAX:IE:VALUE_ADDED_TAX', { label: 'Sales tax' }, graphWriteService);
+
+      expect(session.run).toHaveBeenCalledWith(expect.stringContaining('MERGED_INTO'), {
+        id: 'TAX:IE:VALUE_ADDED_TAX',
+      });
+      expect(graphWriteService.upsertConcept).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'TAX:IE:VAT', alt_labels: ['Sales tax'] })
+      );
+    });
+
+    it('throws when the target concept does not exist', async () => {
+      const session = createMockSession();
+      session.run = vi.fn().mockResolvedValueOnce(createMockResult([]));
+
+      const handler = new CanonicalConceptHandler({ driver: createMockDriver(session) });
+
+      await expect(
+        handler.mergeIntoConcept('TAX:IE:MISSING', { label: 'VAT' }, createMockGraphWriteService())
+      ).rejects.toThrow('does not exist');
+    });
+  });
 });
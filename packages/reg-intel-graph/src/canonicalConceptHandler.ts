@@ -1,6 +1,12 @@
+import { randomUUID } from 'node:crypto';
 import type { Driver } from 'neo4j-driver';
 
 import type { GraphWriteService } from './graphWriteService.js';
+import type {
+  ConceptDuplicateSuggestion,
+  ConceptProposalStore,
+  ConceptProvenance,
+} from './curation/types.js';
 
 export interface CapturedConceptPayload {
   label: string;
@@ -18,8 +24,15 @@ export interface CapturedConceptPayload {
 
 export interface CanonicalConceptHandlerConfig {
   driver: Driver;
+  /**
+   * Stage new concepts as proposals for curator review instead of writing
+   * them to the graph
+   */
+  proposalStore?: ConceptProposalStore;
 }
 
+const MAX_DUPLICATE_SUGGESTIONS = 10;
+
 function slugify(value: string) {
   return value
     .trim()
@@ -42,10 +55,18 @@ function buildConceptId(concept: CapturedConceptPayload) {
   return `${domain}:${jurisdiction}:${kind}`;
 }
 
+/**
+ * ID of an existing concept, following the redirect left by a concept merge
+ */
 async function findExistingConceptId(driver: Driver, id: string, domain?: string, kind?: string, jurisdiction?: string) {
   const session = driver.session();
   try {
-    const direct = await session.run('MATCH (c:Concept {id: $id}) RETURN c.id as id LIMIT 1', { id });
+    const direct = await session.run(
+      `MATCH (c:Concept {id: $id})
+       OPTIONAL MATCH (c)-[:MERGED_INTO]->(target:Concept)
+       RETURN coalesce(target.id, c.id) as id LIMIT 1`,
+      { id },
+    );
     const directValue = direct.records[0]?.get('id') as string | undefined;
     if (directValue) {
       return directValue;
@@ -53,7 +74,9 @@ async function findExistingConceptId(driver: Driver, id: string, domain?: string
 
     if (domain && kind && jurisdiction) {
       const fallback = await session.run(
-        `MATCH (c:Concept {domain: $domain, kind: $kind, jurisdiction: $jurisdiction}) RETURN c.id as id LIMIT 1`,
+        `MATCH (c:Concept {domain: $domain, kind: $kind, jurisdiction: $jurisdiction})
+         WHERE NOT (c)-[:MERGED_INTO]->()
+         RETURN c.id as id LIMIT 1`,
         { domain, kind, jurisdiction },
       );
       return fallback.records[0]?.get('id') as string | undefined;
@@ -65,18 +88,77 @@ async function findExistingConceptId(driver: Driver, id: string, domain?: string
   }
 }
 
+function resolvePrefLabel(concept: CapturedConceptPayload) {
+  return concept.prefLabel || concept.label || concept.kind || concept.domain;
+}
+
+function collectAltLabels(concept: CapturedConceptPayload) {
+  return Array.from(
+    new Set([concept.label, concept.prefLabel, ...(concept.altLabels || [])].filter(Boolean)),
+  ) as string[];
+}
+
+/**
+ * Concepts whose preferred or alternative label matches any of the labels,
+ * ignoring case
+ */
+async function findConceptsByLabel(driver: Driver, labels: string[]): Promise<ConceptDuplicateSuggestion[]> {
+  const session = driver.session();
+  try {
+    const result = await session.run(
+      `UNWIND $labels AS label
+       MATCH (c:Concept)
+       WHERE NOT (c)-[:MERGED_INTO]->()
+         AND (toLower(c.pref_label) = toLower(label)
+          OR any(alt IN coalesce(c.alt_labels, []) WHERE toLower(alt) = toLower(label)))
+       RETURN DISTINCT c.id AS id, c.pref_label AS prefLabel, label AS matchedLabel
+       LIMIT $limit`,
+      { labels, limit: MAX_DUPLICATE_SUGGESTIONS },
+    );
+
+    const suggestions = new Map<string, ConceptDuplicateSuggestion>();
+    for (const record of result.records) {
+      const conceptId = record.get('id') as string;
+      if (!suggestions.has(conceptId)) {
+        suggestions.set(conceptId, {
+          conceptId,
+          prefLabel: record.get('prefLabel') as string,
+          matchedLabel: record.get('matchedLabel') as string,
+        });
+      }
+    }
+    return [...suggestions.values()];
+  } finally {
+    await session.close();
+  }
+}
+
 export class CanonicalConceptHandler {
   private driver: Driver;
+  private proposalStore?: ConceptProposalStore;
 
   constructor(config: CanonicalConceptHandlerConfig) {
     this.driver = config.driver;
+    this.proposalStore = config.proposalStore;
   }
 
-  async resolveAndUpsert(concepts: CapturedConceptPayload[], graphWriteService: GraphWriteService) {
+  /**
+   * Resolve captured concepts to graph concept IDs
+   *
+   * Without a proposal store, new concepts are written to the graph directly.
+   * With one, concepts already in the graph are resolved without being
+   * modified and new concepts are staged as pending proposals; they resolve
+   * only once a curator's decision has been applied.
+   */
+  async resolveAndUpsert(
+    concepts: CapturedConceptPayload[],
+    graphWriteService: GraphWriteService,
+    provenance: ConceptProvenance = {},
+  ) {
     const resolvedIds: string[] = [];
 
     for (const concept of concepts) {
-      const prefLabel = concept.prefLabel || concept.label || concept.kind || concept.domain;
+      const prefLabel = resolvePrefLabel(concept);
       if (!prefLabel) {
         continue;
       }
@@ -89,47 +171,164 @@ export class CanonicalConceptHandler {
         concept.kind,
         concept.jurisdiction,
       );
-      const finalId = existingId || conceptId;
-
-      const timestamp = new Date().toISOString();
-      const altLabels = Array.from(
-        new Set([concept.label, concept.prefLabel, ...(concept.altLabels || [])].filter(Boolean)),
-      ) as string[];
-
-      await graphWriteService.upsertConcept({
-        id: finalId,
-        pref_label: prefLabel,
-        domain: concept.domain,
-        kind: concept.kind || concept.type,
-        jurisdiction: concept.jurisdiction,
-        definition: concept.definition,
-        alt_labels: altLabels,
-        source_urls: concept.sourceUrls,
-        updated_at: timestamp,
-        created_at: timestamp,
-      });
 
-      for (const altLabel of altLabels) {
-        const labelId = `${finalId}:LABEL:${slugify(altLabel).toUpperCase()}`;
-        await graphWriteService.upsertLabel({
-          id: labelId,
-          value: altLabel,
-          kind: 'ALT_LABEL',
-        });
-        await graphWriteService.createRelationship({
-          fromId: finalId,
-          fromLabel: 'Concept',
-          toId: labelId,
-          toLabel: 'Label',
-          relType: 'HAS_ALT_LABEL',
-        });
+      if (this.proposalStore) {
+        const resolvedId =
+          existingId || (await this.stageConcept(this.proposalStore, conceptId, concept, provenance));
+        if (resolvedId) {
+          resolvedIds.push(resolvedId);
+        }
+        continue;
       }
 
+      const finalId = existingId || conceptId;
+      await this.upsertCapturedConcept(finalId, concept, graphWriteService);
       resolvedIds.push(finalId);
     }
 
     return resolvedIds;
   }
+
+  /**
+   * Write a captured concept and its alternative labels under the given ID
+   */
+  async upsertCapturedConcept(
+    conceptId: string,
+    concept: CapturedConceptPayload,
+    graphWriteService: GraphWriteService,
+  ) {
+    const prefLabel = resolvePrefLabel(concept);
+    if (!prefLabel) {
+      throw new Error(`Captured concept ${conceptId} has no label`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const altLabels = collectAltLabels(concept);
+
+    await graphWriteService.upsertConcept({
+      id: conceptId,
+      pref_label: prefLabel,
+      domain: concept.domain,
+      kind: concept.kind || concept.type,
+      jurisdiction: concept.jurisdiction,
+      definition: concept.definition,
+      alt_labels: altLabels,
+      source_urls: concept.sourceUrls,
+      updated_at: timestamp,
+      created_at: timestamp,
+    });
+
+    await this.linkAltLabels(conceptId, altLabels, graphWriteService);
+  }
+
+  /**
+   * Add a captured concept's labels to an existing concept as alternative labels
+   *
+   * A target that has itself been merged resolves to the concept it was merged into.
+   */
+  async mergeIntoConcept(
+    targetId: string,
+    concept: CapturedConceptPayload,
+    graphWriteService: GraphWriteService,
+  ) {
+    const session = this.driver.session();
+    let target: { id: string; prefLabel: string; altLabels: string[] } | undefined;
+    try {
+      const result = await session.run(
+        `MATCH (c:Concept {id: $id})
+         OPTIONAL MATCH (c)-[:MERGED_INTO]->(redirect:Concept)
+         WITH coalesce(redirect, c) AS c
+         RETURN c.id AS id, c.pref_label AS prefLabel, c.alt_labels AS altLabels LIMIT 1`,
+        { id: targetId },
+      );
+      const record = result.records[0];
+      if (record) {
+        target = {
+          id: record.get('id') as string,
+          prefLabel: record.get('prefLabel') as string,
+          altLabels: (record.get('altLabels') as string[] | null) ?? [],
+        };
+      }
+    } finally {
+      await session.close();
+    }
+
+    if (!target) {
+      throw new Error(`Concept ${targetId} does not exist`);
+    }
+
+    const altLabels = collectAltLabels(concept).filter(label => label !== target.prefLabel);
+    await graphWriteService.upsertConcept({
+      id: target.id,
+      pref_label: target.prefLabel,
+      alt_labels: Array.from(new Set([...target.altLabels, ...altLabels])),
+      updated_at: new Date().toISOString(),
+    });
+
+    await this.linkAltLabels(target.id, altLabels, graphWriteService);
+  }
+
+  private async linkAltLabels(conceptId: string, altLabels: string[], graphWriteService: GraphWriteService) {
+    for (const altLabel of altLabels) {
+      const labelId = `${conceptId}:LABEL:${slugify(altLabel).toUpperCase()}`;
+      await graphWriteService.upsertLabel({
+        id: labelId,
+        value: altLabel,
+        kind: 'ALT_LABEL',
+      });
+      await graphWriteService.createRelationship({
+        fromId: conceptId,
+        fromLabel: 'Concept',
+        toId: labelId,
+        toLabel: 'Label',
+        relType: 'HAS_ALT_LABEL',
+      });
+    }
+  }
+
+  /**
+   * Stage a concept that is not in the graph for review
+   *
+   * A concept is proposed once: while its proposal is pending, approved or
+   * rejected, later captures are ignored. A merged proposal resolves to its
+   * target concept once applied.
+   */
+  private async stageConcept(
+    store: ConceptProposalStore,
+    conceptId: string,
+    concept: CapturedConceptPayload,
+    provenance: ConceptProvenance,
+  ): Promise<string | null> {
+    const latest = await store.findLatestByConceptId(conceptId);
+    if (latest) {
+      return latest.status === 'merged' && latest.appliedAt ? latest.mergedIntoId : null;
+    }
+
+    const prefLabel = resolvePrefLabel(concept) as string;
+    const suggestedDuplicates = await findConceptsByLabel(
+      this.driver,
+      Array.from(new Set([prefLabel, ...collectAltLabels(concept)])),
+    );
+
+    await store.createProposals([
+      {
+        id: randomUUID(),
+        status: 'pending',
+        conceptId,
+        prefLabel,
+        concept,
+        provenance,
+        suggestedDuplicates,
+        createdAt: new Date().toISOString(),
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewNote: null,
+        mergedIntoId: null,
+        appliedAt: null,
+      },
+    ]);
+    return null;
+  }
 }
 
 export function createCanonicalConceptHandler(config: CanonicalConceptHandlerConfig) {
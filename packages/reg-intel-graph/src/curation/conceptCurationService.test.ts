@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CanonicalConceptHandler } from '../canonicalConceptHandler.js';
+import type { GraphWriteService } from '../graphWriteService.js';
+import { ConceptCurationService } from './conceptCurationService.js';
+import { InMemoryConceptProposalStore } from './conceptProposalStore.js';
+import type { ConceptProposal } from './types.js';
+
+const proposal = (overrides: Partial<ConceptProposal> = {}): ConceptProposal => ({
+  id: 'proposal-1',
+  status: 'pending',
+  conceptId: 'TAX:IE:VAT',
+  prefLabel: 'VAT',
+  concept: { label: 'Value Added Tax', prefLabel: 'VAT', domain: 'TAX', jurisdiction: 'IE', kind: 'VAT' },
+  provenance: { tenantId: 'tenant-1', conversationId: 'conversation-1', model: 'gpt-4.1', traceId: 'trace-1' },
+  suggestedDuplicates: [],
+  createdAt: '2026-10-19T09:00:00.000Z',
+  reviewedBy: null,
+  reviewedAt: null,
+  reviewNote: null,
+  mergedIntoId: null,
+  appliedAt: null,
+  ...overrides,
+});
+
+describe('ConceptCurationService', () => {
+  let store: InMemoryConceptProposalStore;
+  let conceptHandler: {
+    upsertCapturedConcept: ReturnType<typeof vi.fn>;
+    mergeIntoConcept: ReturnType<typeof vi.fn>;
+  };
+  const writeService = {} as GraphWriteService;
+  let service: ConceptCurationService;
+
+  beforeEach(async () => {
+    store = new InMemoryConceptProposalStore();
+    await store.createProposals([proposal()]);
+    conceptHandler = {
+      upsertCapturedConcept: vi.fn().mockResolvedValue(undefined),
+      mergeIntoConcept: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new ConceptCurationService({
+      store,
+      conceptHandler: conceptHandler as unknown as CanonicalConceptHandler,
+      writeService,
+    });
+  });
+
+  it('writes approved concepts under the proposed ID', async () => {
+    const approved = await service.approve('proposal-1', { reviewedBy: 'curator-1', note: 'Looks right' });
+
+    expect(conceptHandler.upsertCapturedConcept).toHaveBeenCalledWith(
+      'TAX:IE:VAT',
+      expect.objectContaining({ prefLabel: 'VAT' }),
+      writeService
+    );
+    expect(approved).toMatchObject({ status: 'approved', reviewedBy: 'curator-1', reviewNote: 'Looks right' });
+    expect((await store.getProposal('proposal-1'))?.appliedAt).toEqual(expect.any(String));
+  });
+
+  it('merges proposals into the chosen concept', async () => {
+    const merged = await service.merge('proposal-1', 'TAX:IE:VALUE_ADDED_TAX', { reviewedBy: 'curator-1' });
+
+    expect(conceptHandler.mergeIntoConcept).toHaveBeenCalledWith(
+      'TAX:IE:VALUE_ADDED_TAX',
+      expect.objectContaining({ label: 'Value Added Tax' }),
+      writeService
+    );
+    expect(merged).toMatchObject({ status: 'merged', mergedIntoId: 'TAX:IE:VALUE_ADDED_TAX' });
+  });
+
+  it('rejects proposals without touching the graph', async () => {
+    const rejected = await service.reject('proposal-1', { reviewedBy: 'curator-1', note: 'Not a concept' });
+
+    expect(rejected).toMatchObject({ status: 'rejected', appliedAt: null });
+    expect(conceptHandler.upsertCapturedConcept).not.toHaveBeenCalled();
+    expect(conceptHandler.mergeIntoConcept).not.toHaveBeenCalled();
+    expect(await service.listProposals()).toEqual([]);
+  });
+
+  it('refuses to review a proposal twice', async () => {
+    await service.reject('proposal-1', { reviewedBy: 'curator-1' });
+
+    await expect(service.approve('proposal-1', { reviewedBy: 'curator-2' })).rejects.toThrow(
+      'already been rejected'
+    );
+    await expect(service.approve('missing', { reviewedBy: 'curator-2' })).rejects.toThrow('not found');
+  });
+
+  it('applies decisions recorded directly in the store and retries failures', async () => {
+    await store.createProposals([
+      proposal({ id: 'proposal-2', conceptId: 'TAX:IE:CGT', createdAt: '2026-10-19T09:01:00.000Z' }),
+    ]);
+    await store.reviewProposal('proposal-1', { status: 'approved', reviewedBy: 'curator-1' });
+    await store.reviewProposal('proposal-2', {
+      status: 'merged',
+      mergedIntoId: 'TAX:IE:CAPITAL_GAINS_TAX',
+      reviewedBy: 'curator-1',
+    });
+    conceptHandler.mergeIntoConcept.mockRejectedValueOnce(new Error('Concept TAX:IE:CAPITAL_GAINS_TAX does not exist'));
+
+    const report = await service.applyReviewed();
+
+    expect(report.applied.map(p => p.id)).toEqual(['proposal-1']);
+    expect(report.failed).toEqual([
+      expect.objectContaining({ error: 'Concept TAX:IE:CAPITAL_GAINS_TAX does not exist' }),
+    ]);
+
+    const retry = await service.applyReviewed();
+    expect(retry.applied.map(p => p.id)).toEqual(['proposal-2']);
+    expect(await store.listProposals({ unapplied: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Concept curation service
+ *
+ * Reviews concept proposals staged by CanonicalConceptHandler and applies the
+ * decisions to the graph. Approving writes the proposed concept and its
+ * alternative labels; merging adds the proposal's labels to an existing
+ * Concept; rejecting leaves the graph untouched.
+ *
+ * Decisions can also be recorded directly in the proposal store (the
+ * copilot-admin review screen does this); applyReviewed() writes any approved
+ * or merged proposals that have not reached the graph yet.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { CanonicalConceptHandler } from '../canonicalConceptHandler.js';
+import type { GraphWriteService } from '../graphWriteService.js';
+import type {
+  ConceptProposal,
+  ConceptProposalQuery,
+  ConceptProposalReview,
+  ConceptProposalStore,
+} from './types.js';
+
+export interface ConceptCurationServiceConfig {
+  store: ConceptProposalStore;
+  conceptHandler: CanonicalConceptHandler;
+  writeService: GraphWriteService;
+}
+
+export interface ConceptReviewOptions {
+  /** Curator recorded on the proposal */
+  reviewedBy: string;
+  note?: string;
+}
+
+export interface ConceptCurationApplyReport {
+  applied: ConceptProposal[];
+  failed: Array<{ proposal: ConceptProposal; error: string }>;
+}
+
+const logger = createLogger('ConceptCurationService', { component: 'ConceptCuration' });
+
+/**
+ * Review queue for LLM-captured concepts
+ */
+export class ConceptCurationService {
+  private store: ConceptProposalStore;
+  private conceptHandler: CanonicalConceptHandler;
+  private writeService: GraphWriteService;
+
+  constructor(config: ConceptCurationServiceConfig) {
+    this.store = config.store;
+    this.conceptHandler = config.conceptHandler;
+    this.writeService = config.writeService;
+  }
+
+  async listProposals(query: ConceptProposalQuery = { status: 'pending' }): Promise<ConceptProposal[]> {
+    return this.store.listProposals(query);
+  }
+
+  /**
+   * Approve a pending proposal and write the concept to the graph
+   */
+  async approve(id: string, options: ConceptReviewOptions): Promise<ConceptProposal> {
+    const proposal = await this.review(id, {
+      status: 'approved',
+      reviewedBy: options.reviewedBy,
+      note: options.note,
+    });
+    return this.apply(proposal);
+  }
+
+  /**
+   * Merge a pending proposal into an existing concept
+   */
+  async merge(id: string, targetConceptId: string, options: ConceptReviewOptions): Promise<ConceptProposal> {
+    const proposal = await this.review(id, {
+      status: 'merged',
+      mergedIntoId: targetConceptId,
+      reviewedBy: options.reviewedBy,
+      note: options.note,
+    });
+    return this.apply(proposal);
+  }
+
+  /**
+   * Reject a pending proposal; the concept is never written
+   */
+  async reject(id: string, options: ConceptReviewOptions): Promise<ConceptProposal> {
+    return this.review(id, {
+      status: 'rejected',
+      reviewedBy: options.reviewedBy,
+      note: options.note,
+    });
+  }
+
+  /**
+   * Write approved and merged proposals that are not in the graph yet
+   *
+   * A failed proposal stays unapplied and is retried on the next call.
+   */
+  async applyReviewed(limit = 100): Promise<ConceptCurationApplyReport> {
+    const report: ConceptCurationApplyReport = { applied: [], failed: [] };
+
+    for (const proposal of await this.store.listProposals({ unapplied: true, limit })) {
+      try {
+        report.applied.push(await this.apply(proposal));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error({ proposalId: proposal.id, conceptId: proposal.conceptId, err: error }, 'Failed to apply concept proposal');
+        report.failed.push({ proposal, error: message });
+      }
+    }
+
+    return report;
+  }
+
+  private async review(id: string, review: ConceptProposalReview): Promise<ConceptProposal> {
+    const reviewed = await this.store.reviewProposal(id, review);
+    if (!reviewed) {
+      const existing = await this.store.getProposal(id);
+      throw new Error(
+        existing
+          ? `Concept proposal ${id} has already been ${existing.status}`
+          : `Concept proposal ${id} not found`
+      );
+    }
+
+    logger.info(
+      { proposalId: id, conceptId: reviewed.conceptId, status: reviewed.status, reviewedBy: reviewed.reviewedBy },
+      'Reviewed concept proposal'
+    );
+    return reviewed;
+  }
+
+  private async apply(proposal: ConceptProposal): Promise<ConceptProposal> {
+    if (proposal.status === 'approved') {
+      await this.conceptHandler.upsertCapturedConcept(proposal.conceptId, proposal.concept, this.writeService);
+    } else if (proposal.status === 'merged' && proposal.mergedIntoId) {
+      await this.conceptHandler.mergeIntoConcept(proposal.mergedIntoId, proposal.concept, this.writeService);
+    } else {
+      return proposal;
+    }
+
+    const appliedAt = new Date().toISOString();
+    await this.store.markApplied(proposal.id, appliedAt);
+    return { ...proposal, appliedAt };
+  }
+}
+
+/**
+ * Create a ConceptCurationService instance
+ */
+export function createConceptCurationService(config: ConceptCurationServiceConfig): ConceptCurationService {
+  return new ConceptCurationService(config);
+}
@@ -0,0 +1,287 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { GraphWriteService } from '../graphWriteService.js';
+import { ConceptDeduplicationService, normalizeConceptLabel } from './conceptDeduplicationService.js';
+
+const classS = {
+  id: 'SOCIAL:IE:CLASS_S_PRSI',
+  prefLabel: 'Class S PRSI',
+  altLabels: ['Self-employed PRSI'],
+  definition: 'PRSI paid by self-employed people',
+  jurisdiction: 'IE',
+  labelValues: ['Self-employed PRSI'],
+};
+const prsiClassS = {
+  id: 'SOCIAL:IE:PRSI_CLASS_S',
+  prefLabel: 'PRSI Class S',
+  altLabels: [],
+  definition: null,
+  jurisdiction: 'IE',
+  labelValues: [],
+};
+const ukClassS = { ...prsiClassS, id: 'SOCIAL:UK:PRSI_CLASS_S', jurisdiction: 'UK' };
+const vat = {
+  id: 'TAX:IE:VAT',
+  prefLabel: 'VAT',
+  altLabels: ['Value-Added Tax'],
+  definition: null,
+  jurisdiction: 'IE',
+  labelValues: [],
+};
+const valueAddedTax = {
+  id: 'TAX:IE:VALUE_ADDED_TAX',
+  prefLabel: 'Value Added Tax',
+  altLabels: ['Sales tax'],
+  definition: null,
+  jurisdiction: 'IE',
+  labelValues: [],
+};
+
+function createGraphReader(
+  concepts: Array<Record<string, unknown>>,
+  relationships: Array<Record<string, unknown>> = [],
+  redirects: Record<string, string> = {}
+) {
+  return {
+    executeCypher: vi.fn(async (query: string, params?: Record<string, unknown>) => {
+      if (query.includes('startNode(r)')) {
+        return relationships;
+      }
+      if (query.includes('MATCH (c:Concept {id: $id})')) {
+        const concept = concepts.find(candidate => candidate.id === params?.id);
+        return concept ? [{ ...concept, mergedInto: redirects[String(concept.id)] ?? null }] : [];
+      }
+      return concepts.filter(concept => !redirects[String(concept.id)]);
+    }),
+  };
+}
+
+function createWriteService() {
+  return {
+    upsertConcept: vi.fn().mockResolvedValue(undefined),
+    createRelationship: vi.fn().mockResolvedValue(undefined),
+    deleteRelationship: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('normalizeConceptLabel', () => {
+  it('ignores case, punctuation, stop words and word order', () => {
+    expect(normalizeConceptLabel('Class S PRSI')).toBe(normalizeConceptLabel('PRSI Class S'));
+    expect(normalizeConceptLabel('Value-Added Tax')).toBe('added tax value');
+    expect(normalizeConceptLabel('Tax on Capital Gains')).toBe(normalizeConceptLabel('Capital Gains Tax'));
+  });
+});
+
+describe('ConceptDeduplicationService', () => {
+  describe('findCandidates', () => {
+    it('pairs concepts whose normalised preferred labels match', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS]),
+      });
+
+      const [candidate, ...rest] = await service.findCandidates();
+
+      expect(rest).toHaveLength(0);
+      expect(candidate).toMatchObject({
+        concepts: [
+          { id: 'SOCIAL:IE:CLASS_S_PRSI', prefLabel: 'Class S PRSI' },
+          { id: 'SOCIAL:IE:PRSI_CLASS_S', prefLabel: 'PRSI Class S' },
+        ],
+        score: 1,
+        reasons: ['normalised_label'],
+        sharedLabels: ['class prsi s'],
+        similarity: null,
+      });
+    });
+
+    it('pairs concepts that share an alternative label', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([vat, valueAddedTax]),
+      });
+
+      const [candidate] = await service.findCandidates();
+
+      expect(candidate.reasons).toEqual(['alt_label_overlap']);
+      expect(candidate.sharedLabels).toEqual(['added tax value']);
+      expect(candidate.score).toBeCloseTo(0.5 + 1 / 3 / 2);
+    });
+
+    it('never pairs concepts from different jurisdictions', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([prsiClassS, ukClassS]),
+      });
+
+      expect(await service.findCandidates()).toEqual([]);
+    });
+
+    it('adds embedding matches above the similarity threshold', async () => {
+      const vectors: Record<string, number[]> = {
+        'VAT; Value-Added Tax': [1, 0],
+        'Value Added Tax; Sales tax': [0.95, 0.3],
+        'PRSI Class S': [0, 1],
+      };
+      const embeddingProvider = {
+        embed: vi.fn(async (texts: string[]) => texts.map(text => vectors[text] ?? [0, 0])),
+      };
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([vat, valueAddedTax, prsiClassS]),
+        embeddingProvider,
+      });
+
+      const candidates = await service.findCandidates({ minSimilarity: 0.9 });
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0].reasons).toEqual(['alt_label_overlap', 'embedding']);
+      expect(candidates[0].similarity).toBeGreaterThan(0.9);
+      expect(candidates[0].score).toBe(candidates[0].similarity);
+
+      embeddingProvider.embed.mockClear();
+      await service.findCandidates({ useEmbeddings: false });
+      expect(embeddingProvider.embed).not.toHaveBeenCalled();
+    });
+
+    it('restricts candidates to one concept', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS, vat, valueAddedTax]),
+      });
+
+      const candidates = await service.findCandidates({ conceptId: 'TAX:IE:VAT' });
+
+      expect(candidates.map(candidate => candidate.concepts.map(concept => concept.id))).toEqual([
+        ['TAX:IE:VALUE_ADDED_TAX', 'TAX:IE:VAT'],
+      ]);
+      await expect(service.findCandidates({ conceptId: 'TAX:IE:MISSING' })).rejects.toThrow(
+        'does not exist or has been merged'
+      );
+    });
+  });
+
+  describe('mergeConcepts', () => {
+    const relationships = [
+      {
+        type: 'HAS_ALT_LABEL',
+        outgoing: true,
+        nodeId: 'SOCIAL:IE:CLASS_S_PRSI:LABEL:SELF-EMPLOYED_PRSI',
+        nodeLabel: 'Label',
+        properties: {},
+      },
+      {
+        type: 'ALIGNS_WITH',
+        outgoing: false,
+        nodeId: 'IE_PRSI_CLASS_S',
+        nodeLabel: 'PRSIClass',
+        properties: { weight: 1 },
+      },
+      {
+        type: 'RELATED',
+        outgoing: true,
+        nodeId: 'SOCIAL:IE:PRSI_CLASS_S',
+        nodeLabel: 'Concept',
+        properties: {},
+      },
+    ];
+
+    it('re-points relationships, unions alt labels and leaves a redirect', async () => {
+      const writeService = createWriteService();
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS], relationships),
+        writeService: writeService as unknown as GraphWriteService,
+      });
+
+      const report = await service.mergeConcepts('SOCIAL:IE:CLASS_S_PRSI', 'SOCIAL:IE:PRSI_CLASS_S');
+
+      expect(report.addedAltLabels).toEqual(['Class S PRSI', 'Self-employed PRSI']);
+      expect(report.relationships.map(relationship => relationship.action)).toEqual([
+        'repointed',
+        'repointed',
+        'dropped',
+      ]);
+      expect(writeService.upsertConcept).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'SOCIAL:IE:PRSI_CLASS_S',
+          pref_label: 'PRSI Class S',
+          alt_labels: ['Class S PRSI', 'Self-employed PRSI'],
+        })
+      );
+      expect(writeService.createRelationship).toHaveBeenCalledWith({
+        fromId: 'SOCIAL:IE:PRSI_CLASS_S',
+        fromLabel: 'Concept',
+        toId: 'SOCIAL:IE:CLASS_S_PRSI:LABEL:SELF-EMPLOYED_PRSI',
+        toLabel: 'Label',
+        relType: 'HAS_ALT_LABEL',
+        properties: {},
+      });
+      expect(writeService.createRelationship).toHaveBeenCalledWith({
+        fromId: 'IE_PRSI_CLASS_S',
+        fromLabel: 'PRSIClass',
+        toId: 'SOCIAL:IE:PRSI_CLASS_S',
+        toLabel: 'Concept',
+        relType: 'ALIGNS_WITH',
+        properties: { weight: 1 },
+      });
+      expect(writeService.deleteRelationship).toHaveBeenCalledTimes(3);
+      expect(writeService.deleteRelationship).toHaveBeenCalledWith({
+        fromId: 'IE_PRSI_CLASS_S',
+        fromLabel: 'PRSIClass',
+        toId: 'SOCIAL:IE:CLASS_S_PRSI',
+        toLabel: 'Concept',
+        relType: 'ALIGNS_WITH',
+      });
+      expect(writeService.createRelationship).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          fromId: 'SOCIAL:IE:CLASS_S_PRSI',
+          toId: 'SOCIAL:IE:PRSI_CLASS_S',
+          relType: 'MERGED_INTO',
+        })
+      );
+    });
+
+    it('reports without writing on a dry run', async () => {
+      const writeService = createWriteService();
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS], relationships),
+        writeService: writeService as unknown as GraphWriteService,
+      });
+
+      const report = await service.mergeConcepts('SOCIAL:IE:CLASS_S_PRSI', 'SOCIAL:IE:PRSI_CLASS_S', {
+        dryRun: true,
+      });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.relationships).toHaveLength(3);
+      expect(report.relationships[0]).not.toHaveProperty('properties');
+      expect(writeService.upsertConcept).not.toHaveBeenCalled();
+      expect(writeService.createRelationship).not.toHaveBeenCalled();
+      expect(writeService.deleteRelationship).not.toHaveBeenCalled();
+    });
+
+    it('refuses to merge into a concept that has itself been merged', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS, vat], [], {
+          'SOCIAL:IE:PRSI_CLASS_S': 'TAX:IE:VAT',
+        }),
+        writeService: createWriteService() as unknown as GraphWriteService,
+      });
+
+      await expect(
+        service.mergeConcepts('SOCIAL:IE:CLASS_S_PRSI', 'SOCIAL:IE:PRSI_CLASS_S')
+      ).rejects.toThrow('has been merged into TAX:IE:VAT');
+      await expect(
+        service.mergeConcepts('SOCIAL:IE:PRSI_CLASS_S', 'TAX:IE:VAT')
+      ).rejects.toThrow('has already been merged');
+      await expect(
+        service.mergeConcepts('SOCIAL:IE:CLASS_S_PRSI', 'SOCIAL:IE:MISSING')
+      ).rejects.toThrow('does not exist');
+    });
+
+    it('requires a write service unless dry running', async () => {
+      const service = new ConceptDeduplicationService({
+        graphReader: createGraphReader([classS, prsiClassS]),
+      });
+
+      await expect(
+        service.mergeConcepts('SOCIAL:IE:CLASS_S_PRSI', 'SOCIAL:IE:PRSI_CLASS_S')
+      ).rejects.toThrow('requires a GraphWriteService');
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Concept deduplication service
+ *
+ * Concept IDs are derived from domain, jurisdiction and kind, so the same idea
+ * captured with a different kind or word order ("Class S PRSI" /
+ * "PRSI Class S") ends up as two Concepts with separate alternative labels.
+ * This service finds candidate duplicates by normalised label, shared
+ * alternative labels and, when an embedding provider is configured, embedding
+ * similarity.
+ *
+ * Merging re-points every relationship of the duplicate to the surviving
+ * concept, unions their alternative labels and leaves the duplicate behind as
+ * a redirect: (:Concept)-[:MERGED_INTO]->(:Concept). IDs stored in
+ * conversation contexts resolve through the redirect. All writes go through
+ * GraphWriteService, so a merge is recorded in the change log and can be
+ * rolled back with its batch.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { GraphWriteService } from '../graphWriteService.js';
+import type { GraphClient } from '../types.js';
+import type {
+  ConceptDuplicateCandidate,
+  ConceptDuplicateCandidateConcept,
+  ConceptMergeRelationship,
+  ConceptMergeReport,
+} from './types.js';
+
+/**
+ * Graph reads needed to find and merge duplicates; BoltGraphClient satisfies this
+ */
+export type ConceptDeduplicationGraphReader = Pick<GraphClient, 'executeCypher'>;
+
+/**
+ * Turns text into vectors; reg-intel-core's EmbeddingProvider satisfies this
+ */
+export interface ConceptEmbeddingProvider {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ConceptDeduplicationServiceConfig {
+  graphReader: ConceptDeduplicationGraphReader;
+  /** Required for merges */
+  writeService?: GraphWriteService;
+  /** Enables embedding similarity (optional) */
+  embeddingProvider?: ConceptEmbeddingProvider;
+}
+
+export interface FindDuplicateCandidatesOptions {
+  /** Only pairs that include this concept */
+  conceptId?: string;
+  /** Compare embeddings when an embedding provider is configured (default: true) */
+  useEmbeddings?: boolean;
+  /** Minimum cosine similarity for an embedding match (default: 0.9) */
+  minSimilarity?: number;
+  /** Max candidates, highest score first (default: 50) */
+  limit?: number;
+}
+
+export interface MergeConceptsOptions {
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+interface LoadedConcept extends ConceptDuplicateCandidateConcept {
+  definition: string | null;
+  labels: string[];
+  prefKey: string;
+  keys: Set<string>;
+}
+
+interface ConceptState {
+  id: string;
+  prefLabel: string;
+  altLabels: string[];
+  labelValues: string[];
+  mergedInto: string | null;
+}
+
+const logger = createLogger('ConceptDeduplicationService', { component: 'ConceptCuration' });
+
+const DEFAULT_MIN_SIMILARITY = 0.9;
+const DEFAULT_CANDIDATE_LIMIT = 50;
+const EMBEDDING_BATCH_SIZE = 64;
+
+const LABEL_STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'the', 'to']);
+
+// Concepts that have been merged away are redirects, not duplicates
+const CONCEPTS_QUERY = `
+  MATCH (c:Concept)
+  WHERE c.id IS NOT NULL AND NOT (c)-[:MERGED_INTO]->()
+  OPTIONAL MATCH (c)-[:HAS_ALT_LABEL]->(l:Label)
+  RETURN c.id AS id,
+         c.pref_label AS prefLabel,
+         c.alt_labels AS altLabels,
+         c.definition AS definition,
+         c.jurisdiction AS jurisdiction,
+         collect(DISTINCT l.value) AS labelValues
+`;
+
+const CONCEPT_STATE_QUERY = `
+  MATCH (c:Concept {id: $id})
+  OPTIONAL MATCH (c)-[:MERGED_INTO]->(target:Concept)
+  OPTIONAL MATCH (c)-[:HAS_ALT_LABEL]->(l:Label)
+  RETURN c.id AS id,
+         c.pref_label AS prefLabel,
+         c.alt_labels AS altLabels,
+         target.id AS mergedInto,
+         collect(DISTINCT l.value) AS labelValues
+`;
+
+// The concept's own redirect is left alone; redirects pointing at it are re-pointed
+const CONCEPT_RELATIONSHIPS_QUERY = `
+  MATCH (c:Concept {id: $id})-[r]-(other)
+  WHERE other.id IS NOT NULL AND NOT (type(r) = 'MERGED_INTO' AND startNode(r) = c)
+  RETURN type(r) AS type,
+         startNode(r) = c AS outgoing,
+         other.id AS nodeId,
+         head(labels(other)) AS nodeLabel,
+         properties(r) AS properties
+`;
+
+function asRecords(result: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(result) ? (result as Array<Record<string, unknown>>) : [];
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : [];
+}
+
+/**
+ * Normalise a label for duplicate matching: case, accents, punctuation, common
+ * stop words and word order are ignored
+ */
+export function normalizeConceptLabel(label: string): string {
+  return label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !LABEL_STOP_WORDS.has(word))
+    .sort()
+    .join(' ');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Concepts in two different jurisdictions are never duplicates (IE VAT is not UK VAT)
+ */
+function sameJurisdiction(a: LoadedConcept, b: LoadedConcept): boolean {
+  return !a.jurisdiction || !b.jurisdiction || a.jurisdiction.toUpperCase() === b.jurisdiction.toUpperCase();
+}
+
+function pairKey(a: LoadedConcept, b: LoadedConcept): string {
+  return a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+}
+
+function createCandidate(a: LoadedConcept, b: LoadedConcept): ConceptDuplicateCandidate {
+  const [first, second] = a.id < b.id ? [a, b] : [b, a];
+  const summary = (concept: LoadedConcept): ConceptDuplicateCandidateConcept => ({
+    id: concept.id,
+    prefLabel: concept.prefLabel,
+    jurisdiction: concept.jurisdiction,
+  });
+  return {
+    concepts: [summary(first), summary(second)],
+    score: 0,
+    reasons: [],
+    sharedLabels: [],
+    similarity: null,
+  };
+}
+
+/**
+ * Score a pair by its labels: 1 when the normalised preferred labels are
+ * equal, otherwise 0.5 plus half the share of their labels they have in common
+ */
+function labelCandidate(a: LoadedConcept, b: LoadedConcept): ConceptDuplicateCandidate | null {
+  const shared = [...a.keys].filter(key => b.keys.has(key)).sort();
+  if (shared.length === 0) {
+    return null;
+  }
+
+  const candidate = createCandidate(a, b);
+  candidate.sharedLabels = shared;
+  if (a.prefKey && a.prefKey === b.prefKey) {
+    candidate.score = 1;
+    candidate.reasons.push('normalised_label');
+  } else {
+    candidate.score = 0.5 + shared.length / new Set([...a.keys, ...b.keys]).size / 2;
+    candidate.reasons.push('alt_label_overlap');
+  }
+  return candidate;
+}
+
+/**
+ * Finds duplicate Concepts and merges them
+ */
+export class ConceptDeduplicationService {
+  private graphReader: ConceptDeduplicationGraphReader;
+  private writeService?: GraphWriteService;
+  private embeddingProvider?: ConceptEmbeddingProvider;
+
+  constructor(config: ConceptDeduplicationServiceConfig) {
+    this.graphReader = config.graphReader;
+    this.writeService = config.writeService;
+    this.embeddingProvider = config.embeddingProvider;
+  }
+
+  /**
+   * Pairs of concepts that may describe the same thing, highest score first
+   */
+  async findCandidates(options: FindDuplicateCandidatesOptions = {}): Promise<ConceptDuplicateCandidate[]> {
+    const concepts = await this.loadConcepts();
+    if (options.conceptId && !concepts.some(concept => concept.id === options.conceptId)) {
+      throw new Error(`Concept ${options.conceptId} does not exist or has been merged`);
+    }
+
+    const includes = (a: LoadedConcept, b: LoadedConcept) =>
+      !options.conceptId || a.id === options.conceptId || b.id === options.conceptId;
+    const candidates = new Map<string, ConceptDuplicateCandidate>();
+
+    const byLabel = new Map<string, LoadedConcept[]>();
+    for (const concept of concepts) {
+      for (const key of concept.keys) {
+        byLabel.set(key, [...(byLabel.get(key) ?? []), concept]);
+      }
+    }
+    for (const group of byLabel.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const [a, b] = [group[i], group[j]];
+          const key = pairKey(a, b);
+          if (candidates.has(key) || !includes(a, b) || !sameJurisdiction(a, b)) continue;
+          const candidate = labelCandidate(a, b);
+          if (candidate) candidates.set(key, candidate);
+        }
+      }
+    }
+
+    if (this.embeddingProvider && options.useEmbeddings !== false) {
+      const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+      const vectors = await this.embed(concepts);
+      for (let i = 0; i < concepts.length; i++) {
+        for (let j = i + 1; j < concepts.length; j++) {
+          const [a, b] = [concepts[i], concepts[j]];
+          if (!includes(a, b) || !sameJurisdiction(a, b)) continue;
+
+          const similarity = cosineSimilarity(vectors[i], vectors[j]);
+          const key = pairKey(a, b);
+          const candidate = candidates.get(key) ?? (similarity >= minSimilarity ? createCandidate(a, b) : null);
+          if (!candidate) continue;
+
+          candidate.similarity = similarity;
+          if (similarity >= minSimilarity) {
+            candidate.reasons.push('embedding');
+            candidate.score = Math.max(candidate.score, similarity);
+          }
+          candidates.set(key, candidate);
+        }
+      }
+    }
+
+    return [...candidates.values()]
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.concepts[0].id.localeCompare(b.concepts[0].id) ||
+          a.concepts[1].id.localeCompare(b.concepts[1].id)
+      )
+      .slice(0, options.limit ?? DEFAULT_CANDIDATE_LIMIT);
+  }
+
+  /**
+   * Merge a duplicate concept into the concept that survives
+   *
+   * The target gains the source's preferred and alternative labels and every
+   * relationship of the source; relationships between the two are dropped.
+   * The source stays in the graph with only a MERGED_INTO relationship to the
+   * target, so its ID keeps resolving. Redirects that pointed at the source
+   * are moved to the target. A merge that fails part-way can be re-run.
+   */
+  async mergeConcepts(
+    sourceId: string,
+    targetId: string,
+    options: MergeConceptsOptions = {},
+  ): Promise<ConceptMergeReport> {
+    if (!this.writeService && !options.dryRun) {
+      throw new Error('Merging concepts requires a GraphWriteService');
+    }
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a concept into itself');
+    }
+
+    const [source, target] = await Promise.all([this.readConcept(sourceId), this.readConcept(targetId)]);
+    if (!source) {
+      throw new Error(`Concept ${sourceId} does not exist`);
+    }
+    if (!target) {
+      throw new Error(`Concept ${targetId} does not exist`);
+    }
+    if (source.mergedInto) {
+      throw new Error(`Concept ${sourceId} has already been merged into ${source.mergedInto}`);
+    }
+    if (target.mergedInto) {
+      throw new Error(`Concept ${targetId} has been merged into ${target.mergedInto}; merge into that concept instead`);
+    }
+
+    const knownLabels = new Set([target.prefLabel, ...target.altLabels].map(label => label.toLowerCase()));
+    const addedAltLabels: string[] = [];
+    for (const label of [source.prefLabel, ...source.altLabels, ...source.labelValues]) {
+      if (!knownLabels.has(label.toLowerCase())) {
+        knownLabels.add(label.toLowerCase());
+        addedAltLabels.push(label);
+      }
+    }
+
+    const relationships: Array<ConceptMergeRelationship & { properties: Record<string, unknown> }> = asRecords(
+      await this.graphReader.executeCypher(CONCEPT_RELATIONSHIPS_QUERY, { id: sourceId })
+    ).map(record => {
+      const nodeId = String(record.nodeId);
+      return {
+        type: String(record.type),
+        direction: record.outgoing ? 'outgoing' : 'incoming',
+        nodeId,
+        nodeLabel: String(record.nodeLabel),
+        action: nodeId === targetId || nodeId === sourceId ? 'dropped' : 'repointed',
+        properties: (record.properties as Record<string, unknown> | null) ?? {},
+      };
+    });
+
+    const report: ConceptMergeReport = {
+      sourceId,
+      targetId,
+      dryRun: options.dryRun ?? false,
+      addedAltLabels,
+      relationships: relationships.map(({ properties: _properties, ...relationship }) => relationship),
+    };
+    if (report.dryRun) {
+      return report;
+    }
+
+    const writeService = this.writeService!;
+    const timestamp = new Date().toISOString();
+
+    if (addedAltLabels.length > 0) {
+      await writeService.upsertConcept({
+        id: targetId,
+        pref_label: target.prefLabel,
+        alt_labels: [...target.altLabels, ...addedAltLabels],
+        updated_at: timestamp,
+      });
+    }
+
+    for (const relationship of relationships) {
+      const outgoing = relationship.direction === 'outgoing';
+      const other = { id: relationship.nodeId, label: relationship.nodeLabel };
+      if (relationship.action === 'repointed') {
+        await writeService.createRelationship({
+          fromId: outgoing ? targetId : other.id,
+          fromLabel: outgoing ? 'Concept' : other.label,
+          toId: outgoing ? other.id : targetId,
+          toLabel: outgoing ? other.label : 'Concept',
+          relType: relationship.type,
+          properties: relationship.properties,
+        });
+      }
+      await writeService.deleteRelationship({
+        fromId: outgoing ? sourceId : other.id,
+        fromLabel: outgoing ? 'Concept' : other.label,
+        toId: outgoing ? other.id : sourceId,
+        toLabel: outgoing ? other.label : 'Concept',
+        relType: relationship.type,
+      });
+    }
+
+    // The redirect is written last so a failed merge never hides the source
+    await writeService.createRelationship({
+      fromId: sourceId,
+      fromLabel: 'Concept',
+      toId: targetId,
+      toLabel: 'Concept',
+      relType: 'MERGED_INTO',
+      properties: { merged_at: timestamp },
+    });
+    await writeService.upsertConcept({ id: sourceId, pref_label: source.prefLabel, updated_at: timestamp });
+
+    logger.info(
+      {
+        sourceId,
+        targetId,
+        addedAltLabels: addedAltLabels.length,
+        relationships: relationships.length,
+      },
+      'Merged concept'
+    );
+    return report;
+  }
+
+  private async loadConcepts(): Promise<LoadedConcept[]> {
+    return asRecords(await this.graphReader.executeCypher(CONCEPTS_QUERY))
+      .filter(record => typeof record.prefLabel === 'string')
+      .map(record => {
+        const prefLabel = String(record.prefLabel);
+        const labels = [...new Set([prefLabel, ...strings(record.altLabels), ...strings(record.labelValues)])];
+        return {
+          id: String(record.id),
+          prefLabel,
+          jurisdiction: typeof record.jurisdiction === 'string' ? record.jurisdiction : null,
+          definition: typeof record.definition === 'string' ? record.definition : null,
+          labels,
+          prefKey: normalizeConceptLabel(prefLabel),
+          keys: new Set(labels.map(normalizeConceptLabel).filter(Boolean)),
+        };
+      });
+  }
+
+  private async embed(concepts: LoadedConcept[]): Promise<number[][]> {
+    const texts = concepts.map(concept => [concept.labels.join('; '), concept.definition].filter(Boolean).join('. '));
+    const vectors: number[][] = [];
+    for (let offset = 0; offset < texts.length; offset += EMBEDDING_BATCH_SIZE) {
+      vectors.push(...(await this.embeddingProvider!.embed(texts.slice(offset, offset + EMBEDDING_BATCH_SIZE))));
+    }
+    return vectors;
+  }
+
+  private async readConcept(id: string): Promise<ConceptState | null> {
+    const [record] = asRecords(await this.graphReader.executeCypher(CONCEPT_STATE_QUERY, { id }));
+    if (!record || typeof record.prefLabel !== 'string') {
+      return null;
+    }
+    return {
+      id,
+      prefLabel: record.prefLabel,
+      altLabels: strings(record.altLabels),
+      labelValues: strings(record.labelValues),
+      mergedInto: typeof record.mergedInto === 'string' ? record.mergedInto : null,
+    };
+  }
+}
+
+/**
+ * Create a ConceptDeduplicationService instance
+ */
+export function createConceptDeduplicationService(
+  config: ConceptDeduplicationServiceConfig,
+): ConceptDeduplicationService {
+  return new ConceptDeduplicationService(config);
+}
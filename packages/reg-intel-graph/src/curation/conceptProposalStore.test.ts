@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryConceptProposalStore, SupabaseConceptProposalStore } from './conceptProposalStore.js';
+import type { ConceptProposal } from './types.js';
+
+const proposal = (overrides: Partial<ConceptProposal> = {}): ConceptProposal => ({
+  id: 'proposal-1',
+  status: 'pending',
+  conceptId: 'TAX:IE:VAT',
+  prefLabel: 'VAT',
+  concept: { label: 'VAT', domain: 'TAX', jurisdiction: 'IE', kind: 'VAT' },
+  provenance: { tenantId: 'tenant-1', conversationId: 'conversation-1', model: 'gpt-4.1', traceId: 'trace-1' },
+  suggestedDuplicates: [],
+  createdAt: '2026-10-19T09:00:00.000Z',
+  reviewedBy: null,
+  reviewedAt: null,
+  reviewNote: null,
+  mergedIntoId: null,
+  appliedAt: null,
+  ...overrides,
+});
+
+describe('InMemoryConceptProposalStore', () => {
+  it('finds the latest proposal for a concept ID', async () => {
+    const store = new InMemoryConceptProposalStore();
+    await store.createProposals([
+      proposal({ id: 'old', status: 'rejected', createdAt: '2026-10-18T09:00:00.000Z' }),
+      proposal({ id: 'new', createdAt: '2026-10-19T09:00:00.000Z' }),
+      proposal({ id: 'other', conceptId: 'TAX:IE:CGT' }),
+    ]);
+
+    expect((await store.findLatestByConceptId('TAX:IE:VAT'))?.id).toBe('new');
+    expect(await store.findLatestByConceptId('TAX:IE:PAYE')).toBeNull();
+  });
+
+  it('only reviews pending proposals', async () => {
+    const store = new InMemoryConceptProposalStore();
+    await store.createProposals([proposal()]);
+
+    const reviewed = await store.reviewProposal('proposal-1', {
+      status: 'merged',
+      mergedIntoId: 'TAX:IE:VALUE_ADDED_TAX',
+      reviewedBy: 'curator-1',
+    });
+
+    expect(reviewed).toMatchObject({ status: 'merged', mergedIntoId: 'TAX:IE:VALUE_ADDED_TAX' });
+    expect(await store.listProposals({ unapplied: true })).toHaveLength(1);
+    expect(await store.reviewProposal('proposal-1', { status: 'rejected', reviewedBy: 'curator-2' })).toBeNull();
+  });
+});
+
+describe('SupabaseConceptProposalStore', () => {
+  it('records reviews only while the proposal is pending', async () => {
+    const row = {
+      id: 'proposal-1',
+      status: 'approved',
+      concept_id: 'TAX:IE:VAT',
+      pref_label: 'VAT',
+      concept: { label: 'VAT' },
+      tenant_id: 'tenant-1',
+      conversation_id: 'conversation-1',
+      model: 'gpt-4.1',
+      trace_id: 'trace-1',
+      suggested_duplicates: null,
+      created_at: '2026-10-19T09:00:00+00:00',
+      reviewed_by: 'curator-1',
+      reviewed_at: '2026-10-19T10:00:00+00:00',
+      review_note: null,
+      merged_into_id: null,
+      applied_at: null,
+    };
+    const query = {
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      maybeSingle: vi.fn().mockResolvedValue({ data: row, error: null }),
+    };
+    const from = vi.fn().mockReturnValue(query);
+    const schema = vi.fn().mockReturnValue({ from });
+
+    const store = new SupabaseConceptProposalStore({ from: vi.fn(), schema });
+    const reviewed = await store.reviewProposal('proposal-1', { status: 'approved', reviewedBy: 'curator-1' });
+
+    expect(schema).toHaveBeenCalledWith('copilot_core');
+    expect(from).toHaveBeenCalledWith('concept_proposals');
+    expect(query.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'approved', reviewed_by: 'curator-1', merged_into_id: null })
+    );
+    expect(query.eq).toHaveBeenCalledWith('status', 'pending');
+    expect(reviewed).toMatchObject({
+      status: 'approved',
+      provenance: { conversationId: 'conversation-1', model: 'gpt-4.1', traceId: 'trace-1' },
+      suggestedDuplicates: [],
+      createdAt: '2026-10-19T09:00:00.000Z',
+    });
+  });
+
+  it('surfaces insert errors', async () => {
+    const from = vi.fn().mockReturnValue({
+      insert: vi.fn().mockResolvedValue({ error: { message: 'duplicate key value' } }),
+    });
+    const store = new SupabaseConceptProposalStore({ from });
+
+    await expect(store.createProposals([proposal()])).rejects.toThrow(
+      'Failed to create concept proposals: duplicate key value'
+    );
+  });
+});
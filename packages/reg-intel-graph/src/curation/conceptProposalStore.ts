@@ -0,0 +1,260 @@
+/**
+ * Concept proposal stores
+ *
+ * The Supabase store reads and writes copilot_core.concept_proposals (see
+ * supabase/migrations/20261019000002_concept_curation.sql); the in-memory
+ * store is for tests and local development.
+ */
+
+import type { CapturedConceptPayload } from '../canonicalConceptHandler.js';
+import type {
+  ConceptDuplicateSuggestion,
+  ConceptProposal,
+  ConceptProposalQuery,
+  ConceptProposalReview,
+  ConceptProposalStatus,
+  ConceptProposalStore,
+} from './types.js';
+
+const CORE_SCHEMA = 'copilot_core';
+
+function isUnapplied(proposal: ConceptProposal): boolean {
+  return (proposal.status === 'approved' || proposal.status === 'merged') && !proposal.appliedAt;
+}
+
+function applyReview(proposal: ConceptProposal, review: ConceptProposalReview): ConceptProposal {
+  return {
+    ...proposal,
+    status: review.status,
+    reviewedBy: review.reviewedBy,
+    reviewedAt: new Date().toISOString(),
+    reviewNote: review.note ?? null,
+    mergedIntoId: review.status === 'merged' ? review.mergedIntoId : null,
+  };
+}
+
+/**
+ * In-process proposal store
+ */
+export class InMemoryConceptProposalStore implements ConceptProposalStore {
+  private proposals = new Map<string, ConceptProposal>();
+
+  async createProposals(proposals: ConceptProposal[]): Promise<void> {
+    for (const proposal of proposals) {
+      this.proposals.set(proposal.id, { ...proposal });
+    }
+  }
+
+  async getProposal(id: string): Promise<ConceptProposal | null> {
+    return this.proposals.get(id) ?? null;
+  }
+
+  async findLatestByConceptId(conceptId: string): Promise<ConceptProposal | null> {
+    const matches = [...this.proposals.values()]
+      .filter(proposal => proposal.conceptId === conceptId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return matches[0] ?? null;
+  }
+
+  async listProposals(query: ConceptProposalQuery = {}): Promise<ConceptProposal[]> {
+    const matches = [...this.proposals.values()]
+      .filter(proposal => !query.status || proposal.status === query.status)
+      .filter(proposal => !query.unapplied || isUnapplied(proposal))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  async reviewProposal(id: string, review: ConceptProposalReview): Promise<ConceptProposal | null> {
+    const proposal = this.proposals.get(id);
+    if (!proposal || proposal.status !== 'pending') {
+      return null;
+    }
+
+    const reviewed = applyReview(proposal, review);
+    this.proposals.set(id, reviewed);
+    return reviewed;
+  }
+
+  async markApplied(id: string, appliedAt: string): Promise<void> {
+    const proposal = this.proposals.get(id);
+    if (proposal) {
+      this.proposals.set(id, { ...proposal, appliedAt });
+    }
+  }
+}
+
+/**
+ * Minimal Supabase client surface used by the store
+ */
+export type ConceptProposalSupabaseClient = {
+  from(table: string): any;
+  schema?(schema: string): ConceptProposalSupabaseClient;
+};
+
+type ConceptProposalRow = {
+  id: string;
+  status: ConceptProposalStatus;
+  concept_id: string;
+  pref_label: string;
+  concept: CapturedConceptPayload;
+  tenant_id: string | null;
+  conversation_id: string | null;
+  model: string | null;
+  trace_id: string | null;
+  suggested_duplicates: ConceptDuplicateSuggestion[] | null;
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  merged_into_id: string | null;
+  applied_at: string | null;
+};
+
+function toProposalRow(proposal: ConceptProposal): ConceptProposalRow {
+  return {
+    id: proposal.id,
+    status: proposal.status,
+    concept_id: proposal.conceptId,
+    pref_label: proposal.prefLabel,
+    concept: proposal.concept,
+    tenant_id: proposal.provenance.tenantId ?? null,
+    conversation_id: proposal.provenance.conversationId ?? null,
+    model: proposal.provenance.model ?? null,
+    trace_id: proposal.provenance.traceId ?? null,
+    suggested_duplicates: proposal.suggestedDuplicates,
+    created_at: proposal.createdAt,
+    reviewed_by: proposal.reviewedBy,
+    reviewed_at: proposal.reviewedAt,
+    review_note: proposal.reviewNote,
+    merged_into_id: proposal.mergedIntoId,
+    applied_at: proposal.appliedAt,
+  };
+}
+
+function fromProposalRow(row: ConceptProposalRow): ConceptProposal {
+  return {
+    id: row.id,
+    status: row.status,
+    conceptId: row.concept_id,
+    prefLabel: row.pref_label,
+    concept: row.concept,
+    provenance: {
+      tenantId: row.tenant_id,
+      conversationId: row.conversation_id,
+      model: row.model,
+      traceId: row.trace_id,
+    },
+    suggestedDuplicates: row.suggested_duplicates ?? [],
+    createdAt: new Date(row.created_at).toISOString(),
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).toISOString() : null,
+    reviewNote: row.review_note,
+    mergedIntoId: row.merged_into_id,
+    appliedAt: row.applied_at ? new Date(row.applied_at).toISOString() : null,
+  };
+}
+
+/**
+ * Supabase-backed proposal store
+ *
+ * Expects a service-role client.
+ */
+export class SupabaseConceptProposalStore implements ConceptProposalStore {
+  private readonly client: ConceptProposalSupabaseClient;
+
+  constructor(client: ConceptProposalSupabaseClient) {
+    this.client = client.schema ? client.schema(CORE_SCHEMA) : client;
+  }
+
+  async createProposals(proposals: ConceptProposal[]): Promise<void> {
+    if (proposals.length === 0) return;
+
+    const { error } = await this.client.from('concept_proposals').insert(proposals.map(toProposalRow));
+    if (error) {
+      throw new Error(`Failed to create concept proposals: ${error.message}`);
+    }
+  }
+
+  async getProposal(id: string): Promise<ConceptProposal | null> {
+    const { data, error } = await this.client
+      .from('concept_proposals')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load concept proposal ${id}: ${error.message}`);
+    }
+    return data ? fromProposalRow(data as ConceptProposalRow) : null;
+  }
+
+  async findLatestByConceptId(conceptId: string): Promise<ConceptProposal | null> {
+    const { data, error } = await this.client
+      .from('concept_proposals')
+      .select('*')
+      .eq('concept_id', conceptId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up concept proposals for ${conceptId}: ${error.message}`);
+    }
+    return data ? fromProposalRow(data as ConceptProposalRow) : null;
+  }
+
+  async listProposals(query: ConceptProposalQuery = {}): Promise<ConceptProposal[]> {
+    let request = this.client
+      .from('concept_proposals')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (query.status) {
+      request = request.eq('status', query.status);
+    }
+    if (query.unapplied) {
+      request = request.in('status', ['approved', 'merged']).is('applied_at', null);
+    }
+    if (query.limit !== undefined) {
+      request = request.limit(query.limit);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw new Error(`Failed to list concept proposals: ${error.message}`);
+    }
+    return ((data ?? []) as ConceptProposalRow[]).map(fromProposalRow);
+  }
+
+  async reviewProposal(id: string, review: ConceptProposalReview): Promise<ConceptProposal | null> {
+    const { data, error } = await this.client
+      .from('concept_proposals')
+      .update({
+        status: review.status,
+        reviewed_by: review.reviewedBy,
+        reviewed_at: new Date().toISOString(),
+        review_note: review.note ?? null,
+        merged_into_id: review.status === 'merged' ? review.mergedIntoId : null,
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to review concept proposal ${id}: ${error.message}`);
+    }
+    return data ? fromProposalRow(data as ConceptProposalRow) : null;
+  }
+
+  async markApplied(id: string, appliedAt: string): Promise<void> {
+    const { error } = await this.client
+      .from('concept_proposals')
+      .update({ applied_at: appliedAt })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to mark concept proposal ${id} as applied: ${error.message}`);
+    }
+  }
+}
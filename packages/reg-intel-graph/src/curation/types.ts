@@ -0,0 +1,157 @@
+/**
+ * Types for concept curation
+ *
+ * Concepts captured by the LLM through `capture_concepts` are staged as
+ * proposals instead of being written to the graph. Curators approve a
+ * proposal, merge it into an existing Concept, or reject it; only approved
+ * and merged proposals are applied to the graph, so agents never see
+ * unreviewed concepts.
+ *
+ * Concepts already in the graph can be deduplicated: candidate pairs are
+ * found by label and (optionally) embedding similarity, and merging one
+ * Concept into another leaves a MERGED_INTO redirect behind.
+ */
+
+import type { CapturedConceptPayload } from '../canonicalConceptHandler.js';
+
+export type ConceptProposalStatus = 'pending' | 'approved' | 'merged' | 'rejected';
+
+/**
+ * Where a captured concept came from
+ *
+ * Stored with the proposal only; provenance never reaches the graph.
+ */
+export interface ConceptProvenance {
+  tenantId?: string | null;
+  conversationId?: string | null;
+  /** Model that emitted the capture_concepts call */
+  model?: string | null;
+  /** Trace of the chat turn that captured the concept */
+  traceId?: string | null;
+}
+
+/**
+ * Existing Concept whose preferred or alternative label matches the proposal
+ */
+export interface ConceptDuplicateSuggestion {
+  conceptId: string;
+  prefLabel: string;
+  /** Label of the proposal that matched */
+  matchedLabel: string;
+}
+
+/**
+ * A captured concept awaiting (or after) review
+ */
+export interface ConceptProposal {
+  id: string;
+  status: ConceptProposalStatus;
+  /** Concept ID the proposal would be created under if approved */
+  conceptId: string;
+  prefLabel: string;
+  concept: CapturedConceptPayload;
+  provenance: ConceptProvenance;
+  suggestedDuplicates: ConceptDuplicateSuggestion[];
+  createdAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  /** Target Concept of a merged proposal */
+  mergedIntoId: string | null;
+  /** When an approved or merged proposal was written to the graph */
+  appliedAt: string | null;
+}
+
+/**
+ * Curator decision on a pending proposal
+ */
+export type ConceptProposalReview =
+  | { status: 'approved' | 'rejected'; reviewedBy: string; note?: string | null }
+  | { status: 'merged'; reviewedBy: string; mergedIntoId: string; note?: string | null };
+
+/**
+ * Filter for listing proposals
+ */
+export interface ConceptProposalQuery {
+  status?: ConceptProposalStatus;
+  /** Only approved or merged proposals not yet written to the graph */
+  unapplied?: boolean;
+  limit?: number;
+}
+
+/**
+ * Persistence for concept proposals
+ */
+export interface ConceptProposalStore {
+  createProposals(proposals: ConceptProposal[]): Promise<void>;
+  getProposal(id: string): Promise<ConceptProposal | null>;
+  /** Most recent proposal for a concept ID, in any status */
+  findLatestByConceptId(conceptId: string): Promise<ConceptProposal | null>;
+  /** Oldest first */
+  listProposals(query?: ConceptProposalQuery): Promise<ConceptProposal[]>;
+  /**
+   * Record a decision on a pending proposal
+   * @returns The updated proposal, or null if it does not exist or is no longer pending
+   */
+  reviewProposal(id: string, review: ConceptProposalReview): Promise<ConceptProposal | null>;
+  markApplied(id: string, appliedAt: string): Promise<void>;
+}
+
+/**
+ * Why two concepts were flagged as possible duplicates
+ *
+ * - normalised_label: preferred labels are equal once case, punctuation and
+ *   word order are ignored ("Class S PRSI" / "PRSI Class S")
+ * - alt_label_overlap: the concepts share a preferred or alternative label
+ * - embedding: label and definition embeddings are similar
+ */
+export type ConceptDuplicateReason = 'normalised_label' | 'alt_label_overlap' | 'embedding';
+
+/**
+ * Concept as listed in a duplicate candidate
+ */
+export interface ConceptDuplicateCandidateConcept {
+  id: string;
+  prefLabel: string;
+  jurisdiction: string | null;
+}
+
+/**
+ * Pair of concepts that may describe the same thing
+ */
+export interface ConceptDuplicateCandidate {
+  /** Ordered by ID */
+  concepts: [ConceptDuplicateCandidateConcept, ConceptDuplicateCandidateConcept];
+  /** 0-1; 1 for equal normalised preferred labels */
+  score: number;
+  reasons: ConceptDuplicateReason[];
+  /** Normalised labels both concepts carry */
+  sharedLabels: string[];
+  /** Cosine similarity of the concepts' embeddings; null when not compared */
+  similarity: number | null;
+}
+
+/**
+ * Relationship moved from a merged concept to the concept it was merged into
+ */
+export interface ConceptMergeRelationship {
+  type: string;
+  direction: 'outgoing' | 'incoming';
+  /** Node at the other end of the relationship */
+  nodeId: string;
+  nodeLabel: string;
+  /** Relationships between the two merged concepts are dropped, not re-pointed */
+  action: 'repointed' | 'dropped';
+}
+
+/**
+ * Result of merging one concept into another
+ */
+export interface ConceptMergeReport {
+  sourceId: string;
+  targetId: string;
+  dryRun: boolean;
+  /** Labels added to the target's alternative labels */
+  addedAltLabels: string[];
+  relationships: ConceptMergeRelationship[];
+}
@@ -22,6 +22,16 @@ export class GraphError extends ComplianceError {
   }
 }
 
+/**
+ * Error thrown when regulatory source documents cannot be loaded or parsed
+ */
+export class SourceIngestionError extends ComplianceError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'SourceIngestionError';
+  }
+}
+
 /**
  * Type guard to check if an error is a ComplianceError
  */
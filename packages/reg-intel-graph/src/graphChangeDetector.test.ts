@@ -17,6 +17,7 @@ import { trace } from '@opentelemetry/api';
 import { requestContext, createLogger } from '@reg-copilot/reg-intel-observability';
 import { Writable } from 'node:stream';
 import { GraphChangeDetector, type GraphPatch, type ChangeFilter } from './graphChangeDetector.js';
+import { InMemoryGraphChangeFeed, type GraphChangeEvent } from './graphChangeFeed.js';
 import type { GraphContext, GraphNode, GraphEdge } from './types.js';
 
 describe('GraphChangeDetector', () => {
@@ -609,6 +610,160 @@ describe('GraphChangeDetector', () => {
     });
   });
 
+  describe('Change Feed', () => {
+    const nodeEvent = (
+      nodeId: string,
+      change: GraphChangeEvent['change'],
+      after: Record<string, unknown> | null
+    ): GraphChangeEvent => ({
+      entity: 'node',
+      change,
+      nodeId,
+      nodeLabel: 'Benefit',
+      before: change === 'added' ? null : { id: nodeId },
+      after,
+      source: 'ingestion',
+      timestamp: new Date().toISOString(),
+    });
+
+    it('applies feed updates without re-querying the graph', async () => {
+      const mock = createMockQueryFn({
+        nodes: [createNode('node1', 'Node 1')],
+        edges: [],
+      });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const detector = new GraphChangeDetector(mock.queryFn, {
+        pollIntervalMs: 50,
+        fallbackPollIntervalMs: 10000,
+        useTimestamps: false,
+        enableBatching: false,
+        changeFeed,
+      });
+
+      const callback = vi.fn();
+      detector.subscribe({ jurisdictions: ['IE'] }, callback);
+      detector.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const queriesAfterStart = mock.queryFn.mock.calls.length;
+
+      changeFeed.publish(nodeEvent('node1', 'updated', { id: 'node1', label: 'Node 1 Updated' }));
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      detector.stop();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      const patch = callback.mock.calls[0][0] as GraphPatch;
+      expect(patch.nodes.updated).toEqual([
+        {
+          id: 'node1',
+          label: 'Node 1 Updated',
+          type: 'Benefit',
+          properties: { id: 'node1', label: 'Node 1 Updated' },
+        },
+      ]);
+      // Polling slows to the fallback interval when a feed is configured
+      expect(mock.queryFn.mock.calls.length).toBe(queriesAfterStart);
+    });
+
+    it('removes nodes and their edges from feed removals', async () => {
+      const mock = createMockQueryFn({
+        nodes: [createNode('node1', 'Node 1'), createNode('node2', 'Node 2')],
+        edges: [createEdge('node1', 'node2')],
+      });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const detector = new GraphChangeDetector(mock.queryFn, {
+        fallbackPollIntervalMs: 10000,
+        useTimestamps: false,
+        enableBatching: false,
+        changeFeed,
+      });
+
+      const callback = vi.fn();
+      detector.subscribe({ jurisdictions: ['IE'] }, callback);
+      detector.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      changeFeed.publish(nodeEvent('node2', 'removed', null));
+      detector.stop();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      const patch = callback.mock.calls[0][0] as GraphPatch;
+      expect(patch.nodes.removed).toEqual(['node2']);
+      expect(patch.edges.removed).toEqual([createEdge('node1', 'node2')]);
+    });
+
+    it('places new nodes from the feed with a timestamp query instead of a full poll', async () => {
+      const mock = createMockQueryFn({
+        nodes: [createNode('node1', 'Node 1')],
+        edges: [],
+      });
+      const timestampMock = createMockTimestampQueryFn();
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const detector = new GraphChangeDetector(
+        mock.queryFn,
+        {
+          fallbackPollIntervalMs: 10000,
+          enableBatching: false,
+          batchWindowMs: 50,
+          changeFeed,
+        },
+        timestampMock.queryFn
+      );
+
+      const callback = vi.fn();
+      detector.subscribe({ jurisdictions: ['IE'] }, callback);
+      detector.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const queriesAfterStart = mock.queryFn.mock.calls.length;
+
+      timestampMock.setResults({ nodes: [createNode('node2', 'Node 2')], edges: [] });
+      const event = nodeEvent('node2', 'added', { id: 'node2', label: 'Node 2' });
+      changeFeed.publish(event);
+      changeFeed.publish(nodeEvent('node3', 'added', { id: 'node3', label: 'Node 3' }));
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      detector.stop();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      const patch = callback.mock.calls[0][0] as GraphPatch;
+      expect(patch.nodes.added.map((node) => node.id)).toEqual(['node2']);
+      expect(mock.queryFn.mock.calls.length).toBe(queriesAfterStart);
+      // One query for the burst, looking back from the earliest event
+      expect(timestampMock.queryFn).toHaveBeenCalledTimes(1);
+      const since = timestampMock.queryFn.mock.calls[0][1] as Date;
+      expect(since.getTime()).toBeLessThan(new Date(event.timestamp).getTime());
+    });
+
+    it('leaves new nodes to the fallback poll without timestamp queries', async () => {
+      const mock = createMockQueryFn({
+        nodes: [createNode('node1', 'Node 1')],
+        edges: [],
+      });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const detector = new GraphChangeDetector(mock.queryFn, {
+        fallbackPollIntervalMs: 10000,
+        useTimestamps: false,
+        enableBatching: false,
+        batchWindowMs: 50,
+        changeFeed,
+      });
+
+      const callback = vi.fn();
+      detector.subscribe({ jurisdictions: ['IE'] }, callback);
+      detector.start();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const queriesAfterStart = mock.queryFn.mock.calls.length;
+
+      changeFeed.publish(nodeEvent('node2', 'added', { id: 'node2', label: 'Node 2' }));
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      detector.stop();
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(mock.queryFn.mock.calls.length).toBe(queriesAfterStart);
+    });
+  });
+
   describe('Logging correlation', () => {
     let provider: BasicTracerProvider;
     let contextManager: AsyncLocalStorageContextManager;
@@ -13,10 +13,14 @@
  * Enhancements:
  * - Timestamp-based queries: Only fetches nodes updated since last poll
  * - Change batching: Collects changes over a time window before emitting
+ * - Change feed: Applies events published by GraphWriteService to snapshots as
+ *   they happen; polling then only runs as a slow fallback for writes made
+ *   outside the service
  */
 
 import type { GraphNode, GraphEdge, GraphContext } from './types.js';
 import { LOG_PREFIX } from './constants.js';
+import { graphChangeEventToNode, type GraphChangeEvent, type GraphChangeFeed } from './graphChangeFeed.js';
 import { createLogger } from '@reg-copilot/reg-intel-observability';
 import type { Logger } from 'pino';
 
@@ -106,6 +110,13 @@ export interface GraphChangeDetectorConfig {
   maxEdgesPerPatch?: number;
   /** Maximum combined changes per emitted patch (default: 1200) */
   maxTotalChanges?: number;
+  /** Feed of committed writes from GraphWriteService (optional) */
+  changeFeed?: GraphChangeFeed;
+  /**
+   * Polling interval used when a change feed is configured, catching writes
+   * made outside GraphWriteService (default: 60000)
+   */
+  fallbackPollIntervalMs?: number;
 }
 
 /**
@@ -126,11 +137,18 @@ interface LastPollInfo {
 
 const graphLogger = createLogger('GraphChangeDetector', { component: 'GraphChangeDetector' });
 
+/**
+ * How far before a feed event the refresh query looks. Writers set
+ * updated_at before the commit the event reports.
+ */
+const FEED_REFRESH_LOOKBACK_MS = 30000;
+
 /**
  * Graph Change Detector Service
  *
  * Monitors Memgraph for changes and emits incremental patches.
- * Uses polling-based change detection with configurable intervals.
+ * Uses polling-based change detection with configurable intervals, or an
+ * optional change feed with polling as a fallback.
  * Supports timestamp-based queries and change batching for efficiency.
  */
 export class GraphChangeDetector {
@@ -139,7 +157,11 @@ export class GraphChangeDetector {
   private lastPollTimes = new Map<string, LastPollInfo>();
   private pendingBatches = new Map<string, PendingBatch>();
   private pollIntervalId: NodeJS.Timeout | null = null;
-  private config: Required<GraphChangeDetectorConfig>;
+  private feedUnsubscribe: (() => void) | null = null;
+  private feedRefreshTimeoutId: NodeJS.Timeout | null = null;
+  private feedRefreshSince: Date | null = null;
+  private changeFeed?: GraphChangeFeed;
+  private config: Required<Omit<GraphChangeDetectorConfig, 'changeFeed'>>;
   private graphQueryFn: (filter: ChangeFilter) => Promise<GraphContext>;
   private timestampQueryFn?: (filter: ChangeFilter, since: Date) => Promise<GraphContext>;
   private logger: Logger;
@@ -168,7 +190,9 @@ export class GraphChangeDetector {
       maxNodesPerPatch: config?.maxNodesPerPatch ?? 500,
       maxEdgesPerPatch: config?.maxEdgesPerPatch ?? 1000,
       maxTotalChanges: config?.maxTotalChanges ?? 1200,
+      fallbackPollIntervalMs: config?.fallbackPollIntervalMs ?? 60000,
     };
+    this.changeFeed = config?.changeFeed;
     this.logger = logger;
   }
 
@@ -181,16 +205,31 @@ export class GraphChangeDetector {
       return;
     }
 
+    const pollIntervalMs = this.changeFeed
+      ? this.config.fallbackPollIntervalMs
+      : this.config.pollIntervalMs;
+
     this.logger.info(
       {
-        pollIntervalMs: this.config.pollIntervalMs,
+        pollIntervalMs,
         useTimestamps: this.config.useTimestamps,
         enableBatching: this.config.enableBatching,
         batchWindowMs: this.config.batchWindowMs,
+        changeFeed: Boolean(this.changeFeed),
       },
       `${LOG_PREFIX.graph} Starting change detector`
     );
 
+    if (this.changeFeed) {
+      this.feedUnsubscribe = this.changeFeed.subscribe((event) => {
+        try {
+          this.handleChangeEvent(event);
+        } catch (error) {
+          this.logger.error({ err: error }, `${LOG_PREFIX.graph} Error applying change event`);
+        }
+      });
+    }
+
     // Poll immediately on start
     this.pollAllFilters().catch((error) => {
       this.logger.error({ err: error }, `${LOG_PREFIX.graph} Error in initial poll`);
@@ -201,7 +240,7 @@ export class GraphChangeDetector {
       this.pollAllFilters().catch((error) => {
         this.logger.error({ err: error }, `${LOG_PREFIX.graph} Error in polling`);
       });
-    }, this.config.pollIntervalMs);
+    }, pollIntervalMs);
   }
 
   /**
@@ -213,6 +252,15 @@ export class GraphChangeDetector {
       clearInterval(this.pollIntervalId);
       this.pollIntervalId = null;
     }
+    if (this.feedUnsubscribe) {
+      this.feedUnsubscribe();
+      this.feedUnsubscribe = null;
+    }
+    if (this.feedRefreshTimeoutId) {
+      clearTimeout(this.feedRefreshTimeoutId);
+      this.feedRefreshTimeoutId = null;
+    }
+    this.feedRefreshSince = null;
   }
 
   /**
@@ -266,6 +314,155 @@ export class GraphChangeDetector {
     return count;
   }
 
+  /**
+   * Apply a change event from the feed to every snapshot it touches
+   *
+   * Updates and removals of nodes already in a snapshot are applied directly.
+   * Whether a new node or relationship falls inside a filter depends on graph
+   * structure the event does not carry, so those are resolved by a timestamp
+   * query around the event (see scheduleFeedRefresh).
+   */
+  private handleChangeEvent(event: GraphChangeEvent): void {
+    let needsRefresh = false;
+
+    for (const [filterKey, snapshot] of this.snapshots) {
+      const patch = this.createEmptyPatch(event.timestamp);
+
+      if (event.entity === 'node' && event.nodeId) {
+        const existing = snapshot.nodes.get(event.nodeId);
+
+        if (event.change === 'removed') {
+          if (existing) {
+            snapshot.nodes.delete(event.nodeId);
+            patch.nodes.removed.push(event.nodeId);
+            for (const [key, edge] of snapshot.edges) {
+              if (edge.source === event.nodeId || edge.target === event.nodeId) {
+                snapshot.edges.delete(key);
+                patch.edges.removed.push(edge);
+              }
+            }
+          }
+        } else if (existing) {
+          const node = graphChangeEventToNode(event);
+          if (node && this.nodeHasChanged(existing, node)) {
+            snapshot.nodes.set(node.id, node);
+            patch.nodes.updated.push(node);
+          }
+        } else {
+          needsRefresh = true;
+        }
+      } else if (event.entity === 'edge' && event.edge) {
+        const edge: GraphEdge = {
+          source: event.edge.source,
+          target: event.edge.target,
+          type: event.edge.type,
+          properties: event.after ?? event.before ?? {},
+        };
+        const edgeKey = this.getEdgeKey(edge);
+        const existing = snapshot.edges.get(edgeKey);
+
+        if (event.change === 'removed') {
+          if (existing) {
+            snapshot.edges.delete(edgeKey);
+            patch.edges.removed.push(existing);
+          }
+        } else if (existing) {
+          if (this.edgeHasChanged(existing, edge)) {
+            snapshot.edges.set(edgeKey, edge);
+            patch.edges.updated.push(edge);
+          }
+        } else if (snapshot.nodes.has(edge.source) && snapshot.nodes.has(edge.target)) {
+          snapshot.edges.set(edgeKey, edge);
+          patch.edges.added.push(edge);
+        } else {
+          needsRefresh = true;
+        }
+      }
+
+      if (this.hasChanges(patch)) {
+        this.emitPatchWithBatching(filterKey, this.applyPatchCaps(patch));
+      }
+    }
+
+    if (needsRefresh) {
+      this.scheduleFeedRefresh(new Date(event.timestamp));
+    }
+  }
+
+  /**
+   * Query the nodes written since the earliest unresolved feed event once the
+   * current burst of events settles
+   *
+   * Without timestamp queries the only way to place a new node is a full
+   * snapshot query per filter, so it is left to the fallback poll instead.
+   */
+  private scheduleFeedRefresh(eventTime: Date): void {
+    if (!this.config.useTimestamps || !this.timestampQueryFn) {
+      this.logger.debug(
+        { eventTime: eventTime.toISOString() },
+        `${LOG_PREFIX.graph} New graph entity from change feed left to the fallback poll`
+      );
+      return;
+    }
+
+    const since = new Date(eventTime.getTime() - FEED_REFRESH_LOOKBACK_MS);
+    if (!this.feedRefreshSince || since < this.feedRefreshSince) {
+      this.feedRefreshSince = since;
+    }
+
+    if (this.feedRefreshTimeoutId) {
+      clearTimeout(this.feedRefreshTimeoutId);
+    }
+
+    this.feedRefreshTimeoutId = setTimeout(() => {
+      const refreshSince = this.feedRefreshSince ?? since;
+      this.feedRefreshTimeoutId = null;
+      this.feedRefreshSince = null;
+      this.refreshFromFeed(refreshSince).catch((error) => {
+        this.logger.error({ err: error }, `${LOG_PREFIX.graph} Error in change feed refresh`);
+      });
+    }, this.config.batchWindowMs);
+  }
+
+  /**
+   * Merge nodes written since `since` into every snapshot
+   */
+  private async refreshFromFeed(since: Date): Promise<void> {
+    await Promise.all(
+      Array.from(this.snapshots.entries()).map(async ([filterKey, snapshot]) => {
+        try {
+          const recentChanges = await this.timestampQueryFn!(this.parseFilterKey(filterKey), since);
+          this.applyRecentChanges(filterKey, snapshot, recentChanges);
+        } catch (error) {
+          this.logger.warn(
+            { filterKey, error: error instanceof Error ? error.message : String(error) },
+            `${LOG_PREFIX.graph} Change feed refresh failed`
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Diff recently written nodes and edges against a snapshot, merge them in
+   * and emit the changes
+   */
+  private applyRecentChanges(filterKey: string, snapshot: GraphSnapshot, recentChanges: GraphContext): void {
+    // Compute diff from the query results BEFORE updating the snapshot
+    const patch = this.computeTimestampBasedDiff(recentChanges, snapshot);
+
+    for (const [id, node] of this.nodesToMap(recentChanges.nodes)) {
+      snapshot.nodes.set(id, node);
+    }
+    for (const [key, edge] of this.edgesToMap(recentChanges.edges)) {
+      snapshot.edges.set(key, edge);
+    }
+
+    if (this.hasChanges(patch)) {
+      this.emitPatchWithBatching(filterKey, patch);
+    }
+  }
+
   /**
    * Poll all active filters for changes
    */
@@ -338,33 +535,13 @@ export class GraphChangeDetector {
           );
         }
 
-        // Compute diff from timestamp query results BEFORE updating snapshot
-        const patch = this.computeTimestampBasedDiff(currentContext, snapshot);
-
-        // Now update snapshot with changed nodes
-        if (currentContext.nodes.length > 0 || currentContext.edges.length > 0) {
-          const currentNodes = this.nodesToMap(currentContext.nodes);
-          const currentEdges = this.edgesToMap(currentContext.edges);
-
-          // Merge into existing snapshot
-          for (const [id, node] of currentNodes) {
-            snapshot.nodes.set(id, node);
-          }
-          for (const [key, edge] of currentEdges) {
-            snapshot.edges.set(key, edge);
-          }
-        }
-
         // Update last poll time
         this.lastPollTimes.set(filterKey, {
           timestamp: new Date(),
           hasData: currentContext.nodes.length > 0,
         });
 
-        // Emit patch if there are changes
-        if (this.hasChanges(patch)) {
-          this.emitPatchWithBatching(filterKey, patch);
-        }
+        this.applyRecentChanges(filterKey, snapshot, currentContext);
 
         return;
       }
@@ -631,19 +808,21 @@ export class GraphChangeDetector {
     const patch = this.createEmptyPatch();
 
     for (const node of recentChanges.nodes) {
-      if (currentSnapshot.nodes.has(node.id)) {
-        patch.nodes.updated.push(node);
-      } else {
+      const existing = currentSnapshot.nodes.get(node.id);
+      if (!existing) {
         patch.nodes.added.push(node);
+      } else if (this.nodeHasChanged(existing, node)) {
+        // Unchanged nodes were already applied from the change feed
+        patch.nodes.updated.push(node);
       }
     }
 
     for (const edge of recentChanges.edges) {
-      const edgeKey = this.getEdgeKey(edge);
-      if (currentSnapshot.edges.has(edgeKey)) {
-        patch.edges.updated.push(edge);
-      } else {
+      const existing = currentSnapshot.edges.get(this.getEdgeKey(edge));
+      if (!existing) {
         patch.edges.added.push(edge);
+      } else if (this.edgeHasChanged(existing, edge)) {
+        patch.edges.updated.push(edge);
       }
     }
 
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  InMemoryGraphChangeFeed,
+  RedisGraphChangeFeed,
+  graphChangeEventToNode,
+  type GraphChangeEvent,
+} from './graphChangeFeed.js';
+
+const nodeEvent = (overrides: Partial<GraphChangeEvent> = {}): GraphChangeEvent => ({
+  entity: 'node',
+  change: 'updated',
+  nodeId: 'IE_BENEFIT_JOBSEEKERS',
+  nodeLabel: 'Benefit',
+  before: { id: 'IE_BENEFIT_JOBSEEKERS', name: "Jobseeker's Benefit", weekly_rate: 232 },
+  after: { id: 'IE_BENEFIT_JOBSEEKERS', name: "Jobseeker's Benefit", weekly_rate: 244 },
+  source: 'ingestion',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+function createMockPubSub() {
+  const handlers = new Map<string, (message: string) => void>();
+  return {
+    handlers,
+    pub: {
+      publish: vi.fn().mockResolvedValue(1),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    },
+    sub: {
+      publish: vi.fn().mockResolvedValue(1),
+      subscribe: vi.fn(async (channel: string, handler: (message: string) => void) => {
+        handlers.set(channel, handler);
+      }),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    },
+  };
+}
+
+describe('InMemoryGraphChangeFeed', () => {
+  it('delivers published events to subscribers until they unsubscribe', () => {
+    const feed = new InMemoryGraphChangeFeed();
+    const listener = vi.fn();
+
+    const unsubscribe = feed.subscribe(listener);
+    feed.publish(nodeEvent());
+    unsubscribe();
+    feed.publish(nodeEvent());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(nodeEvent());
+  });
+
+  it('keeps delivering when a listener throws', () => {
+    const feed = new InMemoryGraphChangeFeed();
+    const failing = vi.fn(() => {
+      throw new Error('listener failed');
+    });
+    const listener = vi.fn();
+
+    feed.subscribe(failing);
+    feed.subscribe(listener);
+    feed.publish(nodeEvent());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RedisGraphChangeFeed', () => {
+  it('delivers locally and publishes to the graph changes channel', async () => {
+    const clients = createMockPubSub();
+    const feed = new RedisGraphChangeFeed({ clients, instanceId: 'writer' });
+    const listener = vi.fn();
+
+    feed.subscribe(listener);
+    feed.publish(nodeEvent());
+
+    expect(listener).toHaveBeenCalledWith(nodeEvent());
+    expect(clients.pub.publish).toHaveBeenCalledWith(
+      'copilot:events:graph:changes',
+      expect.stringContaining('"event":"graph_change"'),
+    );
+  });
+
+  it('delivers events published by other instances', async () => {
+    const clients = createMockPubSub();
+    const feed = new RedisGraphChangeFeed({ clients, instanceId: 'detector' });
+    const listener = vi.fn();
+
+    feed.subscribe(listener);
+    await vi.waitFor(() => expect(clients.handlers.has('copilot:events:graph:changes')).toBe(true));
+
+    const handler = clients.handlers.get('copilot:events:graph:changes')!;
+    handler(JSON.stringify({ event: 'graph_change', data: nodeEvent(), timestamp: Date.now(), instanceId: 'writer' }));
+    handler(JSON.stringify({ event: 'graph_change', data: nodeEvent(), timestamp: Date.now(), instanceId: 'detector' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(nodeEvent());
+  });
+});
+
+describe('graphChangeEventToNode', () => {
+  it('builds a patch node from the properties after the write', () => {
+    expect(graphChangeEventToNode(nodeEvent())).toEqual({
+      id: 'IE_BENEFIT_JOBSEEKERS',
+      label: "Jobseeker's Benefit",
+      type: 'Benefit',
+      properties: { id: 'IE_BENEFIT_JOBSEEKERS', name: "Jobseeker's Benefit", weekly_rate: 244 },
+    });
+  });
+
+  it('returns null for removals and edge events', () => {
+    expect(graphChangeEventToNode(nodeEvent({ change: 'removed', after: null }))).toBeNull();
+    expect(
+      graphChangeEventToNode({
+        entity: 'edge',
+        change: 'added',
+        edge: { source: 'A', target: 'B', type: 'REQUIRES' },
+        before: null,
+        after: {},
+        source: 'script',
+        timestamp: '2026-01-01T00:00:00.000Z',
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Graph Change Feed
+ *
+ * Event-driven change notifications for the global Memgraph instance.
+ * GraphWriteService publishes one event per committed write, and
+ * GraphChangeDetector consumes the feed to build graph patches incrementally
+ * instead of re-querying the graph on every poll.
+ *
+ * Feeds are backed by reg-intel-eventhub so events reach detectors running in
+ * other instances (Redis pub/sub or Supabase Realtime). The in-memory feed is
+ * for single-process deployments and tests.
+ */
+
+import { GenericRedisEventHub, type RedisEventHubConfig } from '@reg-copilot/reg-intel-eventhub/redis';
+import {
+  GenericSupabaseEventHub,
+  type SupabaseEventHubConfig,
+} from '@reg-copilot/reg-intel-eventhub/supabase';
+import type { SseSubscriber } from '@reg-copilot/reg-intel-eventhub';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { GraphWriteContext } from './graphIngressGuard.js';
+import type { GraphNode } from './types.js';
+
+/**
+ * A single committed change to a node or relationship
+ */
+export interface GraphChangeEvent {
+  /** Whether a node or a relationship changed */
+  entity: 'node' | 'edge';
+  /** Kind of change, derived from the state before and after the write */
+  change: 'added' | 'updated' | 'removed';
+  /** Semantic node ID (node events) */
+  nodeId?: string;
+  /** Node label, e.g. 'Benefit' (node events) */
+  nodeLabel?: string;
+  /** Relationship endpoints and type (edge events) */
+  edge?: {
+    source: string;
+    target: string;
+    type: string;
+    /** Label of the source node, e.g. 'Section' */
+    sourceLabel?: string;
+    /** Label of the target node */
+    targetLabel?: string;
+  };
+  /** Properties before the write, or null if the entity did not exist */
+  before: Record<string, unknown> | null;
+  /** Properties after the write, or null if the entity was removed */
+  after: Record<string, unknown> | null;
+  /** Source of the write request */
+  source: GraphWriteContext['source'];
+  /** ISO timestamp of when the write was committed */
+  timestamp: string;
+}
+
+/**
+ * Listener invoked for each change event
+ */
+export type GraphChangeListener = (event: GraphChangeEvent) => void;
+
+/**
+ * Publish/subscribe channel for graph change events
+ */
+export interface GraphChangeFeed {
+  /** Publish a change event to all subscribers (local and remote) */
+  publish(event: GraphChangeEvent): void;
+  /**
+   * Subscribe to change events
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: GraphChangeListener): () => void;
+}
+
+type GraphChangeFeedEventType = 'graph_change';
+
+const GRAPH_CHANGE_EVENT: GraphChangeFeedEventType = 'graph_change';
+const GRAPH_CHANGE_FEED_KEY = 'graph';
+
+const feedLogger = createLogger('GraphChangeFeed', { component: 'GraphChangeFeed' });
+
+function toSubscriber(listener: GraphChangeListener): SseSubscriber<GraphChangeFeedEventType> {
+  return {
+    send: (event, data) => {
+      if (event === GRAPH_CHANGE_EVENT) {
+        listener(data as GraphChangeEvent);
+      }
+    },
+  };
+}
+
+/**
+ * Convert a node change event into the GraphNode shape used in patches
+ *
+ * Returns null for edge events and for removals, which carry no properties.
+ */
+export function graphChangeEventToNode(event: GraphChangeEvent): GraphNode | null {
+  if (event.entity !== 'node' || !event.nodeId || !event.nodeLabel || !event.after) {
+    return null;
+  }
+
+  const properties = event.after;
+  return {
+    id: event.nodeId,
+    label: (properties.label as string) || (properties.name as string) || event.nodeLabel,
+    type: event.nodeLabel as GraphNode['type'],
+    properties,
+  };
+}
+
+/**
+ * In-process graph change feed
+ *
+ * Suitable when the write service and the detector share a process.
+ */
+export class InMemoryGraphChangeFeed implements GraphChangeFeed {
+  private listeners = new Set<GraphChangeListener>();
+
+  publish(event: GraphChangeEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        feedLogger.error({ err: error }, 'Graph change listener failed');
+      }
+    }
+  }
+
+  subscribe(listener: GraphChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Redis-backed graph change feed
+ *
+ * Channel: `{prefix}:graph:changes`
+ */
+export class RedisGraphChangeFeed
+  extends GenericRedisEventHub<GraphChangeFeedEventType>
+  implements GraphChangeFeed
+{
+  protected override readonly loggerName = 'RedisGraphChangeFeed';
+
+  constructor(config: RedisEventHubConfig) {
+    super({ ...config, prefix: config.prefix ?? 'copilot:events' });
+  }
+
+  private channelName(): string {
+    return `${this.prefix}:graph:changes`;
+  }
+
+  publish(event: GraphChangeEvent): void {
+    this.broadcastInternal(GRAPH_CHANGE_FEED_KEY, this.channelName(), GRAPH_CHANGE_EVENT, event);
+  }
+
+  subscribe(listener: GraphChangeListener): () => void {
+    return this.subscribeInternal(GRAPH_CHANGE_FEED_KEY, this.channelName(), toSubscriber(listener));
+  }
+}
+
+/**
+ * Supabase Realtime graph change feed
+ *
+ * Channel: `{prefix}:graph:changes`
+ */
+export class SupabaseGraphChangeFeed
+  extends GenericSupabaseEventHub<GraphChangeFeedEventType>
+  implements GraphChangeFeed
+{
+  protected override readonly loggerName = 'SupabaseGraphChangeFeed';
+  protected override readonly broadcastEventName = 'graph_change';
+
+  constructor(config: SupabaseEventHubConfig) {
+    super({ ...config, prefix: config.prefix ?? 'copilot:events' });
+  }
+
+  private channelName(): string {
+    return `${this.prefix}:graph:changes`;
+  }
+
+  publish(event: GraphChangeEvent): void {
+    this.broadcastInternal(GRAPH_CHANGE_FEED_KEY, this.channelName(), GRAPH_CHANGE_EVENT, event);
+  }
+
+  subscribe(listener: GraphChangeListener): () => void {
+    return this.subscribeInternal(GRAPH_CHANGE_FEED_KEY, this.channelName(), toSubscriber(listener));
+  }
+}
@@ -165,6 +165,48 @@ describe('Graph Ingress Guard', () => {
         await expect(schemaValidationAspect(ctx, next)).resolves.not.toThrow();
       }
     });
+
+    it('allows relationships between labels declared in the schema', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'merge',
+        relType: 'HAS_RATE',
+        properties: {},
+        source: 'agent',
+        metadata: { fromLabel: 'Benefit', fromId: 'BENEFIT:1', toLabel: 'Rate', toId: 'RATE:1' },
+      };
+
+      const next = vi.fn(async (c: GraphWriteContext) => c);
+      await expect(schemaValidationAspect(ctx, next)).resolves.toBe(ctx);
+    });
+
+    it('rejects relationships between labels the schema does not allow', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'create',
+        relType: 'HAS_RATE',
+        properties: {},
+        source: 'agent',
+        metadata: { fromLabel: 'Benefit', fromId: 'BENEFIT:1', toLabel: 'Section', toId: 'SECTION:1' },
+      };
+
+      const next = vi.fn();
+      await expect(() => schemaValidationAspect(ctx, next)).rejects.toThrow(
+        /Relationship "HAS_RATE" cannot go from "Benefit" to "Section"/
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('does not check endpoints when deleting relationships', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'delete',
+        relType: 'HAS_RATE',
+        properties: {},
+        source: 'agent',
+        metadata: { fromLabel: 'Benefit', fromId: 'BENEFIT:1', toLabel: 'Section', toId: 'SECTION:1' },
+      };
+
+      const next = vi.fn(async (c: GraphWriteContext) => c);
+      await expect(schemaValidationAspect(ctx, next)).resolves.toBe(ctx);
+    });
   });
 
   describe('piiBlockingAspect', () => {
@@ -340,6 +382,48 @@ describe('Graph Ingress Guard', () => {
       expect(next).not.toHaveBeenCalled();
     });
 
+    it('rejects property values of the wrong type', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'merge',
+        nodeLabel: 'Rate',
+        properties: { id: 'RATE:1', label: 'Standard rate', percentage: '20%' },
+        source: 'agent',
+      };
+
+      const next = vi.fn();
+      await expect(() => propertyWhitelistAspect(ctx, next)).rejects.toThrow(
+        /Property "percentage" for node label "Rate" must be number/
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects creates that omit required properties', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'create',
+        nodeLabel: 'Statute',
+        properties: { id: 'IE_TCA_1997', name: 'Taxes Consolidation Act 1997' },
+        source: 'agent',
+      };
+
+      const next = vi.fn();
+      await expect(() => propertyWhitelistAspect(ctx, next)).rejects.toThrow(
+        /Required property "type" is missing for node label "Statute"/
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('allows partial updates without required properties', async () => {
+      const ctx: GraphWriteContext = {
+        operation: 'update',
+        nodeLabel: 'Statute',
+        properties: { id: 'IE_TCA_1997', citation: 'TCA 1997' },
+        source: 'agent',
+      };
+
+      const next = vi.fn(async (c: GraphWriteContext) => c);
+      await expect(propertyWhitelistAspect(ctx, next)).resolves.toBe(ctx);
+    });
+
     it('allows universal properties on any node', async () => {
       const ctx: GraphWriteContext = {
         operation: 'merge',
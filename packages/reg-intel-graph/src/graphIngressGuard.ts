@@ -2,9 +2,13 @@
  * Graph Ingress Guard v0.1
  *
  * Implements the aspect-based ingress guard pattern for all Memgraph writes.
+ * Labels, relationship endpoints and properties are validated against the
+ * graph schema registry.
  * See: docs/architecture/guards/graph_ingress_v_0_1.md
  */
 
+import { graphSchemaRegistry } from './schema/schemaRegistry.js';
+
 /**
  * Context for a graph write operation
  */
@@ -46,146 +50,17 @@ export function composeIngressAspects(
   );
 }
 
-export const ALLOWED_NODE_LABELS = [
-  'Jurisdiction',
-  'Region',
-  'Concept',
-  'Label',
-  'Agreement',
-  'Treaty',
-  'Regime',
-  'Statute',
-  'Section',
-  'Benefit',
-  'Relief',
-  'Condition',
-  'Timeline',
-  'ProfileTag',
-  'Community',
-  'EURegulation',
-  'EUDirective',
-  'Guidance',
-  'Case',
-  'Update',
-  'ChangeEvent',
-  'Obligation',
-  'Threshold',
-  'Rate',
-  'Form',
-  'PRSIClass',
-  'LifeEvent',
-  'Penalty',
-  'LegalEntity',
-  'TaxCredit',
-  'RegulatoryBody',
-  'AssetClass',
-  'MeansTest',
-  'TaxYear',
-  'NIClass',
-  'BenefitCap',
-  'CoordinationRule',
-] as readonly string[];
-
-export const ALLOWED_RELATIONSHIP_TYPES = [
-  'IN_JURISDICTION',
-  'PART_OF',
-  'PART_OF_REGIME',
-  'SUBSECTION_OF',
-  'APPLIES_IN',
-  'CITES',
-  'REFERENCES',
-  'REQUIRES',
-  'LIMITED_BY',
-  'EXCLUDES',
-  'MUTUALLY_EXCLUSIVE_WITH',
-  'LOOKBACK_WINDOW',
-  'LOCKS_IN_FOR_PERIOD',
-  'FILING_DEADLINE',
-  'EFFECTIVE_WINDOW',
-  'USAGE_FREQUENCY',
-  'COORDINATED_WITH',
-  'TREATY_LINKED_TO',
-  'EQUIVALENT_TO',
-  'IMPLEMENTED_BY',
-  'OVERRIDES',
-  'INTERPRETS',
-  'AFFECTS',
-  'CHANGES_INTERPRETATION_OF',
-  'UPDATES',
-  'AMENDED_BY',
-  'HAS_PROFILE_TAG',
-  'APPLIES_TO_PROFILE',
-  'CONTAINS',
-  'PARTY_TO',
-  'MODIFIED_BY',
-  'ESTABLISHES_REGIME',
-  'IMPLEMENTED_VIA',
-  'SUBJECT_TO_REGIME',
-  'AVAILABLE_VIA_REGIME',
-  'HAS_ALT_LABEL',
-  'ALIGNS_WITH',
-  'DERIVED_FROM',
-  'HAS_SOURCE',
-  'HAS_OBLIGATION',
-  'CREATES_OBLIGATION',
-  'REQUIRES_FORM',
-  'CLAIMED_VIA',
-  'HAS_THRESHOLD',
-  'LIMITED_BY_THRESHOLD',
-  'CHANGES_THRESHOLD',
-  'HAS_RATE',
-  'SUBJECT_TO_RATE',
-  'APPLIES_RATE',
-  'BROADER',
-  'NARROWER',
-  'RELATED',
-  'ENTITLES_TO',
-  'HAS_PRSI_CLASS',
-  'CONTRIBUTION_RATE',
-  'TRIGGERS',
-  'STARTS_TIMELINE',
-  'ENDS_TIMELINE',
-  'TRIGGERED_BY',
-  'HAS_PENALTY',
-  'WAIVED_IF',
-  'SCALES_WITH',
-  'AVAILABLE_TO',
-  'APPLIES_TO_ENTITY',
-  'REGISTERED_AS',
-  'ENTITLED_TO',
-  'CAPPED_BY',
-  'TRANSFERS_TO',
-  'STACKS_WITH',
-  'REDUCES',
-  'OFFSETS_AGAINST',
-  'ADMINISTERED_BY',
-  'ISSUED_BY',
-  'REGULATED_BY',
-  'APPLIES_TO_ASSET',
-  'HAS_CGT_RATE',
-  'HAS_STAMP_DUTY_RATE',
-  'HAS_CAT_RATE',
-  'HAS_MEANS_TEST',
-  'DISREGARDS',
-  'APPLIES_IN_YEAR',
-  'EFFECTIVE_IN_YEAR',
-  'HAS_NI_CLASS',
-  'QUALIFIES_FOR',
-  'SUBJECT_TO_CAP',
-  'COORDINATED_UNDER',
-  'AGGREGATES_WITH',
-  'POSTED_TO',
-  // Cross-jurisdictional relationship types
-  'IMPLEMENTS', // Section implements EU Directive
-  'AMENDS', // MLI amends tax treaty
-  'MEMBER_OF', // Jurisdiction is member of supranational body
-  'HAS_TREATY_WITH', // Jurisdiction has tax treaty with another
-  'HARMONIZED_WITH', // Rule harmonized with EU law
-] as readonly string[];
+/**
+ * Node labels and relationship types declared in the graph schema
+ * (see ./schema/graphSchema.ts)
+ */
+export const ALLOWED_NODE_LABELS = graphSchemaRegistry.nodeLabels;
+export const ALLOWED_RELATIONSHIP_TYPES = graphSchemaRegistry.relationshipTypes;
 
 /**
  * Baseline aspect: Schema validation
- * Ensures node labels and relationship types are whitelisted
+ * Ensures node labels and relationship types are declared in the schema, and
+ * that created relationships connect labels the schema allows
  */
 export const schemaValidationAspect: GraphIngressAspect = async (ctx, next) => {
   if (ctx.nodeLabel && !ALLOWED_NODE_LABELS.includes(ctx.nodeLabel)) {
@@ -202,6 +77,21 @@ export const schemaValidationAspect: GraphIngressAspect = async (ctx, next) => {
     );
   }
 
+  const fromLabel = ctx.metadata?.fromLabel;
+  const toLabel = ctx.metadata?.toLabel;
+  if (
+    ctx.relType &&
+    (ctx.operation === 'create' || ctx.operation === 'merge') &&
+    typeof fromLabel === 'string' &&
+    typeof toLabel === 'string' &&
+    !graphSchemaRegistry.allowsEndpoints(ctx.relType, fromLabel, toLabel)
+  ) {
+    throw new Error(
+      `Graph Ingress Guard: Relationship "${ctx.relType}" cannot go from "${fromLabel}" to "${toLabel}". ` +
+        `Allowed endpoints: ${graphSchemaRegistry.describeEndpoints(ctx.relType).join('; ')}`,
+    );
+  }
+
   return next(ctx);
 };
 
@@ -294,279 +184,37 @@ export const piiBlockingAspect: GraphIngressAspect = async (ctx, next) => {
 
 /**
  * Baseline aspect: Property whitelisting
- * Ensures only approved properties are written for each node/relationship type
+ * Ensures only properties declared in the schema are written for each node
+ * label, with the declared value types, and that creates and merges include
+ * the required properties
  */
 export const propertyWhitelistAspect: GraphIngressAspect = async (ctx, next) => {
-  // Define allowed properties for each node label
-  // This is a simplified version - expand as needed per schema_v_0_4.md
-  const nodePropertyWhitelist: Record<string, string[]> = {
-    Concept: [
-      'id',
-      'pref_label',
-      'domain',
-      'kind',
-      'jurisdiction',
-      'definition',
-      'alt_labels',
-      'source_urls',
-      'ingestion_status',
-      'created_at',
-      'updated_at',
-      'last_verified_at',
-    ],
-    Label: ['id', 'value', 'kind'],
-    Jurisdiction: ['id', 'name', 'type', 'notes', 'code'],
-    Region: ['id', 'name', 'type', 'notes'],
-    Agreement: ['id', 'name', 'type', 'description', 'effective_from', 'effective_to'],
-    Treaty: ['id', 'name', 'type', 'description', 'effective_from', 'effective_to'],
-    Regime: ['id', 'name', 'category', 'description'],
-    Statute: ['id', 'name', 'citation', 'source_url', 'type'],
-    Section: [
-      'id',
-      'label',
-      'title',
-      'text_excerpt',
-      'effective_from',
-      'effective_to',
-      'section_number',
-    ],
-    Benefit: ['id', 'name', 'category', 'short_summary', 'description'],
-    Relief: ['id', 'name', 'tax_type', 'short_summary', 'description'],
-    Condition: ['id', 'label', 'description', 'category'],
-    Timeline: [
-      'id',
-      'label',
-      'window_days',
-      'window_months',
-      'window_years',
-      'kind',
-      'jurisdictionCode',
-      'description',
-    ],
-    ProfileTag: ['id', 'label', 'category', 'description'],
-    Community: ['id', 'label', 'size', 'representative_nodes'],
-    EURegulation: ['id', 'name', 'number', 'effective_from', 'effective_to', 'description'],
-    EUDirective: ['id', 'name', 'number', 'effective_from', 'effective_to', 'description'],
-    Guidance: ['id', 'title', 'source', 'url', 'effective_from', 'category'],
-    Case: ['id', 'title', 'citation', 'court', 'decision_date', 'summary'],
-    Update: ['id', 'kind', 'description', 'effective_from', 'effective_to', 'source_url'],
-    ChangeEvent: ['id', 'kind', 'description', 'effective_from', 'effective_to', 'source_url'],
-    Obligation: [
-      'id',
-      'label',
-      'category',
-      'frequency',
-      'penalty_applies',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    Threshold: [
-      'id',
-      'label',
-      'value',
-      'unit',
-      'direction',
-      'upper_bound',
-      'effective_from',
-      'effective_to',
-      'category',
-      'created_at',
-      'updated_at',
-    ],
-    Rate: [
-      'id',
-      'label',
-      'percentage',
-      'flat_amount',
-      'currency',
-      'band_lower',
-      'band_upper',
-      'effective_from',
-      'effective_to',
-      'category',
-      'created_at',
-      'updated_at',
-    ],
-    Form: [
-      'id',
-      'label',
-      'issuing_body',
-      'form_number',
-      'source_url',
-      'category',
-      'online_only',
-      'created_at',
-      'updated_at',
-    ],
-    PRSIClass: [
-      'id',
-      'label',
-      'description',
-      'eligible_benefits',
-      'created_at',
-      'updated_at',
-    ],
-    LifeEvent: [
-      'id',
-      'label',
-      'category',
-      'triggers_timeline',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    Penalty: [
-      'id',
-      'label',
-      'penalty_type',
-      'rate',
-      'daily_rate',
-      'flat_amount',
-      'currency',
-      'max_amount',
-      'applies_after_days',
-      'applies_after_months',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    LegalEntity: [
-      'id',
-      'label',
-      'abbreviation',
-      'jurisdiction',
-      'category',
-      'sub_category',
-      'has_separate_legal_personality',
-      'limited_liability',
-      'can_trade',
-      'can_hold_property',
-      'tax_transparent',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    TaxCredit: [
-      'id',
-      'label',
-      'amount',
-      'currency',
-      'tax_year',
-      'refundable',
-      'transferable',
-      'restricted_to_marginal',
-      'category',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    RegulatoryBody: [
-      'id',
-      'label',
-      'abbreviation',
-      'jurisdiction',
-      'domain',
-      'website',
-      'contact_info',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    AssetClass: [
-      'id',
-      'label',
-      'category',
-      'sub_category',
-      'tangible',
-      'cgt_applicable',
-      'cat_applicable',
-      'stamp_duty_applicable',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    MeansTest: [
-      'id',
-      'label',
-      'income_disregard',
-      'capital_threshold',
-      'capital_weekly_assessment',
-      'spouse_income_assessed',
-      'maintenance_assessed',
-      'categories',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-    TaxYear: [
-      'id',
-      'year',
-      'start_date',
-      'end_date',
-      'jurisdiction',
-      'created_at',
-      'updated_at',
-    ],
-    NIClass: [
-      'id',
-      'label',
-      'description',
-      'rate',
-      'threshold_weekly',
-      'threshold_annual',
-      'eligible_benefits',
-      'created_at',
-      'updated_at',
-    ],
-    BenefitCap: [
-      'id',
-      'label',
-      'amount_single',
-      'amount_couple',
-      'amount_with_children',
-      'currency',
-      'frequency',
-      'exemptions',
-      'effective_from',
-      'effective_to',
-      'created_at',
-      'updated_at',
-    ],
-    CoordinationRule: [
-      'id',
-      'label',
-      'regulation',
-      'article',
-      'applies_to',
-      'home_jurisdiction',
-      'host_jurisdiction',
-      'duration_months',
-      'description',
-      'created_at',
-      'updated_at',
-    ],
-  };
-
-  // Algorithm-derived properties that are allowed on any node
-  const universalAllowedProps = ['community_id', 'centrality_score'];
-
   if (ctx.nodeLabel) {
-    const allowedProps = nodePropertyWhitelist[ctx.nodeLabel] || [];
-    const allAllowed = [...allowedProps, ...universalAllowedProps];
+    const violations = graphSchemaRegistry.validateNodeProperties(ctx.nodeLabel, ctx.properties, {
+      requireAll: ctx.operation === 'create' || ctx.operation === 'merge',
+    });
+    const [violation] = violations;
 
-    for (const key of Object.keys(ctx.properties)) {
-      if (!allAllowed.includes(key)) {
-        throw new Error(
-          `Graph Ingress Guard: Property "${key}" is not whitelisted for node label "${ctx.nodeLabel}". ` +
-            `Allowed properties: ${allAllowed.join(', ')}`,
-        );
-      }
+    if (violation?.problem === 'not_allowed') {
+      throw new Error(
+        `Graph Ingress Guard: Property "${violation.property}" is not whitelisted for node label "${ctx.nodeLabel}". ` +
+          `Allowed properties: ${graphSchemaRegistry.getAllowedProperties(ctx.nodeLabel).join(', ')}`,
+      );
+    }
+    if (violation?.problem === 'wrong_type') {
+      throw new Error(
+        `Graph Ingress Guard: Property "${violation.property}" for node label "${ctx.nodeLabel}" ` +
+          `must be ${violation.expected}`,
+      );
+    }
+    if (violation?.problem === 'missing') {
+      throw new Error(
+        `Graph Ingress Guard: Required property "${violation.property}" is missing for node label "${ctx.nodeLabel}"`,
+      );
     }
   }
 
-  // For relationships, we're more lenient for now
-  // Expand this as needed based on schema requirements
+  // Relationship properties are not declared in the schema yet
 
   return next(ctx);
 };
@@ -1,8 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
-import type { Driver, Session } from 'neo4j-driver';
+import neo4j, { type Driver, type Session } from 'neo4j-driver';
 
 import { GraphWriteService, type GraphIngressAspect } from './graphWriteService.js';
 import type { GraphWriteContext } from './graphIngressGuard.js';
+import { InMemoryGraphChangeFeed, type GraphChangeEvent } from './graphChangeFeed.js';
+import { InMemoryGraphVersionStore } from './versioning/graphVersionStore.js';
 
 function createMockSession() {
   const session: Pick<Session, 'run' | 'close'> = {
@@ -256,6 +258,39 @@ describe('GraphWriteService', () => {
     });
   });
 
+  describe('upsertGuidance', () => {
+    it('creates Guidance node and IN_JURISDICTION relationship', async () => {
+      const mockSession = createMockSession();
+      const driver = createMockDriver(mockSession);
+      const service = new GraphWriteService({ driver });
+
+      await service.upsertGuidance({
+        id: 'IE_REVENUE_TDM_29_02_03',
+        title: 'Research and Development (R&D) Corporation Tax Credit',
+        source: 'Revenue',
+        category: 'TAX_AND_DUTY_MANUAL',
+        jurisdictionId: 'IE',
+      });
+
+      expect(mockSession.run).toHaveBeenCalledWith(
+        expect.stringContaining('MERGE (n:Guidance {id: $id})'),
+        expect.objectContaining({
+          id: 'IE_REVENUE_TDM_29_02_03',
+          source: 'Revenue',
+          category: 'TAX_AND_DUTY_MANUAL',
+        })
+      );
+
+      expect(mockSession.run).toHaveBeenCalledWith(
+        expect.stringContaining('MERGE (a)-[r:IN_JURISDICTION]->(b)'),
+        expect.objectContaining({
+          fromId: 'IE_REVENUE_TDM_29_02_03',
+          toId: 'IE',
+        })
+      );
+    });
+  });
+
   describe('upsertBenefit', () => {
     it('creates Benefit node and IN_JURISDICTION relationship', async () => {
       const mockSession = createMockSession();
@@ -450,6 +485,39 @@ describe('GraphWriteService', () => {
     });
   });
 
+  describe('deleteRelationship', () => {
+    it('deletes the relationship and records it as removed', async () => {
+      const mockSession = createMockSession();
+      mockSession.run = vi.fn(async (cypher: string) =>
+        cypher.includes('RETURN properties')
+          ? { records: [{ get: () => ({ weight: 0.8 }) }] }
+          : undefined
+      ) as unknown as Session['run'];
+      const versionStore = new InMemoryGraphVersionStore();
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), versionStore });
+
+      await service.deleteRelationship({
+        fromId: 'CONCEPT:A',
+        fromLabel: 'Concept',
+        toId: 'CONCEPT:B',
+        toLabel: 'Concept',
+        relType: 'RELATED',
+      });
+
+      expect(mockSession.run).toHaveBeenCalledWith(
+        expect.stringContaining('MATCH (a:Concept {id: $fromId})-[r:RELATED]->(b:Concept {id: $toId}) DELETE r'),
+        expect.objectContaining({ fromId: 'CONCEPT:A', toId: 'CONCEPT:B' })
+      );
+      const [record] = await versionStore.listChanges();
+      expect(record).toMatchObject({
+        entity: 'edge',
+        change: 'removed',
+        before: { weight: 0.8 },
+        after: null,
+      });
+    });
+  });
+
   describe('Custom aspects integration', () => {
     it('executes custom aspects before baseline aspects', async () => {
       const mockSession = createMockSession();
@@ -573,4 +641,292 @@ describe('GraphWriteService', () => {
       expect(mockSession.run).toHaveBeenCalled();
     });
   });
+
+  describe('Change feed', () => {
+    function createFeedSession(currentProps: Record<string, unknown> | null) {
+      const session = createMockSession();
+      session.run = vi.fn(async (cypher: string) => {
+        if (cypher.includes('RETURN properties')) {
+          return {
+            records: currentProps ? [{ get: () => currentProps }] : [],
+          };
+        }
+        return undefined;
+      }) as unknown as Session['run'];
+      return session;
+    }
+
+    function collectEvents(feed: InMemoryGraphChangeFeed): GraphChangeEvent[] {
+      const events: GraphChangeEvent[] = [];
+      feed.subscribe(event => events.push(event));
+      return events;
+    }
+
+    it('publishes an added event for a new node after the write', async () => {
+      const mockSession = createFeedSession(null);
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({
+        driver: createMockDriver(mockSession),
+        changeFeed,
+        defaultSource: 'ingestion',
+      });
+
+      await service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' });
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          entity: 'node',
+          change: 'added',
+          nodeId: 'TAX:IE:VAT',
+          nodeLabel: 'Concept',
+          before: null,
+          after: { id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' },
+          source: 'ingestion',
+        }),
+      ]);
+    });
+
+    it('publishes before and after properties for updated nodes', async () => {
+      const mockSession = createFeedSession({ id: 'TAX:IE:VAT', pref_label: 'VAT', domain: 'TAX' });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        change: 'updated',
+        before: { id: 'TAX:IE:VAT', pref_label: 'VAT', domain: 'TAX' },
+        after: { id: 'TAX:IE:VAT', pref_label: 'Value Added Tax', domain: 'TAX' },
+      });
+    });
+
+    it('does not publish when a write leaves the node unchanged', async () => {
+      const mockSession = createFeedSession({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' });
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('compares integers read over Bolt with the written numbers', async () => {
+      const mockSession = createFeedSession({
+        id: 'TIMELINE:LOOKBACK_5Y',
+        label: '5 year lookback',
+        window_years: neo4j.int(5),
+      });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await service.upsertTimeline({ id: 'TIMELINE:LOOKBACK_5Y', label: '5 year lookback', window_years: 5 });
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('publishes integers and dates read over Bolt as plain values', async () => {
+      const mockSession = createFeedSession({
+        id: 'TIMELINE:LOOKBACK_5Y',
+        label: '5 year lookback',
+        window_years: neo4j.int(4),
+        effective_from: new neo4j.types.Date(2024, 1, 1),
+      });
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await service.upsertTimeline({ id: 'TIMELINE:LOOKBACK_5Y', label: '5 year lookback', window_years: 5 });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        change: 'updated',
+        before: { window_years: 4, effective_from: '2024-01-01' },
+        after: { window_years: 5, effective_from: '2024-01-01' },
+      });
+    });
+
+    it('publishes relationship events with their endpoints', async () => {
+      const mockSession = createFeedSession(null);
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await service.createRelationship({
+        fromId: 'A',
+        fromLabel: 'Concept',
+        toId: 'B',
+        toLabel: 'Label',
+        relType: 'HAS_ALT_LABEL',
+      });
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          entity: 'edge',
+          change: 'added',
+          edge: {
+            source: 'A',
+            target: 'B',
+            type: 'HAS_ALT_LABEL',
+            sourceLabel: 'Concept',
+            targetLabel: 'Label',
+          },
+        }),
+      ]);
+    });
+
+    it('does not publish when the write fails', async () => {
+      const mockSession = createFeedSession(null);
+      mockSession.run = vi
+        .fn()
+        .mockResolvedValueOnce({ records: [] })
+        .mockRejectedValueOnce(new Error('Write failed'));
+      const changeFeed = new InMemoryGraphChangeFeed();
+      const events = collectEvents(changeFeed);
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), changeFeed });
+
+      await expect(
+        service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' }),
+      ).rejects.toThrow('Write failed');
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('Version recording', () => {
+    function createVersionSession(currentProps: Record<string, unknown> | null) {
+      const session = createMockSession();
+      session.run = vi.fn(async (cypher: string) => {
+        if (cypher.includes('RETURN properties')) {
+          return {
+            records: currentProps ? [{ get: () => currentProps }] : [],
+          };
+        }
+        return undefined;
+      }) as unknown as Session['run'];
+      return session;
+    }
+
+    it('records committed writes with their batch and author', async () => {
+      const versionStore = new InMemoryGraphVersionStore();
+      const service = new GraphWriteService({
+        driver: createMockDriver(createVersionSession(null)),
+        versionStore,
+        defaultSource: 'ingestion',
+        tenantId: 'system',
+        batchId: 'ingest-2026-10-19',
+        author: 'ingest-sources',
+      });
+
+      await service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' });
+
+      const [record] = await versionStore.listChanges();
+      expect(record).toMatchObject({
+        entity: 'node',
+        change: 'added',
+        nodeId: 'TAX:IE:VAT',
+        batchId: 'ingest-2026-10-19',
+        author: 'ingest-sources',
+        tenantId: 'system',
+        source: 'ingestion',
+        after: { id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' },
+      });
+      expect(record.id).toEqual(expect.any(String));
+    });
+
+    it('keeps the write when the change cannot be recorded', async () => {
+      const versionStore = new InMemoryGraphVersionStore();
+      versionStore.appendChanges = vi.fn().mockRejectedValue(new Error('Store unavailable'));
+      const service = new GraphWriteService({
+        driver: createMockDriver(createVersionSession(null)),
+        versionStore,
+      });
+
+      await expect(
+        service.upsertConcept({ id: 'TAX:IE:VAT', pref_label: 'Value Added Tax' }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('reverts a node update by restoring previous values and removing added properties', async () => {
+      const mockSession = createVersionSession({
+        id: 'TAX:IE:VAT',
+        pref_label: 'Value Added Tax',
+        domain: 'TAX',
+      });
+      const versionStore = new InMemoryGraphVersionStore();
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession), versionStore });
+
+      await service.revertChange(
+        {
+          entity: 'node',
+          change: 'updated',
+          nodeId: 'TAX:IE:VAT',
+          nodeLabel: 'Concept',
+          before: { id: 'TAX:IE:VAT', pref_label: 'VAT' },
+          after: { id: 'TAX:IE:VAT', pref_label: 'Value Added Tax', domain: 'TAX' },
+          source: 'ingestion',
+          timestamp: '2026-10-19T09:00:00.000Z',
+        },
+        { batchId: 'rollback:ingest-1', author: 'admin' },
+      );
+
+      expect(mockSession.run).toHaveBeenCalledWith(
+        'MATCH (n:Concept {id: $id}) SET n.domain = $domain, n.pref_label = $pref_label',
+        { id: 'TAX:IE:VAT', pref_label: 'VAT', domain: null },
+      );
+      const [record] = await versionStore.listChanges();
+      expect(record).toMatchObject({
+        change: 'updated',
+        batchId: 'rollback:ingest-1',
+        author: 'admin',
+        after: { id: 'TAX:IE:VAT', pref_label: 'VAT' },
+      });
+    });
+
+    it('reverts an added relationship by deleting it', async () => {
+      const mockSession = createVersionSession({});
+      const service = new GraphWriteService({ driver: createMockDriver(mockSession) });
+
+      await service.revertChange({
+        entity: 'edge',
+        change: 'added',
+        edge: {
+          source: 'IE_TCA_1997_S81',
+          target: 'IE_TCA_1997',
+          type: 'PART_OF',
+          sourceLabel: 'Section',
+          targetLabel: 'Statute',
+        },
+        before: null,
+        after: {},
+        source: 'ingestion',
+        timestamp: '2026-10-19T09:00:00.000Z',
+      });
+
+      expect(mockSession.run).toHaveBeenCalledWith(
+        'MATCH (a:Section {id: $fromId})-[r:PART_OF]->(b:Statute {id: $toId}) DELETE r',
+        { fromId: 'IE_TCA_1997_S81', toId: 'IE_TCA_1997' },
+      );
+    });
+
+    it('refuses to revert relationship changes recorded without endpoint labels', async () => {
+      const service = new GraphWriteService({ driver: createMockDriver(createMockSession()) });
+
+      await expect(
+        service.revertChange({
+          entity: 'edge',
+          change: 'added',
+          edge: { source: 'A', target: 'B', type: 'PART_OF' },
+          before: null,
+          after: {},
+          source: 'script',
+          timestamp: '2026-10-19T09:00:00.000Z',
+        }),
+      ).rejects.toThrow('endpoint labels');
+    });
+  });
 });
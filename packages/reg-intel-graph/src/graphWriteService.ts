@@ -7,6 +7,7 @@
  * See: docs/architecture/guards/graph_ingress_v_0_1.md
  */
 
+import { randomUUID } from 'crypto';
 import type { Driver, Session } from 'neo4j-driver';
 import { createLogger, withSpan } from '@reg-copilot/reg-intel-observability';
 import {
@@ -23,6 +24,9 @@ import {
   ALLOWED_NODE_LABELS,
   ALLOWED_RELATIONSHIP_TYPES,
 } from './graphIngressGuard.js';
+import { toPlainGraphProperties } from './boltValues.js';
+import type { GraphChangeEvent, GraphChangeFeed } from './graphChangeFeed.js';
+import type { GraphVersionStore } from './versioning/types.js';
 
 export interface UpsertConceptDto {
   id: string;
@@ -94,6 +98,19 @@ export interface UpsertSectionDto {
   jurisdictionId: string;
 }
 
+/**
+ * DTO for upserting a guidance document
+ */
+export interface UpsertGuidanceDto {
+  id: string;
+  title: string;
+  source?: string;
+  url?: string;
+  effective_from?: string;
+  category?: string;
+  jurisdictionId: string;
+}
+
 /**
  * DTO for upserting a benefit
  */
@@ -129,6 +146,9 @@ export interface UpsertTimelineDto {
   window_years?: number;
   kind?: 'LOOKBACK' | 'LOCK_IN' | 'DEADLINE' | 'EFFECTIVE_WINDOW' | 'USAGE_FREQUENCY' | 'OTHER';
   jurisdictionCode?: string;
+  anchor?: 'EVENT' | 'TAX_YEAR_START' | 'TAX_YEAR_END';
+  day_of_month?: number;
+  business_days?: boolean;
   description?: string;
 }
 
@@ -177,6 +197,17 @@ export interface CreateRelationshipDto {
   properties?: Record<string, unknown>;
 }
 
+/**
+ * DTO for deleting a relationship
+ */
+export interface DeleteRelationshipDto {
+  fromId: string;
+  fromLabel: string;
+  toId: string;
+  toLabel: string;
+  relType: string;
+}
+
 /**
  * Configuration for GraphWriteService
  */
@@ -189,6 +220,22 @@ export interface GraphWriteServiceConfig {
   tenantId?: string;
   /** Source identifier for this write service instance */
   defaultSource?: 'ingestion' | 'agent' | 'background_job' | 'script';
+  /** Feed that receives a change event after each committed write (optional) */
+  changeFeed?: GraphChangeFeed;
+  /** Change log that records each committed write for versioning (optional) */
+  versionStore?: GraphVersionStore;
+  /** Person or process recorded as the author of writes, e.g. 'ingest-sources' */
+  author?: string;
+  /** Batch that recorded writes belong to, e.g. one ingestion run */
+  batchId?: string;
+}
+
+/**
+ * Who a write is recorded against; overrides the service defaults
+ */
+export interface GraphWriteAttribution {
+  batchId?: string;
+  author?: string;
 }
 
 /**
@@ -202,6 +249,10 @@ export class GraphWriteService {
   private customAspects: GraphIngressAspect[];
   private tenantId?: string;
   private defaultSource: 'ingestion' | 'agent' | 'background_job' | 'script';
+  private changeFeed?: GraphChangeFeed;
+  private versionStore?: GraphVersionStore;
+  private author?: string;
+  private batchId?: string;
   private logger = createLogger('GraphWriteService', { component: 'GraphWrite' });
 
   constructor(config: GraphWriteServiceConfig) {
@@ -209,6 +260,10 @@ export class GraphWriteService {
     this.customAspects = config.customAspects || [];
     this.tenantId = config.tenantId;
     this.defaultSource = config.defaultSource || 'script';
+    this.changeFeed = config.changeFeed;
+    this.versionStore = config.versionStore;
+    this.author = config.author;
+    this.batchId = config.batchId;
   }
 
   /**
@@ -256,11 +311,21 @@ export class GraphWriteService {
     // Terminal function: actually execute the write
     const terminal = async (finalCtx: GraphWriteContext): Promise<GraphWriteContext> => {
       const session: Session = this.driver.session();
+      const tracksChanges = Boolean(this.changeFeed || this.versionStore);
+      let changeEvent: GraphChangeEvent | null = null;
       try {
+        const before = tracksChanges ? await this.readCurrentProperties(session, finalCtx) : null;
         await this.executeCypher(session, finalCtx);
+        if (tracksChanges) {
+          changeEvent = this.buildChangeEvent(finalCtx, before);
+        }
       } finally {
         await session.close();
       }
+      if (changeEvent) {
+        await this.recordChange(changeEvent, finalCtx);
+        this.publishChange(changeEvent);
+      }
       return finalCtx;
     };
 
@@ -269,6 +334,179 @@ export class GraphWriteService {
     await pipeline(ctx);
   }
 
+  /**
+   * Read the properties of the node or relationship targeted by a write, or
+   * null when it does not exist yet. Integers and temporal values are
+   * returned as numbers and strings so they compare equal to written values.
+   */
+  private async readCurrentProperties(
+    session: Session,
+    ctx: GraphWriteContext,
+  ): Promise<Record<string, unknown> | null> {
+    let cypher: string;
+    let params: Record<string, unknown>;
+
+    if (ctx.nodeLabel) {
+      if (ctx.operation === 'create' || typeof ctx.properties.id !== 'string') {
+        return null;
+      }
+      this.validateNodeLabel(ctx.nodeLabel);
+      cypher = `MATCH (n:${ctx.nodeLabel} {id: $id}) RETURN properties(n) AS props LIMIT 1`;
+      params = { id: ctx.properties.id };
+    } else if (ctx.relType) {
+      const endpoints = this.getRelationshipEndpoints(ctx);
+      if (ctx.operation === 'create' || !endpoints) {
+        return null;
+      }
+      this.validateRelationshipType(ctx.relType);
+      this.validateNodeLabel(endpoints.fromLabel);
+      this.validateNodeLabel(endpoints.toLabel);
+      cypher =
+        `MATCH (a:${endpoints.fromLabel} {id: $fromId})-[r:${ctx.relType}]->(b:${endpoints.toLabel} {id: $toId}) ` +
+        'RETURN properties(r) AS props LIMIT 1';
+      params = { fromId: endpoints.fromId, toId: endpoints.toId };
+    } else {
+      return null;
+    }
+
+    const result = await session.run(cypher, params);
+    const record = result?.records?.[0];
+    return record ? toPlainGraphProperties(record.get('props') as Record<string, unknown>) : null;
+  }
+
+  private getRelationshipEndpoints(
+    ctx: GraphWriteContext,
+  ): { fromLabel: string; fromId: string; toLabel: string; toId: string } | null {
+    const { fromLabel, fromId, toLabel, toId } = ctx.metadata ?? {};
+    if (
+      typeof fromLabel !== 'string' ||
+      typeof fromId !== 'string' ||
+      typeof toLabel !== 'string' ||
+      typeof toId !== 'string'
+    ) {
+      return null;
+    }
+    return { fromLabel, fromId, toLabel, toId };
+  }
+
+  /**
+   * Describe a committed write as a change event
+   *
+   * Returns null for writes that left the entity unchanged.
+   */
+  private buildChangeEvent(
+    ctx: GraphWriteContext,
+    before: Record<string, unknown> | null,
+  ): GraphChangeEvent | null {
+    const sanitized = this.sanitizeProperties(ctx.properties);
+    let after: Record<string, unknown> | null;
+
+    if (ctx.operation === 'delete') {
+      after = null;
+    } else if (ctx.operation === 'update') {
+      // SET n.key = null removes the property
+      after = { ...(before ?? {}) };
+      for (const [key, value] of Object.entries(sanitized)) {
+        if (value === null) {
+          delete after[key];
+        } else {
+          after[key] = value;
+        }
+      }
+    } else {
+      const written = Object.fromEntries(
+        Object.entries(sanitized).filter(([, value]) => value !== null),
+      );
+      after = ctx.operation === 'merge' ? { ...(before ?? {}), ...written } : written;
+    }
+
+    if (!before && !after) {
+      return null;
+    }
+    if (before && after && JSON.stringify(before) === JSON.stringify(after)) {
+      return null;
+    }
+
+    const change: GraphChangeEvent['change'] = !before ? 'added' : !after ? 'removed' : 'updated';
+    const base = {
+      change,
+      before,
+      after,
+      source: ctx.source,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (ctx.nodeLabel) {
+      return {
+        ...base,
+        entity: 'node',
+        nodeId: String(ctx.properties.id),
+        nodeLabel: ctx.nodeLabel,
+      };
+    }
+
+    const endpoints = this.getRelationshipEndpoints(ctx);
+    if (!endpoints || !ctx.relType) {
+      return null;
+    }
+    return {
+      ...base,
+      entity: 'edge',
+      edge: {
+        source: endpoints.fromId,
+        target: endpoints.toId,
+        type: ctx.relType,
+        sourceLabel: endpoints.fromLabel,
+        targetLabel: endpoints.toLabel,
+      },
+    };
+  }
+
+  private async recordChange(event: GraphChangeEvent, ctx: GraphWriteContext): Promise<void> {
+    if (!this.versionStore) {
+      return;
+    }
+
+    const batchId = typeof ctx.metadata?.batchId === 'string' ? ctx.metadata.batchId : this.batchId;
+    const author = typeof ctx.metadata?.author === 'string' ? ctx.metadata.author : this.author;
+    try {
+      await this.versionStore.appendChanges([
+        {
+          ...event,
+          id: randomUUID(),
+          batchId: batchId ?? null,
+          author: author ?? null,
+          tenantId: this.tenantId ?? null,
+        },
+      ]);
+    } catch (error) {
+      // The write is already committed; it is missing from the change log
+      this.logger.error(
+        {
+          err: error,
+          entity: event.entity,
+          change: event.change,
+          nodeId: event.nodeId,
+          batchId,
+          tenantId: this.tenantId,
+        },
+        'Failed to record graph change',
+      );
+    }
+  }
+
+  private publishChange(event: GraphChangeEvent): void {
+    try {
+      this.changeFeed?.publish(event);
+    } catch (error) {
+      // The write is already committed; detectors fall back to polling
+      this.logger.warn(
+        { err: error, entity: event.entity, change: event.change, tenantId: this.tenantId },
+        'Failed to publish graph change event',
+      );
+    }
+  }
+
   /**
    * Convert context to Cypher and execute
    */
@@ -323,6 +561,9 @@ export class GraphWriteService {
             .map(([key]) => `n.${key} = $${key}`)
             .join(', ');
 
+          if (!propString) {
+            return;
+          }
           cypher = `MATCH (n:${nodeLabel} {id: $id}) SET ${propString}`;
         } else if (operation === 'delete') {
           cypher = `MATCH (n:${nodeLabel} {id: $id}) DETACH DELETE n`;
@@ -374,22 +615,26 @@ export class GraphWriteService {
         ...(this.tenantId ? { 'app.tenant.id': this.tenantId } : {}),
       },
       async () => {
-        if (operation === 'merge' || operation === 'create') {
-          const fromLabel = metadata?.fromLabel as string;
-          const toLabel = metadata?.toLabel as string;
-          const fromId = metadata?.fromId as string;
-          const toId = metadata?.toId as string;
-
-          if (!fromLabel || !toLabel || !fromId || !toId) {
-            throw new Error(
-              'Relationship operations require fromLabel, toLabel, fromId, toId in metadata',
-            );
-          }
+        const fromLabel = metadata?.fromLabel as string;
+        const toLabel = metadata?.toLabel as string;
+        const fromId = metadata?.fromId as string;
+        const toId = metadata?.toId as string;
+
+        if (!fromLabel || !toLabel || !fromId || !toId) {
+          throw new Error(
+            'Relationship operations require fromLabel, toLabel, fromId, toId in metadata',
+          );
+        }
 
-          // Validate node labels to prevent Cypher injection
-          this.validateNodeLabel(fromLabel);
-          this.validateNodeLabel(toLabel);
+        // Validate node labels to prevent Cypher injection
+        this.validateNodeLabel(fromLabel);
+        this.validateNodeLabel(toLabel);
+
+        const matchRelationship =
+          `MATCH (a:${fromLabel} {id: $fromId})-[r:${relType}]->(b:${toLabel} {id: $toId}) `;
+        let cypher: string;
 
+        if (operation === 'merge' || operation === 'create') {
           const propEntries = Object.entries(sanitizedProperties).filter(
             ([_, value]) => value !== null,
           );
@@ -398,35 +643,47 @@ export class GraphWriteService {
               ? `{${propEntries.map(([key]) => `${key}: $${key}`).join(', ')}}`
               : '';
 
-          const cypher =
+          cypher =
             operation === 'merge'
               ? `MATCH (a:${fromLabel} {id: $fromId}), (b:${toLabel} {id: $toId}) ` +
                 `MERGE (a)-[r:${relType}]->(b) ` +
                 (propString ? `SET r += ${propString}` : '')
               : `MATCH (a:${fromLabel} {id: $fromId}), (b:${toLabel} {id: $toId}) ` +
                 `CREATE (a)-[r:${relType} ${propString}]->(b)`;
-
-          this.logger.debug({
-            operation,
-            relType,
-            fromLabel,
-            fromId,
-            toLabel,
-            toId,
-            tenantId: this.tenantId,
-            source: ctx.source,
-            cypher: cypher.substring(0, 150),
-          }, `Executing Cypher relationship ${operation}`);
-
-          await session.run(cypher, { ...sanitizedProperties, fromId, toId });
-
-          this.logger.debug({
-            operation,
-            relType,
-            fromLabel,
-            toLabel,
-          }, `Cypher relationship ${operation} completed`);
+        } else if (operation === 'update') {
+          const propString = Object.keys(sanitizedProperties)
+            .map(key => `r.${key} = $${key}`)
+            .join(', ');
+          if (!propString) {
+            return;
+          }
+          cypher = `${matchRelationship}SET ${propString}`;
+        } else if (operation === 'delete') {
+          cypher = `${matchRelationship}DELETE r`;
+        } else {
+          throw new Error(`Unknown operation: ${operation}`);
         }
+
+        this.logger.debug({
+          operation,
+          relType,
+          fromLabel,
+          fromId,
+          toLabel,
+          toId,
+          tenantId: this.tenantId,
+          source: ctx.source,
+          cypher: cypher.substring(0, 150),
+        }, `Executing Cypher relationship ${operation}`);
+
+        await session.run(cypher, { ...sanitizedProperties, fromId, toId });
+
+        this.logger.debug({
+          operation,
+          relType,
+          fromLabel,
+          toLabel,
+        }, `Cypher relationship ${operation} completed`);
       }
     );
   }
@@ -581,6 +838,37 @@ export class GraphWriteService {
     await this.executeWrite(relCtx2);
   }
 
+  /**
+   * Upsert a guidance document
+   */
+  async upsertGuidance(dto: UpsertGuidanceDto): Promise<void> {
+    const { jurisdictionId, ...nodeProps } = dto;
+
+    const nodeCtx: GraphWriteContext = {
+      operation: 'merge',
+      nodeLabel: 'Guidance',
+      properties: nodeProps,
+      tenantId: this.tenantId,
+      source: this.defaultSource,
+    };
+    await this.executeWrite(nodeCtx);
+
+    const relCtx: GraphWriteContext = {
+      operation: 'merge',
+      relType: 'IN_JURISDICTION',
+      properties: {},
+      tenantId: this.tenantId,
+      source: this.defaultSource,
+      metadata: {
+        fromLabel: 'Guidance',
+        fromId: dto.id,
+        toLabel: 'Jurisdiction',
+        toId: jurisdictionId,
+      },
+    };
+    await this.executeWrite(relCtx);
+  }
+
   /**
    * Upsert a benefit
    */
@@ -736,6 +1024,100 @@ export class GraphWriteService {
     await this.executeWrite(ctx);
   }
 
+  /**
+   * Delete a relationship between two nodes; the nodes are left in place
+   */
+  async deleteRelationship(dto: DeleteRelationshipDto): Promise<void> {
+    const ctx: GraphWriteContext = {
+      operation: 'delete',
+      relType: dto.relType,
+      properties: {},
+      tenantId: this.tenantId,
+      source: this.defaultSource,
+      metadata: {
+        fromLabel: dto.fromLabel,
+        fromId: dto.fromId,
+        toLabel: dto.toLabel,
+        toId: dto.toId,
+      },
+    };
+    await this.executeWrite(ctx);
+  }
+
+  /**
+   * Write the inverse of a recorded change, restoring the properties the node
+   * or relationship had before it
+   *
+   * Added entities are deleted, removed ones are re-created and updated ones
+   * get their previous properties back. Relationships removed by deleting one
+   * of their nodes are not restored. The inverse write passes through the
+   * ingress guard like any other write.
+   */
+  async revertChange(
+    change: GraphChangeEvent,
+    attribution: GraphWriteAttribution = {},
+  ): Promise<void> {
+    const { before, after } = change;
+    let operation: GraphWriteContext['operation'];
+    let properties: Record<string, unknown>;
+
+    if (!before) {
+      operation = 'delete';
+      properties = {};
+    } else if (!after) {
+      operation = 'merge';
+      properties = { ...before };
+    } else {
+      // Properties the change introduced are removed by setting them to null
+      operation = 'update';
+      properties = Object.fromEntries(
+        Object.keys(after)
+          .filter(key => !(key in before))
+          .map(key => [key, null]),
+      );
+      Object.assign(properties, before);
+    }
+
+    const attributionMetadata = {
+      ...(attribution.batchId ? { batchId: attribution.batchId } : {}),
+      ...(attribution.author ? { author: attribution.author } : {}),
+    };
+
+    if (change.entity === 'node') {
+      if (!change.nodeId || !change.nodeLabel) {
+        throw new Error('Cannot revert a node change without its id and label');
+      }
+      await this.executeWrite({
+        operation,
+        nodeLabel: change.nodeLabel,
+        properties: { ...properties, id: change.nodeId },
+        tenantId: this.tenantId,
+        source: this.defaultSource,
+        metadata: attributionMetadata,
+      });
+      return;
+    }
+
+    const edge = change.edge;
+    if (!edge?.sourceLabel || !edge.targetLabel) {
+      throw new Error('Cannot revert a relationship change without its endpoint labels');
+    }
+    await this.executeWrite({
+      operation,
+      relType: edge.type,
+      properties,
+      tenantId: this.tenantId,
+      source: this.defaultSource,
+      metadata: {
+        ...attributionMetadata,
+        fromLabel: edge.sourceLabel,
+        fromId: edge.source,
+        toLabel: edge.targetLabel,
+        toId: edge.target,
+      },
+    });
+  }
+
   /**
    * Close the driver connection
    */
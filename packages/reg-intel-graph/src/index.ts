@@ -5,15 +5,22 @@
  *
  * This package provides:
  * - Graph clients (direct Bolt)
+ * - Graph schema registry (node labels, properties and relationship endpoints)
  * - GraphWriteService (guarded writes to Memgraph)
  * - Graph Ingress Guard (aspect pipeline for write validation)
  * - GraphChangeDetector (patch-based streaming)
+ * - Graph change feed (event-driven change notifications from GraphWriteService)
+ * - Graph versioning (change log, snapshots, diffs and batch rollback)
+ * - Concept curation (review queue for LLM-captured concepts, deduplication and merge)
+ * - Source ingestion (statutes, sections and guidance from local documents)
  */
 
 // Graph Clients
 export {
   BoltGraphClient,
   createBoltGraphClient,
+  inForceAt,
+  toAsOfParam,
   type BoltGraphClientConfig,
 } from './boltGraphClient.js';
 
@@ -30,6 +37,41 @@ export type {
   GraphError,
   ComplianceError,
 } from './errors.js';
+export { SourceIngestionError } from './errors.js';
+
+// Graph Schema
+export {
+  GRAPH_SCHEMA,
+  type GraphNodeLabel,
+  type GraphRelationshipType,
+  type GraphNodeProperties,
+} from './schema/graphSchema.js';
+export {
+  ANY_NODE_LABEL,
+  defineGraphSchema,
+  type GraphSchemaDefinition,
+  type GraphNodeDefinition,
+  type GraphRelationshipDefinition,
+  type GraphRelationshipEndpoints,
+  type GraphPropertyDefinition,
+  type GraphPropertyType,
+  type GraphPropertyValue,
+  type GraphNodePropertiesOf,
+  type GraphIndexKind,
+} from './schema/types.js';
+export {
+  GraphSchemaRegistry,
+  createGraphSchemaRegistry,
+  graphSchemaRegistry,
+  type GraphPropertyViolation,
+  type ValidateNodePropertiesOptions,
+} from './schema/schemaRegistry.js';
+export {
+  generateIndexStatements,
+  generateIndexCypher,
+  generateSchemaMarkdown,
+  type GraphIndexStatements,
+} from './schema/schemaGenerators.js';
 
 // Graph Ingress Guard
 export {
@@ -47,10 +89,12 @@ export {
   GraphWriteService,
   createGraphWriteService,
   type GraphWriteServiceConfig,
+  type GraphWriteAttribution,
   type UpsertJurisdictionDto,
   type UpsertRegionDto,
   type UpsertStatuteDto,
   type UpsertSectionDto,
+  type UpsertGuidanceDto,
   type UpsertBenefitDto,
   type UpsertReliefDto,
   type UpsertTimelineDto,
@@ -59,6 +103,7 @@ export {
   type UpsertConceptDto,
   type UpsertLabelDto,
   type CreateRelationshipDto,
+  type DeleteRelationshipDto,
 } from './graphWriteService.js';
 
 // Canonical concept handler (concept capture)
@@ -69,6 +114,44 @@ export {
   type CanonicalConceptHandlerConfig,
 } from './canonicalConceptHandler.js';
 
+// Concept curation
+export {
+  ConceptCurationService,
+  createConceptCurationService,
+  type ConceptCurationServiceConfig,
+  type ConceptReviewOptions,
+  type ConceptCurationApplyReport,
+} from './curation/conceptCurationService.js';
+export {
+  ConceptDeduplicationService,
+  createConceptDeduplicationService,
+  normalizeConceptLabel,
+  type ConceptDeduplicationServiceConfig,
+  type ConceptDeduplicationGraphReader,
+  type ConceptEmbeddingProvider,
+  type FindDuplicateCandidatesOptions,
+  type MergeConceptsOptions,
+} from './curation/conceptDeduplicationService.js';
+export {
+  InMemoryConceptProposalStore,
+  SupabaseConceptProposalStore,
+  type ConceptProposalSupabaseClient,
+} from './curation/conceptProposalStore.js';
+export type {
+  ConceptProposal,
+  ConceptProposalStatus,
+  ConceptProposalReview,
+  ConceptProposalQuery,
+  ConceptProposalStore,
+  ConceptProvenance,
+  ConceptDuplicateSuggestion,
+  ConceptDuplicateReason,
+  ConceptDuplicateCandidate,
+  ConceptDuplicateCandidateConcept,
+  ConceptMergeRelationship,
+  ConceptMergeReport,
+} from './curation/types.js';
+
 // Graph Change Detector
 export {
   GraphChangeDetector,
@@ -81,3 +164,75 @@ export {
   type ChangeCallback,
   type ChangeSubscription,
 } from './graphChangeDetector.js';
+
+// Graph Change Feed
+export {
+  InMemoryGraphChangeFeed,
+  RedisGraphChangeFeed,
+  SupabaseGraphChangeFeed,
+  graphChangeEventToNode,
+  type GraphChangeEvent,
+  type GraphChangeFeed,
+  type GraphChangeListener,
+} from './graphChangeFeed.js';
+
+// Graph Versioning
+export {
+  GraphVersioningService,
+  createGraphVersioningService,
+  collapseGraphChanges,
+  diffGraphSnapshots,
+  changedPropertyNames,
+  type GraphVersioningServiceConfig,
+  type GraphVersioningGraphReader,
+  type ExportSnapshotOptions,
+  type RollbackBatchOptions,
+} from './versioning/graphVersioningService.js';
+export {
+  InMemoryGraphVersionStore,
+  SupabaseGraphVersionStore,
+  type GraphVersionSupabaseClient,
+} from './versioning/graphVersionStore.js';
+export type {
+  GraphChangeRecord,
+  GraphChangeQuery,
+  GraphChangeBatchSummary,
+  GraphSnapshot,
+  GraphSnapshotNode,
+  GraphSnapshotEdge,
+  GraphSnapshotSummary,
+  GraphDiff,
+  GraphDiffNodeKey,
+  GraphDiffEdgeKey,
+  GraphEntityChange,
+  GraphRollbackConflict,
+  GraphRollbackReport,
+  GraphVersionStore,
+} from './versioning/types.js';
+
+// Source ingestion
+export {
+  SourceIngestionPipeline,
+  createSourceIngestionPipeline,
+  formatSourceIngestionReport,
+  type SourceIngestionPipelineConfig,
+  type SourceIngestionGraphReader,
+  type SourceIngestionRunOptions,
+} from './ingestion/sourceIngestionPipeline.js';
+export { loadSourceFolder, inferSourceFormat, SOURCE_MANIFEST_FILE } from './ingestion/sourceFolder.js';
+export { parseSourceDocument, markupToText } from './ingestion/documentParsers.js';
+export { extractReferences, normalizeStatuteName } from './ingestion/referenceExtractor.js';
+export type {
+  SourceDocument,
+  SourceDocumentDescriptor,
+  SourceDocumentFormat,
+  SourceDocumentKind,
+  SourceIngestionReport,
+  ParsedSourceDocument,
+  ParsedSection,
+  SourceReference,
+  ExtractedReference,
+  IngestionRelationship,
+  IngestionRelationshipType,
+  UnresolvedReference,
+} from './ingestion/types.js';
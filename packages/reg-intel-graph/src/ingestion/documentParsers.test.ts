@@ -0,0 +1,158 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+
+import { SourceIngestionError } from '../errors.js';
+import { markupToText, parseSourceDocument } from './documentParsers.js';
+import { extractReferences } from './referenceExtractor.js';
+import type { SourceDocument } from './types.js';
+
+const FIXTURES = new URL('./__fixtures__/ie-sample/', import.meta.url);
+
+async function fixture(file: string): Promise<string> {
+  return readFile(new URL(file, FIXTURES), 'utf8');
+}
+
+describe('extractReferences', () => {
+  it('extracts bare and named section citations', () => {
+    const references = extractReferences(
+      'Subject to sections 766 and 766A(2)(b), and section 18 of the Finance Act 2023.'
+    );
+
+    expect(references).toEqual([
+      { relType: 'CITES', sectionNumber: '766', statuteName: undefined, text: 'sections 766 and 766A(2)(b)' },
+      { relType: 'CITES', sectionNumber: '766A', statuteName: undefined, text: 'sections 766 and 766A(2)(b)' },
+      {
+        relType: 'CITES',
+        sectionNumber: '18',
+        statuteName: 'Finance Act 2023',
+        text: 'section 18 of the Finance Act 2023',
+      },
+    ]);
+  });
+
+  it('reports amendment clauses as AMENDED_BY rather than citations', () => {
+    const references = extractReferences('A credit of 30 per cent. [Amended by section 18 of the Finance Act 2023]');
+
+    expect(references).toEqual([
+      {
+        relType: 'AMENDED_BY',
+        sectionNumber: '18',
+        statuteName: 'Finance Act 2023',
+        text: 'Amended by section 18 of the Finance Act 2023',
+      },
+    ]);
+  });
+
+  it('ignores subsection cross-references', () => {
+    expect(extractReferences('has the meaning assigned to it by subsection (1A)')).toEqual([]);
+  });
+});
+
+describe('markupToText', () => {
+  it('keeps block elements on separate lines and decodes entities', () => {
+    expect(markupToText('<h2>18. Credit</h2><p>&ldquo;30&nbsp;per cent&rdquo; &amp; more</p>')).toBe(
+      '18. Credit\n“30 per cent” & more'
+    );
+  });
+});
+
+describe('parseSourceDocument', () => {
+  it('splits Akoma Ntoso sections and subsections', async () => {
+    const parsed = parseSourceDocument({
+      file: 'tca-1997-part-15.xml',
+      kind: 'statute',
+      format: 'akoma-ntoso',
+      id: 'IE_TCA_1997',
+      jurisdictionId: 'IE',
+      content: await fixture('tca-1997-part-15.xml'),
+    });
+
+    expect(parsed.statute).toMatchObject({ id: 'IE_TCA_1997', name: 'Taxes Consolidation Act 1997', type: 'PRIMARY' });
+    expect(parsed.sections.map(section => section.id)).toEqual([
+      'IE_TCA_1997_S766',
+      'IE_TCA_1997_S766_1',
+      'IE_TCA_1997_S766_2',
+      'IE_TCA_1997_S766A',
+      'IE_TCA_1997_S766A_1',
+      'IE_TCA_1997_S766A_2',
+    ]);
+    expect(parsed.sections[2]).toMatchObject({
+      label: 'Section 766(2)',
+      section_number: '766(2)',
+      statuteId: 'IE_TCA_1997',
+      parentId: 'IE_TCA_1997_S766',
+    });
+    expect(parsed.references).toContainEqual(
+      expect.objectContaining({
+        fromId: 'IE_TCA_1997_S766_2',
+        relType: 'AMENDED_BY',
+        sectionNumber: '18',
+        statuteName: 'Finance Act 2023',
+      })
+    );
+    // "Subject to section 766" in s.766A is a cross-reference; s.766 citing itself is not
+    expect(parsed.references).toContainEqual(
+      expect.objectContaining({ fromId: 'IE_TCA_1997_S766A_1', sectionNumber: '766', contextStatuteId: 'IE_TCA_1997' })
+    );
+    expect(parsed.references).not.toContainEqual(
+      expect.objectContaining({ fromId: 'IE_TCA_1997_S766_1', sectionNumber: '766' })
+    );
+  });
+
+  it('splits HTML on numbered headings', async () => {
+    const parsed = parseSourceDocument({
+      file: 'finance-act-2023-extract.html',
+      kind: 'statute',
+      format: 'html',
+      id: 'IE_FA_2023',
+      jurisdictionId: 'IE',
+      effective_from: '2024-01-01',
+      content: await fixture('finance-act-2023-extract.html'),
+    });
+
+    expect(parsed.statute?.name).toBe('Finance Act 2023');
+    expect(parsed.sections).toEqual([
+      expect.objectContaining({ id: 'IE_FA_2023_S18', title: 'Research and development tax credit', effective_from: '2024-01-01' }),
+      expect.objectContaining({ id: 'IE_FA_2023_S19', title: 'Commencement' }),
+    ]);
+    expect(parsed.sections[0].text_excerpt).toContain('“30 per cent”');
+  });
+
+  it('parses guidance as a single node whose references resolve against the default statute', async () => {
+    const parsed = parseSourceDocument({
+      file: 'tdm-part-29-02-03.txt',
+      kind: 'guidance',
+      format: 'text',
+      id: 'IE_REVENUE_TDM_29_02_03',
+      jurisdictionId: 'IE',
+      publisher: 'Revenue',
+      defaultStatuteId: 'IE_TCA_1997',
+      content: await fixture('tdm-part-29-02-03.txt'),
+    });
+
+    expect(parsed.guidance).toMatchObject({
+      id: 'IE_REVENUE_TDM_29_02_03',
+      title: 'Research and Development (R&D) Corporation Tax Credit',
+      source: 'Revenue',
+    });
+    expect(parsed.sections).toEqual([]);
+    expect(parsed.references.map(ref => [ref.sectionNumber, ref.statuteName ?? ref.contextStatuteId])).toEqual([
+      ['766', 'IE_TCA_1997'],
+      ['18', 'Finance Act 2023'],
+      ['766A', 'IE_TCA_1997'],
+    ]);
+  });
+
+  it('throws SourceIngestionError when a statute has no sections', () => {
+    const document: SourceDocument = {
+      file: 'empty.txt',
+      kind: 'statute',
+      format: 'text',
+      id: 'IE_EMPTY',
+      jurisdictionId: 'IE',
+      content: 'An Act with no numbered sections',
+    };
+
+    expect(() => parseSourceDocument(document)).toThrow(SourceIngestionError);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Source document parsers
+ *
+ * Turns Akoma Ntoso XML, HTML and plain (PDF-extracted) text into Statute,
+ * Section and Guidance DTOs. Parsing is deliberately tolerant: documents are
+ * split on section headings ("766. Heading" in text, <section> in Akoma
+ * Ntoso) and numbered subsections ("(1) ...") become child sections.
+ */
+
+import { SourceIngestionError } from '../errors.js';
+import { extractReferences } from './referenceExtractor.js';
+import type {
+  ParsedSection,
+  ParsedSourceDocument,
+  SourceDocument,
+  SourceReference,
+} from './types.js';
+
+const TEXT_EXCERPT_LENGTH = 300;
+
+const SECTION_HEADING = /^(?:Section\s+)?(\d+[A-Z]*)\.\s+(.+)$/;
+const SUBSECTION_START = /^\((\d+[A-Za-z]?)\)\s*(.*)$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  lsquo: '\u2018',
+  rsquo: '\u2019',
+  ldquo: '\u201C',
+  rdquo: '\u201D',
+};
+
+/**
+ * Parsed section before IDs are assigned
+ */
+interface RawSection {
+  number: string;
+  title: string;
+  text: string;
+  subsections: Array<{ number: string; text: string }>;
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function excerpt(value: string): string | undefined {
+  const text = collapse(value);
+  if (!text) return undefined;
+  return text.length > TEXT_EXCERPT_LENGTH ? `${text.slice(0, TEXT_EXCERPT_LENGTH - 1)}…` : text;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert markup to text, keeping block elements on separate lines
+ */
+export function markupToText(markup: string): string {
+  const text = markup
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|section|subsection|paragraph|heading|num|title)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(collapse)
+    .filter(Boolean)
+    .join('\n');
+}
+
+function firstMatch(markup: string, pattern: RegExp): string | undefined {
+  const match = markup.match(pattern);
+  return match ? collapse(decodeEntities(match[1].replace(/<[^>]+>/g, ' '))) || undefined : undefined;
+}
+
+/**
+ * Split plain text into sections and numbered subsections
+ */
+function splitTextSections(text: string): RawSection[] {
+  const sections: RawSection[] = [];
+  let current: RawSection | undefined;
+
+  for (const line of text.split('\n').map(collapse).filter(Boolean)) {
+    const heading = line.match(SECTION_HEADING);
+    if (heading) {
+      current = { number: heading[1], title: heading[2], text: '', subsections: [] };
+      sections.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const subsection = line.match(SUBSECTION_START);
+    if (subsection) {
+      current.subsections.push({ number: subsection[1], text: subsection[2] });
+    } else if (current.subsections.length > 0) {
+      const last = current.subsections[current.subsections.length - 1];
+      last.text = `${last.text} ${line}`;
+    } else {
+      current.text = `${current.text} ${line}`;
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Split an Akoma Ntoso body into sections and subsections
+ */
+function splitAkomaNtosoSections(xml: string): RawSection[] {
+  const sections: RawSection[] = [];
+
+  for (const [, body] of xml.matchAll(/<section\b[^>]*>([\s\S]*?)<\/section>/g)) {
+    const beforeSubsections = body.split(/<subsection\b/)[0];
+    const number = firstMatch(beforeSubsections, /<num>([\s\S]*?)<\/num>/)?.replace(/\.$/, '');
+    if (!number) continue;
+
+    const subsections = [...body.matchAll(/<subsection\b[^>]*>([\s\S]*?)<\/subsection>/g)].map(([, subBody]) => ({
+      number: (firstMatch(subBody, /<num>([\s\S]*?)<\/num>/) ?? '').replace(/[()]/g, ''),
+      text: markupToText(subBody.replace(/<num>[\s\S]*?<\/num>/, '')),
+    }));
+
+    sections.push({
+      number,
+      title: firstMatch(beforeSubsections, /<heading>([\s\S]*?)<\/heading>/) ?? `Section ${number}`,
+      text: markupToText(
+        beforeSubsections.replace(/<num>[\s\S]*?<\/num>/, '').replace(/<heading>[\s\S]*?<\/heading>/, '')
+      ),
+      subsections: subsections.filter(sub => sub.number),
+    });
+  }
+
+  return sections;
+}
+
+function documentTitle(document: SourceDocument): string | undefined {
+  if (document.title) return document.title;
+
+  switch (document.format) {
+    case 'akoma-ntoso':
+      return (
+        firstMatch(document.content, /<FRBRname\b[^>]*\bvalue="([^"]+)"/) ??
+        firstMatch(document.content, /<docTitle>([\s\S]*?)<\/docTitle>/)
+      );
+    case 'html':
+      return (
+        firstMatch(document.content, /<h1\b[^>]*>([\s\S]*?)<\/h1>/i) ??
+        firstMatch(document.content, /<title>([\s\S]*?)<\/title>/i)
+      );
+    case 'text':
+      return document.content.split('\n').map(collapse).find(Boolean);
+  }
+}
+
+function documentText(document: SourceDocument): string {
+  return document.format === 'text' ? document.content : markupToText(document.content);
+}
+
+function referencesFrom(
+  text: string,
+  fromLabel: SourceReference['fromLabel'],
+  fromId: string,
+  contextStatuteId: string | undefined,
+  ownSectionNumber?: string
+): SourceReference[] {
+  return extractReferences(text)
+    .filter(ref => ref.statuteName || ref.sectionNumber !== ownSectionNumber)
+    .map(ref => ({ ...ref, fromLabel, fromId, contextStatuteId }));
+}
+
+function parseStatute(document: SourceDocument, title: string): ParsedSourceDocument {
+  const rawSections = document.format === 'akoma-ntoso'
+    ? splitAkomaNtosoSections(document.content)
+    : splitTextSections(documentText(document));
+
+  if (rawSections.length === 0) {
+    throw new SourceIngestionError(`No sections found in ${document.file}`);
+  }
+
+  const sections: ParsedSection[] = [];
+  const references: SourceReference[] = [];
+
+  for (const raw of rawSections) {
+    const sectionId = `${document.id}_S${raw.number}`;
+    sections.push({
+      id: sectionId,
+      label: `Section ${raw.number}`,
+      title: raw.title,
+      text_excerpt: excerpt(raw.text || raw.subsections.map(sub => `(${sub.number}) ${sub.text}`).join(' ')),
+      effective_from: document.effective_from,
+      section_number: raw.number,
+      statuteId: document.id,
+      jurisdictionId: document.jurisdictionId,
+    });
+    references.push(...referencesFrom(`${raw.title}\n${raw.text}`, 'Section', sectionId, document.id, raw.number));
+
+    for (const sub of raw.subsections) {
+      const subsectionId = `${sectionId}_${sub.number}`;
+      sections.push({
+        id: subsectionId,
+        label: `Section ${raw.number}(${sub.number})`,
+        title: `${raw.title} (${sub.number})`,
+        text_excerpt: excerpt(sub.text),
+        effective_from: document.effective_from,
+        section_number: `${raw.number}(${sub.number})`,
+        statuteId: document.id,
+        jurisdictionId: document.jurisdictionId,
+        parentId: sectionId,
+      });
+      references.push(...referencesFrom(sub.text, 'Section', subsectionId, document.id, raw.number));
+    }
+  }
+
+  return {
+    file: document.file,
+    statute: {
+      id: document.id,
+      name: title,
+      citation: document.citation,
+      source_url: document.source_url,
+      type: document.statuteType ?? 'PRIMARY',
+      jurisdictionId: document.jurisdictionId,
+    },
+    sections,
+    references,
+  };
+}
+
+function parseGuidance(document: SourceDocument, title: string): ParsedSourceDocument {
+  return {
+    file: document.file,
+    guidance: {
+      id: document.id,
+      title,
+      source: document.publisher,
+      url: document.source_url,
+      effective_from: document.effective_from,
+      category: document.category,
+      jurisdictionId: document.jurisdictionId,
+    },
+    sections: [],
+    references: referencesFrom(documentText(document), 'Guidance', document.id, document.defaultStatuteId),
+  };
+}
+
+/**
+ * Parse a source document into nodes and the references found in its text
+ */
+export function parseSourceDocument(document: SourceDocument): ParsedSourceDocument {
+  const title = documentTitle(document);
+  if (!title) {
+    throw new SourceIngestionError(`No title found in ${document.file}; set "title" in the manifest`);
+  }
+
+  return document.kind === 'statute' ? parseStatute(document, title) : parseGuidance(document, title);
+}
@@ -0,0 +1,83 @@
+/**
+ * Citation and amendment extraction
+ *
+ * Finds "section 766A", "sections 766 and 766B", "section 18 of the Finance
+ * Act 2023" and "[Amended by section 18 of the Finance Act 2023]" style
+ * references in legislation and guidance text.
+ */
+
+import type { ExtractedReference } from './types.js';
+
+const STATUTE_NAME = String.raw`((?:[A-Z][\w'()-]*\s+)+?(?:Act|Regulations)\s+\d{4})`;
+const SECTION_NUMBER = String.raw`\d+[A-Z]*(?:\((?:\d+[A-Za-z]?|[a-z]+)\))*`;
+
+const AMENDMENT_PATTERN = new RegExp(
+  String.raw`(?:[Aa]mended|[Ii]nserted|[Ss]ubstituted)\s+by\s+` +
+    String.raw`(?:(?:section|s\.)\s*(${SECTION_NUMBER})\s+of\s+)?(?:the\s+)?${STATUTE_NAME}`,
+  'g'
+);
+
+const CITATION_PATTERN = new RegExp(
+  String.raw`\b(?:[Ss]ections?|ss?\.)\s*(${SECTION_NUMBER}(?:\s*(?:,|and|or)\s*${SECTION_NUMBER})*)` +
+    String.raw`(?:\s+of\s+(?:the\s+)?${STATUTE_NAME})?`,
+  'g'
+);
+
+/**
+ * Strip subsection suffixes: "766(2)(a)" -> "766"
+ */
+function toSectionNumber(value: string): string {
+  return value.replace(/\(.*$/, '');
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extract citations and amendments from text. Amendment clauses are matched
+ * first so the section they name is not also reported as a citation.
+ */
+export function extractReferences(text: string): ExtractedReference[] {
+  const references: ExtractedReference[] = [];
+  const seen = new Set<string>();
+
+  const add = (reference: ExtractedReference) => {
+    const key = `${reference.relType}|${reference.statuteName ?? ''}|${reference.sectionNumber ?? ''}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      references.push(reference);
+    }
+  };
+
+  const withoutAmendments = text.replace(AMENDMENT_PATTERN, (match, section?: string, statute?: string) => {
+    add({
+      relType: 'AMENDED_BY',
+      sectionNumber: section ? toSectionNumber(section) : undefined,
+      statuteName: statute ? normalizeWhitespace(statute) : undefined,
+      text: normalizeWhitespace(match),
+    });
+    return ' '.repeat(match.length);
+  });
+
+  for (const match of withoutAmendments.matchAll(CITATION_PATTERN)) {
+    const [text, numbers, statute] = match;
+    for (const number of numbers.match(new RegExp(SECTION_NUMBER, 'g')) ?? []) {
+      add({
+        relType: 'CITES',
+        sectionNumber: toSectionNumber(number),
+        statuteName: statute ? normalizeWhitespace(statute) : undefined,
+        text: normalizeWhitespace(text),
+      });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Normalise a statute name or citation for lookups
+ */
+export function normalizeStatuteName(name: string): string {
+  return normalizeWhitespace(name).toLowerCase();
+}
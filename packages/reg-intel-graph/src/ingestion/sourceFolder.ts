@@ -0,0 +1,63 @@
+/**
+ * Source folder loader
+ *
+ * A source folder holds a manifest.json describing each document (its node
+ * ID, jurisdiction and kind) alongside the documents themselves.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { SourceIngestionError } from '../errors.js';
+import type { SourceDocument, SourceDocumentDescriptor, SourceDocumentFormat } from './types.js';
+
+export const SOURCE_MANIFEST_FILE = 'manifest.json';
+
+const FORMATS_BY_EXTENSION: Record<string, SourceDocumentFormat> = {
+  '.xml': 'akoma-ntoso',
+  '.akn': 'akoma-ntoso',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+};
+
+/**
+ * Infer a document format from its file extension
+ */
+export function inferSourceFormat(file: string): SourceDocumentFormat {
+  const format = FORMATS_BY_EXTENSION[extname(file).toLowerCase()];
+  if (!format) {
+    throw new SourceIngestionError(`Cannot infer format of ${file}; set "format" in the manifest`);
+  }
+  return format;
+}
+
+/**
+ * Load every document listed in a folder's manifest.json
+ */
+export async function loadSourceFolder(dir: string): Promise<SourceDocument[]> {
+  let manifest: { documents?: SourceDocumentDescriptor[] };
+  try {
+    manifest = JSON.parse(await readFile(join(dir, SOURCE_MANIFEST_FILE), 'utf8'));
+  } catch (error) {
+    throw new SourceIngestionError(`Cannot read ${SOURCE_MANIFEST_FILE} in ${dir}`, { cause: error });
+  }
+
+  if (!Array.isArray(manifest.documents) || manifest.documents.length === 0) {
+    throw new SourceIngestionError(`${SOURCE_MANIFEST_FILE} in ${dir} lists no documents`);
+  }
+
+  return Promise.all(
+    manifest.documents.map(async descriptor => {
+      if (!descriptor.file || !descriptor.id || !descriptor.jurisdictionId || !descriptor.kind) {
+        throw new SourceIngestionError(
+          `Manifest entry ${JSON.stringify(descriptor)} needs "file", "id", "kind" and "jurisdictionId"`
+        );
+      }
+      return {
+        ...descriptor,
+        format: descriptor.format ?? inferSourceFormat(descriptor.file),
+        content: await readFile(join(dir, descriptor.file), 'utf8'),
+      };
+    })
+  );
+}
@@ -0,0 +1,199 @@
+import { fileURLToPath } from 'node:url';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GraphWriteService } from '../graphWriteService.js';
+import { loadSourceFolder } from './sourceFolder.js';
+import { createSourceIngestionPipeline, formatSourceIngestionReport } from './sourceIngestionPipeline.js';
+import type { SourceDocument } from './types.js';
+
+const FIXTURE_DIR = fileURLToPath(new URL('./__fixtures__/ie-sample/', import.meta.url));
+
+interface FakeNode {
+  label: string;
+  properties: Record<string, unknown>;
+  partOf?: string;
+}
+
+/**
+ * Minimal in-memory graph answering the pipeline's reads and recording its writes
+ */
+function createFakeGraph() {
+  const nodes = new Map<string, FakeNode>();
+  const relationships: Array<{ fromId: string; relType: string; toId: string }> = [];
+
+  const setNode = (label: string, dto: Record<string, unknown>, partOf?: string) => {
+    const properties = Object.fromEntries(
+      Object.entries(dto).filter(([key]) => key !== 'jurisdictionId' && key !== 'statuteId')
+    );
+    const existing = nodes.get(String(dto.id));
+    nodes.set(String(dto.id), { label, properties: { ...existing?.properties, ...properties }, partOf });
+  };
+
+  const writeService = {
+    upsertStatute: vi.fn(async (dto: Record<string, unknown>) => setNode('Statute', dto)),
+    upsertSection: vi.fn(async (dto: Record<string, unknown>) => setNode('Section', dto, String(dto.statuteId))),
+    upsertGuidance: vi.fn(async (dto: Record<string, unknown>) => setNode('Guidance', dto)),
+    createRelationship: vi.fn(async (dto: { fromId: string; relType: string; toId: string }) => {
+      relationships.push({ fromId: dto.fromId, relType: dto.relType, toId: dto.toId });
+    }),
+  };
+
+  const graphReader = {
+    executeCypher: vi.fn(async (query: string, params?: Record<string, unknown>) => {
+      if (query.startsWith('MATCH (s:Statute)')) {
+        return [...nodes].filter(([, node]) => node.label === 'Statute').map(([id, node]) => ({
+          id,
+          name: node.properties.name,
+          citation: node.properties.citation,
+        }));
+      }
+      if (query.includes('labels(n) AS labels')) {
+        const ids = params?.ids as string[];
+        return ids.filter(id => nodes.has(id)).map(id => ({
+          id,
+          labels: [nodes.get(id)!.label],
+          properties: nodes.get(id)!.properties,
+        }));
+      }
+      if (query.includes('type(r) IN $types')) {
+        const ids = params?.ids as string[];
+        return relationships.filter(rel => ids.includes(rel.fromId)).map(rel => ({
+          ...rel,
+          fromLabel: nodes.get(rel.fromId)?.label,
+          toLabel: nodes.get(rel.toId)?.label,
+        }));
+      }
+      if (query.includes('[:PART_OF]')) {
+        const statuteIds = params?.statuteIds as string[];
+        return [...nodes].filter(([, node]) => node.partOf && statuteIds.includes(node.partOf)).map(([id]) => ({ id }));
+      }
+      return [];
+    }),
+  };
+
+  return {
+    nodes,
+    relationships,
+    writeService,
+    graphReader,
+    pipeline: createSourceIngestionPipeline({
+      writeService: writeService as unknown as GraphWriteService,
+      graphReader,
+    }),
+  };
+}
+
+describe('SourceIngestionPipeline', () => {
+  let documents: SourceDocument[];
+
+  beforeEach(async () => {
+    documents = await loadSourceFolder(FIXTURE_DIR);
+  });
+
+  it('creates statutes, sections, guidance and resolved relationships on the first run', async () => {
+    const graph = createFakeGraph();
+
+    const report = await graph.pipeline.run(documents);
+
+    expect(report.dryRun).toBe(false);
+    expect(report.nodes.created).toContainEqual({ label: 'Statute', id: 'IE_TCA_1997' });
+    expect(report.nodes.created).toContainEqual({ label: 'Section', id: 'IE_FA_2023_S18' });
+    expect(report.nodes.created).toContainEqual({ label: 'Guidance', id: 'IE_REVENUE_TDM_29_02_03' });
+    expect(report.nodes.created).toHaveLength(11);
+
+    const rels = report.relationships.created.map(rel => `${rel.fromId} ${rel.relType} ${rel.toId}`);
+    expect(rels).toEqual(expect.arrayContaining([
+      'IE_TCA_1997_S766_1 SUBSECTION_OF IE_TCA_1997_S766',
+      'IE_TCA_1997_S766_1 CITES IE_TCA_1997_S766A',
+      'IE_TCA_1997_S766_2 AMENDED_BY IE_FA_2023_S18',
+      'IE_TCA_1997_S766A_1 CITES IE_TCA_1997_S766',
+      'IE_FA_2023_S18 CITES IE_TCA_1997_S766',
+      'IE_FA_2023_S19 CITES IE_FA_2023_S18',
+      'IE_REVENUE_TDM_29_02_03 CITES IE_TCA_1997_S766',
+      'IE_REVENUE_TDM_29_02_03 CITES IE_FA_2023_S18',
+    ]));
+    expect(report.unresolved).toEqual([
+      { fromId: 'IE_TCA_1997_S766A_2', relType: 'CITES', text: 'Section 1078' },
+    ]);
+
+    expect(graph.writeService.upsertStatute).toHaveBeenCalledTimes(2);
+    expect(graph.writeService.upsertSection).toHaveBeenCalledTimes(8);
+    expect(graph.writeService.upsertGuidance).toHaveBeenCalledTimes(1);
+    expect(graph.writeService.createRelationship).toHaveBeenCalledTimes(report.relationships.created.length);
+    expect(graph.writeService.upsertSection).not.toHaveBeenCalledWith(expect.objectContaining({ parentId: expect.anything() }));
+  });
+
+  it('is idempotent: a second run over the same documents writes nothing', async () => {
+    const graph = createFakeGraph();
+    await graph.pipeline.run(documents);
+    vi.clearAllMocks();
+
+    const report = await graph.pipeline.run(documents);
+
+    expect(report.nodes.created).toEqual([]);
+    expect(report.nodes.updated).toEqual([]);
+    expect(report.nodes.unchanged).toBe(11);
+    expect(report.relationships.created).toEqual([]);
+    expect(report.stale).toEqual({ sections: [], relationships: [] });
+    expect(graph.writeService.upsertSection).not.toHaveBeenCalled();
+    expect(graph.writeService.createRelationship).not.toHaveBeenCalled();
+  });
+
+  it('reports changed properties and stale content without deleting it', async () => {
+    const graph = createFakeGraph();
+    await graph.pipeline.run(documents);
+    vi.clearAllMocks();
+
+    const tca = documents.find(doc => doc.id === 'IE_TCA_1997')!;
+    const revised = {
+      ...tca,
+      content: tca.content
+        .replace('30 per cent', '35 per cent')
+        .replace('In this section and section 766A,', 'In this section,')
+        .replace(/<section eId="sec_766A">[\s\S]*?<\/section>/, ''),
+    };
+    const report = await graph.pipeline.run([revised]);
+
+    // s.766 has no text of its own, so its excerpt is built from its subsections
+    expect(report.nodes.updated).toEqual([
+      { label: 'Section', id: 'IE_TCA_1997_S766', changedProperties: ['text_excerpt'] },
+      { label: 'Section', id: 'IE_TCA_1997_S766_1', changedProperties: ['text_excerpt'] },
+      { label: 'Section', id: 'IE_TCA_1997_S766_2', changedProperties: ['text_excerpt'] },
+    ]);
+    expect(report.stale.sections).toEqual(['IE_TCA_1997_S766A', 'IE_TCA_1997_S766A_1', 'IE_TCA_1997_S766A_2']);
+    expect(report.stale.relationships.map(rel => `${rel.fromId} ${rel.relType} ${rel.toId}`)).toEqual([
+      'IE_TCA_1997_S766_1 CITES IE_TCA_1997_S766A',
+    ]);
+    expect(graph.writeService.upsertSection).toHaveBeenCalledTimes(3);
+    expect(graph.nodes.has('IE_TCA_1997_S766A')).toBe(true);
+  });
+
+  it('resolves references against the existing graph', async () => {
+    const graph = createFakeGraph();
+    const tca = documents.filter(doc => doc.id === 'IE_TCA_1997');
+    const rest = documents.filter(doc => doc.id !== 'IE_TCA_1997');
+    await graph.pipeline.run(tca);
+
+    const report = await graph.pipeline.run(rest);
+
+    expect(report.relationships.created).toContainEqual({
+      fromLabel: 'Section',
+      fromId: 'IE_FA_2023_S18',
+      relType: 'CITES',
+      toLabel: 'Section',
+      toId: 'IE_TCA_1997_S766',
+    });
+  });
+
+  it('does not write during a dry run', async () => {
+    const graph = createFakeGraph();
+
+    const report = await graph.pipeline.run(documents, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.nodes.created).toHaveLength(11);
+    expect(graph.writeService.upsertStatute).not.toHaveBeenCalled();
+    expect(graph.writeService.createRelationship).not.toHaveBeenCalled();
+    expect(formatSourceIngestionReport(report)).toContain('Dry run 3 document(s)');
+  });
+});
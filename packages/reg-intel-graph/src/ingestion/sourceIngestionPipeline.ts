@@ -0,0 +1,378 @@
+/**
+ * Regulatory source ingestion pipeline
+ *
+ * Parses legislation and guidance documents, resolves their citations and
+ * amendments against the documents in the run and the existing graph, diffs
+ * the result against Memgraph and writes only what changed through
+ * GraphWriteService, so every write still passes the ingress guard.
+ *
+ * Runs are idempotent: node writes are MERGEs, unchanged nodes and existing
+ * relationships are skipped, and a second run over the same folder reports
+ * no changes.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { GraphClient } from '../types.js';
+import type {
+  GraphWriteService,
+  UpsertGuidanceDto,
+  UpsertStatuteDto,
+} from '../graphWriteService.js';
+import { parseSourceDocument } from './documentParsers.js';
+import { normalizeStatuteName } from './referenceExtractor.js';
+import type {
+  IngestionRelationship,
+  ParsedSection,
+  ParsedSourceDocument,
+  SourceDocument,
+  SourceIngestionReport,
+  SourceReference,
+  UnresolvedReference,
+} from './types.js';
+
+const INGESTED_RELATIONSHIP_TYPES = ['CITES', 'AMENDED_BY', 'SUBSECTION_OF'];
+
+/**
+ * Graph reads needed to diff a run; BoltGraphClient satisfies this
+ */
+export type SourceIngestionGraphReader = Pick<GraphClient, 'executeCypher'>;
+
+/**
+ * Options for a single ingestion run
+ */
+export interface SourceIngestionRunOptions {
+  /** Compute the report without writing to the graph */
+  dryRun?: boolean;
+}
+
+/**
+ * Dependencies for the ingestion pipeline
+ */
+export interface SourceIngestionPipelineConfig {
+  writeService: GraphWriteService;
+  graphReader: SourceIngestionGraphReader;
+}
+
+/**
+ * A node planned by a run, with the properties it will be written with
+ */
+type PlannedNode =
+  | { label: 'Statute'; dto: UpsertStatuteDto }
+  | { label: 'Section'; dto: ParsedSection }
+  | { label: 'Guidance'; dto: UpsertGuidanceDto };
+
+/**
+ * Existing graph state relevant to a run
+ */
+interface GraphSnapshot {
+  nodes: Map<string, { labels: string[]; properties: Record<string, unknown> }>;
+  statuteIdsByName: Map<string, string>;
+}
+
+/**
+ * Copy an object without the given keys or undefined values
+ */
+function omit(value: object, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key, entry]) => !keys.includes(key) && entry !== undefined)
+  );
+}
+
+/**
+ * Properties a planned node is written with (relationship targets are not node properties)
+ */
+function nodeProperties(node: PlannedNode): Record<string, unknown> {
+  return omit(node.dto, ['jurisdictionId', 'statuteId', 'parentId']);
+}
+
+function sameValue(existing: unknown, planned: unknown): boolean {
+  if (existing === null || existing === undefined) return false;
+  if (Array.isArray(planned)) return JSON.stringify(existing) === JSON.stringify(planned);
+  return String(existing) === String(planned);
+}
+
+function relationshipKey(rel: Pick<IngestionRelationship, 'fromId' | 'relType' | 'toId'>): string {
+  return `${rel.fromId}|${rel.relType}|${rel.toId}`;
+}
+
+function asRecords(result: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(result) ? (result as Array<Record<string, unknown>>) : [];
+}
+
+/**
+ * Ingests regulatory source documents into the graph
+ */
+export class SourceIngestionPipeline {
+  private writeService: GraphWriteService;
+  private graphReader: SourceIngestionGraphReader;
+  private logger = createLogger('SourceIngestionPipeline', { component: 'Ingestion' });
+
+  constructor(config: SourceIngestionPipelineConfig) {
+    this.writeService = config.writeService;
+    this.graphReader = config.graphReader;
+  }
+
+  /**
+   * Parse, diff and (unless dryRun) write a set of documents
+   */
+  async run(documents: SourceDocument[], options: SourceIngestionRunOptions = {}): Promise<SourceIngestionReport> {
+    const dryRun = options.dryRun ?? false;
+    const parsed = documents.map(parseSourceDocument);
+    const nodes = this.planNodes(parsed);
+    const references = parsed.flatMap(doc => doc.references);
+
+    const snapshot = await this.loadSnapshot(nodes, references);
+    const { relationships, unresolved } = this.resolveRelationships(parsed, nodes, references, snapshot);
+
+    const report: SourceIngestionReport = {
+      dryRun,
+      documents: parsed.map(doc => doc.file),
+      nodes: { created: [], updated: [], unchanged: 0 },
+      relationships: { created: [], unchanged: 0 },
+      stale: { sections: [], relationships: [] },
+      unresolved,
+    };
+
+    const changedNodes: PlannedNode[] = [];
+    for (const node of nodes) {
+      const existing = snapshot.nodes.get(node.dto.id);
+      const properties = nodeProperties(node);
+      if (!existing) {
+        report.nodes.created.push({ label: node.label, id: node.dto.id });
+        changedNodes.push(node);
+        continue;
+      }
+      const changedProperties = Object.keys(properties).filter(key => !sameValue(existing.properties[key], properties[key]));
+      if (changedProperties.length > 0) {
+        report.nodes.updated.push({ label: node.label, id: node.dto.id, changedProperties });
+        changedNodes.push(node);
+      } else {
+        report.nodes.unchanged++;
+      }
+    }
+
+    const existingRelationships = await this.loadRelationships(nodes.map(node => node.dto.id));
+    const plannedKeys = new Set(relationships.map(relationshipKey));
+    for (const rel of relationships) {
+      if (existingRelationships.has(relationshipKey(rel))) {
+        report.relationships.unchanged++;
+      } else {
+        report.relationships.created.push(rel);
+      }
+    }
+    report.stale.relationships = [...existingRelationships.values()].filter(rel => !plannedKeys.has(relationshipKey(rel)));
+    report.stale.sections = await this.loadStaleSections(nodes);
+
+    if (!dryRun) {
+      await this.write(changedNodes, report.relationships.created);
+    }
+
+    this.logger.info({
+      dryRun,
+      documents: report.documents.length,
+      created: report.nodes.created.length,
+      updated: report.nodes.updated.length,
+      unchanged: report.nodes.unchanged,
+      relationshipsCreated: report.relationships.created.length,
+      unresolved: report.unresolved.length,
+    }, 'Source ingestion run completed');
+
+    return report;
+  }
+
+  private planNodes(parsed: ParsedSourceDocument[]): PlannedNode[] {
+    const nodes = new Map<string, PlannedNode>();
+    for (const doc of parsed) {
+      if (doc.statute) nodes.set(doc.statute.id, { label: 'Statute', dto: doc.statute });
+      if (doc.guidance) nodes.set(doc.guidance.id, { label: 'Guidance', dto: doc.guidance });
+      for (const section of doc.sections) nodes.set(section.id, { label: 'Section', dto: section });
+    }
+    return [...nodes.values()];
+  }
+
+  /**
+   * Load planned nodes, candidate reference targets and statute names from the graph
+   */
+  private async loadSnapshot(nodes: PlannedNode[], references: SourceReference[]): Promise<GraphSnapshot> {
+    const statuteRecords = asRecords(await this.graphReader.executeCypher(
+      'MATCH (s:Statute) RETURN s.id AS id, s.name AS name, s.citation AS citation'
+    ));
+    const statuteIdsByName = new Map<string, string>();
+    for (const record of statuteRecords) {
+      for (const name of [record.name, record.citation]) {
+        if (typeof name === 'string') statuteIdsByName.set(normalizeStatuteName(name), String(record.id));
+      }
+    }
+    for (const node of nodes) {
+      if (node.label !== 'Statute') continue;
+      statuteIdsByName.set(normalizeStatuteName(node.dto.name), node.dto.id);
+      if (node.dto.citation) statuteIdsByName.set(normalizeStatuteName(node.dto.citation), node.dto.id);
+    }
+
+    const candidateIds = references.flatMap(ref => {
+      const statuteId = this.referencedStatuteId(ref, statuteIdsByName);
+      if (!statuteId) return [];
+      return ref.sectionNumber ? [statuteId, `${statuteId}_S${ref.sectionNumber}`] : [statuteId];
+    });
+    const ids = [...new Set([...nodes.map(node => node.dto.id), ...candidateIds])];
+
+    const nodeRecords = asRecords(await this.graphReader.executeCypher(
+      'MATCH (n) WHERE n.id IN $ids RETURN n.id AS id, labels(n) AS labels, properties(n) AS properties',
+      { ids }
+    ));
+
+    return {
+      nodes: new Map(nodeRecords.map(record => [
+        String(record.id),
+        {
+          labels: (record.labels as string[] | undefined) ?? [],
+          properties: (record.properties as Record<string, unknown> | undefined) ?? {},
+        },
+      ])),
+      statuteIdsByName,
+    };
+  }
+
+  private referencedStatuteId(ref: SourceReference, statuteIdsByName: Map<string, string>): string | undefined {
+    return ref.statuteName ? statuteIdsByName.get(normalizeStatuteName(ref.statuteName)) : ref.contextStatuteId;
+  }
+
+  /**
+   * Resolve references to Section (or, failing that for amendments, Statute)
+   * nodes in this run or the graph
+   */
+  private resolveRelationships(
+    parsed: ParsedSourceDocument[],
+    nodes: PlannedNode[],
+    references: SourceReference[],
+    snapshot: GraphSnapshot
+  ): { relationships: IngestionRelationship[]; unresolved: UnresolvedReference[] } {
+    const labels = new Map<string, string>(nodes.map(node => [node.dto.id, node.label]));
+    for (const [id, node] of snapshot.nodes) {
+      if (!labels.has(id) && node.labels[0]) labels.set(id, node.labels[0]);
+    }
+
+    const relationships = new Map<string, IngestionRelationship>();
+    const unresolved: UnresolvedReference[] = [];
+    const add = (rel: IngestionRelationship) => relationships.set(relationshipKey(rel), rel);
+
+    for (const section of parsed.flatMap(doc => doc.sections)) {
+      if (section.parentId) {
+        add({ fromLabel: 'Section', fromId: section.id, relType: 'SUBSECTION_OF', toLabel: 'Section', toId: section.parentId });
+      }
+    }
+
+    for (const ref of references) {
+      const statuteId = this.referencedStatuteId(ref, snapshot.statuteIdsByName);
+      const sectionId = statuteId && ref.sectionNumber ? `${statuteId}_S${ref.sectionNumber}` : undefined;
+      const targetId = sectionId && labels.get(sectionId) === 'Section'
+        ? sectionId
+        : ref.relType === 'AMENDED_BY' && statuteId && labels.get(statuteId) === 'Statute'
+          ? statuteId
+          : undefined;
+
+      if (!targetId) {
+        unresolved.push({ fromId: ref.fromId, relType: ref.relType, text: ref.text });
+        continue;
+      }
+      if (targetId === ref.fromId || sectionId === ref.fromId.replace(/_[^_]+$/, '')) {
+        continue;
+      }
+      add({ fromLabel: ref.fromLabel, fromId: ref.fromId, relType: ref.relType, toLabel: labels.get(targetId)!, toId: targetId });
+    }
+
+    return { relationships: [...relationships.values()], unresolved };
+  }
+
+  private async loadRelationships(fromIds: string[]): Promise<Map<string, IngestionRelationship>> {
+    const records = asRecords(await this.graphReader.executeCypher(
+      'MATCH (a)-[r]->(b) WHERE a.id IN $ids AND type(r) IN $types ' +
+        'RETURN labels(a)[0] AS fromLabel, a.id AS fromId, type(r) AS relType, labels(b)[0] AS toLabel, b.id AS toId',
+      { ids: fromIds, types: INGESTED_RELATIONSHIP_TYPES }
+    ));
+
+    return new Map(records.map(record => {
+      const rel = {
+        fromLabel: String(record.fromLabel),
+        fromId: String(record.fromId),
+        relType: record.relType as IngestionRelationship['relType'],
+        toLabel: String(record.toLabel),
+        toId: String(record.toId),
+      };
+      return [relationshipKey(rel), rel];
+    }));
+  }
+
+  private async loadStaleSections(nodes: PlannedNode[]): Promise<string[]> {
+    const statuteIds = nodes.filter(node => node.label === 'Statute').map(node => node.dto.id);
+    if (statuteIds.length === 0) return [];
+
+    const planned = new Set(nodes.map(node => node.dto.id));
+    const records = asRecords(await this.graphReader.executeCypher(
+      'MATCH (s:Section)-[:PART_OF]->(st:Statute) WHERE st.id IN $statuteIds RETURN s.id AS id',
+      { statuteIds }
+    ));
+    return records.map(record => String(record.id)).filter(id => !planned.has(id));
+  }
+
+  /**
+   * Write changed nodes, then new relationships once every endpoint exists
+   */
+  private async write(nodes: PlannedNode[], relationships: IngestionRelationship[]): Promise<void> {
+    const order = { Statute: 0, Section: 1, Guidance: 2 };
+    for (const node of [...nodes].sort((a, b) => order[a.label] - order[b.label])) {
+      switch (node.label) {
+        case 'Statute':
+          await this.writeService.upsertStatute(node.dto);
+          break;
+        case 'Section': {
+          // The parent link is written as a relationship, not a node property
+          const { parentId: _parentId, ...dto } = node.dto;
+          await this.writeService.upsertSection(dto);
+          break;
+        }
+        case 'Guidance':
+          await this.writeService.upsertGuidance(node.dto);
+          break;
+      }
+    }
+
+    for (const rel of relationships) {
+      await this.writeService.createRelationship(rel);
+    }
+  }
+}
+
+/**
+ * Create a SourceIngestionPipeline instance
+ */
+export function createSourceIngestionPipeline(config: SourceIngestionPipelineConfig): SourceIngestionPipeline {
+  return new SourceIngestionPipeline(config);
+}
+
+/**
+ * Render a report as plain text for the CLI
+ */
+export function formatSourceIngestionReport(report: SourceIngestionReport): string {
+  const lines = [
+    `${report.dryRun ? 'Dry run' : 'Ingested'} ${report.documents.length} document(s)`,
+    `Nodes: ${report.nodes.created.length} created, ${report.nodes.updated.length} updated, ${report.nodes.unchanged} unchanged`,
+    ...report.nodes.created.map(node => `  + ${node.label} ${node.id}`),
+    ...report.nodes.updated.map(node => `  ~ ${node.label} ${node.id} (${node.changedProperties.join(', ')})`),
+    `Relationships: ${report.relationships.created.length} created, ${report.relationships.unchanged} unchanged`,
+    ...report.relationships.created.map(rel => `  + ${rel.fromId} -[${rel.relType}]-> ${rel.toId}`),
+  ];
+
+  if (report.stale.sections.length > 0 || report.stale.relationships.length > 0) {
+    lines.push('Stale (in the graph but not in these documents; not deleted):');
+    lines.push(...report.stale.sections.map(id => `  - Section ${id}`));
+    lines.push(...report.stale.relationships.map(rel => `  - ${rel.fromId} -[${rel.relType}]-> ${rel.toId}`));
+  }
+
+  if (report.unresolved.length > 0) {
+    lines.push(`Unresolved references: ${report.unresolved.length}`);
+    lines.push(...report.unresolved.map(ref => `  ? ${ref.fromId} ${ref.relType} "${ref.text}"`));
+  }
+
+  return lines.join('\n');
+}
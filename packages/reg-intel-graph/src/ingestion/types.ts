@@ -0,0 +1,152 @@
+/**
+ * Types for regulatory source ingestion
+ *
+ * Source documents (legislation and guidance) are parsed into Statute,
+ * Section and Guidance nodes plus CITES / AMENDED_BY / SUBSECTION_OF
+ * relationships, then written through GraphWriteService.
+ */
+
+import type {
+  UpsertGuidanceDto,
+  UpsertSectionDto,
+  UpsertStatuteDto,
+} from '../graphWriteService.js';
+
+/**
+ * Document encodings the parsers understand. PDFs are ingested as their
+ * extracted text.
+ */
+export type SourceDocumentFormat = 'akoma-ntoso' | 'html' | 'text';
+
+/**
+ * Whether a document is legislation (split into sections) or guidance
+ * (a single Guidance node)
+ */
+export type SourceDocumentKind = 'statute' | 'guidance';
+
+/**
+ * Manifest entry describing one source document
+ */
+export interface SourceDocumentDescriptor {
+  /** Path of the document, relative to the manifest */
+  file: string;
+  kind: SourceDocumentKind;
+  /** Inferred from the file extension when omitted */
+  format?: SourceDocumentFormat;
+  /** Statute or Guidance node ID, e.g. 'IE_TCA_1997' */
+  id: string;
+  /** Statute name or guidance title; read from the document when omitted */
+  title?: string;
+  jurisdictionId: string;
+  citation?: string;
+  source_url?: string;
+  statuteType?: UpsertStatuteDto['type'];
+  effective_from?: string;
+  /** Guidance category, e.g. 'TAX_AND_DUTY_MANUAL' */
+  category?: string;
+  /** Guidance publisher, e.g. 'Revenue' */
+  publisher?: string;
+  /** Statute that bare "section N" references in guidance resolve against */
+  defaultStatuteId?: string;
+}
+
+/**
+ * A source document with its content loaded
+ */
+export interface SourceDocument extends SourceDocumentDescriptor {
+  format: SourceDocumentFormat;
+  content: string;
+}
+
+/**
+ * Relationship types produced by ingestion
+ */
+export type IngestionRelationshipType = 'CITES' | 'AMENDED_BY' | 'SUBSECTION_OF';
+
+/**
+ * A reference found in document text, before it is resolved to a node
+ */
+export interface ExtractedReference {
+  relType: Exclude<IngestionRelationshipType, 'SUBSECTION_OF'>;
+  /** Section number, e.g. '766A' */
+  sectionNumber?: string;
+  /** Named statute, e.g. 'Finance Act 2023'; absent for references within the same statute */
+  statuteName?: string;
+  /** The matched text, kept for the report */
+  text: string;
+}
+
+/**
+ * A reference attached to the node it was found in
+ */
+export interface SourceReference extends ExtractedReference {
+  fromLabel: 'Section' | 'Guidance';
+  fromId: string;
+  /** Statute that bare section numbers resolve against */
+  contextStatuteId?: string;
+}
+
+/**
+ * A section or subsection parsed from a statute
+ */
+export interface ParsedSection extends UpsertSectionDto {
+  /** Parent section ID for subsections */
+  parentId?: string;
+}
+
+/**
+ * Nodes and unresolved references parsed from one document
+ */
+export interface ParsedSourceDocument {
+  file: string;
+  statute?: UpsertStatuteDto;
+  guidance?: UpsertGuidanceDto;
+  sections: ParsedSection[];
+  references: SourceReference[];
+}
+
+/**
+ * A relationship planned by ingestion
+ */
+export interface IngestionRelationship {
+  fromLabel: string;
+  fromId: string;
+  relType: IngestionRelationshipType;
+  toLabel: string;
+  toId: string;
+}
+
+/**
+ * A reference that matched no node in this run or in the graph
+ */
+export interface UnresolvedReference {
+  fromId: string;
+  relType: ExtractedReference['relType'];
+  text: string;
+}
+
+/**
+ * What an ingestion run changed (or would change, for a dry run)
+ */
+export interface SourceIngestionReport {
+  dryRun: boolean;
+  documents: string[];
+  nodes: {
+    created: Array<{ label: string; id: string }>;
+    updated: Array<{ label: string; id: string; changedProperties: string[] }>;
+    unchanged: number;
+  };
+  relationships: {
+    created: IngestionRelationship[];
+    unchanged: number;
+  };
+  /**
+   * Graph content from the ingested statutes that these documents no longer
+   * contain. Reported for review, never deleted.
+   */
+  stale: {
+    sections: string[];
+    relationships: IngestionRelationship[];
+  };
+  unresolved: UnresolvedReference[];
+}
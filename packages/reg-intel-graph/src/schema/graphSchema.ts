@@ -0,0 +1,892 @@
+/**
+ * Graph Schema
+ *
+ * The single declaration of the global graph's node labels, their properties
+ * and the relationship types allowed between them. The ingress guard, the
+ * `GraphNode` type, the Memgraph index script and the generated schema
+ * reference (`docs/architecture/graph/schema_registry.md`) are all derived
+ * from it, so adding a node type is a change to this file only.
+ *
+ * See: docs/architecture/graph/schema_v_0_6.md
+ */
+
+import { ANY_NODE_LABEL, defineGraphSchema, type GraphNodePropertiesOf } from './types.js';
+
+const text = { type: 'string' } as const;
+const requiredText = { type: 'string', required: true } as const;
+const id = requiredText;
+const number = { type: 'number' } as const;
+const flag = { type: 'boolean' } as const;
+const list = { type: 'string[]' } as const;
+const datetime = { type: 'datetime' } as const;
+
+const timestamps = { created_at: datetime, updated_at: datetime } as const;
+const validity = { effective_from: datetime, effective_to: datetime } as const;
+
+/** Legislation, guidance and case law that rules are sourced from */
+const LEGAL_SOURCES = [
+  'Statute',
+  'Section',
+  'Guidance',
+  'Case',
+  'EURegulation',
+  'EUDirective',
+  'Agreement',
+  'Treaty',
+] as const;
+
+/** Nodes that grant something to a person or entity */
+const ENTITLEMENTS = ['Benefit', 'Relief', 'TaxCredit'] as const;
+
+/** Nodes that time windows (lookbacks, deadlines, lock-ins) attach to */
+const TIMELINE_SUBJECTS = [
+  'Section',
+  'Benefit',
+  'Relief',
+  'TaxCredit',
+  'Condition',
+  'Obligation',
+  'ProfileTag',
+  'Guidance',
+  'Update',
+  'ChangeEvent',
+  'Regime',
+  'Agreement',
+] as const;
+
+/** Change events from legislation updates, case law and guidance */
+const CHANGES = ['Update', 'ChangeEvent'] as const;
+
+export const GRAPH_SCHEMA = defineGraphSchema({
+  version: '0.6',
+  universalProperties: {
+    community_id: text,
+    centrality_score: number,
+  },
+  nodes: {
+    Jurisdiction: {
+      description: 'Country, supranational body or crown dependency',
+      properties: { id, name: requiredText, type: requiredText, notes: text, code: text },
+    },
+    Region: {
+      description: 'Part of a jurisdiction with its own rules, e.g. Northern Ireland',
+      properties: { id, name: requiredText, type: requiredText, notes: text },
+    },
+    Concept: {
+      description: 'Canonical regulatory concept captured from chat or ingestion (SKOS-style)',
+      properties: {
+        id,
+        pref_label: requiredText,
+        domain: text,
+        kind: text,
+        jurisdiction: text,
+        definition: text,
+        alt_labels: list,
+        source_urls: list,
+        ingestion_status: text,
+        ...timestamps,
+        last_verified_at: datetime,
+      },
+    },
+    Label: {
+      description: 'Alternative label or synonym of a concept',
+      properties: { id, value: requiredText, kind: text },
+    },
+    Agreement: {
+      description: 'Agreement between jurisdictions, e.g. the Common Travel Area',
+      properties: { id, name: requiredText, type: text, description: text, ...validity },
+    },
+    Treaty: {
+      description: 'Treaty between jurisdictions, e.g. a double taxation treaty',
+      properties: { id, name: text, type: text, description: text, ...validity },
+    },
+    Regime: {
+      description: 'Set of rules that applies under an agreement or in a territory',
+      properties: { id, name: requiredText, category: text, description: text },
+    },
+    Statute: {
+      description: 'Act or statutory instrument',
+      properties: {
+        id,
+        name: requiredText,
+        citation: text,
+        source_url: text,
+        type: requiredText,
+      },
+    },
+    Section: {
+      description: 'Section of a statute',
+      properties: {
+        id,
+        label: { type: 'string', required: true, index: 'search' },
+        title: requiredText,
+        name: { type: 'string', index: 'search' },
+        text_excerpt: text,
+        ...validity,
+        section_number: text,
+        created_at: datetime,
+        updated_at: { type: 'datetime', index: 'timestamp' },
+      },
+    },
+    Benefit: {
+      description: 'Social welfare payment or scheme',
+      properties: {
+        id,
+        name: { type: 'string', required: true, index: 'search' },
+        label: { type: 'string', index: 'search' },
+        category: requiredText,
+        short_summary: text,
+        description: text,
+        created_at: datetime,
+        updated_at: { type: 'datetime', index: 'timestamp' },
+      },
+    },
+    Relief: {
+      description: 'Tax relief, exemption or allowance',
+      properties: {
+        id,
+        name: { type: 'string', required: true, index: 'search' },
+        label: { type: 'string', index: 'search' },
+        tax_type: requiredText,
+        short_summary: text,
+        description: text,
+        created_at: datetime,
+        updated_at: { type: 'datetime', index: 'timestamp' },
+      },
+    },
+    Condition: {
+      description: 'Eligibility condition',
+      properties: { id, label: text, description: text, category: text },
+    },
+    Timeline: {
+      description: 'Time window such as a lookback period, lock-in or filing deadline',
+      properties: {
+        id,
+        label: requiredText,
+        window_days: number,
+        window_months: number,
+        window_years: number,
+        kind: {
+          type: 'string',
+          values: ['LOOKBACK', 'LOCK_IN', 'DEADLINE', 'EFFECTIVE_WINDOW', 'USAGE_FREQUENCY', 'OTHER'],
+        },
+        jurisdictionCode: text,
+        anchor: { type: 'string', values: ['EVENT', 'TAX_YEAR_START', 'TAX_YEAR_END'] },
+        day_of_month: number,
+        business_days: flag,
+        description: text,
+      },
+    },
+    ProfileTag: {
+      description: 'Persona or circumstance rules apply to, e.g. single-director company',
+      properties: { id, label: requiredText, category: text, description: text },
+    },
+    Community: {
+      description: 'Cluster of related nodes found by community detection',
+      properties: { id, label: text, size: number, representative_nodes: list },
+    },
+    EURegulation: {
+      description: 'EU regulation',
+      properties: { id, name: text, number: text, ...validity, description: text },
+    },
+    EUDirective: {
+      description: 'EU directive',
+      properties: { id, name: text, number: text, ...validity, description: text },
+    },
+    Guidance: {
+      description: 'Official guidance, e.g. a Revenue Tax and Duty Manual',
+      properties: {
+        id,
+        title: requiredText,
+        source: text,
+        url: text,
+        effective_from: datetime,
+        category: text,
+      },
+    },
+    Case: {
+      description: 'Court or tribunal decision',
+      properties: { id, title: text, citation: text, court: text, decision_date: datetime, summary: text },
+    },
+    Update: {
+      description: 'Change to the rules, e.g. a Finance Act amendment',
+      properties: { id, kind: text, description: text, ...validity, source_url: text },
+    },
+    ChangeEvent: {
+      description: 'Change to the rules detected from a source',
+      properties: { id, kind: text, description: text, ...validity, source_url: text },
+    },
+    Obligation: {
+      description: 'Compliance duty such as a filing or registration',
+      properties: {
+        id,
+        label: text,
+        category: text,
+        frequency: text,
+        penalty_applies: flag,
+        description: text,
+        created_at: datetime,
+        updated_at: { type: 'datetime', index: 'timestamp' },
+      },
+    },
+    Threshold: {
+      description: 'Numeric limit used in eligibility or calculations',
+      properties: {
+        id,
+        label: text,
+        value: number,
+        unit: { type: 'string', index: 'filter' },
+        direction: text,
+        upper_bound: number,
+        ...validity,
+        category: text,
+        ...timestamps,
+      },
+    },
+    Rate: {
+      description: 'Tax or contribution rate, percentage or flat amount',
+      properties: {
+        id,
+        label: text,
+        percentage: number,
+        flat_amount: number,
+        currency: text,
+        band_lower: number,
+        band_upper: number,
+        contribution_class: text,
+        personal_status: text,
+        ...validity,
+        category: { type: 'string', index: 'filter' },
+        ...timestamps,
+      },
+    },
+    Form: {
+      description: 'Official form used to file or claim',
+      properties: {
+        id,
+        label: text,
+        issuing_body: text,
+        form_number: text,
+        source_url: text,
+        category: text,
+        online_only: flag,
+        ...timestamps,
+      },
+    },
+    PRSIClass: {
+      description: 'Irish PRSI contribution class',
+      properties: { id, label: text, description: text, eligible_benefits: list, ...timestamps },
+    },
+    LifeEvent: {
+      description: 'Event that triggers benefits, obligations or timelines, e.g. birth of a child',
+      properties: { id, label: text, category: text, triggers_timeline: flag, description: text, ...timestamps },
+    },
+    Penalty: {
+      description: 'Penalty for not meeting an obligation',
+      properties: {
+        id,
+        label: text,
+        penalty_type: text,
+        rate: number,
+        daily_rate: number,
+        flat_amount: number,
+        currency: text,
+        max_amount: number,
+        applies_after_days: number,
+        applies_after_months: number,
+        description: text,
+        ...timestamps,
+      },
+    },
+    LegalEntity: {
+      description: 'Legal form such as a company, partnership or sole trader',
+      properties: {
+        id,
+        label: text,
+        abbreviation: text,
+        jurisdiction: text,
+        category: text,
+        sub_category: text,
+        has_separate_legal_personality: flag,
+        limited_liability: flag,
+        can_trade: flag,
+        can_hold_property: flag,
+        tax_transparent: flag,
+        description: text,
+        ...timestamps,
+      },
+    },
+    TaxCredit: {
+      description: 'Tax credit that reduces tax payable',
+      properties: {
+        id,
+        label: text,
+        amount: number,
+        currency: text,
+        tax_year: { type: 'number', index: 'filter' },
+        refundable: flag,
+        transferable: flag,
+        restricted_to_marginal: flag,
+        category: text,
+        description: text,
+        ...timestamps,
+      },
+    },
+    RegulatoryBody: {
+      description: 'Body that administers or regulates, e.g. Revenue or DSP',
+      properties: {
+        id,
+        label: text,
+        abbreviation: text,
+        jurisdiction: text,
+        domain: text,
+        website: text,
+        contact_info: text,
+        description: text,
+        ...timestamps,
+      },
+    },
+    AssetClass: {
+      description: 'Class of asset for CGT, CAT and stamp duty',
+      properties: {
+        id,
+        label: text,
+        category: text,
+        sub_category: text,
+        tangible: flag,
+        cgt_applicable: flag,
+        cat_applicable: flag,
+        stamp_duty_applicable: flag,
+        description: text,
+        ...timestamps,
+      },
+    },
+    MeansTest: {
+      description: 'Means test for a means-tested benefit',
+      properties: {
+        id,
+        label: text,
+        income_disregard: number,
+        capital_threshold: number,
+        capital_weekly_assessment: number,
+        spouse_income_assessed: flag,
+        maintenance_assessed: flag,
+        categories: list,
+        description: text,
+        ...timestamps,
+      },
+    },
+    TaxYear: {
+      description: 'Tax year of a jurisdiction',
+      properties: {
+        id,
+        year: { type: 'number', index: 'filter' },
+        start_date: datetime,
+        end_date: datetime,
+        jurisdiction: { type: 'string', index: 'filter' },
+        ...timestamps,
+      },
+    },
+    NIClass: {
+      description: 'UK National Insurance class',
+      properties: {
+        id,
+        label: text,
+        description: text,
+        rate: number,
+        threshold_weekly: number,
+        threshold_annual: number,
+        eligible_benefits: list,
+        ...timestamps,
+      },
+    },
+    BenefitCap: {
+      description: 'Cap on the total benefits a household can receive',
+      properties: {
+        id,
+        label: text,
+        amount_single: number,
+        amount_couple: number,
+        amount_with_children: number,
+        currency: text,
+        frequency: text,
+        exemptions: list,
+        ...validity,
+        ...timestamps,
+      },
+    },
+    CoordinationRule: {
+      description: 'Social security coordination rule between jurisdictions, e.g. EU 883/2004 postings',
+      properties: {
+        id,
+        label: text,
+        regulation: text,
+        article: text,
+        applies_to: text,
+        home_jurisdiction: { type: 'string', index: 'filter' },
+        host_jurisdiction: { type: 'string', index: 'filter' },
+        duration_months: number,
+        description: text,
+        ...timestamps,
+      },
+    },
+  },
+  relationships: {
+    IN_JURISDICTION: {
+      description: 'Node belongs to a jurisdiction or region',
+      endpoints: [{ from: ANY_NODE_LABEL, to: ['Jurisdiction', 'Region'] }],
+    },
+    PART_OF: {
+      description: 'Structural containment',
+      endpoints: [
+        { from: ['Region', 'Jurisdiction'], to: ['Jurisdiction'] },
+        { from: ['Section'], to: ['Statute', 'Section'] },
+        { from: ['ProfileTag'], to: ['ProfileTag'] },
+      ],
+    },
+    PART_OF_REGIME: {
+      description: 'Rule belongs to a regime',
+      endpoints: [{ from: ['Section', 'Benefit', 'Relief', 'Obligation', 'Rate', 'Threshold'], to: ['Regime'] }],
+    },
+    SUBSECTION_OF: {
+      description: 'Section is a subsection of another section',
+      endpoints: [{ from: ['Section'], to: ['Section'] }],
+    },
+    APPLIES_IN: {
+      description: 'Rule or regime applies in a jurisdiction or region',
+      endpoints: [
+        { from: ['Regime', 'Agreement', 'Treaty', 'Section', 'Benefit', 'Relief'], to: ['Jurisdiction', 'Region'] },
+      ],
+    },
+    CITES: {
+      description: 'Source or rule cites legislation, guidance or case law',
+      endpoints: [{ from: ['Section', 'Statute', 'Guidance', 'Case', 'Benefit', 'Relief'], to: LEGAL_SOURCES }],
+    },
+    REFERENCES: {
+      description: 'General reference between sources, rules and concepts',
+      endpoints: [
+        {
+          from: [...LEGAL_SOURCES, 'Benefit', 'Relief', 'Concept'],
+          to: [...LEGAL_SOURCES, 'Benefit', 'Relief', 'Concept'],
+        },
+      ],
+    },
+    REQUIRES: {
+      description: 'Eligibility requires a condition or threshold',
+      endpoints: [{ from: ['Section', ...ENTITLEMENTS], to: ['Condition', 'Threshold'] }],
+    },
+    LIMITED_BY: {
+      description: 'Entitlement is limited by a condition or threshold',
+      endpoints: [{ from: ['Section', 'Benefit', 'Relief'], to: ['Condition', 'Threshold'] }],
+    },
+    EXCLUDES: {
+      description: 'Claiming one entitlement excludes another',
+      endpoints: [{ from: ENTITLEMENTS, to: ENTITLEMENTS }],
+    },
+    MUTUALLY_EXCLUSIVE_WITH: {
+      description: 'Entitlements cannot be claimed together',
+      endpoints: [{ from: ENTITLEMENTS, to: ENTITLEMENTS }],
+    },
+    LOOKBACK_WINDOW: {
+      description: 'Eligibility looks back over a time window',
+      endpoints: [{ from: TIMELINE_SUBJECTS, to: ['Timeline'] }],
+    },
+    LOCKS_IN_FOR_PERIOD: {
+      description: 'Claiming locks the claimant in for a period',
+      endpoints: [{ from: TIMELINE_SUBJECTS, to: ['Timeline'] }],
+    },
+    FILING_DEADLINE: {
+      description: 'Deadline for filing or claiming',
+      endpoints: [{ from: TIMELINE_SUBJECTS, to: ['Timeline'] }],
+    },
+    EFFECTIVE_WINDOW: {
+      description: 'Window in which a rule or change is effective',
+      endpoints: [{ from: TIMELINE_SUBJECTS, to: ['Timeline'] }],
+    },
+    USAGE_FREQUENCY: {
+      description: 'How often an entitlement can be used',
+      endpoints: [{ from: TIMELINE_SUBJECTS, to: ['Timeline'] }],
+    },
+    COORDINATED_WITH: {
+      description: 'Rules or regimes are coordinated across jurisdictions',
+      endpoints: [
+        {
+          from: ['Regime', 'Agreement', 'Benefit', 'Relief', 'EURegulation', 'EUDirective'],
+          to: ['Regime', 'Agreement', 'Jurisdiction', 'Benefit', 'Relief', 'EURegulation', 'EUDirective'],
+        },
+      ],
+    },
+    TREATY_LINKED_TO: {
+      description: 'Rule is linked to an agreement or treaty',
+      endpoints: [{ from: ['Section', 'Benefit', 'Relief', 'Regime'], to: ['Agreement', 'Treaty'] }],
+    },
+    EQUIVALENT_TO: {
+      description: 'Equivalent rule in another jurisdiction',
+      endpoints: [
+        {
+          from: ['Section', 'Concept', ...ENTITLEMENTS],
+          to: ['Section', 'Concept', ...ENTITLEMENTS],
+        },
+      ],
+    },
+    IMPLEMENTED_BY: {
+      description: 'EU or international instrument is implemented by domestic law',
+      endpoints: [
+        {
+          from: ['EURegulation', 'EUDirective', 'Agreement', 'Treaty', 'Statute'],
+          to: ['Statute', 'Section', 'Regime', 'Guidance'],
+        },
+      ],
+    },
+    OVERRIDES: {
+      description: 'EU instrument overrides a domestic rule',
+      endpoints: [{ from: ['EURegulation', 'EUDirective'], to: ['Statute', 'Section', 'Benefit', 'Relief'] }],
+    },
+    INTERPRETS: {
+      description: 'Guidance or case law interprets a rule',
+      endpoints: [
+        {
+          from: ['Guidance', 'Case'],
+          to: ['Statute', 'Section', 'EURegulation', 'EUDirective', 'Benefit', 'Relief'],
+        },
+      ],
+    },
+    AFFECTS: {
+      description: 'Change affects a rule',
+      endpoints: [
+        {
+          from: [...CHANGES, 'Case'],
+          to: [
+            'Statute',
+            'Section',
+            'Benefit',
+            'Relief',
+            'TaxCredit',
+            'Condition',
+            'Timeline',
+            'Threshold',
+            'Rate',
+            'Obligation',
+            'Regime',
+          ],
+        },
+      ],
+    },
+    CHANGES_INTERPRETATION_OF: {
+      description: 'Change alters how a rule is interpreted',
+      endpoints: [{ from: [...CHANGES, 'Case', 'Guidance'], to: ['Statute', 'Section', 'Benefit', 'Relief'] }],
+    },
+    UPDATES: {
+      description: 'Change updates a source',
+      endpoints: [{ from: CHANGES, to: ['Guidance', 'Statute', 'Section'] }],
+    },
+    AMENDED_BY: {
+      description: 'Source is amended by later legislation or a change',
+      endpoints: [{ from: ['Statute', 'Section', 'Guidance'], to: ['Statute', 'Section', ...CHANGES] }],
+    },
+    HAS_PROFILE_TAG: {
+      description: 'Rule is relevant to a profile',
+      endpoints: [{ from: ['Section', 'Benefit', 'Relief', 'Obligation'], to: ['ProfileTag'] }],
+    },
+    APPLIES_TO_PROFILE: {
+      description: 'Rule applies to a profile',
+      endpoints: [
+        { from: ['Section', 'Condition', 'Obligation', ...ENTITLEMENTS], to: ['ProfileTag'] },
+        { from: ['ProfileTag'], to: ['Benefit', 'Relief'] },
+      ],
+    },
+    CONTAINS: {
+      description: 'Source contains a section or regime',
+      endpoints: [{ from: ['Statute', 'Section', 'Agreement', 'Treaty'], to: ['Section', 'Regime'] }],
+    },
+    PARTY_TO: {
+      description: 'Jurisdiction is party to an agreement or treaty',
+      endpoints: [{ from: ['Jurisdiction', 'Region'], to: ['Agreement', 'Treaty'] }],
+    },
+    MODIFIED_BY: {
+      description: 'Agreement, treaty or regime is modified by another instrument',
+      endpoints: [{ from: ['Agreement', 'Treaty', 'Regime'], to: ['Agreement', 'Treaty', ...CHANGES] }],
+    },
+    ESTABLISHES_REGIME: {
+      description: 'Instrument establishes a regime',
+      endpoints: [{ from: ['Agreement', 'Treaty', 'Statute', 'Section'], to: ['Regime'] }],
+    },
+    IMPLEMENTED_VIA: {
+      description: 'Regime is implemented via an instrument',
+      endpoints: [{ from: ['Regime', 'Agreement', 'Treaty'], to: ['Agreement', 'Treaty', 'Statute', 'Section'] }],
+    },
+    SUBJECT_TO_REGIME: {
+      description: 'Jurisdiction or profile is subject to a regime',
+      endpoints: [
+        { from: ['Jurisdiction', 'Region', 'ProfileTag', 'Benefit', 'Relief'], to: ['Regime'] },
+        { from: ['ProfileTag'], to: ['Statute', 'Section'] },
+      ],
+    },
+    AVAILABLE_VIA_REGIME: {
+      description: 'Entitlement is available through a regime',
+      endpoints: [{ from: ['Benefit', 'Relief'], to: ['Regime'] }],
+    },
+    HAS_ALT_LABEL: {
+      description: 'Concept has an alternative label',
+      endpoints: [{ from: ['Concept'], to: ['Label'] }],
+    },
+    MERGED_INTO: {
+      description: 'Duplicate concept redirects to the concept it was merged into',
+      endpoints: [{ from: ['Concept'], to: ['Concept'] }],
+    },
+    ALIGNS_WITH: {
+      description: 'Concept is represented by a rule node',
+      endpoints: [{ from: ['Concept'], to: ANY_NODE_LABEL }],
+    },
+    DERIVED_FROM: {
+      description: 'Concept was created or enriched from a source',
+      endpoints: [{ from: ['Concept'], to: [...LEGAL_SOURCES, ...CHANGES] }],
+    },
+    HAS_SOURCE: {
+      description: 'Concept is anchored to an authoritative source',
+      endpoints: [{ from: ['Concept'], to: LEGAL_SOURCES }],
+    },
+    HAS_OBLIGATION: {
+      description: 'Profile or entity has a compliance duty',
+      endpoints: [{ from: ['ProfileTag', 'LegalEntity'], to: ['Obligation'] }],
+    },
+    CREATES_OBLIGATION: {
+      description: 'Legislation creates an obligation',
+      endpoints: [{ from: ['Statute', 'Section', 'EURegulation', 'EUDirective'], to: ['Obligation'] }],
+    },
+    REQUIRES_FORM: {
+      description: 'Obligation or claim requires a form',
+      endpoints: [{ from: ['Obligation', 'Benefit', 'Relief'], to: ['Form'] }],
+    },
+    CLAIMED_VIA: {
+      description: 'Entitlement is claimed via a form',
+      endpoints: [{ from: ENTITLEMENTS, to: ['Form'] }],
+    },
+    HAS_THRESHOLD: {
+      description: 'Numeric threshold of a condition or rule',
+      endpoints: [
+        { from: ['Condition', 'Section', 'Benefit', 'Relief', 'Obligation', 'MeansTest'], to: ['Threshold'] },
+      ],
+    },
+    LIMITED_BY_THRESHOLD: {
+      description: 'Upper or lower bound on an entitlement',
+      endpoints: [{ from: ENTITLEMENTS, to: ['Threshold'] }],
+    },
+    CHANGES_THRESHOLD: {
+      description: 'Change adjusts a threshold',
+      endpoints: [{ from: CHANGES, to: ['Threshold'] }],
+    },
+    HAS_RATE: {
+      description: 'Rate used in a calculation',
+      endpoints: [{ from: ['Section', 'Benefit', 'Relief', 'Regime', 'Penalty'], to: ['Rate'] }],
+    },
+    SUBJECT_TO_RATE: {
+      description: 'Profile or entity is subject to a rate',
+      endpoints: [{ from: ['ProfileTag', 'LegalEntity'], to: ['Rate'] }],
+    },
+    APPLIES_RATE: {
+      description: 'Regime applies a rate',
+      endpoints: [{ from: ['Regime'], to: ['Rate'] }],
+    },
+    BROADER: {
+      description: 'Parent concept in the taxonomy',
+      endpoints: [{ from: ['Concept'], to: ['Concept'] }],
+    },
+    NARROWER: {
+      description: 'Child concept in the taxonomy',
+      endpoints: [{ from: ['Concept'], to: ['Concept'] }],
+    },
+    RELATED: {
+      description: 'Semantically related concept',
+      endpoints: [{ from: ['Concept'], to: ['Concept'] }],
+    },
+    ENTITLES_TO: {
+      description: 'Contribution class entitles to a benefit',
+      endpoints: [{ from: ['PRSIClass', 'NIClass'], to: ['Benefit'] }],
+    },
+    HAS_PRSI_CLASS: {
+      description: 'Profile pays PRSI under a class',
+      endpoints: [{ from: ['ProfileTag'], to: ['PRSIClass'] }],
+    },
+    CONTRIBUTION_RATE: {
+      description: 'Contribution rate of a class',
+      endpoints: [{ from: ['PRSIClass', 'NIClass'], to: ['Rate'] }],
+    },
+    TRIGGERS: {
+      description: 'Life event triggers an entitlement, obligation or timeline',
+      endpoints: [{ from: ['LifeEvent'], to: ['Benefit', 'Relief', 'Obligation', 'Timeline'] }],
+    },
+    STARTS_TIMELINE: {
+      description: 'Life event starts a time window',
+      endpoints: [{ from: ['LifeEvent'], to: ['Timeline'] }],
+    },
+    ENDS_TIMELINE: {
+      description: 'Life event ends a time window',
+      endpoints: [{ from: ['LifeEvent'], to: ['Timeline'] }],
+    },
+    TRIGGERED_BY: {
+      description: 'Entitlement or obligation is triggered by a life event',
+      endpoints: [{ from: ['Benefit', 'Relief', 'Obligation'], to: ['LifeEvent'] }],
+    },
+    HAS_PENALTY: {
+      description: 'Penalty for not meeting an obligation',
+      endpoints: [{ from: ['Obligation'], to: ['Penalty'] }],
+    },
+    WAIVED_IF: {
+      description: 'Condition under which a penalty is waived',
+      endpoints: [{ from: ['Penalty'], to: ['Condition'] }],
+    },
+    SCALES_WITH: {
+      description: 'Penalty scales with a threshold',
+      endpoints: [{ from: ['Penalty'], to: ['Threshold'] }],
+    },
+    AVAILABLE_TO: {
+      description: 'Entitlement is available to a legal entity or profile',
+      endpoints: [{ from: ENTITLEMENTS, to: ['LegalEntity', 'ProfileTag'] }],
+    },
+    APPLIES_TO_ENTITY: {
+      description: 'Rule applies to a legal entity type',
+      endpoints: [{ from: ['Obligation', 'Benefit', 'Relief', 'Rate', 'Threshold'], to: ['LegalEntity'] }],
+    },
+    REGISTERED_AS: {
+      description: 'Profile is registered as a legal entity type',
+      endpoints: [{ from: ['ProfileTag'], to: ['LegalEntity'] }],
+    },
+    ENTITLED_TO: {
+      description: 'Profile or entity is entitled to a credit or entitlement',
+      endpoints: [{ from: ['ProfileTag', 'LegalEntity'], to: ENTITLEMENTS }],
+    },
+    CAPPED_BY: {
+      description: 'Entitlement is capped',
+      endpoints: [{ from: ENTITLEMENTS, to: ['Threshold', 'BenefitCap'] }],
+    },
+    TRANSFERS_TO: {
+      description: 'Credit can be transferred to a profile, e.g. a spouse',
+      endpoints: [{ from: ['TaxCredit'], to: ['ProfileTag'] }],
+    },
+    STACKS_WITH: {
+      description: 'Entitlements can be claimed together',
+      endpoints: [{ from: ENTITLEMENTS, to: ENTITLEMENTS }],
+    },
+    REDUCES: {
+      description: 'Entitlement reduces another',
+      endpoints: [{ from: ENTITLEMENTS, to: ENTITLEMENTS }],
+    },
+    OFFSETS_AGAINST: {
+      description: 'Credit or relief is offset against a rate of tax',
+      endpoints: [{ from: ['TaxCredit', 'Relief'], to: ['Rate'] }],
+    },
+    ADMINISTERED_BY: {
+      description: 'Administered by a regulatory body',
+      endpoints: [{ from: ['Obligation', 'Regime', 'Form', ...ENTITLEMENTS], to: ['RegulatoryBody'] }],
+    },
+    ISSUED_BY: {
+      description: 'Form or guidance is issued by a regulatory body',
+      endpoints: [{ from: ['Form', 'Guidance'], to: ['RegulatoryBody'] }],
+    },
+    REGULATED_BY: {
+      description: 'Entity or asset is regulated by a body',
+      endpoints: [{ from: ['LegalEntity', 'ProfileTag', 'AssetClass'], to: ['RegulatoryBody'] }],
+    },
+    APPLIES_TO_ASSET: {
+      description: 'Rule applies to an asset class',
+      endpoints: [{ from: ['Section', 'Relief', 'Threshold', 'Rate'], to: ['AssetClass'] }],
+    },
+    HAS_CGT_RATE: {
+      description: 'Capital gains tax rate of an asset class',
+      endpoints: [{ from: ['AssetClass'], to: ['Rate'] }],
+    },
+    HAS_STAMP_DUTY_RATE: {
+      description: 'Stamp duty rate of an asset class',
+      endpoints: [{ from: ['AssetClass'], to: ['Rate'] }],
+    },
+    HAS_CAT_RATE: {
+      description: 'Capital acquisitions tax rate of an asset class',
+      endpoints: [{ from: ['AssetClass'], to: ['Rate'] }],
+    },
+    HAS_MEANS_TEST: {
+      description: 'Benefit is means tested',
+      endpoints: [{ from: ['Benefit'], to: ['MeansTest'] }],
+    },
+    DISREGARDS: {
+      description: 'Means test disregards income, assets or a payment',
+      endpoints: [{ from: ['MeansTest'], to: ['Threshold', 'Benefit', 'AssetClass'] }],
+    },
+    APPLIES_IN_YEAR: {
+      description: 'Value applies in a tax year',
+      endpoints: [{ from: ['Rate', 'Threshold', 'BenefitCap', ...ENTITLEMENTS], to: ['TaxYear'] }],
+    },
+    EFFECTIVE_IN_YEAR: {
+      description: 'Legislation or change takes effect in a tax year',
+      endpoints: [{ from: ['Statute', 'Section', ...CHANGES], to: ['TaxYear'] }],
+    },
+    HAS_NI_CLASS: {
+      description: 'Profile pays National Insurance under a class',
+      endpoints: [{ from: ['ProfileTag'], to: ['NIClass'] }],
+    },
+    QUALIFIES_FOR: {
+      description: 'Class or profile qualifies for an entitlement',
+      endpoints: [{ from: ['NIClass', 'PRSIClass', 'ProfileTag'], to: [...ENTITLEMENTS, 'Statute'] }],
+    },
+    SUBJECT_TO_CAP: {
+      description: 'Benefit counts towards a benefit cap',
+      endpoints: [{ from: ['Benefit'], to: ['BenefitCap'] }],
+    },
+    COORDINATED_UNDER: {
+      description: 'Benefit is coordinated under a cross-border rule',
+      endpoints: [{ from: ['Benefit'], to: ['CoordinationRule'] }],
+    },
+    AGGREGATES_WITH: {
+      description: 'Contributions or income aggregate across benefits or under a rule',
+      endpoints: [{ from: ['Benefit'], to: ['Benefit', 'CoordinationRule'] }],
+    },
+    POSTED_TO: {
+      description: 'Profile is posted abroad under a coordination rule',
+      endpoints: [{ from: ['ProfileTag'], to: ['CoordinationRule'] }],
+    },
+    IMPLEMENTS: {
+      description: 'Domestic law implements an EU or international instrument',
+      endpoints: [
+        { from: ['Statute', 'Section'], to: ['EURegulation', 'EUDirective', 'Statute', 'Agreement', 'Treaty'] },
+      ],
+    },
+    AMENDS: {
+      description: 'Instrument amends another, e.g. the MLI amending a tax treaty',
+      endpoints: [
+        {
+          from: ['Statute', 'Section', 'Agreement', 'Treaty', 'Update'],
+          to: ['Statute', 'Section', 'Agreement', 'Treaty'],
+        },
+      ],
+    },
+    MEMBER_OF: {
+      description: 'Jurisdiction is a member of a supranational body',
+      endpoints: [{ from: ['Jurisdiction', 'Region'], to: ['Jurisdiction'] }],
+    },
+    HAS_TREATY_WITH: {
+      description: 'Jurisdiction has a tax treaty with another',
+      endpoints: [{ from: ['Jurisdiction'], to: ['Jurisdiction'] }],
+    },
+    HARMONIZED_WITH: {
+      description: 'Rule is harmonised with EU law',
+      endpoints: [{ from: ['Statute', 'Section', 'Benefit', 'Relief', 'Regime'], to: ['EURegulation', 'EUDirective'] }],
+    },
+  },
+});
+
+/**
+ * Node label declared in the graph schema
+ */
+export type GraphNodeLabel = keyof typeof GRAPH_SCHEMA.nodes;
+
+/**
+ * Relationship type declared in the graph schema
+ */
+export type GraphRelationshipType = keyof typeof GRAPH_SCHEMA.relationships;
+
+/**
+ * Properties of a node with the given label, e.g. `GraphNodeProperties<'Rate'>`
+ */
+export type GraphNodeProperties<TLabel extends GraphNodeLabel> = GraphNodePropertiesOf<
+  (typeof GRAPH_SCHEMA.nodes)[TLabel]
+>;
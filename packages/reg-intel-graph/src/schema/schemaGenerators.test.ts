@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { generateIndexCypher, generateIndexStatements, generateSchemaMarkdown } from './schemaGenerators.js';
+import { defineGraphSchema } from './types.js';
+
+const testSchema = defineGraphSchema({
+  version: 'test',
+  universalProperties: { community_id: { type: 'string' } },
+  nodes: {
+    Statute: {
+      description: 'Primary legislation',
+      properties: {
+        id: { type: 'string', required: true },
+        name: { type: 'string', required: true, index: 'search' },
+        updated_at: { type: 'datetime', index: 'timestamp' },
+      },
+    },
+    Rate: {
+      description: 'Tax or contribution rate',
+      properties: {
+        id: { type: 'string', required: true },
+        category: { type: 'string', values: ['FLAT', 'BAND'], index: 'filter' },
+      },
+    },
+  },
+  relationships: {
+    HAS_RATE: { description: 'Rule has a rate', endpoints: [{ from: ['Statute'], to: ['Rate'] }] },
+    RELATED_TO: {
+      description: 'Loosely related',
+      endpoints: [
+        { from: ['Statute'], to: '*' },
+        { from: ['Rate'], to: ['Rate'] },
+      ],
+    },
+  },
+});
+
+describe('generateIndexStatements', () => {
+  it('indexes the id of every label and each flagged property by category', () => {
+    expect(generateIndexStatements(testSchema)).toEqual({
+      primaryIds: ['CREATE INDEX ON :Statute(id)', 'CREATE INDEX ON :Rate(id)'],
+      timestamps: ['CREATE INDEX ON :Statute(updated_at)'],
+      properties: ['CREATE INDEX ON :Rate(category)'],
+      search: ['CREATE INDEX ON :Statute(name)'],
+    });
+  });
+
+  it('covers every label of the graph schema', () => {
+    const statements = generateIndexStatements();
+    expect(statements.primaryIds).toContain('CREATE INDEX ON :Concept(id)');
+    expect(statements.timestamps).toContain('CREATE INDEX ON :Section(updated_at)');
+  });
+});
+
+describe('generateIndexCypher', () => {
+  it('renders one terminated statement per index', () => {
+    const cypher = generateIndexCypher(testSchema);
+    expect(cypher).toContain('-- Graph schema vtest');
+    expect(cypher).toContain('CREATE INDEX ON :Statute(id);\nCREATE INDEX ON :Rate(id);');
+    expect(cypher).toContain('CREATE INDEX ON :Rate(category);');
+    expect(cypher.endsWith('CREATE INDEX ON :Statute(name);\n')).toBe(true);
+  });
+});
+
+describe('generateSchemaMarkdown', () => {
+  const markdown = generateSchemaMarkdown(testSchema);
+
+  it('documents node properties', () => {
+    expect(markdown).toContain('# Graph Schema Registry — vtest');
+    expect(markdown).toContain('## 1. Node Labels (2)');
+    expect(markdown).toContain('| `name` | string | yes | search |');
+    expect(markdown).toContain('| `category` | `FLAT`, `BAND` |  | filter |');
+    expect(markdown).toContain('| `community_id` | string |  |  |');
+  });
+
+  it('documents one row per endpoint rule', () => {
+    expect(markdown).toContain('| `HAS_RATE` | `Statute` | `Rate` | Rule has a rate |');
+    expect(markdown).toContain('| `RELATED_TO` | `Statute` | any | Loosely related |');
+    expect(markdown).toContain('|  | `Rate` | `Rate` |  |');
+  });
+});
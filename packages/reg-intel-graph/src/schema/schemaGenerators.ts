@@ -0,0 +1,156 @@
+/**
+ * Graph Schema Generators
+ *
+ * Derive the Memgraph index statements and the schema reference document from
+ * a graph schema. `pnpm graph:schema` writes both to the repository.
+ */
+
+import { GRAPH_SCHEMA } from './graphSchema.js';
+import {
+  ANY_NODE_LABEL,
+  type GraphIndexKind,
+  type GraphPropertyDefinition,
+  type GraphRelationshipEndpoints,
+  type GraphSchemaDefinition,
+} from './types.js';
+
+const SCHEMA_SOURCE = 'packages/reg-intel-graph/src/schema/graphSchema.ts';
+
+/**
+ * Memgraph `CREATE INDEX` statements by category
+ */
+export interface GraphIndexStatements {
+  /** `id` of every node label, used by every lookup and MERGE */
+  primaryIds: string[];
+  /** Timestamps used by change detection */
+  timestamps: string[];
+  /** Common query filters */
+  properties: string[];
+  /** Label and name searches */
+  search: string[];
+}
+
+const INDEX_CATEGORY: Record<GraphIndexKind, Exclude<keyof GraphIndexStatements, 'primaryIds'>> = {
+  timestamp: 'timestamps',
+  filter: 'properties',
+  search: 'search',
+};
+
+export function generateIndexStatements(schema: GraphSchemaDefinition = GRAPH_SCHEMA): GraphIndexStatements {
+  const statements: GraphIndexStatements = { primaryIds: [], timestamps: [], properties: [], search: [] };
+
+  for (const [label, node] of Object.entries(schema.nodes)) {
+    statements.primaryIds.push(`CREATE INDEX ON :${label}(id)`);
+    for (const [property, definition] of Object.entries(node.properties)) {
+      if (definition.index) {
+        statements[INDEX_CATEGORY[definition.index]].push(`CREATE INDEX ON :${label}(${property})`);
+      }
+    }
+  }
+
+  return statements;
+}
+
+const CYPHER_SECTIONS: Array<{ key: keyof GraphIndexStatements; title: string }> = [
+  { key: 'primaryIds', title: 'Primary lookup indices (one per node label)' },
+  { key: 'timestamps', title: 'Timestamp indices for change detection' },
+  { key: 'properties', title: 'Property indices for common query filters' },
+  { key: 'search', title: 'Label and name search indices' },
+];
+
+/**
+ * Cypher script with every index, for mgconsole or Memgraph Lab
+ */
+export function generateIndexCypher(schema: GraphSchemaDefinition = GRAPH_SCHEMA): string {
+  const statements = generateIndexStatements(schema);
+  const rule = '-- -----------------------------------------------------';
+  const lines = [
+    '-- =====================================================',
+    '-- Memgraph Index Creation Script',
+    `-- Graph schema v${schema.version}`,
+    '-- =====================================================',
+    '--',
+    `-- Generated from ${SCHEMA_SOURCE} by \`pnpm graph:schema\`.`,
+    '-- Do not edit by hand; change the schema and regenerate.',
+    '--',
+    '-- Usage: mgconsole < scripts/memgraph-indices.cypher',
+    '-- =====================================================',
+  ];
+
+  for (const { key, title } of CYPHER_SECTIONS) {
+    lines.push('', rule, `-- ${title}`, rule, '', ...statements[key].map(statement => `${statement};`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatLabels(labels: GraphRelationshipEndpoints['from']): string {
+  return labels === ANY_NODE_LABEL ? 'any' : labels.map(label => `\`${label}\``).join(', ');
+}
+
+function formatPropertyType(definition: GraphPropertyDefinition): string {
+  return definition.values ? definition.values.map(value => `\`${value}\``).join(', ') : definition.type;
+}
+
+function propertyRows(properties: Readonly<Record<string, GraphPropertyDefinition>>): string[] {
+  return Object.entries(properties).map(
+    ([property, definition]) =>
+      `| \`${property}\` | ${formatPropertyType(definition)} | ${definition.required ? 'yes' : ''} | ${
+        definition.index ?? ''
+      } |`,
+  );
+}
+
+/**
+ * Markdown reference of every node label and relationship type
+ */
+export function generateSchemaMarkdown(schema: GraphSchemaDefinition = GRAPH_SCHEMA): string {
+  const labels = Object.keys(schema.nodes);
+  const relationshipTypes = Object.keys(schema.relationships);
+  const propertyHeader = ['| Property | Type | Required | Index |', '|----------|------|----------|-------|'];
+
+  const lines = [
+    `# Graph Schema Registry — v${schema.version}`,
+    '',
+    `> **Generated** from \`${SCHEMA_SOURCE}\` by \`pnpm graph:schema\`. Do not edit by hand; change the schema and regenerate.`,
+    '>',
+    '> The Graph Ingress Guard rejects writes that do not match this schema (see `../guards/graph_ingress_v_0_1.md`). Design rationale for each type is in `schema_v_0_6.md`.',
+    '',
+    '---',
+    '',
+    `## 1. Node Labels (${labels.length})`,
+    '',
+    'Every label has an `id` index. `datetime` values are ISO-8601 strings. Required properties must be present when a node is created or merged.',
+  ];
+
+  for (const [label, node] of Object.entries(schema.nodes)) {
+    lines.push('', `### \`${label}\``, '', node.description, '', ...propertyHeader, ...propertyRows(node.properties));
+  }
+
+  lines.push(
+    '',
+    '## 2. Universal Properties',
+    '',
+    'Allowed on every node; written by graph algorithms.',
+    '',
+    ...propertyHeader,
+    ...propertyRows(schema.universalProperties),
+    '',
+    `## 3. Relationship Types (${relationshipTypes.length})`,
+    '',
+    'A relationship may only connect a start label listed in `From` to an end label listed in `To` on the same row.',
+    '',
+    '| Type | From | To | Description |',
+    '|------|------|----|-------------|',
+  );
+
+  for (const [relType, relationship] of Object.entries(schema.relationships)) {
+    relationship.endpoints.forEach((endpoints, index) => {
+      const type = index === 0 ? `\`${relType}\`` : '';
+      const description = index === 0 ? relationship.description : '';
+      lines.push(`| ${type} | ${formatLabels(endpoints.from)} | ${formatLabels(endpoints.to)} | ${description} |`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import { GRAPH_SCHEMA } from './graphSchema.js';
+import { createGraphSchemaRegistry, graphSchemaRegistry } from './schemaRegistry.js';
+import { defineGraphSchema } from './types.js';
+
+const testSchema = defineGraphSchema({
+  version: 'test',
+  universalProperties: { community_id: { type: 'string' } },
+  nodes: {
+    Statute: {
+      description: 'Statute',
+      properties: { id: { type: 'string', required: true }, name: { type: 'string', required: true } },
+    },
+    Rate: {
+      description: 'Rate',
+      properties: {
+        id: { type: 'string', required: true },
+        percentage: { type: 'number' },
+        active: { type: 'boolean' },
+        aliases: { type: 'string[]' },
+        effective_from: { type: 'datetime' },
+        kind: { type: 'string', values: ['FLAT', 'BAND'] },
+      },
+    },
+  },
+  relationships: {
+    HAS_RATE: { description: 'Has rate', endpoints: [{ from: ['Statute'], to: ['Rate'] }] },
+    RELATED_TO: { description: 'Related', endpoints: [{ from: '*', to: '*' }] },
+  },
+});
+
+describe('GraphSchemaRegistry', () => {
+  const registry = createGraphSchemaRegistry(testSchema);
+
+  it('lists node labels and relationship types in declaration order', () => {
+    expect(registry.version).toBe('test');
+    expect(registry.nodeLabels).toEqual(['Statute', 'Rate']);
+    expect(registry.relationshipTypes).toEqual(['HAS_RATE', 'RELATED_TO']);
+    expect(registry.isNodeLabel('Rate')).toBe(true);
+    expect(registry.isNodeLabel('toString')).toBe(false);
+    expect(registry.isRelationshipType('UNKNOWN')).toBe(false);
+  });
+
+  it('includes universal properties in the allowed properties', () => {
+    expect(registry.getAllowedProperties('Statute')).toEqual(['id', 'name', 'community_id']);
+    expect(registry.getAllowedProperties('Unknown')).toEqual(['community_id']);
+  });
+
+  describe('validateNodeProperties', () => {
+    it('accepts values of the declared types', () => {
+      expect(
+        registry.validateNodeProperties('Rate', {
+          id: 'RATE:1',
+          percentage: 20,
+          active: true,
+          aliases: ['standard'],
+          effective_from: '2024-01-01',
+          kind: 'FLAT',
+          community_id: 'c1',
+        }),
+      ).toEqual([]);
+    });
+
+    it('accepts values read back from the graph', () => {
+      expect(
+        registry.validateNodeProperties('Rate', {
+          percentage: { low: 20, high: 0 },
+          effective_from: { year: 2024, month: 1, day: 1 },
+        }),
+      ).toEqual([]);
+      expect(registry.validateNodeProperties('Rate', { effective_from: new Date('2024-01-01') })).toEqual([]);
+    });
+
+    it('reports unknown properties and wrong types', () => {
+      expect(
+        registry.validateNodeProperties('Rate', {
+          email: 'x',
+          percentage: '20%',
+          active: 'yes',
+          aliases: [1],
+          effective_from: 'next year',
+          kind: 'TIERED',
+        }),
+      ).toEqual([
+        { property: 'email', problem: 'not_allowed' },
+        { property: 'percentage', problem: 'wrong_type', expected: 'number' },
+        { property: 'active', problem: 'wrong_type', expected: 'boolean' },
+        { property: 'aliases', problem: 'wrong_type', expected: 'string[]' },
+        { property: 'effective_from', problem: 'wrong_type', expected: 'datetime' },
+        { property: 'kind', problem: 'wrong_type', expected: 'FLAT | BAND' },
+      ]);
+    });
+
+    it('treats null values as removals', () => {
+      expect(registry.validateNodeProperties('Rate', { percentage: null })).toEqual([]);
+    });
+
+    it('reports missing required properties only with requireAll', () => {
+      expect(registry.validateNodeProperties('Statute', { id: 'S:1' })).toEqual([]);
+      expect(registry.validateNodeProperties('Statute', { id: 'S:1', name: null }, { requireAll: true })).toEqual([
+        { property: 'name', problem: 'missing' },
+      ]);
+    });
+  });
+
+  describe('allowsEndpoints', () => {
+    it('checks endpoint labels', () => {
+      expect(registry.allowsEndpoints('HAS_RATE', 'Statute', 'Rate')).toBe(true);
+      expect(registry.allowsEndpoints('HAS_RATE', 'Rate', 'Statute')).toBe(false);
+      expect(registry.allowsEndpoints('RELATED_TO', 'Rate', 'Statute')).toBe(true);
+    });
+
+    it('rejects unknown relationship types and labels', () => {
+      expect(registry.allowsEndpoints('UNKNOWN', 'Statute', 'Rate')).toBe(false);
+      expect(registry.allowsEndpoints('RELATED_TO', 'Statute', 'Unknown')).toBe(false);
+    });
+
+    it('describes allowed endpoints', () => {
+      expect(registry.describeEndpoints('HAS_RATE')).toEqual(['Statute -> Rate']);
+      expect(registry.describeEndpoints('RELATED_TO')).toEqual(['any -> any']);
+    });
+  });
+});
+
+describe('GRAPH_SCHEMA', () => {
+  it('requires an id on every node label', () => {
+    for (const label of graphSchemaRegistry.nodeLabels) {
+      expect(GRAPH_SCHEMA.nodes[label as keyof typeof GRAPH_SCHEMA.nodes].properties).toHaveProperty('id.required', true);
+    }
+  });
+
+  it('only allows rates at the end of HAS_RATE', () => {
+    expect(graphSchemaRegistry.allowsEndpoints('HAS_RATE', 'Benefit', 'Rate')).toBe(true);
+    expect(graphSchemaRegistry.allowsEndpoints('HAS_RATE', 'Benefit', 'Section')).toBe(false);
+  });
+
+  it('allows the relationships written by the graph write service', () => {
+    expect(graphSchemaRegistry.allowsEndpoints('PART_OF', 'Region', 'Jurisdiction')).toBe(true);
+    expect(graphSchemaRegistry.allowsEndpoints('PART_OF', 'Section', 'Statute')).toBe(true);
+    expect(graphSchemaRegistry.allowsEndpoints('IN_JURISDICTION', 'ProfileTag', 'Jurisdiction')).toBe(true);
+    expect(graphSchemaRegistry.allowsEndpoints('HAS_ALT_LABEL', 'Concept', 'Label')).toBe(true);
+    expect(graphSchemaRegistry.allowsEndpoints('MERGED_INTO', 'Concept', 'Concept')).toBe(true);
+  });
+});
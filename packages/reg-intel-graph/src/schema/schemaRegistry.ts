@@ -0,0 +1,191 @@
+/**
+ * Graph Schema Registry
+ *
+ * Answers questions about a declared graph schema: which labels and
+ * relationship types exist, which properties a label allows and with what
+ * types, and which labels a relationship type may connect. The ingress guard
+ * validates every write against it.
+ */
+
+import { GRAPH_SCHEMA } from './graphSchema.js';
+import {
+  ANY_NODE_LABEL,
+  type GraphNodeDefinition,
+  type GraphPropertyDefinition,
+  type GraphRelationshipDefinition,
+  type GraphRelationshipEndpoints,
+  type GraphSchemaDefinition,
+} from './types.js';
+
+/**
+ * Problem with one property of a node write
+ */
+export interface GraphPropertyViolation {
+  property: string;
+  problem: 'not_allowed' | 'wrong_type' | 'missing';
+  /** Expected type or values, for wrong_type */
+  expected?: string;
+}
+
+export interface ValidateNodePropertiesOptions {
+  /** Report required properties that are absent (creates and merges) */
+  requireAll?: boolean;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Neo4j integers and temporal values read back from the graph are objects;
+ * they are accepted where a number or datetime is declared
+ */
+function isNeo4jInteger(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'low' in value && 'high' in value;
+}
+
+function isTemporalValue(value: unknown): boolean {
+  return (
+    value instanceof Date ||
+    (typeof value === 'object' && value !== null && 'year' in value && 'month' in value && 'day' in value)
+  );
+}
+
+function matchesType(definition: GraphPropertyDefinition, value: unknown): boolean {
+  switch (definition.type) {
+    case 'string':
+      return typeof value === 'string' && (!definition.values || definition.values.includes(value));
+    case 'number':
+      return (typeof value === 'number' && Number.isFinite(value)) || isNeo4jInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'datetime':
+      return (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) || isTemporalValue(value);
+  }
+}
+
+function describeType(definition: GraphPropertyDefinition): string {
+  return definition.values ? definition.values.join(' | ') : definition.type;
+}
+
+function endpointMatches(labels: GraphRelationshipEndpoints['from'], label: string): boolean {
+  return labels === ANY_NODE_LABEL || labels.includes(label);
+}
+
+function formatEndpointLabels(labels: GraphRelationshipEndpoints['from']): string {
+  return labels === ANY_NODE_LABEL ? 'any' : labels.join('|');
+}
+
+export class GraphSchemaRegistry {
+  readonly version: string;
+  readonly nodeLabels: readonly string[];
+  readonly relationshipTypes: readonly string[];
+
+  constructor(private readonly schema: GraphSchemaDefinition) {
+    this.version = schema.version;
+    this.nodeLabels = Object.keys(schema.nodes);
+    this.relationshipTypes = Object.keys(schema.relationships);
+  }
+
+  isNodeLabel(label: string): boolean {
+    return Object.hasOwn(this.schema.nodes, label);
+  }
+
+  isRelationshipType(relType: string): boolean {
+    return Object.hasOwn(this.schema.relationships, relType);
+  }
+
+  getNode(label: string): GraphNodeDefinition | undefined {
+    return this.isNodeLabel(label) ? this.schema.nodes[label] : undefined;
+  }
+
+  getRelationship(relType: string): GraphRelationshipDefinition | undefined {
+    return this.isRelationshipType(relType) ? this.schema.relationships[relType] : undefined;
+  }
+
+  /**
+   * Properties a node with this label may have, including universal ones;
+   * only universal properties for an unknown label
+   */
+  getAllowedProperties(label: string): string[] {
+    return [
+      ...Object.keys(this.getNode(label)?.properties ?? {}),
+      ...Object.keys(this.schema.universalProperties),
+    ];
+  }
+
+  /**
+   * Check properties written to a node: unknown properties first, then value
+   * types, then (with `requireAll`) missing required properties.
+   *
+   * Null values are removals and are only checked against the whitelist.
+   */
+  validateNodeProperties(
+    label: string,
+    properties: Record<string, unknown>,
+    options: ValidateNodePropertiesOptions = {},
+  ): GraphPropertyViolation[] {
+    const declared: Record<string, GraphPropertyDefinition> = {
+      ...(this.getNode(label)?.properties ?? {}),
+      ...this.schema.universalProperties,
+    };
+    const violations: GraphPropertyViolation[] = [];
+
+    for (const property of Object.keys(properties)) {
+      if (!Object.hasOwn(declared, property)) {
+        violations.push({ property, problem: 'not_allowed' });
+      }
+    }
+
+    for (const [property, value] of Object.entries(properties)) {
+      const definition = declared[property];
+      if (definition && value !== null && value !== undefined && !matchesType(definition, value)) {
+        violations.push({ property, problem: 'wrong_type', expected: describeType(definition) });
+      }
+    }
+
+    if (options.requireAll) {
+      for (const [property, definition] of Object.entries(declared)) {
+        if (definition.required && (properties[property] === undefined || properties[property] === null)) {
+          violations.push({ property, problem: 'missing' });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Whether a relationship of this type may go from `fromLabel` to `toLabel`
+   */
+  allowsEndpoints(relType: string, fromLabel: string, toLabel: string): boolean {
+    const relationship = this.getRelationship(relType);
+    if (!relationship || !this.isNodeLabel(fromLabel) || !this.isNodeLabel(toLabel)) {
+      return false;
+    }
+    return relationship.endpoints.some(
+      endpoints => endpointMatches(endpoints.from, fromLabel) && endpointMatches(endpoints.to, toLabel),
+    );
+  }
+
+  /**
+   * Allowed endpoints of a relationship type, e.g. `Benefit|Relief -> Rate`
+   */
+  describeEndpoints(relType: string): string[] {
+    return (this.getRelationship(relType)?.endpoints ?? []).map(
+      endpoints => `${formatEndpointLabels(endpoints.from)} -> ${formatEndpointLabels(endpoints.to)}`,
+    );
+  }
+}
+
+/**
+ * Create a registry for a schema (default: the global graph schema)
+ */
+export function createGraphSchemaRegistry(schema: GraphSchemaDefinition = GRAPH_SCHEMA): GraphSchemaRegistry {
+  return new GraphSchemaRegistry(schema);
+}
+
+/**
+ * Registry for the global graph schema
+ */
+export const graphSchemaRegistry = createGraphSchemaRegistry();
@@ -0,0 +1,114 @@
+/**
+ * Graph Schema Types
+ *
+ * Shapes of the declarative graph schema (node labels with typed properties,
+ * relationship types with allowed endpoints) and the TypeScript types derived
+ * from it.
+ */
+
+/**
+ * Value type of a node property
+ *
+ * `datetime` is an ISO-8601 date or date-time string (or a Memgraph temporal
+ * value read back from the graph).
+ */
+export type GraphPropertyType = 'string' | 'number' | 'boolean' | 'string[]' | 'datetime';
+
+/**
+ * Memgraph index category a property is indexed under
+ */
+export type GraphIndexKind = 'timestamp' | 'filter' | 'search';
+
+export interface GraphPropertyDefinition {
+  type: GraphPropertyType;
+  /** Must be present when a node is created or merged */
+  required?: boolean;
+  /** Allowed values for a string property */
+  values?: readonly string[];
+  /** Index the property in Memgraph under this category */
+  index?: GraphIndexKind;
+}
+
+export interface GraphNodeDefinition {
+  description: string;
+  properties: Readonly<Record<string, GraphPropertyDefinition>>;
+}
+
+/**
+ * Matches any node label in a relationship endpoint
+ */
+export const ANY_NODE_LABEL = '*';
+
+/**
+ * One allowed combination of start and end labels for a relationship type;
+ * every label in `from` may connect to every label in `to`
+ */
+export interface GraphRelationshipEndpoints<TLabel extends string = string> {
+  from: readonly TLabel[] | typeof ANY_NODE_LABEL;
+  to: readonly TLabel[] | typeof ANY_NODE_LABEL;
+}
+
+export interface GraphRelationshipDefinition<TLabel extends string = string> {
+  description: string;
+  endpoints: readonly GraphRelationshipEndpoints<TLabel>[];
+}
+
+export interface GraphSchemaDefinition<
+  TNodes extends Readonly<Record<string, GraphNodeDefinition>> = Readonly<Record<string, GraphNodeDefinition>>,
+  TRelationships extends Readonly<Record<string, GraphRelationshipDefinition>> = Readonly<
+    Record<string, GraphRelationshipDefinition>
+  >,
+> {
+  version: string;
+  /** Properties allowed on every node, e.g. ones written by graph algorithms */
+  universalProperties: Readonly<Record<string, GraphPropertyDefinition>>;
+  nodes: TNodes;
+  relationships: TRelationships;
+}
+
+/**
+ * Declare a graph schema, checking that relationship endpoints only name
+ * declared node labels and keeping literal types for the derived types
+ */
+export function defineGraphSchema<
+  const TNodes extends Readonly<Record<string, GraphNodeDefinition>>,
+  const TRelationships extends Readonly<
+    Record<string, GraphRelationshipDefinition<Extract<keyof TNodes, string>>>
+  >,
+>(schema: GraphSchemaDefinition<TNodes, TRelationships>): GraphSchemaDefinition<TNodes, TRelationships> {
+  return schema;
+}
+
+/**
+ * TypeScript type of a property value
+ */
+export type GraphPropertyValue<TProperty extends GraphPropertyDefinition> =
+  TProperty['values'] extends readonly (infer TValue)[]
+    ? TValue
+    : TProperty['type'] extends 'number'
+      ? number
+      : TProperty['type'] extends 'boolean'
+        ? boolean
+        : TProperty['type'] extends 'string[]'
+          ? string[]
+          : string;
+
+type RequiredPropertyKeys<TProperties extends Readonly<Record<string, GraphPropertyDefinition>>> = {
+  [K in keyof TProperties]: TProperties[K]['required'] extends true ? K : never;
+}[keyof TProperties];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * TypeScript type of a node's properties: required properties are mandatory,
+ * the rest optional
+ */
+export type GraphNodePropertiesOf<TNode extends GraphNodeDefinition> = Simplify<
+  {
+    [K in RequiredPropertyKeys<TNode['properties']>]: GraphPropertyValue<TNode['properties'][K]>;
+  } & {
+    [K in Exclude<keyof TNode['properties'], RequiredPropertyKeys<TNode['properties']>>]?: GraphPropertyValue<
+      TNode['properties'][K]
+    >;
+  }
+>;
@@ -0,0 +1,297 @@
+// Seed data for Irish Capital Gains Tax (CGT) and investors
+// This file contains the investor profile, CGT reliefs, holding-period
+// timelines (deemed disposal, share matching) and CGT filing/payment obligations.
+// Depends on asset_classes.cypher, thresholds_rates.cypher and tax_years.cypher.
+
+// ============================================================================
+// INVESTOR PROFILE
+// ============================================================================
+
+MERGE (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+SET p.label = 'Investor (Ireland)',
+    p.description = 'Individual holding shares, funds, property or crypto-assets in Ireland';
+
+// ============================================================================
+// INVESTMENT FUND ASSET CLASS (EXIT TAX / DEEMED DISPOSAL)
+// ============================================================================
+
+MERGE (ac:AssetClass {id: 'IE_ASSET_INVESTMENT_FUNDS'})
+SET ac.label = 'Investment Funds and ETFs',
+    ac.category = 'OTHER',
+    ac.sub_category = 'INVESTMENT_FUND',
+    ac.tangible = false,
+    ac.cgt_applicable = false,
+    ac.cat_applicable = true,
+    ac.stamp_duty_applicable = false,
+    ac.description = 'Irish-domiciled and EU/EEA funds and ETFs taxed under the gross roll-up (exit tax) regime rather than CGT',
+    ac.created_at = localdatetime(),
+    ac.updated_at = localdatetime()
+
+WITH ac
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (ac)-[:IN_JURISDICTION]->(j);
+
+// ============================================================================
+// RATES
+// ============================================================================
+
+// Entrepreneur Relief reduced CGT rate
+MERGE (r:Rate {id: 'IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024'})
+SET r.label = 'Entrepreneur Relief CGT Rate',
+    r.percentage = 10,
+    r.band_upper = 1000000,
+    r.currency = 'EUR',
+    r.category = 'CGT',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Exit tax on investment funds
+MERGE (r:Rate {id: 'IE_EXIT_TAX_RATE_2024'})
+SET r.label = 'Exit Tax Rate (Investment Funds)',
+    r.percentage = 41,
+    r.currency = 'EUR',
+    r.category = 'EXIT_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j)
+
+WITH r
+MATCH (ac:AssetClass {id: 'IE_ASSET_INVESTMENT_FUNDS'})
+MERGE (ac)-[:HAS_EXIT_TAX_RATE]->(r);
+
+// Link CGT rates and the annual exemption to tax year 2024
+MATCH (n) WHERE n.id IN ['IE_CGT_RATE_2024', 'IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024', 'IE_EXIT_TAX_RATE_2024', 'IE_CGT_ANNUAL_EXEMPTION_2024']
+MATCH (ty:TaxYear {id: 'IE_TAX_YEAR_2024'})
+MERGE (n)-[:APPLIES_IN_YEAR]->(ty);
+
+// ============================================================================
+// HOLDING-PERIOD TIMELINES
+// ============================================================================
+
+// Deemed disposal of fund units every 8 years
+MERGE (t:Timeline {id: 'IE_CGT_DEEMED_DISPOSAL_8Y'})
+SET t.label = 'Deemed disposal every 8 years',
+    t.window_years = 8,
+    t.kind = 'LOCK_IN',
+    t.notes = 'Exit tax is charged on the gain as if the units were sold on each 8th anniversary of acquisition'
+
+WITH t
+MATCH (ac:AssetClass {id: 'IE_ASSET_INVESTMENT_FUNDS'})
+MERGE (ac)-[:LOCKS_IN_FOR_PERIOD]->(t);
+
+// Four-week share matching rule (bed and breakfasting)
+MERGE (t:Timeline {id: 'IE_CGT_SHARE_MATCHING_4W'})
+SET t.label = 'Four-week share matching rule',
+    t.window_days = 28,
+    t.kind = 'LOOKBACK',
+    t.notes = 'Losses on shares are only available against the re-acquired shares if the same class is bought back within 4 weeks'
+
+WITH t
+MATCH (ac:AssetClass) WHERE ac.id IN ['IE_ASSET_SHARES_QUOTED', 'IE_ASSET_SHARES_UNQUOTED']
+MERGE (ac)-[:LOOKBACK_WINDOW]->(t);
+
+// Entrepreneur Relief minimum ownership period
+MERGE (t:Timeline {id: 'IE_CGT_ENTREPRENEUR_OWNERSHIP_3Y'})
+SET t.label = 'Three years continuous ownership',
+    t.window_years = 3,
+    t.kind = 'LOOKBACK',
+    t.notes = 'Qualifying business assets must have been owned for 3 continuous years in the 5 years before disposal';
+
+// Principal Private Residence final period of ownership
+MERGE (t:Timeline {id: 'IE_CGT_PPR_FINAL_12M'})
+SET t.label = 'Final 12 months of ownership',
+    t.window_months = 12,
+    t.kind = 'LOOKBACK',
+    t.notes = 'The last 12 months of ownership are treated as occupied for Principal Private Residence Relief';
+
+// ============================================================================
+// CGT RELIEFS
+// ============================================================================
+
+MERGE (r:Relief {id: 'IE_CGT_RELIEF_ENTREPRENEUR'})
+SET r.label = 'Revised Entrepreneur Relief',
+    r.name = 'Revised Entrepreneur Relief',
+    r.short_summary = '10% CGT on gains up to a €1m lifetime limit on disposals of qualifying business assets',
+    r.description = 'Reduced CGT rate for individuals disposing of a qualifying business they have owned and worked in',
+    r.tax_type = 'CGT',
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j)
+
+WITH r
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (r)-[:APPLIES_TO]->(p)
+
+WITH r
+MATCH (t:Timeline {id: 'IE_CGT_ENTREPRENEUR_OWNERSHIP_3Y'})
+MERGE (r)-[:LOOKBACK_WINDOW]->(t)
+
+WITH r
+MATCH (rate:Rate {id: 'IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024'})
+MERGE (r)-[:HAS_RATE]->(rate);
+
+MERGE (r:Relief {id: 'IE_CGT_RELIEF_PPR'})
+SET r.label = 'Principal Private Residence Relief',
+    r.name = 'Principal Private Residence Relief',
+    r.short_summary = 'Full or partial CGT exemption on the disposal of your main home',
+    r.description = 'Gains on a home occupied as your only or main residence are exempt, apportioned for periods of non-occupation',
+    r.tax_type = 'CGT',
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j)
+
+WITH r
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (r)-[:APPLIES_TO]->(p)
+
+WITH r
+MATCH (t:Timeline {id: 'IE_CGT_PPR_FINAL_12M'})
+MERGE (r)-[:LOOKBACK_WINDOW]->(t)
+
+WITH r
+MATCH (ac:AssetClass {id: 'IE_ASSET_RESIDENTIAL_PROPERTY'})
+MERGE (r)-[:APPLIES_TO_ASSET]->(ac);
+
+MERGE (r:Relief {id: 'IE_CGT_RELIEF_LOSSES'})
+SET r.label = 'CGT Loss Relief',
+    r.name = 'CGT Loss Relief',
+    r.short_summary = 'Allowable losses are set against gains of the same year and carried forward indefinitely',
+    r.description = 'Capital losses reduce chargeable gains before the annual exemption is applied; unused losses carry forward',
+    r.tax_type = 'CGT',
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j)
+
+WITH r
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (r)-[:APPLIES_TO]->(p)
+
+WITH r
+MATCH (t:Timeline {id: 'IE_CGT_SHARE_MATCHING_4W'})
+MERGE (r)-[:LIMITED_BY]->(t);
+
+// Entrepreneur Relief and PPR cannot be claimed on the same disposal
+MATCH (a:Relief {id: 'IE_CGT_RELIEF_ENTREPRENEUR'})
+MATCH (b:Relief {id: 'IE_CGT_RELIEF_PPR'})
+MERGE (a)-[:MUTUALLY_EXCLUSIVE_WITH]->(b);
+
+// ============================================================================
+// CGT FILING AND PAYMENT OBLIGATIONS
+// ============================================================================
+
+// Initial period payment (gains 1 January - 30 November)
+MERGE (o:Obligation {id: 'IE_CGT_PAYMENT_INITIAL_PERIOD'})
+SET o.label = 'CGT Payment - Initial Period',
+    o.category = 'PAYMENT',
+    o.frequency = 'ANNUAL',
+    o.penalty_applies = true,
+    o.description = 'CGT on gains made between 1 January and 30 November is payable by 15 December of the same year',
+    o.created_at = localdatetime(),
+    o.updated_at = localdatetime()
+
+WITH o
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (o)-[:IN_JURISDICTION]->(j)
+
+WITH o
+MERGE (t:Timeline {id: 'IE_CGT_PAYMENT_INITIAL_DEADLINE'})
+SET t.label = '15 December of the year of disposal',
+    t.window_months = 11,
+    t.day_of_month = 15,
+    t.anchor = 'TAX_YEAR_START',
+    t.kind = 'DEADLINE'
+MERGE (o)-[:FILING_DEADLINE]->(t)
+
+WITH o
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (p)-[:HAS_OBLIGATION]->(o);
+
+// Later period payment (gains 1 December - 31 December)
+MERGE (o:Obligation {id: 'IE_CGT_PAYMENT_LATER_PERIOD'})
+SET o.label = 'CGT Payment - Later Period',
+    o.category = 'PAYMENT',
+    o.frequency = 'ANNUAL',
+    o.penalty_applies = true,
+    o.description = 'CGT on gains made in December is payable by 31 January of the following year',
+    o.created_at = localdatetime(),
+    o.updated_at = localdatetime()
+
+WITH o
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (o)-[:IN_JURISDICTION]->(j)
+
+WITH o
+MERGE (t:Timeline {id: 'IE_CGT_PAYMENT_LATER_DEADLINE'})
+SET t.label = '31 January of the following year',
+    t.window_months = 1,
+    t.day_of_month = 31,
+    t.anchor = 'TAX_YEAR_END',
+    t.kind = 'DEADLINE'
+MERGE (o)-[:FILING_DEADLINE]->(t)
+
+WITH o
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (p)-[:HAS_OBLIGATION]->(o);
+
+// CGT return (Form CG1, or Form 11/12 for chargeable persons)
+MERGE (o:Obligation {id: 'IE_CGT_RETURN_FILING'})
+SET o.label = 'Capital Gains Tax Return (CG1)',
+    o.category = 'FILING',
+    o.frequency = 'ANNUAL',
+    o.penalty_applies = true,
+    o.description = 'Chargeable gains must be returned by 31 October of the year after disposal, on Form CG1 or within Form 11/12',
+    o.created_at = localdatetime(),
+    o.updated_at = localdatetime()
+
+WITH o
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (o)-[:IN_JURISDICTION]->(j)
+
+WITH o
+MERGE (t:Timeline {id: 'IE_CGT_RETURN_DEADLINE'})
+SET t.label = '31 October of the year after disposal',
+    t.window_months = 10,
+    t.day_of_month = 31,
+    t.anchor = 'TAX_YEAR_END',
+    t.kind = 'DEADLINE'
+MERGE (o)-[:FILING_DEADLINE]->(t)
+
+WITH o
+MATCH (p:ProfileTag {id: 'PROFILE_INVESTOR_IE'})
+MERGE (p)-[:HAS_OBLIGATION]->(o);
+
+MERGE (f:Form {id: 'IE_REVENUE_FORM_CG1'})
+SET f.label = 'Capital Gains Tax Return (CG1)',
+    f.issuing_body = 'Revenue',
+    f.form_number = 'CG1',
+    f.source_url = 'https://www.revenue.ie/en/gains-gifts-and-inheritance/transfering-an-asset/how-to-pay-and-file-cgt.aspx',
+    f.category = 'TAX',
+    f.online_only = false,
+    f.created_at = localdatetime(),
+    f.updated_at = localdatetime()
+
+WITH f
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (f)-[:IN_JURISDICTION]->(j)
+
+WITH f
+MATCH (o:Obligation {id: 'IE_CGT_RETURN_FILING'})
+MERGE (o)-[:REQUIRES_FORM]->(f);
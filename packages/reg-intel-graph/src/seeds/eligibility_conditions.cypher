@@ -0,0 +1,114 @@
+// ============================================================================
+// MACHINE-EVALUABLE ELIGIBILITY CONDITIONS
+// Depends on the benefits and IE_PRSI_12_MONTH_LOOKBACK created by seed-graph.ts
+//
+// Conditions carry `fact`, `operator` and `value` so the eligibility evaluator
+// in reg-intel-core can test them against a user's facts. Conditions without an
+// operator are decided by their HAS_THRESHOLD thresholds (ABOVE = minimum,
+// BELOW = maximum).
+// ============================================================================
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+MERGE (c:Condition {id: 'IE_COND_PRSI_104_PAID'})
+SET c.label = 'Minimum 104 paid PRSI contributions',
+    c.description = 'At least 104 weeks of PRSI contributions paid since first starting work',
+    c.category = 'PRSI',
+    c.fact = 'contributionsPaid',
+    c.operator = '>=',
+    c.value = 104,
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (c:Condition {id: 'IE_COND_PRSI_39_RECENT'})
+SET c.label = '39 contributions in the relevant period',
+    c.description = 'At least 39 weeks of PRSI contributions paid or credited in the lookback window',
+    c.category = 'PRSI',
+    c.fact = 'contributions',
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (t:Threshold {id: 'IE_THRESHOLD_PRSI_39_WEEKS'})
+SET t.label = '39 weeks of contributions',
+    t.value = 39,
+    t.unit = 'WEEKS',
+    t.direction = 'ABOVE',
+    t.category = 'PRSI',
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (c:Condition {id: 'IE_COND_PRSI_39_RECENT'})
+MERGE (c)-[:HAS_THRESHOLD]->(t);
+
+MERGE (c:Condition {id: 'IE_COND_PRSI_CLASS_S'})
+SET c.label = 'PRSI Class S contributor',
+    c.description = 'Contributions must be paid at Class S (self-employed and proprietary directors)',
+    c.category = 'PRSI',
+    c.fact = 'prsiClass',
+    c.operator = 'IN',
+    c.value = ['S'],
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (c:Condition {id: 'IE_COND_PRSI_CLASS_ILLNESS'})
+SET c.label = 'PRSI class covering Illness Benefit',
+    c.description = 'Contributions must be paid at Class A, H, P or S',
+    c.category = 'PRSI',
+    c.fact = 'prsiClass',
+    c.operator = 'IN',
+    c.value = ['A', 'H', 'P', 'S'],
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (c:Condition {id: 'IE_COND_UNDER_PENSION_AGE'})
+SET c.label = 'Under State Pension age',
+    c.description = 'Claimant must be under 66',
+    c.category = 'AGE',
+    c.fact = 'age',
+    c.operator = '<',
+    c.value = 66,
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (c:Condition {id: 'IE_COND_PENSION_AGE'})
+SET c.label = 'State Pension age reached',
+    c.description = 'Claimant must be 66 or over',
+    c.category = 'AGE',
+    c.fact = 'age',
+    c.operator = '>=',
+    c.value = 66,
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+MERGE (c:Condition {id: 'IE_COND_PRSI_520_PAID'})
+SET c.label = 'Minimum 520 paid PRSI contributions',
+    c.description = 'At least 520 weeks (10 years) of full-rate PRSI contributions paid',
+    c.category = 'PRSI',
+    c.fact = 'contributionsPaid',
+    c.operator = '>=',
+    c.value = 520,
+    c.created_at = localdatetime(),
+    c.updated_at = localdatetime();
+
+// ============================================================================
+// BENEFIT REQUIREMENTS
+// ============================================================================
+
+MATCH (b:Benefit {id: 'IE_BENEFIT_JOBSEEKERS_SE'}), (c:Condition)
+WHERE c.id IN ['IE_COND_PRSI_104_PAID', 'IE_COND_PRSI_39_RECENT', 'IE_COND_PRSI_CLASS_S', 'IE_COND_UNDER_PENSION_AGE']
+MERGE (b)-[:REQUIRES]->(c);
+
+MATCH (b:Benefit {id: 'IE_BENEFIT_ILLNESS'}), (c:Condition)
+WHERE c.id IN ['IE_COND_PRSI_104_PAID', 'IE_COND_PRSI_39_RECENT', 'IE_COND_PRSI_CLASS_ILLNESS', 'IE_COND_UNDER_PENSION_AGE']
+MERGE (b)-[:REQUIRES]->(c);
+
+MATCH (b:Benefit {id: 'IE_BENEFIT_STATE_PENSION_CONTRIBUTORY'}), (c:Condition)
+WHERE c.id IN ['IE_COND_PENSION_AGE', 'IE_COND_PRSI_520_PAID']
+MERGE (b)-[:REQUIRES]->(c);
+
+// Jobseeker's Benefit and Illness Benefit cannot be paid for the same period
+MATCH (jb:Benefit {id: 'IE_BENEFIT_JOBSEEKERS_SE'}), (ib:Benefit {id: 'IE_BENEFIT_ILLNESS'})
+MERGE (jb)-[:EXCLUDES {reason: 'Cannot be paid for the same period'}]->(ib);
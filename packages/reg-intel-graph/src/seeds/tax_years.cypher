@@ -41,29 +41,56 @@ WITH ty
 MATCH (j:Jurisdiction {id: 'IE'})
 MERGE (ty)-[:IN_JURISDICTION]->(j);
 
+// ============================================================================
+// TAX YEARS (UK, 6 April to 5 April)
+// ============================================================================
+
+// Tax Year 2024/25
+MERGE (ty:TaxYear {id: 'UK_TAX_YEAR_2024'})
+SET ty.year = 2024,
+    ty.start_date = '2024-04-06',
+    ty.end_date = '2025-04-05',
+    ty.jurisdiction = 'UK',
+    ty.created_at = localdatetime(),
+    ty.updated_at = localdatetime()
+
+WITH ty
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (ty)-[:IN_JURISDICTION]->(j);
+
 // ============================================================================
 // LINK RATES TO TAX YEARS
 // ============================================================================
 
 // Link 2024 rates to tax year 2024
-MATCH (r:Rate) WHERE r.id CONTAINS '2024'
+MATCH (r:Rate) WHERE r.id STARTS WITH 'IE_' AND r.id CONTAINS '2024'
 MATCH (ty:TaxYear {id: 'IE_TAX_YEAR_2024'})
 MERGE (r)-[:APPLIES_IN_YEAR]->(ty);
 
+// Link 2024/25 rates to UK tax year 2024 (uk_tax_rates.cypher)
+MATCH (r:Rate) WHERE r.id STARTS WITH 'UK_' AND r.id CONTAINS '2024'
+MATCH (ty:TaxYear {id: 'UK_TAX_YEAR_2024'})
+MERGE (r)-[:APPLIES_IN_YEAR]->(ty);
+
 // ============================================================================
 // LINK THRESHOLDS TO TAX YEARS
 // ============================================================================
 
 // Link 2024 thresholds to tax year 2024
-MATCH (t:Threshold) WHERE t.id CONTAINS '2024'
+MATCH (t:Threshold) WHERE t.id STARTS WITH 'IE_' AND t.id CONTAINS '2024'
 MATCH (ty:TaxYear {id: 'IE_TAX_YEAR_2024'})
 MERGE (t)-[:APPLIES_IN_YEAR]->(ty);
 
+// Link 2024/25 thresholds to UK tax year 2024
+MATCH (t:Threshold) WHERE t.id STARTS WITH 'UK_' AND t.id CONTAINS '2024'
+MATCH (ty:TaxYear {id: 'UK_TAX_YEAR_2024'})
+MERGE (t)-[:APPLIES_IN_YEAR]->(ty);
+
 // ============================================================================
 // LINK TAX CREDITS TO TAX YEARS
 // ============================================================================
 
 // Link 2024 tax credits to tax year 2024
-MATCH (c:TaxCredit) WHERE c.id CONTAINS '2024'
+MATCH (c:TaxCredit) WHERE c.id STARTS WITH 'IE_' AND c.id CONTAINS '2024'
 MATCH (ty:TaxYear {id: 'IE_TAX_YEAR_2024'})
 MERGE (c)-[:APPLIES_IN_YEAR]->(ty);
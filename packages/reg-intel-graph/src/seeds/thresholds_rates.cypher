@@ -56,6 +56,7 @@ SET r.label = 'Standard Rate Income Tax',
     r.band_lower = 0,
     r.band_upper = 42000,
     r.currency = 'EUR',
+    r.personal_status = 'SINGLE',
     r.category = 'INCOME_TAX',
     r.effective_from = datetime('2024-01-01T00:00:00'),
     r.created_at = localdatetime(),
@@ -71,6 +72,72 @@ SET r.label = 'Higher Rate Income Tax',
     r.percentage = 40,
     r.band_lower = 42000,
     r.currency = 'EUR',
+    r.personal_status = 'SINGLE',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Income Tax bands for a married couple or civil partners with one income
+// (with two incomes the standard band rises by the lower income, up to €33,000)
+MERGE (r:Rate {id: 'IE_INCOME_TAX_STANDARD_MARRIED_2024'})
+SET r.label = 'Standard Rate Income Tax (Married or Civil Partners)',
+    r.percentage = 20,
+    r.band_lower = 0,
+    r.band_upper = 51000,
+    r.currency = 'EUR',
+    r.personal_status = 'MARRIED',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+MERGE (r:Rate {id: 'IE_INCOME_TAX_HIGHER_MARRIED_2024'})
+SET r.label = 'Higher Rate Income Tax (Married or Civil Partners)',
+    r.percentage = 40,
+    r.band_lower = 51000,
+    r.currency = 'EUR',
+    r.personal_status = 'MARRIED',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Income Tax bands for a one-parent family
+MERGE (r:Rate {id: 'IE_INCOME_TAX_STANDARD_ONE_PARENT_2024'})
+SET r.label = 'Standard Rate Income Tax (One-Parent Family)',
+    r.percentage = 20,
+    r.band_lower = 0,
+    r.band_upper = 46000,
+    r.currency = 'EUR',
+    r.personal_status = 'ONE_PARENT',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+MERGE (r:Rate {id: 'IE_INCOME_TAX_HIGHER_ONE_PARENT_2024'})
+SET r.label = 'Higher Rate Income Tax (One-Parent Family)',
+    r.percentage = 40,
+    r.band_lower = 46000,
+    r.currency = 'EUR',
+    r.personal_status = 'ONE_PARENT',
     r.category = 'INCOME_TAX',
     r.effective_from = datetime('2024-01-01T00:00:00'),
     r.created_at = localdatetime(),
@@ -100,6 +167,7 @@ SET r.label = 'PRSI Class S Rate',
     r.percentage = 4,
     r.currency = 'EUR',
     r.category = 'PRSI',
+    r.contribution_class = 'S',
     r.effective_from = datetime('2024-01-01T00:00:00'),
     r.created_at = localdatetime(),
     r.updated_at = localdatetime()
@@ -135,3 +203,213 @@ SET r.label = 'VAT Reduced Rate',
 WITH r
 MATCH (j:Jurisdiction {id: 'IE'})
 MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === CALCULATOR RATES ===
+// Read by the tax calculator tools (reg-intel-llm) through getRatesForTaxYear.
+// Banded rates apply to the slice of income between band_lower and band_upper.
+
+// USC Exemption Threshold (no USC if total income is at or below it)
+MERGE (t:Threshold {id: 'IE_USC_EXEMPTION_THRESHOLD_2024'})
+SET t.label = 'USC Exemption Threshold',
+    t.value = 13000,
+    t.unit = 'EUR',
+    t.direction = 'BELOW',
+    t.category = 'USC',
+    t.effective_from = datetime('2024-01-01T00:00:00'),
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (t)-[:IN_JURISDICTION]->(j);
+
+// USC Band 1
+MERGE (r:Rate {id: 'IE_USC_BAND_1_2024'})
+SET r.label = 'USC Band 1',
+    r.percentage = 0.5,
+    r.band_lower = 0,
+    r.band_upper = 12012,
+    r.currency = 'EUR',
+    r.category = 'USC',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// USC Band 2
+MERGE (r:Rate {id: 'IE_USC_BAND_2_2024'})
+SET r.label = 'USC Band 2',
+    r.percentage = 2,
+    r.band_lower = 12012,
+    r.band_upper = 25760,
+    r.currency = 'EUR',
+    r.category = 'USC',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// USC Band 3
+MERGE (r:Rate {id: 'IE_USC_BAND_3_2024'})
+SET r.label = 'USC Band 3',
+    r.percentage = 4,
+    r.band_lower = 25760,
+    r.band_upper = 70044,
+    r.currency = 'EUR',
+    r.category = 'USC',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// USC Band 4
+MERGE (r:Rate {id: 'IE_USC_BAND_4_2024'})
+SET r.label = 'USC Band 4',
+    r.percentage = 8,
+    r.band_lower = 70044,
+    r.currency = 'EUR',
+    r.category = 'USC',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// PRSI Class A (employee share; rose from 4% to 4.1% on 1 October 2024)
+MERGE (r:Rate {id: 'IE_PRSI_CLASS_A_2024'})
+SET r.label = 'PRSI Class A Employee Rate',
+    r.percentage = 4,
+    r.currency = 'EUR',
+    r.category = 'PRSI',
+    r.contribution_class = 'A',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.effective_to = datetime('2024-09-30T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// PRSI Class A from October 2024
+MERGE (r:Rate {id: 'IE_PRSI_CLASS_A_OCT_2024'})
+SET r.label = 'PRSI Class A Employee Rate (from October)',
+    r.percentage = 4.1,
+    r.currency = 'EUR',
+    r.category = 'PRSI',
+    r.contribution_class = 'A',
+    r.effective_from = datetime('2024-10-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Corporation Tax on trading income
+MERGE (r:Rate {id: 'IE_CORPORATION_TAX_TRADING_2024'})
+SET r.label = 'Corporation Tax Trading Rate',
+    r.percentage = 12.5,
+    r.currency = 'EUR',
+    r.category = 'CORPORATION_TAX',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Employer PRSI Class A (higher rate, on all earnings; rose to 11.15% in October 2024)
+MERGE (r:Rate {id: 'IE_PRSI_EMPLOYER_CLASS_A_2024'})
+SET r.label = 'Employer PRSI Class A',
+    r.percentage = 11.05,
+    r.currency = 'EUR',
+    r.category = 'PRSI_EMPLOYER',
+    r.contribution_class = 'A',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.effective_to = datetime('2024-09-30T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Employer PRSI Class A from October 2024
+MERGE (r:Rate {id: 'IE_PRSI_EMPLOYER_CLASS_A_OCT_2024'})
+SET r.label = 'Employer PRSI Class A',
+    r.percentage = 11.15,
+    r.currency = 'EUR',
+    r.category = 'PRSI_EMPLOYER',
+    r.contribution_class = 'A',
+    r.effective_from = datetime('2024-10-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Illness Benefit Maximum Personal Rate (weekly)
+MERGE (r:Rate {id: 'IE_ILLNESS_BENEFIT_RATE_2024'})
+SET r.label = 'Illness Benefit Maximum Personal Rate (weekly)',
+    r.flat_amount = 232,
+    r.currency = 'EUR',
+    r.category = 'ILLNESS_BENEFIT',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Jobseeker's Benefit (Self-Employed) Maximum Personal Rate (weekly)
+MERGE (r:Rate {id: 'IE_JOBSEEKERS_BENEFIT_SE_RATE_2024'})
+SET r.label = 'Jobseeker\'s Benefit (Self-Employed) Maximum Personal Rate (weekly)',
+    r.flat_amount = 232,
+    r.currency = 'EUR',
+    r.category = 'JOBSEEKERS_BENEFIT',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// State Pension (Contributory) Maximum Personal Rate (weekly)
+MERGE (r:Rate {id: 'IE_STATE_PENSION_CONTRIBUTORY_RATE_2024'})
+SET r.label = 'State Pension (Contributory) Maximum Personal Rate (weekly)',
+    r.flat_amount = 277.3,
+    r.currency = 'EUR',
+    r.category = 'STATE_PENSION_CONTRIBUTORY',
+    r.effective_from = datetime('2024-01-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'IE'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Benefit rates (flat amounts are weekly); the benefits are created by scripts/seed-graph.ts
+MATCH (b:Benefit {id: 'IE_BENEFIT_ILLNESS'}), (r:Rate {id: 'IE_ILLNESS_BENEFIT_RATE_2024'})
+MERGE (b)-[:HAS_RATE]->(r);
+
+MATCH (b:Benefit {id: 'IE_BENEFIT_JOBSEEKERS_SE'}), (r:Rate {id: 'IE_JOBSEEKERS_BENEFIT_SE_RATE_2024'})
+MERGE (b)-[:HAS_RATE]->(r);
+
+MATCH (b:Benefit {id: 'IE_BENEFIT_STATE_PENSION_CONTRIBUTORY'}), (r:Rate {id: 'IE_STATE_PENSION_CONTRIBUTORY_RATE_2024'})
+MERGE (b)-[:HAS_RATE]->(r);
@@ -0,0 +1,196 @@
+// ============================================================================
+// UK SOCIAL SECURITY BENEFITS, MEANS TESTS AND POSTED WORKERS
+// Depends on ni_classes.cypher and benefit_caps.cypher
+// ============================================================================
+
+// ============================================================================
+// UK PROFILE TAGS
+// ============================================================================
+
+MERGE (p:ProfileTag {id: 'PROFILE_PAYE_EMPLOYEE_UK'})
+SET p.label = 'PAYE Employee (UK)',
+    p.description = 'Employee paying Class 1 National Insurance through PAYE';
+
+MERGE (p:ProfileTag {id: 'PROFILE_SELF_EMPLOYED_UK'})
+SET p.label = 'Self-Employed (UK)',
+    p.description = 'Self-employed person paying Class 2 and Class 4 National Insurance';
+
+MERGE (p:ProfileTag {id: 'PROFILE_SINGLE_DIRECTOR_UK'})
+SET p.label = 'Single Director (UK)',
+    p.description = 'Director of their own limited company, paying Class 1 National Insurance as an employee of the company';
+
+// NI classes for each profile
+MATCH (p:ProfileTag), (ni:NIClass {id: 'UK_NI_CLASS_1'})
+WHERE p.id IN ['PROFILE_PAYE_EMPLOYEE_UK', 'PROFILE_SINGLE_DIRECTOR_UK']
+MERGE (p)-[:HAS_NI_CLASS]->(ni);
+
+MATCH (p:ProfileTag {id: 'PROFILE_SELF_EMPLOYED_UK'}), (ni2:NIClass {id: 'UK_NI_CLASS_2'}), (ni4:NIClass {id: 'UK_NI_CLASS_4'})
+MERGE (p)-[:HAS_NI_CLASS]->(ni2)
+MERGE (p)-[:HAS_NI_CLASS]->(ni4);
+
+// ============================================================================
+// UK BENEFITS
+// ============================================================================
+
+// Universal Credit (means-tested, subject to the benefit cap)
+MERGE (b:Benefit {id: 'UK_BENEFIT_UNIVERSAL_CREDIT'})
+SET b.label = 'Universal Credit',
+    b.name = 'Universal Credit',
+    b.category = 'MEANS_TESTED',
+    b.short_summary = 'Monthly means-tested payment for people on low income or out of work',
+    b.description = 'Replaces six legacy benefits; assessed on household income and capital',
+    b.ni_classes = [],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// New Style Jobseeker's Allowance (contributory)
+MERGE (b:Benefit {id: 'UK_BENEFIT_JOBSEEKERS_NEW_STYLE'})
+SET b.label = 'New Style Jobseeker\'s Allowance',
+    b.name = 'New Style Jobseeker\'s Allowance',
+    b.category = 'SOCIAL_INSURANCE',
+    b.short_summary = 'Contribution-based allowance for up to 182 days while looking for work',
+    b.description = 'Requires Class 1 contributions in one of the 2 tax years before the claim year; not available on Class 2 alone',
+    b.ni_classes = ['UK_NI_CLASS_1'],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// New State Pension (contributory)
+MERGE (b:Benefit {id: 'UK_BENEFIT_STATE_PENSION'})
+SET b.label = 'New State Pension',
+    b.name = 'New State Pension',
+    b.category = 'SOCIAL_INSURANCE',
+    b.short_summary = 'Full pension with 35 qualifying years, minimum of 10 qualifying years',
+    b.description = 'Qualifying years are built from Class 1, Class 2, Class 3 contributions or NI credits',
+    b.ni_classes = ['UK_NI_CLASS_1', 'UK_NI_CLASS_2', 'UK_NI_CLASS_3'],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// Maternity Allowance (contributory, for those not entitled to SMP)
+MERGE (b:Benefit {id: 'UK_BENEFIT_MATERNITY_ALLOWANCE'})
+SET b.label = 'Maternity Allowance',
+    b.name = 'Maternity Allowance',
+    b.category = 'SOCIAL_INSURANCE',
+    b.short_summary = 'Up to 39 weeks of pay for employed or self-employed people not entitled to Statutory Maternity Pay',
+    b.description = 'Self-employed claimants qualify through Class 2 contributions in 13 of the 66 weeks before the due date',
+    b.ni_classes = ['UK_NI_CLASS_1', 'UK_NI_CLASS_2'],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// Child Benefit (universal, subject to the benefit cap)
+MERGE (b:Benefit {id: 'UK_BENEFIT_CHILD_BENEFIT'})
+SET b.label = 'Child Benefit',
+    b.name = 'Child Benefit',
+    b.category = 'UNIVERSAL',
+    b.short_summary = 'Weekly payment per child; clawed back through the High Income Child Benefit Charge above £60,000',
+    b.ni_classes = [],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// Personal Independence Payment (exempt from the benefit cap)
+MERGE (b:Benefit {id: 'UK_BENEFIT_PIP'})
+SET b.label = 'Personal Independence Payment',
+    b.name = 'Personal Independence Payment',
+    b.category = 'DISABILITY',
+    b.short_summary = 'Non-means-tested help with extra costs of a long-term health condition or disability',
+    b.ni_classes = [],
+    b.created_at = localdatetime(),
+    b.updated_at = localdatetime()
+
+WITH b
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (b)-[:IN_JURISDICTION]->(j);
+
+// Benefits apply to every UK profile
+MATCH (b:Benefit)-[:IN_JURISDICTION]->(:Jurisdiction {id: 'UK'})
+WHERE b.id STARTS WITH 'UK_BENEFIT_'
+MATCH (p:ProfileTag)
+WHERE p.id IN ['PROFILE_PAYE_EMPLOYEE_UK', 'PROFILE_SELF_EMPLOYED_UK', 'PROFILE_SINGLE_DIRECTOR_UK']
+MERGE (b)-[:APPLIES_TO]->(p)
+MERGE (p)-[:APPLIES_TO_PROFILE]->(b);
+
+// NI classes that build entitlement
+MATCH (b:Benefit)-[:IN_JURISDICTION]->(:Jurisdiction {id: 'UK'})
+WHERE b.id STARTS WITH 'UK_BENEFIT_'
+UNWIND b.ni_classes AS niClassId
+MATCH (ni:NIClass {id: niClassId})
+MERGE (ni)-[:QUALIFIES_FOR]->(b);
+
+// Benefits counted towards the benefit cap
+MATCH (b:Benefit)
+WHERE b.id IN ['UK_BENEFIT_UNIVERSAL_CREDIT', 'UK_BENEFIT_JOBSEEKERS_NEW_STYLE', 'UK_BENEFIT_CHILD_BENEFIT', 'UK_BENEFIT_MATERNITY_ALLOWANCE']
+MATCH (cap:BenefitCap)-[:IN_JURISDICTION]->(:Jurisdiction {id: 'UK'})
+MERGE (b)-[:SUBJECT_TO_CAP]->(cap);
+
+// ============================================================================
+// UK MEANS TESTS
+// ============================================================================
+
+MERGE (mt:MeansTest {id: 'UK_MEANS_TEST_UNIVERSAL_CREDIT'})
+SET mt.label = 'Universal Credit Means Test',
+    mt.income_disregard = 404,
+    mt.capital_threshold = 16000,
+    mt.capital_weekly_assessment = 4.35,
+    mt.spouse_income_assessed = true,
+    mt.maintenance_assessed = false,
+    mt.categories = ['EARNINGS', 'SAVINGS', 'CAPITAL', 'PARTNER_INCOME'],
+    mt.description = 'Capital above £16,000 disqualifies; £4.35 a month is assumed for every £250 of capital between £6,000 and £16,000; the work allowance is disregarded before the 55% taper',
+    mt.created_at = localdatetime(),
+    mt.updated_at = localdatetime()
+
+WITH mt
+MATCH (b:Benefit {id: 'UK_BENEFIT_UNIVERSAL_CREDIT'})
+MERGE (b)-[:HAS_MEANS_TEST]->(mt);
+
+// ============================================================================
+// IE-UK POSTED WORKERS (Convention on Social Security 2019)
+// ============================================================================
+
+MERGE (cr:CoordinationRule {id: 'IE_UK_POSTED_WORKER_IE_TO_UK'})
+SET cr.label = 'Posted Worker Rule - Ireland to UK',
+    cr.regulation = 'Ireland-UK Convention on Social Security',
+    cr.applies_to = 'Posted Workers',
+    cr.home_jurisdiction = 'IE',
+    cr.host_jurisdiction = 'UK',
+    cr.duration_months = 24,
+    cr.description = 'Person posted from Ireland to the UK keeps paying Irish PRSI, not UK National Insurance, for up to 24 months',
+    cr.created_at = localdatetime(),
+    cr.updated_at = localdatetime();
+
+MERGE (cr:CoordinationRule {id: 'IE_UK_POSTED_WORKER_UK_TO_IE'})
+SET cr.label = 'Posted Worker Rule - UK to Ireland',
+    cr.regulation = 'Ireland-UK Convention on Social Security',
+    cr.applies_to = 'Posted Workers',
+    cr.home_jurisdiction = 'UK',
+    cr.host_jurisdiction = 'IE',
+    cr.duration_months = 24,
+    cr.description = 'Person posted from the UK to Ireland keeps paying UK National Insurance, not Irish PRSI, for up to 24 months',
+    cr.created_at = localdatetime(),
+    cr.updated_at = localdatetime();
+
+// Contributory benefits in the home jurisdiction are coordinated under the posted worker rule
+MATCH (cr:CoordinationRule)
+WHERE cr.id IN ['IE_UK_POSTED_WORKER_IE_TO_UK', 'IE_UK_POSTED_WORKER_UK_TO_IE']
+MATCH (b:Benefit)-[:IN_JURISDICTION]->(j:Jurisdiction)
+WHERE j.id = cr.home_jurisdiction
+  AND (b.category = 'SOCIAL_INSURANCE' OR b.id CONTAINS 'PRSI')
+MERGE (b)-[:COORDINATED_UNDER]->(cr);
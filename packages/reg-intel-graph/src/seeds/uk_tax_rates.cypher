@@ -0,0 +1,403 @@
+// ============================================================================
+// UK TAX AND NATIONAL INSURANCE RATES (2024/25)
+// Read by the tax calculator tools (reg-intel-llm) through getRatesForTaxYear.
+// Income tax rates are for England, Wales and Northern Ireland.
+// Load before tax_years.cypher, which links these to UK_TAX_YEAR_2024.
+// ============================================================================
+
+// === THRESHOLDS ===
+
+// Personal Allowance
+MERGE (t:Threshold {id: 'UK_PERSONAL_ALLOWANCE_2024'})
+SET t.label = 'Personal Allowance',
+    t.value = 12570,
+    t.unit = 'GBP',
+    t.direction = 'BELOW',
+    t.category = 'PERSONAL_ALLOWANCE',
+    t.effective_from = datetime('2024-04-06T00:00:00'),
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (t)-[:IN_JURISDICTION]->(j);
+
+// Personal Allowance taper (reduced by 1 for every 2 of income above this)
+MERGE (t:Threshold {id: 'UK_PERSONAL_ALLOWANCE_TAPER_2024'})
+SET t.label = 'Personal Allowance Income Limit',
+    t.value = 100000,
+    t.unit = 'GBP',
+    t.direction = 'ABOVE',
+    t.category = 'PERSONAL_ALLOWANCE_TAPER',
+    t.effective_from = datetime('2024-04-06T00:00:00'),
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (t)-[:IN_JURISDICTION]->(j);
+
+// CGT Annual Exempt Amount
+MERGE (t:Threshold {id: 'UK_CGT_ANNUAL_EXEMPT_AMOUNT_2024'})
+SET t.label = 'CGT Annual Exempt Amount',
+    t.value = 3000,
+    t.unit = 'GBP',
+    t.direction = 'BELOW',
+    t.category = 'CGT',
+    t.effective_from = datetime('2024-04-06T00:00:00'),
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (t)-[:IN_JURISDICTION]->(j);
+
+// === INCOME TAX (bands of taxable income, after the Personal Allowance) ===
+
+// Basic Rate Income Tax
+MERGE (r:Rate {id: 'UK_INCOME_TAX_BASIC_2024'})
+SET r.label = 'Basic Rate Income Tax',
+    r.percentage = 20,
+    r.band_lower = 0,
+    r.band_upper = 37700,
+    r.currency = 'GBP',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Higher Rate Income Tax
+MERGE (r:Rate {id: 'UK_INCOME_TAX_HIGHER_2024'})
+SET r.label = 'Higher Rate Income Tax',
+    r.percentage = 40,
+    r.band_lower = 37700,
+    r.band_upper = 125140,
+    r.currency = 'GBP',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Additional Rate Income Tax
+MERGE (r:Rate {id: 'UK_INCOME_TAX_ADDITIONAL_2024'})
+SET r.label = 'Additional Rate Income Tax',
+    r.percentage = 45,
+    r.band_lower = 125140,
+    r.currency = 'GBP',
+    r.category = 'INCOME_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === NATIONAL INSURANCE (bands of earnings or profits) ===
+
+// Class 1 Employee NI Main Rate
+MERGE (r:Rate {id: 'UK_NI_CLASS_1_MAIN_2024'})
+SET r.label = 'Class 1 Employee NI Main Rate',
+    r.percentage = 8,
+    r.band_lower = 12570,
+    r.band_upper = 50270,
+    r.currency = 'GBP',
+    r.category = 'NI',
+    r.contribution_class = '1',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Class 1 Employee NI Above Upper Earnings Limit
+MERGE (r:Rate {id: 'UK_NI_CLASS_1_UPPER_2024'})
+SET r.label = 'Class 1 Employee NI Above Upper Earnings Limit',
+    r.percentage = 2,
+    r.band_lower = 50270,
+    r.currency = 'GBP',
+    r.category = 'NI',
+    r.contribution_class = '1',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Class 4 NI Main Rate
+MERGE (r:Rate {id: 'UK_NI_CLASS_4_MAIN_2024'})
+SET r.label = 'Class 4 NI Main Rate',
+    r.percentage = 6,
+    r.band_lower = 12570,
+    r.band_upper = 50270,
+    r.currency = 'GBP',
+    r.category = 'NI',
+    r.contribution_class = '4',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Class 4 NI Above Upper Profits Limit
+MERGE (r:Rate {id: 'UK_NI_CLASS_4_UPPER_2024'})
+SET r.label = 'Class 4 NI Above Upper Profits Limit',
+    r.percentage = 2,
+    r.band_lower = 50270,
+    r.currency = 'GBP',
+    r.category = 'NI',
+    r.contribution_class = '4',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === CAPITAL GAINS TAX (gains stacked on taxable income; rates changed on 30 October 2024) ===
+
+// CGT Lower Rate
+MERGE (r:Rate {id: 'UK_CGT_LOWER_2024'})
+SET r.label = 'CGT Lower Rate',
+    r.percentage = 10,
+    r.band_lower = 0,
+    r.band_upper = 37700,
+    r.currency = 'GBP',
+    r.category = 'CGT',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.effective_to = datetime('2024-10-29T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// CGT Higher Rate
+MERGE (r:Rate {id: 'UK_CGT_HIGHER_2024'})
+SET r.label = 'CGT Higher Rate',
+    r.percentage = 20,
+    r.band_lower = 37700,
+    r.currency = 'GBP',
+    r.category = 'CGT',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.effective_to = datetime('2024-10-29T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// CGT Lower Rate (from 30 October)
+MERGE (r:Rate {id: 'UK_CGT_LOWER_OCT_2024'})
+SET r.label = 'CGT Lower Rate (from 30 October)',
+    r.percentage = 18,
+    r.band_lower = 0,
+    r.band_upper = 37700,
+    r.currency = 'GBP',
+    r.category = 'CGT',
+    r.effective_from = datetime('2024-10-30T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// CGT Higher Rate (from 30 October)
+MERGE (r:Rate {id: 'UK_CGT_HIGHER_OCT_2024'})
+SET r.label = 'CGT Higher Rate (from 30 October)',
+    r.percentage = 24,
+    r.band_lower = 37700,
+    r.currency = 'GBP',
+    r.category = 'CGT',
+    r.effective_from = datetime('2024-10-30T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === DIVIDEND TAX (dividends stacked on taxable income, after the Dividend Allowance) ===
+
+// Dividend Allowance (taxed at 0%)
+MERGE (t:Threshold {id: 'UK_DIVIDEND_ALLOWANCE_2024'})
+SET t.label = 'Dividend Allowance',
+    t.value = 500,
+    t.unit = 'GBP',
+    t.direction = 'BELOW',
+    t.category = 'DIVIDEND_ALLOWANCE',
+    t.effective_from = datetime('2024-04-06T00:00:00'),
+    t.created_at = localdatetime(),
+    t.updated_at = localdatetime()
+
+WITH t
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (t)-[:IN_JURISDICTION]->(j);
+
+// Dividend Ordinary Rate
+MERGE (r:Rate {id: 'UK_DIVIDEND_TAX_BASIC_2024'})
+SET r.label = 'Dividend Ordinary Rate',
+    r.percentage = 8.75,
+    r.band_lower = 0,
+    r.band_upper = 37700,
+    r.currency = 'GBP',
+    r.category = 'DIVIDEND_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Dividend Upper Rate
+MERGE (r:Rate {id: 'UK_DIVIDEND_TAX_HIGHER_2024'})
+SET r.label = 'Dividend Upper Rate',
+    r.percentage = 33.75,
+    r.band_lower = 37700,
+    r.band_upper = 125140,
+    r.currency = 'GBP',
+    r.category = 'DIVIDEND_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Dividend Additional Rate
+MERGE (r:Rate {id: 'UK_DIVIDEND_TAX_ADDITIONAL_2024'})
+SET r.label = 'Dividend Additional Rate',
+    r.percentage = 39.35,
+    r.band_lower = 125140,
+    r.currency = 'GBP',
+    r.category = 'DIVIDEND_TAX',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === CORPORATION TAX (financial year from 1 April 2024; bands of taxable profits) ===
+
+// Small Profits Rate
+MERGE (r:Rate {id: 'UK_CORPORATION_TAX_SMALL_PROFITS_2024'})
+SET r.label = 'Corporation Tax Small Profits Rate',
+    r.percentage = 19,
+    r.band_lower = 0,
+    r.band_upper = 50000,
+    r.currency = 'GBP',
+    r.category = 'CORPORATION_TAX',
+    r.effective_from = datetime('2024-04-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Effective rate with Marginal Relief between the lower and upper limits
+MERGE (r:Rate {id: 'UK_CORPORATION_TAX_MARGINAL_2024'})
+SET r.label = 'Corporation Tax Marginal Relief Band',
+    r.percentage = 26.5,
+    r.band_lower = 50000,
+    r.band_upper = 250000,
+    r.currency = 'GBP',
+    r.category = 'CORPORATION_TAX',
+    r.effective_from = datetime('2024-04-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Main Rate
+MERGE (r:Rate {id: 'UK_CORPORATION_TAX_MAIN_2024'})
+SET r.label = 'Corporation Tax Main Rate',
+    r.percentage = 25,
+    r.band_lower = 250000,
+    r.currency = 'GBP',
+    r.category = 'CORPORATION_TAX',
+    r.effective_from = datetime('2024-04-01T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === EMPLOYER NATIONAL INSURANCE (bands of earnings) ===
+
+// Class 1 Secondary (Employer) NI above the Secondary Threshold
+MERGE (r:Rate {id: 'UK_NI_EMPLOYER_CLASS_1_2024'})
+SET r.label = 'Class 1 Employer NI',
+    r.percentage = 13.8,
+    r.band_lower = 9100,
+    r.currency = 'GBP',
+    r.category = 'NI_EMPLOYER',
+    r.contribution_class = '1',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// === BENEFIT RATES (flat amounts are weekly) ===
+
+// State Pension (new, full rate)
+MERGE (r:Rate {id: 'UK_STATE_PENSION_RATE_2024'})
+SET r.label = 'New State Pension Full Rate (weekly)',
+    r.flat_amount = 221.2,
+    r.currency = 'GBP',
+    r.category = 'STATE_PENSION',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+// Child Benefit (eldest or only child)
+MERGE (r:Rate {id: 'UK_CHILD_BENEFIT_RATE_2024'})
+SET r.label = 'Child Benefit Eldest Child (weekly)',
+    r.flat_amount = 25.6,
+    r.currency = 'GBP',
+    r.category = 'CHILD_BENEFIT',
+    r.effective_from = datetime('2024-04-06T00:00:00'),
+    r.created_at = localdatetime(),
+    r.updated_at = localdatetime()
+
+WITH r
+MATCH (j:Jurisdiction {id: 'UK'})
+MERGE (r)-[:IN_JURISDICTION]->(j);
+
+MATCH (b:Benefit {id: 'UK_BENEFIT_STATE_PENSION'}), (r:Rate {id: 'UK_STATE_PENSION_RATE_2024'})
+MERGE (b)-[:HAS_RATE]->(r);
+
+MATCH (b:Benefit {id: 'UK_BENEFIT_CHILD_BENEFIT'}), (r:Rate {id: 'UK_CHILD_BENEFIT_RATE_2024'})
+MERGE (b)-[:HAS_RATE]->(r);
@@ -4,6 +4,8 @@
  * Graph-related types for nodes, edges, contexts, and clients.
  */
 
+import type { GraphNodeLabel } from './schema/graphSchema.js';
+
 /**
  * Timeline representing temporal constraints
  */
@@ -13,6 +15,14 @@ export interface Timeline {
   window_days?: number;
   window_months?: number;
   window_years?: number;
+  kind?: 'LOOKBACK' | 'LOCK_IN' | 'DEADLINE' | 'EFFECTIVE_WINDOW' | 'USAGE_FREQUENCY' | 'OTHER';
+  jurisdictionCode?: string;
+  /** Where deadline arithmetic starts: the trigger date (default) or its tax year boundary */
+  anchor?: 'EVENT' | 'TAX_YEAR_START' | 'TAX_YEAR_END';
+  /** Fixed day of month the deadline falls on after the window is applied (e.g. 31 October) */
+  day_of_month?: number;
+  /** Count `window_days` in business days rather than calendar days */
+  business_days?: boolean;
   notes?: string;
 }
 
@@ -41,6 +51,52 @@ export interface Threshold {
   effective_from?: string;
   effective_to?: string;
   category?: string;
+  /** Eligibility fact bounded by the threshold when used via LIMITED_BY_THRESHOLD */
+  fact?: string;
+}
+
+/**
+ * Condition a benefit or relief REQUIRES; `fact`, `operator` and `value`
+ * make it machine-evaluable
+ */
+export interface Condition {
+  id: string;
+  label: string;
+  description?: string;
+  category?: string;
+  fact?: string;
+  operator?: '>=' | '<=' | '>' | '<' | '=' | 'IN' | 'NOT_IN';
+  value?: number | string | string[];
+}
+
+/**
+ * Eligibility rules for a benefit or relief: REQUIRES conditions (with their
+ * HAS_THRESHOLD thresholds and LOOKBACK_WINDOW timelines), LIMITED_BY_THRESHOLD
+ * thresholds, lookback windows, means test and exclusions
+ */
+export interface EligibilityRuleSet {
+  benefit: GraphNode;
+  conditions: Array<{
+    condition: Condition;
+    thresholds: Threshold[];
+    lookbacks: Timeline[];
+  }>;
+  thresholds: Threshold[];
+  lookbacks: Timeline[];
+  meansTest: MeansTest | null;
+  exclusions: GraphNode[];
+}
+
+/**
+ * Timelines reachable from a life event: STARTS_TIMELINE and ENDS_TIMELINE
+ * windows, and the FILING_DEADLINE timelines of the benefits and obligations
+ * it TRIGGERS
+ */
+export interface LifeEventTimelineChain {
+  lifeEvent: GraphNode;
+  starts: Timeline[];
+  ends: Timeline[];
+  deadlines: Array<{ source: GraphNode; timeline: Timeline }>;
 }
 
 /**
@@ -54,6 +110,10 @@ export interface Rate {
   currency?: string;
   band_lower?: number;
   band_upper?: number;
+  /** PRSI or NI class the rate applies to, e.g. 'A', 'S' or '1' */
+  contribution_class?: string;
+  /** Personal circumstances an income tax band applies to, e.g. 'MARRIED' or 'ONE_PARENT' (unset for single) */
+  personal_status?: string;
   effective_from?: string;
   effective_to?: string;
   category: string;
@@ -249,44 +309,8 @@ export interface CoordinationRule {
 export interface GraphNode {
   id: string;
   label: string;
-  type:
-    | 'Statute'
-    | 'Section'
-    | 'Benefit'
-    | 'Relief'
-    | 'Condition'
-    | 'Timeline'
-    | 'Case'
-    | 'Guidance'
-    | 'EURegulation'
-    | 'EUDirective'
-    | 'ProfileTag'
-    | 'Jurisdiction'
-    | 'Update'
-    | 'Concept'
-    | 'Label'
-    | 'Region'
-    | 'Agreement'
-    | 'Treaty'
-    | 'Regime'
-    | 'Community'
-    | 'ChangeEvent'
-    | 'Obligation'
-    | 'Threshold'
-    | 'Rate'
-    | 'Form'
-    | 'PRSIClass'
-    | 'LifeEvent'
-    | 'Penalty'
-    | 'LegalEntity'
-    | 'TaxCredit'
-    | 'RegulatoryBody'
-    | 'AssetClass'
-    | 'MeansTest'
-    | 'TaxYear'
-    | 'NIClass'
-    | 'BenefitCap'
-    | 'CoordinationRule';
+  /** Node label declared in the graph schema */
+  type: GraphNodeLabel;
   properties: Record<string, unknown>;
 }
 
@@ -310,6 +334,11 @@ export interface GraphContext {
 
 /**
  * Graph client interface for Memgraph operations
+ *
+ * Every query method accepts an optional trailing `asOf` date. When given, only
+ * nodes whose `effective_from`/`effective_to` window contains that date are
+ * returned, so a question about an earlier tax year sees the rates and
+ * thresholds that were in force then. Omitting it returns all versions.
  */
 export interface GraphClient {
   /**
@@ -321,53 +350,57 @@ export interface GraphClient {
    *   in API/filter contexts - both refer to the same ProfileId concept.
    * @param jurisdictionId - Jurisdiction code (e.g., 'IE', 'UK')
    * @param keyword - Optional keyword filter for nodes/edges
+   * @param asOf - Optional effective date; only rules in force on that date are returned
    * @returns Graph context containing matching nodes and edges
    */
   getRulesForProfileAndJurisdiction(
     profileId: string,
     jurisdictionId: string,
-    keyword?: string
+    keyword?: string,
+    asOf?: Date
   ): Promise<GraphContext>;
 
   /**
    * Get neighbourhood of a node (1-2 hops)
    */
-  getNeighbourhood(nodeId: string): Promise<GraphContext>;
+  getNeighbourhood(nodeId: string, asOf?: Date): Promise<GraphContext>;
 
   /**
    * Get mutual exclusions for a node
    */
-  getMutualExclusions(nodeId: string): Promise<GraphNode[]>;
+  getMutualExclusions(nodeId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get timeline constraints for a node
    */
-  getTimelines(nodeId: string): Promise<Timeline[]>;
+  getTimelines(nodeId: string, asOf?: Date): Promise<Timeline[]>;
 
   /**
    * Get cross-border slice for multiple jurisdictions
    */
-  getCrossBorderSlice(jurisdictionIds: string[]): Promise<GraphContext>;
+  getCrossBorderSlice(jurisdictionIds: string[], asOf?: Date): Promise<GraphContext>;
 
   /**
    * Get obligations for a profile and jurisdiction
    */
   getObligationsForProfile(
     profileId: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<Obligation[]>;
 
   /**
    * Get thresholds for a condition
    */
-  getThresholdsForCondition(conditionId: string): Promise<Threshold[]>;
+  getThresholdsForCondition(conditionId: string, asOf?: Date): Promise<Threshold[]>;
 
   /**
    * Get rates for a category and jurisdiction
    */
   getRatesForCategory(
     category: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<Rate[]>;
 
   /**
@@ -376,18 +409,19 @@ export interface GraphClient {
   getThresholdsNearValue(
     value: number,
     unit: string,
-    tolerancePercent: number
+    tolerancePercent: number,
+    asOf?: Date
   ): Promise<Threshold[]>;
 
   /**
    * Get form required for an obligation or benefit
    */
-  getFormForObligation(obligationId: string): Promise<Form | null>;
+  getFormForObligation(obligationId: string, asOf?: Date): Promise<Form | null>;
 
   /**
    * Get concept hierarchy (broader/narrower concepts)
    */
-  getConceptHierarchy(conceptId: string): Promise<{
+  getConceptHierarchy(conceptId: string, asOf?: Date): Promise<{
     broader: GraphNode[];
     narrower: GraphNode[];
     related: GraphNode[];
@@ -396,22 +430,22 @@ export interface GraphClient {
   /**
    * Get PRSI class by ID
    */
-  getPRSIClassById(prsiClassId: string): Promise<PRSIClass | null>;
+  getPRSIClassById(prsiClassId: string, asOf?: Date): Promise<PRSIClass | null>;
 
   /**
    * Get benefits entitled by PRSI class
    */
-  getBenefitsForPRSIClass(prsiClassId: string, jurisdictionId: string): Promise<GraphNode[]>;
+  getBenefitsForPRSIClass(prsiClassId: string, jurisdictionId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get life events that trigger a specific benefit or obligation
    */
-  getLifeEventsForNode(nodeId: string): Promise<LifeEvent[]>;
+  getLifeEventsForNode(nodeId: string, asOf?: Date): Promise<LifeEvent[]>;
 
   /**
    * Get benefits and obligations triggered by a life event
    */
-  getTriggeredByLifeEvent(lifeEventId: string, jurisdictionId: string): Promise<{
+  getTriggeredByLifeEvent(lifeEventId: string, jurisdictionId: string, asOf?: Date): Promise<{
     benefits: GraphNode[];
     obligations: GraphNode[];
   }>;
@@ -419,30 +453,31 @@ export interface GraphClient {
   /**
    * Get penalties for an obligation
    */
-  getPenaltiesForObligation(obligationId: string): Promise<Penalty[]>;
+  getPenaltiesForObligation(obligationId: string, asOf?: Date): Promise<Penalty[]>;
 
   /**
    * Get all penalties for a profile's obligations
    */
   getPenaltiesForProfile(
     profileId: string,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<{ obligation: Obligation; penalties: Penalty[] }[]>;
 
   /**
    * Check if penalty can be waived based on conditions
    */
-  getPenaltyWaiverConditions(penaltyId: string): Promise<GraphNode[]>;
+  getPenaltyWaiverConditions(penaltyId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get legal entity types for a jurisdiction
    */
-  getLegalEntitiesForJurisdiction(jurisdictionId: string): Promise<LegalEntity[]>;
+  getLegalEntitiesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<LegalEntity[]>;
 
   /**
    * Get obligations specific to an entity type
    */
-  getObligationsForEntityType(entityTypeId: string): Promise<Obligation[]>;
+  getObligationsForEntityType(entityTypeId: string, asOf?: Date): Promise<Obligation[]>;
 
   /**
    * Get tax credits for a profile and tax year
@@ -450,43 +485,44 @@ export interface GraphClient {
   getTaxCreditsForProfile(
     profileId: string,
     taxYear: number,
-    jurisdictionId: string
+    jurisdictionId: string,
+    asOf?: Date
   ): Promise<TaxCredit[]>;
 
   /**
    * Get reliefs/benefits that stack with a given node
    */
-  getStackingOptions(nodeId: string): Promise<GraphNode[]>;
+  getStackingOptions(nodeId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get items that reduce a benefit/relief
    */
-  getReducingFactors(nodeId: string): Promise<GraphNode[]>;
+  getReducingFactors(nodeId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get regulatory bodies for a jurisdiction
    */
-  getRegulatoryBodiesForJurisdiction(jurisdictionId: string): Promise<RegulatoryBody[]>;
+  getRegulatoryBodiesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<RegulatoryBody[]>;
 
   /**
    * Get regulatory body that administers an obligation or benefit
    */
-  getAdministeringBody(nodeId: string): Promise<RegulatoryBody | null>;
+  getAdministeringBody(nodeId: string, asOf?: Date): Promise<RegulatoryBody | null>;
 
   /**
    * Get asset classes for a jurisdiction
    */
-  getAssetClassesForJurisdiction(jurisdictionId: string): Promise<AssetClass[]>;
+  getAssetClassesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<AssetClass[]>;
 
   /**
    * Get CGT rate for an asset class
    */
-  getCGTRateForAsset(assetClassId: string): Promise<Rate | null>;
+  getCGTRateForAsset(assetClassId: string, asOf?: Date): Promise<Rate | null>;
 
   /**
    * Get rates and thresholds for tax year
    */
-  getRatesForTaxYear(taxYear: number, jurisdictionId: string): Promise<{
+  getRatesForTaxYear(taxYear: number, jurisdictionId: string, asOf?: Date): Promise<{
     rates: Rate[];
     thresholds: Threshold[];
     credits: TaxCredit[];
@@ -495,41 +531,52 @@ export interface GraphClient {
   /**
    * Get means test for a benefit
    */
-  getMeansTestForBenefit(benefitId: string): Promise<MeansTest | null>;
+  getMeansTestForBenefit(benefitId: string, asOf?: Date): Promise<MeansTest | null>;
 
   /**
    * Get National Insurance classes for a jurisdiction
    */
-  getNIClassesForJurisdiction(jurisdictionId: string): Promise<NIClass[]>;
+  getNIClassesForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<NIClass[]>;
 
   /**
    * Get NI class for an employment type
    */
-  getNIClassForEmploymentType(employmentType: string, jurisdictionId: string): Promise<NIClass | null>;
+  getNIClassForEmploymentType(employmentType: string, jurisdictionId: string, asOf?: Date): Promise<NIClass | null>;
 
   /**
    * Get benefit caps for a jurisdiction
    */
-  getBenefitCapsForJurisdiction(jurisdictionId: string): Promise<BenefitCap[]>;
+  getBenefitCapsForJurisdiction(jurisdictionId: string, asOf?: Date): Promise<BenefitCap[]>;
 
   /**
    * Get benefits subject to a benefit cap
    */
-  getBenefitsSubjectToCap(capId: string): Promise<GraphNode[]>;
+  getBenefitsSubjectToCap(capId: string, asOf?: Date): Promise<GraphNode[]>;
 
   /**
    * Get coordination rules between jurisdictions
    */
-  getCoordinationRules(homeJurisdiction: string, hostJurisdiction: string): Promise<CoordinationRule[]>;
+  getCoordinationRules(homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<CoordinationRule[]>;
 
   /**
    * Get posted worker rules for a profile
    */
-  getPostedWorkerRules(profileId: string, homeJurisdiction: string, hostJurisdiction: string): Promise<{
+  getPostedWorkerRules(profileId: string, homeJurisdiction: string, hostJurisdiction: string, asOf?: Date): Promise<{
     rules: CoordinationRule[];
     benefits: GraphNode[];
   }>;
 
+  /**
+   * Get the rules that decide eligibility for a benefit or relief
+   */
+  getEligibilityRules(nodeId: string, asOf?: Date): Promise<EligibilityRuleSet | null>;
+
+  /**
+   * Get the timelines a life event starts or ends and the filing deadlines of
+   * what it triggers
+   */
+  getLifeEventTimelineChain(lifeEventId: string, asOf?: Date): Promise<LifeEventTimelineChain | null>;
+
   /**
    * Execute raw Cypher query
    */
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryGraphVersionStore, SupabaseGraphVersionStore } from './graphVersionStore.js';
+import type { GraphChangeRecord } from './types.js';
+
+const record = (overrides: Partial<GraphChangeRecord> = {}): GraphChangeRecord => ({
+  id: 'change-1',
+  batchId: 'ingest-1',
+  author: 'ingest-sources',
+  tenantId: 'system',
+  entity: 'node',
+  change: 'updated',
+  nodeId: 'IE_BENEFIT_JOBSEEKERS',
+  nodeLabel: 'Benefit',
+  before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 232 },
+  after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+  source: 'ingestion',
+  timestamp: '2026-10-19T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('InMemoryGraphVersionStore', () => {
+  it('lists node history including relationships the node is an endpoint of', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([
+      record({ id: 'a', timestamp: '2026-10-19T09:00:00.000Z' }),
+      record({ id: 'b', nodeId: 'IE_RELIEF_RENT', timestamp: '2026-10-19T09:00:01.000Z' }),
+      record({
+        id: 'c',
+        entity: 'edge',
+        change: 'added',
+        nodeId: undefined,
+        nodeLabel: undefined,
+        edge: { source: 'IE_BENEFIT_JOBSEEKERS', target: 'IE', type: 'IN_JURISDICTION' },
+        timestamp: '2026-10-19T09:00:02.000Z',
+      }),
+    ]);
+
+    const history = await store.listChanges({ nodeId: 'IE_BENEFIT_JOBSEEKERS', newestFirst: true });
+
+    expect(history.map(change => change.id)).toEqual(['c', 'a']);
+  });
+
+  it('summarises batches newest first', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([
+      record({ id: 'a', batchId: 'ingest-1', timestamp: '2026-10-18T09:00:00.000Z' }),
+      record({ id: 'b', batchId: 'ingest-1', timestamp: '2026-10-18T09:05:00.000Z' }),
+      record({ id: 'c', batchId: 'ingest-2', timestamp: '2026-10-19T09:00:00.000Z' }),
+      record({ id: 'd', batchId: null }),
+    ]);
+
+    expect(await store.listBatches()).toEqual([
+      expect.objectContaining({ batchId: 'ingest-2', changeCount: 1 }),
+      expect.objectContaining({
+        batchId: 'ingest-1',
+        changeCount: 2,
+        firstChangeAt: '2026-10-18T09:00:00.000Z',
+        lastChangeAt: '2026-10-18T09:05:00.000Z',
+      }),
+    ]);
+  });
+
+  it('rejects duplicate snapshot names', async () => {
+    const store = new InMemoryGraphVersionStore();
+    const snapshot = {
+      name: 'v1',
+      description: null,
+      createdBy: null,
+      createdAt: '2026-10-19T09:00:00.000Z',
+      nodes: [],
+      edges: [],
+    };
+
+    await store.saveSnapshot(snapshot);
+
+    await expect(store.saveSnapshot(snapshot)).rejects.toThrow('already exists');
+    expect(await store.listSnapshots()).toEqual([
+      expect.objectContaining({ name: 'v1', nodeCount: 0, edgeCount: 0 }),
+    ]);
+  });
+});
+
+describe('SupabaseGraphVersionStore', () => {
+  function createQuery(result: { data?: unknown; error?: unknown }) {
+    const query: Record<string, ReturnType<typeof vi.fn>> & PromiseLike<unknown> = {
+      insert: vi.fn(async () => ({ error: result.error ?? null })),
+      then: (resolve: (value: unknown) => unknown) =>
+        Promise.resolve({ data: result.data ?? null, error: result.error ?? null }).then(resolve),
+    } as never;
+    for (const method of ['select', 'order', 'or', 'eq', 'gte', 'lte', 'limit']) {
+      query[method] = vi.fn(() => query);
+    }
+    return query;
+  }
+
+  function createClient(query: ReturnType<typeof createQuery>) {
+    const scoped = { from: vi.fn(() => query) };
+    return { client: { from: vi.fn(), schema: vi.fn(() => scoped) }, scoped };
+  }
+
+  it('writes change records to copilot_audit.graph_change_log', async () => {
+    const query = createQuery({});
+    const { client, scoped } = createClient(query);
+    const store = new SupabaseGraphVersionStore(client);
+
+    await store.appendChanges([record()]);
+
+    expect(client.schema).toHaveBeenCalledWith('copilot_audit');
+    expect(scoped.from).toHaveBeenCalledWith('graph_change_log');
+    expect(query.insert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        batch_id: 'ingest-1',
+        change_type: 'updated',
+        node_id: 'IE_BENEFIT_JOBSEEKERS',
+        edge_source: null,
+        changed_at: '2026-10-19T09:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('filters node history by node and relationship endpoints', async () => {
+    const query = createQuery({
+      data: [
+        {
+          id: 'change-2',
+          batch_id: null,
+          author: null,
+          source: 'script',
+          tenant_id: null,
+          entity: 'edge',
+          change_type: 'removed',
+          node_id: null,
+          node_label: null,
+          edge_source: 'IE_BENEFIT_JOBSEEKERS',
+          edge_source_label: 'Benefit',
+          edge_target: 'IE',
+          edge_target_label: 'Jurisdiction',
+          edge_type: 'IN_JURISDICTION',
+          before: {},
+          after: null,
+          changed_at: '2026-10-19T09:00:00+00:00',
+        },
+      ],
+    });
+    const store = new SupabaseGraphVersionStore(createClient(query).client);
+
+    const [change] = await store.listChanges({ nodeId: 'IE_BENEFIT_JOBSEEKERS', newestFirst: true, limit: 20 });
+
+    expect(query.or).toHaveBeenCalledWith(
+      'node_id.eq."IE_BENEFIT_JOBSEEKERS",edge_source.eq."IE_BENEFIT_JOBSEEKERS",edge_target.eq."IE_BENEFIT_JOBSEEKERS"',
+    );
+    expect(query.order).toHaveBeenCalledWith('changed_at', { ascending: false });
+    expect(query.limit).toHaveBeenCalledWith(20);
+    expect(change).toEqual({
+      id: 'change-2',
+      batchId: null,
+      author: null,
+      tenantId: null,
+      entity: 'edge',
+      change: 'removed',
+      edge: {
+        source: 'IE_BENEFIT_JOBSEEKERS',
+        target: 'IE',
+        type: 'IN_JURISDICTION',
+        sourceLabel: 'Benefit',
+        targetLabel: 'Jurisdiction',
+      },
+      before: {},
+      after: null,
+      source: 'script',
+      timestamp: '2026-10-19T09:00:00.000Z',
+    });
+  });
+
+  it('surfaces Supabase errors', async () => {
+    const store = new SupabaseGraphVersionStore(createClient(createQuery({ error: { message: 'denied' } })).client);
+
+    await expect(store.appendChanges([record()])).rejects.toThrow('Failed to record graph changes: denied');
+    await expect(store.listChanges()).rejects.toThrow('Failed to list graph changes: denied');
+  });
+});
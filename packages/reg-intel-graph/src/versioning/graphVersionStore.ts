@@ -0,0 +1,338 @@
+/**
+ * Graph version stores
+ *
+ * Persist the graph change log and named snapshots. The Supabase store writes
+ * to copilot_audit.graph_change_log and copilot_audit.graph_snapshots (see
+ * supabase/migrations/20261019000001_graph_versioning.sql); the in-memory store
+ * is for tests and local scripts.
+ */
+
+import type { GraphChangeEvent } from '../graphChangeFeed.js';
+import type {
+  GraphChangeBatchSummary,
+  GraphChangeQuery,
+  GraphChangeRecord,
+  GraphSnapshot,
+  GraphSnapshotSummary,
+  GraphVersionStore,
+} from './types.js';
+
+const AUDIT_SCHEMA = 'copilot_audit';
+
+/**
+ * Whether a change touches a node, directly or as a relationship endpoint
+ */
+function touchesNode(record: GraphChangeEvent, nodeId: string): boolean {
+  return record.nodeId === nodeId || record.edge?.source === nodeId || record.edge?.target === nodeId;
+}
+
+function compareByTimestamp(a: GraphChangeRecord, b: GraphChangeRecord): number {
+  return a.timestamp.localeCompare(b.timestamp);
+}
+
+/**
+ * In-process version store
+ */
+export class InMemoryGraphVersionStore implements GraphVersionStore {
+  private changes: GraphChangeRecord[] = [];
+  private snapshots = new Map<string, GraphSnapshot>();
+
+  async appendChanges(records: GraphChangeRecord[]): Promise<void> {
+    this.changes.push(...records.map(record => ({ ...record })));
+  }
+
+  async listChanges(query: GraphChangeQuery = {}): Promise<GraphChangeRecord[]> {
+    const from = query.from?.toISOString();
+    const to = query.to?.toISOString();
+    const matches = this.changes
+      .filter(record => !query.nodeId || touchesNode(record, query.nodeId))
+      .filter(record => !query.batchId || record.batchId === query.batchId)
+      .filter(record => !from || record.timestamp >= from)
+      .filter(record => !to || record.timestamp <= to)
+      .sort(compareByTimestamp);
+
+    if (query.newestFirst) {
+      matches.reverse();
+    }
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  async listBatches(limit = 50): Promise<GraphChangeBatchSummary[]> {
+    const batches = new Map<string, GraphChangeBatchSummary>();
+    for (const record of [...this.changes].sort(compareByTimestamp)) {
+      if (!record.batchId) continue;
+      const batch = batches.get(record.batchId);
+      if (batch) {
+        batch.changeCount += 1;
+        batch.lastChangeAt = record.timestamp;
+      } else {
+        batches.set(record.batchId, {
+          batchId: record.batchId,
+          author: record.author,
+          source: record.source,
+          changeCount: 1,
+          firstChangeAt: record.timestamp,
+          lastChangeAt: record.timestamp,
+        });
+      }
+    }
+
+    return [...batches.values()]
+      .sort((a, b) => b.lastChangeAt.localeCompare(a.lastChangeAt))
+      .slice(0, limit);
+  }
+
+  async saveSnapshot(snapshot: GraphSnapshot): Promise<void> {
+    if (this.snapshots.has(snapshot.name)) {
+      throw new Error(`Graph snapshot "${snapshot.name}" already exists`);
+    }
+    this.snapshots.set(snapshot.name, snapshot);
+  }
+
+  async getSnapshot(name: string): Promise<GraphSnapshot | null> {
+    return this.snapshots.get(name) ?? null;
+  }
+
+  async listSnapshots(): Promise<GraphSnapshotSummary[]> {
+    return [...this.snapshots.values()]
+      .map(({ nodes, edges, ...summary }) => ({
+        ...summary,
+        nodeCount: nodes.length,
+        edgeCount: edges.length,
+      }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+/**
+ * Minimal Supabase client surface used by the store
+ */
+export type GraphVersionSupabaseClient = {
+  from(table: string): any;
+  schema?(schema: string): GraphVersionSupabaseClient;
+};
+
+type GraphChangeLogRow = {
+  id: string;
+  batch_id: string | null;
+  author: string | null;
+  source: GraphChangeEvent['source'];
+  tenant_id: string | null;
+  entity: GraphChangeEvent['entity'];
+  change_type: GraphChangeEvent['change'];
+  node_id: string | null;
+  node_label: string | null;
+  edge_source: string | null;
+  edge_source_label: string | null;
+  edge_target: string | null;
+  edge_target_label: string | null;
+  edge_type: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_at: string;
+};
+
+type GraphChangeBatchRow = {
+  batch_id: string;
+  author: string | null;
+  source: GraphChangeEvent['source'];
+  change_count: number | string;
+  first_change_at: string;
+  last_change_at: string;
+};
+
+type GraphSnapshotSummaryRow = {
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  node_count: number;
+  edge_count: number;
+};
+
+function toChangeLogRow(record: GraphChangeRecord): GraphChangeLogRow {
+  return {
+    id: record.id,
+    batch_id: record.batchId,
+    author: record.author,
+    source: record.source,
+    tenant_id: record.tenantId,
+    entity: record.entity,
+    change_type: record.change,
+    node_id: record.nodeId ?? null,
+    node_label: record.nodeLabel ?? null,
+    edge_source: record.edge?.source ?? null,
+    edge_source_label: record.edge?.sourceLabel ?? null,
+    edge_target: record.edge?.target ?? null,
+    edge_target_label: record.edge?.targetLabel ?? null,
+    edge_type: record.edge?.type ?? null,
+    before: record.before,
+    after: record.after,
+    changed_at: record.timestamp,
+  };
+}
+
+function fromChangeLogRow(row: GraphChangeLogRow): GraphChangeRecord {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    author: row.author,
+    tenantId: row.tenant_id,
+    entity: row.entity,
+    change: row.change_type,
+    ...(row.node_id ? { nodeId: row.node_id } : {}),
+    ...(row.node_label ? { nodeLabel: row.node_label } : {}),
+    ...(row.edge_source && row.edge_target && row.edge_type
+      ? {
+          edge: {
+            source: row.edge_source,
+            target: row.edge_target,
+            type: row.edge_type,
+            ...(row.edge_source_label ? { sourceLabel: row.edge_source_label } : {}),
+            ...(row.edge_target_label ? { targetLabel: row.edge_target_label } : {}),
+          },
+        }
+      : {}),
+    before: row.before,
+    after: row.after,
+    source: row.source,
+    timestamp: new Date(row.changed_at).toISOString(),
+  };
+}
+
+/**
+ * Quote a value for a PostgREST `or` filter
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Supabase-backed version store
+ *
+ * Expects a service-role client; the tables are read-only for other roles.
+ */
+export class SupabaseGraphVersionStore implements GraphVersionStore {
+  private readonly client: GraphVersionSupabaseClient;
+
+  constructor(client: GraphVersionSupabaseClient) {
+    this.client = client.schema ? client.schema(AUDIT_SCHEMA) : client;
+  }
+
+  async appendChanges(records: GraphChangeRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { error } = await this.client.from('graph_change_log').insert(records.map(toChangeLogRow));
+    if (error) {
+      throw new Error(`Failed to record graph changes: ${error.message}`);
+    }
+  }
+
+  async listChanges(query: GraphChangeQuery = {}): Promise<GraphChangeRecord[]> {
+    let request = this.client
+      .from('graph_change_log')
+      .select('*')
+      .order('changed_at', { ascending: !query.newestFirst });
+
+    if (query.nodeId) {
+      const nodeId = quoteFilterValue(query.nodeId);
+      request = request.or(`node_id.eq.${nodeId},edge_source.eq.${nodeId},edge_target.eq.${nodeId}`);
+    }
+    if (query.batchId) {
+      request = request.eq('batch_id', query.batchId);
+    }
+    if (query.from) {
+      request = request.gte('changed_at', query.from.toISOString());
+    }
+    if (query.to) {
+      request = request.lte('changed_at', query.to.toISOString());
+    }
+    if (query.limit !== undefined) {
+      request = request.limit(query.limit);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw new Error(`Failed to list graph changes: ${error.message}`);
+    }
+    return ((data ?? []) as GraphChangeLogRow[]).map(fromChangeLogRow);
+  }
+
+  async listBatches(limit = 50): Promise<GraphChangeBatchSummary[]> {
+    const { data, error } = await this.client
+      .from('graph_change_batches')
+      .select('*')
+      .order('last_change_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list graph change batches: ${error.message}`);
+    }
+    return ((data ?? []) as GraphChangeBatchRow[]).map(row => ({
+      batchId: row.batch_id,
+      author: row.author ?? null,
+      source: row.source,
+      changeCount: Number(row.change_count),
+      firstChangeAt: new Date(row.first_change_at).toISOString(),
+      lastChangeAt: new Date(row.last_change_at).toISOString(),
+    }));
+  }
+
+  async saveSnapshot(snapshot: GraphSnapshot): Promise<void> {
+    const { error } = await this.client.from('graph_snapshots').insert({
+      name: snapshot.name,
+      description: snapshot.description,
+      created_by: snapshot.createdBy,
+      created_at: snapshot.createdAt,
+      node_count: snapshot.nodes.length,
+      edge_count: snapshot.edges.length,
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+    });
+
+    if (error) {
+      throw new Error(`Failed to save graph snapshot "${snapshot.name}": ${error.message}`);
+    }
+  }
+
+  async getSnapshot(name: string): Promise<GraphSnapshot | null> {
+    const { data, error } = await this.client
+      .from('graph_snapshots')
+      .select('name, description, created_by, created_at, nodes, edges')
+      .eq('name', name)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load graph snapshot "${name}": ${error.message}`);
+    }
+    if (!data) return null;
+
+    return {
+      name: data.name,
+      description: data.description ?? null,
+      createdBy: data.created_by ?? null,
+      createdAt: new Date(data.created_at).toISOString(),
+      nodes: data.nodes ?? [],
+      edges: data.edges ?? [],
+    };
+  }
+
+  async listSnapshots(): Promise<GraphSnapshotSummary[]> {
+    const { data, error } = await this.client
+      .from('graph_snapshots')
+      .select('name, description, created_by, created_at, node_count, edge_count')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list graph snapshots: ${error.message}`);
+    }
+    return ((data ?? []) as GraphSnapshotSummaryRow[]).map(row => ({
+      name: row.name,
+      description: row.description ?? null,
+      createdBy: row.created_by ?? null,
+      createdAt: new Date(row.created_at).toISOString(),
+      nodeCount: row.node_count,
+      edgeCount: row.edge_count,
+    }));
+  }
+}
@@ -0,0 +1,309 @@
+import { describe, expect, it, vi } from 'vitest';
+import neo4j from 'neo4j-driver';
+
+import type { GraphWriteService } from '../graphWriteService.js';
+import { InMemoryGraphVersionStore } from './graphVersionStore.js';
+import {
+  GraphVersioningService,
+  collapseGraphChanges,
+  diffGraphSnapshots,
+} from './graphVersioningService.js';
+import type { GraphChangeRecord, GraphSnapshot } from './types.js';
+
+let sequence = 0;
+
+const record = (overrides: Partial<GraphChangeRecord> = {}): GraphChangeRecord => ({
+  id: `change-${++sequence}`,
+  batchId: 'ingest-1',
+  author: 'ingest-sources',
+  tenantId: 'system',
+  entity: 'node',
+  change: 'updated',
+  nodeId: 'IE_BENEFIT_JOBSEEKERS',
+  nodeLabel: 'Benefit',
+  before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 232 },
+  after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+  source: 'ingestion',
+  timestamp: '2026-10-19T09:00:00.000Z',
+  ...overrides,
+});
+
+const edgeRecord = (overrides: Partial<GraphChangeRecord> = {}): GraphChangeRecord =>
+  record({
+    entity: 'edge',
+    change: 'added',
+    nodeId: undefined,
+    nodeLabel: undefined,
+    edge: {
+      source: 'IE_BENEFIT_JOBSEEKERS',
+      target: 'IE',
+      type: 'IN_JURISDICTION',
+      sourceLabel: 'Benefit',
+      targetLabel: 'Jurisdiction',
+    },
+    before: null,
+    after: {},
+    ...overrides,
+  });
+
+/**
+ * Graph reader that answers the rollback's current-state queries from a map
+ */
+function createGraphReader(current: Record<string, Record<string, unknown>> = {}) {
+  return {
+    executeCypher: vi.fn(async (query: string, params?: Record<string, unknown>) => {
+      const key = query.includes('(a {id: $source})')
+        ? `${params?.source}|${params?.type}|${params?.target}`
+        : String(params?.id);
+      return current[key] ? [{ properties: current[key] }] : [];
+    }),
+  };
+}
+
+function createWriteService() {
+  return { revertChange: vi.fn().mockResolvedValue(undefined) } as unknown as GraphWriteService & {
+    revertChange: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('collapseGraphChanges', () => {
+  it('keeps the first before and last after for each entity', () => {
+    const collapsed = collapseGraphChanges([
+      record({ before: null, after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 232 } }),
+      record({
+        before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 232 },
+        after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+      }),
+    ]);
+
+    expect(collapsed).toHaveLength(1);
+    expect(collapsed[0]).toMatchObject({
+      change: 'added',
+      before: null,
+      after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+    });
+  });
+
+  it('drops entities that ended where they started', () => {
+    const collapsed = collapseGraphChanges([
+      record(),
+      record({ before: record().after, after: record().before }),
+      edgeRecord(),
+    ]);
+
+    expect(collapsed).toHaveLength(1);
+    expect(collapsed[0].entity).toBe('edge');
+  });
+});
+
+describe('diffGraphSnapshots', () => {
+  it('reports added, removed and updated nodes and relationships', () => {
+    const from: GraphSnapshot = {
+      name: 'before-budget',
+      description: null,
+      createdBy: null,
+      createdAt: '2026-10-01T00:00:00.000Z',
+      nodes: [
+        { id: 'IE_BENEFIT_JOBSEEKERS', labels: ['Benefit'], properties: { weekly_rate: 232, name: 'JB' } },
+        { id: 'IE_RELIEF_OLD', labels: ['Relief'], properties: {} },
+      ],
+      edges: [
+        { source: 'IE_RELIEF_OLD', sourceLabel: 'Relief', target: 'IE', targetLabel: 'Jurisdiction', type: 'IN_JURISDICTION', properties: {} },
+      ],
+    };
+    const to: GraphSnapshot = {
+      ...from,
+      name: 'after-budget',
+      createdAt: '2026-10-19T00:00:00.000Z',
+      nodes: [
+        { id: 'IE_BENEFIT_JOBSEEKERS', labels: ['Benefit'], properties: { name: 'JB', weekly_rate: 244 } },
+        { id: 'IE_RELIEF_NEW', labels: ['Relief'], properties: { name: 'New relief' } },
+      ],
+      edges: [],
+    };
+
+    const diff = diffGraphSnapshots(from, to);
+
+    expect(diff.nodes.added).toEqual([
+      { id: 'IE_RELIEF_NEW', label: 'Relief', properties: { name: 'New relief' } },
+    ]);
+    expect(diff.nodes.removed).toEqual([{ id: 'IE_RELIEF_OLD', label: 'Relief', properties: {} }]);
+    expect(diff.nodes.updated).toEqual([
+      expect.objectContaining({
+        key: { id: 'IE_BENEFIT_JOBSEEKERS', label: 'Benefit' },
+        changedProperties: ['weekly_rate'],
+      }),
+    ]);
+    expect(diff.edges.removed).toEqual([
+      { source: 'IE_RELIEF_OLD', target: 'IE', type: 'IN_JURISDICTION', properties: {} },
+    ]);
+  });
+});
+
+describe('GraphVersioningService', () => {
+  it('exports and diffs named snapshots', async () => {
+    const store = new InMemoryGraphVersionStore();
+    const graphReader = {
+      executeCypher: vi
+        .fn()
+        .mockResolvedValueOnce([{ id: 'IE', labels: ['Jurisdiction'], properties: { id: 'IE', name: 'Ireland' } }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { id: 'IE', labels: ['Jurisdiction'], properties: { id: 'IE', name: 'Éire' } },
+        ])
+        .mockResolvedValueOnce([]),
+    };
+    const service = new GraphVersioningService({ store, graphReader });
+
+    const summary = await service.exportSnapshot('v1', { createdBy: 'admin' });
+    await service.exportSnapshot('v2');
+    const diff = await service.diffSnapshots('v1', 'v2');
+
+    expect(summary).toMatchObject({ name: 'v1', createdBy: 'admin', nodeCount: 1, edgeCount: 0 });
+    expect(diff.nodes.updated[0].changedProperties).toEqual(['name']);
+    await expect(service.diffSnapshots('v1', 'missing')).rejects.toThrow('not found');
+  });
+
+  it('exports Bolt values in snapshots as plain values', async () => {
+    const store = new InMemoryGraphVersionStore();
+    const graphReader = {
+      executeCypher: vi
+        .fn()
+        .mockResolvedValueOnce([
+          {
+            id: 'IE_BENEFIT_JOBSEEKERS',
+            labels: ['Benefit'],
+            properties: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: neo4j.int(244) },
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            source: 'IE_BENEFIT_JOBSEEKERS',
+            sourceLabel: 'Benefit',
+            target: 'IE',
+            targetLabel: 'Jurisdiction',
+            type: 'IN_JURISDICTION',
+            properties: { weight: neo4j.int(1) },
+          },
+        ]),
+    };
+    const service = new GraphVersioningService({ store, graphReader });
+
+    await service.exportSnapshot('v1');
+    const snapshot = await store.getSnapshot('v1');
+
+    expect(snapshot?.nodes[0].properties).toEqual({ id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 });
+    expect(snapshot?.edges[0].properties).toEqual({ weight: 1 });
+  });
+
+  it('diffs the graph between two dates from the change log', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([
+      record({ timestamp: '2026-10-01T00:00:00.000Z' }),
+      record({
+        timestamp: '2026-10-10T00:00:00.000Z',
+        before: record().after,
+        after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 250 },
+      }),
+    ]);
+    const service = new GraphVersioningService({ store, graphReader: createGraphReader() });
+
+    const diff = await service.diffBetween(
+      new Date('2026-10-05T00:00:00.000Z'),
+      new Date('2026-10-19T00:00:00.000Z'),
+    );
+
+    expect(diff.nodes.updated).toEqual([
+      expect.objectContaining({
+        before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+        after: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 250 },
+      }),
+    ]);
+  });
+
+  it('rolls back a batch newest first under a new batch id', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([
+      record({ timestamp: '2026-10-19T09:00:00.000Z' }),
+      edgeRecord({ timestamp: '2026-10-19T09:00:01.000Z' }),
+    ]);
+    const graphReader = createGraphReader({
+      IE_BENEFIT_JOBSEEKERS: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+      'IE_BENEFIT_JOBSEEKERS|IN_JURISDICTION|IE': {},
+    });
+    const writeService = createWriteService();
+    const service = new GraphVersioningService({ store, graphReader, writeService });
+
+    const report = await service.rollbackBatch('ingest-1', { author: 'admin' });
+
+    expect(report.conflicts).toEqual([]);
+    expect(report.reverted.map(change => change.entity)).toEqual(['edge', 'node']);
+    expect(writeService.revertChange).toHaveBeenCalledTimes(2);
+    expect(writeService.revertChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ nodeId: 'IE_BENEFIT_JOBSEEKERS' }),
+      { batchId: report.rollbackBatchId, author: 'admin' },
+    );
+    expect(report.rollbackBatchId).toMatch(/^rollback:ingest-1:/);
+  });
+
+  it('leaves entities changed since the batch and reports them as conflicts', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([record()]);
+    const graphReader = createGraphReader({
+      IE_BENEFIT_JOBSEEKERS: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 250 },
+    });
+    const writeService = createWriteService();
+    const service = new GraphVersioningService({ store, graphReader, writeService });
+
+    const report = await service.rollbackBatch('ingest-1');
+
+    expect(writeService.revertChange).not.toHaveBeenCalled();
+    expect(report.conflicts).toEqual([
+      {
+        entity: 'node',
+        nodeId: 'IE_BENEFIT_JOBSEEKERS',
+        expected: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 244 },
+        actual: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 250 },
+      },
+    ]);
+  });
+
+  it('compares and restores Bolt integers as numbers', async () => {
+    const store = new InMemoryGraphVersionStore();
+    // A change recorded before values were normalised keeps the Integer's JSON form
+    await store.appendChanges([
+      record({
+        before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: { low: 232, high: 0 } },
+      }),
+    ]);
+    const graphReader = createGraphReader({
+      IE_BENEFIT_JOBSEEKERS: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: neo4j.int(244) },
+    });
+    const writeService = createWriteService();
+    const service = new GraphVersioningService({ store, graphReader, writeService });
+
+    const report = await service.rollbackBatch('ingest-1');
+
+    expect(report.conflicts).toEqual([]);
+    expect(writeService.revertChange).toHaveBeenCalledWith(
+      expect.objectContaining({ before: { id: 'IE_BENEFIT_JOBSEEKERS', weekly_rate: 232 } }),
+      expect.anything(),
+    );
+  });
+
+  it('does not write during a dry run', async () => {
+    const store = new InMemoryGraphVersionStore();
+    await store.appendChanges([record()]);
+    const graphReader = createGraphReader({
+      IE_BENEFIT_JOBSEEKERS: { weekly_rate: 244, id: 'IE_BENEFIT_JOBSEEKERS' },
+    });
+    const service = new GraphVersioningService({ store, graphReader });
+
+    const report = await service.rollbackBatch('ingest-1', { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.reverted).toHaveLength(1);
+    await expect(service.rollbackBatch('ingest-1')).rejects.toThrow('requires a GraphWriteService');
+    await expect(service.rollbackBatch('unknown', { dryRun: true })).rejects.toThrow('No recorded graph changes');
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Graph versioning service
+ *
+ * Builds on the change log recorded by GraphWriteService to export named
+ * snapshots of the graph, diff two snapshots or two dates, list the history
+ * of a node and roll back a bad ingestion batch.
+ *
+ * Rollback collapses the batch's changes to one change per node or
+ * relationship, checks that nothing has changed the entity since, and writes
+ * the inverse through GraphWriteService so the ingress guard still applies and
+ * the reverting writes are themselves recorded.
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import { toPlainGraphProperties } from '../boltValues.js';
+import type { GraphChangeEvent } from '../graphChangeFeed.js';
+import type { GraphWriteService } from '../graphWriteService.js';
+import type { GraphClient } from '../types.js';
+import type {
+  GraphChangeRecord,
+  GraphDiff,
+  GraphDiffEdgeKey,
+  GraphDiffNodeKey,
+  GraphRollbackConflict,
+  GraphRollbackReport,
+  GraphSnapshot,
+  GraphSnapshotEdge,
+  GraphSnapshotNode,
+  GraphSnapshotSummary,
+  GraphVersionStore,
+} from './types.js';
+
+/**
+ * Graph reads needed for snapshots and rollback; BoltGraphClient satisfies this
+ */
+export type GraphVersioningGraphReader = Pick<GraphClient, 'executeCypher'>;
+
+export interface GraphVersioningServiceConfig {
+  store: GraphVersionStore;
+  graphReader: GraphVersioningGraphReader;
+  /** Required for rollback */
+  writeService?: GraphWriteService;
+}
+
+export interface ExportSnapshotOptions {
+  description?: string;
+  createdBy?: string;
+}
+
+export interface RollbackBatchOptions {
+  /** Recorded as the author of the reverting writes */
+  author?: string;
+  /** Report what would be reverted without writing */
+  dryRun?: boolean;
+  /** Revert entities even if they have changed since the batch */
+  force?: boolean;
+}
+
+const logger = createLogger('GraphVersioningService', { component: 'GraphVersioning' });
+
+function asRecords(result: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(result) ? (result as Array<Record<string, unknown>>) : [];
+}
+
+function edgeKey(edge: GraphDiffEdgeKey): string {
+  return `${edge.source}|${edge.type}|${edge.target}`;
+}
+
+function changeKey(change: GraphChangeEvent): string {
+  return change.entity === 'node' ? `node|${change.nodeId}` : `edge|${edgeKey(change.edge!)}`;
+}
+
+/**
+ * A recorded change with Bolt integers and temporal values, including
+ * integers recorded in their JSON form, converted to plain values
+ */
+function toPlainChange(change: GraphChangeEvent): GraphChangeEvent {
+  return {
+    ...change,
+    before: change.before ? toPlainGraphProperties(change.before) : null,
+    after: change.after ? toPlainGraphProperties(change.after) : null,
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Property names whose values differ between two property maps
+ */
+export function changedPropertyNames(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => stableStringify(before[key]) !== stableStringify(after[key]))
+    .sort();
+}
+
+function sameProperties(
+  a: Record<string, unknown> | null,
+  b: Record<string, unknown> | null
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return changedPropertyNames(a, b).length === 0;
+}
+
+/**
+ * Collapse a sequence of changes into one net change per node or relationship
+ *
+ * Each entity keeps the properties it had before its first change and after
+ * its last. Entities that ended where they started are dropped. The result
+ * is ordered by each entity's first change.
+ */
+export function collapseGraphChanges(changes: GraphChangeEvent[]): GraphChangeEvent[] {
+  const collapsed = new Map<string, GraphChangeEvent>();
+
+  for (const change of changes) {
+    const key = changeKey(change);
+    const existing = collapsed.get(key);
+    collapsed.set(
+      key,
+      existing ? { ...change, before: existing.before } : { ...change }
+    );
+  }
+
+  return [...collapsed.values()]
+    .filter(change => !sameProperties(change.before, change.after))
+    .map(change => ({
+      ...change,
+      change: !change.before ? 'added' : !change.after ? 'removed' : 'updated',
+    }));
+}
+
+function emptyDiff(): GraphDiff {
+  return {
+    nodes: { added: [], removed: [], updated: [] },
+    edges: { added: [], removed: [], updated: [] },
+  };
+}
+
+/**
+ * Diff built from net changes (see collapseGraphChanges)
+ */
+function diffFromChanges(changes: GraphChangeEvent[]): GraphDiff {
+  const diff = emptyDiff();
+
+  for (const change of changes) {
+    if (change.entity === 'node') {
+      const key: GraphDiffNodeKey = { id: change.nodeId!, label: change.nodeLabel ?? null };
+      if (!change.before) {
+        diff.nodes.added.push({ ...key, properties: change.after! });
+      } else if (!change.after) {
+        diff.nodes.removed.push({ ...key, properties: change.before });
+      } else {
+        diff.nodes.updated.push({
+          key,
+          before: change.before,
+          after: change.after,
+          changedProperties: changedPropertyNames(change.before, change.after),
+        });
+      }
+      continue;
+    }
+
+    const { source, target, type } = change.edge!;
+    const key: GraphDiffEdgeKey = { source, target, type };
+    if (!change.before) {
+      diff.edges.added.push({ ...key, properties: change.after! });
+    } else if (!change.after) {
+      diff.edges.removed.push({ ...key, properties: change.before });
+    } else {
+      diff.edges.updated.push({
+        key,
+        before: change.before,
+        after: change.after,
+        changedProperties: changedPropertyNames(change.before, change.after),
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Diff two snapshots of the graph
+ */
+export function diffGraphSnapshots(from: GraphSnapshot, to: GraphSnapshot): GraphDiff {
+  const changes: GraphChangeEvent[] = [];
+  const base = { source: 'script' as const, timestamp: to.createdAt };
+
+  const fromNodes = new Map(from.nodes.map(node => [node.id, node]));
+  const toNodes = new Map(to.nodes.map(node => [node.id, node]));
+  for (const id of new Set([...fromNodes.keys(), ...toNodes.keys()])) {
+    const before = fromNodes.get(id);
+    const after = toNodes.get(id);
+    changes.push({
+      ...base,
+      entity: 'node',
+      change: 'updated',
+      nodeId: id,
+      nodeLabel: (after ?? before)!.labels[0],
+      before: before?.properties ?? null,
+      after: after?.properties ?? null,
+    });
+  }
+
+  const fromEdges = new Map(from.edges.map(edge => [edgeKey(edge), edge]));
+  const toEdges = new Map(to.edges.map(edge => [edgeKey(edge), edge]));
+  for (const key of new Set([...fromEdges.keys(), ...toEdges.keys()])) {
+    const before = fromEdges.get(key);
+    const after = toEdges.get(key);
+    const edge = (after ?? before)!;
+    changes.push({
+      ...base,
+      entity: 'edge',
+      change: 'updated',
+      edge: { source: edge.source, target: edge.target, type: edge.type },
+      before: before?.properties ?? null,
+      after: after?.properties ?? null,
+    });
+  }
+
+  return diffFromChanges(collapseGraphChanges(changes));
+}
+
+/**
+ * Snapshots, diffs, history and rollback for the global graph
+ */
+export class GraphVersioningService {
+  private store: GraphVersionStore;
+  private graphReader: GraphVersioningGraphReader;
+  private writeService?: GraphWriteService;
+
+  constructor(config: GraphVersioningServiceConfig) {
+    this.store = config.store;
+    this.graphReader = config.graphReader;
+    this.writeService = config.writeService;
+  }
+
+  /**
+   * Export every node and relationship in the graph as a named snapshot
+   */
+  async exportSnapshot(name: string, options: ExportSnapshotOptions = {}): Promise<GraphSnapshotSummary> {
+    const nodeRecords = asRecords(await this.graphReader.executeCypher(
+      'MATCH (n) WHERE n.id IS NOT NULL RETURN n.id AS id, labels(n) AS labels, properties(n) AS properties'
+    ));
+    const edgeRecords = asRecords(await this.graphReader.executeCypher(
+      'MATCH (a)-[r]->(b) WHERE a.id IS NOT NULL AND b.id IS NOT NULL ' +
+        'RETURN a.id AS source, labels(a)[0] AS sourceLabel, b.id AS target, labels(b)[0] AS targetLabel, ' +
+        'type(r) AS type, properties(r) AS properties'
+    ));
+
+    const snapshot: GraphSnapshot = {
+      name,
+      description: options.description ?? null,
+      createdBy: options.createdBy ?? null,
+      createdAt: new Date().toISOString(),
+      nodes: nodeRecords.map((record): GraphSnapshotNode => ({
+        id: String(record.id),
+        labels: (record.labels as string[] | undefined) ?? [],
+        properties: toPlainGraphProperties((record.properties as Record<string, unknown> | undefined) ?? {}),
+      })),
+      edges: edgeRecords.map((record): GraphSnapshotEdge => ({
+        source: String(record.source),
+        sourceLabel: String(record.sourceLabel),
+        target: String(record.target),
+        targetLabel: String(record.targetLabel),
+        type: String(record.type),
+        properties: toPlainGraphProperties((record.properties as Record<string, unknown> | undefined) ?? {}),
+      })),
+    };
+
+    await this.store.saveSnapshot(snapshot);
+    logger.info(
+      { name, nodeCount: snapshot.nodes.length, edgeCount: snapshot.edges.length },
+      'Exported graph snapshot'
+    );
+
+    const { nodes, edges, ...summary } = snapshot;
+    return { ...summary, nodeCount: nodes.length, edgeCount: edges.length };
+  }
+
+  /**
+   * Diff two named snapshots
+   */
+  async diffSnapshots(fromName: string, toName: string): Promise<GraphDiff> {
+    const [from, to] = await Promise.all([
+      this.store.getSnapshot(fromName),
+      this.store.getSnapshot(toName),
+    ]);
+    if (!from) throw new Error(`Graph snapshot "${fromName}" not found`);
+    if (!to) throw new Error(`Graph snapshot "${toName}" not found`);
+
+    return diffGraphSnapshots(from, to);
+  }
+
+  /**
+   * Diff the graph between two dates using the change log
+   */
+  async diffBetween(from: Date, to: Date): Promise<GraphDiff> {
+    const changes = await this.store.listChanges({ from, to });
+    return diffFromChanges(collapseGraphChanges(changes));
+  }
+
+  /**
+   * Changes to a node and its relationships, newest first
+   */
+  async getNodeHistory(nodeId: string, limit = 100): Promise<GraphChangeRecord[]> {
+    return this.store.listChanges({ nodeId, newestFirst: true, limit });
+  }
+
+  /**
+   * Revert every change recorded under a batch, newest first
+   *
+   * Entities changed again after the batch are reported as conflicts and left
+   * alone unless `force` is set. Deleting a node the batch added also removes
+   * relationships other batches attached to it.
+   */
+  async rollbackBatch(batchId: string, options: RollbackBatchOptions = {}): Promise<GraphRollbackReport> {
+    if (!this.writeService && !options.dryRun) {
+      throw new Error('Rolling back a graph batch requires a GraphWriteService');
+    }
+
+    const records = await this.store.listChanges({ batchId });
+    if (records.length === 0) {
+      throw new Error(`No recorded graph changes for batch "${batchId}"`);
+    }
+
+    const rollbackBatchId = `rollback:${batchId}:${new Date().toISOString()}`;
+    const report: GraphRollbackReport = {
+      batchId,
+      rollbackBatchId,
+      dryRun: options.dryRun ?? false,
+      reverted: [],
+      conflicts: [],
+    };
+
+    for (const change of collapseGraphChanges(records).reverse().map(toPlainChange)) {
+      const actual = await this.readCurrentProperties(change);
+      if (!options.force && !sameProperties(actual, change.after)) {
+        const conflict: GraphRollbackConflict = {
+          entity: change.entity,
+          ...(change.nodeId ? { nodeId: change.nodeId } : {}),
+          ...(change.edge ? { edge: change.edge } : {}),
+          expected: change.after,
+          actual,
+        };
+        report.conflicts.push(conflict);
+        continue;
+      }
+
+      if (!report.dryRun) {
+        await this.writeService!.revertChange(change, {
+          batchId: rollbackBatchId,
+          author: options.author,
+        });
+      }
+      report.reverted.push(change);
+    }
+
+    logger.info(
+      {
+        batchId,
+        rollbackBatchId,
+        dryRun: report.dryRun,
+        reverted: report.reverted.length,
+        conflicts: report.conflicts.length,
+      },
+      'Rolled back graph batch'
+    );
+    return report;
+  }
+
+  /**
+   * Current properties of the entity a change targeted, as plain values
+   */
+  private async readCurrentProperties(change: GraphChangeEvent): Promise<Record<string, unknown> | null> {
+    const records = change.entity === 'node'
+      ? asRecords(await this.graphReader.executeCypher(
+          'MATCH (n) WHERE n.id = $id AND $label IN labels(n) RETURN properties(n) AS properties LIMIT 1',
+          { id: change.nodeId, label: change.nodeLabel }
+        ))
+      : asRecords(await this.graphReader.executeCypher(
+          'MATCH (a {id: $source})-[r]->(b {id: $target}) WHERE type(r) = $type ' +
+            'RETURN properties(r) AS properties LIMIT 1',
+          { source: change.edge!.source, target: change.edge!.target, type: change.edge!.type }
+        ));
+
+    const properties = records[0]?.properties as Record<string, unknown> | undefined;
+    return properties ? toPlainGraphProperties(properties) : null;
+  }
+}
+
+/**
+ * Create a GraphVersioningService instance
+ */
+export function createGraphVersioningService(config: GraphVersioningServiceConfig): GraphVersioningService {
+  return new GraphVersioningService(config);
+}
@@ -0,0 +1,170 @@
+/**
+ * Types for graph versioning
+ *
+ * Every committed write made through GraphWriteService can be recorded as a
+ * GraphChangeRecord. The change log answers "who changed this node and when",
+ * diffs the graph between two dates and rolls back ingestion batches. Named
+ * snapshots capture the whole graph for diffing two points in time.
+ */
+
+import type { GraphChangeEvent } from '../graphChangeFeed.js';
+
+/**
+ * A recorded change: the change event plus who made it and in which batch
+ */
+export interface GraphChangeRecord extends GraphChangeEvent {
+  id: string;
+  /** Groups the writes of one ingestion run or job; null for ad-hoc writes */
+  batchId: string | null;
+  /** Person or process that made the write, e.g. 'ingest-sources' */
+  author: string | null;
+  /** Audit identifier of the writer (never persisted in the graph) */
+  tenantId: string | null;
+}
+
+/**
+ * Filter for listing recorded changes
+ */
+export interface GraphChangeQuery {
+  /** Changes to this node, including relationships it is an endpoint of */
+  nodeId?: string;
+  batchId?: string;
+  /** Inclusive lower bound on the change timestamp */
+  from?: Date;
+  /** Inclusive upper bound on the change timestamp */
+  to?: Date;
+  /** Newest first; defaults to oldest first */
+  newestFirst?: boolean;
+  limit?: number;
+}
+
+/**
+ * Summary of one ingestion batch in the change log
+ */
+export interface GraphChangeBatchSummary {
+  batchId: string;
+  author: string | null;
+  source: GraphChangeEvent['source'];
+  changeCount: number;
+  firstChangeAt: string;
+  lastChangeAt: string;
+}
+
+export interface GraphSnapshotNode {
+  id: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface GraphSnapshotEdge {
+  source: string;
+  sourceLabel: string;
+  target: string;
+  targetLabel: string;
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Named export of every node and relationship in the graph
+ */
+export interface GraphSnapshot {
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  nodes: GraphSnapshotNode[];
+  edges: GraphSnapshotEdge[];
+}
+
+/**
+ * Snapshot metadata without its contents
+ */
+export interface GraphSnapshotSummary {
+  name: string;
+  description: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+/**
+ * A node or relationship whose properties differ between two versions
+ */
+export interface GraphEntityChange<Key> {
+  key: Key;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  /** Property names that were added, removed or changed */
+  changedProperties: string[];
+}
+
+export interface GraphDiffNodeKey {
+  id: string;
+  label: string | null;
+}
+
+export interface GraphDiffEdgeKey {
+  source: string;
+  target: string;
+  type: string;
+}
+
+/**
+ * Differences between two versions of the graph
+ */
+export interface GraphDiff {
+  nodes: {
+    added: Array<GraphDiffNodeKey & { properties: Record<string, unknown> }>;
+    removed: Array<GraphDiffNodeKey & { properties: Record<string, unknown> }>;
+    updated: Array<GraphEntityChange<GraphDiffNodeKey>>;
+  };
+  edges: {
+    added: Array<GraphDiffEdgeKey & { properties: Record<string, unknown> }>;
+    removed: Array<GraphDiffEdgeKey & { properties: Record<string, unknown> }>;
+    updated: Array<GraphEntityChange<GraphDiffEdgeKey>>;
+  };
+}
+
+/**
+ * A change that rollback left in place because the entity has been changed
+ * again since the batch wrote it
+ */
+export interface GraphRollbackConflict {
+  entity: GraphChangeEvent['entity'];
+  nodeId?: string;
+  edge?: GraphChangeEvent['edge'];
+  /** Properties the batch left the entity with */
+  expected: Record<string, unknown> | null;
+  /** Properties the entity has now */
+  actual: Record<string, unknown> | null;
+}
+
+/**
+ * Outcome of rolling back a batch
+ */
+export interface GraphRollbackReport {
+  batchId: string;
+  /** Batch id the reverting writes were recorded under */
+  rollbackBatchId: string;
+  dryRun: boolean;
+  /** Changes reverted (or that would be reverted, for dry runs) */
+  reverted: GraphChangeEvent[];
+  conflicts: GraphRollbackConflict[];
+}
+
+/**
+ * Storage for the change log and snapshots
+ */
+export interface GraphVersionStore {
+  /** Append changes; records are immutable once written */
+  appendChanges(records: GraphChangeRecord[]): Promise<void>;
+  listChanges(query?: GraphChangeQuery): Promise<GraphChangeRecord[]>;
+  /** Batches ordered by their most recent change, newest first */
+  listBatches(limit?: number): Promise<GraphChangeBatchSummary[]>;
+  /** Save a snapshot; names are unique */
+  saveSnapshot(snapshot: GraphSnapshot): Promise<void>;
+  getSnapshot(name: string): Promise<GraphSnapshot | null>;
+  listSnapshots(): Promise<GraphSnapshotSummary[]>;
+}
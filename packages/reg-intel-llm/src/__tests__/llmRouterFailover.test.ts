@@ -0,0 +1,401 @@
+import { beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+
+vi.mock('@reg-copilot/reg-intel-observability', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@reg-copilot/reg-intel-observability')>();
+  return {
+    ...actual,
+    recordLlmFailover: vi.fn(),
+  };
+});
+
+import { recordLlmFailover } from '@reg-copilot/reg-intel-observability';
+import type { ChatMessage } from '../types.js';
+import {
+  LlmRouter,
+  type LlmFailoverEvent,
+  type LlmProviderClient,
+  type LlmStreamChunk,
+  type TenantLlmPolicy,
+} from '../llmRouter.js';
+import { LlmError } from '../errors.js';
+import { EgressClient } from '../egressClient.js';
+import {
+  ProviderCircuitBreaker,
+  computeBackoffDelayMs,
+  isTransientProviderError,
+  resolveRetryPolicy,
+} from '../providerResilience.js';
+
+class StaticPolicyStore {
+  constructor(private policy: TenantLlmPolicy | null) {}
+  async getPolicy() {
+    return this.policy;
+  }
+  async setPolicy() {}
+}
+
+type MockProvider = {
+  chat: Mock<any[], Promise<string>>;
+  streamChat: Mock<any[], AsyncIterable<LlmStreamChunk>>;
+};
+
+function createProvider(behaviour: {
+  chat?: () => Promise<string>;
+  stream?: () => AsyncIterable<LlmStreamChunk>;
+}): MockProvider {
+  return {
+    chat: vi.fn<any[], Promise<string>>(behaviour.chat ?? (async () => 'ok')),
+    streamChat: vi.fn<any[], AsyncIterable<LlmStreamChunk>>(
+      behaviour.stream ??
+        async function* () {
+          yield { type: 'text', delta: 'ok' } as const;
+          yield { type: 'done' } as const;
+        }
+    ),
+  };
+}
+
+const serverError = () => new LlmError('upstream unavailable', 503);
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'What is Class S PRSI?' }];
+
+function basePolicy(overrides: Partial<TenantLlmPolicy> = {}): TenantLlmPolicy {
+  return {
+    tenantId: 'tenant-1',
+    defaultProvider: 'openai',
+    defaultModel: 'gpt-4o',
+    allowRemoteEgress: true,
+    egressMode: 'off',
+    allowOffMode: true,
+    tasks: [
+      {
+        task: 'main-chat',
+        provider: 'openai',
+        model: 'gpt-4o',
+        retry: { maxAttempts: 2, initialDelayMs: 10 },
+        fallbacks: [
+          { provider: 'anthropic', model: 'claude-3-5-sonnet' },
+          { provider: 'local', model: 'llama-3-8b' },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function createRouter(
+  providers: Record<string, LlmProviderClient | MockProvider>,
+  policy: TenantLlmPolicy,
+  breaker = new ProviderCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 })
+) {
+  const sleep = vi.fn(async () => {});
+  const router = new LlmRouter(
+    providers as Record<string, LlmProviderClient>,
+    new StaticPolicyStore(policy),
+    'openai',
+    'gpt-4o',
+    new EgressClient({ allowedProviders: Object.keys(providers), mode: 'off' }),
+    { circuitBreaker: breaker, sleep }
+  );
+  return { router, sleep, breaker };
+}
+
+describe('LlmRouter failover', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('retries transient failures with backoff before succeeding on the primary provider', async () => {
+    let calls = 0;
+    const openai = createProvider({
+      chat: async () => {
+        calls += 1;
+        if (calls === 1) throw serverError();
+        return 'primary answer';
+      },
+    });
+    const anthropic = createProvider({});
+    const { router, sleep } = createRouter({ openai, anthropic }, basePolicy());
+
+    const result = await router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' });
+
+    expect(result).toBe('primary answer');
+    expect(openai.chat).toHaveBeenCalledTimes(2);
+    expect(anthropic.chat).not.toHaveBeenCalled();
+    expect(sleep).toHaveBeenCalledWith(10);
+  });
+
+  it('fails over to the next provider once retries are exhausted', async () => {
+    const openai = createProvider({ chat: async () => { throw serverError(); } });
+    const anthropic = createProvider({ chat: async () => 'fallback answer' });
+    const onFailover = vi.fn();
+    const { router } = createRouter({ openai, anthropic }, basePolicy());
+
+    const result = await router.chat(messages, {
+      tenantId: 'tenant-1',
+      task: 'main-chat',
+      onFailover,
+    });
+
+    expect(result).toBe('fallback answer');
+    expect(openai.chat).toHaveBeenCalledTimes(2);
+    expect(anthropic.chat).toHaveBeenCalledWith(
+      expect.any(Array),
+      'claude-3-5-sonnet',
+      expect.objectContaining({ tenantId: 'tenant-1', task: 'main-chat' })
+    );
+    expect(onFailover).toHaveBeenCalledWith(
+      expect.objectContaining<Partial<LlmFailoverEvent>>({
+        fromProvider: 'openai',
+        toProvider: 'anthropic',
+        reason: 'error',
+        statusCode: 503,
+        attempts: 2,
+      })
+    );
+  
+    // The counter is keyed without the tenant to keep its cardinality bounded
+    expect(recordLlmFailover).toHaveBeenCalledWith(
+      expect.objectContaining({ fromProvider: 'openai', reason: 'retry', task: 'main-chat' })
+    );
+    expect(recordLlmFailover).toHaveBeenCalledWith(
+      expect.objectContaining({ fromProvider: 'openai', toProvider: 'anthropic', reason: 'error' })
+    );
+    for (const [attributes] of vi.mocked(recordLlmFailover).mock.calls) {
+      expect(attributes).not.toHaveProperty('tenantId');
+    }
+  });
+
+  it('does not retry client errors but still fails over', async () => {
+    const openai = createProvider({
+      chat: async () => { throw new LlmError('invalid api key', 401); },
+    });
+    const anthropic = createProvider({ chat: async () => 'fallback answer' });
+    const { router, sleep } = createRouter({ openai, anthropic }, basePolicy());
+
+    await expect(router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' })).resolves.toBe(
+      'fallback answer'
+    );
+    expect(openai.chat).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('only fails over to local providers when remote egress is disabled', async () => {
+    const local = createProvider({ chat: async () => { throw serverError(); } });
+    const anthropic = createProvider({ chat: async () => 'remote answer' });
+    const policy = basePolicy({
+      allowRemoteEgress: false,
+      defaultProvider: 'local',
+      defaultModel: 'llama-3-70b',
+      tasks: [
+        {
+          task: 'main-chat',
+          provider: 'local',
+          model: 'llama-3-70b',
+          fallbacks: [
+            { provider: 'anthropic', model: 'claude-3-5-sonnet' },
+            { provider: 'local', model: 'llama-3-8b' },
+          ],
+        },
+      ],
+    });
+    const { router } = createRouter({ local, anthropic }, policy);
+
+    await expect(
+      router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' })
+    ).rejects.toThrow('All 2 providers failed for task main-chat');
+
+    expect(anthropic.chat).not.toHaveBeenCalled();
+    expect(local.chat.mock.calls.map(call => call[1])).toEqual(['llama-3-70b', 'llama-3-8b']);
+  });
+
+  it('skips providers whose circuit is open', async () => {
+    const openai = createProvider({ chat: async () => { throw serverError(); } });
+    const anthropic = createProvider({ chat: async () => 'fallback answer' });
+    const breaker = new ProviderCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 60_000 });
+    const { router } = createRouter({ openai, anthropic }, basePolicy(), breaker);
+
+    await router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' });
+    expect(breaker.getState('openai')).toBe('open');
+    openai.chat.mockClear();
+
+    const onFailover = vi.fn();
+    await router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat', onFailover });
+
+    expect(openai.chat).not.toHaveBeenCalled();
+    expect(onFailover).toHaveBeenCalledWith(
+      expect.objectContaining({ fromProvider: 'openai', reason: 'circuit_open', attempts: 0 })
+    );
+  });
+
+  it('lets a single half-open trial through and fails concurrent requests over', async () => {
+    let now = 0;
+    const breaker = new ProviderCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 100,
+      now: () => now,
+    });
+    breaker.recordFailure('openai');
+    now = 200;
+
+    let releaseTrial: (answer: string) => void = () => {};
+    const openai = createProvider({
+      chat: () => new Promise<string>(resolve => { releaseTrial = resolve; }),
+    });
+    const anthropic = createProvider({ chat: async () => 'fallback answer' });
+    const { router } = createRouter({ openai, anthropic }, basePolicy(), breaker);
+
+    const trial = router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' });
+    await vi.waitFor(() => expect(openai.chat).toHaveBeenCalledTimes(1));
+
+    const concurrent = await Promise.all([
+      router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' }),
+      router.chat(messages, { tenantId: 'tenant-1', task: 'main-chat' }),
+    ]);
+    expect(concurrent).toEqual(['fallback answer', 'fallback answer']);
+    expect(openai.chat).toHaveBeenCalledTimes(1);
+
+    releaseTrial('primary answer');
+    await expect(trial).resolves.toBe('primary answer');
+    expect(breaker.getState('openai')).toBe('closed');
+  });
+
+  it('rethrows the original error when there is no fallback chain', async () => {
+    const openai = createProvider({ chat: async () => { throw new LlmError('boom', 400); } });
+    const { router } = createRouter({ openai }, basePolicy({ tasks: [] }));
+
+    await expect(router.chat(messages, { tenantId: 'tenant-1' })).rejects.toThrow('boom');
+  });
+
+  it('emits failover chunks and streams from the fallback when the primary stream errors first', async () => {
+    const openai = createProvider({
+      stream: async function* () {
+        yield { type: 'error', error: serverError() } as const;
+      },
+    });
+    const anthropic = createProvider({
+      stream: async function* () {
+        yield { type: 'text', delta: 'from anthropic' } as const;
+        yield { type: 'done' } as const;
+      },
+    });
+    const { router } = createRouter({ openai, anthropic }, basePolicy());
+
+    const chunks: LlmStreamChunk[] = [];
+    for await (const chunk of router.streamChat(messages, { tenantId: 'tenant-1', task: 'main-chat' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0]).toMatchObject({
+      type: 'failover',
+      event: { fromProvider: 'openai', toProvider: 'anthropic' },
+    });
+    expect(chunks.slice(1)).toEqual([
+      { type: 'text', delta: 'from anthropic' },
+      { type: 'done' },
+    ]);
+  });
+
+  it('does not fail over once the stream has produced output', async () => {
+    const openai = createProvider({
+      stream: async function* () {
+        yield { type: 'text', delta: 'partial' } as const;
+        yield { type: 'error', error: serverError() } as const;
+      },
+    });
+    const anthropic = createProvider({});
+    const { router } = createRouter({ openai, anthropic }, basePolicy());
+
+    const chunks: LlmStreamChunk[] = [];
+    for await (const chunk of router.streamChat(messages, { tenantId: 'tenant-1', task: 'main-chat' })) {
+      chunks.push(chunk);
+    }
+
+    expect(anthropic.streamChat).not.toHaveBeenCalled();
+    expect(chunks.map(c => c.type)).toEqual(['text', 'error']);
+  });
+
+  it('yields an error chunk when every streaming candidate fails', async () => {
+    const failing = async function* (): AsyncIterable<LlmStreamChunk> {
+      yield { type: 'error', error: serverError() };
+    };
+    const openai = createProvider({ stream: failing });
+    const anthropic = createProvider({ stream: failing });
+    const { router } = createRouter({ openai, anthropic }, basePolicy());
+
+    const chunks: LlmStreamChunk[] = [];
+    for await (const chunk of router.streamChat(messages, { tenantId: 'tenant-1', task: 'main-chat' })) {
+      chunks.push(chunk);
+    }
+
+    const last = chunks[chunks.length - 1];
+    expect(last.type).toBe('error');
+    expect(last.type === 'error' && last.error.message).toContain('All 2 providers failed');
+  });
+});
+
+describe('provider resilience helpers', () => {
+  it('classifies transient errors by status code and message', () => {
+    expect(isTransientProviderError(new LlmError('x', 502))).toBe(true);
+    expect(isTransientProviderError(new LlmError('x', 429))).toBe(true);
+    expect(isTransientProviderError(new LlmError('x', 400))).toBe(false);
+    expect(isTransientProviderError(new Error('Request timed out'))).toBe(true);
+    expect(isTransientProviderError(new Error('read ECONNRESET'))).toBe(true);
+    expect(isTransientProviderError(new Error('Invalid schema'))).toBe(false);
+    expect(
+      isTransientProviderError(new LlmError('wrapped', undefined, { cause: { statusCode: 500 } }))
+    ).toBe(true);
+  });
+
+  it('computes capped exponential backoff', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 350 });
+    expect([1, 2, 3].map(retry => computeBackoffDelayMs(policy, retry))).toEqual([100, 200, 350]);
+  });
+
+  it('half-opens the circuit after the reset timeout and closes on success', () => {
+    let now = 0;
+    const breaker = new ProviderCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 100,
+      now: () => now,
+    });
+
+    breaker.recordFailure('groq');
+    expect(breaker.canRequest('groq')).toBe(false);
+
+    now = 150;
+    expect(breaker.getState('groq')).toBe('half-open');
+
+    breaker.recordFailure('groq');
+    expect(breaker.getState('groq')).toBe('open');
+
+    now = 300;
+    expect(breaker.canRequest('groq')).toBe(true);
+    breaker.recordSuccess('groq');
+    expect(breaker.getState('groq')).toBe('closed');
+  });
+
+  it('grants one half-open trial at a time', () => {
+    let now = 0;
+    const breaker = new ProviderCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 100,
+      now: () => now,
+    });
+
+    breaker.recordFailure('groq');
+    now = 150;
+    expect(breaker.tryAcquire('groq')).toBe(true);
+    expect(breaker.tryAcquire('groq')).toBe(false);
+    expect(breaker.canRequest('groq')).toBe(false);
+
+    // A trial that says nothing about provider health frees the slot
+    breaker.releaseTrial('groq');
+    expect(breaker.tryAcquire('groq')).toBe(true);
+
+    breaker.recordFailure('groq');
+    expect(breaker.tryAcquire('groq')).toBe(false);
+    now = 300;
+    expect(breaker.tryAcquire('groq')).toBe(true);
+  });
+});
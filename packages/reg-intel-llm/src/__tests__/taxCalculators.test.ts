@@ -0,0 +1,445 @@
+/**
+ * Unit tests for the tax calculators and their LLM tools
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateIrishIncomeTax,
+  calculateUkIncomeTax,
+  calculateCapitalGainsTax,
+  calculateCorporationTax,
+  calculateEmployerContributions,
+  lookupBenefitRate,
+  type CalculatorRate,
+  type TaxYearRateData,
+} from '../tools/taxCalculators.js';
+import {
+  executeIrishIncomeTax,
+  executeBenefitRateLookup,
+  type TaxRateGraphClient,
+} from '../tools/taxCalculatorTools.js';
+import { TaxCalculationError } from '../errors.js';
+
+// =============================================================================
+// Rate Fixtures (2024 rates as seeded in the graph)
+// =============================================================================
+
+function rate(
+  id: string,
+  category: string,
+  percentage: number,
+  extra: Partial<CalculatorRate> = {}
+): CalculatorRate {
+  return { id, label: id, percentage, category, effective_from: '2024-01-01T00:00:00Z', ...extra };
+}
+
+const ieRates: TaxYearRateData = {
+  rates: [
+    rate('IE_INCOME_TAX_STANDARD_2024', 'INCOME_TAX', 20, { band_lower: 0, band_upper: 42000, currency: 'EUR' }),
+    rate('IE_INCOME_TAX_HIGHER_2024', 'INCOME_TAX', 40, { band_lower: 42000, currency: 'EUR' }),
+    rate('IE_INCOME_TAX_STANDARD_MARRIED_2024', 'INCOME_TAX', 20, {
+      band_lower: 0,
+      band_upper: 51000,
+      currency: 'EUR',
+      personal_status: 'MARRIED',
+    }),
+    rate('IE_INCOME_TAX_HIGHER_MARRIED_2024', 'INCOME_TAX', 40, { band_lower: 51000, currency: 'EUR', personal_status: 'MARRIED' }),
+    rate('IE_USC_BAND_1_2024', 'USC', 0.5, { band_lower: 0, band_upper: 12012 }),
+    rate('IE_USC_BAND_2_2024', 'USC', 2, { band_lower: 12012, band_upper: 25760 }),
+    rate('IE_USC_BAND_3_2024', 'USC', 4, { band_lower: 25760, band_upper: 70044 }),
+    rate('IE_USC_BAND_4_2024', 'USC', 8, { band_lower: 70044 }),
+    rate('IE_PRSI_CLASS_A_2024', 'PRSI', 4, { contribution_class: 'A', effective_to: '2024-09-30T23:59:59Z' }),
+    rate('IE_PRSI_CLASS_A_OCT_2024', 'PRSI', 4.1, {
+      contribution_class: 'A',
+      effective_from: '2024-10-01T00:00:00Z',
+    }),
+    rate('IE_PRSI_CLASS_S_2024', 'PRSI', 4, { contribution_class: 'S' }),
+    rate('IE_CGT_RATE_2024', 'CGT', 33),
+    rate('IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024', 'CGT', 10, { band_upper: 1000000 }),
+    rate('IE_ILLNESS_BENEFIT_RATE_2024', 'ILLNESS_BENEFIT', 0, { percentage: undefined, flat_amount: 232 }),
+  ],
+  thresholds: [
+    { id: 'IE_USC_EXEMPTION_THRESHOLD_2024', label: 'USC Exemption Threshold', value: 13000, unit: 'EUR', direction: 'BELOW', category: 'USC' },
+    { id: 'IE_CGT_ANNUAL_EXEMPTION_2024', label: 'CGT Annual Exemption', value: 1270, unit: 'EUR', direction: 'BELOW', category: 'CGT' },
+  ],
+  credits: [
+    { id: 'IE_PERSONAL_TAX_CREDIT_SINGLE_2024', label: 'Single Person Tax Credit', amount: 1875 },
+    { id: 'IE_EMPLOYEE_TAX_CREDIT_2024', label: 'Employee Tax Credit', amount: 1875 },
+  ],
+};
+
+const ieCompanyRates: TaxYearRateData = {
+  ...ieRates,
+  rates: [
+    ...ieRates.rates,
+    rate('IE_PRSI_EMPLOYER_CLASS_A_2024', 'PRSI_EMPLOYER', 11.05, { contribution_class: 'A' }),
+    rate('IE_CORPORATION_TAX_TRADING_2024', 'CORPORATION_TAX', 12.5, { currency: 'EUR' }),
+  ],
+};
+
+const ukRates: TaxYearRateData = {
+  rates: [
+    rate('UK_INCOME_TAX_BASIC_2024', 'INCOME_TAX', 20, { band_lower: 0, band_upper: 37700, currency: 'GBP' }),
+    rate('UK_INCOME_TAX_HIGHER_2024', 'INCOME_TAX', 40, { band_lower: 37700, band_upper: 125140, currency: 'GBP' }),
+    rate('UK_INCOME_TAX_ADDITIONAL_2024', 'INCOME_TAX', 45, { band_lower: 125140, currency: 'GBP' }),
+    rate('UK_NI_CLASS_1_MAIN_2024', 'NI', 8, { band_lower: 12570, band_upper: 50270, contribution_class: '1' }),
+    rate('UK_NI_CLASS_1_UPPER_2024', 'NI', 2, { band_lower: 50270, contribution_class: '1' }),
+    rate('UK_NI_EMPLOYER_CLASS_1_2024', 'NI_EMPLOYER', 13.8, { band_lower: 9100, contribution_class: '1' }),
+    rate('UK_DIVIDEND_TAX_BASIC_2024', 'DIVIDEND_TAX', 8.75, { band_lower: 0, band_upper: 37700 }),
+    rate('UK_DIVIDEND_TAX_HIGHER_2024', 'DIVIDEND_TAX', 33.75, { band_lower: 37700, band_upper: 125140 }),
+    rate('UK_DIVIDEND_TAX_ADDITIONAL_2024', 'DIVIDEND_TAX', 39.35, { band_lower: 125140 }),
+    rate('UK_CORPORATION_TAX_SMALL_PROFITS_2024', 'CORPORATION_TAX', 19, { band_lower: 0, band_upper: 50000, currency: 'GBP' }),
+    rate('UK_CORPORATION_TAX_MARGINAL_2024', 'CORPORATION_TAX', 26.5, { band_lower: 50000, band_upper: 250000, currency: 'GBP' }),
+    rate('UK_CORPORATION_TAX_MAIN_2024', 'CORPORATION_TAX', 25, { band_lower: 250000, currency: 'GBP' }),
+    rate('UK_CGT_LOWER_2024', 'CGT', 10, { band_lower: 0, band_upper: 37700, effective_from: '2024-04-06T00:00:00Z' }),
+    rate('UK_CGT_HIGHER_2024', 'CGT', 20, { band_lower: 37700, effective_from: '2024-04-06T00:00:00Z' }),
+    rate('UK_CGT_LOWER_OCT_2024', 'CGT', 18, { band_lower: 0, band_upper: 37700, effective_from: '2024-10-30T00:00:00Z' }),
+    rate('UK_CGT_HIGHER_OCT_2024', 'CGT', 24, { band_lower: 37700, effective_from: '2024-10-30T00:00:00Z' }),
+  ],
+  thresholds: [
+    { id: 'UK_PERSONAL_ALLOWANCE_2024', label: 'Personal Allowance', value: 12570, unit: 'GBP', direction: 'BELOW', category: 'PERSONAL_ALLOWANCE' },
+    { id: 'UK_PERSONAL_ALLOWANCE_TAPER_2024', label: 'Personal Allowance Taper', value: 100000, unit: 'GBP', direction: 'ABOVE', category: 'PERSONAL_ALLOWANCE_TAPER' },
+    { id: 'UK_DIVIDEND_ALLOWANCE_2024', label: 'Dividend Allowance', value: 500, unit: 'GBP', direction: 'BELOW', category: 'DIVIDEND_ALLOWANCE' },
+    { id: 'UK_CGT_ANNUAL_EXEMPT_AMOUNT_2024', label: 'CGT Annual Exempt Amount', value: 3000, unit: 'GBP', direction: 'BELOW', category: 'CGT' },
+  ],
+  credits: [],
+};
+
+function componentAmounts(result: { components: Array<{ name: string; amount: number }> }) {
+  return Object.fromEntries(result.components.map(part => [part.name, part.amount]));
+}
+
+// =============================================================================
+// Calculator Tests
+// =============================================================================
+
+describe('calculateIrishIncomeTax', () => {
+  it('should calculate income tax, USC and PRSI with credits', () => {
+    const result = calculateIrishIncomeTax(
+      {
+        taxYear: 2024,
+        grossIncome: 50000,
+        prsiClass: 'A',
+        taxCreditIds: ['IE_PERSONAL_TAX_CREDIT_SINGLE_2024', 'IE_EMPLOYEE_TAX_CREDIT_2024'],
+      },
+      ieRates
+    );
+
+    expect(componentAmounts(result)).toEqual({
+      'Income tax': 7850,
+      USC: 1304.62,
+      'PRSI (Class A)': 2050,
+    });
+    expect(result.total).toBe(11204.62);
+    expect(result.net).toBe(38795.38);
+    expect(result.effectiveRatePercent).toBe(22.41);
+    expect(result.currency).toBe('EUR');
+  });
+
+  it('should cite every rate and credit node used', () => {
+    const result = calculateIrishIncomeTax(
+      { taxYear: 2024, grossIncome: 50000, prsiClass: 'A', taxCreditIds: ['IE_EMPLOYEE_TAX_CREDIT_2024'] },
+      ieRates
+    );
+
+    expect(result.sourceNodeIds).toEqual([
+      'IE_INCOME_TAX_STANDARD_2024',
+      'IE_INCOME_TAX_HIGHER_2024',
+      'IE_EMPLOYEE_TAX_CREDIT_2024',
+      'IE_USC_BAND_1_2024',
+      'IE_USC_BAND_2_2024',
+      'IE_USC_BAND_3_2024',
+      'IE_PRSI_CLASS_A_OCT_2024',
+    ]);
+    expect(result.components[0].steps[1]).toEqual({
+      description: 'IE_INCOME_TAX_HIGHER_2024 (over 42,000)',
+      base: 8000,
+      ratePercent: 40,
+      amount: 3200,
+      nodeId: 'IE_INCOME_TAX_HIGHER_2024',
+    });
+  });
+
+  it('should use the latest rate of the year and say which rates it replaced', () => {
+    const result = calculateIrishIncomeTax({ taxYear: 2024, grossIncome: 30000, prsiClass: 'a' }, ieRates);
+
+    expect(result.sourceNodeIds).toContain('IE_PRSI_CLASS_A_OCT_2024');
+    expect(result.sourceNodeIds).not.toContain('IE_PRSI_CLASS_A_2024');
+    expect(result.notes.join('\n')).toContain('Not applied: IE_PRSI_CLASS_A_2024');
+  });
+
+  it('should exempt income below the USC threshold and not refund unused credits', () => {
+    const result = calculateIrishIncomeTax(
+      { taxYear: 2024, grossIncome: 12000, prsiClass: 'S', taxCreditIds: ['IE_PERSONAL_TAX_CREDIT_SINGLE_2024', 'IE_EMPLOYEE_TAX_CREDIT_2024'] },
+      ieRates
+    );
+
+    expect(componentAmounts(result)).toEqual({ 'Income tax': 0, USC: 0, 'PRSI (Class S)': 480 });
+    expect(result.sourceNodeIds).toContain('IE_USC_EXEMPTION_THRESHOLD_2024');
+    expect(result.components[0].steps.at(-1)).toEqual({ description: 'Unused tax credits (not refundable)', amount: 1350 });
+  });
+
+  it('should reject unknown credits and missing PRSI classes', () => {
+    expect(() =>
+      calculateIrishIncomeTax({ taxYear: 2024, grossIncome: 1, prsiClass: 'A', taxCreditIds: ['NOPE'] }, ieRates)
+    ).toThrow(TaxCalculationError);
+    expect(() => calculateIrishIncomeTax({ taxYear: 2024, grossIncome: 1, prsiClass: 'B' }, ieRates)).toThrow(
+      'No PRSI Class B rates for IE tax year 2024 in the graph'
+    );
+  });
+
+  it('should read Bolt integer properties', () => {
+    const boltRates: TaxYearRateData = {
+      ...ieRates,
+      credits: [{ id: 'CREDIT', label: 'Credit', amount: { low: 1000, high: 0 } as unknown as number }],
+    };
+
+    const result = calculateIrishIncomeTax(
+      { taxYear: 2024, grossIncome: 40000, prsiClass: 'S', taxCreditIds: ['CREDIT'] },
+      boltRates
+    );
+
+    expect(result.components[0].amount).toBe(7000);
+  });
+
+  it('should use the income tax bands for the personal circumstances', () => {
+    const result = calculateIrishIncomeTax(
+      { taxYear: 2024, grossIncome: 60000, prsiClass: 'A', personalCircumstances: 'married' },
+      ieRates
+    );
+
+    expect(result.components[0].amount).toBe(13800);
+    expect(result.sourceNodeIds).toContain('IE_INCOME_TAX_STANDARD_MARRIED_2024');
+    expect(result.sourceNodeIds).not.toContain('IE_INCOME_TAX_STANDARD_2024');
+    expect(result.notes.join('\n')).toContain('Married or civil partner bands for one income');
+  });
+
+  it('should say when the single person bands are used', () => {
+    const single = calculateIrishIncomeTax({ taxYear: 2024, grossIncome: 60000, prsiClass: 'A' }, ieRates);
+    const oneParent = calculateIrishIncomeTax(
+      { taxYear: 2024, grossIncome: 60000, prsiClass: 'A', personalCircumstances: 'one_parent' },
+      ieRates
+    );
+
+    expect(single.components[0].amount).toBe(15600);
+    expect(single.notes.join('\n')).toContain('Single person income tax bands used');
+    expect(oneParent.components[0].amount).toBe(15600);
+    expect(oneParent.notes).toContain(
+      'No one-parent family income tax bands for IE tax year 2024 in the graph; used the single person bands.'
+    );
+  });
+});
+
+describe('calculateUkIncomeTax', () => {
+  it('should apply the Personal Allowance, bands and Class 1 NI', () => {
+    const result = calculateUkIncomeTax({ taxYear: 2024, grossIncome: 60000, niClass: '1' }, ukRates);
+
+    expect(componentAmounts(result)).toEqual({
+      'Income tax': 11432,
+      'National Insurance (Class 1)': 3210.6,
+    });
+    expect(result.total).toBe(14642.6);
+    expect(result.sourceNodeIds).toContain('UK_PERSONAL_ALLOWANCE_2024');
+  });
+
+  it('should taper the Personal Allowance above the taper threshold', () => {
+    const result = calculateUkIncomeTax({ taxYear: 2024, grossIncome: 110000, niClass: '1' }, ukRates);
+
+    expect(result.components[0].amount).toBe(33432);
+    expect(result.sourceNodeIds).toContain('UK_PERSONAL_ALLOWANCE_TAPER_2024');
+    expect(result.components[0].steps[1].description).toContain('Allowance reduced by 5,000');
+  });
+
+  it('should tax dividends on top of other income after the Dividend Allowance, without NI', () => {
+    const result = calculateUkIncomeTax({ taxYear: 2024, grossIncome: 12570, dividends: 40000, niClass: '1' }, ukRates);
+
+    expect(componentAmounts(result)).toEqual({
+      'Income tax': 0,
+      'Dividend tax': 4031.25,
+      'National Insurance (Class 1)': 0,
+    });
+    expect(result.base).toBe(52570);
+    expect(result.sourceNodeIds).toEqual(
+      expect.arrayContaining(['UK_DIVIDEND_ALLOWANCE_2024', 'UK_DIVIDEND_TAX_HIGHER_2024'])
+    );
+    expect(result.notes).toContain('Dividends do not attract National Insurance.');
+  });
+});
+
+describe('calculateCorporationTax', () => {
+  it('should apply banded corporation tax rates to profits', () => {
+    const result = calculateCorporationTax({ jurisdiction: 'UK', taxYear: 2024, profits: 100000 }, ukRates);
+
+    expect(result.total).toBe(22750);
+    expect(result.net).toBe(77250);
+    expect(result.currency).toBe('GBP');
+  });
+
+  it('should fail when the year has no corporation tax rates', () => {
+    expect(() =>
+      calculateCorporationTax({ jurisdiction: 'IE', taxYear: 2024, profits: 1000 }, { ...ieRates, rates: [] })
+    ).toThrow(TaxCalculationError);
+  });
+});
+
+describe('calculateEmployerContributions', () => {
+  it('should charge employer PRSI on the whole salary', () => {
+    const result = calculateEmployerContributions(
+      { jurisdiction: 'IE', taxYear: 2024, salary: 50000, contributionClass: 'A' },
+      ieCompanyRates
+    );
+
+    expect(componentAmounts(result)).toEqual({ 'Employer PRSI (Class A)': 5525 });
+  });
+
+  it('should charge employer NI above the secondary threshold', () => {
+    const result = calculateEmployerContributions(
+      { jurisdiction: 'UK', taxYear: 2024, salary: 12570, contributionClass: '1' },
+      ukRates
+    );
+
+    expect(result.total).toBe(478.86);
+    expect(result.sourceNodeIds).toEqual(['UK_NI_EMPLOYER_CLASS_1_2024']);
+  });
+});
+
+describe('calculateCapitalGainsTax', () => {
+  it('should apply losses and the annual exemption at the flat Irish rate', () => {
+    const result = calculateCapitalGainsTax(
+      {
+        jurisdiction: 'IE',
+        taxYear: 2024,
+        disposals: [{ description: 'Shares', proceeds: 20000, cost: 8000, expenses: 500 }],
+        lossesBroughtForward: 1000,
+      },
+      ieRates
+    );
+
+    expect(result.total).toBe(3045.9);
+    expect(result.base).toBe(11500);
+    expect(result.sourceNodeIds).toEqual(['IE_CGT_ANNUAL_EXEMPTION_2024', 'IE_CGT_RATE_2024']);
+  });
+
+  it('should apply a relief rate up to its limit', () => {
+    const result = calculateCapitalGainsTax(
+      {
+        jurisdiction: 'IE',
+        taxYear: 2024,
+        disposals: [{ proceeds: 1500000, cost: 200000 }],
+        reliefRateId: 'IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024',
+      },
+      ieRates
+    );
+
+    expect(result.total).toBe(198580.9);
+    expect(result.sourceNodeIds).toContain('IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024');
+  });
+
+  it('should band UK gains on top of taxable income', () => {
+    const result = calculateCapitalGainsTax(
+      { jurisdiction: 'UK', taxYear: 2024, disposals: [{ proceeds: 25000, cost: 5000 }], taxableIncome: 30000 },
+      ukRates
+    );
+
+    expect(result.total).toBe(3618);
+    expect(result.currency).toBe('GBP');
+    expect(result.sourceNodeIds).toEqual([
+      'UK_CGT_ANNUAL_EXEMPT_AMOUNT_2024',
+      'UK_CGT_LOWER_OCT_2024',
+      'UK_CGT_HIGHER_OCT_2024',
+    ]);
+  });
+
+  it('should report unused losses without tax', () => {
+    const result = calculateCapitalGainsTax(
+      { jurisdiction: 'IE', taxYear: 2024, disposals: [{ proceeds: 1000, cost: 3000 }] },
+      ieRates
+    );
+
+    expect(result.total).toBe(0);
+    expect(result.notes[0]).toContain('Unused losses of 2,000');
+  });
+});
+
+describe('lookupBenefitRate', () => {
+  it('should return weekly rates, totals and evaluated thresholds', () => {
+    const result = lookupBenefitRate(
+      { jurisdiction: 'IE', taxYear: 2024, benefit: 'illness_benefit', weeks: 10, conditionValues: { IE_COND_PRSI_39_RECENT: 52 } },
+      ieRates,
+      {
+        IE_COND_PRSI_39_RECENT: [
+          { id: 'IE_PRSI_39_WEEKS', label: '39 weeks PRSI', value: 39, unit: 'WEEKS', direction: 'ABOVE' },
+        ],
+      }
+    );
+
+    expect(result.rates).toEqual([
+      {
+        id: 'IE_ILLNESS_BENEFIT_RATE_2024',
+        label: 'IE_ILLNESS_BENEFIT_RATE_2024',
+        weeklyAmount: 232,
+        percentage: undefined,
+        currency: 'EUR',
+        totalForWeeks: 2320,
+      },
+    ]);
+    expect(result.conditions[0].thresholds[0].met).toBe(true);
+    expect(result.sourceNodeIds).toEqual(['IE_ILLNESS_BENEFIT_RATE_2024', 'IE_PRSI_39_WEEKS']);
+  });
+
+  it('should list rate categories for unknown benefits', () => {
+    expect(() => lookupBenefitRate({ jurisdiction: 'IE', taxYear: 2024, benefit: 'NOPE' }, ieRates, {})).toThrow(
+      /Rate categories: CGT, ILLNESS_BENEFIT, INCOME_TAX, PRSI, USC/
+    );
+  });
+});
+
+// =============================================================================
+// Tool Tests
+// =============================================================================
+
+function createMockGraphClient(data: TaxYearRateData = ieRates): TaxRateGraphClient {
+  return {
+    getRatesForTaxYear: vi.fn().mockResolvedValue(data),
+    getThresholdsForCondition: vi.fn().mockResolvedValue([
+      { id: 'IE_PRSI_39_WEEKS', label: '39 weeks PRSI', value: 39, unit: 'WEEKS', direction: 'ABOVE' },
+    ]),
+  };
+}
+
+describe('tax calculator tools', () => {
+  it('should load the rates in force on asOf and default to PRSI Class A', async () => {
+    const graphClient = createMockGraphClient();
+
+    const result = await executeIrishIncomeTax({ taxYear: 2024, grossIncome: 50000, asOf: '2024-06-30' }, graphClient);
+
+    expect(graphClient.getRatesForTaxYear).toHaveBeenCalledWith(2024, 'IE', new Date('2024-06-30'));
+    expect(result.success).toBe(true);
+    expect(result.success && result.result.components[2].name).toBe('PRSI (Class A)');
+  });
+
+  it('should return errors instead of throwing', async () => {
+    const graphClient = createMockGraphClient();
+    vi.mocked(graphClient.getRatesForTaxYear).mockRejectedValueOnce(new Error('Graph unavailable'));
+    const logger = { error: vi.fn() };
+
+    const failed = await executeIrishIncomeTax({ taxYear: 2024, grossIncome: 1 }, graphClient, logger);
+    const invalid = await executeIrishIncomeTax({ taxYear: 2024, grossIncome: -1 }, graphClient);
+
+    expect(failed).toEqual({ success: false, error: 'Graph unavailable' });
+    expect(logger.error).toHaveBeenCalledWith('[calculate_ie_income_tax] Calculation failed', expect.anything());
+    expect(invalid.success).toBe(false);
+  });
+
+  it('should fetch the thresholds of each condition', async () => {
+    const graphClient = createMockGraphClient();
+
+    const result = await executeBenefitRateLookup(
+      { jurisdiction: 'IE', taxYear: 2024, benefit: 'ILLNESS_BENEFIT', conditionIds: ['IE_COND_PRSI_39_RECENT'] },
+      graphClient
+    );
+
+    expect(graphClient.getThresholdsForCondition).toHaveBeenCalledWith('IE_COND_PRSI_39_RECENT', undefined);
+    expect(result.success && result.result.conditions[0].thresholds[0].id).toBe('IE_PRSI_39_WEEKS');
+  });
+});
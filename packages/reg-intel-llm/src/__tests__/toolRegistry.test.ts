@@ -9,6 +9,7 @@ import {
   type ToolRegistryConfig,
 } from '../tools/toolRegistry.js';
 import type { E2BSandbox } from '../tools/codeExecutionTools.js';
+import type { TaxRateGraphClient } from '../tools/taxCalculatorTools.js';
 
 // =============================================================================
 // Mock E2B Sandbox
@@ -26,6 +27,21 @@ function createMockSandbox(sandboxId: string = 'test-sandbox-123'): E2BSandbox {
   };
 }
 
+function createMockRateGraphClient(): TaxRateGraphClient {
+  return {
+    getRatesForTaxYear: vi.fn().mockResolvedValue({
+      rates: [
+        { id: 'IE_INCOME_TAX_STANDARD_2024', label: 'Standard Rate', percentage: 20, band_lower: 0, category: 'INCOME_TAX' },
+        { id: 'IE_USC_BAND_1_2024', label: 'USC', percentage: 1, band_lower: 0, category: 'USC' },
+        { id: 'IE_PRSI_CLASS_A_2024', label: 'PRSI', percentage: 4, contribution_class: 'A', category: 'PRSI' },
+      ],
+      thresholds: [],
+      credits: [],
+    }),
+    getThresholdsForCondition: vi.fn().mockResolvedValue([]),
+  };
+}
+
 // =============================================================================
 // Tool Registry Tests
 // =============================================================================
@@ -324,6 +340,50 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('tax calculator tools', () => {
+    const calculatorTools = ['calculate_ie_income_tax', 'calculate_uk_income_tax', 'calculate_cgt', 'lookup_benefit_rate'];
+
+    it('should register calculators when a rate graph client is provided', () => {
+      const registry = new ToolRegistry({ rateGraphClient: createMockRateGraphClient() });
+
+      expect(registry.getToolNames()).toEqual(calculatorTools);
+      expect(registry.hasTool('run_code')).toBe(false);
+    });
+
+    it('should not register calculators when enableTaxCalculators is false', () => {
+      const registry = new ToolRegistry({
+        rateGraphClient: createMockRateGraphClient(),
+        enableTaxCalculators: false,
+      });
+
+      expect(registry.getToolNames()).toEqual([]);
+    });
+
+    it('should keep calculators when the sandbox changes', () => {
+      const registry = new ToolRegistry({ sandbox: createMockSandbox(), rateGraphClient: createMockRateGraphClient() });
+
+      registry.updateSandbox(undefined);
+
+      expect(registry.getToolNames()).toEqual(calculatorTools);
+    });
+
+    it('should execute calculators through the registry', async () => {
+      const graphClient = createMockRateGraphClient();
+      const registry = new ToolRegistry({ rateGraphClient: graphClient });
+
+      const result = await registry.executeTool('calculate_ie_income_tax', { taxYear: 2024, grossIncome: 10000 });
+
+      expect(graphClient.getRatesForTaxYear).toHaveBeenCalledWith(2024, 'IE', undefined);
+      expect(result.success).toBe(true);
+      expect(result.result.total).toBe(2500);
+      expect(result.result.sourceNodeIds).toEqual([
+        'IE_INCOME_TAX_STANDARD_2024',
+        'IE_USC_BAND_1_2024',
+        'IE_PRSI_CLASS_A_2024',
+      ]);
+    });
+  });
+
   describe('createToolRegistry factory', () => {
     it('should create registry with no config', () => {
       const registry = createToolRegistry();
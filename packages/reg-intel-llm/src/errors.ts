@@ -41,3 +41,14 @@ export function getErrorMessage(error: unknown): string {
   }
   return String(error);
 }
+
+/**
+ * Error thrown when a tax calculation cannot use the graph's rates (missing
+ * rates, unknown credits or relief rates)
+ */
+export class TaxCalculationError extends ComplianceError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TaxCalculationError';
+  }
+}
@@ -6,9 +6,10 @@
  * Built on Vercel AI SDK v5 for consistent provider abstraction.
  *
  * This package provides:
- * - LlmRouter (provider-agnostic routing with tenant policies)
+ * - LlmRouter (provider-agnostic routing with tenant policies and provider failover)
  * - LLM providers (OpenAI, Groq, Anthropic, Google Gemini, Local) - ALL using AI SDK v5
  * - Egress Guard (PII sanitization)
+ * - Response cache (tenant-scoped answer reuse, invalidated by graph changes)
  *
  * AI SDK v5 handles:
  * - OpenAI Responses API (automatic for OpenAI provider - /v1/responses)
@@ -30,6 +31,9 @@ export {
   type LlmProviderClient,
   type TenantLlmPolicy,
   type LlmTaskPolicy,
+  type LlmFallbackTarget,
+  type LlmFailoverEvent,
+  type LlmRouterResilienceConfig,
   type LlmPolicyStore,
   type LlmProviderRegistry,
   type LlmRouterConfig,
@@ -42,6 +46,31 @@ export {
   GeminiProviderClient,
 } from './llmRouter.js';
 
+// Response cache (exact and near-duplicate answer reuse, graph-aware invalidation)
+export {
+  LlmResponseCache,
+  createLlmResponseCache,
+  replayCachedResponse,
+  collectChangedNodeIds,
+  type CachedLlmResponse,
+  type LlmResponseCacheHit,
+  type LlmResponseCacheKeyInput,
+  type LlmResponseCacheOptions,
+  type LlmResponseCacheConfig,
+  type LlmPromptEmbedder,
+  type LlmResponseCacheGraphPatch,
+  type LlmResponseCacheGraphChangeSource,
+} from './responseCache.js';
+
+// Provider resilience (retry/backoff, circuit breaking)
+export {
+  ProviderCircuitBreaker,
+  isTransientProviderError,
+  type CircuitBreakerConfig,
+  type CircuitState,
+  type LlmRetryPolicy,
+} from './providerResilience.js';
+
 // Policy Stores
 export {
   SupabasePolicyStore,
@@ -52,6 +81,24 @@ export {
   type PolicyStoreConfig,
 } from './policyStores.js';
 
+// Policy routing (resolution, preview and validation shared with admin tooling)
+export {
+  LLM_PROVIDER_IDS,
+  KNOWN_LLM_TASKS,
+  resolvePolicyRoute,
+  selectPolicyFallbacks,
+  previewPolicyRoutes,
+  validateTenantLlmPolicy,
+  type PolicyRoute,
+  type PolicyRouteSource,
+  type PolicyRouterDefaults,
+  type PolicyFallbackSelection,
+  type PolicyFallbackSkipReason,
+  type PolicyRoutePreview,
+  type LlmModelCatalog,
+  type PolicyValidationIssue,
+} from './policyRouting.js';
+
 // Factory
 export {
   createDefaultLlmRouter,
@@ -90,6 +137,7 @@ export type {
 export type {
   LlmError,
   ComplianceError,
+  TaxCalculationError,
 } from './errors.js';
 
 // Code Execution Tools
@@ -106,6 +154,51 @@ export {
   type AnalysisExecutionResult,
 } from './tools/codeExecutionTools.js';
 
+// Tax Calculator Tools
+export {
+  calculateIrishIncomeTax,
+  calculateUkIncomeTax,
+  calculateCapitalGainsTax,
+  calculateCorporationTax,
+  calculateEmployerContributions,
+  lookupBenefitRate,
+  type CalculatorRate,
+  type CalculatorThreshold,
+  type CalculatorTaxCredit,
+  type TaxYearRateData,
+  type CalculationStep,
+  type CalculationComponent,
+  type TaxCalculationKind,
+  type TaxCalculationResult,
+  type IrishPersonalCircumstances,
+  type IrishIncomeTaxInput,
+  type UkIncomeTaxInput,
+  type Disposal,
+  type CapitalGainsTaxInput,
+  type CorporationTaxInput,
+  type EmployerContributionsInput,
+  type BenefitRate,
+  type BenefitConditionThreshold,
+  type BenefitRateLookupInput,
+  type BenefitRateLookupResult,
+} from './tools/taxCalculators.js';
+export {
+  executeIrishIncomeTax,
+  executeUkIncomeTax,
+  executeCapitalGainsTax,
+  executeBenefitRateLookup,
+  irishIncomeTaxToolSchema,
+  ukIncomeTaxToolSchema,
+  capitalGainsTaxToolSchema,
+  benefitRateLookupToolSchema,
+  type TaxRateGraphClient,
+  type IrishIncomeTaxToolInput,
+  type UkIncomeTaxToolInput,
+  type CapitalGainsTaxToolInput,
+  type BenefitRateLookupToolInput,
+  type TaxCalculatorToolResult,
+} from './tools/taxCalculatorTools.js';
+
 // Tool Registry
 export {
   ToolRegistry,
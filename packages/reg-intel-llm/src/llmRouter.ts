@@ -20,7 +20,14 @@
  * - Egress control settings
  */
 
-import { createLogger, recordLlmTokenUsage, recordLlmRequest, recordLlmCost } from '@reg-copilot/reg-intel-observability';
+import {
+  createLogger,
+  recordLlmTokenUsage,
+  recordLlmRequest,
+  recordLlmCost,
+  recordLlmFailover,
+  withSpan,
+} from '@reg-copilot/reg-intel-observability';
 import type { ChatMessage } from './types.js';
 import { LlmError } from './errors.js';
 import {
@@ -29,11 +36,27 @@ import {
   type EgressMode,
 } from './egressClient.js';
 import { resolveEffectiveEgressMode } from './egressModeResolver.js';
+import { resolvePolicyRoute, selectPolicyFallbacks } from './policyRouting.js';
 import {
   sanitizeTextForEgress,
   type SanitizationContext,
   type SanitizationOptions,
 } from './egressGuard.js';
+import {
+  ProviderCircuitBreaker,
+  computeBackoffDelayMs,
+  getProviderErrorStatus,
+  isTransientProviderError,
+  resolveRetryPolicy,
+  type CircuitBreakerConfig,
+  type LlmRetryPolicy,
+} from './providerResilience.js';
+import {
+  replayCachedResponse,
+  type LlmResponseCache,
+  type LlmResponseCacheHit,
+  type LlmResponseCacheKeyInput,
+} from './responseCache.js';
 
 /**
  * LLM completion options
@@ -65,6 +88,20 @@ export interface LlmCompletionOptions {
    * Additional sanitization options for response processing
    */
   sanitizationOptions?: Omit<SanitizationOptions, 'context'>;
+
+  /** Called when the router fails over to the next provider in the task's fallback chain. */
+  onFailover?: (event: LlmFailoverEvent) => void;
+
+  /** Response cache controls (only used when the router has a response cache). */
+  responseCache?: {
+    /**
+     * Versions of the graph nodes referenced by the prompt, keyed by node id.
+     * Part of the cache key; changes to these nodes invalidate the answer.
+     */
+    nodeVersions?: Record<string, string>;
+    /** Skip the cache for this call (neither read nor written). */
+    bypass?: boolean;
+  };
 }
 
 /**
@@ -81,9 +118,37 @@ export type LlmStreamChunk =
       arguments?: unknown;
       payload?: unknown;
     }
+  | { type: 'failover'; event: LlmFailoverEvent }
   | { type: 'error'; error: Error }
   | { type: 'done' };
 
+/**
+ * Emitted when the router abandons a provider for the next fallback candidate
+ */
+export interface LlmFailoverEvent {
+  fromProvider: string;
+  fromModel: string;
+  toProvider?: string;
+  toModel?: string;
+  reason: 'error' | 'circuit_open';
+  message: string;
+  statusCode?: number;
+  /** Attempts made against `fromProvider` (0 when its circuit was open). */
+  attempts: number;
+}
+
+/**
+ * Fallback provider/model tried, in order, when a task's primary provider fails
+ */
+export interface LlmFallbackTarget {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Overrides the task-level retry policy for this provider. */
+  retry?: LlmRetryPolicy;
+}
+
 /**
  * LLM task policy - defines model/provider for a specific task
  */
@@ -93,6 +158,13 @@ export interface LlmTaskPolicy {
   provider: string; // e.g. "openai", "groq", "local"
   temperature?: number;
   maxTokens?: number;
+  /** Retry/backoff for the primary provider (and fallbacks without their own policy). */
+  retry?: LlmRetryPolicy;
+  /**
+   * Ordered failover chain. Fallbacks are filtered by the tenant's
+   * `allowRemoteEgress` setting and pass through the same egress guard.
+   */
+  fallbacks?: LlmFallbackTarget[];
 }
 
 /**
@@ -381,7 +453,9 @@ export class OpenAiProviderClient implements LlmProviderClient {
       });
 
       throw new LlmError(
-        `OpenAI error: ${error instanceof Error ? error.message : String(error)}`
+        `OpenAI error: ${error instanceof Error ? error.message : String(error)}`,
+        getProviderErrorStatus(error),
+        { cause: error }
       );
     }
   }
@@ -622,7 +696,9 @@ export class GroqProviderClient implements LlmProviderClient {
       });
 
       throw new LlmError(
-        `Groq error: ${error instanceof Error ? error.message : String(error)}`
+        `Groq error: ${error instanceof Error ? error.message : String(error)}`,
+        getProviderErrorStatus(error),
+        { cause: error }
       );
     }
   }
@@ -862,7 +938,9 @@ export class AnthropicProviderClient implements LlmProviderClient {
       });
 
       throw new LlmError(
-        `Anthropic error: ${error instanceof Error ? error.message : String(error)}`
+        `Anthropic error: ${error instanceof Error ? error.message : String(error)}`,
+        getProviderErrorStatus(error),
+        { cause: error }
       );
     }
   }
@@ -1102,7 +1180,9 @@ export class GeminiProviderClient implements LlmProviderClient {
       });
 
       throw new LlmError(
-        `Google Gemini error: ${error instanceof Error ? error.message : String(error)}`
+        `Google Gemini error: ${error instanceof Error ? error.message : String(error)}`,
+        getProviderErrorStatus(error),
+        { cause: error }
       );
     }
   }
@@ -1235,8 +1315,76 @@ export interface LlmPolicyStore {
   setPolicy(policy: TenantLlmPolicy): Promise<void>;
 }
 
+/**
+ * Task options forwarded to a provider client
+ */
+interface ResolvedTaskOptions {
+  temperature?: number;
+  maxTokens?: number;
+  tools?: Array<Record<string, unknown>>;
+  toolChoice?: LlmCompletionOptions['toolChoice'];
+}
+
+/**
+ * A provider/model the router may try for a request, in failover order
+ */
+interface RouteCandidate {
+  provider: string;
+  model: string;
+  taskOptions: ResolvedTaskOptions;
+  retry: Required<LlmRetryPolicy>;
+}
+
+/**
+ * Resilience settings shared by every request routed through an LlmRouter
+ */
+export interface LlmRouterResilienceConfig {
+  /** Baseline retry policy; task and fallback policies override it. */
+  defaultRetry?: LlmRetryPolicy;
+  /** Circuit breaker settings, or a shared breaker instance. */
+  circuitBreaker?: CircuitBreakerConfig | ProviderCircuitBreaker;
+  /** Sleep override used between retries (tests). */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Pull chunks from a provider stream until it produces output.
+ *
+ * Providers surface failures as `error` chunks rather than throwing, so an
+ * error before any text/tool output means the provider never started
+ * answering and the request can safely be retried or failed over.
+ */
+async function primeProviderStream(
+  stream: AsyncIterable<LlmStreamChunk>
+): Promise<{ buffered: LlmStreamChunk[]; iterator: AsyncIterator<LlmStreamChunk> }> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const buffered: LlmStreamChunk[] = [];
+
+  while (true) {
+    const next = await iterator.next();
+    if (next.done) {
+      return { buffered, iterator };
+    }
+
+    const chunk = next.value;
+    if (chunk.type === 'error') {
+      await iterator.return?.();
+      throw chunk.error;
+    }
+
+    buffered.push(chunk);
+    return { buffered, iterator };
+  }
+}
+
 /**
  * LLM Router - routes requests to appropriate provider/model based on tenant and task
+ *
+ * Each request resolves to an ordered list of candidates (the task's primary
+ * provider followed by its `fallbacks`). Candidates are retried with backoff
+ * on transient failures and skipped while their circuit is open.
  */
 export class LlmRouter implements LlmClient {
   private providers: LlmProviderRegistry;
@@ -1245,6 +1393,10 @@ export class LlmRouter implements LlmClient {
   private defaultModel: string;
   private egressClient: EgressClient;
   private egressDefaultMode: EgressMode;
+  private circuitBreaker: ProviderCircuitBreaker;
+  private defaultRetry?: LlmRetryPolicy;
+  private sleep: (ms: number) => Promise<void>;
+  private responseCache?: LlmResponseCache;
   private logger = createLogger('LlmRouter');
 
   constructor(
@@ -1252,7 +1404,9 @@ export class LlmRouter implements LlmClient {
     policyStore: LlmPolicyStore,
     defaultProvider: string,
     defaultModel: string,
-    egressClient?: EgressClient
+    egressClient?: EgressClient,
+    resilience?: LlmRouterResilienceConfig,
+    responseCache?: LlmResponseCache
   ) {
     this.providers = providers;
     this.policyStore = policyStore;
@@ -1261,14 +1415,20 @@ export class LlmRouter implements LlmClient {
     this.egressClient =
       egressClient ?? new EgressClient({ allowedProviders: Object.keys(providers) });
     this.egressDefaultMode = this.egressClient.getDefaultMode();
+    this.circuitBreaker =
+      resilience?.circuitBreaker instanceof ProviderCircuitBreaker
+        ? resilience.circuitBreaker
+        : new ProviderCircuitBreaker(resilience?.circuitBreaker);
+    this.defaultRetry = resilience?.defaultRetry;
+    this.sleep = resilience?.sleep ?? defaultSleep;
+    this.responseCache = responseCache;
   }
 
   async chat(
     messages: ChatMessage[],
     options?: LlmCompletionOptions
   ): Promise<string> {
-    const { provider, model, taskOptions, tenantPolicy } =
-      await this.resolveProviderAndModel(options);
+    const { candidates, tenantPolicy } = await this.resolveProviderAndModel(options);
 
     const { effectiveMode, requestedMode } = resolveEffectiveEgressMode(
       this.egressDefaultMode,
@@ -1278,8 +1438,8 @@ export class LlmRouter implements LlmClient {
 
     const contextualLogger = this.logger.child({
       task: options?.task ?? 'main-chat',
-      provider,
-      model,
+      provider: candidates[0].provider,
+      model: candidates[0].model,
       tenantId: options?.tenantId,
       userId: options?.userId,
     });
@@ -1289,71 +1449,103 @@ export class LlmRouter implements LlmClient {
         requested: requestedMode ?? this.egressDefaultMode,
         effective: effectiveMode,
       },
+      fallbackCount: candidates.length - 1,
     }, 'Routing chat request through LlmRouter');
 
-    const response = await this.egressClient.guardAndExecute(
-      {
-        target: 'llm',
-        providerId: provider,
-        endpointId: 'chat',
-        request: { messages, model, options: taskOptions, task: options?.task },
-        tenantId: options?.tenantId,
-        userId: options?.userId,
-        task: options?.task,
-        mode: requestedMode ?? effectiveMode,
-        effectiveMode,
-      },
-      async sanitized => {
-        const payload = (sanitized.sanitizedRequest ?? sanitized.request) as {
-          messages: ChatMessage[];
-          model: string;
-          options?: typeof taskOptions;
-          task?: string;
-        };
-
-        const providerClient = this.providers[provider];
-        if (!providerClient) {
-          throw new LlmError(`Unknown provider: ${provider}`);
-        }
-
-        contextualLogger.info('Executing provider chat request');
+    const cacheInput = this.getResponseCacheInput(messages, candidates[0], effectiveMode, options);
+    if (cacheInput) {
+      const hit = await this.responseCache!.get(cacheInput);
+      if (hit) {
+        this.recordResponseCacheHit(hit, options, false);
+        contextualLogger.info({ match: hit.match }, 'Returning cached chat response from LlmRouter');
+        return hit.entry.text;
+      }
+    }
 
-        return providerClient.chat(
-          payload.messages,
-          payload.model,
+    let answeredBy = candidates[0];
+    const response = await this.executeWithFailover(
+      candidates,
+      options,
+      false,
+      candidate =>
+        this.egressClient.guardAndExecute(
           {
-            ...(payload.options ?? taskOptions),
+            target: 'llm',
+            providerId: candidate.provider,
+            endpointId: 'chat',
+            request: {
+              messages,
+              model: candidate.model,
+              options: candidate.taskOptions,
+              task: options?.task,
+            },
             tenantId: options?.tenantId,
             userId: options?.userId,
             task: options?.task,
+            mode: requestedMode ?? effectiveMode,
+            effectiveMode,
+          },
+          async sanitized => {
+            const payload = (sanitized.sanitizedRequest ?? sanitized.request) as {
+              messages: ChatMessage[];
+              model: string;
+              options?: ResolvedTaskOptions;
+              task?: string;
+            };
+
+            const providerClient = this.providers[candidate.provider];
+            if (!providerClient) {
+              throw new LlmError(`Unknown provider: ${candidate.provider}`);
+            }
+
+            contextualLogger.info(
+              { provider: candidate.provider, model: candidate.model },
+              'Executing provider chat request'
+            );
+            answeredBy = candidate;
+
+            return providerClient.chat(
+              payload.messages,
+              payload.model,
+              {
+                ...(payload.options ?? candidate.taskOptions),
+                tenantId: options?.tenantId,
+                userId: options?.userId,
+                task: options?.task,
+              }
+            );
           }
-        );
-      }
+        ),
+      event => options?.onFailover?.(event)
     );
 
     // Sanitize response when egress mode is 'enforce' or 'report-only'
     // This prevents PII leakage from LLM responses back to the client
+    let finalResponse = response;
     if (effectiveMode !== 'off') {
       const sanitizationContext = options?.responseSanitization ?? 'chat';
       if (sanitizationContext !== 'off') {
         contextualLogger.info('Sanitizing chat response for egress safety');
-        return sanitizeTextForEgress(response, {
+        finalResponse = sanitizeTextForEgress(response, {
           context: sanitizationContext,
           ...options?.sanitizationOptions,
         });
       }
     }
 
+    if (cacheInput) {
+      await this.responseCache!.set(cacheInput, finalResponse, answeredBy);
+    }
+
     contextualLogger.info('Returning chat response from LlmRouter');
-    return response;
+    return finalResponse;
   }
 
   async *streamChat(
     messages: ChatMessage[],
     options?: LlmCompletionOptions
   ): AsyncIterable<LlmStreamChunk> {
-    const { provider, model, taskOptions, tenantPolicy } =
-      await this.resolveProviderAndModel(options);
+    const { candidates, tenantPolicy } = await this.resolveProviderAndModel(options);
 
     const { effectiveMode, requestedMode } = resolveEffectiveEgressMode(
       this.egressDefaultMode,
@@ -1363,8 +1555,8 @@ export class LlmRouter implements LlmClient {
 
     const contextualLogger = this.logger.child({
       task: options?.task ?? 'main-chat',
-      provider,
-      model,
+      provider: candidates[0].provider,
+      model: candidates[0].model,
       tenantId: options?.tenantId,
       userId: options?.userId,
     });
@@ -1374,51 +1566,116 @@ export class LlmRouter implements LlmClient {
         requested: requestedMode ?? this.egressDefaultMode,
         effective: effectiveMode,
       },
+      fallbackCount: candidates.length - 1,
     }, 'Routing streaming chat request through LlmRouter');
 
-    const streamResult = await this.egressClient.guardAndExecute(
-      {
-        target: 'llm',
-        providerId: provider,
-        endpointId: 'chat',
-        request: { messages, model, options: taskOptions, task: options?.task },
-        tenantId: options?.tenantId,
-        userId: options?.userId,
-        task: options?.task,
-        mode: requestedMode ?? effectiveMode,
-        effectiveMode,
-      },
-      async sanitized => {
-        const payload = (sanitized.sanitizedRequest ?? sanitized.request) as {
-          messages: ChatMessage[];
-          model: string;
-          options?: typeof taskOptions;
-          task?: string;
-        };
+    const cacheInput = this.getResponseCacheInput(messages, candidates[0], effectiveMode, options);
+    if (cacheInput) {
+      const hit = await this.responseCache!.get(cacheInput);
+      if (hit) {
+        this.recordResponseCacheHit(hit, options, true);
+        contextualLogger.info({ match: hit.match }, 'Replaying cached chat response from LlmRouter');
+        yield* replayCachedResponse(hit.entry.text);
+        return;
+      }
+    }
+    let answeredBy = candidates[0];
 
-        const providerClient = this.providers[provider];
-        if (!providerClient) {
-          throw new LlmError(`Unknown provider: ${provider}`);
-        }
+    // Failover is only possible until the first chunk of output reaches the
+    // caller, so each candidate's stream is primed before it is committed to.
+    const failoverEvents: LlmFailoverEvent[] = [];
+    let lastFailureFromStream = false;
+    let primed: Awaited<ReturnType<typeof primeProviderStream>>;
 
-        if (!providerClient.streamChat) {
-          throw new LlmError(`Provider ${provider} does not support streaming`);
-        }
+    try {
+      primed = await this.executeWithFailover(
+        candidates,
+        options,
+        true,
+        async candidate => {
+          lastFailureFromStream = false;
+          const streamResult = await this.egressClient.guardAndExecute(
+            {
+              target: 'llm',
+              providerId: candidate.provider,
+              endpointId: 'chat',
+              request: {
+                messages,
+                model: candidate.model,
+                options: candidate.taskOptions,
+                task: options?.task,
+              },
+              tenantId: options?.tenantId,
+              userId: options?.userId,
+              task: options?.task,
+              mode: requestedMode ?? effectiveMode,
+              effectiveMode,
+            },
+            async sanitized => {
+              const payload = (sanitized.sanitizedRequest ?? sanitized.request) as {
+                messages: ChatMessage[];
+                model: string;
+                options?: ResolvedTaskOptions;
+                task?: string;
+              };
+
+              const providerClient = this.providers[candidate.provider];
+              if (!providerClient) {
+                throw new LlmError(`Unknown provider: ${candidate.provider}`);
+              }
+
+              if (!providerClient.streamChat) {
+                throw new LlmError(`Provider ${candidate.provider} does not support streaming`);
+              }
+
+              contextualLogger.info(
+                { provider: candidate.provider, model: candidate.model },
+                'Executing provider streaming chat request'
+              );
+              answeredBy = candidate;
+
+              return providerClient.streamChat(
+                payload.messages,
+                payload.model,
+                {
+                  ...(payload.options ?? candidate.taskOptions),
+                  tenantId: options?.tenantId,
+                  userId: options?.userId,
+                  task: options?.task,
+                }
+              );
+            }
+          );
 
-        contextualLogger.info('Executing provider streaming chat request');
+          lastFailureFromStream = true;
+          return primeProviderStream(streamResult);
+        },
+        event => {
+          failoverEvents.push(event);
+          options?.onFailover?.(event);
+        }
+      );
+    } catch (error) {
+      // Set-up failures (unknown provider, egress policy) are thrown to the
+      // caller; failures reported by the provider stream itself are yielded.
+      if (!lastFailureFromStream) {
+        throw error;
+      }
 
-        return providerClient.streamChat(
-          payload.messages,
-          payload.model,
-          {
-            ...(payload.options ?? taskOptions),
-            tenantId: options?.tenantId,
-            userId: options?.userId,
-            task: options?.task,
-          }
-        );
+      for (const event of failoverEvents) {
+        yield { type: 'failover', event };
       }
-    );
+      contextualLogger.error({ error }, 'Streaming chat failed');
+      yield {
+        type: 'error',
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+      return;
+    }
+
+    for (const event of failoverEvents) {
+      yield { type: 'failover', event };
+    }
 
     // Sanitize response chunks when egress mode is 'enforce' or 'report-only'
     // This prevents PII leakage from LLM responses back to the client
@@ -1429,40 +1686,302 @@ export class LlmRouter implements LlmClient {
       ...options?.sanitizationOptions,
     };
 
-    try {
-      for await (const chunk of streamResult) {
-        if (chunk.type === 'text' && shouldSanitizeResponse) {
-          // Sanitize text deltas to remove any PII the LLM might have echoed or generated
-          const sanitizedDelta = sanitizeTextForEgress(chunk.delta, sanitizationOpts);
-          yield { type: 'text', delta: sanitizedDelta };
+    const sanitizeChunk = (chunk: LlmStreamChunk): LlmStreamChunk => {
+      if (chunk.type === 'text' && shouldSanitizeResponse) {
+        // Sanitize text deltas to remove any PII the LLM might have echoed or generated
+        return { type: 'text', delta: sanitizeTextForEgress(chunk.delta, sanitizationOpts) };
+      }
+      return chunk;
+    };
+
+    // Only complete, text-only answers are cached; tool calls and errors are not
+    let cacheableText: string | null = cacheInput ? '' : null;
+    let completed = false;
+    const emit = (chunk: LlmStreamChunk): LlmStreamChunk => {
+      const sanitized = sanitizeChunk(chunk);
+      if (cacheableText !== null) {
+        if (sanitized.type === 'text') {
+          cacheableText += sanitized.delta;
+        } else if (sanitized.type === 'done') {
+          completed = true;
         } else {
-          yield chunk;
+          cacheableText = null;
         }
       }
+      return sanitized;
+    };
+
+    try {
+      for (const chunk of primed.buffered) {
+        yield emit(chunk);
+      }
+
+      while (true) {
+        const next = await primed.iterator.next();
+        if (next.done) {
+          break;
+        }
+        yield emit(next.value);
+      }
     } catch (error) {
       contextualLogger.error({ error }, 'Streaming chat failed');
       yield {
         type: 'error',
         error: error instanceof Error ? error : new Error(String(error)),
       };
+      return;
+    }
+
+    if (cacheInput && cacheableText && completed) {
+      await this.responseCache!.set(cacheInput, cacheableText, answeredBy);
+    }
+  }
+
+  /**
+   * Cache key input for a request, or null when the response must not be
+   * cached: no cache backend, no tenant to scope it to, tool-enabled calls
+   * (answers depend on tool execution) or an explicit bypass. The effective
+   * egress mode is part of the key because it decides how the answer was
+   * sanitized.
+   */
+  private getResponseCacheInput(
+    messages: ChatMessage[],
+    candidate: RouteCandidate,
+    egressMode: EgressMode,
+    options: LlmCompletionOptions | undefined
+  ): LlmResponseCacheKeyInput | null {
+    if (!this.responseCache?.isEnabled() || !options?.tenantId || options.responseCache?.bypass) {
+      return null;
+    }
+    if (options.tools?.length || candidate.taskOptions.tools?.length) {
+      return null;
+    }
+
+    return {
+      tenantId: options.tenantId,
+      userId: options.userId,
+      egressMode,
+      task: options.task ?? 'main-chat',
+      provider: candidate.provider,
+      model: candidate.model,
+      messages,
+      nodeVersions: options.responseCache?.nodeVersions,
+    };
+  }
+
+  /**
+   * Cache hits are recorded against the request's touchpoint as zero-cost,
+   * zero-token requests so hit rates show up in cost reporting.
+   */
+  private recordResponseCacheHit(
+    hit: LlmResponseCacheHit,
+    options: LlmCompletionOptions | undefined,
+    streaming: boolean
+  ): void {
+    const attributes = {
+      provider: hit.entry.provider,
+      model: hit.entry.model,
+      success: true,
+      streaming,
+      cached: true,
+      tenantId: options?.tenantId,
+      userId: options?.userId,
+      task: options?.task ?? 'main-chat',
+    };
+
+    recordLlmRequest(0, attributes);
+    recordLlmCost({ ...attributes, inputTokens: 0, outputTokens: 0, durationMs: 0 }).catch((err: unknown) =>
+      this.logger.warn({ err }, 'Failed to record cached LLM cost')
+    );
+  }
+
+  /**
+   * Run `execute` against each candidate in order, retrying transient
+   * failures with backoff and skipping providers whose circuit is open.
+   */
+  private async executeWithFailover<T>(
+    candidates: RouteCandidate[],
+    options: LlmCompletionOptions | undefined,
+    streaming: boolean,
+    execute: (candidate: RouteCandidate) => Promise<T>,
+    onFailover: (event: LlmFailoverEvent) => void
+  ): Promise<T> {
+    const task = options?.task ?? 'main-chat';
+    let lastError: unknown;
+
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index];
+      const next = candidates[index + 1];
+
+      if (!this.circuitBreaker.tryAcquire(candidate.provider)) {
+        lastError = new LlmError(
+          `Circuit open for provider ${candidate.provider}; skipping until it recovers`,
+          503
+        );
+        this.reportFailover(
+          {
+            fromProvider: candidate.provider,
+            fromModel: candidate.model,
+            toProvider: next?.provider,
+            toModel: next?.model,
+            reason: 'circuit_open',
+            message: (lastError as Error).message,
+            attempts: 0,
+          },
+          options,
+          onFailover
+        );
+        continue;
+      }
+
+      let attempts = 0;
+      while (attempts < candidate.retry.maxAttempts) {
+        attempts += 1;
+        try {
+          const result = await withSpan(
+            'llm.router.attempt',
+            {
+              'app.llm.provider': candidate.provider,
+              'app.llm.model': candidate.model,
+              'app.llm.task': task,
+              'app.llm.attempt': attempts,
+              'app.llm.candidate_index': index,
+              'app.llm.streaming': streaming,
+            },
+            () => execute(candidate)
+          );
+          this.circuitBreaker.recordSuccess(candidate.provider);
+          return result;
+        } catch (error) {
+          lastError = error;
+          const transient = isTransientProviderError(error);
+          if (transient) {
+            this.circuitBreaker.recordFailure(candidate.provider);
+          } else {
+            this.circuitBreaker.releaseTrial(candidate.provider);
+          }
+
+          const canRetry =
+            transient &&
+            attempts < candidate.retry.maxAttempts &&
+            this.circuitBreaker.canRequest(candidate.provider);
+          if (!canRetry) {
+            break;
+          }
+
+          const delayMs = computeBackoffDelayMs(candidate.retry, attempts);
+          this.logger.warn(
+            {
+              provider: candidate.provider,
+              model: candidate.model,
+              task,
+              attempt: attempts,
+              delayMs,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            'Transient LLM provider failure, retrying'
+          );
+          recordLlmFailover({
+            fromProvider: candidate.provider,
+            fromModel: candidate.model,
+            reason: 'retry',
+            statusCode: getProviderErrorStatus(error),
+            task,
+          });
+          await this.sleep(delayMs);
+        }
+      }
+
+      this.reportFailover(
+        {
+          fromProvider: candidate.provider,
+          fromModel: candidate.model,
+          toProvider: next?.provider,
+          toModel: next?.model,
+          reason: 'error',
+          message: lastError instanceof Error ? lastError.message : String(lastError),
+          statusCode: getProviderErrorStatus(lastError),
+          attempts,
+        },
+        options,
+        onFailover
+      );
+    }
+
+    if (candidates.length === 1) {
+      throw lastError;
+    }
+
+    const lastMessage = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new LlmError(
+      `All ${candidates.length} providers failed for task ${task}: ${lastMessage}`,
+      getProviderErrorStatus(lastError),
+      { cause: lastError }
+    );
+  }
+
+  /**
+   * Log, trace and meter a failover; only notifies the caller when another
+   * candidate remains to take over.
+   */
+  private reportFailover(
+    event: LlmFailoverEvent,
+    options: LlmCompletionOptions | undefined,
+    onFailover: (event: LlmFailoverEvent) => void
+  ): void {
+    const task = options?.task ?? 'main-chat';
+
+    this.logger.warn(
+      { failover: event, tenantId: options?.tenantId, task },
+      event.toProvider
+        ? 'LLM provider failed, failing over to next candidate'
+        : 'LLM provider failed and no fallback candidates remain'
+    );
+
+    recordLlmFailover({
+      fromProvider: event.fromProvider,
+      fromModel: event.fromModel,
+      toProvider: event.toProvider,
+      toModel: event.toModel,
+      reason: event.reason,
+      statusCode: event.statusCode,
+      task,
+    });
+
+    void withSpan(
+      'llm.router.failover',
+      {
+        'app.llm.failover.from_provider': event.fromProvider,
+        'app.llm.failover.from_model': event.fromModel,
+        'app.llm.failover.to_provider': event.toProvider ?? 'none',
+        'app.llm.failover.to_model': event.toModel ?? 'none',
+        'app.llm.failover.reason': event.reason,
+        'app.llm.failover.attempts': event.attempts,
+        'app.llm.task': task,
+        ...(options?.tenantId ? { 'app.tenant.id': options.tenantId } : {}),
+      },
+      () => undefined
+    );
+
+    if (event.toProvider) {
+      onFailover(event);
     }
   }
 
   /**
    * Resolve provider, model, and task options based on tenant policy
+   *
+   * Returns the ordered candidate list: the resolved primary provider/model
+   * followed by any task fallbacks permitted by the tenant's egress policy.
    */
   private async resolveProviderAndModel(
     options?: LlmCompletionOptions
   ): Promise<{
     provider: string;
     model: string;
-    taskOptions: {
-      temperature?: number;
-      maxTokens?: number;
-      tools?: Array<Record<string, unknown>>;
-      toolChoice?: LlmCompletionOptions['toolChoice'];
-    };
+    taskOptions: ResolvedTaskOptions;
     tenantPolicy: TenantLlmPolicy | null;
+    candidates: RouteCandidate[];
   }> {
     const tenantId = options?.tenantId ?? 'default';
     const task = options?.task;
@@ -1488,15 +2007,7 @@ export class LlmRouter implements LlmClient {
       taskPoliciesCount: policy?.tasks?.length ?? 0,
     }, 'Retrieved tenant policy');
 
-    // Determine provider and model
-    let provider = this.defaultProvider;
-    let model = this.defaultModel;
-    const taskOptions: {
-      temperature?: number;
-      maxTokens?: number;
-      tools?: Array<Record<string, unknown>>;
-      toolChoice?: LlmCompletionOptions['toolChoice'];
-    } = {
+    const taskOptions: ResolvedTaskOptions = {
       temperature: options?.temperature,
       maxTokens: options?.maxTokens,
       tools: options?.tools,
@@ -1504,7 +2015,6 @@ export class LlmRouter implements LlmClient {
     };
 
     if (policy) {
-      // Check if tenant allows remote egress
       const taskPolicy = task
         ? policy.tasks.find(t => t.task === task)
         : undefined;
@@ -1515,6 +2025,7 @@ export class LlmRouter implements LlmClient {
         hasTaskPolicy: Boolean(taskPolicy),
         taskPolicyProvider: taskPolicy?.provider,
         taskPolicyModel: taskPolicy?.model,
+        taskPolicyFallbacks: taskPolicy?.fallbacks?.length ?? 0,
       }, 'Resolved task-specific policy');
 
       if (!policy.allowRemoteEgress) {
@@ -1522,61 +2033,71 @@ export class LlmRouter implements LlmClient {
           tenantId,
           task,
         }, 'Remote egress disabled for tenant, enforcing local provider');
+      }
+    }
 
-        // Remote egress disabled - enforce local provider only
-        if (!this.providers.local) {
-          throw new LlmError(
-            'Remote egress is disabled for this tenant but no local provider is configured'
-          );
-        }
+    // Determine provider and model
+    const registeredProviders = Object.keys(this.providers);
+    const route = resolvePolicyRoute(policy, task, {
+      defaultProvider: this.defaultProvider,
+      defaultModel: this.defaultModel,
+      providers: registeredProviders,
+    });
+    const { provider, routingPolicy, optionsPolicy } = route;
 
-        provider = 'local';
-        const localTaskPolicy =
-          task && taskPolicy?.provider === 'local'
-            ? taskPolicy
-            : task
-              ? policy.tasks.find(
-                  tenantTask =>
-                    tenantTask.task === task && tenantTask.provider === 'local'
-                )
-              : undefined;
-
-        if (localTaskPolicy) {
-          model = localTaskPolicy.model;
-          if (localTaskPolicy.temperature !== undefined) {
-            taskOptions.temperature = localTaskPolicy.temperature;
-          }
-          if (localTaskPolicy.maxTokens !== undefined) {
-            taskOptions.maxTokens = localTaskPolicy.maxTokens;
-          }
-        } else if (policy.defaultProvider === 'local') {
-          model = policy.defaultModel;
-        } else {
-          throw new LlmError(
-            'Remote egress is disabled for this tenant but no local model is configured for the requested task'
-          );
-        }
-      } else {
-        // Remote egress allowed - use task policy if present, else fall back to defaults
-        if (taskPolicy) {
-          provider = taskPolicy.provider;
-          model = taskPolicy.model;
-          if (taskPolicy.temperature !== undefined) {
-            taskOptions.temperature = taskPolicy.temperature;
-          }
-          if (taskPolicy.maxTokens !== undefined) {
-            taskOptions.maxTokens = taskPolicy.maxTokens;
-          }
-        } else {
-          provider = policy.defaultProvider;
-          model = policy.defaultModel;
-        }
-      }
+    if (optionsPolicy?.temperature !== undefined) {
+      taskOptions.temperature = optionsPolicy.temperature;
+    }
+    if (optionsPolicy?.maxTokens !== undefined) {
+      taskOptions.maxTokens = optionsPolicy.maxTokens;
     }
 
     // Override with explicit options if provided
-    if (options?.model) {
-      model = options.model;
+    const model = options?.model ?? route.model;
+
+    const candidates: RouteCandidate[] = [
+      {
+        provider,
+        model,
+        taskOptions,
+        retry: resolveRetryPolicy(this.defaultRetry, routingPolicy?.retry),
+      },
+    ];
+
+    const { fallbacks, skipped } = selectPolicyFallbacks(
+      policy,
+      routingPolicy,
+      { provider, model },
+      registeredProviders
+    );
+
+    for (const { fallback, reason } of skipped) {
+      if (reason === 'remote-egress-disabled') {
+        this.logger.debug({
+          tenantId,
+          task,
+          fallbackProvider: fallback.provider,
+        }, 'Skipping remote fallback for tenant without remote egress');
+      } else if (reason === 'unregistered-provider') {
+        this.logger.warn({
+          tenantId,
+          task,
+          fallbackProvider: fallback.provider,
+        }, 'Skipping fallback for unregistered provider');
+      }
+    }
+
+    for (const fallback of fallbacks) {
+      candidates.push({
+        provider: fallback.provider,
+        model: fallback.model,
+        taskOptions: {
+          ...taskOptions,
+          temperature: fallback.temperature ?? taskOptions.temperature,
+          maxTokens: fallback.maxTokens ?? taskOptions.maxTokens,
+        },
+        retry: resolveRetryPolicy(this.defaultRetry, routingPolicy?.retry, fallback.retry),
+      });
     }
 
     this.logger.info({
@@ -1584,9 +2105,10 @@ export class LlmRouter implements LlmClient {
       model,
       tenantId,
       task,
+      fallbacks: candidates.slice(1).map(c => `${c.provider}:${c.model}`),
     }, 'Resolved provider and model for request');
 
-    return { provider, model, taskOptions, tenantPolicy: policy };
+    return { provider, model, taskOptions, tenantPolicy: policy, candidates };
   }
 }
 
@@ -1661,6 +2183,16 @@ export interface LlmRouterConfig {
    * Optional preconfigured egress client to override the default.
    */
   egressClient?: EgressClient;
+
+  /**
+   * Optional retry/circuit breaker settings applied to every routed request.
+   */
+  resilience?: LlmRouterResilienceConfig;
+
+  /**
+   * Optional response cache consulted before routing chat/streamChat requests.
+   */
+  responseCache?: LlmResponseCache;
 }
 
 /**
@@ -1771,6 +2303,8 @@ export function createLlmRouter(config: LlmRouterConfig): LlmRouter {
     policyStore,
     defaultProvider,
     defaultModel,
-    egressClient
+    egressClient,
+    config.resilience,
+    config.responseCache
   );
 }
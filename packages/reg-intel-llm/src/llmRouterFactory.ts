@@ -3,6 +3,7 @@
  */
 
 import { createLlmRouter, type LlmPolicyStore, type TenantLlmPolicy, type ProviderConfig, type LocalProviderConfig } from './llmRouter.js';
+import type { LlmResponseCache } from './responseCache.js';
 
 export interface CreateDefaultLlmRouterOptions {
   /**
@@ -10,6 +11,12 @@ export interface CreateDefaultLlmRouterOptions {
    * This must be provided to avoid in-memory fallbacks.
    */
   policyStore?: LlmPolicyStore;
+
+  /**
+   * Optional response cache. Use createLlmResponseCache with the Redis backend
+   * resolved for the 'cache' component.
+   */
+  responseCache?: LlmResponseCache;
 }
 
 /**
@@ -124,6 +131,7 @@ export function createDefaultLlmRouter(options?: CreateDefaultLlmRouterOptions)
     defaultProvider,
     defaultModel,
     policyStore,
+    responseCache: options.responseCache,
   });
 
   return router;
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TenantLlmPolicy } from './llmRouter.js';
+import {
+  previewPolicyRoutes,
+  resolvePolicyRoute,
+  selectPolicyFallbacks,
+  validateTenantLlmPolicy,
+  type LlmModelCatalog,
+} from './policyRouting.js';
+
+const router = {
+  defaultProvider: 'groq',
+  defaultModel: 'llama-3.3-70b-versatile',
+  providers: ['groq', 'openai', 'local'],
+};
+
+const catalog: LlmModelCatalog = {
+  providers: ['groq', 'openai', 'local'],
+  models: {
+    groq: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'],
+    openai: ['gpt-4o', 'gpt-4o-mini'],
+    local: ['llama-3-8b'],
+  },
+};
+
+const basePolicy: TenantLlmPolicy = {
+  tenantId: 'tenant-1',
+  defaultProvider: 'openai',
+  defaultModel: 'gpt-4o',
+  allowRemoteEgress: true,
+  tasks: [
+    {
+      task: 'main-chat',
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      temperature: 0.3,
+      fallbacks: [
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'local', model: 'llama-3-8b' },
+      ],
+    },
+  ],
+};
+
+describe('resolvePolicyRoute', () => {
+  it('uses router defaults when the tenant has no policy', () => {
+    const route = resolvePolicyRoute(null, 'main-chat', router);
+
+    expect(route).toEqual({
+      provider: 'groq',
+      model: 'llama-3.3-70b-versatile',
+      source: 'router-default',
+    });
+  });
+
+  it('prefers the task policy, then the tenant default', () => {
+    expect(resolvePolicyRoute(basePolicy, 'main-chat', router)).toMatchObject({
+      provider: 'groq',
+      source: 'task',
+    });
+    expect(resolvePolicyRoute(basePolicy, 'egress-guard', router)).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o',
+      source: 'tenant-default',
+    });
+  });
+
+  it('pins local-only tenants to the local provider', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      allowRemoteEgress: false,
+      defaultProvider: 'local',
+      defaultModel: 'llama-3-8b',
+    };
+
+    const route = resolvePolicyRoute(policy, 'main-chat', router);
+
+    expect(route).toMatchObject({ provider: 'local', model: 'llama-3-8b', source: 'tenant-default' });
+    // Remote task options do not apply to the local route
+    expect(route.optionsPolicy).toBeUndefined();
+  });
+
+  it('rejects local-only tenants without a local route', () => {
+    const policy: TenantLlmPolicy = { ...basePolicy, allowRemoteEgress: false };
+
+    expect(() => resolvePolicyRoute(policy, 'main-chat', router)).toThrow(
+      /no local model is configured/
+    );
+    expect(() =>
+      resolvePolicyRoute(policy, 'main-chat', { ...router, providers: ['groq'] })
+    ).toThrow(/no local provider is configured/);
+  });
+});
+
+describe('selectPolicyFallbacks', () => {
+  it('skips remote, unregistered and duplicate fallbacks', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      tasks: [
+        {
+          task: 'main-chat',
+          provider: 'groq',
+          model: 'llama-3.3-70b-versatile',
+          fallbacks: [
+            { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+            { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+            { provider: 'openai', model: 'gpt-4o' },
+          ],
+        },
+      ],
+    };
+    const taskPolicy = policy.tasks[0];
+
+    const selection = selectPolicyFallbacks(policy, taskPolicy, taskPolicy, router.providers);
+
+    expect(selection.fallbacks.map(f => f.provider)).toEqual(['openai']);
+    expect(selection.skipped.map(s => s.reason)).toEqual(['unregistered-provider', 'duplicate']);
+
+    const localOnly = selectPolicyFallbacks(
+      { ...policy, allowRemoteEgress: false },
+      taskPolicy,
+      { provider: 'local', model: 'llama-3-8b' },
+      router.providers
+    );
+    expect(localOnly.fallbacks).toEqual([]);
+    expect(localOnly.skipped.map(s => s.reason)).toContain('remote-egress-disabled');
+  });
+});
+
+describe('previewPolicyRoutes', () => {
+  it('previews known tasks and tasks named in the policy', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      tasks: [...basePolicy.tasks, { task: 'agent-tax', provider: 'openai', model: 'gpt-4o-mini' }],
+    };
+
+    const preview = previewPolicyRoutes(policy, router);
+
+    const mainChat = preview.find(p => p.task === 'main-chat');
+    expect(mainChat).toMatchObject({
+      provider: 'groq',
+      source: 'task',
+      temperature: 0.3,
+      fallbacks: [
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'local', model: 'llama-3-8b' },
+      ],
+    });
+    expect(preview.find(p => p.task === 'agent-tax')).toMatchObject({ model: 'gpt-4o-mini' });
+    expect(preview.find(p => p.task === 'compaction')).toMatchObject({ source: 'tenant-default' });
+  });
+
+  it('reports tasks the router would reject', () => {
+    const preview = previewPolicyRoutes({ ...basePolicy, allowRemoteEgress: false }, router, [
+      'main-chat',
+    ]);
+
+    expect(preview).toHaveLength(1);
+    expect(preview[0].error).toMatch(/no local model is configured/);
+  });
+});
+
+describe('validateTenantLlmPolicy', () => {
+  it('accepts a policy that only references registered, priced models', () => {
+    expect(validateTenantLlmPolicy(basePolicy, catalog)).toEqual([]);
+  });
+
+  it('flags unregistered providers, unpriced models and duplicate tasks', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      defaultModel: 'gpt-5-preview',
+      tasks: [
+        ...basePolicy.tasks,
+        {
+          task: 'main-chat',
+          provider: 'anthropic',
+          model: 'claude-3-5-sonnet-20241022',
+          fallbacks: [{ provider: 'groq', model: 'mixtral' }],
+        },
+      ],
+    };
+
+    const issues = validateTenantLlmPolicy(policy, catalog);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'defaultModel', severity: 'error' }),
+      expect.objectContaining({ path: 'tasks.1.task', severity: 'error' }),
+      expect.objectContaining({ path: 'tasks.1.provider', severity: 'error' }),
+      expect.objectContaining({ path: 'tasks.1.fallbacks.0.model', severity: 'error' }),
+    ]);
+  });
+
+  it('warns about settings the router ignores', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      allowRemoteEgress: false,
+      egressMode: 'off',
+      userPolicies: { 'user-1': { egressMode: 'off', allowOffMode: true } },
+    };
+
+    const issues = validateTenantLlmPolicy(policy, catalog);
+
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true);
+    expect(issues.map(issue => issue.path)).toEqual([
+      'defaultProvider',
+      'tasks.0.provider',
+      'tasks.0.fallbacks.0.provider',
+      'egressMode',
+    ]);
+  });
+
+  it('prices local and zero-cost provider models at 0', () => {
+    const policy: TenantLlmPolicy = {
+      ...basePolicy,
+      tasks: [
+        {
+          task: 'main-chat',
+          provider: 'local',
+          model: 'qwen2.5-14b',
+          fallbacks: [{ provider: 'groq', model: 'mixtral' }],
+        },
+      ],
+    };
+
+    expect(validateTenantLlmPolicy(policy, catalog)).toEqual([
+      expect.objectContaining({ path: 'tasks.0.fallbacks.0.model', severity: 'error' }),
+    ]);
+    expect(validateTenantLlmPolicy(policy, { ...catalog, zeroCostProviders: ['groq'] })).toEqual([]);
+  });
+
+  it('requires a local provider when remote egress is disabled', () => {
+    const issues = validateTenantLlmPolicy(
+      { ...basePolicy, allowRemoteEgress: false, tasks: [] },
+      { ...catalog, providers: ['openai'] }
+    );
+
+    expect(issues).toContainEqual(
+      expect.objectContaining({ path: 'allowRemoteEgress', severity: 'error' })
+    );
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Policy Routing - tenant policy resolution, preview and validation
+ *
+ * Shared by LlmRouter (to pick the provider/model for a request) and by admin
+ * tooling that edits tenant policies, so a preview shows exactly what the
+ * router will do with a saved policy.
+ */
+
+import { LlmError } from './errors.js';
+import type { LlmFallbackTarget, LlmTaskPolicy, TenantLlmPolicy } from './llmRouter.js';
+
+/**
+ * Providers createLlmRouter can build from provider configs
+ */
+export const LLM_PROVIDER_IDS = ['openai', 'groq', 'anthropic', 'google', 'local'] as const;
+
+/**
+ * Tasks requested by the copilot services, previewed for every policy
+ */
+export const KNOWN_LLM_TASKS = [
+  'main-chat',
+  'egress-guard',
+  'pii-sanitizer',
+  'merge-summarizer',
+  'compaction',
+  'compaction:semantic',
+  'orchestrator-routing',
+  'orchestrator-merge',
+  'compliance-engine',
+] as const;
+
+export type PolicyRouteSource = 'task' | 'tenant-default' | 'router-default';
+
+export interface PolicyRouterDefaults {
+  defaultProvider: string;
+  defaultModel: string;
+  /** Registered provider keys */
+  providers: readonly string[];
+}
+
+export interface PolicyRoute {
+  provider: string;
+  model: string;
+  source: PolicyRouteSource;
+  /** Task policy supplying retry and fallbacks */
+  routingPolicy?: LlmTaskPolicy;
+  /** Task policy whose temperature and maxTokens apply */
+  optionsPolicy?: LlmTaskPolicy;
+}
+
+export type PolicyFallbackSkipReason = 'remote-egress-disabled' | 'unregistered-provider' | 'duplicate';
+
+export interface PolicyFallbackSelection {
+  fallbacks: LlmFallbackTarget[];
+  skipped: Array<{ fallback: LlmFallbackTarget; reason: PolicyFallbackSkipReason }>;
+}
+
+/**
+ * Resolve the primary provider and model for a task under a tenant policy
+ *
+ * Tenants without remote egress are pinned to the local provider: a local
+ * task policy wins, then a local tenant default, otherwise the request is
+ * rejected.
+ *
+ * @throws LlmError when remote egress is disabled and no local route exists
+ */
+export function resolvePolicyRoute(
+  policy: TenantLlmPolicy | null,
+  task: string | undefined,
+  router: PolicyRouterDefaults
+): PolicyRoute {
+  if (!policy) {
+    return {
+      provider: router.defaultProvider,
+      model: router.defaultModel,
+      source: 'router-default',
+    };
+  }
+
+  const taskPolicy = task ? policy.tasks.find(t => t.task === task) : undefined;
+
+  if (!policy.allowRemoteEgress) {
+    if (!router.providers.includes('local')) {
+      throw new LlmError(
+        'Remote egress is disabled for this tenant but no local provider is configured'
+      );
+    }
+
+    const localTaskPolicy =
+      task && taskPolicy?.provider === 'local'
+        ? taskPolicy
+        : task
+          ? policy.tasks.find(
+              tenantTask => tenantTask.task === task && tenantTask.provider === 'local'
+            )
+          : undefined;
+
+    if (localTaskPolicy) {
+      return {
+        provider: 'local',
+        model: localTaskPolicy.model,
+        source: 'task',
+        routingPolicy: localTaskPolicy,
+        optionsPolicy: localTaskPolicy,
+      };
+    }
+
+    if (policy.defaultProvider === 'local') {
+      return {
+        provider: 'local',
+        model: policy.defaultModel,
+        source: 'tenant-default',
+        routingPolicy: taskPolicy,
+      };
+    }
+
+    throw new LlmError(
+      'Remote egress is disabled for this tenant but no local model is configured for the requested task'
+    );
+  }
+
+  if (taskPolicy) {
+    return {
+      provider: taskPolicy.provider,
+      model: taskPolicy.model,
+      source: 'task',
+      routingPolicy: taskPolicy,
+      optionsPolicy: taskPolicy,
+    };
+  }
+
+  return {
+    provider: policy.defaultProvider,
+    model: policy.defaultModel,
+    source: 'tenant-default',
+  };
+}
+
+/**
+ * Filter a task's fallback chain to the targets the router will try
+ *
+ * Fallbacks never widen egress (local-only tenants only fail over locally),
+ * must use a registered provider and must not repeat an earlier target.
+ */
+export function selectPolicyFallbacks(
+  policy: TenantLlmPolicy | null,
+  routingPolicy: LlmTaskPolicy | undefined,
+  primary: { provider: string; model: string },
+  providers: readonly string[]
+): PolicyFallbackSelection {
+  const selection: PolicyFallbackSelection = { fallbacks: [], skipped: [] };
+  const targets = [primary];
+
+  for (const fallback of routingPolicy?.fallbacks ?? []) {
+    if (policy && !policy.allowRemoteEgress && fallback.provider !== 'local') {
+      selection.skipped.push({ fallback, reason: 'remote-egress-disabled' });
+      continue;
+    }
+
+    if (!providers.includes(fallback.provider)) {
+      selection.skipped.push({ fallback, reason: 'unregistered-provider' });
+      continue;
+    }
+
+    if (targets.some(t => t.provider === fallback.provider && t.model === fallback.model)) {
+      selection.skipped.push({ fallback, reason: 'duplicate' });
+      continue;
+    }
+
+    targets.push(fallback);
+    selection.fallbacks.push(fallback);
+  }
+
+  return selection;
+}
+
+export interface PolicyRoutePreview {
+  task: string;
+  provider?: string;
+  model?: string;
+  source?: PolicyRouteSource;
+  temperature?: number;
+  maxTokens?: number;
+  fallbacks: Array<{ provider: string; model: string }>;
+  skippedFallbacks: Array<{ provider: string; model: string; reason: PolicyFallbackSkipReason }>;
+  /** Why the router would reject requests for this task */
+  error?: string;
+}
+
+/**
+ * Preview the route each task resolves to under a policy
+ *
+ * Covers the known copilot tasks plus any task named in the policy.
+ */
+export function previewPolicyRoutes(
+  policy: TenantLlmPolicy | null,
+  router: PolicyRouterDefaults,
+  tasks: readonly string[] = KNOWN_LLM_TASKS
+): PolicyRoutePreview[] {
+  const taskNames = [...new Set([...tasks, ...(policy?.tasks.map(t => t.task) ?? [])])];
+
+  return taskNames.map(task => {
+    let route: PolicyRoute;
+    try {
+      route = resolvePolicyRoute(policy, task, router);
+    } catch (error) {
+      return {
+        task,
+        fallbacks: [],
+        skippedFallbacks: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const { fallbacks, skipped } = selectPolicyFallbacks(
+      policy,
+      route.routingPolicy,
+      route,
+      router.providers
+    );
+
+    return {
+      task,
+      provider: route.provider,
+      model: route.model,
+      source: route.source,
+      temperature: route.optionsPolicy?.temperature,
+      maxTokens: route.optionsPolicy?.maxTokens,
+      fallbacks: fallbacks.map(({ provider, model }) => ({ provider, model })),
+      skippedFallbacks: skipped.map(({ fallback, reason }) => ({
+        provider: fallback.provider,
+        model: fallback.model,
+        reason,
+      })),
+    };
+  });
+}
+
+/**
+ * Providers and models a policy may reference
+ */
+export interface LlmModelCatalog {
+  /** Providers registered with the router */
+  providers: readonly string[];
+  /** Priced models (lowercase) keyed by provider */
+  models: Record<string, readonly string[]>;
+  /**
+   * Providers whose models cost nothing per token, e.g. ones with only
+   * zero-priced rows. The self-hosted `local` provider is always zero-cost.
+   */
+  zeroCostProviders?: readonly string[];
+}
+
+/**
+ * Self-hosted providers: any model they serve is priced at 0
+ */
+const ZERO_COST_PROVIDERS = ['local'];
+
+export interface PolicyValidationIssue {
+  /** Dotted path into the policy, e.g. "tasks.0.fallbacks.1.model" */
+  path: string;
+  /** Errors block saving; warnings describe settings the router ignores */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Check a tenant policy against the router registry and pricing data
+ *
+ * Every provider must be registered and every model must have pricing so
+ * usage can be costed; models of zero-cost providers (local, self-hosted)
+ * are priced at 0 and need no pricing row. Settings the router would
+ * ignore, such as remote routes for a local-only tenant, are reported as
+ * warnings.
+ */
+export function validateTenantLlmPolicy(
+  policy: TenantLlmPolicy,
+  catalog: LlmModelCatalog
+): PolicyValidationIssue[] {
+  const issues: PolicyValidationIssue[] = [];
+  const localOnly = !policy.allowRemoteEgress;
+  const zeroCostProviders = new Set([...ZERO_COST_PROVIDERS, ...(catalog.zeroCostProviders ?? [])]);
+
+  const checkTarget = (
+    target: { provider: string; model: string },
+    providerPath: string,
+    modelPath: string
+  ) => {
+    if (!catalog.providers.includes(target.provider)) {
+      issues.push({
+        path: providerPath,
+        severity: 'error',
+        message: `Provider "${target.provider}" is not registered with the LLM router`,
+      });
+      return;
+    }
+    if (
+      !zeroCostProviders.has(target.provider) &&
+      !catalog.models[target.provider]?.includes(target.model.toLowerCase())
+    ) {
+      issues.push({
+        path: modelPath,
+        severity: 'error',
+        message: `No pricing found for ${target.provider}/${target.model}`,
+      });
+    }
+  };
+
+  checkTarget(
+    { provider: policy.defaultProvider, model: policy.defaultModel },
+    'defaultProvider',
+    'defaultModel'
+  );
+
+  if (localOnly) {
+    if (!catalog.providers.includes('local')) {
+      issues.push({
+        path: 'allowRemoteEgress',
+        severity: 'error',
+        message: 'Remote egress is disabled but no local provider is registered',
+      });
+    } else if (policy.defaultProvider !== 'local') {
+      issues.push({
+        path: 'defaultProvider',
+        severity: 'warning',
+        message: 'Remote egress is disabled, so tasks without a local task policy are rejected',
+      });
+    }
+  }
+
+  const seenTasks = new Set<string>();
+  policy.tasks.forEach((taskPolicy, index) => {
+    const path = `tasks.${index}.`;
+
+    if (seenTasks.has(taskPolicy.task)) {
+      issues.push({
+        path: `${path}task`,
+        severity: 'error',
+        message: `Task "${taskPolicy.task}" is configured more than once`,
+      });
+    }
+    seenTasks.add(taskPolicy.task);
+
+    checkTarget(taskPolicy, `${path}provider`, `${path}model`);
+    if (localOnly && taskPolicy.provider !== 'local') {
+      issues.push({
+        path: `${path}provider`,
+        severity: 'warning',
+        message: 'Remote egress is disabled, so this remote task policy is ignored',
+      });
+    }
+
+    taskPolicy.fallbacks?.forEach((fallback, fallbackIndex) => {
+      const fallbackPath = `${path}fallbacks.${fallbackIndex}.`;
+      checkTarget(fallback, `${fallbackPath}provider`, `${fallbackPath}model`);
+      if (localOnly && fallback.provider !== 'local') {
+        issues.push({
+          path: `${fallbackPath}provider`,
+          severity: 'warning',
+          message: 'Remote egress is disabled, so this remote fallback is skipped',
+        });
+      }
+    });
+  });
+
+  const tenantAllowOff = policy.allowOffMode ?? false;
+  if (policy.egressMode === 'off' && !tenantAllowOff) {
+    issues.push({
+      path: 'egressMode',
+      severity: 'warning',
+      message: 'Egress mode "off" is ignored unless off mode is allowed',
+    });
+  }
+
+  for (const [userId, userPolicy] of Object.entries(policy.userPolicies ?? {})) {
+    if (userPolicy.egressMode === 'off' && !(userPolicy.allowOffMode ?? tenantAllowOff)) {
+      issues.push({
+        path: `userPolicies.${userId}.egressMode`,
+        severity: 'warning',
+        message: 'Egress mode "off" is ignored unless off mode is allowed',
+      });
+    }
+  }
+
+  return issues;
+}
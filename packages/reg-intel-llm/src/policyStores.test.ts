@@ -355,6 +355,49 @@ describe('CachingPolicyStore', () => {
       const result2 = await cachingStore.getPolicy('tenant-8');
       expect(result2).toEqual(policy2);
     });
+
+    it('should evict the cached entry when a policy is saved', async () => {
+      const policy: TenantLlmPolicy = {
+        tenantId: 'tenant-9',
+        defaultModel: 'gpt-4',
+        defaultProvider: 'openai',
+        allowRemoteEgress: true,
+        tasks: [],
+        userPolicies: {},
+      };
+      const cache = (redis as any)._getCache();
+
+      // Another instance cached an older policy
+      cache['copilot:llm:policy:tenant-9'] = {
+        value: JSON.stringify({ ...policy, defaultModel: 'gpt-3.5-turbo' }),
+        expiresAt: Date.now() + 300_000,
+      };
+
+      await cachingStore.setPolicy(policy);
+
+      expect(redis.del).toHaveBeenCalledWith('copilot:llm:policy:tenant-9');
+      expect(cache['copilot:llm:policy:tenant-9']).toBeUndefined();
+
+      // The next read goes to the backing store instead of the stale entry
+      const getPolicy = vi.spyOn(backingStore, 'getPolicy').mockResolvedValueOnce(policy);
+      await expect(cachingStore.getPolicy('tenant-9')).resolves.toEqual(policy);
+      expect(getPolicy).toHaveBeenCalledWith('tenant-9');
+    });
+
+    it('should keep the cached entry when the backing store write fails', async () => {
+      const policy: TenantLlmPolicy = {
+        tenantId: 'tenant-10',
+        defaultModel: 'gpt-4',
+        defaultProvider: 'openai',
+        allowRemoteEgress: true,
+        tasks: [],
+        userPolicies: {},
+      };
+      vi.spyOn(backingStore, 'setPolicy').mockRejectedValueOnce(new Error('Failed to set policy'));
+
+      await expect(cachingStore.setPolicy(policy)).rejects.toThrow('Failed to set policy');
+      expect(redis.del).not.toHaveBeenCalled();
+    });
   });
 });
 
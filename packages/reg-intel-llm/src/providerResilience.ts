@@ -0,0 +1,243 @@
+/**
+ * Provider resilience primitives for LlmRouter
+ *
+ * - Retry/backoff policy resolution
+ * - Transient error classification (5xx, 429, timeouts, network resets)
+ * - Per-provider circuit breaker so a vendor outage is skipped quickly
+ *   instead of being retried on every chat turn
+ */
+
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+
+const logger = createLogger('ProviderCircuitBreaker');
+
+/**
+ * Retry/backoff settings applied to a single provider before failing over
+ */
+export interface LlmRetryPolicy {
+  /** Total attempts against the provider, including the first call (default 1). */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 250). */
+  initialDelayMs?: number;
+  /** Upper bound for any single backoff delay in milliseconds (default 4000). */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default 2). */
+  backoffMultiplier?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<LlmRetryPolicy> = {
+  maxAttempts: 1,
+  initialDelayMs: 250,
+  maxDelayMs: 4000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Merge retry policies, later entries taking precedence
+ */
+export function resolveRetryPolicy(
+  ...policies: Array<LlmRetryPolicy | undefined>
+): Required<LlmRetryPolicy> {
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) continue;
+    for (const [key, value] of Object.entries(policy) as Array<[keyof LlmRetryPolicy, number | undefined]>) {
+      if (value !== undefined) {
+        resolved[key] = value;
+      }
+    }
+  }
+  resolved.maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+  return resolved;
+}
+
+/**
+ * Compute the exponential backoff delay before retry number `retry` (1-based)
+ */
+export function computeBackoffDelayMs(policy: Required<LlmRetryPolicy>, retry: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, Math.max(0, retry - 1));
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Extract an HTTP status code from a provider/AI SDK error, if present
+ */
+export function getProviderErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const candidate = error as { statusCode?: unknown; status?: unknown; cause?: unknown };
+  if (typeof candidate.statusCode === 'number') {
+    return candidate.statusCode;
+  }
+  if (typeof candidate.status === 'number') {
+    return candidate.status;
+  }
+
+  return candidate.cause !== error ? getProviderErrorStatus(candidate.cause) : undefined;
+}
+
+const TRANSIENT_ERROR_PATTERN =
+  /timed? ?out|timeout|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|overloaded|service unavailable|bad gateway|rate limit/i;
+
+/**
+ * Whether an error is worth retrying and should count towards the circuit breaker.
+ *
+ * Client errors (4xx other than 408/429) are not transient: retrying the same
+ * provider will not help, although failing over to another provider still may.
+ */
+export function isTransientProviderError(error: unknown): boolean {
+  const status = getProviderErrorStatus(error);
+  if (status !== undefined) {
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return TRANSIENT_ERROR_PATTERN.test(message);
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive transient failures before the circuit opens (default 5). */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request is allowed (default 30s). */
+  resetTimeoutMs?: number;
+  /** Clock override for tests. */
+  now?: () => number;
+}
+
+interface CircuitEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  /** A half-open trial request is in flight; other requests are refused. */
+  trialInFlight?: boolean;
+}
+
+/**
+ * Per-provider circuit breaker.
+ *
+ * closed → open after `failureThreshold` consecutive transient failures;
+ * open → half-open once `resetTimeoutMs` has elapsed (one trial request);
+ * half-open → closed on success, or back to open on failure.
+ *
+ * While half-open only one trial may be in flight per provider: `tryAcquire`
+ * grants it to the first caller and refuses the rest until the trial settles,
+ * so a burst of concurrent requests fails over instead of hitting a provider
+ * that may still be down.
+ */
+export class ProviderCircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, CircuitEntry>();
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? 5;
+    this.resetTimeoutMs = config.resetTimeoutMs ?? 30_000;
+    this.now = config.now ?? Date.now;
+  }
+
+  getState(provider: string): CircuitState {
+    const entry = this.entries.get(provider);
+    if (!entry) {
+      return 'closed';
+    }
+
+    if (
+      entry.state === 'open' &&
+      entry.openedAt !== undefined &&
+      this.now() - entry.openedAt >= this.resetTimeoutMs
+    ) {
+      entry.state = 'half-open';
+      logger.info({ provider }, 'Circuit half-open, allowing trial request');
+    }
+
+    return entry.state;
+  }
+
+  /**
+   * Whether a request could be sent now, without claiming the half-open trial
+   */
+  canRequest(provider: string): boolean {
+    const state = this.getState(provider);
+    return state === 'closed' || (state === 'half-open' && !this.entries.get(provider)?.trialInFlight);
+  }
+
+  /**
+   * Claim permission to send a request. In the half-open state this claims
+   * the single trial slot; settle it with recordSuccess, recordFailure or
+   * releaseTrial.
+   */
+  tryAcquire(provider: string): boolean {
+    const state = this.getState(provider);
+    if (state === 'closed') {
+      return true;
+    }
+
+    const entry = this.entries.get(provider);
+    if (state === 'half-open' && entry && !entry.trialInFlight) {
+      entry.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Give up a half-open trial whose outcome says nothing about provider
+   * health (e.g. a client error), letting the next request try instead
+   */
+  releaseTrial(provider: string): void {
+    const entry = this.entries.get(provider);
+    if (entry) {
+      entry.trialInFlight = false;
+    }
+  }
+
+  recordSuccess(provider: string): void {
+    const entry = this.entries.get(provider);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.state !== 'closed') {
+      logger.info({ provider }, 'Circuit closed after successful request');
+    }
+    this.entries.delete(provider);
+  }
+
+  recordFailure(provider: string): void {
+    const entry = this.entries.get(provider) ?? { state: 'closed', consecutiveFailures: 0 };
+    entry.consecutiveFailures += 1;
+    entry.trialInFlight = false;
+
+    const shouldOpen =
+      entry.state === 'half-open' || entry.consecutiveFailures >= this.failureThreshold;
+
+    if (shouldOpen && entry.state !== 'open') {
+      entry.state = 'open';
+      entry.openedAt = this.now();
+      logger.warn(
+        { provider, consecutiveFailures: entry.consecutiveFailures, resetTimeoutMs: this.resetTimeoutMs },
+        'Circuit opened for provider'
+      );
+    }
+
+    this.entries.set(provider, entry);
+  }
+
+  reset(provider?: string): void {
+    if (provider) {
+      this.entries.delete(provider);
+    } else {
+      this.entries.clear();
+    }
+  }
+}
@@ -0,0 +1,346 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@reg-copilot/reg-intel-observability', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@reg-copilot/reg-intel-observability')>();
+  return {
+    ...actual,
+    recordLlmRequest: vi.fn(),
+    recordLlmCost: vi.fn(async () => {}),
+  };
+});
+
+import { recordLlmCost, recordLlmRequest } from '@reg-copilot/reg-intel-observability';
+import type { CacheBackend } from '@reg-copilot/reg-intel-cache';
+import type { ChatMessage } from './types.js';
+import { EgressClient } from './egressClient.js';
+import { LlmRouter, type LlmStreamChunk, type TenantLlmPolicy } from './llmRouter.js';
+import {
+  LlmResponseCache,
+  collectChangedNodeIds,
+  createLlmResponseCache,
+  replayCachedResponse,
+  type LlmResponseCacheGraphPatch,
+  type LlmResponseCacheKeyInput,
+} from './responseCache.js';
+
+class MapBackend implements CacheBackend {
+  readonly store = new Map<string, string>();
+  async get(key: string) {
+    return this.store.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.store.set(key, value);
+  }
+  async del(key: string) {
+    this.store.delete(key);
+  }
+}
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'What is the PRSI rate for Class S?' }];
+
+function keyInput(overrides: Partial<LlmResponseCacheKeyInput> = {}): LlmResponseCacheKeyInput {
+  return {
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    egressMode: 'enforce',
+    task: 'main-chat',
+    provider: 'openai',
+    model: 'gpt-4o',
+    messages,
+    nodeVersions: { 'IE_PRSI_CLASS_S': 'v1' },
+    ...overrides,
+  };
+}
+
+async function collect(stream: AsyncIterable<LlmStreamChunk>): Promise<LlmStreamChunk[]> {
+  const chunks: LlmStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function emptyPatch(): LlmResponseCacheGraphPatch {
+  return {
+    nodes: { updated: [], removed: [] },
+    edges: { added: [], updated: [], removed: [] },
+  };
+}
+
+describe('LlmResponseCache', () => {
+  let backend: MapBackend;
+  let cache: LlmResponseCache;
+
+  beforeEach(() => {
+    backend = new MapBackend();
+    cache = new LlmResponseCache(backend, 'redis');
+  });
+
+  it('returns stored answers for identical requests', async () => {
+    await cache.set(keyInput(), 'Class S is charged at 4%.');
+
+    const hit = await cache.get(keyInput());
+
+    expect(hit?.match).toBe('exact');
+    expect(hit?.entry.text).toBe('Class S is charged at 4%.');
+    expect(hit?.entry.nodeIds).toEqual(['IE_PRSI_CLASS_S']);
+  });
+
+  it('keys entries by tenant, user, egress mode, task, model and node versions', async () => {
+    await cache.set(keyInput(), 'answer');
+
+    expect(await cache.get(keyInput({ tenantId: 'tenant-2' }))).toBeNull();
+    expect(await cache.get(keyInput({ userId: 'user-2' }))).toBeNull();
+    expect(await cache.get(keyInput({ egressMode: 'off' }))).toBeNull();
+    expect(await cache.get(keyInput({ task: 'compliance-engine' }))).toBeNull();
+    expect(await cache.get(keyInput({ model: 'gpt-4o-mini' }))).toBeNull();
+    expect(await cache.get(keyInput({ nodeVersions: { 'IE_PRSI_CLASS_S': 'v2' } }))).toBeNull();
+  });
+
+  it('ignores node version ordering when building keys', () => {
+    const a = cache.buildKey(keyInput({ nodeVersions: { a: '1', b: '2' } }));
+    const b = cache.buildKey(keyInput({ nodeVersions: { b: '2', a: '1' } }));
+
+    expect(a).toBe(b);
+  });
+
+  it('keeps raw PII out of cache keys and never embeds prompts that redaction changes', async () => {
+    const embed = vi.fn(async (_text: string) => [1, 0]);
+    cache = new LlmResponseCache(backend, 'redis', { embed });
+    const withEmail: ChatMessage[] = [{ role: 'user', content: 'Email me at jane.doe@example.com' }];
+
+    await cache.set(keyInput({ messages: withEmail }), 'answer');
+
+    expect(embed).not.toHaveBeenCalled();
+    expect([...backend.store.keys()].join(' ')).not.toContain('jane.doe@example.com');
+  });
+
+  it('keeps prompts that differ only in redacted details apart', async () => {
+    const forJane: ChatMessage[] = [{ role: 'user', content: 'Email me at jane.doe@example.com' }];
+    const forJohn: ChatMessage[] = [{ role: 'user', content: 'Email me at john.roe@example.com' }];
+
+    await cache.set(keyInput({ messages: forJane }), 'Sent to Jane');
+
+    expect(await cache.get(keyInput({ messages: forJohn }))).toBeNull();
+    expect((await cache.get(keyInput({ messages: forJane })))?.entry.text).toBe('Sent to Jane');
+  });
+
+  it('matches near-duplicate prompts above the similarity threshold', async () => {
+    const embeddings: Record<string, number[]> = {
+      'What is the PRSI rate for Class S?': [1, 0, 0],
+      'What PRSI rate applies to Class S?': [0.99, 0.1, 0],
+      'How do I register for VAT?': [0, 1, 0],
+    };
+    cache = new LlmResponseCache(backend, 'redis', {
+      embed: async text => embeddings[text.replace('user: ', '')],
+      similarityThreshold: 0.95,
+    });
+    await cache.set(keyInput(), 'Class S is charged at 4%.');
+
+    const similar = await cache.get(
+      keyInput({ messages: [{ role: 'user', content: 'What PRSI rate applies to Class S?' }] })
+    );
+    const unrelated = await cache.get(
+      keyInput({ messages: [{ role: 'user', content: 'How do I register for VAT?' }] })
+    );
+
+    expect(similar?.match).toBe('similar');
+    expect(similar?.similarity).toBeGreaterThan(0.95);
+    expect(similar?.entry.text).toBe('Class S is charged at 4%.');
+    expect(unrelated).toBeNull();
+  });
+
+  it('treats embedding failures as misses', async () => {
+    cache = new LlmResponseCache(backend, 'redis', {
+      embed: async () => {
+        throw new Error('embedding service down');
+      },
+    });
+    await cache.set(keyInput(), 'answer');
+
+    expect(await cache.get(keyInput({ messages: [{ role: 'user', content: 'Different' }] }))).toBeNull();
+    expect((await cache.get(keyInput()))?.entry.text).toBe('answer');
+  });
+
+  it('invalidates entries that cite changed nodes only', async () => {
+    await cache.set(keyInput(), 'prsi answer');
+    await cache.set(
+      keyInput({ messages: [{ role: 'user', content: 'VAT?' }], nodeVersions: { IE_VAT: 'v1' } }),
+      'vat answer'
+    );
+
+    const deleted = await cache.invalidateNodes(['IE_PRSI_CLASS_S']);
+
+    expect(deleted).toBe(1);
+    expect(await cache.get(keyInput())).toBeNull();
+    expect(
+      (await cache.get(keyInput({ messages: [{ role: 'user', content: 'VAT?' }], nodeVersions: { IE_VAT: 'v1' } })))
+        ?.entry.text
+    ).toBe('vat answer');
+  });
+
+  it('invalidates cited nodes when the graph change source reports a patch', async () => {
+    let listener: ((patch: LlmResponseCacheGraphPatch) => void) | undefined;
+    const unsubscribe = vi.fn();
+    const detector = {
+      subscribe: vi.fn((_filter: { jurisdictions?: string[] }, callback: (patch: LlmResponseCacheGraphPatch) => void) => {
+        listener = callback;
+        return { unsubscribe };
+      }),
+    };
+    await cache.set(keyInput(), 'prsi answer');
+
+    const subscription = cache.subscribeToGraphChanges(detector, { jurisdictions: ['IE'] });
+    listener!({ ...emptyPatch(), nodes: { updated: [{ id: 'IE_PRSI_CLASS_S' }], removed: [] } });
+    await vi.waitFor(async () => expect(await cache.get(keyInput())).toBeNull());
+
+    subscription.unsubscribe();
+    expect(detector.subscribe).toHaveBeenCalledWith({ jurisdictions: ['IE'] }, expect.any(Function));
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('collects updated, removed and edge endpoint node ids from patches', () => {
+    const ids = collectChangedNodeIds({
+      nodes: { updated: [{ id: 'a' }], removed: ['b'] },
+      edges: { added: [{ source: 'c', target: 'a' }], updated: [], removed: [{ source: 'd', target: 'e' }] },
+    });
+
+    expect(ids.sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('falls back to the pass-through backend without Redis', async () => {
+    const passThrough = createLlmResponseCache({ backend: null });
+    await passThrough.set(keyInput(), 'answer');
+
+    expect(passThrough.isEnabled()).toBe(false);
+    expect(passThrough.getBackendType()).toBe('passthrough');
+    expect(await passThrough.get(keyInput())).toBeNull();
+  });
+
+  it('replays cached answers as text chunks followed by done', async () => {
+    const text = 'word '.repeat(40).trim();
+
+    const chunks = await collect(replayCachedResponse(text));
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[chunks.length - 1]).toEqual({ type: 'done' });
+    expect(chunks.map(chunk => (chunk.type === 'text' ? chunk.delta : '')).join('')).toBe(text);
+  });
+});
+
+describe('LlmRouter response caching', () => {
+  const policy: TenantLlmPolicy = {
+    tenantId: 'tenant-1',
+    defaultProvider: 'openai',
+    defaultModel: 'gpt-4o',
+    allowRemoteEgress: true,
+    egressMode: 'off',
+    allowOffMode: true,
+    tasks: [{ task: 'main-chat', provider: 'openai', model: 'gpt-4o' }],
+  };
+
+  function createRouter(cache: LlmResponseCache) {
+    const provider = {
+      chat: vi.fn(async () => 'Class S is charged at 4%.'),
+      streamChat: vi.fn(async function* (): AsyncIterable<LlmStreamChunk> {
+        yield { type: 'text', delta: 'Class S is ' };
+        yield { type: 'text', delta: 'charged at 4%.' };
+        yield { type: 'done' };
+      }),
+    };
+    const router = new LlmRouter(
+      { openai: provider },
+      { getPolicy: async () => policy, setPolicy: async () => {} },
+      'openai',
+      'gpt-4o',
+      new EgressClient({ allowedProviders: ['openai'], mode: 'off' }),
+      undefined,
+      cache
+    );
+    return { router, provider };
+  }
+
+  const options = {
+    tenantId: 'tenant-1',
+    userId: 'user-1',
+    task: 'main-chat',
+    responseCache: { nodeVersions: { 'IE_PRSI_CLASS_S': 'v1' } },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('serves repeated chat requests from the cache and records a zero-cost hit', async () => {
+    const { router, provider } = createRouter(new LlmResponseCache(new MapBackend(), 'redis'));
+
+    const first = await router.chat(messages, options);
+    const second = await router.chat(messages, options);
+
+    expect(first).toBe('Class S is charged at 4%.');
+    expect(second).toBe(first);
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(recordLlmRequest).toHaveBeenCalledWith(
+      0,
+      expect.objectContaining({ provider: 'openai', model: 'gpt-4o', cached: true, task: 'main-chat' })
+    );
+    expect(recordLlmCost).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 0, outputTokens: 0, cached: true, tenantId: 'tenant-1', userId: 'user-1' })
+    );
+  });
+
+  it('replays cached answers to streaming requests', async () => {
+    const { router, provider } = createRouter(new LlmResponseCache(new MapBackend(), 'redis'));
+
+    await router.chat(messages, options);
+    const chunks = await collect(router.streamChat(messages, options));
+
+    expect(provider.streamChat).not.toHaveBeenCalled();
+    expect(chunks.map(chunk => (chunk.type === 'text' ? chunk.delta : '')).join('')).toBe('Class S is charged at 4%.');
+    expect(chunks[chunks.length - 1]).toEqual({ type: 'done' });
+  });
+
+  it('caches completed streams for later chat requests', async () => {
+    const { router, provider } = createRouter(new LlmResponseCache(new MapBackend(), 'redis'));
+
+    await collect(router.streamChat(messages, options));
+    const answer = await router.chat(messages, options);
+
+    expect(answer).toBe('Class S is charged at 4%.');
+    expect(provider.chat).not.toHaveBeenCalled();
+  });
+
+  it('skips the cache for tool calls, bypassed requests and requests without a tenant', async () => {
+    const { router, provider } = createRouter(new LlmResponseCache(new MapBackend(), 'redis'));
+    const tools = [{ type: 'function', function: { name: 'lookup' } }];
+
+    await router.chat(messages, { ...options, tools });
+    await router.chat(messages, { ...options, tools });
+    await router.chat(messages, { ...options, responseCache: { ...options.responseCache, bypass: true } });
+    await router.chat(messages, { ...options, responseCache: { ...options.responseCache, bypass: true } });
+    await router.chat(messages, { ...options, tenantId: undefined });
+
+    expect(provider.chat).toHaveBeenCalledTimes(5);
+    expect(recordLlmCost).not.toHaveBeenCalled();
+  });
+
+  it('does not serve answers cached under another egress mode', async () => {
+    const { router, provider } = createRouter(new LlmResponseCache(new MapBackend(), 'redis'));
+
+    await router.chat(messages, options);
+    await router.chat(messages, { ...options, egressModeOverride: 'enforce' });
+
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it('calls the provider again after a cited node is invalidated', async () => {
+    const cache = new LlmResponseCache(new MapBackend(), 'redis');
+    const { router, provider } = createRouter(cache);
+
+    await router.chat(messages, options);
+    await cache.invalidateNodes(['IE_PRSI_CLASS_S']);
+    await router.chat(messages, options);
+
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * LLM Response Cache
+ *
+ * Caches routed LLM answers so that repeated questions are served without a
+ * provider call. Entries are keyed by tenant, user, effective egress mode,
+ * task, provider/model, a hash of the prompt and the versions of the graph
+ * nodes the prompt referenced, so an answer is only reused for the same
+ * egress policy and while the regulatory facts behind it are unchanged.
+ *
+ * Optional near-duplicate matching: when an embedding function is configured,
+ * a prompt that misses the exact key is compared against recent prompts in the
+ * same scope (tenant, user, egress mode, task, model and node versions) and
+ * reuses an answer whose prompt embedding is at least `similarityThreshold`
+ * similar. Prompts that PII redaction changes are never embedded, since
+ * prompts differing only in redacted details would match each other.
+ *
+ * Storage goes through reg-intel-cache's transparent cache, so a missing or
+ * failing Redis behaves as a permanent cache miss.
+ *
+ * Invalidation: every entry is indexed by the graph nodes it cites. When
+ * GraphChangeDetector reports a change to one of those nodes, the entries are
+ * deleted (see `subscribeToGraphChanges`).
+ */
+
+import { createHash } from 'crypto';
+import {
+  createKeyValueClient,
+  createTransparentCache,
+  type CacheBackend,
+  type ResolvedBackend,
+  type TransparentCache,
+} from '@reg-copilot/reg-intel-cache';
+import { createLogger } from '@reg-copilot/reg-intel-observability';
+import type { ChatMessage } from './types.js';
+import type { EgressMode } from './egressClient.js';
+import { sanitizeTextForEgress } from './egressGuard.js';
+import type { LlmStreamChunk } from './llmRouter.js';
+
+const logger = createLogger('LlmResponseCache');
+
+/** Default entry lifetime (1 hour) */
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_KEY_PREFIX = 'copilot:llm:response';
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+const DEFAULT_MAX_SIMILAR_ENTRIES = 200;
+/** Approximate size of text chunks when replaying a cached answer as a stream */
+const REPLAY_CHUNK_SIZE = 64;
+
+/**
+ * Everything that identifies a cacheable request
+ */
+export interface LlmResponseCacheKeyInput {
+  tenantId: string;
+  /** Per-user egress policies can change how the answer was sanitized */
+  userId?: string | null;
+  /** Effective egress mode the answer was produced and sanitized under */
+  egressMode: EgressMode;
+  task: string;
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  /** Versions of the graph nodes referenced by the prompt, keyed by node id */
+  nodeVersions?: Record<string, string>;
+}
+
+/**
+ * Stored answer
+ */
+export interface CachedLlmResponse {
+  text: string;
+  /** Provider/model that produced the answer (may be a fallback of the keyed model) */
+  provider: string;
+  model: string;
+  /** Graph nodes the answer depends on; used for invalidation */
+  nodeIds: string[];
+  createdAt: string;
+}
+
+export interface LlmResponseCacheHit {
+  entry: CachedLlmResponse;
+  match: 'exact' | 'similar';
+  /** Cosine similarity of the matched prompt (1 for exact matches) */
+  similarity: number;
+}
+
+/**
+ * Embedding function used for near-duplicate matching
+ */
+export type LlmPromptEmbedder = (text: string) => Promise<number[]>;
+
+export interface LlmResponseCacheOptions {
+  /** Entry TTL in seconds (default: 3600) */
+  ttlSeconds?: number;
+  /** Key prefix (default: 'copilot:llm:response') */
+  keyPrefix?: string;
+  /** Enables near-duplicate matching when provided */
+  embed?: LlmPromptEmbedder;
+  /** Minimum cosine similarity for a near-duplicate hit (default: 0.95) */
+  similarityThreshold?: number;
+  /** Prompts remembered per scope for near-duplicate matching (default: 200) */
+  maxSimilarEntries?: number;
+}
+
+/**
+ * Minimal view of a GraphChangeDetector patch. Declared structurally so this
+ * package does not depend on reg-intel-graph.
+ */
+export interface LlmResponseCacheGraphPatch {
+  nodes: {
+    updated: Array<{ id: string }>;
+    removed: string[];
+  };
+  edges: {
+    added: Array<{ source: string; target: string }>;
+    updated: Array<{ source: string; target: string }>;
+    removed: Array<{ source: string; target: string }>;
+  };
+}
+
+/**
+ * Anything that can be subscribed to for graph patches (GraphChangeDetector)
+ */
+export interface LlmResponseCacheGraphChangeSource<Filter = Record<string, never>> {
+  subscribe(
+    filter: Filter,
+    callback: (patch: LlmResponseCacheGraphPatch) => void
+  ): { unsubscribe: () => void };
+}
+
+interface SimilarPromptEntry {
+  key: string;
+  embedding: number[];
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function sortedNodeVersions(nodeVersions?: Record<string, string>): Array<[string, string]> {
+  return Object.entries(nodeVersions ?? {}).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Prompt text used for keys and embeddings. Keys only ever contain its hash,
+ * so the pre-redaction text keeps prompts that differ in redacted details
+ * apart without storing raw user data.
+ */
+function promptText(messages: ChatMessage[], transform: (content: string) => string = content => content): string {
+  return messages.map(message => `${message.role}: ${transform(message.content)}`).join('\n');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Node ids whose cached answers are stale after a graph patch. Edge changes
+ * invalidate both endpoints since the relationship is part of the node's
+ * context in the prompt.
+ */
+export function collectChangedNodeIds(patch: LlmResponseCacheGraphPatch): string[] {
+  const ids = new Set<string>();
+  for (const node of patch.nodes.updated) ids.add(node.id);
+  for (const id of patch.nodes.removed) ids.add(id);
+  for (const edge of [...patch.edges.added, ...patch.edges.updated, ...patch.edges.removed]) {
+    ids.add(edge.source);
+    ids.add(edge.target);
+  }
+  return [...ids];
+}
+
+/**
+ * Replay a cached answer as a stream of text chunks followed by `done`.
+ * Chunks break on whitespace so consumers render words, not fragments.
+ */
+export async function* replayCachedResponse(text: string): AsyncIterable<LlmStreamChunk> {
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + REPLAY_CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const boundary = text.lastIndexOf(' ', end);
+      if (boundary > start) {
+        end = boundary + 1;
+      }
+    }
+    yield { type: 'text', delta: text.slice(start, end) };
+    start = end;
+  }
+  yield { type: 'done' };
+}
+
+export class LlmResponseCache {
+  private readonly entries: TransparentCache<CachedLlmResponse>;
+  private readonly nodeIndex: TransparentCache<string[]>;
+  private readonly similarIndex: TransparentCache<SimilarPromptEntry[]>;
+  private readonly ttlSeconds: number;
+  private readonly keyPrefix: string;
+  private readonly embed?: LlmPromptEmbedder;
+  private readonly similarityThreshold: number;
+  private readonly maxSimilarEntries: number;
+
+  constructor(
+    backend: CacheBackend | null,
+    backendType: 'redis' | 'upstash' | null,
+    options: LlmResponseCacheOptions = {}
+  ) {
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.embed = options.embed;
+    this.similarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    this.maxSimilarEntries = options.maxSimilarEntries ?? DEFAULT_MAX_SIMILAR_ENTRIES;
+
+    const cacheOptions = { defaultTtlSeconds: this.ttlSeconds };
+    this.entries = createTransparentCache<CachedLlmResponse>(backend, backendType, cacheOptions);
+    this.nodeIndex = createTransparentCache<string[]>(backend, backendType, cacheOptions);
+    this.similarIndex = createTransparentCache<SimilarPromptEntry[]>(backend, backendType, cacheOptions);
+  }
+
+  /**
+   * False when running on the pass-through backend, in which case callers can
+   * skip building keys entirely
+   */
+  isEnabled(): boolean {
+    return this.entries.getBackendType() !== 'passthrough';
+  }
+
+  getBackendType(): 'redis' | 'upstash' | 'passthrough' {
+    return this.entries.getBackendType();
+  }
+
+  /**
+   * Exact cache key for a request
+   */
+  buildKey(input: LlmResponseCacheKeyInput): string {
+    return `${this.keyPrefix}:${input.tenantId}:${sha256(
+      JSON.stringify([this.scopeParts(input), promptText(input.messages)])
+    )}`;
+  }
+
+  async get(input: LlmResponseCacheKeyInput): Promise<LlmResponseCacheHit | null> {
+    const key = this.buildKey(input);
+    const exact = await this.entries.get(key);
+    if (exact) {
+      logger.debug({ tenantId: input.tenantId, task: input.task }, 'LLM response cache hit');
+      return { entry: exact, match: 'exact', similarity: 1 };
+    }
+
+    if (!this.embed) {
+      return null;
+    }
+
+    const embedding = await this.embedPrompt(input.messages);
+    if (!embedding) {
+      return null;
+    }
+
+    const similar = (await this.similarIndex.get(this.scopeKey(input))) ?? [];
+    const candidates = similar
+      .map(candidate => ({ key: candidate.key, similarity: cosineSimilarity(embedding, candidate.embedding) }))
+      .filter(candidate => candidate.similarity >= this.similarityThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    // Candidates may point at entries that have since expired or been invalidated
+    for (const candidate of candidates) {
+      const entry = await this.entries.get(candidate.key);
+      if (entry) {
+        logger.debug(
+          { tenantId: input.tenantId, task: input.task, similarity: candidate.similarity },
+          'LLM response cache near-duplicate hit'
+        );
+        return { entry, match: 'similar', similarity: candidate.similarity };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Store an answer. Index updates are read-modify-write; concurrent writers
+   * may drop each other's index additions, which only costs a cache miss or a
+   * missed invalidation until the entry's TTL expires.
+   */
+  async set(
+    input: LlmResponseCacheKeyInput,
+    text: string,
+    producedBy: { provider: string; model: string } = input
+  ): Promise<void> {
+    const key = this.buildKey(input);
+    const nodeIds = Object.keys(input.nodeVersions ?? {});
+
+    await this.entries.set(key, {
+      text,
+      provider: producedBy.provider,
+      model: producedBy.model,
+      nodeIds,
+      createdAt: new Date().toISOString(),
+    });
+
+    for (const nodeId of nodeIds) {
+      const indexKey = this.nodeIndexKey(nodeId);
+      const keys = (await this.nodeIndex.get(indexKey)) ?? [];
+      if (!keys.includes(key)) {
+        await this.nodeIndex.set(indexKey, [...keys, key]);
+      }
+    }
+
+    if (this.embed) {
+      const embedding = await this.embedPrompt(input.messages);
+      if (embedding) {
+        const scopeKey = this.scopeKey(input);
+        const similar = ((await this.similarIndex.get(scopeKey)) ?? []).filter(entry => entry.key !== key);
+        similar.push({ key, embedding });
+        await this.similarIndex.set(scopeKey, similar.slice(-this.maxSimilarEntries));
+      }
+    }
+  }
+
+  /**
+   * Delete every cached answer that cites any of the given graph nodes
+   *
+   * @returns Number of cache entries deleted
+   */
+  async invalidateNodes(nodeIds: string[]): Promise<number> {
+    const keys = new Set<string>();
+    for (const nodeId of nodeIds) {
+      const indexKey = this.nodeIndexKey(nodeId);
+      const indexed = await this.nodeIndex.get(indexKey);
+      if (indexed) {
+        indexed.forEach(key => keys.add(key));
+        await this.nodeIndex.del(indexKey);
+      }
+    }
+
+    for (const key of keys) {
+      await this.entries.del(key);
+    }
+
+    if (keys.size > 0) {
+      logger.info({ nodeCount: nodeIds.length, entryCount: keys.size }, 'Invalidated cached LLM responses');
+    }
+    return keys.size;
+  }
+
+  /**
+   * Invalidate cached answers whenever the change source reports a patch that
+   * touches a cited node. Returns the subscription so callers can detach.
+   */
+  subscribeToGraphChanges<Filter>(
+    source: LlmResponseCacheGraphChangeSource<Filter>,
+    filter: Filter
+  ): { unsubscribe: () => void } {
+    return source.subscribe(filter, patch => {
+      const nodeIds = collectChangedNodeIds(patch);
+      if (nodeIds.length === 0) {
+        return;
+      }
+      this.invalidateNodes(nodeIds).catch(error => {
+        logger.warn({ error, nodeCount: nodeIds.length }, 'Failed to invalidate cached LLM responses');
+      });
+    });
+  }
+
+  private scopeParts(input: LlmResponseCacheKeyInput): unknown[] {
+    return [
+      input.tenantId,
+      input.userId ?? null,
+      input.egressMode,
+      input.task,
+      input.provider,
+      input.model,
+      sortedNodeVersions(input.nodeVersions),
+    ];
+  }
+
+  private scopeKey(input: LlmResponseCacheKeyInput): string {
+    return `${this.keyPrefix}:similar:${input.tenantId}:${sha256(JSON.stringify(this.scopeParts(input)))}`;
+  }
+
+  private nodeIndexKey(nodeId: string): string {
+    return `${this.keyPrefix}:node:${nodeId}`;
+  }
+
+  private async embedPrompt(messages: ChatMessage[]): Promise<number[] | null> {
+    const text = promptText(messages);
+    // Raw user data must not reach the embedding call, and a redacted prompt
+    // would match every prompt that differs only in the redacted details
+    if (promptText(messages, sanitizeTextForEgress) !== text) {
+      return null;
+    }
+
+    try {
+      return await this.embed!(text);
+    } catch (error) {
+      logger.warn({ error }, 'Prompt embedding failed - skipping near-duplicate matching');
+      return null;
+    }
+  }
+}
+
+export interface LlmResponseCacheConfig extends LlmResponseCacheOptions {
+  /**
+   * Backend from `resolveRedisBackend('cache')`. Null or undefined selects
+   * the pass-through backend (every lookup misses).
+   */
+  backend?: ResolvedBackend | null;
+  /** Pre-built key-value client for the backend (defaults to `createKeyValueClient(backend)`) */
+  client?: CacheBackend;
+}
+
+/**
+ * Create a response cache with transparent failover
+ *
+ * Always returns an LlmResponseCache; without a Redis backend it simply never
+ * hits.
+ */
+export function createLlmResponseCache(config: LlmResponseCacheConfig = {}): LlmResponseCache {
+  const { backend, client, ...options } = config;
+  const resolvedClient = client ?? createKeyValueClient(backend ?? null);
+  const backendType = resolvedClient ? backend?.backend ?? 'redis' : null;
+
+  logger.info(
+    {
+      backend: backendType ?? 'passthrough',
+      ttl: options.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+      nearDuplicateMatching: Boolean(options.embed),
+    },
+    'Creating LLM response cache'
+  );
+
+  return new LlmResponseCache(resolvedClient, backendType, options);
+}
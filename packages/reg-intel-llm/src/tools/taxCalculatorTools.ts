@@ -0,0 +1,259 @@
+/**
+ * Tax Calculator Tools
+ *
+ * LLM tools over the deterministic calculators in taxCalculators.ts. Each tool
+ * loads the rates of the requested tax year from the regulatory graph, runs
+ * the calculation in-process and returns the step-by-step breakdown with the
+ * IDs of every rate node used. Unlike `run_analysis`, no sandbox is needed and
+ * the same input always gives the same answer.
+ */
+
+import { z } from 'zod';
+import { getErrorMessage } from '../errors.js';
+import {
+  calculateIrishIncomeTax,
+  calculateUkIncomeTax,
+  calculateCapitalGainsTax,
+  lookupBenefitRate,
+  type CalculatorThreshold,
+  type TaxYearRateData,
+  type TaxCalculationResult,
+  type BenefitRateLookupResult,
+} from './taxCalculators.js';
+
+// =============================================================================
+// Graph Client Interface (Duck-typed to avoid hard dependency)
+// =============================================================================
+
+/**
+ * Graph queries the calculators read rates from; `BoltGraphClient` from
+ * reg-intel-graph satisfies this interface
+ */
+export interface TaxRateGraphClient {
+  getRatesForTaxYear(taxYear: number, jurisdictionId: string, asOf?: Date): Promise<TaxYearRateData>;
+  getThresholdsForCondition(conditionId: string, asOf?: Date): Promise<CalculatorThreshold[]>;
+}
+
+type ToolLogger = {
+  info?: (msg: string, meta?: unknown) => void;
+  error?: (msg: string, meta?: unknown) => void;
+};
+
+// =============================================================================
+// Tool Schemas
+// =============================================================================
+
+const taxYearSchema = z
+  .number()
+  .int()
+  .min(2000)
+  .max(2100)
+  .describe('Tax year, e.g. 2024 (UK tax year 2024 runs from 6 April 2024 to 5 April 2025)');
+
+const asOfSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .describe('Use the rates in force on this date (YYYY-MM-DD), for years with mid-year rate changes');
+
+const amountSchema = z.number().min(0);
+
+/**
+ * Schema for calculate_ie_income_tax tool
+ */
+export const irishIncomeTaxToolSchema = z.object({
+  taxYear: taxYearSchema,
+  grossIncome: amountSchema.describe('Gross annual income in EUR'),
+  prsiClass: z
+    .string()
+    .min(1)
+    .max(2)
+    .optional()
+    .describe('PRSI class: "A" for most employees (default), "S" for the self-employed'),
+  personalCircumstances: z
+    .enum(['single', 'married', 'one_parent'])
+    .optional()
+    .describe('Selects the income tax bands: "single" (default), "married" (married or civil partners, one income) or "one_parent"'),
+  taxCreditIds: z
+    .array(z.string())
+    .optional()
+    .describe('IDs of the tax credits to apply, e.g. IE_PERSONAL_TAX_CREDIT_SINGLE_2024, IE_EMPLOYEE_TAX_CREDIT_2024'),
+  asOf: asOfSchema,
+});
+
+export type IrishIncomeTaxToolInput = z.infer<typeof irishIncomeTaxToolSchema>;
+
+/**
+ * Schema for calculate_uk_income_tax tool
+ */
+export const ukIncomeTaxToolSchema = z.object({
+  taxYear: taxYearSchema,
+  grossIncome: amountSchema.describe('Gross annual income in GBP, excluding dividends'),
+  dividends: amountSchema.optional().describe('Dividends received in the year, taxed at the dividend rates'),
+  niClass: z
+    .enum(['1', '4'])
+    .optional()
+    .describe('National Insurance class: "1" for employees (default), "4" for self-employed profits'),
+  asOf: asOfSchema,
+});
+
+export type UkIncomeTaxToolInput = z.infer<typeof ukIncomeTaxToolSchema>;
+
+/**
+ * Schema for calculate_cgt tool
+ */
+export const capitalGainsTaxToolSchema = z.object({
+  jurisdiction: z.enum(['IE', 'UK']).describe('Jurisdiction the gains are taxed in'),
+  taxYear: taxYearSchema,
+  disposals: z
+    .array(
+      z.object({
+        description: z.string().optional().describe('What was disposed of'),
+        proceeds: amountSchema.describe('Sale proceeds'),
+        cost: amountSchema.describe('Acquisition cost'),
+        expenses: amountSchema.optional().describe('Allowable costs of buying and selling'),
+      })
+    )
+    .min(1)
+    .describe('Disposals made in the tax year'),
+  lossesBroughtForward: amountSchema.optional().describe('Capital losses carried forward from earlier years'),
+  annualExemptionUsed: amountSchema.optional().describe('Part of the annual exemption already used this year'),
+  reliefRateId: z
+    .string()
+    .optional()
+    .describe('CGT relief rate to apply, e.g. IE_CGT_ENTREPRENEUR_RELIEF_RATE_2024'),
+  taxableIncome: amountSchema
+    .optional()
+    .describe('Taxable income after allowances, used to band UK gains between the lower and higher rates'),
+  asOf: asOfSchema.describe('Disposal date (YYYY-MM-DD); selects the rates in force when gains were realised'),
+});
+
+export type CapitalGainsTaxToolInput = z.infer<typeof capitalGainsTaxToolSchema>;
+
+/**
+ * Schema for lookup_benefit_rate tool
+ */
+export const benefitRateLookupToolSchema = z.object({
+  jurisdiction: z.enum(['IE', 'UK']).describe('Jurisdiction paying the benefit'),
+  taxYear: taxYearSchema,
+  benefit: z
+    .string()
+    .min(1)
+    .describe('Rate category (e.g. ILLNESS_BENEFIT, STATE_PENSION) or rate ID'),
+  weeks: z.number().int().min(1).max(520).optional().describe('Number of weeks to total the weekly rate for'),
+  conditionIds: z
+    .array(z.string())
+    .optional()
+    .describe('Eligibility condition IDs whose thresholds to include, e.g. IE_COND_PRSI_39_RECENT'),
+  conditionValues: z
+    .record(z.number())
+    .optional()
+    .describe('Values to test against each condition threshold, keyed by condition ID'),
+  asOf: asOfSchema,
+});
+
+export type BenefitRateLookupToolInput = z.infer<typeof benefitRateLookupToolSchema>;
+
+// =============================================================================
+// Tool Result Types
+// =============================================================================
+
+export type TaxCalculatorToolResult<T> = { success: true; result: T } | { success: false; error: string };
+
+// =============================================================================
+// Tool Implementations
+// =============================================================================
+
+async function loadRates(
+  graphClient: TaxRateGraphClient,
+  taxYear: number,
+  jurisdiction: string,
+  asOf?: string
+): Promise<TaxYearRateData> {
+  return graphClient.getRatesForTaxYear(taxYear, jurisdiction, asOf ? new Date(asOf) : undefined);
+}
+
+async function runCalculator<T>(
+  tool: string,
+  input: object,
+  logger: ToolLogger | undefined,
+  calculate: () => Promise<T>
+): Promise<TaxCalculatorToolResult<T>> {
+  try {
+    const result = await calculate();
+    logger?.info?.(`[${tool}] Calculation completed`, { input });
+    return { success: true, result };
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger?.error?.(`[${tool}] Calculation failed`, { input, error: message });
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Calculate Irish income tax, USC and PRSI from the graph's rates
+ */
+export async function executeIrishIncomeTax(
+  input: IrishIncomeTaxToolInput,
+  graphClient: TaxRateGraphClient,
+  logger?: ToolLogger
+): Promise<TaxCalculatorToolResult<TaxCalculationResult>> {
+  return runCalculator('calculate_ie_income_tax', input, logger, async () => {
+    const { asOf, prsiClass, ...calculation } = irishIncomeTaxToolSchema.parse(input);
+    const data = await loadRates(graphClient, calculation.taxYear, 'IE', asOf);
+    return calculateIrishIncomeTax({ ...calculation, prsiClass: prsiClass ?? 'A' }, data);
+  });
+}
+
+/**
+ * Calculate UK income tax and National Insurance from the graph's rates
+ */
+export async function executeUkIncomeTax(
+  input: UkIncomeTaxToolInput,
+  graphClient: TaxRateGraphClient,
+  logger?: ToolLogger
+): Promise<TaxCalculatorToolResult<TaxCalculationResult>> {
+  return runCalculator('calculate_uk_income_tax', input, logger, async () => {
+    const { asOf, niClass, ...calculation } = ukIncomeTaxToolSchema.parse(input);
+    const data = await loadRates(graphClient, calculation.taxYear, 'UK', asOf);
+    return calculateUkIncomeTax({ ...calculation, niClass: niClass ?? '1' }, data);
+  });
+}
+
+/**
+ * Calculate capital gains tax from the graph's rates
+ */
+export async function executeCapitalGainsTax(
+  input: CapitalGainsTaxToolInput,
+  graphClient: TaxRateGraphClient,
+  logger?: ToolLogger
+): Promise<TaxCalculatorToolResult<TaxCalculationResult>> {
+  return runCalculator('calculate_cgt', input, logger, async () => {
+    const { asOf, ...calculation } = capitalGainsTaxToolSchema.parse(input);
+    const data = await loadRates(graphClient, calculation.taxYear, calculation.jurisdiction, asOf);
+    return calculateCapitalGainsTax(calculation, data);
+  });
+}
+
+/**
+ * Look up benefit rates and eligibility thresholds from the graph
+ */
+export async function executeBenefitRateLookup(
+  input: BenefitRateLookupToolInput,
+  graphClient: TaxRateGraphClient,
+  logger?: ToolLogger
+): Promise<TaxCalculatorToolResult<BenefitRateLookupResult>> {
+  return runCalculator('lookup_benefit_rate', input, logger, async () => {
+    const { asOf, conditionIds = [], ...lookup } = benefitRateLookupToolSchema.parse(input);
+    const data = await loadRates(graphClient, lookup.taxYear, lookup.jurisdiction, asOf);
+    const thresholds = await Promise.all(
+      conditionIds.map(conditionId =>
+        graphClient.getThresholdsForCondition(conditionId, asOf ? new Date(asOf) : undefined)
+      )
+    );
+    const conditionThresholds = Object.fromEntries(
+      conditionIds.map((conditionId, index) => [conditionId, thresholds[index]])
+    );
+    return lookupBenefitRate(lookup, data, conditionThresholds);
+  });
+}
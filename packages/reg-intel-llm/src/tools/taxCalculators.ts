@@ -0,0 +1,868 @@
+/**
+ * Tax and Contribution Calculators
+ *
+ * Deterministic calculators over the rates, thresholds and tax credits the
+ * regulatory graph holds for a tax year (`getRatesForTaxYear`). Every figure
+ * comes from a graph node, each step names the node it used, and each result
+ * lists the IDs of all nodes it depends on so answers can cite them.
+ *
+ * Graph conventions the calculators rely on:
+ * - Banded rates (INCOME_TAX, USC, NI, banded CGT) apply to the slice of the
+ *   base between `band_lower` (default 0) and `band_upper` (default unbounded)
+ * - PRSI and NI rates are selected by `contribution_class`
+ * - Irish INCOME_TAX bands are selected by `personal_status` (SINGLE,
+ *   MARRIED or ONE_PARENT); bands without one are the single person bands
+ * - When a year has several rates for the same band (a mid-year change), the
+ *   latest `effective_from` is used; query with `asOf` for a specific date
+ * - Thresholds by category: USC (exemption limit), CGT (annual exemption),
+ *   PERSONAL_ALLOWANCE, PERSONAL_ALLOWANCE_TAPER and DIVIDEND_ALLOWANCE (UK)
+ * - Company-side rates: CORPORATION_TAX (banded on profits), PRSI_EMPLOYER
+ *   and NI_EMPLOYER (banded on salary, selected by `contribution_class`)
+ */
+
+import { TaxCalculationError } from '../errors.js';
+
+// =============================================================================
+// Graph Data Types (duck-typed to avoid a dependency on reg-intel-graph)
+// =============================================================================
+
+export interface CalculatorRate {
+  id: string;
+  label: string;
+  percentage?: number;
+  flat_amount?: number;
+  currency?: string;
+  band_lower?: number;
+  band_upper?: number;
+  contribution_class?: string;
+  personal_status?: string;
+  effective_from?: string;
+  effective_to?: string;
+  category: string;
+}
+
+export interface CalculatorThreshold {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
+  direction?: string;
+  upper_bound?: number;
+  category?: string;
+}
+
+export interface CalculatorTaxCredit {
+  id: string;
+  label: string;
+  amount: number;
+  currency?: string;
+  category?: string;
+}
+
+/**
+ * Rates, thresholds and credits that apply in a tax year
+ */
+export interface TaxYearRateData {
+  rates: CalculatorRate[];
+  thresholds: CalculatorThreshold[];
+  credits: CalculatorTaxCredit[];
+}
+
+// =============================================================================
+// Result Types
+// =============================================================================
+
+export interface CalculationStep {
+  description: string;
+  /** Amount the rate was applied to */
+  base?: number;
+  /** Percentage applied */
+  ratePercent?: number;
+  amount: number;
+  /** Graph node the figure came from */
+  nodeId?: string;
+}
+
+export interface CalculationComponent {
+  name: string;
+  amount: number;
+  steps: CalculationStep[];
+}
+
+export type TaxCalculationKind =
+  | 'ie_income_tax'
+  | 'uk_income_tax'
+  | 'capital_gains_tax'
+  | 'corporation_tax'
+  | 'employer_contributions';
+
+export interface TaxCalculationResult {
+  calculation: TaxCalculationKind;
+  jurisdiction: string;
+  taxYear: number;
+  currency: string;
+  /** Income or gain the calculation starts from */
+  base: number;
+  components: CalculationComponent[];
+  total: number;
+  /** Total as a percentage of the base */
+  effectiveRatePercent: number;
+  /** Base less total, for income and profit calculations */
+  net?: number;
+  /** IDs of every rate, threshold and tax credit node used */
+  sourceNodeIds: string[];
+  notes: string[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read a numeric graph property (plain numbers or Bolt integers)
+ */
+function num(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    if ('toNumber' in value && typeof value.toNumber === 'function') {
+      return (value as { toNumber(): number }).toNumber();
+    }
+    if ('low' in value && 'high' in value) {
+      const { low, high } = value as { low: number; high: number };
+      return high * 2 ** 32 + (low >>> 0);
+    }
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-IE', { maximumFractionDigits: 2 });
+}
+
+function effectiveFrom(rate: CalculatorRate): string {
+  return rate.effective_from ? String(rate.effective_from) : '';
+}
+
+/**
+ * Keep one rate per band and class: the latest effective_from
+ */
+function latestPerBand(rates: CalculatorRate[]): { rates: CalculatorRate[]; superseded: CalculatorRate[] } {
+  const byBand = new Map<string, CalculatorRate>();
+  const superseded: CalculatorRate[] = [];
+
+  for (const rate of rates) {
+    const key = `${rate.contribution_class ?? ''}|${num(rate.band_lower) ?? 0}`;
+    const existing = byBand.get(key);
+    if (!existing) {
+      byBand.set(key, rate);
+    } else if (effectiveFrom(rate) > effectiveFrom(existing)) {
+      superseded.push(existing);
+      byBand.set(key, rate);
+    } else {
+      superseded.push(rate);
+    }
+  }
+
+  return { rates: Array.from(byBand.values()), superseded };
+}
+
+function supersededNote(superseded: CalculatorRate[]): string[] {
+  return superseded.length > 0
+    ? [
+        `Several rates apply during the year; used the most recent. Not applied: ${superseded
+          .map(rate => rate.id)
+          .join(', ')}. Pass asOf to use the rates in force on a date.`,
+      ]
+    : [];
+}
+
+function ratesInCategory(data: TaxYearRateData, category: string, contributionClass?: string): CalculatorRate[] {
+  return data.rates.filter(
+    rate =>
+      rate.category.toUpperCase() === category &&
+      (contributionClass === undefined ||
+        rate.contribution_class?.toUpperCase() === contributionClass.toUpperCase())
+  );
+}
+
+function thresholdInCategory(data: TaxYearRateData, category: string, currency: string): CalculatorThreshold | undefined {
+  return data.thresholds.find(
+    threshold => threshold.category?.toUpperCase() === category && threshold.unit.toUpperCase() === currency
+  );
+}
+
+function requireRates(rates: CalculatorRate[], description: string, jurisdiction: string, taxYear: number): void {
+  if (rates.length === 0) {
+    throw new TaxCalculationError(`No ${description} rates for ${jurisdiction} tax year ${taxYear} in the graph`);
+  }
+}
+
+/**
+ * Apply banded rates to `amount`, stacked on top of `offset` (e.g. income
+ * already taxed in lower bands)
+ */
+function applyBands(amount: number, rates: CalculatorRate[], offset = 0): CalculationComponent['steps'] {
+  const steps: CalculationStep[] = [];
+  const sorted = [...rates].sort((a, b) => (num(a.band_lower) ?? 0) - (num(b.band_lower) ?? 0));
+
+  for (const rate of sorted) {
+    const lower = num(rate.band_lower) ?? 0;
+    const upper = num(rate.band_upper) ?? Infinity;
+    const slice = Math.min(offset + amount, upper) - Math.max(offset, lower);
+    if (slice <= 0) {
+      continue;
+    }
+
+    const percentage = num(rate.percentage) ?? 0;
+    const band = Number.isFinite(upper) ? `${formatAmount(lower)}–${formatAmount(upper)}` : `over ${formatAmount(lower)}`;
+    steps.push({
+      description: `${rate.label} (${band})`,
+      base: roundMoney(slice),
+      ratePercent: percentage,
+      amount: roundMoney((slice * percentage) / 100),
+      nodeId: rate.id,
+    });
+  }
+
+  return steps;
+}
+
+function component(name: string, steps: CalculationStep[], amount?: number): CalculationComponent {
+  return {
+    name,
+    amount: roundMoney(amount ?? steps.reduce((sum, step) => sum + step.amount, 0)),
+    steps,
+  };
+}
+
+function buildResult(
+  input: Omit<TaxCalculationResult, 'total' | 'effectiveRatePercent' | 'sourceNodeIds' | 'net'> & { income: boolean }
+): TaxCalculationResult {
+  const { income, ...rest } = input;
+  const total = roundMoney(rest.components.reduce((sum, part) => sum + part.amount, 0));
+  const sourceNodeIds = Array.from(
+    new Set(rest.components.flatMap(part => part.steps.flatMap(step => (step.nodeId ? [step.nodeId] : []))))
+  );
+
+  return {
+    ...rest,
+    total,
+    effectiveRatePercent: rest.base > 0 ? roundMoney((total / rest.base) * 100) : 0,
+    ...(income ? { net: roundMoney(rest.base - total) } : {}),
+    sourceNodeIds,
+  };
+}
+
+// =============================================================================
+// Ireland: Income Tax, USC and PRSI
+// =============================================================================
+
+/**
+ * Personal circumstances that set the Irish standard rate band
+ */
+export type IrishPersonalCircumstances = 'single' | 'married' | 'one_parent';
+
+const PERSONAL_CIRCUMSTANCES_LABELS: Record<IrishPersonalCircumstances, string> = {
+  single: 'single person',
+  married: 'married or civil partner',
+  one_parent: 'one-parent family',
+};
+
+export interface IrishIncomeTaxInput {
+  taxYear: number;
+  grossIncome: number;
+  /** PRSI class, e.g. 'A' (employees) or 'S' (self-employed) */
+  prsiClass: string;
+  /** Selects the income tax bands; married or civil partner means one income (default: single) */
+  personalCircumstances?: IrishPersonalCircumstances;
+  /** IDs of the tax credits to apply */
+  taxCreditIds?: string[];
+}
+
+/**
+ * Irish income tax bands for the taxpayer's personal circumstances, falling
+ * back to the single person bands (with a note) when the graph has none
+ */
+function irishIncomeTaxBands(
+  data: TaxYearRateData,
+  taxYear: number,
+  personalCircumstances: IrishPersonalCircumstances | undefined
+): { rates: CalculatorRate[]; notes: string[] } {
+  const bands = ratesInCategory(data, 'INCOME_TAX');
+  const withStatus = (status: string) =>
+    bands.filter(rate => (rate.personal_status?.toUpperCase() ?? 'SINGLE') === status.toUpperCase());
+
+  if (!personalCircumstances) {
+    return {
+      rates: withStatus('single'),
+      notes: [
+        'Single person income tax bands used. Pass personalCircumstances for the married or civil partner and one-parent family bands.',
+      ],
+    };
+  }
+
+  const matching = withStatus(personalCircumstances);
+  const label = PERSONAL_CIRCUMSTANCES_LABELS[personalCircumstances];
+  if (matching.length === 0 && personalCircumstances !== 'single') {
+    return {
+      rates: withStatus('single'),
+      notes: [`No ${label} income tax bands for IE tax year ${taxYear} in the graph; used the single person bands.`],
+    };
+  }
+
+  return {
+    rates: matching,
+    notes:
+      personalCircumstances === 'married'
+        ? [
+            'Married or civil partner bands for one income. With two incomes the standard rate band rises by the lower income, up to a limit; that increase is not applied.',
+          ]
+        : [],
+  };
+}
+
+/**
+ * Irish income tax (banded, less tax credits), USC and PRSI on gross income
+ */
+export function calculateIrishIncomeTax(input: IrishIncomeTaxInput, data: TaxYearRateData): TaxCalculationResult {
+  const { taxYear, grossIncome, prsiClass } = input;
+  const notes: string[] = [];
+
+  // Income tax
+  const incomeTaxBands = irishIncomeTaxBands(data, taxYear, input.personalCircumstances);
+  const incomeTaxRates = latestPerBand(incomeTaxBands.rates);
+  requireRates(incomeTaxRates.rates, 'INCOME_TAX', 'IE', taxYear);
+  notes.push(...incomeTaxBands.notes);
+  notes.push(...supersededNote(incomeTaxRates.superseded));
+
+  const incomeTaxSteps = applyBands(grossIncome, incomeTaxRates.rates);
+  const grossTax = incomeTaxSteps.reduce((sum, step) => sum + step.amount, 0);
+
+  let creditTotal = 0;
+  for (const creditId of input.taxCreditIds ?? []) {
+    const credit = data.credits.find(candidate => candidate.id === creditId);
+    if (!credit) {
+      throw new TaxCalculationError(
+        `Unknown tax credit ${creditId} for IE tax year ${taxYear}. Available: ${
+          data.credits.map(candidate => candidate.id).join(', ') || 'none'
+        }`
+      );
+    }
+    const amount = num(credit.amount) ?? 0;
+    creditTotal += amount;
+    incomeTaxSteps.push({ description: `Less ${credit.label}`, amount: -roundMoney(amount), nodeId: credit.id });
+  }
+  if ((input.taxCreditIds ?? []).length === 0) {
+    notes.push(
+      `No tax credits applied. Available credits: ${data.credits.map(credit => credit.id).join(', ') || 'none'}.`
+    );
+  }
+
+  // Credits are not refundable: tax cannot go below zero
+  const incomeTax = Math.max(0, grossTax - creditTotal);
+  if (grossTax - creditTotal < 0) {
+    incomeTaxSteps.push({ description: 'Unused tax credits (not refundable)', amount: roundMoney(creditTotal - grossTax) });
+  }
+
+  // USC
+  const uscRates = latestPerBand(ratesInCategory(data, 'USC'));
+  requireRates(uscRates.rates, 'USC', 'IE', taxYear);
+  notes.push(...supersededNote(uscRates.superseded));
+
+  const uscExemption = thresholdInCategory(data, 'USC', 'EUR');
+  const uscExemptionLimit = uscExemption ? num(uscExemption.value) ?? 0 : undefined;
+  const uscSteps =
+    uscExemption && uscExemptionLimit !== undefined && grossIncome <= uscExemptionLimit
+      ? [
+          {
+            description: `Income at or below ${uscExemption.label} (${formatAmount(uscExemptionLimit)}): no USC`,
+            amount: 0,
+            nodeId: uscExemption.id,
+          },
+        ]
+      : applyBands(grossIncome, uscRates.rates);
+
+  // PRSI
+  const prsiRates = latestPerBand(ratesInCategory(data, 'PRSI', prsiClass));
+  requireRates(prsiRates.rates, `PRSI Class ${prsiClass.toUpperCase()}`, 'IE', taxYear);
+  notes.push(...supersededNote(prsiRates.superseded));
+  notes.push('PRSI weekly exemption thresholds and the PRSI credit are not applied.');
+
+  const prsiSteps = prsiRates.rates.map(rate => {
+    const percentage = num(rate.percentage) ?? 0;
+    return {
+      description: `${rate.label} on all income`,
+      base: roundMoney(grossIncome),
+      ratePercent: percentage,
+      amount: roundMoney((grossIncome * percentage) / 100),
+      nodeId: rate.id,
+    };
+  });
+
+  return buildResult({
+    calculation: 'ie_income_tax',
+    jurisdiction: 'IE',
+    taxYear,
+    currency: incomeTaxRates.rates[0].currency ?? 'EUR',
+    base: roundMoney(grossIncome),
+    components: [
+      component('Income tax', incomeTaxSteps, incomeTax),
+      component('USC', uscSteps),
+      component(`PRSI (Class ${prsiClass.toUpperCase()})`, prsiSteps),
+    ],
+    notes,
+    income: true,
+  });
+}
+
+// =============================================================================
+// UK: Income Tax and National Insurance
+// =============================================================================
+
+export interface UkIncomeTaxInput {
+  taxYear: number;
+  /** Earnings or profits, excluding dividends */
+  grossIncome: number;
+  /** National Insurance class: '1' (employees) or '4' (self-employed profits) */
+  niClass: string;
+  /** Dividends, taxed at the dividend rates on top of other income */
+  dividends?: number;
+}
+
+/**
+ * UK income tax (Personal Allowance with taper, then bands), dividend tax on
+ * top of other income and National Insurance on gross income
+ */
+export function calculateUkIncomeTax(input: UkIncomeTaxInput, data: TaxYearRateData): TaxCalculationResult {
+  const { taxYear, grossIncome, niClass } = input;
+  const dividends = input.dividends ?? 0;
+  const totalIncome = grossIncome + dividends;
+  const notes: string[] = [];
+
+  const incomeTaxRates = latestPerBand(ratesInCategory(data, 'INCOME_TAX'));
+  requireRates(incomeTaxRates.rates, 'INCOME_TAX', 'UK', taxYear);
+  notes.push(...supersededNote(incomeTaxRates.superseded));
+
+  const incomeTaxSteps: CalculationStep[] = [];
+  const allowanceThreshold = thresholdInCategory(data, 'PERSONAL_ALLOWANCE', 'GBP');
+  let allowance = allowanceThreshold ? num(allowanceThreshold.value) ?? 0 : 0;
+
+  if (allowanceThreshold) {
+    incomeTaxSteps.push({
+      description: `${allowanceThreshold.label} of ${formatAmount(allowance)}`,
+      amount: 0,
+      nodeId: allowanceThreshold.id,
+    });
+
+    const taper = thresholdInCategory(data, 'PERSONAL_ALLOWANCE_TAPER', 'GBP');
+    const taperLimit = taper ? num(taper.value) ?? Infinity : Infinity;
+    if (taper && totalIncome > taperLimit) {
+      const reduction = Math.min(allowance, (totalIncome - taperLimit) / 2);
+      allowance -= reduction;
+      incomeTaxSteps.push({
+        description: `Allowance reduced by ${formatAmount(reduction)} (1 for every 2 of income over ${
+          taper.label
+        } of ${formatAmount(taperLimit)})`,
+        amount: 0,
+        nodeId: taper.id,
+      });
+    }
+  } else {
+    notes.push('No Personal Allowance threshold found in the graph; none applied.');
+  }
+
+  // The allowance is set against other income first, then dividends
+  const taxableIncome = Math.max(0, grossIncome - allowance);
+  const taxableDividends = Math.max(0, dividends - Math.max(0, allowance - grossIncome));
+  incomeTaxSteps.push({ description: `Taxable income ${formatAmount(taxableIncome)}`, amount: 0 });
+  incomeTaxSteps.push(...applyBands(taxableIncome, incomeTaxRates.rates));
+
+  const components = [component('Income tax', incomeTaxSteps)];
+
+  if (dividends > 0) {
+    const dividendRates = latestPerBand(ratesInCategory(data, 'DIVIDEND_TAX'));
+    requireRates(dividendRates.rates, 'DIVIDEND_TAX', 'UK', taxYear);
+    notes.push(...supersededNote(dividendRates.superseded));
+
+    const dividendSteps: CalculationStep[] = [
+      { description: `Taxable dividends ${formatAmount(taxableDividends)}`, amount: 0 },
+    ];
+    // Dividends covered by the allowance are taxed at 0% but still use up the bands
+    const dividendAllowance = thresholdInCategory(data, 'DIVIDEND_ALLOWANCE', 'GBP');
+    const covered = dividendAllowance ? Math.min(taxableDividends, num(dividendAllowance.value) ?? 0) : 0;
+    if (dividendAllowance) {
+      dividendSteps.push({
+        description: `${dividendAllowance.label}: ${formatAmount(covered)} taxed at 0%`,
+        amount: 0,
+        nodeId: dividendAllowance.id,
+      });
+    }
+    dividendSteps.push(...applyBands(taxableDividends - covered, dividendRates.rates, taxableIncome + covered));
+    components.push(component('Dividend tax', dividendSteps));
+    notes.push('Dividends do not attract National Insurance.');
+  }
+
+  const niRates = latestPerBand(ratesInCategory(data, 'NI', niClass));
+  requireRates(niRates.rates, `NI Class ${niClass}`, 'UK', taxYear);
+  notes.push(...supersededNote(niRates.superseded));
+  components.push(component(`National Insurance (Class ${niClass})`, applyBands(grossIncome, niRates.rates)));
+
+  return buildResult({
+    calculation: 'uk_income_tax',
+    jurisdiction: 'UK',
+    taxYear,
+    currency: incomeTaxRates.rates[0].currency ?? 'GBP',
+    base: roundMoney(totalIncome),
+    components,
+    notes,
+    income: true,
+  });
+}
+
+// =============================================================================
+// Company: Corporation Tax and Employer Contributions
+// =============================================================================
+
+export interface CorporationTaxInput {
+  jurisdiction: string;
+  taxYear: number;
+  /** Taxable profits of the accounting period */
+  profits: number;
+}
+
+/**
+ * Corporation tax on a company's taxable profits at the year's banded
+ * CORPORATION_TAX rates
+ */
+export function calculateCorporationTax(input: CorporationTaxInput, data: TaxYearRateData): TaxCalculationResult {
+  const { jurisdiction, taxYear } = input;
+  const profits = Math.max(0, input.profits);
+  const rates = latestPerBand(ratesInCategory(data, 'CORPORATION_TAX'));
+  requireRates(rates.rates, 'CORPORATION_TAX', jurisdiction, taxYear);
+
+  return buildResult({
+    calculation: 'corporation_tax',
+    jurisdiction,
+    taxYear,
+    currency: rates.rates[0].currency ?? (jurisdiction === 'UK' ? 'GBP' : 'EUR'),
+    base: roundMoney(profits),
+    components: [component('Corporation tax', applyBands(profits, rates.rates))],
+    notes: supersededNote(rates.superseded),
+    income: true,
+  });
+}
+
+export interface EmployerContributionsInput {
+  jurisdiction: string;
+  taxYear: number;
+  /** Gross salary paid to the employee */
+  salary: number;
+  /** Employer PRSI or NI class, e.g. 'A' (IE) or '1' (UK) */
+  contributionClass: string;
+}
+
+/**
+ * Employer PRSI (IE) or employer National Insurance (UK) on a salary
+ */
+export function calculateEmployerContributions(
+  input: EmployerContributionsInput,
+  data: TaxYearRateData
+): TaxCalculationResult {
+  const { jurisdiction, taxYear, salary, contributionClass } = input;
+  const category = jurisdiction === 'UK' ? 'NI_EMPLOYER' : 'PRSI_EMPLOYER';
+  const rates = latestPerBand(ratesInCategory(data, category, contributionClass));
+  requireRates(rates.rates, `${category} Class ${contributionClass}`, jurisdiction, taxYear);
+
+  return buildResult({
+    calculation: 'employer_contributions',
+    jurisdiction,
+    taxYear,
+    currency: rates.rates[0].currency ?? (jurisdiction === 'UK' ? 'GBP' : 'EUR'),
+    base: roundMoney(salary),
+    components: [
+      component(
+        jurisdiction === 'UK' ? `Employer NI (Class ${contributionClass})` : `Employer PRSI (Class ${contributionClass})`,
+        applyBands(salary, rates.rates)
+      ),
+    ],
+    notes: supersededNote(rates.superseded),
+    income: false,
+  });
+}
+
+// =============================================================================
+// Capital Gains Tax
+// =============================================================================
+
+export interface Disposal {
+  description?: string;
+  proceeds: number;
+  cost: number;
+  /** Allowable costs of acquisition and disposal */
+  expenses?: number;
+}
+
+export interface CapitalGainsTaxInput {
+  jurisdiction: string;
+  taxYear: number;
+  disposals: Disposal[];
+  lossesBroughtForward?: number;
+  /** Part of the annual exemption already used this year */
+  annualExemptionUsed?: number;
+  /** Relief rate to apply (e.g. entrepreneur relief), up to its band_upper */
+  reliefRateId?: string;
+  /** Taxable income the gains are stacked on, for banded CGT rates */
+  taxableIncome?: number;
+}
+
+/**
+ * Capital gains tax: net gains, less losses and the annual exemption, at the
+ * CGT rates of the year (flat, banded on top of taxable income, or a relief
+ * rate up to its limit)
+ */
+export function calculateCapitalGainsTax(input: CapitalGainsTaxInput, data: TaxYearRateData): TaxCalculationResult {
+  const { jurisdiction, taxYear } = input;
+  const currency = jurisdiction === 'UK' ? 'GBP' : 'EUR';
+  const notes: string[] = [];
+  const steps: CalculationStep[] = [];
+
+  let netGains = 0;
+  input.disposals.forEach((disposal, index) => {
+    const gain = disposal.proceeds - disposal.cost - (disposal.expenses ?? 0);
+    netGains += gain;
+    steps.push({
+      description: `${disposal.description ?? `Disposal ${index + 1}`}: proceeds ${formatAmount(
+        disposal.proceeds
+      )} less cost ${formatAmount(disposal.cost + (disposal.expenses ?? 0))} = ${gain < 0 ? 'loss' : 'gain'} ${formatAmount(
+        Math.abs(gain)
+      )}`,
+      amount: 0,
+    });
+  });
+
+  if (input.lossesBroughtForward) {
+    steps.push({ description: `Less losses brought forward ${formatAmount(input.lossesBroughtForward)}`, amount: 0 });
+  }
+  let chargeable = Math.max(0, netGains - (input.lossesBroughtForward ?? 0));
+  if (netGains - (input.lossesBroughtForward ?? 0) < 0) {
+    notes.push(
+      `Unused losses of ${formatAmount(-(netGains - (input.lossesBroughtForward ?? 0)))} can be carried forward.`
+    );
+  }
+
+  const exemption = thresholdInCategory(data, 'CGT', currency);
+  if (exemption) {
+    const available = Math.max(0, (num(exemption.value) ?? 0) - (input.annualExemptionUsed ?? 0));
+    const used = Math.min(available, chargeable);
+    chargeable -= used;
+    steps.push({
+      description: `Less ${exemption.label} ${formatAmount(used)}${
+        input.annualExemptionUsed ? ` (${formatAmount(input.annualExemptionUsed)} already used)` : ''
+      }`,
+      amount: 0,
+      nodeId: exemption.id,
+    });
+  } else {
+    notes.push('No CGT annual exemption threshold found in the graph; none applied.');
+  }
+  steps.push({ description: `Chargeable gain ${formatAmount(chargeable)}`, amount: 0 });
+
+  const cgtRates = ratesInCategory(data, 'CGT');
+  const relief = input.reliefRateId ? cgtRates.find(rate => rate.id === input.reliefRateId) : undefined;
+  if (input.reliefRateId && !relief) {
+    throw new TaxCalculationError(
+      `Unknown CGT relief rate ${input.reliefRateId} for ${jurisdiction} tax year ${taxYear}. Available: ${
+        cgtRates.map(rate => rate.id).join(', ') || 'none'
+      }`
+    );
+  }
+
+  const standardCandidates = cgtRates.filter(rate => rate !== relief);
+  const banded = standardCandidates.some(rate => num(rate.band_lower) !== undefined);
+  const standard = latestPerBand(
+    banded
+      ? standardCandidates.filter(rate => num(rate.band_lower) !== undefined)
+      : standardCandidates.filter(rate => num(rate.band_lower) === undefined && num(rate.band_upper) === undefined)
+  );
+  requireRates(standard.rates, 'CGT', jurisdiction, taxYear);
+  notes.push(...supersededNote(standard.superseded));
+
+  let remaining = chargeable;
+  if (relief) {
+    const limit = num(relief.band_upper) ?? Infinity;
+    const atRelief = Math.min(remaining, limit);
+    const percentage = num(relief.percentage) ?? 0;
+    steps.push({
+      description: `${relief.label}${Number.isFinite(limit) ? ` (up to ${formatAmount(limit)})` : ''}`,
+      base: roundMoney(atRelief),
+      ratePercent: percentage,
+      amount: roundMoney((atRelief * percentage) / 100),
+      nodeId: relief.id,
+    });
+    remaining -= atRelief;
+  }
+
+  if (remaining > 0 || !relief) {
+    if (banded) {
+      steps.push(...applyBands(remaining, standard.rates, input.taxableIncome ?? 0));
+      if (input.taxableIncome === undefined) {
+        notes.push('Taxable income not given: gains were banded as if there was no other income.');
+      }
+    } else {
+      const rate = standard.rates[0];
+      const percentage = num(rate.percentage) ?? 0;
+      steps.push({
+        description: rate.label,
+        base: roundMoney(remaining),
+        ratePercent: percentage,
+        amount: roundMoney((remaining * percentage) / 100),
+        nodeId: rate.id,
+      });
+    }
+  }
+
+  return buildResult({
+    calculation: 'capital_gains_tax',
+    jurisdiction,
+    taxYear,
+    currency,
+    base: roundMoney(Math.max(0, netGains)),
+    components: [component('Capital gains tax', steps)],
+    notes,
+    income: false,
+  });
+}
+
+// =============================================================================
+// Benefit Rates
+// =============================================================================
+
+export interface BenefitRate {
+  id: string;
+  label: string;
+  /** Flat weekly amount */
+  weeklyAmount?: number;
+  percentage?: number;
+  currency: string;
+  /** weeklyAmount for the requested number of weeks */
+  totalForWeeks?: number;
+}
+
+export interface BenefitConditionThreshold {
+  id: string;
+  label: string;
+  value: number;
+  unit: string;
+  direction?: string;
+  upperBound?: number;
+  /** Whether the supplied value satisfies the threshold */
+  met?: boolean;
+}
+
+export interface BenefitRateLookupResult {
+  jurisdiction: string;
+  taxYear: number;
+  benefit: string;
+  rates: BenefitRate[];
+  conditions: Array<{ conditionId: string; thresholds: BenefitConditionThreshold[] }>;
+  /** IDs of every rate and threshold node used */
+  sourceNodeIds: string[];
+  notes: string[];
+}
+
+export interface BenefitRateLookupInput {
+  jurisdiction: string;
+  taxYear: number;
+  /** Rate category (e.g. ILLNESS_BENEFIT) or rate ID */
+  benefit: string;
+  weeks?: number;
+  /** Values to test against each condition's thresholds, by condition ID */
+  conditionValues?: Record<string, number>;
+}
+
+function meetsThreshold(value: number, threshold: CalculatorThreshold): boolean {
+  const limit = num(threshold.value) ?? 0;
+  switch (threshold.direction) {
+    case 'BELOW':
+      return value <= limit;
+    case 'BETWEEN':
+      return value >= limit && value <= (num(threshold.upper_bound) ?? Infinity);
+    default:
+      return value >= limit;
+  }
+}
+
+/**
+ * Benefit rates of a year, with the thresholds of the given eligibility
+ * conditions (`conditionThresholds`, by condition ID)
+ */
+export function lookupBenefitRate(
+  input: BenefitRateLookupInput,
+  data: TaxYearRateData,
+  conditionThresholds: Record<string, CalculatorThreshold[]>
+): BenefitRateLookupResult {
+  const { jurisdiction, taxYear, benefit, weeks } = input;
+  const matching = data.rates.filter(rate => rate.id === benefit || rate.category.toUpperCase() === benefit.toUpperCase());
+  if (matching.length === 0) {
+    const categories = Array.from(new Set(data.rates.map(rate => rate.category))).sort();
+    throw new TaxCalculationError(
+      `No rates for ${benefit} in ${jurisdiction} tax year ${taxYear}. Rate categories: ${categories.join(', ') || 'none'}`
+    );
+  }
+
+  const { rates, superseded } = latestPerBand(matching);
+  const defaultCurrency = jurisdiction === 'UK' ? 'GBP' : 'EUR';
+
+  const conditions = Object.entries(conditionThresholds).map(([conditionId, thresholds]) => ({
+    conditionId,
+    thresholds: thresholds.map(threshold => {
+      const value = input.conditionValues?.[conditionId];
+      return {
+        id: threshold.id,
+        label: threshold.label,
+        value: num(threshold.value) ?? 0,
+        unit: threshold.unit,
+        direction: threshold.direction,
+        upperBound: num(threshold.upper_bound),
+        ...(value !== undefined ? { met: meetsThreshold(value, threshold) } : {}),
+      };
+    }),
+  }));
+
+  return {
+    jurisdiction,
+    taxYear,
+    benefit,
+    rates: rates.map(rate => {
+      const weeklyAmount = num(rate.flat_amount);
+      return {
+        id: rate.id,
+        label: rate.label,
+        weeklyAmount,
+        percentage: num(rate.percentage),
+        currency: rate.currency ?? defaultCurrency,
+        ...(weeklyAmount !== undefined && weeks !== undefined
+          ? { totalForWeeks: roundMoney(weeklyAmount * weeks) }
+          : {}),
+      };
+    }),
+    conditions,
+    sourceNodeIds: [
+      ...rates.map(rate => rate.id),
+      ...conditions.flatMap(condition => condition.thresholds.map(threshold => threshold.id)),
+    ],
+    notes: [
+      ...supersededNote(superseded),
+      'Rates are maximum personal rates; increases for dependants and means testing are not included.',
+    ],
+  };
+}
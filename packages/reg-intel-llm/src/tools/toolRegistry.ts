@@ -2,7 +2,8 @@
  * Tool Registry for LLM Tool Integration
  *
  * Manages registration and execution of tools for LLM interactions.
- * Integrates with E2B sandboxes for code execution.
+ * Integrates with E2B sandboxes for code execution and with the regulatory
+ * graph for the built-in tax calculators.
  */
 
 import {
@@ -16,6 +17,21 @@ import {
   type CodeExecutionResult,
   type AnalysisExecutionResult,
 } from './codeExecutionTools.js';
+import {
+  executeIrishIncomeTax,
+  executeUkIncomeTax,
+  executeCapitalGainsTax,
+  executeBenefitRateLookup,
+  irishIncomeTaxToolSchema,
+  ukIncomeTaxToolSchema,
+  capitalGainsTaxToolSchema,
+  benefitRateLookupToolSchema,
+  type TaxRateGraphClient,
+  type IrishIncomeTaxToolInput,
+  type UkIncomeTaxToolInput,
+  type CapitalGainsTaxToolInput,
+  type BenefitRateLookupToolInput,
+} from './taxCalculatorTools.js';
 
 // Type for Vercel AI SDK compatible tool
 export interface AITool {
@@ -35,6 +51,9 @@ export interface ToolRegistryConfig {
     error?: (msg: string, meta?: any) => void;
   };
   enableCodeExecution?: boolean;
+  /** Graph client the tax calculator tools read rates from */
+  rateGraphClient?: TaxRateGraphClient;
+  enableTaxCalculators?: boolean;
 }
 
 export interface RegisteredTool {
@@ -51,6 +70,7 @@ export interface RegisteredTool {
 /**
  * Tool registry for managing LLM tools
  * Conditionally registers code execution tools based on sandbox availability
+ * and tax calculator tools based on graph client availability
  */
 export class ToolRegistry {
   private tools = new Map<string, RegisteredTool>();
@@ -77,6 +97,12 @@ export class ToolRegistry {
         enabled: this.config.enableCodeExecution,
       });
     }
+
+    // Register tax calculators if a graph client is available and enabled
+    if (this.config.rateGraphClient && this.config.enableTaxCalculators !== false) {
+      this.registerTaxCalculatorTools();
+      this.config.logger?.info?.('[ToolRegistry] Tax calculator tools registered');
+    }
   }
 
   /**
@@ -111,6 +137,46 @@ export class ToolRegistry {
     });
   }
 
+  /**
+   * Register tax calculator tools
+   */
+  private registerTaxCalculatorTools(): void {
+    if (!this.config.rateGraphClient) {
+      throw new Error('Cannot register tax calculator tools without graph client');
+    }
+
+    const graphClient = this.config.rateGraphClient;
+    const logger = this.config.logger;
+
+    this.tools.set('calculate_ie_income_tax', {
+      name: 'calculate_ie_income_tax',
+      description: 'Calculate Irish income tax, USC and PRSI for a gross annual income using the rates in the regulatory graph. Returns a step-by-step breakdown citing the rate nodes used.',
+      schema: irishIncomeTaxToolSchema,
+      execute: async (input: IrishIncomeTaxToolInput) => executeIrishIncomeTax(input, graphClient, logger),
+    });
+
+    this.tools.set('calculate_uk_income_tax', {
+      name: 'calculate_uk_income_tax',
+      description: 'Calculate UK income tax (with the Personal Allowance taper), dividend tax and National Insurance for a gross annual income and dividends using the rates in the regulatory graph.',
+      schema: ukIncomeTaxToolSchema,
+      execute: async (input: UkIncomeTaxToolInput) => executeUkIncomeTax(input, graphClient, logger),
+    });
+
+    this.tools.set('calculate_cgt', {
+      name: 'calculate_cgt',
+      description: 'Calculate Irish or UK capital gains tax on disposals, applying losses, the annual exemption and optional relief rates from the regulatory graph.',
+      schema: capitalGainsTaxToolSchema,
+      execute: async (input: CapitalGainsTaxToolInput) => executeCapitalGainsTax(input, graphClient, logger),
+    });
+
+    this.tools.set('lookup_benefit_rate', {
+      name: 'lookup_benefit_rate',
+      description: 'Look up the weekly rate of a social welfare benefit for a tax year, with the thresholds of its eligibility conditions.',
+      schema: benefitRateLookupToolSchema,
+      execute: async (input: BenefitRateLookupToolInput) => executeBenefitRateLookup(input, graphClient, logger),
+    });
+  }
+
   /**
    * Get all registered tools in Vercel AI SDK format
    */
@@ -197,7 +263,7 @@ export class ToolRegistry {
 }
 
 /**
- * Create a tool registry with optional sandbox
+ * Create a tool registry with optional sandbox and graph client
  */
 export function createToolRegistry(config: ToolRegistryConfig = {}): ToolRegistry {
   return new ToolRegistry(config);
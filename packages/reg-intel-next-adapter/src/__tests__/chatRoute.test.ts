@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  handleChatStream: vi.fn(),
+}));
+
+vi.mock('@reg-copilot/reg-intel-core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@reg-copilot/reg-intel-core')>();
+  return {
+    ...actual,
+    createComplianceEngine: vi.fn(() => ({ handleChatStream: mocks.handleChatStream })),
+    createGraphClient: vi.fn(() => ({})),
+  };
+});
+
+import {
+  InMemoryConversationContextStore,
+  InMemoryConversationStore,
+} from '@reg-copilot/reg-intel-conversations';
+import type { LlmRouter } from '@reg-copilot/reg-intel-llm';
+import { createChatRouteHandler } from '../index.js';
+
+function createHandler() {
+  return createChatRouteHandler({
+    tenantId: 'tenant-1',
+    conversationStore: new InMemoryConversationStore(),
+    conversationContextStore: new InMemoryConversationContextStore(),
+    llmRouter: {} as LlmRouter,
+  });
+}
+
+function chatRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-user-id': 'user-1' },
+    body: JSON.stringify({ message: 'Am I eligible for Jobseeker\'s Benefit?', ...body }),
+  });
+}
+
+describe('chat route request validation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('COPILOT_GRAPH_WRITE_MODE', 'memory');
+    mocks.handleChatStream.mockImplementation(async function* () {
+      yield { type: 'done' };
+    });
+  });
+
+  it('rejects eligibility facts that do not match the schema', async () => {
+    const response = await createHandler()(
+      chatRequest({ eligibilityFacts: { age: 'forty', contributions: [{ date: 'soon', weeks: 4 }] } })
+    );
+
+    expect(response.status).toBe(400);
+    const text = await response.text();
+    expect(text).toContain('Invalid eligibilityFacts');
+    expect(text).toContain('age');
+    expect(text).toContain('contributions.0.date');
+    expect(mocks.handleChatStream).not.toHaveBeenCalled();
+  });
+
+  it('passes parsed eligibility facts to the compliance engine', async () => {
+    const eligibilityFacts = {
+      prsiClass: 'S',
+      contributions: [{ date: '2024-06-30', weeks: 26 }],
+      currentClaims: [],
+    };
+
+    const response = await createHandler()(chatRequest({ eligibilityFacts }));
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(mocks.handleChatStream).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'tenant-1', eligibilityFacts })
+    );
+  });
+
+  it('rejects an asOf that is not a date', async () => {
+    const response = await createHandler()(chatRequest({ asOf: 'last year' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain('Invalid asOf');
+    expect(mocks.handleChatStream).not.toHaveBeenCalled();
+  });
+
+  it('passes asOf to the compliance engine as a date', async () => {
+    const response = await createHandler()(chatRequest({ asOf: '2021-06-30' }));
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(mocks.handleChatStream).toHaveBeenCalledWith(
+      expect.objectContaining({ asOf: new Date('2021-06-30') })
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  applyReviewed: vi.fn(),
+  createGraphWriteService: vi.fn(() => ({})),
+  driver: {
+    verifyConnectivity: vi.fn(() => Promise.resolve()),
+    close: vi.fn(() => Promise.resolve()),
+  },
+}));
+
+vi.mock('neo4j-driver', () => ({
+  default: {
+    driver: vi.fn(() => mocks.driver),
+    auth: { basic: vi.fn() },
+  },
+}));
+
+vi.mock('@reg-copilot/reg-intel-core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@reg-copilot/reg-intel-core')>();
+  return {
+    ...actual,
+    createGraphWriteService: mocks.createGraphWriteService,
+    createConceptCurationService: vi.fn(() => ({ applyReviewed: mocks.applyReviewed })),
+  };
+});
+
+import { InMemoryConceptProposalStore, InMemoryGraphVersionStore } from '@reg-copilot/reg-intel-core';
+import { applyReviewedConceptDecisions } from '../index.js';
+
+describe('applyReviewedConceptDecisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    vi.stubEnv('COPILOT_GRAPH_WRITE_MODE', 'auto');
+    vi.stubEnv('MEMGRAPH_URI', 'bolt://graph:7687');
+    mocks.applyReviewed.mockResolvedValue({ applied: [], failed: [] });
+  });
+
+  it('returns null without writing when graph writes are disabled', async () => {
+    vi.stubEnv('COPILOT_GRAPH_WRITE_MODE', 'memory');
+
+    const report = await applyReviewedConceptDecisions({
+      conceptProposalStore: new InMemoryConceptProposalStore(),
+    });
+
+    expect(report).toBeNull();
+    expect(mocks.applyReviewed).not.toHaveBeenCalled();
+  });
+
+  it('applies reviewed proposals as one concept-curation batch and closes the driver', async () => {
+    const versionStore = new InMemoryGraphVersionStore();
+
+    const report = await applyReviewedConceptDecisions({
+      conceptProposalStore: new InMemoryConceptProposalStore(),
+      graphVersionStore: versionStore,
+      limit: 25,
+    });
+
+    expect(report).toEqual({ applied: [], failed: [] });
+    expect(mocks.applyReviewed).toHaveBeenCalledWith(25);
+    expect(mocks.createGraphWriteService).toHaveBeenCalledWith(
+      expect.objectContaining({
+        versionStore,
+        author: 'concept-curation',
+        batchId: expect.stringMatching(/^concept-curation:/),
+      })
+    );
+    expect(mocks.driver.close).toHaveBeenCalled();
+  });
+
+  it('closes the driver when applying fails', async () => {
+    mocks.applyReviewed.mockRejectedValue(new Error('store down'));
+
+    await expect(
+      applyReviewedConceptDecisions({ conceptProposalStore: new InMemoryConceptProposalStore() })
+    ).rejects.toThrow('store down');
+    expect(mocks.driver.close).toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,9 @@
  * Tests for Execution Context Adapter
  */
 
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import {
   E2BSandboxClient,
@@ -220,6 +223,43 @@ describe('createExecutionContextManager', () => {
 
     expect(manager).toBeDefined();
   });
+
+  it('runs sandboxes as local processes with the local provider', async () => {
+    const rootDir = await mkdtemp(path.join(tmpdir(), 'next-adapter-sandbox-'));
+    const store = createMockStore();
+    store.createContext.mockImplementation(async input => ({
+      id: 'context-1',
+      ...input,
+      sandboxStatus: 'ready',
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    }));
+    const quotaCheckCallback = vi.fn();
+
+    const manager = createExecutionContextManager({
+      store,
+      sandboxProvider: 'local',
+      localSandbox: { rootDir },
+      quotaCheckCallback,
+    });
+
+    try {
+      const { sandbox } = await manager.getOrCreateContext({
+        tenantId: 'tenant-1',
+        conversationId: 'conv-1',
+        pathId: 'path-1',
+      });
+      const result = await sandbox.runCode('console.log(1 + 1)', { language: 'javascript' });
+
+      expect(sandbox.sandboxId).toMatch(/^local-/);
+      expect(result.logs.stdout).toEqual(['2']);
+      expect(quotaCheckCallback).not.toHaveBeenCalled();
+    } finally {
+      await manager.shutdown();
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe('Singleton ExecutionContextManager', () => {
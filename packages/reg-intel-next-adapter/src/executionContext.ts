@@ -7,10 +7,12 @@
 
 import {
   ExecutionContextManager,
+  LocalSandboxClient,
   SupabaseExecutionContextStore,
   type ExecutionContextStore,
   type E2BClient,
   type E2BQuotaCheckCallback,
+  type LocalSandboxClientConfig,
 } from '@reg-copilot/reg-intel-conversations';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createLogger } from '@reg-copilot/reg-intel-observability';
@@ -123,9 +125,19 @@ export interface ExecutionContextConfig {
   /** Supabase client used when a custom store is not provided */
   supabaseClient?: SupabaseClient;
 
+  /**
+   * Where code runs (default: 'e2b'):
+   * - e2b: E2B cloud sandboxes (requires e2bApiKey)
+   * - local: child processes on this host, for deployments without remote egress
+   */
+  sandboxProvider?: 'e2b' | 'local';
+
   /** E2B API key */
   e2bApiKey?: string;
 
+  /** Limits and isolation for the local sandbox provider */
+  localSandbox?: LocalSandboxClientConfig;
+
   /** Default TTL in minutes (default: 30) */
   defaultTtlMinutes?: number;
 
@@ -170,6 +182,12 @@ function resolveExecutionContextStore(config: ExecutionContextConfig): Execution
  *   e2bApiKey: process.env.E2B_API_KEY,
  * });
  *
+ * // Without E2B (e.g. on-prem): run code in local child processes
+ * const localManager = createExecutionContextManager({
+ *   supabaseClient: createClient(url, key),
+ *   sandboxProvider: 'local',
+ * });
+ *
  * const handler = createChatRouteHandler({
  *   executionContextManager: manager,
  * });
@@ -179,7 +197,10 @@ export function createExecutionContextManager(
   config: ExecutionContextConfig = {}
 ): ExecutionContextManager {
   const store = resolveExecutionContextStore(config);
-  const e2bClient = new E2BSandboxClient(config.e2bApiKey);
+  const e2bClient: E2BClient =
+    config.sandboxProvider === 'local'
+      ? new LocalSandboxClient(config.localSandbox)
+      : new E2BSandboxClient(config.e2bApiKey);
 
   const logger = config.enableLogging
     ? executionContextLogger.child({ feature: 'manager' })
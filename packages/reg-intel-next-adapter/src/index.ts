@@ -2,6 +2,7 @@ import {
   NON_ADVICE_DISCLAIMER,
   createCanonicalConceptHandler,
   createComplianceEngine,
+  createConceptCurationService,
   createDefaultLlmRouter,
   createGraphClient,
   createGraphWriteService,
@@ -12,14 +13,23 @@ import {
   type ChatMessage,
   type CanonicalConceptHandler,
   type ComplianceEngine,
+  type ConceptCurationApplyReport,
+  type ConceptProposalStore,
   type EgressGuard,
+  type EligibilityEvaluation,
+  type EligibilityFacts,
   type ExecutionTool,
+  type GraphChangeFeed,
+  type GraphRetriever,
+  type GraphVersionStore,
   type GraphWriteService,
+  type JurisdictionConflict,
   type LlmClient,
   type LlmChatRequest,
   type LlmChatResponse,
   type LlmStreamChunk,
   type RedactedPayload,
+  type ComplianceRequest,
 } from '@reg-copilot/reg-intel-core';
 import type {
   LlmRouter,
@@ -29,6 +39,7 @@ import type {
 import {
   ToolRegistry,
   type E2BSandbox,
+  type TaxRateGraphClient,
 } from '@reg-copilot/reg-intel-llm';
 import type { ConversationContextStore } from '@reg-copilot/reg-intel-core';
 import {
@@ -41,6 +52,7 @@ import {
   type ConversationEventType,
   type ConversationListEventType,
   type ConversationRecord,
+  type ConversationScenarioStore,
   type SseSubscriber,
   type AuthorizationModel,
   type AuthorizationSpec,
@@ -56,6 +68,7 @@ import { createClient } from '@supabase/supabase-js';
 import neo4j, { type Driver } from 'neo4j-driver';
 import { createLogger, createTracingFetch, requestContext, withSpan } from '@reg-copilot/reg-intel-observability';
 import { trace } from '@opentelemetry/api';
+import { z } from 'zod';
 
 const DEFAULT_DISCLAIMER_KEY = 'non_advice_research_tool';
 const adapterLogger = createLogger('NextAdapter');
@@ -70,8 +83,23 @@ export interface ChatRouteHandlerOptions {
   executionContextManager?: ExecutionContextManager;
   llmRouter?: LlmRouter;
   policyStore?: LlmPolicyStore;
+  /** Ranks graph nodes for each question (e.g. createHybridGraphRetriever) */
+  graphRetriever?: GraphRetriever;
+  /** Receives a change event for each concept captured to the graph */
+  graphChangeFeed?: GraphChangeFeed;
+  /** Stage captured concepts for curator review instead of writing them to the graph */
+  conceptProposalStore?: ConceptProposalStore;
+  /** Records concepts captured to the graph in the change log (e.g. SupabaseGraphVersionStore) */
+  graphVersionStore?: GraphVersionStore;
+  /** Graph client the built-in tax calculator tools read rates from (e.g. createBoltGraphClient) */
+  rateGraphClient?: TaxRateGraphClient;
+  /** Scenarios of the active path, compared when the request sets compareScenarios */
+  scenarioStore?: ConversationScenarioStore;
 }
 
+/** Stream chunks accepted by LlmClient (router-only failover events excluded) */
+type LlmClientStreamChunk = Exclude<LlmStreamChunk, { type: 'failover' }>;
+
 /**
  * Adapter that wraps LlmRouter to match the LlmClient interface
  * expected by ComplianceEngine
@@ -95,7 +123,7 @@ class LlmRouterClientAdapter implements LlmClient {
     };
   }
 
-  streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+  streamChat(request: LlmChatRequest): AsyncIterable<LlmClientStreamChunk> {
     const options: LlmCompletionOptions = {
       temperature: request.temperature,
       maxTokens: request.max_tokens,
@@ -105,25 +133,26 @@ class LlmRouterClientAdapter implements LlmClient {
 
     const routerStream = this.router.streamChat(request.messages, options) as AsyncIterable<unknown>;
 
-    const normalizeStream: AsyncIterable<LlmStreamChunk> = (async function* (): AsyncGenerator<
-      LlmStreamChunk,
+    const normalizeStream: AsyncIterable<LlmClientStreamChunk> = (async function* (): AsyncGenerator<
+      LlmClientStreamChunk,
       void,
       undefined
     > {
       for await (const chunk of routerStream) {
         const routerChunk = chunk as { type?: string; delta?: string; error?: unknown };
 
-        if (routerChunk.type === 'tool') {
+        // Failover events are logged and metered by the router itself
+        if (routerChunk.type === 'tool' || routerChunk.type === 'failover') {
           continue;
         }
 
         if (routerChunk.type === 'text') {
-          yield { type: 'text', delta: routerChunk.delta ?? '' } satisfies LlmStreamChunk;
+          yield { type: 'text', delta: routerChunk.delta ?? '' } satisfies LlmClientStreamChunk;
           continue;
         }
 
         if (routerChunk.type === 'done') {
-          yield { type: 'done' } satisfies LlmStreamChunk;
+          yield { type: 'done' } satisfies LlmClientStreamChunk;
           continue;
         }
 
@@ -131,7 +160,7 @@ class LlmRouterClientAdapter implements LlmClient {
           routerChunk.error instanceof Error
             ? routerChunk.error
             : new Error(String(routerChunk.error));
-        yield { type: 'error', error } satisfies LlmStreamChunk;
+        yield { type: 'error', error } satisfies LlmClientStreamChunk;
       }
     })();
 
@@ -178,6 +207,41 @@ function sanitizeMessages(messages: Array<{ role: string; content: string }>): C
   });
 }
 
+const isoDateSchema = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO date' });
+
+/**
+ * Eligibility facts accepted in the chat request body
+ */
+const eligibilityFactsSchema: z.ZodType<EligibilityFacts> = z.object({
+  age: z.number().int().min(0).max(150).optional(),
+  prsiClass: z.string().min(1).max(50).optional(),
+  annualIncome: z.number().min(0).optional(),
+  weeklyIncome: z.number().min(0).optional(),
+  capital: z.number().min(0).optional(),
+  contributionsPaid: z.number().int().min(0).optional(),
+  contributions: z
+    .array(
+      z.object({
+        date: isoDateSchema,
+        weeks: z.number().int().min(0).max(53),
+        class: z.string().min(1).max(50).optional(),
+        credited: z.boolean().optional(),
+      })
+    )
+    .max(1000)
+    .optional(),
+  dates: z.record(z.string(), isoDateSchema).optional(),
+  currentClaims: z.array(z.string().min(1)).max(100).optional(),
+});
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
 type TraceContextPayload = {
   traceId?: string | null;
   rootSpanId?: string | null;
@@ -233,6 +297,8 @@ function resolveTraceContext(bodyValue: unknown): TraceContextPayload {
  * @param args.uncertaintyLevel - Confidence level of the response (default: 'medium')
  * @param args.disclaimerKey - Key for the disclaimer to display (default: 'non_advice_research_tool')
  * @param args.referencedNodes - Graph nodes referenced in the response
+ * @param args.conflicts - Jurisdiction conflicts reported when several domain agents contributed
+ * @param args.eligibility - Deterministic eligibility evaluations for the benefits discussed
  * @returns Formatted metadata object for SSE transmission
  */
 function buildMetadataChunk(args: {
@@ -245,6 +311,8 @@ function buildMetadataChunk(args: {
   warnings?: string[];
   conversationContextSummary?: string;
   priorTurnNodes?: Array<{ id: string; label: string; type: string }>;
+  conflicts?: JurisdictionConflict[];
+  eligibility?: EligibilityEvaluation[];
 }) {
   return {
     agentId: args.agentId,
@@ -256,6 +324,8 @@ function buildMetadataChunk(args: {
     warnings: args.warnings,
     conversationContextSummary: args.conversationContextSummary,
     priorTurnNodes: args.priorTurnNodes,
+    conflicts: args.conflicts,
+    eligibility: args.eligibility,
   };
 }
 
@@ -365,7 +435,13 @@ type GraphWriteDependencies = {
   canonicalConceptHandler: CanonicalConceptHandler;
 };
 
-function resolveGraphWriteDependencies(tenantId?: string): GraphWriteDependencies | null {
+function resolveGraphWriteDependencies(
+  tenantId?: string,
+  changeFeed?: GraphChangeFeed,
+  proposalStore?: ConceptProposalStore,
+  versionStore?: GraphVersionStore,
+  author = 'concept-capture',
+): GraphWriteDependencies | null {
   const graphWriteMode = resolveGraphWriteMode();
   if (graphWriteMode === 'memory') {
     graphLogger.info(
@@ -408,12 +484,20 @@ function resolveGraphWriteDependencies(tenantId?: string): GraphWriteDependencie
     driver,
     tenantId,
     defaultSource: 'agent',
+    changeFeed,
+    // One change log batch per process, so captured concepts can be rolled back together
+    versionStore,
+    batchId: versionStore ? `${author}:${new Date().toISOString()}` : undefined,
+    author,
   });
+  if (!versionStore) {
+    graphLogger.warn({ author }, 'No graph version store configured; concept writes are not recorded in the graph change log');
+  }
 
   return {
     driver,
     graphWriteService,
-    canonicalConceptHandler: createCanonicalConceptHandler({ driver }),
+    canonicalConceptHandler: createCanonicalConceptHandler({ driver, proposalStore }),
   };
 }
 
@@ -508,6 +592,47 @@ function convertToolRegistryToExecutionTools(toolRegistry: ToolRegistry): Execut
   return executionTools;
 }
 
+/**
+ * Load the scenarios to compare for a chat request. `compareScenarios` is
+ * `true` for every scenario of the path, or an object selecting scenarios,
+ * benefits and a tax year.
+ */
+async function resolveScenarioComparison(
+  scenarioStore: ConversationScenarioStore | undefined,
+  input: { tenantId: string; conversationId: string; pathId: string | null | undefined },
+  compareScenarios: unknown
+): Promise<ComplianceRequest['scenarioComparison']> {
+  if (!scenarioStore || !input.pathId || !compareScenarios) {
+    return undefined;
+  }
+
+  const selection = typeof compareScenarios === 'object'
+    ? compareScenarios as { scenarioIds?: unknown; benefitIds?: unknown; taxYear?: unknown }
+    : {};
+  const scenarioIds = Array.isArray(selection.scenarioIds) ? selection.scenarioIds : undefined;
+
+  const stored = await scenarioStore.listScenarios({
+    tenantId: input.tenantId,
+    conversationId: input.conversationId,
+    pathId: input.pathId,
+  });
+  const scenarios = stored
+    .filter(scenario => !scenarioIds || scenarioIds.includes(scenario.id))
+    .map(({ id, name, facts }) => ({ id, name, facts }));
+
+  if (scenarios.length === 0) {
+    return undefined;
+  }
+
+  return {
+    scenarios,
+    benefitIds: Array.isArray(selection.benefitIds)
+      ? selection.benefitIds.filter((id): id is string => typeof id === 'string')
+      : undefined,
+    taxYear: typeof selection.taxYear === 'number' ? selection.taxYear : undefined,
+  };
+}
+
 /**
  * Creates a Next.js API route handler for the regulatory compliance chat endpoint.
  *
@@ -543,7 +668,12 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
   const conversationListHub = options?.conversationListEventHub ?? new ConversationListEventHub();
     const graphDeps = (() => {
       try {
-        return resolveGraphWriteDependencies(options?.tenantId);
+        return resolveGraphWriteDependencies(
+          options?.tenantId,
+          options?.graphChangeFeed,
+          options?.conceptProposalStore,
+          options?.graphVersionStore,
+        );
       } catch (error) {
         graphLogger.warn({ error }, 'Graph write service unavailable; falling back to read-only mode');
         return null;
@@ -586,6 +716,7 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
         canonicalConceptHandler: graphDeps?.canonicalConceptHandler,
         conceptCaptureWarning: graphWarning,
         conversationContextStore,
+        graphRetriever: options?.graphRetriever,
       });
     }
     return { llmRouter: llmRouter!, complianceEngine };
@@ -618,6 +749,9 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
         title,
         replaceMessageId,
         forceTool,
+        eligibilityFacts,
+        compareScenarios,
+        asOf,
       } = body;
 
       const headerUserId = request.headers.get('x-user-id') ?? undefined;
@@ -626,6 +760,21 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
         return new Response('userId required', { status: 400 });
       }
 
+      const parsedEligibilityFacts = eligibilityFacts == null
+        ? undefined
+        : eligibilityFactsSchema.safeParse(eligibilityFacts);
+      if (parsedEligibilityFacts && !parsedEligibilityFacts.success) {
+        return new Response(`Invalid eligibilityFacts: ${formatIssues(parsedEligibilityFacts.error)}`, {
+          status: 400,
+        });
+      }
+
+      // Effective date for graph queries, e.g. a question about an earlier tax year
+      const parsedAsOf = asOf == null ? undefined : isoDateSchema.safeParse(asOf);
+      if (parsedAsOf && !parsedAsOf.success) {
+        return new Response(`Invalid asOf: ${formatIssues(parsedAsOf.error)}`, { status: 400 });
+      }
+
       const normalizedProfile = profile
         ? { ...profile, personaType: normalizeProfileType(profile.personaType) }
         : undefined;
@@ -695,7 +844,7 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
             }
 
             // Get or create execution context for this path (if ExecutionContextManager configured)
-            let toolRegistry: ToolRegistry | undefined;
+            let sandbox: E2BSandbox | undefined;
 
             if (options?.executionContextManager && conversationRecord.activePathId) {
               try {
@@ -706,24 +855,12 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
                 });
 
                 // Cast sandbox to llm package's E2BSandbox type for compatibility
-                const sandbox = contextResult.sandbox as unknown as E2BSandbox;
-
-                // Create tool registry with the sandbox
-                toolRegistry = new ToolRegistry({
-                  sandbox,
-                  logger: {
-                    info: (msg: string, meta?: unknown) =>
-                      toolRegistryLogger.info(meta as Record<string, unknown> | undefined ?? {}, msg),
-                    error: (msg: string, meta?: unknown) =>
-                      toolRegistryLogger.error(meta as Record<string, unknown> | undefined ?? {}, msg),
-                  },
-                });
+                sandbox = contextResult.sandbox as unknown as E2BSandbox;
 
                 chatRouteLogger.info({
                   pathId: conversationRecord.activePathId,
                   sandboxId: sandbox.sandboxId,
                   wasCreated: contextResult.wasCreated,
-                  toolsRegistered: toolRegistry.getToolNames(),
                 }, 'Execution context ready');
               } catch (error) {
                 chatRouteLogger.error({ error }, 'Failed to setup execution context');
@@ -731,6 +868,32 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
               }
             }
 
+            // Create tool registry with the sandbox and/or the tax calculators
+            let toolRegistry: ToolRegistry | undefined;
+
+            if (sandbox || options?.rateGraphClient) {
+              toolRegistry = new ToolRegistry({
+                sandbox,
+                rateGraphClient: options?.rateGraphClient,
+                logger: {
+                  info: (msg: string, meta?: unknown) =>
+                    toolRegistryLogger.info(meta as Record<string, unknown> | undefined ?? {}, msg),
+                  error: (msg: string, meta?: unknown) =>
+                    toolRegistryLogger.error(meta as Record<string, unknown> | undefined ?? {}, msg),
+                },
+              });
+
+              chatRouteLogger.info({
+                toolsRegistered: toolRegistry.getToolNames(),
+              }, 'Tool registry ready');
+            }
+
+            const scenarioComparison = await resolveScenarioComparison(
+              options?.scenarioStore,
+              { tenantId, conversationId, pathId: conversationRecord.activePathId },
+              compareScenarios
+            );
+
             const existingMessages = await conversationStore.getMessages({
               tenantId,
               conversationId,
@@ -904,6 +1067,9 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
               traceContext,
               executionTools,
               forceTool: validatedForceTool,
+              eligibilityFacts: parsedEligibilityFacts?.data,
+              scenarioComparison,
+              asOf: parsedAsOf ? new Date(parsedAsOf.data) : undefined,
             })) {
               // Break out of async iteration if request was aborted
               if (aborted) {
@@ -923,6 +1089,8 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
                   warnings: accumulatedWarnings,
                   conversationContextSummary: chunk.metadata!.conversationContextSummary,
                   priorTurnNodes: chunk.metadata!.priorTurnNodes,
+                  conflicts: chunk.metadata!.conflicts,
+                  eligibility: chunk.metadata!.eligibility,
                 });
                 lastMetadata = metadata;
                 eventHub.broadcast(tenantId, conversationId, 'metadata', {
@@ -936,6 +1104,15 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
                   lastMessageAt: conversationMetadata.lastMessageAt ?? undefined,
                   isShared,
                 });
+              } else if (chunk.type === 'scenario_comparison' && chunk.scenarioComparison) {
+                // Persisted with the assistant message so the table survives reloads
+                lastMetadata = { ...(lastMetadata ?? {}), scenarioComparison: chunk.scenarioComparison };
+                eventHub.broadcast(tenantId, conversationId, 'scenario_comparison', {
+                  scenarioComparison: chunk.scenarioComparison,
+                });
+              } else if (chunk.type === 'agent_progress' && chunk.agentProgress) {
+                // Per-agent progress while domain agents run (before metadata)
+                eventHub.broadcast(tenantId, conversationId, 'agent_progress', chunk.agentProgress);
               } else if (chunk.type === 'warning' && chunk.warnings?.length) {
                 accumulatedWarnings = chunk.warnings;
                 if (lastMetadata) {
@@ -956,6 +1133,11 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
                 unsubscribe();
                 return;
               } else if (chunk.type === 'done') {
+                if (chunk.citations?.length) {
+                  // Validated inline citations, persisted with the message so chips survive reloads
+                  lastMetadata = { ...(lastMetadata ?? {}), citations: chunk.citations };
+                  eventHub.broadcast(tenantId, conversationId, 'citations', { citations: chunk.citations });
+                }
                 await conversationStore.appendMessage({
                   tenantId,
                   conversationId,
@@ -1037,6 +1219,51 @@ export function createChatRouteHandler(options?: ChatRouteHandlerOptions) {
   };
 }
 
+export interface ApplyConceptDecisionsOptions {
+  tenantId?: string;
+  conceptProposalStore: ConceptProposalStore;
+  graphChangeFeed?: GraphChangeFeed;
+  graphVersionStore?: GraphVersionStore;
+  /** Maximum proposals written per run (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Write concept proposals approved or merged on the copilot-admin review
+ * screen to the graph
+ *
+ * Meant to run on a schedule. Each run is one `concept-curation:<time>` batch
+ * in the graph change log; proposals that fail stay unapplied and are retried
+ * on the next run.
+ *
+ * @returns The apply report, or null when graph writes are not configured
+ */
+export async function applyReviewedConceptDecisions(
+  options: ApplyConceptDecisionsOptions
+): Promise<ConceptCurationApplyReport | null> {
+  const graphDeps = resolveGraphWriteDependencies(
+    options.tenantId,
+    options.graphChangeFeed,
+    undefined,
+    options.graphVersionStore,
+    'concept-curation',
+  );
+  if (!graphDeps) {
+    return null;
+  }
+
+  try {
+    const curation = createConceptCurationService({
+      store: options.conceptProposalStore,
+      conceptHandler: graphDeps.canonicalConceptHandler,
+      writeService: graphDeps.graphWriteService,
+    });
+    return await curation.applyReviewed(options.limit);
+  } finally {
+    await graphDeps.driver.close();
+  }
+}
+
 export {
   ConversationEventHub,
   type ConversationStore,
@@ -14,11 +14,13 @@ import { initUiMetrics } from './uiMetrics.js';
 
 // Backend metric instrument instances
 let agentSelectionCounter: Counter | null = null;
+let agentSelectionScoreHistogram: Histogram | null = null;
 let graphQueryDurationHistogram: Histogram | null = null;
 let graphQueryCounter: Counter | null = null;
 let llmTokenUsageCounter: Counter | null = null;
 let llmRequestDurationHistogram: Histogram | null = null;
 let llmCostCounter: Counter | null = null;
+let llmFailoverCounter: Counter | null = null;
 let egressGuardCounter: Counter | null = null;
 let egressGuardBlockCounter: Counter | null = null;
 
@@ -47,6 +49,11 @@ export const initBusinessMetrics = (): void => {
     unit: '{selections}',
   });
 
+  agentSelectionScoreHistogram = meter.createHistogram('regintel.agent.selection.score', {
+    description: 'Routing score (0-1) of selected domain agents',
+    unit: '1',
+  });
+
   // Graph query metrics
   graphQueryDurationHistogram = meter.createHistogram('regintel.graph.query.duration', {
     description: 'Duration of graph queries in milliseconds',
@@ -74,6 +81,11 @@ export const initBusinessMetrics = (): void => {
     unit: 'USD',
   });
 
+  llmFailoverCounter = meter.createCounter('regintel.llm.failover.total', {
+    description: 'Total number of LLM provider failovers and retries by reason',
+    unit: '{failovers}',
+  });
+
   // E2B sandbox metrics
   e2bSandboxOperationDurationHistogram = meter.createHistogram('regintel.e2b.sandbox.operation.duration', {
     description: 'Duration of E2B sandbox operations (create, reconnect, terminate, cleanup) in milliseconds',
@@ -142,8 +154,21 @@ export const recordAgentSelection = (attributes: {
   agentName?: string;
   domain?: string;
   jurisdiction?: string;
+  /** 'single' when one agent answered, 'fan-out' when several results were merged */
+  selectionMode?: 'single' | 'fan-out';
+  /** Routing score (0-1); recorded as a histogram rather than a counter attribute */
+  score?: number;
 }): void => {
-  agentSelectionCounter?.add(1, attributes as Attributes);
+  const { score, ...counterAttributes } = attributes;
+  agentSelectionCounter?.add(1, counterAttributes as Attributes);
+
+  if (score !== undefined) {
+    agentSelectionScoreHistogram?.record(score, {
+      agentType: counterAttributes.agentType,
+      agentName: counterAttributes.agentName,
+      selectionMode: counterAttributes.selectionMode,
+    } as Attributes);
+  }
 };
 
 /**
@@ -310,6 +335,24 @@ export const recordLlmCost = async (attributes: {
   }
 };
 
+/**
+ * Record an LLM provider retry or failover
+ *
+ * Attributes are limited to provider, model, reason and task so the counter
+ * stays low-cardinality; the tenant is recorded on the failover span instead.
+ */
+export const recordLlmFailover = (attributes: {
+  fromProvider: string;
+  fromModel: string;
+  toProvider?: string;
+  toModel?: string;
+  reason: 'error' | 'circuit_open' | 'retry';
+  statusCode?: number;
+  task?: string;
+}): void => {
+  llmFailoverCounter?.add(1, attributes as Attributes);
+};
+
 /**
  * Record egress guard scan
  */
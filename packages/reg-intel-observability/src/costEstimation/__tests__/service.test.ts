@@ -379,6 +379,10 @@ describe('CostEstimationService', () => {
       expect(typeof unknownTier).toBe('number');
     });
 
+    it('should return zero for local sandboxes', () => {
+      expect(getE2BCostEstimateFallback('local', 'us-east-1', 'long_running', 'conservative')).toBe(0);
+    });
+
     it('should have different confidence levels for LLM', () => {
       const conservative = getLLMCostEstimateFallback(
         'anthropic',
@@ -10,6 +10,7 @@
  * Update these values when vendor pricing changes.
  */
 
+import { LOCAL_SANDBOX_TIER } from '../e2b/pricingService.js';
 import type {
   LLMOperationType,
   E2BOperationType,
@@ -349,7 +350,7 @@ export function getLLMCostEstimateFallback(
 }
 
 /**
- * Get E2B cost estimate fallback
+ * Get E2B cost estimate fallback (always zero for local sandboxes)
  */
 export function getE2BCostEstimateFallback(
   tier: string,
@@ -360,6 +361,10 @@ export function getE2BCostEstimateFallback(
   const tierLower = tier.toLowerCase();
   const regionLower = region.toLowerCase();
 
+  if (tierLower === LOCAL_SANDBOX_TIER) {
+    return 0;
+  }
+
   return (
     FALLBACK_E2B_COST_ESTIMATES[tierLower]?.[regionLower]?.[operationType]?.[confidenceLevel] ??
     DEFAULT_E2B_COST_ESTIMATE
@@ -9,7 +9,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { SupabaseE2BPricingService } from '../pricingService.js';
+import { SupabaseE2BPricingService, estimateE2BCost } from '../pricingService.js';
 
 // Mock Supabase client
 const createMockSupabaseClient = (options?: {
@@ -296,6 +296,27 @@ describe('SupabaseE2BPricingService caching', () => {
     });
   });
 
+  describe('local sandboxes', () => {
+    it('should record local compute at zero cost without querying the database', async () => {
+      const client = createMockSupabaseClient();
+      const service = new SupabaseE2BPricingService(client);
+
+      const result = await service.calculateCost({
+        tier: 'local',
+        resourceUsage: { executionTimeSeconds: 600, cpuCoreSeconds: 600 },
+      });
+
+      expect(result.totalCostUsd).toBe(0);
+      expect(result.pricing.tier).toBe('local');
+      expect(result.isEstimated).toBe(false);
+      expect(client.from).not.toHaveBeenCalled();
+    });
+
+    it('should estimate zero cost for local sandboxes', () => {
+      expect(estimateE2BCost('local', 600)).toBe(0);
+    });
+  });
+
   describe('cache key generation', () => {
     it('should generate unique cache keys for different tiers', async () => {
       const dbPricingStandard = [
@@ -24,6 +24,7 @@ export {
   SupabaseE2BPricingService,
   type E2BPricingService,
   estimateE2BCost,
+  LOCAL_SANDBOX_TIER,
 } from './pricingService.js';
 
 // Cost Tracking Service
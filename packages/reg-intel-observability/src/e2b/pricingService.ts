@@ -125,6 +125,12 @@ function mapRowToPricing(row: PricingRow): E2BPricing {
   };
 }
 
+/**
+ * Tier reported by sandboxes that run as local child processes instead of on
+ * E2B. Local compute is free: it is recorded, but always at zero cost.
+ */
+export const LOCAL_SANDBOX_TIER = 'local';
+
 /**
  * Default fallback pricing when database pricing is unavailable
  * Conservative estimates to avoid undercharging
@@ -134,6 +140,7 @@ const FALLBACK_PRICING: Record<string, number> = {
   'gpu': 0.001,            // $0.001/sec = $3.60/hour
   'high-memory': 0.0005,   // $0.0005/sec = $1.80/hour
   'high-cpu': 0.0003,      // $0.0003/sec = $1.08/hour
+  [LOCAL_SANDBOX_TIER]: 0, // Local child processes
 };
 
 export class SupabaseE2BPricingService implements E2BPricingService {
@@ -212,6 +219,22 @@ export class SupabaseE2BPricingService implements E2BPricingService {
   }
 
   async calculateCost(request: E2BCostEstimateRequest): Promise<E2BCostCalculation> {
+    if (request.tier.toLowerCase() === LOCAL_SANDBOX_TIER) {
+      // Local sandboxes have no pricing rows; their compute is zero-cost by definition
+      return {
+        executionCostUsd: 0,
+        resourceCostUsd: 0,
+        totalCostUsd: 0,
+        pricing: {
+          tier: LOCAL_SANDBOX_TIER,
+          region: request.region || 'us-east-1',
+          pricePerSecond: 0,
+          effectiveDate: new Date().toISOString(),
+        },
+        isEstimated: false,
+      };
+    }
+
     const pricing = await this.getPricing(
       request.tier,
       request.region || 'us-east-1',
@@ -222,7 +245,7 @@ export class SupabaseE2BPricingService implements E2BPricingService {
 
     if (!pricing) {
       // Use fallback pricing
-      const fallbackPrice = FALLBACK_PRICING[request.tier.toLowerCase()] || FALLBACK_PRICING['standard'];
+      const fallbackPrice = FALLBACK_PRICING[request.tier.toLowerCase()] ?? FALLBACK_PRICING['standard'];
       const executionCost = usage.executionTimeSeconds * fallbackPrice;
 
       return {
@@ -308,6 +331,6 @@ export class SupabaseE2BPricingService implements E2BPricingService {
  */
 export function estimateE2BCost(tier: string, estimatedDurationSeconds: number = 300): number {
   // Default to 5 minutes (300 seconds) if not specified
-  const pricePerSecond = FALLBACK_PRICING[tier.toLowerCase()] || FALLBACK_PRICING['standard'];
+  const pricePerSecond = FALLBACK_PRICING[tier.toLowerCase()] ?? FALLBACK_PRICING['standard'];
   return estimatedDurationSeconds * pricePerSecond;
 }
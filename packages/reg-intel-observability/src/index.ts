@@ -11,6 +11,7 @@ export {
   recordLlmTokenUsage,
   recordLlmRequest,
   recordLlmCost,
+  recordLlmFailover,
   recordEgressGuardScan,
   withMetricTiming,
   // UI/UX metrics
@@ -127,6 +128,7 @@ export {
   type E2BCostRecord,
   type E2BQuotaCheckResult,
   estimateE2BCost,
+  LOCAL_SANDBOX_TIER,
   calculateAndRecordE2BCost,
   initE2BCostTracking,
   getE2BPricingService,
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+/**
+ * Concept Curation Script
+ *
+ * Reviews concepts captured by the LLM (copilot_core.concept_proposals) and
+ * writes approved or merged ones to the graph. Decisions made on the
+ * copilot-admin review screen are written to the graph by the demo-web
+ * `apply-concept-decisions` cron job; `apply` runs the same step by hand.
+ *
+ * Usage:
+ *   pnpm concepts:curate list [--status <pending|approved|merged|rejected>] [--limit <n>]
+ *   pnpm concepts:curate approve <proposalId> [--note <text>] [--reviewer <name>]
+ *   pnpm concepts:curate merge <proposalId> <conceptId> [--note <text>] [--reviewer <name>]
+ *   pnpm concepts:curate reject <proposalId> [--note <text>] [--reviewer <name>]
+ *   pnpm concepts:curate apply [--limit <n>]
+ *
+ * Graph writes are recorded in the graph change log under a
+ * `concept-curation:<time>` batch, so they can be rolled back with
+ * `pnpm graph:versions rollback`.
+ *
+ * Environment Variables (from .env.local or .env):
+ *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
+ *   MEMGRAPH_USERNAME - Username (optional)
+ *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Service role key
+ */
+
+import { loadEnv } from './load-env.js';
+import neo4j from 'neo4j-driver';
+import { createClient } from '@supabase/supabase-js';
+import {
+  SupabaseConceptProposalStore,
+  SupabaseGraphVersionStore,
+  createCanonicalConceptHandler,
+  createConceptCurationService,
+  createGraphWriteService,
+  type ConceptProposal,
+  type ConceptProposalStatus,
+} from '../packages/reg-intel-graph/src/index.js';
+import { runWithScriptObservability } from './observability.js';
+
+// Load environment variables from .env.local or .env
+loadEnv();
+
+const MEMGRAPH_URI = process.env.MEMGRAPH_URI || 'bolt://localhost:7687';
+const MEMGRAPH_USERNAME = process.env.MEMGRAPH_USERNAME;
+const MEMGRAPH_PASSWORD = process.env.MEMGRAPH_PASSWORD;
+
+const USAGE = 'Usage: pnpm concepts:curate <list|approve|merge|reject|apply> [args]';
+const STATUSES: ConceptProposalStatus[] = ['pending', 'approved', 'merged', 'rejected'];
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function positionalArgs(argv: string[]): string[] {
+  const values = new Set(['--status', '--limit', '--note', '--reviewer'].map(name => optionValue(argv, name)));
+  return argv.filter(arg => !arg.startsWith('--') && !values.has(arg));
+}
+
+function createSupabaseClient() {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials required. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+function formatProposal(proposal: ConceptProposal): string {
+  const lines = [
+    `${proposal.id}  [${proposal.status}]  ${proposal.prefLabel}  (${proposal.conceptId})`,
+    `  captured ${proposal.createdAt}` +
+      (proposal.provenance.conversationId ? ` in conversation ${proposal.provenance.conversationId}` : '') +
+      (proposal.provenance.model ? ` by ${proposal.provenance.model}` : ''),
+    ...proposal.suggestedDuplicates.map(
+      suggestion => `  possible duplicate: ${suggestion.conceptId} "${suggestion.prefLabel}" (matched "${suggestion.matchedLabel}")`
+    ),
+  ];
+  if (proposal.mergedIntoId) lines.push(`  merged into ${proposal.mergedIntoId}`);
+  if (proposal.reviewedBy) lines.push(`  reviewed by ${proposal.reviewedBy} at ${proposal.reviewedAt}`);
+  if (proposal.reviewNote) lines.push(`  note: ${proposal.reviewNote}`);
+  return lines.join('\n');
+}
+
+async function runCommand(argv: string[]) {
+  const [command, ...rest] = positionalArgs(argv);
+  const reviewer = optionValue(argv, '--reviewer') ?? process.env.USER ?? 'concept-curation';
+  const note = optionValue(argv, '--note');
+  const limit = optionValue(argv, '--limit');
+
+  const supabase = createSupabaseClient();
+  const driver = neo4j.driver(
+    MEMGRAPH_URI,
+    MEMGRAPH_USERNAME && MEMGRAPH_PASSWORD ? neo4j.auth.basic(MEMGRAPH_USERNAME, MEMGRAPH_PASSWORD) : undefined
+  );
+  const store = new SupabaseConceptProposalStore(supabase);
+  const curation = createConceptCurationService({
+    store,
+    conceptHandler: createCanonicalConceptHandler({ driver }),
+    writeService: createGraphWriteService({
+      driver,
+      defaultSource: 'script',
+      tenantId: 'system',
+      versionStore: new SupabaseGraphVersionStore(supabase),
+      batchId: `concept-curation:${new Date().toISOString()}`,
+      author: reviewer,
+    }),
+  });
+
+  const print = (value: string) => process.stdout.write(`${value}\n`);
+
+  try {
+    switch (command) {
+      case 'list': {
+        const status = (optionValue(argv, '--status') ?? 'pending') as ConceptProposalStatus;
+        if (!STATUSES.includes(status)) {
+          throw new Error(`--status must be one of ${STATUSES.join(', ')}`);
+        }
+        const proposals = await curation.listProposals({ status, limit: limit ? Number(limit) : undefined });
+        print(proposals.length > 0 ? proposals.map(formatProposal).join('\n\n') : `No ${status} concept proposals`);
+        break;
+      }
+      case 'approve': {
+        if (!rest[0]) throw new Error('Usage: pnpm concepts:curate approve <proposalId>');
+        print(formatProposal(await curation.approve(rest[0], { reviewedBy: reviewer, note })));
+        break;
+      }
+      case 'merge': {
+        if (!rest[0] || !rest[1]) throw new Error('Usage: pnpm concepts:curate merge <proposalId> <conceptId>');
+        print(formatProposal(await curation.merge(rest[0], rest[1], { reviewedBy: reviewer, note })));
+        break;
+      }
+      case 'reject': {
+        if (!rest[0]) throw new Error('Usage: pnpm concepts:curate reject <proposalId>');
+        print(formatProposal(await curation.reject(rest[0], { reviewedBy: reviewer, note })));
+        break;
+      }
+      case 'apply': {
+        const report = await curation.applyReviewed(limit ? Number(limit) : undefined);
+        print(`Applied ${report.applied.length} concept proposal(s)`);
+        for (const failure of report.failed) {
+          process.stderr.write(`Failed to apply ${failure.proposal.id} (${failure.proposal.conceptId}): ${failure.error}\n`);
+        }
+        if (report.failed.length > 0) {
+          process.exitCode = 1;
+        }
+        break;
+      }
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    await driver.close();
+  }
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+
+  await runWithScriptObservability(
+    'curate-concepts',
+    async ({ withSpan }) => {
+      await withSpan(
+        'script.curate-concepts',
+        { 'script.name': 'curate-concepts', 'concepts.curate.command': argv[0] ?? 'none' },
+        () => runCommand(argv)
+      );
+    },
+    { tenantId: 'system', agentId: 'curate-concepts' }
+  );
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`Concept curation script failed: ${message}\n`);
+  process.exitCode = 1;
+});
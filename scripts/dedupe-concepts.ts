@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+/**
+ * Concept Deduplication Script
+ *
+ * Lists Concept nodes that may be duplicates and merges them. A merge re-points
+ * every relationship of the duplicate to the surviving concept, unions their
+ * alternative labels and leaves a MERGED_INTO redirect so the duplicate's ID
+ * (e.g. stored in a conversation context) still resolves.
+ *
+ * Usage:
+ *   pnpm concepts:dedupe candidates [--concept <id>] [--limit <n>] [--embeddings]
+ *       [--embedding-model <model>] [--embedding-url <url>] [--min-similarity <0-1>]
+ *   pnpm concepts:dedupe merge <duplicateId> <survivingId> [--dry-run] [--author <name>]
+ *
+ * `--embeddings` adds embedding similarity using the in-process hashing
+ * provider; `--embedding-model` uses an OpenAI-compatible `/embeddings`
+ * endpoint instead (`--embedding-url`, default OpenAI, with OPENAI_API_KEY).
+ *
+ * Merges are recorded in the graph change log under a
+ * `concept-dedupe:<time>` batch when Supabase credentials are set, so they can
+ * be rolled back with `pnpm graph:versions rollback`.
+ *
+ * Environment Variables (from .env.local or .env):
+ *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
+ *   MEMGRAPH_USERNAME - Username (optional)
+ *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL - Supabase project URL (optional; records merges)
+ *   SUPABASE_SERVICE_ROLE_KEY - Service role key (optional; records merges)
+ *   OPENAI_API_KEY - API key for --embedding-model (optional)
+ */
+
+import { loadEnv } from './load-env.js';
+import neo4j from 'neo4j-driver';
+import { createClient } from '@supabase/supabase-js';
+import {
+  SupabaseGraphVersionStore,
+  createBoltGraphClient,
+  createConceptDeduplicationService,
+  createGraphWriteService,
+  type ConceptDuplicateCandidate,
+  type ConceptEmbeddingProvider,
+  type ConceptMergeReport,
+} from '../packages/reg-intel-graph/src/index.js';
+import {
+  createHashingEmbeddingProvider,
+  createOpenAiCompatibleEmbeddingProvider,
+} from '../packages/reg-intel-core/src/retrieval/embeddingProviders.js';
+import { runWithScriptObservability } from './observability.js';
+
+// Load environment variables from .env.local or .env
+loadEnv();
+
+const MEMGRAPH_URI = process.env.MEMGRAPH_URI || 'bolt://localhost:7687';
+const MEMGRAPH_USERNAME = process.env.MEMGRAPH_USERNAME;
+const MEMGRAPH_PASSWORD = process.env.MEMGRAPH_PASSWORD;
+
+const USAGE = 'Usage: pnpm concepts:dedupe <candidates|merge> [args]';
+const VALUE_OPTIONS = [
+  '--concept',
+  '--limit',
+  '--embedding-model',
+  '--embedding-url',
+  '--min-similarity',
+  '--author',
+];
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function positionalArgs(argv: string[]): string[] {
+  const values = new Set(VALUE_OPTIONS.map(name => optionValue(argv, name)));
+  return argv.filter(arg => !arg.startsWith('--') && !values.has(arg));
+}
+
+/**
+ * Change log store, when Supabase credentials are configured
+ */
+function createVersionStore(): SupabaseGraphVersionStore | undefined {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    return undefined;
+  }
+
+  return new SupabaseGraphVersionStore(
+    createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+  );
+}
+
+function createEmbeddingProvider(argv: string[]): ConceptEmbeddingProvider | undefined {
+  const model = optionValue(argv, '--embedding-model');
+  if (model) {
+    return createOpenAiCompatibleEmbeddingProvider({
+      model,
+      baseURL: optionValue(argv, '--embedding-url'),
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return argv.includes('--embeddings') ? createHashingEmbeddingProvider() : undefined;
+}
+
+function formatCandidate(candidate: ConceptDuplicateCandidate): string {
+  const [a, b] = candidate.concepts;
+  const lines = [
+    `${candidate.score.toFixed(2)}  ${a.id} "${a.prefLabel}"  <->  ${b.id} "${b.prefLabel}"`,
+    `  reasons: ${candidate.reasons.join(', ')}`,
+  ];
+  if (candidate.sharedLabels.length > 0) lines.push(`  shared labels: ${candidate.sharedLabels.join('; ')}`);
+  if (candidate.similarity !== null) lines.push(`  embedding similarity: ${candidate.similarity.toFixed(3)}`);
+  return lines.join('\n');
+}
+
+function formatMergeReport(report: ConceptMergeReport): string {
+  const lines = [
+    `${report.dryRun ? 'Would merge' : 'Merged'} ${report.sourceId} into ${report.targetId}`,
+    `  alt labels added: ${report.addedAltLabels.length > 0 ? report.addedAltLabels.join('; ') : 'none'}`,
+    ...report.relationships.map(
+      relationship =>
+        `  ${relationship.action} ${relationship.direction} ${relationship.type} ` +
+        `${relationship.direction === 'outgoing' ? '->' : '<-'} ${relationship.nodeLabel} ${relationship.nodeId}`
+    ),
+  ];
+  return lines.join('\n');
+}
+
+async function runCommand(argv: string[]) {
+  const [command, ...rest] = positionalArgs(argv);
+  const author = optionValue(argv, '--author') ?? process.env.USER ?? 'concept-dedupe';
+  const dryRun = argv.includes('--dry-run');
+
+  const driver = neo4j.driver(
+    MEMGRAPH_URI,
+    MEMGRAPH_USERNAME && MEMGRAPH_PASSWORD ? neo4j.auth.basic(MEMGRAPH_USERNAME, MEMGRAPH_PASSWORD) : undefined
+  );
+  const graphClient = createBoltGraphClient({
+    uri: MEMGRAPH_URI,
+    username: MEMGRAPH_USERNAME,
+    password: MEMGRAPH_PASSWORD,
+  });
+  const versionStore = command === 'merge' && !dryRun ? createVersionStore() : undefined;
+  const batchId = `concept-dedupe:${new Date().toISOString()}`;
+  const deduplication = createConceptDeduplicationService({
+    graphReader: graphClient,
+    writeService: createGraphWriteService({
+      driver,
+      defaultSource: 'script',
+      tenantId: 'system',
+      versionStore,
+      batchId,
+      author,
+    }),
+    embeddingProvider: createEmbeddingProvider(argv),
+  });
+
+  const print = (value: string) => process.stdout.write(`${value}\n`);
+
+  try {
+    switch (command) {
+      case 'candidates': {
+        const limit = optionValue(argv, '--limit');
+        const minSimilarity = optionValue(argv, '--min-similarity');
+        const candidates = await deduplication.findCandidates({
+          conceptId: optionValue(argv, '--concept'),
+          limit: limit ? Number(limit) : undefined,
+          minSimilarity: minSimilarity ? Number(minSimilarity) : undefined,
+        });
+        print(candidates.length > 0 ? candidates.map(formatCandidate).join('\n\n') : 'No duplicate candidates');
+        break;
+      }
+      case 'merge': {
+        if (!rest[0] || !rest[1]) {
+          throw new Error('Usage: pnpm concepts:dedupe merge <duplicateId> <survivingId> [--dry-run]');
+        }
+        if (!dryRun && !versionStore) {
+          process.stderr.write('Supabase credentials not set; this merge will not be recorded in the graph change log\n');
+        }
+        print(formatMergeReport(await deduplication.mergeConcepts(rest[0], rest[1], { dryRun })));
+        if (versionStore) {
+          print(`Change log batch: ${batchId}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    await graphClient.close();
+    await driver.close();
+  }
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+
+  await runWithScriptObservability(
+    'dedupe-concepts',
+    async ({ withSpan }) => {
+      await withSpan(
+        'script.dedupe-concepts',
+        { 'script.name': 'dedupe-concepts', 'concepts.dedupe.command': argv[0] ?? 'none' },
+        () => runCommand(argv)
+      );
+    },
+    { tenantId: 'system', agentId: 'dedupe-concepts' }
+  );
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`Concept deduplication script failed: ${message}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/**
+ * Graph Schema Generation Script
+ *
+ * Writes the files derived from the graph schema (`GRAPH_SCHEMA` in
+ * packages/reg-intel-graph/src/schema/graphSchema.ts):
+ *   - scripts/memgraph-indices.cypher - Memgraph index script
+ *   - docs/architecture/graph/schema_registry.md - node and relationship reference
+ *
+ * Run it after changing the schema and commit the output. With `--check` it
+ * writes nothing and exits non-zero if either file is out of date (for CI).
+ *
+ * Usage:
+ *   pnpm graph:schema [--check]
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { generateIndexCypher, generateSchemaMarkdown } from '../packages/reg-intel-graph/src/index.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const OUTPUTS = [
+  { file: 'scripts/memgraph-indices.cypher', generate: generateIndexCypher },
+  { file: 'docs/architecture/graph/schema_registry.md', generate: generateSchemaMarkdown },
+];
+
+async function readExisting(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  const check = process.argv.includes('--check');
+  const outdated: string[] = [];
+
+  for (const output of OUTPUTS) {
+    const file = path.join(ROOT, output.file);
+    const content = output.generate();
+    if ((await readExisting(file)) === content) {
+      console.log(`✓ ${output.file} is up to date`);
+      continue;
+    }
+
+    if (check) {
+      outdated.push(output.file);
+      console.error(`✗ ${output.file} is out of date`);
+    } else {
+      await writeFile(file, content);
+      console.log(`✓ Wrote ${output.file}`);
+    }
+  }
+
+  if (outdated.length > 0) {
+    console.error('Run `pnpm graph:schema` and commit the result.');
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`Graph schema generation failed: ${message}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,44 @@
+/**
+ * Graph Change Log for Scripts
+ *
+ * Seed scripts record their writes in the copilot_audit graph change log, so
+ * a run can be diffed and rolled back with `pnpm graph:versions` like an
+ * ingestion batch.
+ *
+ * Usage:
+ *   import { createSeedChangeLog } from './graph-change-log.js';
+ *   const changeLog = createSeedChangeLog('seed-graph');
+ *   createGraphWriteService({ driver, ...changeLog });
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { SupabaseGraphVersionStore } from '../packages/reg-intel-graph/src/index.js';
+
+export interface SeedChangeLog {
+  /** Undefined when Supabase credentials are not set */
+  versionStore?: SupabaseGraphVersionStore;
+  batchId: string;
+  author: string;
+}
+
+/**
+ * Change log settings for one script run. The batch id and author can be
+ * overridden with GRAPH_BATCH_ID and GRAPH_AUTHOR.
+ */
+export function createSeedChangeLog(scriptName: string): SeedChangeLog {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+
+  return {
+    versionStore:
+      supabaseUrl && supabaseKey
+        ? new SupabaseGraphVersionStore(
+            createClient(supabaseUrl, supabaseKey, {
+              auth: { autoRefreshToken: false, persistSession: false },
+            })
+          )
+        : undefined,
+    batchId: process.env.GRAPH_BATCH_ID ?? `${scriptName}:${new Date().toISOString()}`,
+    author: process.env.GRAPH_AUTHOR ?? process.env.USER ?? scriptName,
+  };
+}
@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+/**
+ * Graph Versioning Script
+ *
+ * Snapshots, diffs, history and rollback for the global Memgraph graph, using
+ * the change log that GraphWriteService records in copilot_audit.
+ *
+ * Usage:
+ *   pnpm graph:versions snapshot <name> [--description <text>] [--author <name>]
+ *   pnpm graph:versions snapshots
+ *   pnpm graph:versions diff <fromSnapshot> <toSnapshot>
+ *   pnpm graph:versions diff --from <date> --to <date>
+ *   pnpm graph:versions history <nodeId> [--limit <n>]
+ *   pnpm graph:versions batches [--limit <n>]
+ *   pnpm graph:versions rollback <batchId> [--dry-run] [--force] [--author <name>]
+ *
+ * Environment Variables (from .env.local or .env):
+ *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
+ *   MEMGRAPH_USERNAME - Username (optional)
+ *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL - Supabase project URL
+ *   SUPABASE_SERVICE_ROLE_KEY - Service role key (the change log is read-only for other roles)
+ */
+
+import { loadEnv } from './load-env.js';
+import neo4j from 'neo4j-driver';
+import { createClient } from '@supabase/supabase-js';
+import {
+  SupabaseGraphVersionStore,
+  createBoltGraphClient,
+  createGraphVersioningService,
+  createGraphWriteService,
+  type GraphDiff,
+} from '../packages/reg-intel-graph/src/index.js';
+import { runWithScriptObservability } from './observability.js';
+
+// Load environment variables from .env.local or .env
+loadEnv();
+
+const MEMGRAPH_URI = process.env.MEMGRAPH_URI || 'bolt://localhost:7687';
+const MEMGRAPH_USERNAME = process.env.MEMGRAPH_USERNAME;
+const MEMGRAPH_PASSWORD = process.env.MEMGRAPH_PASSWORD;
+
+const USAGE = 'Usage: pnpm graph:versions <snapshot|snapshots|diff|history|batches|rollback> [args]';
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function positionalArgs(argv: string[]): string[] {
+  const values = new Set(
+    ['--description', '--author', '--from', '--to', '--limit'].map(name => optionValue(argv, name))
+  );
+  return argv.filter(arg => !arg.startsWith('--') && !values.has(arg));
+}
+
+function parseDate(value: string | undefined, name: string): Date {
+  const date = value ? new Date(value) : new Date(Number.NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} must be a date, e.g. 2026-10-01 or 2026-10-01T09:00:00Z`);
+  }
+  return date;
+}
+
+function createVersionStore(): SupabaseGraphVersionStore {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase credentials required. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  return new SupabaseGraphVersionStore(
+    createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+  );
+}
+
+function formatDiff(diff: GraphDiff): string {
+  const lines = [
+    `Nodes: +${diff.nodes.added.length} -${diff.nodes.removed.length} ~${diff.nodes.updated.length}`,
+    ...diff.nodes.added.map(node => `  + ${node.label ?? 'Node'} ${node.id}`),
+    ...diff.nodes.removed.map(node => `  - ${node.label ?? 'Node'} ${node.id}`),
+    ...diff.nodes.updated.map(
+      change => `  ~ ${change.key.label ?? 'Node'} ${change.key.id} (${change.changedProperties.join(', ')})`
+    ),
+    `Relationships: +${diff.edges.added.length} -${diff.edges.removed.length} ~${diff.edges.updated.length}`,
+    ...diff.edges.added.map(edge => `  + ${edge.source} -[${edge.type}]-> ${edge.target}`),
+    ...diff.edges.removed.map(edge => `  - ${edge.source} -[${edge.type}]-> ${edge.target}`),
+    ...diff.edges.updated.map(
+      change =>
+        `  ~ ${change.key.source} -[${change.key.type}]-> ${change.key.target} (${change.changedProperties.join(', ')})`
+    ),
+  ];
+  return lines.join('\n');
+}
+
+async function runCommand(argv: string[]) {
+  const [command, ...rest] = positionalArgs(argv);
+  const author = optionValue(argv, '--author') ?? process.env.USER;
+  const limit = optionValue(argv, '--limit');
+
+  const driver = neo4j.driver(
+    MEMGRAPH_URI,
+    MEMGRAPH_USERNAME && MEMGRAPH_PASSWORD ? neo4j.auth.basic(MEMGRAPH_USERNAME, MEMGRAPH_PASSWORD) : undefined
+  );
+  const graphClient = createBoltGraphClient({
+    uri: MEMGRAPH_URI,
+    username: MEMGRAPH_USERNAME,
+    password: MEMGRAPH_PASSWORD,
+  });
+  const store = createVersionStore();
+  const versioning = createGraphVersioningService({
+    store,
+    graphReader: graphClient,
+    writeService: createGraphWriteService({
+      driver,
+      defaultSource: 'script',
+      tenantId: 'system',
+      versionStore: store,
+      author,
+    }),
+  });
+
+  const print = (value: unknown) =>
+    process.stdout.write(`${typeof value === 'string' ? value : JSON.stringify(value, null, 2)}\n`);
+
+  try {
+    switch (command) {
+      case 'snapshot': {
+        if (!rest[0]) throw new Error('Usage: pnpm graph:versions snapshot <name>');
+        print(await versioning.exportSnapshot(rest[0], {
+          description: optionValue(argv, '--description'),
+          createdBy: author,
+        }));
+        break;
+      }
+      case 'snapshots':
+        print(await store.listSnapshots());
+        break;
+      case 'diff': {
+        const diff = rest.length >= 2
+          ? await versioning.diffSnapshots(rest[0], rest[1])
+          : await versioning.diffBetween(
+              parseDate(optionValue(argv, '--from'), '--from'),
+              parseDate(optionValue(argv, '--to') ?? new Date().toISOString(), '--to')
+            );
+        print(argv.includes('--json') ? diff : formatDiff(diff));
+        break;
+      }
+      case 'history': {
+        if (!rest[0]) throw new Error('Usage: pnpm graph:versions history <nodeId>');
+        print(await versioning.getNodeHistory(rest[0], limit ? Number(limit) : undefined));
+        break;
+      }
+      case 'batches':
+        print(await store.listBatches(limit ? Number(limit) : undefined));
+        break;
+      case 'rollback': {
+        if (!rest[0]) throw new Error('Usage: pnpm graph:versions rollback <batchId> [--dry-run] [--force]');
+        const report = await versioning.rollbackBatch(rest[0], {
+          author,
+          dryRun: argv.includes('--dry-run'),
+          force: argv.includes('--force'),
+        });
+        print(report);
+        if (report.conflicts.length > 0 && !argv.includes('--force')) {
+          process.stderr.write(
+            `${report.conflicts.length} change(s) were left in place because they changed after the batch; ` +
+              'rerun with --force to revert them anyway\n'
+          );
+        }
+        break;
+      }
+      default:
+        throw new Error(USAGE);
+    }
+  } finally {
+    await graphClient.close();
+    await driver.close();
+  }
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+
+  await runWithScriptObservability(
+    'graph-versions',
+    async ({ withSpan }) => {
+      await withSpan(
+        'script.graph-versions',
+        { 'script.name': 'graph-versions', 'graph.versions.command': argv[0] ?? 'none' },
+        () => runCommand(argv)
+      );
+    },
+    { tenantId: 'system', agentId: 'graph-versions' }
+  );
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`Graph versioning script failed: ${message}\n`);
+  process.exitCode = 1;
+});
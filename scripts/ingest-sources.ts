@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+/**
+ * Regulatory Source Ingestion Script
+ *
+ * Ingests a folder of legislation and guidance documents (Akoma Ntoso XML,
+ * HTML or PDF-extracted text, described by a manifest.json) into Memgraph.
+ * All writes use GraphWriteService to enforce ingress guard aspects. Runs are
+ * idempotent and print a diff report; nothing is ever deleted.
+ *
+ * Each run is recorded in the graph change log under its own batch id, so a bad
+ * run can be inspected and rolled back with `pnpm graph:versions rollback <batch>`.
+ *
+ * Usage:
+ *   pnpm ingest:sources <folder> [--dry-run] [--json] [--batch-id <id>] [--author <name>]
+ *
+ * Example:
+ *   pnpm ingest:sources packages/reg-intel-graph/src/ingestion/__fixtures__/ie-sample --dry-run
+ *
+ * Environment Variables (from .env.local or .env):
+ *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
+ *   MEMGRAPH_USERNAME - Username (optional)
+ *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY - Change log storage (optional;
+ *     without them the run is not recorded and cannot be rolled back)
+ */
+
+import { loadEnv } from './load-env.js';
+import neo4j, { Driver } from 'neo4j-driver';
+import { createClient } from '@supabase/supabase-js';
+import {
+  SupabaseGraphVersionStore,
+  createBoltGraphClient,
+  createGraphWriteService,
+  createSourceIngestionPipeline,
+  formatSourceIngestionReport,
+  loadSourceFolder,
+} from '../packages/reg-intel-graph/src/index.js';
+import { runWithScriptObservability } from './observability.js';
+import type { Logger } from 'pino';
+
+// Load environment variables from .env.local or .env
+loadEnv();
+
+const MEMGRAPH_URI = process.env.MEMGRAPH_URI || 'bolt://localhost:7687';
+const MEMGRAPH_USERNAME = process.env.MEMGRAPH_USERNAME;
+const MEMGRAPH_PASSWORD = process.env.MEMGRAPH_PASSWORD;
+
+interface IngestArgs {
+  folder: string;
+  dryRun: boolean;
+  json: boolean;
+  batchId: string;
+  author: string;
+}
+
+function optionValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function parseArgs(argv: string[]): IngestArgs {
+  const optionValues = new Set(['--batch-id', '--author'].map(name => optionValue(argv, name)));
+  const folder = argv.find(arg => !arg.startsWith('--') && !optionValues.has(arg));
+  if (!folder) {
+    throw new Error(
+      'Usage: pnpm ingest:sources <folder> [--dry-run] [--json] [--batch-id <id>] [--author <name>]'
+    );
+  }
+  return {
+    folder,
+    dryRun: argv.includes('--dry-run'),
+    json: argv.includes('--json'),
+    batchId: optionValue(argv, '--batch-id') ?? `ingest-sources:${new Date().toISOString()}`,
+    author: optionValue(argv, '--author') ?? process.env.USER ?? 'ingest-sources',
+  };
+}
+
+/**
+ * Change log store, when Supabase credentials are configured
+ */
+function createVersionStore(): SupabaseGraphVersionStore | undefined {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    return undefined;
+  }
+
+  return new SupabaseGraphVersionStore(
+    createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+  );
+}
+
+/**
+ * Create driver connection
+ */
+function createDriver(): Driver {
+  let auth;
+  if (MEMGRAPH_USERNAME && MEMGRAPH_PASSWORD) {
+    auth = neo4j.auth.basic(MEMGRAPH_USERNAME, MEMGRAPH_PASSWORD);
+  } else {
+    auth = undefined;
+  }
+
+  return neo4j.driver(MEMGRAPH_URI, auth);
+}
+
+/**
+ * Ingest a source folder using GraphWriteService
+ */
+async function ingestSources(args: IngestArgs, logger: Logger) {
+  const documents = await loadSourceFolder(args.folder);
+  logger.info({ folder: args.folder, documents: documents.length, dryRun: args.dryRun }, 'Loaded source documents');
+
+  const driver = createDriver();
+  const graphClient = createBoltGraphClient({
+    uri: MEMGRAPH_URI,
+    username: MEMGRAPH_USERNAME,
+    password: MEMGRAPH_PASSWORD,
+  });
+
+  try {
+    await driver.verifyConnectivity();
+
+    const versionStore = args.dryRun ? undefined : createVersionStore();
+    if (versionStore) {
+      logger.info({ batchId: args.batchId, author: args.author }, 'Recording graph changes under batch');
+    } else if (!args.dryRun) {
+      logger.warn('Supabase credentials not set; this run will not be recorded in the graph change log');
+    }
+
+    const pipeline = createSourceIngestionPipeline({
+      writeService: createGraphWriteService({
+        driver,
+        defaultSource: 'ingestion',
+        tenantId: 'system', // Regulatory sources are global, not tenant-specific
+        versionStore,
+        batchId: args.batchId,
+        author: args.author,
+      }),
+      graphReader: graphClient,
+    });
+
+    const report = await pipeline.run(documents, { dryRun: args.dryRun });
+    process.stdout.write(`${args.json ? JSON.stringify(report, null, 2) : formatSourceIngestionReport(report)}\n`);
+    if (versionStore && !args.json) {
+      process.stdout.write(`Change log batch: ${args.batchId}\n`);
+    }
+  } finally {
+    await graphClient.close();
+    await driver.close();
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  await runWithScriptObservability(
+    'ingest-sources',
+    async ({ logger, withSpan }) => {
+      await withSpan(
+        'script.ingest-sources',
+        { 'script.name': 'ingest-sources', 'memgraph.uri': MEMGRAPH_URI, 'ingest.dry_run': args.dryRun },
+        () => ingestSources(args, logger)
+      );
+    },
+    { tenantId: 'system', agentId: 'ingest-sources' }
+  );
+}
+
+main().catch(error => {
+  const message = error instanceof Error ? `${error.message}\n${error.stack ?? ''}` : String(error);
+  process.stderr.write(`Source ingestion script failed: ${message}\n`);
+  process.exitCode = 1;
+});
@@ -1,35 +1,44 @@
 -- =====================================================
 -- Memgraph Index Creation Script
--- For Regulatory Intelligence Copilot Graph Database
+-- Graph schema v0.6
 -- =====================================================
 --
--- Usage: Run this script against Memgraph to create all required indices
--- for optimal query performance.
---
--- Note: Memgraph supports label-property indices which significantly improve
--- query performance for property lookups on specific node labels.
+-- Generated from packages/reg-intel-graph/src/schema/graphSchema.ts by `pnpm graph:schema`.
+-- Do not edit by hand; change the schema and regenerate.
 --
+-- Usage: mgconsole < scripts/memgraph-indices.cypher
 -- =====================================================
 
 -- -----------------------------------------------------
--- Primary lookup indices (critical for query performance)
--- These indices support the main ID-based lookups used throughout the application
+-- Primary lookup indices (one per node label)
 -- -----------------------------------------------------
 
+CREATE INDEX ON :Jurisdiction(id);
+CREATE INDEX ON :Region(id);
+CREATE INDEX ON :Concept(id);
+CREATE INDEX ON :Label(id);
+CREATE INDEX ON :Agreement(id);
+CREATE INDEX ON :Treaty(id);
+CREATE INDEX ON :Regime(id);
+CREATE INDEX ON :Statute(id);
+CREATE INDEX ON :Section(id);
 CREATE INDEX ON :Benefit(id);
 CREATE INDEX ON :Relief(id);
-CREATE INDEX ON :Section(id);
-CREATE INDEX ON :Jurisdiction(id);
+CREATE INDEX ON :Condition(id);
+CREATE INDEX ON :Timeline(id);
 CREATE INDEX ON :ProfileTag(id);
+CREATE INDEX ON :Community(id);
+CREATE INDEX ON :EURegulation(id);
+CREATE INDEX ON :EUDirective(id);
+CREATE INDEX ON :Guidance(id);
+CREATE INDEX ON :Case(id);
+CREATE INDEX ON :Update(id);
+CREATE INDEX ON :ChangeEvent(id);
 CREATE INDEX ON :Obligation(id);
-CREATE INDEX ON :Timeline(id);
-CREATE INDEX ON :Condition(id);
 CREATE INDEX ON :Threshold(id);
 CREATE INDEX ON :Rate(id);
 CREATE INDEX ON :Form(id);
-CREATE INDEX ON :Concept(id);
 CREATE INDEX ON :PRSIClass(id);
-CREATE INDEX ON :NIClass(id);
 CREATE INDEX ON :LifeEvent(id);
 CREATE INDEX ON :Penalty(id);
 CREATE INDEX ON :LegalEntity(id);
@@ -37,45 +46,39 @@ CREATE INDEX ON :TaxCredit(id);
 CREATE INDEX ON :RegulatoryBody(id);
 CREATE INDEX ON :AssetClass(id);
 CREATE INDEX ON :MeansTest(id);
+CREATE INDEX ON :TaxYear(id);
+CREATE INDEX ON :NIClass(id);
 CREATE INDEX ON :BenefitCap(id);
 CREATE INDEX ON :CoordinationRule(id);
-CREATE INDEX ON :TaxYear(id);
 
 -- -----------------------------------------------------
 -- Timestamp indices for change detection
--- Critical for the GraphChangeDetector's timestamp-based queries
 -- -----------------------------------------------------
 
+CREATE INDEX ON :Section(updated_at);
 CREATE INDEX ON :Benefit(updated_at);
 CREATE INDEX ON :Relief(updated_at);
-CREATE INDEX ON :Section(updated_at);
 CREATE INDEX ON :Obligation(updated_at);
 
 -- -----------------------------------------------------
--- Compound/property indices for common queries
--- These support frequently used filter conditions
+-- Property indices for common query filters
 -- -----------------------------------------------------
 
-CREATE INDEX ON :TaxYear(year);
-CREATE INDEX ON :TaxYear(jurisdiction);
-CREATE INDEX ON :Rate(category);
 CREATE INDEX ON :Threshold(unit);
+CREATE INDEX ON :Rate(category);
 CREATE INDEX ON :TaxCredit(tax_year);
+CREATE INDEX ON :TaxYear(year);
+CREATE INDEX ON :TaxYear(jurisdiction);
 CREATE INDEX ON :CoordinationRule(home_jurisdiction);
 CREATE INDEX ON :CoordinationRule(host_jurisdiction);
 
 -- -----------------------------------------------------
--- Label search indices
--- Support keyword searches in graph queries
+-- Label and name search indices
 -- -----------------------------------------------------
 
-CREATE INDEX ON :Benefit(label);
-CREATE INDEX ON :Relief(label);
 CREATE INDEX ON :Section(label);
+CREATE INDEX ON :Section(name);
 CREATE INDEX ON :Benefit(name);
+CREATE INDEX ON :Benefit(label);
 CREATE INDEX ON :Relief(name);
-CREATE INDEX ON :Section(name);
-
--- =====================================================
--- End of index creation script
--- =====================================================
+CREATE INDEX ON :Relief(label);
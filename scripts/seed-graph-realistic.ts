@@ -18,6 +18,9 @@
  * - Home office expenses
  *
  * Run: pnpm seed:graph:realistic
+ *
+ * With SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY set, the run is recorded in
+ * the graph change log (batch and author from GRAPH_BATCH_ID / GRAPH_AUTHOR).
  */
 
 import { loadEnv } from './load-env.js';
@@ -30,6 +33,7 @@ import {
   createGraphWriteService,
   type GraphWriteService,
 } from '../packages/reg-intel-graph/src/index.js';
+import { createSeedChangeLog } from './graph-change-log.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -68,10 +72,17 @@ function logError(...args: unknown[]) {
 async function seedGraph(logger: typeof pino.prototype) {
   const driver = createDriver();
 
+  const changeLog = createSeedChangeLog('seed-graph-realistic');
+  if (changeLog.versionStore) {
+    log(`📝 Recording graph changes under batch ${changeLog.batchId}`);
+  } else {
+    log('⚠️  Supabase credentials not set; this run will not be recorded in the graph change log');
+  }
   const writeService: GraphWriteService = createGraphWriteService({
     driver,
     defaultSource: 'script',
     tenantId: 'system',
+    ...changeLog,
   });
 
   try {
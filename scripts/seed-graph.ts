@@ -12,6 +12,9 @@
  *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
  *   MEMGRAPH_USERNAME - Username (optional)
  *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY - Change log storage (optional;
+ *     without them the run is not recorded and cannot be rolled back)
+ *   GRAPH_BATCH_ID / GRAPH_AUTHOR - Change log batch and author (optional)
  */
 
 import { loadEnv } from './load-env.js';
@@ -20,6 +23,7 @@ import {
   createGraphWriteService,
   type GraphWriteService,
 } from '../packages/reg-intel-graph/src/index.js';
+import { createSeedChangeLog } from './graph-change-log.js';
 import { runWithScriptObservability } from './observability.js';
 import type { Logger } from 'pino';
 
@@ -84,11 +88,18 @@ async function seedGraph(logger: Logger) {
     log('🧹 Clearing existing data...');
     await clearGraph(driver);
 
-    // Create GraphWriteService
+    // Create GraphWriteService, recording the run in the graph change log
+    const changeLog = createSeedChangeLog('seed-graph');
+    if (changeLog.versionStore) {
+      log(`📝 Recording graph changes under batch ${changeLog.batchId}`);
+    } else {
+      log('⚠️  Supabase credentials not set; this run will not be recorded in the graph change log');
+    }
     const writeService: GraphWriteService = createGraphWriteService({
       driver,
       defaultSource: 'ingestion',
       tenantId: 'system', // System-level seeding, not tenant-specific
+      ...changeLog,
     });
 
     // Create Jurisdictions
@@ -16,6 +16,9 @@
  *   MEMGRAPH_URI - Bolt URI (default: bolt://localhost:7687)
  *   MEMGRAPH_USERNAME - Username (optional)
  *   MEMGRAPH_PASSWORD - Password (optional)
+ *   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY - Change log storage (optional;
+ *     without them the run is not recorded and cannot be rolled back)
+ *   GRAPH_BATCH_ID / GRAPH_AUTHOR - Change log batch and author (optional)
  */
 
 import { loadEnv } from './load-env.js';
@@ -24,6 +27,7 @@ import {
   createGraphWriteService,
   type GraphWriteService,
 } from '../packages/reg-intel-graph/src/index.js';
+import { createSeedChangeLog } from './graph-change-log.js';
 import { runWithScriptObservability } from './observability.js';
 import type { Logger } from 'pino';
 
@@ -72,11 +76,18 @@ async function seedSpecialJurisdictions(logger: Logger) {
     await driver.verifyConnectivity();
     log('✅ Connected to Memgraph');
 
-    // Create GraphWriteService
+    // Create GraphWriteService, recording the run in the graph change log
+    const changeLog = createSeedChangeLog('seed-special-jurisdictions');
+    if (changeLog.versionStore) {
+      log(`📝 Recording graph changes under batch ${changeLog.batchId}`);
+    } else {
+      log('⚠️  Supabase credentials not set; this run will not be recorded in the graph change log');
+    }
     const writeService: GraphWriteService = createGraphWriteService({
       driver,
       defaultSource: 'ingestion',
       tenantId: 'system',
+      ...changeLog,
     });
 
     // 1. Create Jurisdictions
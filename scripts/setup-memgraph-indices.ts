@@ -2,6 +2,8 @@
  * Memgraph Index Setup Script
  *
  * Programmatically creates all required indices in Memgraph for optimal query performance.
+ * The indices are derived from the graph schema (`GRAPH_SCHEMA` in reg-intel-graph):
+ * an `id` index for every node label plus each property flagged with `index`.
  *
  * Usage:
  *   pnpm setup:indices
@@ -14,69 +16,13 @@
 
 import { loadEnv } from './load-env.js';
 import neo4j, { Driver, Session } from 'neo4j-driver';
+import { generateIndexStatements } from '../packages/reg-intel-graph/src/index.js';
 
 // Load environment variables from .env.local or .env
 loadEnv();
 
-// Index definitions organized by category
-const INDICES = {
-  // Primary ID indices for all node types
-  primaryIds: [
-    'CREATE INDEX ON :Benefit(id)',
-    'CREATE INDEX ON :Relief(id)',
-    'CREATE INDEX ON :Section(id)',
-    'CREATE INDEX ON :Jurisdiction(id)',
-    'CREATE INDEX ON :ProfileTag(id)',
-    'CREATE INDEX ON :Obligation(id)',
-    'CREATE INDEX ON :Timeline(id)',
-    'CREATE INDEX ON :Condition(id)',
-    'CREATE INDEX ON :Threshold(id)',
-    'CREATE INDEX ON :Rate(id)',
-    'CREATE INDEX ON :Form(id)',
-    'CREATE INDEX ON :Concept(id)',
-    'CREATE INDEX ON :PRSIClass(id)',
-    'CREATE INDEX ON :NIClass(id)',
-    'CREATE INDEX ON :LifeEvent(id)',
-    'CREATE INDEX ON :Penalty(id)',
-    'CREATE INDEX ON :LegalEntity(id)',
-    'CREATE INDEX ON :TaxCredit(id)',
-    'CREATE INDEX ON :RegulatoryBody(id)',
-    'CREATE INDEX ON :AssetClass(id)',
-    'CREATE INDEX ON :MeansTest(id)',
-    'CREATE INDEX ON :BenefitCap(id)',
-    'CREATE INDEX ON :CoordinationRule(id)',
-    'CREATE INDEX ON :TaxYear(id)',
-  ],
-
-  // Timestamp indices for change detection
-  timestamps: [
-    'CREATE INDEX ON :Benefit(updated_at)',
-    'CREATE INDEX ON :Relief(updated_at)',
-    'CREATE INDEX ON :Section(updated_at)',
-    'CREATE INDEX ON :Obligation(updated_at)',
-  ],
-
-  // Property indices for common query filters
-  properties: [
-    'CREATE INDEX ON :TaxYear(year)',
-    'CREATE INDEX ON :TaxYear(jurisdiction)',
-    'CREATE INDEX ON :Rate(category)',
-    'CREATE INDEX ON :Threshold(unit)',
-    'CREATE INDEX ON :TaxCredit(tax_year)',
-    'CREATE INDEX ON :CoordinationRule(home_jurisdiction)',
-    'CREATE INDEX ON :CoordinationRule(host_jurisdiction)',
-  ],
-
-  // Label/name search indices
-  search: [
-    'CREATE INDEX ON :Benefit(label)',
-    'CREATE INDEX ON :Relief(label)',
-    'CREATE INDEX ON :Section(label)',
-    'CREATE INDEX ON :Benefit(name)',
-    'CREATE INDEX ON :Relief(name)',
-    'CREATE INDEX ON :Section(name)',
-  ],
-};
+// Index definitions organized by category, generated from the graph schema
+const INDICES = generateIndexStatements();
 
 async function createIndex(session: Session, indexQuery: string): Promise<void> {
   try {
@@ -0,0 +1,160 @@
+-- Graph versioning: change log and named snapshots for the global Memgraph graph.
+--
+-- GraphWriteService appends one row to graph_change_log for every committed
+-- node or relationship write, with the properties before and after the write.
+-- The log answers "who changed this node and when", diffs between two dates,
+-- and rollback of an ingestion batch. graph_snapshots stores named exports of
+-- the whole graph for diffing two points in time.
+--
+-- The graph holds only public regulatory rules, so rows carry no tenant data;
+-- tenant_id is the audit identifier of the writer (e.g. 'system' for ingestion).
+
+
+CREATE TABLE IF NOT EXISTS "copilot_audit"."graph_change_log" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "batch_id" "text",
+    "author" "text",
+    "source" "text" NOT NULL,
+    "tenant_id" "text",
+    "entity" "text" NOT NULL,
+    "change_type" "text" NOT NULL,
+    "node_id" "text",
+    "node_label" "text",
+    "edge_source" "text",
+    "edge_source_label" "text",
+    "edge_target" "text",
+    "edge_target_label" "text",
+    "edge_type" "text",
+    "before" "jsonb",
+    "after" "jsonb",
+    "changed_at" timestamp with time zone NOT NULL,
+    "recorded_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "graph_change_log_entity_check" CHECK (("entity" = ANY (ARRAY['node'::"text", 'edge'::"text"]))),
+    CONSTRAINT "graph_change_log_change_type_check" CHECK (("change_type" = ANY (ARRAY['added'::"text", 'updated'::"text", 'removed'::"text"]))),
+    CONSTRAINT "graph_change_log_source_check" CHECK (("source" = ANY (ARRAY['ingestion'::"text", 'agent'::"text", 'background_job'::"text", 'script'::"text"])))
+);
+
+
+ALTER TABLE "copilot_audit"."graph_change_log" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "copilot_audit"."graph_change_log" IS 'Append-only log of committed writes to the global Memgraph graph. Written by GraphWriteService with the service role; readable by compliance auditors and super admins.';
+
+
+
+COMMENT ON COLUMN "copilot_audit"."graph_change_log"."batch_id" IS 'Groups the writes of one ingestion run or job so they can be diffed and rolled back together';
+
+
+
+COMMENT ON COLUMN "copilot_audit"."graph_change_log"."before" IS 'Node or relationship properties before the write; NULL when the write created it';
+
+
+
+COMMENT ON COLUMN "copilot_audit"."graph_change_log"."after" IS 'Node or relationship properties after the write; NULL when the write removed it';
+
+
+
+CREATE TABLE IF NOT EXISTS "copilot_audit"."graph_snapshots" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "name" "text" NOT NULL,
+    "description" "text",
+    "created_by" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "node_count" integer DEFAULT 0 NOT NULL,
+    "edge_count" integer DEFAULT 0 NOT NULL,
+    "nodes" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "edges" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL
+);
+
+
+ALTER TABLE "copilot_audit"."graph_snapshots" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "copilot_audit"."graph_snapshots" IS 'Named exports of every node and relationship in the global graph, used to diff the graph between two points in time.';
+
+
+
+CREATE OR REPLACE VIEW "copilot_audit"."graph_change_batches" WITH ("security_invoker"='true') AS
+ SELECT "batch_id",
+    ("array_agg"("author" ORDER BY "changed_at"))[1] AS "author",
+    ("array_agg"("source" ORDER BY "changed_at"))[1] AS "source",
+    "count"(*) AS "change_count",
+    "min"("changed_at") AS "first_change_at",
+    "max"("changed_at") AS "last_change_at"
+   FROM "copilot_audit"."graph_change_log"
+  WHERE ("batch_id" IS NOT NULL)
+  GROUP BY "batch_id";
+
+
+ALTER VIEW "copilot_audit"."graph_change_batches" OWNER TO "postgres";
+
+
+COMMENT ON VIEW "copilot_audit"."graph_change_batches" IS 'One row per write batch in graph_change_log, used to pick a batch to inspect or roll back.';
+
+
+
+ALTER TABLE ONLY "copilot_audit"."graph_change_log"
+    ADD CONSTRAINT "graph_change_log_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "copilot_audit"."graph_snapshots"
+    ADD CONSTRAINT "graph_snapshots_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "copilot_audit"."graph_snapshots"
+    ADD CONSTRAINT "graph_snapshots_name_key" UNIQUE ("name");
+
+
+
+CREATE INDEX "idx_graph_change_log_batch" ON "copilot_audit"."graph_change_log" USING "btree" ("batch_id", "changed_at");
+
+
+
+CREATE INDEX "idx_graph_change_log_changed_at" ON "copilot_audit"."graph_change_log" USING "btree" ("changed_at" DESC);
+
+
+
+CREATE INDEX "idx_graph_change_log_node" ON "copilot_audit"."graph_change_log" USING "btree" ("node_id", "changed_at" DESC);
+
+
+
+CREATE INDEX "idx_graph_change_log_edge_source" ON "copilot_audit"."graph_change_log" USING "btree" ("edge_source", "changed_at" DESC);
+
+
+
+CREATE INDEX "idx_graph_change_log_edge_target" ON "copilot_audit"."graph_change_log" USING "btree" ("edge_target", "changed_at" DESC);
+
+
+
+ALTER TABLE "copilot_audit"."graph_change_log" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "copilot_audit"."graph_snapshots" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "graph_change_log_compliance" ON "copilot_audit"."graph_change_log" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "copilot_core"."platform_admins"
+  WHERE (("platform_admins"."id" = "auth"."uid"()) AND ("platform_admins"."role" = ANY (ARRAY['compliance_auditor'::"text", 'super_admin'::"text"]))))));
+
+
+
+CREATE POLICY "graph_snapshots_compliance" ON "copilot_audit"."graph_snapshots" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "copilot_core"."platform_admins"
+  WHERE (("platform_admins"."id" = "auth"."uid"()) AND ("platform_admins"."role" = ANY (ARRAY['compliance_auditor'::"text", 'super_admin'::"text"]))))));
+
+
+
+GRANT ALL ON TABLE "copilot_audit"."graph_change_log" TO "service_role";
+GRANT SELECT ON TABLE "copilot_audit"."graph_change_log" TO "authenticated";
+
+
+
+GRANT SELECT ON TABLE "copilot_audit"."graph_change_batches" TO "service_role";
+GRANT SELECT ON TABLE "copilot_audit"."graph_change_batches" TO "authenticated";
+
+
+
+GRANT ALL ON TABLE "copilot_audit"."graph_snapshots" TO "service_role";
+GRANT SELECT ON TABLE "copilot_audit"."graph_snapshots" TO "authenticated";
@@ -0,0 +1,100 @@
+-- Concept curation: review queue for concepts captured by the LLM.
+--
+-- When concept curation is enabled, CanonicalConceptHandler stages each new
+-- concept emitted through capture_concepts as a pending proposal instead of
+-- writing it to the graph. Curators approve a proposal, merge it into an
+-- existing Concept, or reject it from copilot-admin; approved and merged
+-- proposals are then written to the graph (applied_at is set) and only then
+-- become visible to agents.
+--
+-- Provenance (tenant, conversation, model, trace) stays in this table and is
+-- never written to the graph.
+
+
+CREATE TABLE IF NOT EXISTS "copilot_core"."concept_proposals" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "status" "text" DEFAULT 'pending'::"text" NOT NULL,
+    "concept_id" "text" NOT NULL,
+    "pref_label" "text" NOT NULL,
+    "concept" "jsonb" NOT NULL,
+    "tenant_id" "text",
+    "conversation_id" "text",
+    "model" "text",
+    "trace_id" "text",
+    "suggested_duplicates" "jsonb" DEFAULT '[]'::"jsonb" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "reviewed_by" "text",
+    "reviewed_at" timestamp with time zone,
+    "review_note" "text",
+    "merged_into_id" "text",
+    "applied_at" timestamp with time zone,
+    CONSTRAINT "concept_proposals_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'approved'::"text", 'merged'::"text", 'rejected'::"text"]))),
+    CONSTRAINT "concept_proposals_merge_target_check" CHECK ((("status" <> 'merged'::"text") OR ("merged_into_id" IS NOT NULL)))
+);
+
+
+ALTER TABLE "copilot_core"."concept_proposals" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "copilot_core"."concept_proposals" IS 'Concepts captured by the LLM awaiting curator review. Only approved or merged proposals are written to the graph.';
+
+
+
+COMMENT ON COLUMN "copilot_core"."concept_proposals"."concept_id" IS 'Graph Concept ID the proposal is created under when approved';
+
+
+
+COMMENT ON COLUMN "copilot_core"."concept_proposals"."concept" IS 'Captured concept payload as emitted by capture_concepts';
+
+
+
+COMMENT ON COLUMN "copilot_core"."concept_proposals"."suggested_duplicates" IS 'Existing Concepts whose preferred or alternative label matched the proposal when it was captured';
+
+
+
+COMMENT ON COLUMN "copilot_core"."concept_proposals"."merged_into_id" IS 'Existing Concept the proposal''s labels were added to (status merged)';
+
+
+
+COMMENT ON COLUMN "copilot_core"."concept_proposals"."applied_at" IS 'When an approved or merged proposal was written to the graph; NULL until then';
+
+
+
+ALTER TABLE ONLY "copilot_core"."concept_proposals"
+    ADD CONSTRAINT "concept_proposals_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE UNIQUE INDEX "idx_concept_proposals_pending_concept" ON "copilot_core"."concept_proposals" USING "btree" ("concept_id") WHERE ("status" = 'pending'::"text");
+
+
+
+CREATE INDEX "idx_concept_proposals_concept" ON "copilot_core"."concept_proposals" USING "btree" ("concept_id", "created_at" DESC);
+
+
+
+CREATE INDEX "idx_concept_proposals_status" ON "copilot_core"."concept_proposals" USING "btree" ("status", "created_at");
+
+
+
+CREATE INDEX "idx_concept_proposals_unapplied" ON "copilot_core"."concept_proposals" USING "btree" ("created_at") WHERE (("status" = ANY (ARRAY['approved'::"text", 'merged'::"text"])) AND ("applied_at" IS NULL));
+
+
+
+ALTER TABLE "copilot_core"."concept_proposals" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "concept_proposals_curators_select" ON "copilot_core"."concept_proposals" FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM "copilot_core"."platform_admins"
+  WHERE (("platform_admins"."id" = "auth"."uid"()) AND ("platform_admins"."role" = ANY (ARRAY['compliance_auditor'::"text", 'super_admin'::"text"]))))));
+
+
+
+CREATE POLICY "concept_proposals_curators_update" ON "copilot_core"."concept_proposals" FOR UPDATE USING ((EXISTS ( SELECT 1
+   FROM "copilot_core"."platform_admins"
+  WHERE (("platform_admins"."id" = "auth"."uid"()) AND ("platform_admins"."role" = ANY (ARRAY['compliance_auditor'::"text", 'super_admin'::"text"]))))));
+
+
+
+GRANT ALL ON TABLE "copilot_core"."concept_proposals" TO "service_role";
+GRANT SELECT, UPDATE ON TABLE "copilot_core"."concept_proposals" TO "authenticated";
@@ -0,0 +1,65 @@
+-- Conversation scenarios: named fact sets compared side by side in a chat.
+--
+-- Each scenario belongs to a conversation path. When a path is branched, the
+-- chat API copies the source path's scenarios to the new path, so a branch
+-- can change its scenarios without affecting the original. Scenarios are
+-- deleted with their path or conversation.
+
+
+CREATE TABLE IF NOT EXISTS "copilot_core"."conversation_scenarios" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "tenant_id" "uuid" NOT NULL,
+    "conversation_id" "uuid" NOT NULL,
+    "path_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "facts" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "position" integer DEFAULT 0 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "conversation_scenarios_name_check" CHECK ((("char_length"("name") >= 1) AND ("char_length"("name") <= 80)))
+);
+
+
+ALTER TABLE "copilot_core"."conversation_scenarios" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "copilot_core"."conversation_scenarios" IS 'Named fact sets (income split, PRSI class, company status) a conversation path compares side by side';
+
+
+
+COMMENT ON COLUMN "copilot_core"."conversation_scenarios"."facts" IS 'ScenarioFacts: profile overrides, income by source, company profit, tax credits and eligibility facts';
+
+
+
+COMMENT ON COLUMN "copilot_core"."conversation_scenarios"."position" IS 'Column order of the scenario in comparison tables';
+
+
+
+ALTER TABLE ONLY "copilot_core"."conversation_scenarios"
+    ADD CONSTRAINT "conversation_scenarios_pkey" PRIMARY KEY ("id");
+
+
+
+CREATE INDEX "idx_conversation_scenarios_path" ON "copilot_core"."conversation_scenarios" USING "btree" ("tenant_id", "conversation_id", "path_id", "position");
+
+
+
+ALTER TABLE ONLY "copilot_core"."conversation_scenarios"
+    ADD CONSTRAINT "conversation_scenarios_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "copilot_core"."conversations"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "copilot_core"."conversation_scenarios"
+    ADD CONSTRAINT "conversation_scenarios_path_id_fkey" FOREIGN KEY ("path_id") REFERENCES "copilot_core"."conversation_paths"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE "copilot_core"."conversation_scenarios" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "conversation_scenarios_service_role_full_access" ON "copilot_core"."conversation_scenarios" TO "service_role" USING (true) WITH CHECK (true);
+
+
+
+GRANT ALL ON TABLE "copilot_core"."conversation_scenarios" TO "service_role";
+GRANT SELECT, INSERT, DELETE, UPDATE ON TABLE "copilot_core"."conversation_scenarios" TO "authenticated";
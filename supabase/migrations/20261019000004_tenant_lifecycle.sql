@@ -0,0 +1,56 @@
+-- Tenant lifecycle managed from copilot-admin.
+--
+-- Platform admins can suspend, restore and soft delete tenants from the
+-- tenants console. A suspended or deleted tenant keeps its data, but
+-- verify_tenant_access no longer grants its members access, so the chat app
+-- refuses requests made in that workspace until the tenant is restored.
+
+
+ALTER TABLE "copilot_core"."tenants"
+    ADD COLUMN IF NOT EXISTS "status" "text" DEFAULT 'active'::"text" NOT NULL,
+    ADD COLUMN IF NOT EXISTS "suspended_at" timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS "suspended_by" "uuid",
+    ADD COLUMN IF NOT EXISTS "suspension_reason" "text";
+
+
+ALTER TABLE "copilot_core"."tenants"
+    ADD CONSTRAINT "tenants_status_check" CHECK (("status" = ANY (ARRAY['active'::"text", 'suspended'::"text", 'trial'::"text", 'cancelled'::"text"])));
+
+
+ALTER TABLE "copilot_core"."tenants"
+    ADD CONSTRAINT "tenants_suspension_reason_check" CHECK ((("suspension_reason" IS NULL) OR ("char_length"("suspension_reason") <= 500)));
+
+
+
+COMMENT ON COLUMN "copilot_core"."tenants"."status" IS 'Lifecycle status: active, suspended (members lose access), trial or cancelled';
+
+
+
+COMMENT ON COLUMN "copilot_core"."tenants"."suspension_reason" IS 'Reason given by the platform admin who suspended the tenant';
+
+
+
+CREATE INDEX IF NOT EXISTS "idx_tenants_status" ON "copilot_core"."tenants" USING "btree" ("status") WHERE ("deleted_at" IS NULL);
+
+
+
+CREATE OR REPLACE FUNCTION "public"."verify_tenant_access"("p_user_id" "uuid", "p_tenant_id" "uuid") RETURNS TABLE("has_access" boolean, "role" "text", "status" "text")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO 'public', 'copilot_core'
+    AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (tm.status = 'active' AND t.deleted_at IS NULL AND t.status <> 'suspended')::boolean,
+    tm.role,
+    tm.status
+  FROM copilot_core.tenant_memberships tm
+  JOIN copilot_core.tenants t ON t.id = tm.tenant_id
+  WHERE tm.user_id = p_user_id
+    AND tm.tenant_id = p_tenant_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, NULL::text, NULL::text;
+  END IF;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Align tenant LLM policy egress modes with the LLM router.
+--
+-- The router's egress modes are enforce, report-only and off, but the
+-- original constraint accepted 'audit' instead of 'report-only', so policies
+-- saved from the copilot-admin LLM policy editor in report-only mode were
+-- rejected. Existing 'audit' rows are migrated to 'report-only'.
+
+
+ALTER TABLE "copilot_core"."tenant_llm_policies"
+    DROP CONSTRAINT IF EXISTS "tenant_llm_policies_egress_mode_check";
+
+
+UPDATE "copilot_core"."tenant_llm_policies"
+    SET "egress_mode" = 'report-only'
+    WHERE "egress_mode" = 'audit';
+
+
+ALTER TABLE "copilot_core"."tenant_llm_policies"
+    ADD CONSTRAINT "tenant_llm_policies_egress_mode_check" CHECK (("egress_mode" = ANY (ARRAY['enforce'::"text", 'report-only'::"text", 'off'::"text"])));
+
+
+
+COMMENT ON COLUMN "copilot_core"."tenant_llm_policies"."egress_mode" IS 'Default egress mode for the tenant: enforce, report-only or off (off requires allow_off_mode)';
+
+
+
+COMMENT ON COLUMN "copilot_core"."tenant_llm_policies"."updated_by" IS 'Platform admin who last saved the policy from copilot-admin';
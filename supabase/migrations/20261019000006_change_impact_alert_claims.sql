@@ -0,0 +1,57 @@
+-- Change impact alert claims: one row per graph change a conversation was
+-- alerted about.
+--
+-- Every demo-web instance watches the graph and sees the same changes. Before
+-- alerting, an instance inserts a claim for each change and conversation; the
+-- primary key lets only one instance insert it, and only that instance sends
+-- the alert. Change keys are derived from the node id and its new properties.
+--
+-- The GIN index backs the active_node_ids overlap filter used to find the
+-- conversations affected by a change.
+
+
+CREATE TABLE IF NOT EXISTS "copilot_core"."change_impact_alert_claims" (
+    "conversation_id" "uuid" NOT NULL,
+    "change_key" "text" NOT NULL,
+    "tenant_id" "uuid" NOT NULL,
+    "claimed_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+
+ALTER TABLE "copilot_core"."change_impact_alert_claims" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "copilot_core"."change_impact_alert_claims" IS 'Graph changes each conversation was alerted about, so that only one app instance sends each alert';
+
+
+
+COMMENT ON COLUMN "copilot_core"."change_impact_alert_claims"."change_key" IS 'updated:<node id>:<hash of the new properties> or removed:<node id>';
+
+
+
+ALTER TABLE ONLY "copilot_core"."change_impact_alert_claims"
+    ADD CONSTRAINT "change_impact_alert_claims_pkey" PRIMARY KEY ("conversation_id", "change_key");
+
+
+
+CREATE INDEX "idx_change_impact_alert_claims_tenant" ON "copilot_core"."change_impact_alert_claims" USING "btree" ("tenant_id");
+
+
+
+ALTER TABLE ONLY "copilot_core"."change_impact_alert_claims"
+    ADD CONSTRAINT "change_impact_alert_claims_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "copilot_core"."conversations"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE "copilot_core"."change_impact_alert_claims" ENABLE ROW LEVEL SECURITY;
+
+
+CREATE POLICY "change_impact_alert_claims_service_role_full_access" ON "copilot_core"."change_impact_alert_claims" TO "service_role" USING (true) WITH CHECK (true);
+
+
+
+GRANT ALL ON TABLE "copilot_core"."change_impact_alert_claims" TO "service_role";
+
+
+
+CREATE INDEX IF NOT EXISTS "conversation_contexts_active_node_ids_idx" ON "copilot_core"."conversation_contexts" USING "gin" ("active_node_ids");